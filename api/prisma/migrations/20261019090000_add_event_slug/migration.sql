@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN     "slug" VARCHAR(100);
+
+-- Backfill slugs for existing events (name-based, suffixed with the id prefix for uniqueness)
+UPDATE "events"
+SET "slug" = TRIM(BOTH '-' FROM LEFT(REGEXP_REPLACE(LOWER("name"), '[^a-z0-9]+', '-', 'g'), 80)) || '-' || LEFT("id", 8);
+
+-- AlterTable
+ALTER TABLE "events" ALTER COLUMN "slug" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "events_slug_key" ON "events"("slug");
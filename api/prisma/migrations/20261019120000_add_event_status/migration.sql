@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "EventStatus" AS ENUM ('draft', 'open', 'locked', 'archived');
+
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN     "status" "EventStatus" NOT NULL DEFAULT 'open';
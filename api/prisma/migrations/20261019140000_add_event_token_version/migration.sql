@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN     "token_version" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "waitlisted_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "users_event_id_waitlisted_at_idx" ON "users"("event_id", "waitlisted_at");
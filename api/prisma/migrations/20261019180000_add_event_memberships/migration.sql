@@ -0,0 +1,58 @@
+-- CreateEnum
+CREATE TYPE "EventRole" AS ENUM ('owner', 'co_organizer', 'viewer');
+
+-- CreateTable
+CREATE TABLE "event_memberships" (
+    "id" TEXT NOT NULL,
+    "event_id" TEXT NOT NULL,
+    "account_id" TEXT NOT NULL,
+    "role" "EventRole" NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "event_memberships_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "event_invites" (
+    "id" TEXT NOT NULL,
+    "event_id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "role" "EventRole" NOT NULL,
+    "token" TEXT NOT NULL,
+    "invited_by_account_id" TEXT NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "accepted_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "event_invites_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "event_memberships_account_id_idx" ON "event_memberships"("account_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_memberships_event_id_account_id_key" ON "event_memberships"("event_id", "account_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_invites_token_key" ON "event_invites"("token");
+
+-- CreateIndex
+CREATE INDEX "event_invites_event_id_idx" ON "event_invites"("event_id");
+
+-- AddForeignKey
+ALTER TABLE "event_memberships" ADD CONSTRAINT "event_memberships_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_memberships" ADD CONSTRAINT "event_memberships_account_id_fkey" FOREIGN KEY ("account_id") REFERENCES "accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_invites" ADD CONSTRAINT "event_invites_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_invites" ADD CONSTRAINT "event_invites_invited_by_account_id_fkey" FOREIGN KEY ("invited_by_account_id") REFERENCES "accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill owner memberships for existing events
+INSERT INTO "event_memberships" ("id", "event_id", "account_id", "role", "updated_at")
+SELECT gen_random_uuid()::TEXT, "id", "owner_account_id", 'owner', CURRENT_TIMESTAMP
+FROM "events";
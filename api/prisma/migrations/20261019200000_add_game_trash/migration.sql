@@ -0,0 +1,12 @@
+-- AlterEnum
+ALTER TYPE "ActivityEventType" ADD VALUE 'game_restored';
+
+-- AlterTable
+ALTER TABLE "games" ADD COLUMN "deleted_at" TIMESTAMP(3),
+ADD COLUMN "deleted_by_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "games_deleted_at_idx" ON "games"("deleted_at");
+
+-- AddForeignKey
+ALTER TABLE "games" ADD CONSTRAINT "games_deleted_by_id_fkey" FOREIGN KEY ("deleted_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
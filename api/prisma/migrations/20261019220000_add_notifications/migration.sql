@@ -0,0 +1,60 @@
+-- CreateEnum
+CREATE TYPE "NotificationType" AS ENUM ('bringer_added', 'game_deleted');
+
+-- CreateTable
+CREATE TABLE "game_followers" (
+    "id" TEXT NOT NULL,
+    "game_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "game_followers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "notifications" (
+    "id" TEXT NOT NULL,
+    "recipient_id" TEXT NOT NULL,
+    "actor_id" TEXT,
+    "type" "NotificationType" NOT NULL,
+    "game_id" TEXT,
+    "event_id" TEXT,
+    "metadata" JSONB,
+    "read_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "notifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "game_followers_game_id_idx" ON "game_followers"("game_id");
+
+-- CreateIndex
+CREATE INDEX "game_followers_user_id_idx" ON "game_followers"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "game_followers_game_id_user_id_key" ON "game_followers"("game_id", "user_id");
+
+-- CreateIndex
+CREATE INDEX "notifications_recipient_id_created_at_idx" ON "notifications"("recipient_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "notifications_game_id_idx" ON "notifications"("game_id");
+
+-- AddForeignKey
+ALTER TABLE "game_followers" ADD CONSTRAINT "game_followers_game_id_fkey" FOREIGN KEY ("game_id") REFERENCES "games"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "game_followers" ADD CONSTRAINT "game_followers_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_recipient_id_fkey" FOREIGN KEY ("recipient_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_actor_id_fkey" FOREIGN KEY ("actor_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_game_id_fkey" FOREIGN KEY ("game_id") REFERENCES "games"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
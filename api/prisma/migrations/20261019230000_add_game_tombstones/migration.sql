@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "game_tombstones" (
+    "id" TEXT NOT NULL,
+    "game_id" TEXT NOT NULL,
+    "event_id" TEXT,
+    "deleted_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "game_tombstones_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "game_tombstones_event_id_deleted_at_idx" ON "game_tombstones"("event_id", "deleted_at");
+
+-- CreateIndex
+CREATE INDEX "games_event_id_updated_at_idx" ON "games"("event_id", "updated_at");
+
+-- AddForeignKey
+ALTER TABLE "game_tombstones" ADD CONSTRAINT "game_tombstones_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "PlayerInterest" AS ENUM ('must_play', 'gern', 'vielleicht');
+
+-- AlterTable
+ALTER TABLE "players" ADD COLUMN     "interest_level" "PlayerInterest" NOT NULL DEFAULT 'gern';
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "bgg_games" ADD COLUMN     "best_player_counts" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+ADD COLUMN     "max_play_time" INTEGER,
+ADD COLUMN     "max_players" INTEGER,
+ADD COLUMN     "min_play_time" INTEGER,
+ADD COLUMN     "min_players" INTEGER,
+ADD COLUMN     "recommended_player_counts" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+ADD COLUMN     "weight" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "games" ADD COLUMN     "best_player_counts" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+ADD COLUMN     "max_play_time" INTEGER,
+ADD COLUMN     "max_players" INTEGER,
+ADD COLUMN     "min_play_time" INTEGER,
+ADD COLUMN     "min_players" INTEGER,
+ADD COLUMN     "recommended_player_counts" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+ADD COLUMN     "weight" DOUBLE PRECISION;
+
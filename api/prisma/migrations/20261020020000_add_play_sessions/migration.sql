@@ -0,0 +1,51 @@
+-- CreateTable
+CREATE TABLE "play_sessions" (
+    "id" TEXT NOT NULL,
+    "event_id" TEXT,
+    "game_id" TEXT NOT NULL,
+    "created_by_id" TEXT,
+    "starts_at" TIMESTAMP(3) NOT NULL,
+    "table_label" VARCHAR(50),
+    "seat_limit" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "play_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "play_session_seats" (
+    "id" TEXT NOT NULL,
+    "session_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "joined_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "play_session_seats_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "play_sessions_event_id_starts_at_idx" ON "play_sessions"("event_id", "starts_at");
+
+-- CreateIndex
+CREATE INDEX "play_sessions_game_id_idx" ON "play_sessions"("game_id");
+
+-- CreateIndex
+CREATE INDEX "play_session_seats_user_id_idx" ON "play_session_seats"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "play_session_seats_session_id_user_id_key" ON "play_session_seats"("session_id", "user_id");
+
+-- AddForeignKey
+ALTER TABLE "play_sessions" ADD CONSTRAINT "play_sessions_game_id_fkey" FOREIGN KEY ("game_id") REFERENCES "games"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "play_sessions" ADD CONSTRAINT "play_sessions_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "play_sessions" ADD CONSTRAINT "play_sessions_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "play_session_seats" ADD CONSTRAINT "play_session_seats_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "play_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "play_session_seats" ADD CONSTRAINT "play_session_seats_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,120 @@
+import { config } from '../config';
+import { SSEManager } from '../services/sse.service';
+import { PostgresSSETransport } from '../services/sse-transport';
+import type { GameEvent } from '../types';
+
+// Mock Response object
+const createMockResponse = () => {
+  const writtenData: string[] = [];
+  return {
+    write: jest.fn((data: string) => {
+      writtenData.push(data);
+      return true;
+    }),
+    writtenData,
+  };
+};
+
+// Notifications arrive asynchronously, so poll until the expected writes are there
+const waitFor = async (condition: () => boolean, timeoutMs = 5000) => {
+  const startedAt = Date.now();
+  while (!condition()) {
+    if (Date.now() - startedAt > timeoutMs) {
+      throw new Error('Timed out waiting for SSE delivery');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+};
+
+/**
+ * Integration tests for SSE fan-out between API instances.
+ * Two SSEManagers stand in for two API containers sharing one database.
+ */
+describe('SSE multi-instance fan-out', () => {
+  // A channel per test run keeps parallel runs against the same database apart
+  const channel = `sse_events_test_${Date.now()}`;
+  const eventId = 'event-a';
+  const otherEventId = 'event-b';
+  let instanceA: SSEManager;
+  let instanceB: SSEManager;
+
+  const gameEvent: GameEvent = {
+    type: 'game:created',
+    gameId: 'game-1',
+    participantId: 'user-1',
+    participantName: 'Anna',
+    gameName: 'Catan',
+    isBringing: true,
+  };
+
+  beforeEach(async () => {
+    instanceA = new SSEManager();
+    instanceB = new SSEManager();
+    await instanceA.setTransport(new PostgresSSETransport(config.database.url, channel));
+    await instanceB.setTransport(new PostgresSSETransport(config.database.url, channel));
+  });
+
+  afterEach(async () => {
+    await instanceA.close();
+    await instanceB.close();
+  });
+
+  it('delivers a broadcast to the clients of every instance', async () => {
+    const clientOnA = createMockResponse();
+    const clientOnB = createMockResponse();
+    instanceA.addClient('client-a', eventId, clientOnA as any);
+    instanceB.addClient('client-b', eventId, clientOnB as any);
+
+    instanceA.broadcast(eventId, gameEvent);
+
+    await waitFor(() => clientOnA.writtenData.length === 1 && clientOnB.writtenData.length === 1);
+    expect(clientOnB.writtenData[0]).toContain(`data: ${JSON.stringify(gameEvent)}`);
+    // Both instances see the same id, so clients can resume on either of them
+    expect(clientOnA.writtenData[0]).toBe(clientOnB.writtenData[0]);
+  });
+
+  it('keeps events of different events apart across instances', async () => {
+    const clientOnB = createMockResponse();
+    const otherClientOnB = createMockResponse();
+    instanceB.addClient('client-b', eventId, clientOnB as any);
+    instanceB.addClient('other-client-b', otherEventId, otherClientOnB as any);
+
+    instanceA.broadcast(otherEventId, { ...gameEvent, gameId: 'other-game' });
+    instanceA.broadcast(eventId, gameEvent);
+
+    await waitFor(() => clientOnB.writtenData.length === 1 && otherClientOnB.writtenData.length === 1);
+    expect(clientOnB.writtenData[0]).toContain('"gameId":"game-1"');
+    expect(otherClientOnB.writtenData[0]).toContain('"gameId":"other-game"');
+  });
+
+  it('replays events missed on one instance after reconnecting to the other', async () => {
+    const clientOnA = createMockResponse();
+    instanceA.addClient('client-a', eventId, clientOnA as any);
+    instanceA.broadcast(eventId, gameEvent);
+    await waitFor(() => clientOnA.writtenData.length === 1);
+    const lastEventId = Number(/^id: (\d+)\n/.exec(clientOnA.writtenData[0])?.[1]);
+    instanceA.removeClient('client-a');
+
+    const watcherOnB = createMockResponse();
+    instanceB.addClient('watcher-b', eventId, watcherOnB as any);
+    instanceB.broadcast(eventId, { ...gameEvent, gameId: 'game-2' });
+    await waitFor(() => watcherOnB.writtenData.length === 1);
+
+    const reconnectedOnB = createMockResponse();
+    instanceB.addClient('client-b', eventId, reconnectedOnB as any);
+    instanceB.replay('client-b', lastEventId);
+
+    expect(reconnectedOnB.writtenData).toHaveLength(1);
+    expect(reconnectedOnB.writtenData[0]).toContain('"gameId":"game-2"');
+  });
+
+  it('shows a participant connected to one instance as online on the other', async () => {
+    const watcherOnB = createMockResponse();
+    instanceB.addClient('watcher-b', eventId, watcherOnB as any);
+
+    instanceA.addClient('client-a', eventId, createMockResponse() as any, 'user-1');
+
+    await waitFor(() => instanceB.getOnlineParticipantIds(eventId).includes('user-1'));
+    expect(watcherOnB.writtenData[0]).toContain('"type":"presence:joined"');
+  });
+});
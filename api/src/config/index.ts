@@ -27,6 +27,24 @@ export const config = {
   event: {
     name: process.env.EVENT_NAME || 'Brettspiel-Event',
   },
+  sse: {
+    // 'postgres' fans SSE broadcasts out to all API instances via LISTEN/NOTIFY
+    transport: process.env.SSE_TRANSPORT === 'postgres' ? 'postgres' : 'memory',
+  },
+  trash: {
+    // Deleted games stay restorable for this many days before they are purged
+    retentionDays: parseInt(process.env.TRASH_RETENTION_DAYS || '30', 10),
+    purgeIntervalMs: 60 * 60 * 1000,
+  },
+  gameSync: {
+    // Delete markers for delta syncs of the game list; older cursors get the full list
+    tombstoneRetentionDays: parseInt(process.env.GAME_TOMBSTONE_RETENTION_DAYS || '30', 10),
+  },
+  activityArchive: {
+    // Activity past an event's retention is moved to gzipped NDJSON files in this directory
+    dir: process.env.ACTIVITY_ARCHIVE_DIR || '/app/cache/activity-archive',
+    intervalMs: 6 * 60 * 60 * 1000,
+  },
   server: {
     port: parseInt(process.env.API_PORT || '3006', 10),
     corsOrigin: process.env.CORS_ORIGIN || `http://localhost:${process.env.FRONTEND_PORT || '8086'}`,
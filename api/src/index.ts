@@ -2,15 +2,21 @@ import express from 'express';
 import cors from 'cors';
 import * as path from 'path';
 import accountRoutes from './routes/account.routes';
+import activityRoutes from './routes/activity.routes';
 import authRoutes from './routes/auth.routes';
 import bggRoutes from './routes/bgg.routes';
+import eventRoutes from './routes/event.routes';
 import gameRoutes from './routes/game.routes';
+import notificationRoutes from './routes/notification.routes';
+import organizerEventRoutes from './routes/organizer-event.routes';
+import playSessionRoutes from './routes/play-session.routes';
+import presenceRoutes from './routes/presence.routes';
 import sessionRoutes from './routes/session.routes';
 import sseRoutes from './routes/sse.routes';
 import statisticsRoutes from './routes/statistics.routes';
 import thumbnailRoutes from './routes/thumbnail.routes';
 import participantRoutes from './routes/participant.routes';
-import { bggCache } from './services';
+import { ActivityArchiveService, bggCache, gameService, sseManager, PostgresSSETransport } from './services';
 import { config } from './config';
 import { prisma } from './db/prisma';
 import { AccountService } from './services/account.service';
@@ -20,6 +26,7 @@ const app = express();
 const PORT = config.server.port;
 const accountService = new AccountService(prisma);
 const eventService = new EventService(prisma);
+const activityArchiveService = new ActivityArchiveService(prisma, eventService);
 
 // Middleware
 // CORS configuration - uses CORS_ORIGIN from env, supports comma-separated origins
@@ -31,17 +38,24 @@ app.use(cors({
 app.use(express.json());
 
 // Request logging for debugging
+// Logs the path only: the query can carry an event token (SSE stream)
 app.use((req, _res, next) => {
-  console.log(`${new Date().toISOString()} ${req.method} ${req.url} from ${req.headers.origin || 'no-origin'}`);
+  console.log(`${new Date().toISOString()} ${req.method} ${req.path} from ${req.headers.origin || 'no-origin'}`);
   next();
 });
 
 // Routes
 app.use('/api/accounts', accountRoutes);
+app.use('/api/activity', activityRoutes);
 app.use('/api/auth', authRoutes);
 app.use('/api/bgg', bggRoutes);
+app.use('/api/events', eventRoutes);
 app.use('/api/events', sseRoutes);
 app.use('/api/games', gameRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/organizer/events', organizerEventRoutes);
+app.use('/api/play-sessions', playSessionRoutes);
+app.use('/api/presence', presenceRoutes);
 app.use('/api/sessions', sessionRoutes);
 app.use('/api/statistics', statisticsRoutes);
 app.use('/api/thumbnails', thumbnailRoutes);
@@ -114,6 +128,51 @@ const ensureDefaultAdmin = async (): Promise<string> => {
   return account.id;
 };
 
+// Share SSE broadcasts between API instances when running behind a load balancer
+const initializeSseTransport = async () => {
+  if (config.sse.transport !== 'postgres') {
+    return;
+  }
+  await sseManager.setTransport(new PostgresSSETransport(config.database.url));
+  console.log('SSE broadcasts are shared via PostgreSQL LISTEN/NOTIFY');
+};
+
+// Purge deleted games once their retention period in the trash is over,
+// together with delete markers that delta syncs no longer need
+const purgeExpiredTrash = async () => {
+  try {
+    const purged = await gameService.purgeExpiredTrash();
+    if (purged > 0) {
+      console.log(`Purged ${purged} game(s) from the trash`);
+    }
+    await gameService.purgeExpiredTombstones();
+  } catch (error) {
+    console.error('Failed to purge trash:', error);
+  }
+};
+
+const startTrashPurge = () => {
+  void purgeExpiredTrash();
+  setInterval(purgeExpiredTrash, config.trash.purgeIntervalMs).unref();
+};
+
+// Move activity past each event's retention period to the archive
+const archiveExpiredActivity = async () => {
+  try {
+    const archived = await activityArchiveService.archiveExpiredActivity();
+    if (archived > 0) {
+      console.log(`Archived ${archived} activity event(s)`);
+    }
+  } catch (error) {
+    console.error('Failed to archive activity:', error);
+  }
+};
+
+const startActivityArchive = () => {
+  void archiveExpiredActivity();
+  setInterval(archiveExpiredActivity, config.activityArchive.intervalMs).unref();
+};
+
 const initializeSystem = async () => {
   const adminId = await ensureDefaultAdmin();
   const defaultEventId = await eventService.ensureDefaultEvent(adminId);
@@ -121,8 +180,10 @@ const initializeSystem = async () => {
 };
 
 // Start server
-Promise.all([initializeSystem(), initializeBggCache()])
+Promise.all([initializeSystem(), initializeBggCache(), initializeSseTransport()])
   .then(() => {
+    startTrashPurge();
+    startActivityArchive();
     app.listen(PORT, () => {
       console.log(`API server running on port ${PORT}`);
     });
@@ -1,25 +1,59 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { eventTokenService } from '../services/event-token.service';
+import { EventService, isReadOnlyStatus, type EventAccess } from '../services/event.service';
+import { prisma } from '../db/prisma';
 import { config } from '../config';
+import type { EventStatus } from '../types/event';
 
 export interface EventAuthenticatedRequest extends Request {
   eventId: string;
+  eventStatus: EventStatus;
+}
+
+const eventService = new EventService(prisma);
+
+/**
+ * Extracts the event token from the request.
+ * The dedicated x-event-token header takes precedence so that the Authorization
+ * header stays free for account tokens (e.g. organizer force-delete).
+ * EventSource cannot set headers, so the SSE stream passes it as ?eventToken=.
+ */
+function extractEventToken(req: Request): string | undefined {
+  const headerValue = req.headers['x-event-token'];
+  if (typeof headerValue === 'string' && headerValue) {
+    return headerValue;
+  }
+
+  const authHeader = req.headers.authorization;
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    return authHeader.substring(7);
+  }
+
+  const queryValue = req.query?.eventToken;
+  if (typeof queryValue === 'string' && queryValue) {
+    return queryValue;
+  }
+
+  return undefined;
 }
 
 /**
  * Middleware that requires a valid event JWT token.
- * Extracts Bearer token from Authorization header,
- * verifies it via EventTokenService, and attaches eventId to the request.
+ * Reads the token from x-event-token, Authorization Bearer or ?eventToken=,
+ * verifies it via EventTokenService, and attaches eventId and eventStatus to
+ * the request. A requested event (x-event-id header or eventId query) that
+ * differs from the token claim is rejected, as are tokens with an outdated
+ * token version (revoked or password rotated) and tokens for draft events.
  */
-export function requireEventAuth(
+export async function requireEventAuth(
   req: Request,
   res: Response,
   next: NextFunction
-): void {
-  const authHeader = req.headers.authorization;
+): Promise<void> {
+  const token = extractEventToken(req);
 
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+  if (!token) {
     res.status(401).json({
       error: 'INVALID_EVENT_TOKEN',
       message: 'Event token required',
@@ -27,7 +61,6 @@ export function requireEventAuth(
     return;
   }
 
-  const token = authHeader.substring(7);
   const payload = eventTokenService.verify(token);
 
   if (!payload) {
@@ -48,6 +81,73 @@ export function requireEventAuth(
     return;
   }
 
+  const headerValue = req.headers['x-event-id'];
+  const requestedEventId =
+    typeof headerValue === 'string'
+      ? headerValue
+      : typeof req.query?.eventId === 'string'
+        ? req.query.eventId
+        : undefined;
+
+  if (requestedEventId && requestedEventId !== payload.eventId) {
+    res.status(403).json({
+      error: 'EVENT_MISMATCH',
+      message: 'Event token does not match requested event',
+    });
+    return;
+  }
+
+  let access: EventAccess | null;
+  try {
+    access = await eventService.getEventAccess(payload.eventId);
+  } catch (error) {
+    console.error('Event access lookup error:', error);
+    res.status(500).json({
+      error: 'INTERNAL_ERROR',
+      message: 'Ein Fehler ist aufgetreten.',
+    });
+    return;
+  }
+
+  if (!access || payload.tokenVersion !== access.tokenVersion) {
+    res.status(401).json({
+      error: 'INVALID_EVENT_TOKEN',
+      message: access ? 'Event token revoked' : 'Invalid event token',
+    });
+    return;
+  }
+
+  if (access.status === 'draft') {
+    res.status(403).json({
+      error: 'EVENT_NOT_OPEN',
+      message: 'Dieses Event ist noch nicht geöffnet.',
+    });
+    return;
+  }
+
   (req as EventAuthenticatedRequest).eventId = payload.eventId;
+  (req as EventAuthenticatedRequest).eventStatus = access.status;
+  next();
+}
+
+/**
+ * Middleware that rejects changes to locked or archived events.
+ * Must be used after requireEventAuth; reads stay available.
+ */
+export function requireWritableEvent(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const { eventStatus } = req as EventAuthenticatedRequest;
+
+  if (eventStatus && isReadOnlyStatus(eventStatus)) {
+    res.status(423).json({
+      error: 'EVENT_LOCKED',
+      message: 'Dieses Event ist gesperrt. Änderungen sind nicht mehr möglich.',
+    });
+    return;
+  }
+
   next();
 }
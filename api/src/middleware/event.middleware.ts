@@ -1,10 +1,22 @@
 import { Request } from 'express';
 import { prisma } from '../db/prisma';
 import { EventService } from '../services/event.service';
+import type { EventAuthenticatedRequest } from './event-auth.middleware';
 
 const eventService = new EventService(prisma);
 
+/**
+ * Resolves the event a request refers to.
+ * Behind requireEventAuth the verified token claim is authoritative.
+ * Unauthenticated routes (e.g. password verification) fall back to
+ * x-event-id header, eventId query and finally the default event.
+ */
 export async function resolveEventId(req: Request): Promise<string> {
+  const eventIdFromToken = (req as EventAuthenticatedRequest).eventId;
+  if (eventIdFromToken) {
+    return eventIdFromToken;
+  }
+
   const headerValue = req.headers['x-event-id'];
   const eventIdFromHeader = typeof headerValue === 'string' ? headerValue : undefined;
   const eventIdFromQuery = typeof req.query.eventId === 'string' ? req.query.eventId : undefined;
@@ -36,6 +36,7 @@ describe('ParticipantRepository', () => {
     const event = await prisma.event.create({
       data: {
         name: `Participant Repository Test ${Date.now()}`,
+        slug: `participant-repository-test-${Date.now()}`,
         passwordHash: 'test-hash',
         ownerAccountId: account.id,
       },
@@ -210,6 +211,50 @@ describe('ParticipantRepository', () => {
     });
   });
 
+  describe('capacity', () => {
+    const createLimitedEvent = (capacity: number) =>
+      prisma.event.create({
+        data: {
+          name: `Participant Capacity Test ${Date.now()}`,
+          slug: `participant-capacity-test-${Date.now()}`,
+          passwordHash: 'test-hash',
+          ownerAccountId: createdAccountIds[0],
+          capacity,
+        },
+      });
+
+    /**
+     * Parallel registrations for the last spots must not overbook the event
+     */
+    it('should waitlist everyone beyond the capacity, also for parallel registrations', async () => {
+      const event = await createLimitedEvent(2);
+
+      const users = await Promise.all(
+        ['a', 'b', 'c', 'd', 'e'].map((base) => repository.create(uniqueName(`cap_${base}`), event.id))
+      );
+      createdParticipantIds.push(...users.map((user) => user.id));
+
+      expect(users.filter((user) => user.waitlistedAt === null)).toHaveLength(2);
+      expect(users.filter((user) => user.waitlistedAt !== null)).toHaveLength(3);
+    });
+
+    it('should promote waitlisted participants only while spots are free', async () => {
+      const event = await createLimitedEvent(1);
+      const first = await repository.create(uniqueName('cap_first'), event.id);
+      const waiting = await repository.create(uniqueName('cap_wait'), event.id);
+      createdParticipantIds.push(first.id, waiting.id);
+
+      await expect(repository.promoteNext(event.id)).resolves.toBeNull();
+
+      await prisma.event.update({ where: { id: event.id }, data: { capacity: 2 } });
+      const promoted = await repository.promoteNext(event.id);
+
+      expect(promoted?.id).toBe(waiting.id);
+      expect(promoted?.waitlistedAt).toBeNull();
+      await expect(repository.promoteNext(event.id)).resolves.toBeNull();
+    });
+  });
+
   describe('update', () => {
     /**
      * Test that update successfully updates user name
@@ -1,5 +1,19 @@
 import { prisma } from '../db/prisma';
-import type { GameEntity, CreateGameDto } from '../types';
+import { DEFAULT_INTEREST_LEVEL, EMPTY_BGG_PLAY_DATA } from '../types';
+import type { GameEntity, CreateGameDto, UpdateGameDto, InterestLevel, BggPlayData } from '../types';
+
+/**
+ * Identifying fields of a game in the trash
+ */
+export interface TrashedGameRecord {
+  id: string;
+  eventId: string | null;
+  name: string;
+  ownerId: string | null;
+  bggId: number | null;
+  deletedAt: Date;
+  deletedById: string | null;
+}
 
 /**
  * Repository for game-related database operations.
@@ -46,6 +60,7 @@ export class GameRepository {
       gameId: string;
       userId: string;
       addedAt: Date;
+      interestLevel: InterestLevel;
       user: GameEntity['players'][number]['participant'];
     }>;
     bringers: Array<{
@@ -55,7 +70,7 @@ export class GameRepository {
       addedAt: Date;
       user: GameEntity['bringers'][number]['participant'];
     }>;
-  }): GameEntity {
+  } & BggPlayData): GameEntity {
     return {
       ...game,
       alternateNames: (game.alternateNames as string[]) ?? [],
@@ -64,6 +79,7 @@ export class GameRepository {
         gameId: player.gameId,
         participantId: player.userId,
         addedAt: player.addedAt,
+        interestLevel: player.interestLevel,
         participant: player.user,
       })),
       bringers: game.bringers.map((bringer) => ({
@@ -76,13 +92,30 @@ export class GameRepository {
     };
   }
 
+  private readonly trashedSelect = {
+    id: true,
+    eventId: true,
+    name: true,
+    ownerId: true,
+    bggId: true,
+    deletedAt: true,
+    deletedById: true,
+  };
+
+  /**
+   * Games in the trash count as missing everywhere except for restore and purge
+   */
+  private isActiveInEvent(game: { eventId: string | null; deletedAt: Date | null } | null, eventId: string): boolean {
+    return game !== null && game.eventId === eventId && game.deletedAt === null;
+  }
+
   /**
    * Get all games with their players and bringers
    * @returns Array of all games with related data
    */
   async findAll(eventId: string): Promise<GameEntity[]> {
     const games = await prisma.game.findMany({
-      where: { eventId },
+      where: { eventId, deletedAt: null },
       include: this.includeRelations,
       orderBy: {
         name: 'asc',
@@ -91,6 +124,61 @@ export class GameRepository {
     return games.map((game) => this.mapGameEntity(game));
   }
 
+  /**
+   * Get the games of an event changed after the given time, e.g. a new player
+   * or bringer. Games in the trash are left out.
+   */
+  async findChangedSince(eventId: string, since: Date): Promise<GameEntity[]> {
+    const games = await prisma.game.findMany({
+      where: { eventId, deletedAt: null, updatedAt: { gt: since } },
+      include: this.includeRelations,
+      orderBy: {
+        name: 'asc',
+      },
+    });
+    return games.map((game) => this.mapGameEntity(game));
+  }
+
+  /**
+   * Get the IDs of games deleted after the given time: games moved to the
+   * trash and games deleted for good (tombstones)
+   */
+  async findDeletedIdsSince(eventId: string, since: Date): Promise<string[]> {
+    const [trashed, tombstones] = await Promise.all([
+      prisma.game.findMany({
+        where: { eventId, deletedAt: { not: null }, updatedAt: { gt: since } },
+        select: { id: true },
+      }),
+      prisma.gameTombstone.findMany({
+        where: { eventId, deletedAt: { gt: since } },
+        select: { gameId: true },
+      }),
+    ]);
+    return [...new Set([...trashed.map((game) => game.id), ...tombstones.map((tombstone) => tombstone.gameId)])];
+  }
+
+  /**
+   * Delete tombstones of games deleted before the cutoff
+   * @returns Number of deleted tombstones
+   */
+  async deleteTombstonesBefore(cutoff: Date): Promise<number> {
+    const result = await prisma.gameTombstone.deleteMany({
+      where: { deletedAt: { lt: cutoff } },
+    });
+    return result.count;
+  }
+
+  /**
+   * Mark a game as changed for delta syncs, e.g. when a participant-specific
+   * flag changed
+   */
+  private async touch(gameId: string): Promise<void> {
+    await prisma.game.updateMany({
+      where: { id: gameId },
+      data: { updatedAt: new Date() },
+    });
+  }
+
   /**
    * Get a single game by ID with players and bringers
    * @param id - The game's unique identifier
@@ -101,10 +189,31 @@ export class GameRepository {
       where: { id },
       include: this.includeRelations,
     });
-    if (!game || game.eventId !== eventId) return null;
+    if (!game || !this.isActiveInEvent(game, eventId)) return null;
     return this.mapGameEntity(game);
   }
 
+  /**
+   * Get the player count, play time and complexity of a BGG entry
+   * @param bggId - The BoardGameGeek ID
+   * @returns The play data, empty if the entry is unknown or not enriched yet
+   */
+  async findBggPlayData(bggId: number): Promise<BggPlayData> {
+    const bggGame = await prisma.bggGame.findUnique({
+      where: { id: bggId },
+      select: {
+        minPlayers: true,
+        maxPlayers: true,
+        bestPlayerCounts: true,
+        recommendedPlayerCounts: true,
+        minPlayTime: true,
+        maxPlayTime: true,
+        weight: true,
+      },
+    });
+    return bggGame ?? EMPTY_BGG_PLAY_DATA;
+  }
+
   /**
    * Create a new game with optional player and bringer entries
    * @param data - Game creation data including name, participantId, isBringing, and isPlaying flags
@@ -127,6 +236,7 @@ export class GameRepository {
       bggRating,
       addedAsAlternateName,
       alternateNames,
+      ...playData
     } = data;
 
     // Create game with the participant as owner, and optionally as player and/or bringer
@@ -141,6 +251,8 @@ export class GameRepository {
         addedAsAlternateName: addedAsAlternateName ?? null,
         alternateNames: alternateNames ?? [],
         isPrototype: isPrototype ?? false,
+        ...EMPTY_BGG_PLAY_DATA,
+        ...playData,
         ...(isPlaying && {
           players: {
             create: {
@@ -166,17 +278,23 @@ export class GameRepository {
    * Add a player to a game
    * @param gameId - The game's unique identifier
    * @param participantId - The participant's ID to add as a player
+   * @param interestLevel - How much the participant wants to play the game
    * @returns The updated game with related data
    * @throws Error if game not found or participant already a player
    * Requirements: 4.2 - Accept participantId instead of participantName
    */
-  async addPlayer(gameId: string, participantId: string, eventId: string): Promise<GameEntity> {
+  async addPlayer(
+    gameId: string,
+    participantId: string,
+    eventId: string,
+    interestLevel: InterestLevel = DEFAULT_INTEREST_LEVEL
+  ): Promise<GameEntity> {
     // First verify the game exists
     const existingGame = await prisma.game.findUnique({
       where: { id: gameId },
     });
 
-    if (!existingGame || existingGame.eventId !== eventId) {
+    if (!this.isActiveInEvent(existingGame, eventId)) {
       throw new Error('Game not found');
     }
 
@@ -185,16 +303,64 @@ export class GameRepository {
       data: {
         gameId,
         userId: participantId,
+        interestLevel,
       },
     });
 
-    // Return the updated game
-    const game = await prisma.game.findUnique({
+    // Return the updated game, touched so delta syncs pick up the change
+    const game = await prisma.game.update({
+      where: { id: gameId },
+      data: { updatedAt: new Date() },
+      include: this.includeRelations,
+    });
+
+    return this.mapGameEntity(game);
+  }
+
+  /**
+   * Change the interest level of a player of a game
+   * @param gameId - The game's unique identifier
+   * @param participantId - The player's participant ID
+   * @param interestLevel - The new interest level
+   * @returns The updated game with related data
+   * @throws Error if game not found or participant not a player
+   */
+  async updatePlayerInterest(
+    gameId: string,
+    participantId: string,
+    eventId: string,
+    interestLevel: InterestLevel
+  ): Promise<GameEntity> {
+    const existingGame = await prisma.game.findUnique({
+      where: { id: gameId },
+    });
+
+    if (!this.isActiveInEvent(existingGame, eventId)) {
+      throw new Error('Game not found');
+    }
+
+    const updateResult = await prisma.player.update({
+      where: {
+        gameId_userId: {
+          gameId,
+          userId: participantId,
+        },
+      },
+      data: { interestLevel },
+    }).catch(() => null);
+
+    if (!updateResult) {
+      throw new Error('Participant is not a player of this game');
+    }
+
+    // Return the updated game, touched so delta syncs pick up the change
+    const game = await prisma.game.update({
       where: { id: gameId },
+      data: { updatedAt: new Date() },
       include: this.includeRelations,
     });
 
-    return this.mapGameEntity(game!);
+    return this.mapGameEntity(game);
   }
 
   /**
@@ -211,7 +377,7 @@ export class GameRepository {
       where: { id: gameId },
     });
 
-    if (!existingGame || existingGame.eventId !== eventId) {
+    if (!this.isActiveInEvent(existingGame, eventId)) {
       throw new Error('Game not found');
     }
 
@@ -229,13 +395,14 @@ export class GameRepository {
       throw new Error('Participant is not a player of this game');
     }
 
-    // Return the updated game
-    const game = await prisma.game.findUnique({
+    // Return the updated game, touched so delta syncs pick up the change
+    const game = await prisma.game.update({
       where: { id: gameId },
+      data: { updatedAt: new Date() },
       include: this.includeRelations,
     });
 
-    return this.mapGameEntity(game!);
+    return this.mapGameEntity(game);
   }
 
   /**
@@ -252,7 +419,7 @@ export class GameRepository {
       where: { id: gameId },
     });
 
-    if (!existingGame || existingGame.eventId !== eventId) {
+    if (!this.isActiveInEvent(existingGame, eventId)) {
       throw new Error('Game not found');
     }
 
@@ -264,13 +431,14 @@ export class GameRepository {
       },
     });
 
-    // Return the updated game
-    const game = await prisma.game.findUnique({
+    // Return the updated game, touched so delta syncs pick up the change
+    const game = await prisma.game.update({
       where: { id: gameId },
+      data: { updatedAt: new Date() },
       include: this.includeRelations,
     });
 
-    return this.mapGameEntity(game!);
+    return this.mapGameEntity(game);
   }
 
   /**
@@ -287,7 +455,7 @@ export class GameRepository {
       where: { id: gameId },
     });
 
-    if (!existingGame || existingGame.eventId !== eventId) {
+    if (!this.isActiveInEvent(existingGame, eventId)) {
       throw new Error('Game not found');
     }
 
@@ -305,13 +473,14 @@ export class GameRepository {
       throw new Error('Participant is not a bringer of this game');
     }
 
-    // Return the updated game
-    const game = await prisma.game.findUnique({
+    // Return the updated game, touched so delta syncs pick up the change
+    const game = await prisma.game.update({
       where: { id: gameId },
+      data: { updatedAt: new Date() },
       include: this.includeRelations,
     });
 
-    return this.mapGameEntity(game!);
+    return this.mapGameEntity(game);
   }
 
   /**
@@ -329,17 +498,81 @@ export class GameRepository {
       },
       include: this.includeRelations,
     });
-    if (!game) return null;
+    if (!game || game.deletedAt) return null;
     return this.mapGameEntity(game);
   }
 
   /**
-   * Delete a game by ID
+   * Find a game in the trash by its name
+   * @returns The trashed game, or null if no game of that name is in the trash
+   */
+  async findTrashedByName(name: string, eventId: string): Promise<TrashedGameRecord | null> {
+    const game = await prisma.game.findFirst({
+      where: { eventId, name, deletedAt: { not: null } },
+      select: this.trashedSelect,
+    });
+    return game as TrashedGameRecord | null;
+  }
+
+  /**
+   * Find a game in the trash by ID
+   * @returns The trashed game, or null if it is not in the event's trash
+   */
+  async findTrashedById(id: string, eventId: string): Promise<TrashedGameRecord | null> {
+    const game = await prisma.game.findFirst({
+      where: { id, eventId, deletedAt: { not: null } },
+      select: this.trashedSelect,
+    });
+    return game as TrashedGameRecord | null;
+  }
+
+  /**
+   * Find games of all events that went to the trash before the cutoff
+   */
+  async findTrashedBefore(cutoff: Date): Promise<TrashedGameRecord[]> {
+    const games = await prisma.game.findMany({
+      where: { deletedAt: { lt: cutoff } },
+      select: this.trashedSelect,
+    });
+    return games as TrashedGameRecord[];
+  }
+
+  /**
+   * Move a game to the trash. Its players, bringers and hidden flags stay untouched.
+   * @param deletedById - The participant who deleted the game
+   * @returns true if moved, false if not found or already in the trash
+   */
+  async softDelete(id: string, eventId: string, deletedById: string): Promise<boolean> {
+    const result = await prisma.game.updateMany({
+      where: { id, eventId, deletedAt: null },
+      data: { deletedAt: new Date(), deletedById },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Take a game out of the trash
+   * @returns The restored game with related data, or null if it was not in the trash
+   */
+  async restore(id: string, eventId: string): Promise<GameEntity | null> {
+    const result = await prisma.game.updateMany({
+      where: { id, eventId, deletedAt: { not: null } },
+      data: { deletedAt: null, deletedById: null },
+    });
+    if (result.count === 0) {
+      return null;
+    }
+    return this.findById(id, eventId);
+  }
+
+  /**
+   * Delete a game by ID for good, together with all its relations.
+   * Used to purge games from the trash. Leaves a tombstone for delta syncs.
    * @param id - The game's unique identifier
    * @returns true if deleted, false if not found
    * Requirements: 3.5 - Remove the game from the database
    */
-  async delete(id: string, eventId: string): Promise<boolean> {
+  async delete(id: string, eventId: string | null): Promise<boolean> {
     try {
       const existingGame = await prisma.game.findUnique({
         where: { id },
@@ -348,13 +581,42 @@ export class GameRepository {
       if (!existingGame || existingGame.eventId !== eventId) {
         return false;
       }
-      await prisma.game.delete({ where: { id } });
+      await prisma.$transaction([
+        prisma.game.delete({ where: { id } }),
+        prisma.gameTombstone.create({ data: { gameId: id, eventId } }),
+      ]);
       return true;
     } catch {
       return false;
     }
   }
 
+  /**
+   * Update the name and/or BGG data of a game
+   * @param gameId - The game's unique identifier
+   * @param data - The fields to change
+   * @returns The updated game entity
+   * @throws Error if game not found
+   */
+  async update(gameId: string, data: UpdateGameDto, eventId: string): Promise<GameEntity> {
+    const existingGame = await prisma.game.findUnique({
+      where: { id: gameId },
+      select: { eventId: true, deletedAt: true },
+    });
+
+    if (!this.isActiveInEvent(existingGame, eventId)) {
+      throw new Error('Game not found');
+    }
+
+    const game = await prisma.game.update({
+      where: { id: gameId },
+      data,
+      include: this.includeRelations,
+    });
+
+    return this.mapGameEntity(game);
+  }
+
   /**
    * Update the prototype status of a game
    * @param gameId - The game's unique identifier
@@ -365,10 +627,10 @@ export class GameRepository {
   async updatePrototype(gameId: string, isPrototype: boolean, eventId: string): Promise<GameEntity> {
     const existingGame = await prisma.game.findUnique({
       where: { id: gameId },
-      select: { eventId: true },
+      select: { eventId: true, deletedAt: true },
     });
 
-    if (!existingGame || existingGame.eventId !== eventId) {
+    if (!this.isActiveInEvent(existingGame, eventId)) {
       throw new Error('Game not found');
     }
 
@@ -427,6 +689,7 @@ export class GameRepository {
         userId: participantId,
       },
     });
+    await this.touch(gameId);
   }
 
   /**
@@ -445,6 +708,9 @@ export class GameRepository {
       },
     }).catch(() => null);
 
+    if (deleted) {
+      await this.touch(gameId);
+    }
     return Boolean(deleted);
   }
 
@@ -454,12 +720,84 @@ export class GameRepository {
    * @param participantId - The participant's ID
    */
   async unhideGameIfExists(gameId: string, participantId: string): Promise<void> {
-    await prisma.hiddenGame.deleteMany({
+    const result = await prisma.hiddenGame.deleteMany({
       where: {
         gameId,
         userId: participantId,
       },
     });
+    if (result.count > 0) {
+      await this.touch(gameId);
+    }
+  }
+
+  /**
+   * Get all followed game IDs for a participant
+   * @param participantId - The participant's ID
+   * @returns Set of game IDs followed by the participant
+   */
+  async findFollowedGameIdsByParticipant(participantId: string): Promise<Set<string>> {
+    const followed = await prisma.gameFollower.findMany({
+      where: { userId: participantId },
+      select: { gameId: true },
+    });
+    return new Set(followed.map((entry) => entry.gameId));
+  }
+
+  /**
+   * Check if a participant follows a game
+   * @param gameId - The game's ID
+   * @param participantId - The participant's ID
+   * @returns true if followed, false otherwise
+   */
+  async isGameFollowedByParticipant(gameId: string, participantId: string): Promise<boolean> {
+    const followed = await prisma.gameFollower.findUnique({
+      where: {
+        gameId_userId: {
+          gameId,
+          userId: participantId,
+        },
+      },
+      select: { id: true },
+    });
+    return Boolean(followed);
+  }
+
+  /**
+   * Follow a game for a participant
+   * @param gameId - The game's ID
+   * @param participantId - The participant's ID
+   */
+  async followGame(gameId: string, participantId: string): Promise<void> {
+    await prisma.gameFollower.create({
+      data: {
+        gameId,
+        userId: participantId,
+      },
+    });
+    await this.touch(gameId);
+  }
+
+  /**
+   * Stop following a game for a participant
+   * @param gameId - The game's ID
+   * @param participantId - The participant's ID
+   * @returns true if a record was deleted, false otherwise
+   */
+  async unfollowGame(gameId: string, participantId: string): Promise<boolean> {
+    const deleted = await prisma.gameFollower.delete({
+      where: {
+        gameId_userId: {
+          gameId,
+          userId: participantId,
+        },
+      },
+    }).catch(() => null);
+
+    if (deleted) {
+      await this.touch(gameId);
+    }
+    return Boolean(deleted);
   }
 }
 
@@ -1,2 +1,2 @@
-export { GameRepository, gameRepository } from './game.repository';
+export { GameRepository, gameRepository, TrashedGameRecord } from './game.repository';
 export { ParticipantRepository, participantRepository, ParticipantEntity } from './participant.repository';
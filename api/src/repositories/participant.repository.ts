@@ -1,3 +1,4 @@
+import type { Prisma } from '@prisma/client';
 import { prisma } from '../db/prisma';
 
 /**
@@ -8,10 +9,40 @@ export interface ParticipantEntity {
   id: string;
   eventId: string | null;
   name: string;
+  waitlistedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * Games that show the participant as owner, player or bringer
+ */
+function gamesOfParticipant(id: string) {
+  return {
+    OR: [
+      { ownerId: id },
+      { players: { some: { userId: id } } },
+      { bringers: { some: { userId: id } } },
+    ],
+  };
+}
+
+/**
+ * Lock the event row for the rest of the transaction, so capacity checks and the
+ * writes depending on them run one after another for the same event
+ * @returns Whether all confirmed spots are taken
+ */
+async function lockEventAndCheckFull(tx: Prisma.TransactionClient, eventId: string): Promise<boolean> {
+  const [event] = await tx.$queryRaw<{ capacity: number | null }[]>`
+    SELECT capacity FROM events WHERE id = ${eventId} FOR UPDATE
+  `;
+  if (!event || event.capacity === null) {
+    return false;
+  }
+  const confirmed = await tx.user.count({ where: { eventId, waitlistedAt: null } });
+  return confirmed >= event.capacity;
+}
+
 /**
  * Repository for participant-related database operations.
  * Uses Prisma client to interact with the PostgreSQL database.
@@ -71,19 +102,79 @@ export class ParticipantRepository {
 
   /**
    * Create a new participant
+   * Once the event's capacity is reached, the participant goes onto the waitlist.
    * @param name - The participant's name
-   * @returns The created participant
+   * @returns The created participant, with waitlistedAt set if waitlisted
    *
    * Requirement 3.4: POST /api/participants creates a new participant
    */
   async create(name: string, eventId: string): Promise<ParticipantEntity> {
-    const participant = await prisma.user.create({
-      data: {
-        name,
-        eventId,
-      },
+    return prisma.$transaction(async (tx) => {
+      const isFull = await lockEventAndCheckFull(tx, eventId);
+      return tx.user.create({
+        data: {
+          name,
+          eventId,
+          waitlistedAt: isFull ? new Date() : null,
+        },
+      });
+    });
+  }
+
+  /**
+   * Get the participant limit of an event
+   * @returns The capacity, or null if the event has no limit
+   */
+  async getEventCapacity(eventId: string): Promise<number | null> {
+    const event = await prisma.event.findUnique({
+      where: { id: eventId },
+      select: { capacity: true },
+    });
+    return event?.capacity ?? null;
+  }
+
+  /**
+   * Count the participants holding a confirmed spot (not waitlisted)
+   */
+  async countConfirmed(eventId: string): Promise<number> {
+    return prisma.user.count({
+      where: { eventId, waitlistedAt: null },
+    });
+  }
+
+  /**
+   * Get the waitlisted participants in the order they joined the waitlist
+   */
+  async findWaitlisted(eventId: string): Promise<ParticipantEntity[]> {
+    return prisma.user.findMany({
+      where: { eventId, waitlistedAt: { not: null } },
+      orderBy: [{ waitlistedAt: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  /**
+   * Move the longest-waiting participant to a confirmed spot if one is free
+   * @returns The promoted participant, or null if nobody moved up
+   */
+  async promoteNext(eventId: string): Promise<ParticipantEntity | null> {
+    return prisma.$transaction(async (tx) => {
+      if (await lockEventAndCheckFull(tx, eventId)) {
+        return null;
+      }
+      const next = await tx.user.findFirst({
+        where: { eventId, waitlistedAt: { not: null } },
+        orderBy: [{ waitlistedAt: 'asc' }, { createdAt: 'asc' }],
+      });
+      if (!next) {
+        return null;
+      }
+      return tx.user.update({
+        where: { id: next.id },
+        data: {
+          waitlistedAt: null,
+        },
+      });
     });
-    return participant;
   }
 
   /**
@@ -95,12 +186,19 @@ export class ParticipantRepository {
    * Requirement 3.7: PATCH /api/participants/:id updates the participant's name
    */
   async update(id: string, name: string): Promise<ParticipantEntity> {
-    const participant = await prisma.user.update({
-      where: { id },
-      data: {
-        name,
-      },
-    });
+    // The games show the name, so they are touched for delta syncs
+    const [participant] = await prisma.$transaction([
+      prisma.user.update({
+        where: { id },
+        data: {
+          name,
+        },
+      }),
+      prisma.game.updateMany({
+        where: gamesOfParticipant(id),
+        data: { updatedAt: new Date() },
+      }),
+    ]);
     return participant;
   }
 
@@ -109,12 +207,19 @@ export class ParticipantRepository {
    * @param id - The participant's unique identifier
    *
    * Requirement 3.10: DELETE /api/participants/:id deletes the participant
-   * Note: Cascade delete of Player/Bringer records is handled by database constraints
+   * Note: Cascade delete of Player/Bringer records is handled by database constraints,
+   * so the affected games are touched for delta syncs before
    */
   async delete(id: string): Promise<void> {
-    await prisma.user.delete({
-      where: { id },
-    });
+    await prisma.$transaction([
+      prisma.game.updateMany({
+        where: gamesOfParticipant(id),
+        data: { updatedAt: new Date() },
+      }),
+      prisma.user.delete({
+        where: { id },
+      }),
+    ]);
   }
 }
 
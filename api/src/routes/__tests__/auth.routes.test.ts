@@ -12,9 +12,11 @@ import * as fc from 'fast-check';
 
 // Mock EventService — control verifyEventPassword return value
 const mockVerifyEventPassword = jest.fn();
+const mockGetEventAccess = jest.fn();
 jest.mock('../../services/event.service', () => ({
   EventService: jest.fn().mockImplementation(() => ({
     verifyEventPassword: mockVerifyEventPassword,
+    getEventAccess: mockGetEventAccess,
   })),
 }));
 
@@ -38,6 +40,7 @@ describe('Auth Routes - POST /api/auth/verify', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    mockGetEventAccess.mockResolvedValue({ status: 'open', tokenVersion: 3 });
   });
 
   describe('Feature: event-auth-jwt, Property 8: Verify endpoint backward compatibility', () => {
@@ -71,6 +74,7 @@ describe('Auth Routes - POST /api/auth/verify', () => {
             expect(decoded).not.toBeNull();
             expect(decoded.eventId).toBe('test-event-id');
             expect(decoded.type).toBe('event');
+            expect(decoded.tokenVersion).toBe(3);
             expect(decoded.exp).toBeDefined();
             expect(decoded.iat).toBeDefined();
           }
@@ -104,5 +108,18 @@ describe('Auth Routes - POST /api/auth/verify', () => {
       expect(response.body.message).toBe('Bitte Passwort eingeben.');
       expect(response.body.token).toBeUndefined();
     });
+
+    it('draft event returns 403 without token field', async () => {
+      mockVerifyEventPassword.mockResolvedValue(true);
+      mockGetEventAccess.mockResolvedValue({ status: 'draft', tokenVersion: 3 });
+
+      const response = await request(app)
+        .post('/api/auth/verify')
+        .send({ password: 'correct-password' })
+        .expect(403);
+
+      expect(response.body.success).toBe(false);
+      expect(response.body.token).toBeUndefined();
+    });
   });
 });
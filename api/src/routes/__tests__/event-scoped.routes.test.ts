@@ -0,0 +1,718 @@
+/**
+ * Event token enforcement for participant-facing routes
+ *
+ * Games, participants, statistics, thumbnails, presence, activity, notifications, play sessions and the SSE stream must only be
+ * reachable with a valid event token, and the event is taken from its claim.
+ */
+
+import express from 'express';
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import { config } from '../../config';
+import { eventTokenService } from '../../services/event-token.service';
+
+const mockGetAllGames = jest.fn();
+const mockGetGameChanges = jest.fn();
+const mockCreateGame = jest.fn();
+const mockAddBringer = jest.fn();
+const mockAddPlayer = jest.fn();
+const mockRestoreGame = jest.fn();
+const mockFollowGame = jest.fn();
+const mockUpdateGame = jest.fn();
+jest.mock('../../services/game.service', () => ({
+  gameService: {
+    getAllGames: mockGetAllGames,
+    getGameChanges: mockGetGameChanges,
+    createSyncCursor: () => 'cursor-1',
+    createGame: mockCreateGame,
+    addBringer: mockAddBringer,
+    addPlayer: mockAddPlayer,
+    restoreGame: mockRestoreGame,
+    followGame: mockFollowGame,
+    updateGame: mockUpdateGame,
+  },
+}));
+
+const mockGetNotifications = jest.fn();
+const mockMarkRead = jest.fn();
+jest.mock('../../services/notification.service', () => ({
+  parseNotificationListQuery: jest.requireActual('../../services/notification.service').parseNotificationListQuery,
+  notificationService: {
+    getNotifications: mockGetNotifications,
+    markRead: mockMarkRead,
+  },
+}));
+
+const mockListUpcoming = jest.fn();
+const mockCreateSession = jest.fn();
+const mockJoinSession = jest.fn();
+const mockLeaveSession = jest.fn();
+jest.mock('../../services/playSession.service', () => ({
+  parseCreatePlaySessionInput: jest.requireActual('../../services/playSession.service').parseCreatePlaySessionInput,
+  playSessionService: {
+    listUpcoming: mockListUpcoming,
+    createSession: mockCreateSession,
+    joinSession: mockJoinSession,
+    leaveSession: mockLeaveSession,
+  },
+}));
+
+const mockGetAllParticipants = jest.fn();
+const mockGetCapacity = jest.fn();
+const mockGetParticipantById = jest.fn();
+jest.mock('../../services/participant.service', () => ({
+  participantService: {
+    getAllParticipants: mockGetAllParticipants,
+    getCapacity: mockGetCapacity,
+    getParticipantById: mockGetParticipantById,
+  },
+}));
+
+const mockGetStatistics = jest.fn();
+jest.mock('../../services/statistics.service', () => ({
+  statisticsService: {
+    getStatistics: mockGetStatistics,
+  },
+}));
+
+const mockHasThumbnail = jest.fn();
+jest.mock('../../services/thumbnailService', () => ({
+  thumbnailService: {
+    hasThumbnail: mockHasThumbnail,
+  },
+}));
+
+const mockAddClient = jest.fn();
+const mockReplay = jest.fn();
+const mockGetOnlineParticipantIds = jest.fn();
+jest.mock('../../services', () => ({
+  sseManager: {
+    addClient: mockAddClient,
+    replay: mockReplay,
+    getOnlineParticipantIds: mockGetOnlineParticipantIds,
+    removeClient: jest.fn(),
+    getClientCount: jest.fn().mockReturnValue(1),
+  },
+}));
+
+const mockGetDefaultEventId = jest.fn();
+const mockGetEventAccess = jest.fn();
+jest.mock('../../services/event.service', () => {
+  const actual = jest.requireActual('../../services/event.service');
+  return {
+    isReadOnlyStatus: actual.isReadOnlyStatus,
+    EventService: jest.fn().mockImplementation(() => ({
+      getDefaultEventId: mockGetDefaultEventId,
+      getEventAccess: mockGetEventAccess,
+    })),
+  };
+});
+
+import activityRoutes from '../activity.routes';
+import gameRoutes from '../game.routes';
+import notificationRoutes from '../notification.routes';
+import participantRoutes from '../participant.routes';
+import playSessionRoutes from '../play-session.routes';
+import presenceRoutes from '../presence.routes';
+import statisticsRoutes from '../statistics.routes';
+import thumbnailRoutes from '../thumbnail.routes';
+import sseRoutes from '../sse.routes';
+
+describe('Event-scoped routes', () => {
+  let app: express.Application;
+  const eventId = 'event-from-token';
+  const tokenVersion = 1;
+  const token = eventTokenService.sign(eventId, tokenVersion);
+
+  beforeAll(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/events', sseRoutes);
+    app.use('/api/activity', activityRoutes);
+    app.use('/api/games', gameRoutes);
+    app.use('/api/notifications', notificationRoutes);
+    app.use('/api/participants', participantRoutes);
+    app.use('/api/play-sessions', playSessionRoutes);
+    app.use('/api/presence', presenceRoutes);
+    app.use('/api/statistics', statisticsRoutes);
+    app.use('/api/thumbnails', thumbnailRoutes);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetAllGames.mockResolvedValue([]);
+    mockGetAllParticipants.mockResolvedValue([]);
+    mockGetCapacity.mockResolvedValue({ capacity: null, confirmed: 0, remainingSpots: null, waitlisted: 0 });
+    mockGetStatistics.mockResolvedValue({});
+    mockGetOnlineParticipantIds.mockReturnValue([]);
+    mockHasThumbnail.mockReturnValue(false);
+    mockGetEventAccess.mockResolvedValue({ status: 'open', tokenVersion });
+  });
+
+  it.each([
+    '/api/games',
+    '/api/participants',
+    '/api/statistics',
+    '/api/presence',
+    '/api/activity',
+    '/api/notifications',
+    '/api/play-sessions',
+    '/api/thumbnails/game-1/exists',
+    '/api/events',
+  ])('rejects %s without an event token', async (path) => {
+    const response = await request(app).get(path).expect(401);
+    expect(response.body.error).toBe('INVALID_EVENT_TOKEN');
+  });
+
+  it('rejects account tokens', async () => {
+    const accountToken = jwt.sign(
+      { accountId: 'acc-1', sessionId: 'sess-1', type: 'account' },
+      config.jwt.secret,
+      { expiresIn: '1h' }
+    );
+
+    await request(app)
+      .get('/api/games')
+      .set('Authorization', `Bearer ${accountToken}`)
+      .expect(401);
+    expect(mockGetAllGames).not.toHaveBeenCalled();
+  });
+
+  it('uses the event from the token claim', async () => {
+    await request(app)
+      .get('/api/games')
+      .set('x-event-token', token)
+      .expect(200);
+
+    expect(mockGetAllGames).toHaveBeenCalledWith(eventId, undefined);
+    expect(mockGetDefaultEventId).not.toHaveBeenCalled();
+  });
+
+  it('returns a sync cursor with the full game list', async () => {
+    const response = await request(app)
+      .get('/api/games')
+      .set('x-event-token', token)
+      .expect(200);
+
+    expect(response.body).toEqual({ games: [], cursor: 'cursor-1' });
+  });
+
+  it('returns the changes since a sync cursor', async () => {
+    const changes = { games: [{ id: 'game-1', name: 'Catan' }], deletedGameIds: ['game-2'], cursor: 'cursor-2', full: false };
+    mockGetGameChanges.mockResolvedValue(changes);
+
+    const response = await request(app)
+      .get('/api/games?since=cursor-1')
+      .set('x-event-token', token)
+      .set('x-participant-id', 'user-1')
+      .expect(200);
+
+    expect(response.body).toEqual(changes);
+    expect(mockGetGameChanges).toHaveBeenCalledWith(eventId, 'cursor-1', 'user-1');
+    expect(mockGetAllGames).not.toHaveBeenCalled();
+  });
+
+  it('edits the name and BGG link of a game for the requesting participant', async () => {
+    mockUpdateGame.mockResolvedValue({ id: 'game-1', name: 'Catan', bggId: 13 });
+
+    const response = await request(app)
+      .patch('/api/games/game-1')
+      .set('x-event-token', token)
+      .set('x-participant-id', 'user-1')
+      .send({ name: 'Catan', bggId: 13 })
+      .expect(200);
+
+    expect(response.body.game).toEqual({ id: 'game-1', name: 'Catan', bggId: 13 });
+    expect(mockUpdateGame).toHaveBeenCalledWith(eventId, 'game-1', 'user-1', { name: 'Catan', bggId: 13 });
+  });
+
+  it('rejects game edits without changes or with an invalid BGG ID', async () => {
+    for (const body of [{}, { bggId: 'abc' }, { name: 42 }]) {
+      await request(app)
+        .patch('/api/games/game-1')
+        .set('x-event-token', token)
+        .set('x-participant-id', 'user-1')
+        .send(body)
+        .expect(400);
+    }
+    expect(mockUpdateGame).not.toHaveBeenCalled();
+  });
+
+  it('maps a duplicate game name to 409', async () => {
+    mockUpdateGame.mockRejectedValue(
+      Object.assign(new Error('Ein Spiel mit diesem Namen existiert bereits.'), { code: 'DUPLICATE_GAME' })
+    );
+
+    const response = await request(app)
+      .patch('/api/games/game-1')
+      .set('x-event-token', token)
+      .set('x-participant-id', 'user-1')
+      .send({ name: 'Azul' })
+      .expect(409);
+
+    expect(response.body.error.code).toBe('DUPLICATE_GAME');
+  });
+
+  it('points to the trash when a new game has the name of a trashed one', async () => {
+    const details = { gameId: 'old-game', canRestore: false, restorers: ['Anna'] };
+    mockCreateGame.mockRejectedValue(
+      Object.assign(
+        new Error('Ein Spiel mit diesem Namen liegt im Papierkorb. Wiederherstellen können es nur Anna oder die Organisation.'),
+        { code: 'GAME_IN_TRASH', details }
+      )
+    );
+
+    const response = await request(app)
+      .post('/api/games')
+      .set('x-event-token', token)
+      .send({ name: 'Catan', participantId: 'user-1', isBringing: false, isPlaying: true })
+      .expect(409);
+
+    expect(response.body.error.code).toBe('GAME_IN_TRASH');
+    expect(response.body.error.details).toEqual(details);
+  });
+
+  it('rejects invalid sync cursors', async () => {
+    mockGetGameChanges.mockRejectedValue(Object.assign(new Error('Ungültiger Cursor.'), { code: 'VALIDATION_ERROR' }));
+
+    const response = await request(app)
+      .get('/api/games?since=kaputt')
+      .set('x-event-token', token)
+      .expect(400);
+
+    expect(response.body.error).toEqual({ code: 'VALIDATION_ERROR', message: 'Ungültiger Cursor.' });
+  });
+
+  it('accepts the event token next to an account token in Authorization', async () => {
+    await request(app)
+      .get('/api/participants')
+      .set('Authorization', 'Bearer account-token')
+      .set('x-event-token', token)
+      .expect(200);
+
+    expect(mockGetAllParticipants).toHaveBeenCalledWith(eventId);
+  });
+
+  it('rejects a mismatched x-event-id header', async () => {
+    const response = await request(app)
+      .get('/api/statistics')
+      .set('x-event-token', token)
+      .set('x-event-id', 'other-event')
+      .expect(403);
+
+    expect(response.body.error).toBe('EVENT_MISMATCH');
+    expect(mockGetStatistics).not.toHaveBeenCalled();
+  });
+
+  it('accepts a matching x-event-id header', async () => {
+    await request(app)
+      .get('/api/statistics')
+      .set('x-event-token', token)
+      .set('x-event-id', eventId)
+      .expect(200);
+
+    expect(mockGetStatistics).toHaveBeenCalledWith(eventId);
+  });
+
+  it('accepts the event token as query parameter for the SSE stream', async () => {
+    // Close the stream right after the connection confirmation has been written
+    mockAddClient.mockImplementation((_id: string, _eventId: string, res: express.Response) => {
+      setImmediate(() => res.end());
+    });
+
+    await request(app)
+      .get(`/api/events?eventToken=${encodeURIComponent(token)}`)
+      .expect(200);
+
+    expect(mockAddClient).toHaveBeenCalledWith(expect.any(String), eventId, expect.anything(), null);
+    expect(mockReplay).not.toHaveBeenCalled();
+  });
+
+  it('connects the SSE client on behalf of a participant of the event', async () => {
+    mockGetParticipantById.mockResolvedValue({ id: 'user-1', name: 'Anna' });
+    mockAddClient.mockImplementation((_id: string, _eventId: string, res: express.Response) => {
+      setImmediate(() => res.end());
+    });
+
+    await request(app)
+      .get(`/api/events?eventToken=${encodeURIComponent(token)}&participantId=user-1`)
+      .expect(200);
+
+    expect(mockGetParticipantById).toHaveBeenCalledWith('user-1', eventId);
+    expect(mockAddClient).toHaveBeenCalledWith(expect.any(String), eventId, expect.anything(), 'user-1');
+  });
+
+  it('ignores participant ids of other events for presence', async () => {
+    mockGetParticipantById.mockRejectedValue(new Error('Teilnehmer nicht gefunden.'));
+    mockAddClient.mockImplementation((_id: string, _eventId: string, res: express.Response) => {
+      setImmediate(() => res.end());
+    });
+
+    await request(app)
+      .get(`/api/events?eventToken=${encodeURIComponent(token)}&participantId=foreign-user`)
+      .expect(200);
+
+    expect(mockAddClient).toHaveBeenCalledWith(expect.any(String), eventId, expect.anything(), null);
+  });
+
+  it('returns the online participants of the token event', async () => {
+    mockGetOnlineParticipantIds.mockReturnValue(['user-1', 'user-2']);
+
+    const response = await request(app)
+      .get('/api/presence')
+      .set('x-event-token', token)
+      .expect(200);
+
+    expect(response.body).toEqual({ participantIds: ['user-1', 'user-2'] });
+    expect(mockGetOnlineParticipantIds).toHaveBeenCalledWith(eventId);
+  });
+
+  it('replays missed events for the Last-Event-ID of a reconnecting SSE client', async () => {
+    mockAddClient.mockImplementation((_id: string, _eventId: string, res: express.Response) => {
+      setImmediate(() => res.end());
+    });
+
+    await request(app)
+      .get(`/api/events?eventToken=${encodeURIComponent(token)}`)
+      .set('Last-Event-ID', '1700000000042')
+      .expect(200);
+
+    const [clientId] = mockAddClient.mock.calls[0] as [string];
+    expect(mockReplay).toHaveBeenCalledWith(clientId, 1700000000042);
+  });
+
+  it('accepts the last event id as query parameter for manual SSE reconnects', async () => {
+    mockAddClient.mockImplementation((_id: string, _eventId: string, res: express.Response) => {
+      setImmediate(() => res.end());
+    });
+
+    await request(app)
+      .get(`/api/events?eventToken=${encodeURIComponent(token)}&lastEventId=1700000000042`)
+      .expect(200);
+
+    expect(mockReplay).toHaveBeenCalledWith(expect.any(String), 1700000000042);
+  });
+
+  it('rejects tokens with an outdated token version', async () => {
+    mockGetEventAccess.mockResolvedValue({ status: 'open', tokenVersion: 2 });
+
+    const response = await request(app)
+      .get('/api/games')
+      .set('x-event-token', token)
+      .expect(401);
+
+    expect(response.body.message).toBe('Event token revoked');
+    expect(mockGetAllGames).not.toHaveBeenCalled();
+  });
+
+  it('rejects tokens issued without a token version', async () => {
+    await request(app)
+      .get('/api/games')
+      .set('x-event-token', eventTokenService.sign(eventId))
+      .expect(401);
+
+    expect(mockGetAllGames).not.toHaveBeenCalled();
+  });
+
+  it('rejects tokens for draft events', async () => {
+    mockGetEventAccess.mockResolvedValue({ status: 'draft', tokenVersion });
+
+    const response = await request(app)
+      .get('/api/games')
+      .set('x-event-token', token)
+      .expect(403);
+
+    expect(response.body.error).toBe('EVENT_NOT_OPEN');
+  });
+
+  it('restores a game from the trash for the requesting participant', async () => {
+    mockRestoreGame.mockResolvedValue({ id: 'game-1', name: 'Catan' });
+
+    const response = await request(app)
+      .post('/api/games/game-1/restore')
+      .set('x-event-token', token)
+      .set('x-participant-id', 'user-1')
+      .expect(200);
+
+    expect(mockRestoreGame).toHaveBeenCalledWith(eventId, 'game-1', 'user-1', undefined);
+    expect(response.body.game).toEqual({ id: 'game-1', name: 'Catan' });
+  });
+
+  it('maps restores by other participants to 403', async () => {
+    mockRestoreGame.mockRejectedValue(
+      Object.assign(new Error('Du bist nicht berechtigt, dieses Spiel wiederherzustellen.'), { code: 'FORBIDDEN' })
+    );
+
+    const response = await request(app)
+      .post('/api/games/game-1/restore')
+      .set('x-event-token', token)
+      .set('x-participant-id', 'user-2')
+      .expect(403);
+
+    expect(response.body.error.code).toBe('FORBIDDEN');
+  });
+
+  it('lists the notifications of the participant in the token event', async () => {
+    mockGetNotifications.mockResolvedValue({ notifications: [], unreadCount: 0 });
+
+    const response = await request(app)
+      .get('/api/notifications?unread=true')
+      .set('x-event-token', token)
+      .set('x-participant-id', 'user-1')
+      .expect(200);
+
+    expect(mockGetNotifications).toHaveBeenCalledWith(eventId, 'user-1', { unreadOnly: true, limit: undefined });
+    expect(response.body).toEqual({ notifications: [], unreadCount: 0 });
+  });
+
+  it('requires a participant for the notifications', async () => {
+    await request(app)
+      .get('/api/notifications')
+      .set('x-event-token', token)
+      .expect(400);
+
+    expect(mockGetNotifications).not.toHaveBeenCalled();
+  });
+
+  it('maps notifications of other participants to 404', async () => {
+    mockMarkRead.mockRejectedValue(new Error('Benachrichtigung nicht gefunden.'));
+
+    const response = await request(app)
+      .post('/api/notifications/notification-1/read')
+      .set('x-event-token', token)
+      .set('x-participant-id', 'user-2')
+      .expect(404);
+
+    expect(mockMarkRead).toHaveBeenCalledWith(eventId, 'user-2', 'notification-1');
+    expect(response.body.error.code).toBe('NOTIFICATION_NOT_FOUND');
+  });
+
+  it('follows a game for the participant', async () => {
+    mockFollowGame.mockResolvedValue({ id: 'game-1', isFollowed: true });
+
+    const response = await request(app)
+      .post('/api/games/game-1/follow')
+      .set('x-event-token', token)
+      .send({ participantId: 'user-1' })
+      .expect(200);
+
+    expect(mockFollowGame).toHaveBeenCalledWith(eventId, 'game-1', 'user-1');
+    expect(response.body.game.isFollowed).toBe(true);
+  });
+
+  it('adds a player with an interest level', async () => {
+    mockAddPlayer.mockResolvedValue({ id: 'game-1', name: 'Catan' });
+
+    await request(app)
+      .post('/api/games/game-1/players')
+      .set('x-event-token', token)
+      .send({ participantId: 'user-1', interestLevel: 'must_play' })
+      .expect(200);
+
+    expect(mockAddPlayer).toHaveBeenCalledWith(eventId, 'game-1', 'user-1', 'must_play');
+  });
+
+  it('maps waitlisted participants to 403', async () => {
+    const waitlisted = Object.assign(
+      new Error('Du stehst auf der Warteliste. Sobald ein Platz frei wird, kannst du mitmachen.'),
+      { code: 'PARTICIPANT_WAITLISTED' }
+    );
+    mockAddPlayer.mockRejectedValue(waitlisted);
+    mockJoinSession.mockRejectedValue(waitlisted);
+
+    const response = await request(app)
+      .post('/api/games/game-1/players')
+      .set('x-event-token', token)
+      .send({ participantId: 'user-1' })
+      .expect(403);
+
+    expect(response.body.error.code).toBe('PARTICIPANT_WAITLISTED');
+
+    await request(app)
+      .post('/api/play-sessions/session-1/join')
+      .set('x-event-token', token)
+      .set('x-participant-id', 'user-1')
+      .expect(403);
+  });
+
+  it('rejects unknown interest levels', async () => {
+    const response = await request(app)
+      .post('/api/games/game-1/players')
+      .set('x-event-token', token)
+      .send({ participantId: 'user-1', interestLevel: 'unbedingt' })
+      .expect(400);
+
+    expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    expect(mockAddPlayer).not.toHaveBeenCalled();
+  });
+
+  it('lists the upcoming play sessions of the token event', async () => {
+    mockListUpcoming.mockResolvedValue([]);
+
+    const response = await request(app)
+      .get('/api/play-sessions')
+      .set('x-event-token', token)
+      .expect(200);
+
+    expect(mockListUpcoming).toHaveBeenCalledWith(eventId);
+    expect(response.body).toEqual({ sessions: [] });
+  });
+
+  it('creates a play session for the participant', async () => {
+    mockCreateSession.mockResolvedValue({ id: 'session-1' });
+
+    await request(app)
+      .post('/api/play-sessions')
+      .set('x-event-token', token)
+      .set('x-participant-id', 'user-1')
+      .send({ gameId: 'game-1', startsAt: '2026-10-20T18:00:00.000Z', tableLabel: ' Tisch 3 ' })
+      .expect(201);
+
+    expect(mockCreateSession).toHaveBeenCalledWith(eventId, 'user-1', {
+      gameId: 'game-1',
+      startsAt: new Date('2026-10-20T18:00:00.000Z'),
+      tableLabel: 'Tisch 3',
+      seatLimit: null,
+    });
+  });
+
+  it('rejects play sessions without a valid start time', async () => {
+    const response = await request(app)
+      .post('/api/play-sessions')
+      .set('x-event-token', token)
+      .set('x-participant-id', 'user-1')
+      .send({ gameId: 'game-1', startsAt: 'heute abend' })
+      .expect(400);
+
+    expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    expect(mockCreateSession).not.toHaveBeenCalled();
+  });
+
+  it('maps joining a full play session to 409', async () => {
+    mockJoinSession.mockRejectedValue(
+      Object.assign(new Error('Diese Runde ist bereits voll.'), { code: 'SESSION_FULL' })
+    );
+
+    const response = await request(app)
+      .post('/api/play-sessions/session-1/join')
+      .set('x-event-token', token)
+      .set('x-participant-id', 'user-2')
+      .expect(409);
+
+    expect(mockJoinSession).toHaveBeenCalledWith(eventId, 'user-2', 'session-1');
+    expect(response.body.error).toEqual({ code: 'SESSION_FULL', message: 'Diese Runde ist bereits voll.' });
+  });
+
+  it('returns null when the last participant leaves a play session', async () => {
+    mockLeaveSession.mockResolvedValue(null);
+
+    const response = await request(app)
+      .post('/api/play-sessions/session-1/leave')
+      .set('x-event-token', token)
+      .set('x-participant-id', 'user-1')
+      .expect(200);
+
+    expect(mockLeaveSession).toHaveBeenCalledWith(eventId, 'user-1', 'session-1');
+    expect(response.body).toEqual({ session: null });
+  });
+
+  describe('locked events', () => {
+    beforeEach(() => {
+      mockGetEventAccess.mockResolvedValue({ status: 'locked', tokenVersion });
+    });
+
+    it('stay readable', async () => {
+      await request(app)
+        .get('/api/games')
+        .set('x-event-token', token)
+        .expect(200);
+
+      expect(mockGetAllGames).toHaveBeenCalledWith(eventId, undefined);
+    });
+
+    it('reject new games', async () => {
+      const response = await request(app)
+        .post('/api/games')
+        .set('x-event-token', token)
+        .send({ name: 'Azul', participantId: 'user-1', isBringing: true, isPlaying: false })
+        .expect(423);
+
+      expect(response.body.error).toBe('EVENT_LOCKED');
+      expect(mockCreateGame).not.toHaveBeenCalled();
+    });
+
+    it('reject bringer changes', async () => {
+      await request(app)
+        .post('/api/games/game-1/bringers')
+        .set('x-event-token', token)
+        .send({ participantId: 'user-1' })
+        .expect(423);
+
+      await request(app)
+        .delete('/api/games/game-1/bringers/user-1')
+        .set('x-event-token', token)
+        .expect(423);
+
+      expect(mockAddBringer).not.toHaveBeenCalled();
+    });
+
+    it('reject game edits', async () => {
+      await request(app)
+        .patch('/api/games/game-1')
+        .set('x-event-token', token)
+        .set('x-participant-id', 'user-1')
+        .send({ name: 'Azul' })
+        .expect(423);
+
+      expect(mockUpdateGame).not.toHaveBeenCalled();
+    });
+
+    it('reject joining play sessions', async () => {
+      await request(app)
+        .post('/api/play-sessions/session-1/join')
+        .set('x-event-token', token)
+        .set('x-participant-id', 'user-1')
+        .expect(423);
+
+      expect(mockJoinSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe.each(['locked', 'archived'])('%s events', (status) => {
+    beforeEach(() => {
+      mockGetEventAccess.mockResolvedValue({ status, tokenVersion });
+    });
+
+    it.each([
+      ['post', '/api/games/game-1/players'],
+      ['delete', '/api/games/game-1/players/user-1'],
+      ['delete', '/api/games/game-1'],
+      ['post', '/api/games/game-1/restore'],
+      ['patch', '/api/games/game-1/prototype'],
+      ['post', '/api/thumbnails/game-1'],
+      ['post', '/api/participants'],
+      ['patch', '/api/participants/user-1'],
+      ['delete', '/api/participants/user-1'],
+    ] as const)('reject %s %s', async (method, path) => {
+      const response = await request(app)[method](path)
+        .set('x-event-token', token)
+        .set('x-participant-id', 'user-1')
+        .send({ participantId: 'user-1', name: 'Anna', isPrototype: true })
+        .expect(423);
+
+      expect(response.body.error).toBe('EVENT_LOCKED');
+    });
+
+    it('still allow following games', async () => {
+      mockFollowGame.mockResolvedValue({ id: 'game-1' });
+
+      await request(app)
+        .post('/api/games/game-1/follow')
+        .set('x-event-token', token)
+        .send({ participantId: 'user-1' })
+        .expect(200);
+
+      expect(mockFollowGame).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,428 @@
+/**
+ * Route tests for organizer event management (/api/organizer/events)
+ * EventService and account auth are mocked; ownership rules are covered in event.service.test.ts
+ */
+
+import express from 'express';
+import request from 'supertest';
+
+const mockAccount = {
+  id: 'owner-1',
+  email: 'owner@example.com',
+  role: 'account_owner',
+  status: 'active',
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+};
+
+jest.mock('../../middleware/auth.middleware', () => ({
+  requireAuth: jest.fn((req, res, next) => {
+    if (!req.headers.authorization) {
+      res.status(401).json({ error: 'INVALID_TOKEN', message: 'Sitzung abgelaufen. Bitte erneut anmelden.' });
+      return;
+    }
+    req.account = mockAccount;
+    next();
+  }),
+}));
+
+const mockListEventsForAccount = jest.fn();
+const mockCreateEvent = jest.fn();
+const mockAuthorizeEvent = jest.fn();
+const mockUpdateEvent = jest.fn();
+const mockChangeEventPassword = jest.fn();
+const mockDeleteEvent = jest.fn();
+const mockRevokeEventTokens = jest.fn();
+const mockCloneEvent = jest.fn();
+
+jest.mock('../../services/event.service', () => {
+  const actual = jest.requireActual('../../services/event.service');
+  return {
+    EventError: actual.EventError,
+    EventService: jest.fn().mockImplementation(() => ({
+      listEventsForAccount: mockListEventsForAccount,
+      createEvent: mockCreateEvent,
+      authorizeEvent: mockAuthorizeEvent,
+      toEventResponse: (event: unknown) => event,
+      updateEvent: mockUpdateEvent,
+      changeEventPassword: mockChangeEventPassword,
+      deleteEvent: mockDeleteEvent,
+      revokeEventTokens: mockRevokeEventTokens,
+      cloneEvent: mockCloneEvent,
+    })),
+  };
+});
+
+const mockListTeam = jest.fn();
+const mockCreateInvite = jest.fn();
+const mockAcceptInvite = jest.fn();
+
+jest.mock('../../services/event-membership.service', () => ({
+  EventMembershipService: jest.fn().mockImplementation(() => ({
+    listTeam: mockListTeam,
+    createInvite: mockCreateInvite,
+    acceptInvite: mockAcceptInvite,
+  })),
+}));
+
+const mockMergeParticipants = jest.fn();
+const mockModerateGame = jest.fn();
+const mockMergeGames = jest.fn();
+const mockListDuplicateGames = jest.fn();
+const mockDeleteStaleGames = jest.fn();
+const mockListTrash = jest.fn();
+const mockRestoreTrashedGame = jest.fn();
+const mockPurgeTrashedGame = jest.fn();
+
+jest.mock('../../services/event-moderation.service', () => ({
+  EventModerationService: jest.fn().mockImplementation(() => ({
+    mergeParticipants: mockMergeParticipants,
+    moderateGame: mockModerateGame,
+    mergeGames: mockMergeGames,
+    listDuplicateGames: mockListDuplicateGames,
+    deleteStaleGames: mockDeleteStaleGames,
+    listTrash: mockListTrash,
+    restoreTrashedGame: mockRestoreTrashedGame,
+    purgeTrashedGame: mockPurgeTrashedGame,
+  })),
+}));
+
+const mockExportActivity = jest.fn();
+
+jest.mock('../../services/activityArchive.service', () => ({
+  ActivityArchiveService: jest.fn().mockImplementation(() => ({
+    exportActivity: mockExportActivity,
+  })),
+}));
+
+const mockGetEventSummaries = jest.fn();
+jest.mock('../../services/statistics.service', () => ({
+  statisticsService: {
+    getEventSummaries: mockGetEventSummaries,
+  },
+}));
+
+import { EventError } from '../../services/event.service';
+import organizerEventRoutes from '../organizer-event.routes';
+
+describe('Organizer event routes', () => {
+  let app: express.Application;
+
+  beforeAll(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/organizer/events', organizerEventRoutes);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('requires account authentication', async () => {
+    await request(app).get('/api/organizer/events').expect(401);
+    expect(mockListEventsForAccount).not.toHaveBeenCalled();
+  });
+
+  it('lists events for the current account', async () => {
+    mockListEventsForAccount.mockResolvedValue([{ id: 'event-1', name: 'Treff' }]);
+
+    const response = await request(app)
+      .get('/api/organizer/events')
+      .set('Authorization', 'Bearer token')
+      .expect(200);
+
+    expect(mockListEventsForAccount).toHaveBeenCalledWith(mockAccount, { includeArchived: false });
+    expect(response.body.events).toEqual([{ id: 'event-1', name: 'Treff' }]);
+  });
+
+  it('returns dashboard entries with statistics per event', async () => {
+    mockListEventsForAccount.mockResolvedValue([
+      { id: 'event-1', name: 'Treff' },
+      { id: 'event-2', name: 'Sommer' },
+    ]);
+    mockGetEventSummaries.mockResolvedValue([
+      { eventId: 'event-1', participantCount: 3, totalGames: 5, availableGames: 2, requestedGames: 3, lastActivityAt: null },
+      { eventId: 'event-2', participantCount: 0, totalGames: 0, availableGames: 0, requestedGames: 0, lastActivityAt: null },
+    ]);
+
+    const response = await request(app)
+      .get('/api/organizer/events/dashboard')
+      .set('Authorization', 'Bearer token')
+      .expect(200);
+
+    expect(mockGetEventSummaries).toHaveBeenCalledWith(['event-1', 'event-2']);
+    expect(response.body.events).toHaveLength(2);
+    expect(response.body.events[0].event.id).toBe('event-1');
+    expect(response.body.events[0].statistics.totalGames).toBe(5);
+    expect(mockAuthorizeEvent).not.toHaveBeenCalled();
+  });
+
+  it('includes archived events on the dashboard only on request', async () => {
+    mockListEventsForAccount.mockResolvedValue([]);
+    mockGetEventSummaries.mockResolvedValue([]);
+
+    await request(app)
+      .get('/api/organizer/events/dashboard?includeArchived=true')
+      .set('Authorization', 'Bearer token')
+      .expect(200);
+
+    expect(mockListEventsForAccount).toHaveBeenCalledWith(mockAccount, { includeArchived: true });
+  });
+
+  it('creates an event owned by the current account', async () => {
+    mockCreateEvent.mockResolvedValue({ id: 'event-2', name: 'Neu' });
+
+    const response = await request(app)
+      .post('/api/organizer/events')
+      .set('Authorization', 'Bearer token')
+      .send({ name: 'Neu', password: 'geheim' })
+      .expect(201);
+
+    expect(mockCreateEvent).toHaveBeenCalledWith('owner-1', { name: 'Neu', password: 'geheim' });
+    expect(response.body.event.id).toBe('event-2');
+  });
+
+  it('maps EventError to its status code and error format', async () => {
+    mockUpdateEvent.mockRejectedValue(new EventError('NOT_AUTHORIZED', 'Keine Berechtigung für dieses Event.', 403));
+
+    const response = await request(app)
+      .patch('/api/organizer/events/event-1')
+      .set('Authorization', 'Bearer token')
+      .send({ name: 'Fremd' })
+      .expect(403);
+
+    expect(response.body).toEqual({
+      error: 'NOT_AUTHORIZED',
+      message: 'Keine Berechtigung für dieses Event.',
+    });
+  });
+
+  it('rotates the event password', async () => {
+    mockChangeEventPassword.mockResolvedValue(undefined);
+
+    await request(app)
+      .patch('/api/organizer/events/event-1/password')
+      .set('Authorization', 'Bearer token')
+      .send({ password: 'neu' })
+      .expect(200);
+
+    expect(mockChangeEventPassword).toHaveBeenCalledWith('event-1', mockAccount, 'neu');
+  });
+
+  it('clones an event with the selected options', async () => {
+    mockCloneEvent.mockResolvedValue({ id: 'event-2', name: 'Treff (Kopie)' });
+
+    const response = await request(app)
+      .post('/api/organizer/events/event-1/clone')
+      .set('Authorization', 'Bearer token')
+      .send({ includeParticipants: true, games: 'available' })
+      .expect(201);
+
+    expect(mockCloneEvent).toHaveBeenCalledWith('event-1', mockAccount, {
+      includeParticipants: true,
+      games: 'available',
+    });
+    expect(response.body.event.id).toBe('event-2');
+  });
+
+  it('signs out all participants', async () => {
+    mockRevokeEventTokens.mockResolvedValue({ id: 'event-1', name: 'Treff' });
+
+    const response = await request(app)
+      .post('/api/organizer/events/event-1/revoke-tokens')
+      .set('Authorization', 'Bearer token')
+      .expect(200);
+
+    expect(mockRevokeEventTokens).toHaveBeenCalledWith('event-1', mockAccount);
+    expect(response.body.event.id).toBe('event-1');
+  });
+
+  it('returns a single event with the role of the account', async () => {
+    mockAuthorizeEvent.mockResolvedValue({ event: { id: 'event-1', name: 'Treff' }, role: 'viewer' });
+
+    const response = await request(app)
+      .get('/api/organizer/events/event-1')
+      .set('Authorization', 'Bearer token')
+      .expect(200);
+
+    expect(mockAuthorizeEvent).toHaveBeenCalledWith('event-1', mockAccount, 'viewer');
+    expect(response.body.event).toEqual({ id: 'event-1', name: 'Treff', role: 'viewer' });
+  });
+
+  it('lists the organizer team', async () => {
+    mockListTeam.mockResolvedValue({ members: [], invites: [] });
+
+    await request(app)
+      .get('/api/organizer/events/event-1/members')
+      .set('Authorization', 'Bearer token')
+      .expect(200);
+
+    expect(mockListTeam).toHaveBeenCalledWith('event-1', mockAccount);
+  });
+
+  it('creates an invite with its token', async () => {
+    mockCreateInvite.mockResolvedValue({ id: 'invite-1', email: 'co@example.com', role: 'co_organizer', token: 'abc' });
+
+    const response = await request(app)
+      .post('/api/organizer/events/event-1/invites')
+      .set('Authorization', 'Bearer token')
+      .send({ email: 'co@example.com', role: 'co_organizer' })
+      .expect(201);
+
+    expect(mockCreateInvite).toHaveBeenCalledWith('event-1', mockAccount, {
+      email: 'co@example.com',
+      role: 'co_organizer',
+    });
+    expect(response.body.invite.token).toBe('abc');
+  });
+
+  it('accepts an invite for the current account', async () => {
+    mockAcceptInvite.mockResolvedValue({ eventId: 'event-1', role: 'co_organizer' });
+
+    const response = await request(app)
+      .post('/api/organizer/events/invites/abc/accept')
+      .set('Authorization', 'Bearer token')
+      .expect(200);
+
+    expect(mockAcceptInvite).toHaveBeenCalledWith('abc', mockAccount);
+    expect(response.body).toEqual({ eventId: 'event-1', role: 'co_organizer' });
+  });
+
+  it('merges participants', async () => {
+    mockMergeParticipants.mockResolvedValue({ id: 'user-2', name: 'Max M.' });
+
+    const response = await request(app)
+      .post('/api/organizer/events/event-1/participants/merge')
+      .set('Authorization', 'Bearer token')
+      .send({ sourceId: 'user-1', targetId: 'user-2' })
+      .expect(200);
+
+    expect(mockMergeParticipants).toHaveBeenCalledWith('event-1', mockAccount, {
+      sourceId: 'user-1',
+      targetId: 'user-2',
+    });
+    expect(response.body.participant).toEqual({ id: 'user-2', name: 'Max M.' });
+  });
+
+  it('renames a game and maps a taken name to 409', async () => {
+    mockModerateGame.mockRejectedValue(new EventError('GAME_NAME_TAKEN', 'Ein Spiel mit diesem Namen existiert bereits.', 409));
+
+    const response = await request(app)
+      .patch('/api/organizer/events/event-1/games/game-1')
+      .set('Authorization', 'Bearer token')
+      .send({ name: 'Catan' })
+      .expect(409);
+
+    expect(mockModerateGame).toHaveBeenCalledWith('event-1', 'game-1', mockAccount, { name: 'Catan' });
+    expect(response.body.error).toBe('GAME_NAME_TAKEN');
+  });
+
+  it('merges a duplicate game into another one', async () => {
+    mockMergeGames.mockResolvedValue({ id: 'game-2', name: 'Catan' });
+
+    const response = await request(app)
+      .post('/api/organizer/events/event-1/games/merge')
+      .set('Authorization', 'Bearer token')
+      .send({ sourceId: 'game-1', targetId: 'game-2' })
+      .expect(200);
+
+    expect(mockMergeGames).toHaveBeenCalledWith('event-1', mockAccount, { sourceId: 'game-1', targetId: 'game-2' });
+    expect(response.body.game).toEqual({ id: 'game-2', name: 'Catan' });
+  });
+
+  it('lists duplicate game candidates', async () => {
+    const candidate = { reason: 'bggId', score: 100, games: [{ id: 'game-1' }, { id: 'game-2' }] };
+    mockListDuplicateGames.mockResolvedValue([candidate]);
+
+    const response = await request(app)
+      .get('/api/organizer/events/event-1/games/duplicates')
+      .set('Authorization', 'Bearer token')
+      .expect(200);
+
+    expect(mockListDuplicateGames).toHaveBeenCalledWith('event-1', mockAccount);
+    expect(response.body.candidates).toEqual([candidate]);
+  });
+
+  it('deletes stale wunsch games older than the given days', async () => {
+    mockDeleteStaleGames.mockResolvedValue({ deletedCount: 2, gameIds: ['game-1', 'game-2'] });
+
+    const response = await request(app)
+      .delete('/api/organizer/events/event-1/games/stale?olderThanDays=30')
+      .set('Authorization', 'Bearer token')
+      .expect(200);
+
+    expect(mockDeleteStaleGames).toHaveBeenCalledWith('event-1', mockAccount, '30');
+    expect(response.body.deletedCount).toBe(2);
+  });
+
+  it('lists, restores and purges games in the trash', async () => {
+    mockListTrash.mockResolvedValue([{ id: 'game-1', name: 'Catan' }]);
+    mockRestoreTrashedGame.mockResolvedValue({ id: 'game-1', name: 'Catan' });
+    mockPurgeTrashedGame.mockResolvedValue(undefined);
+
+    const list = await request(app)
+      .get('/api/organizer/events/event-1/trash')
+      .set('Authorization', 'Bearer token')
+      .expect(200);
+    expect(list.body.games).toEqual([{ id: 'game-1', name: 'Catan' }]);
+
+    const restored = await request(app)
+      .post('/api/organizer/events/event-1/trash/game-1/restore')
+      .set('Authorization', 'Bearer token')
+      .expect(200);
+    expect(mockRestoreTrashedGame).toHaveBeenCalledWith('event-1', 'game-1', mockAccount);
+    expect(restored.body.game).toEqual({ id: 'game-1', name: 'Catan' });
+
+    await request(app)
+      .delete('/api/organizer/events/event-1/trash/game-1')
+      .set('Authorization', 'Bearer token')
+      .expect(200);
+    expect(mockPurgeTrashedGame).toHaveBeenCalledWith('event-1', 'game-1', mockAccount);
+  });
+
+  it('downloads the activity export as a file', async () => {
+    mockExportActivity.mockResolvedValue({
+      filename: 'aktivitaeten-treff.csv',
+      contentType: 'text/csv; charset=utf-8',
+      content: 'id,createdAt\r\n',
+    });
+
+    const response = await request(app)
+      .get('/api/organizer/events/event-1/activity/export?from=2026-10-01&to=2026-10-31&format=csv')
+      .set('Authorization', 'Bearer token')
+      .expect(200);
+
+    expect(mockExportActivity).toHaveBeenCalledWith('event-1', mockAccount, {
+      from: '2026-10-01',
+      to: '2026-10-31',
+      format: 'csv',
+    });
+    expect(response.headers['content-type']).toBe('text/csv; charset=utf-8');
+    expect(response.headers['content-disposition']).toBe('attachment; filename="aktivitaeten-treff.csv"');
+    expect(response.text).toBe('id,createdAt\r\n');
+  });
+
+  it('rejects an invalid export range', async () => {
+    mockExportActivity.mockRejectedValue(
+      new EventError('INVALID_DATE_RANGE', 'Das Ende muss nach dem Beginn liegen.', 400)
+    );
+
+    const response = await request(app)
+      .get('/api/organizer/events/event-1/activity/export?from=2026-10-31&to=2026-10-01')
+      .set('Authorization', 'Bearer token')
+      .expect(400);
+
+    expect(response.body.error).toBe('INVALID_DATE_RANGE');
+  });
+
+  it('deletes an event', async () => {
+    mockDeleteEvent.mockResolvedValue(undefined);
+
+    const response = await request(app)
+      .delete('/api/organizer/events/event-1')
+      .set('Authorization', 'Bearer token')
+      .expect(200);
+
+    expect(mockDeleteEvent).toHaveBeenCalledWith('event-1', mockAccount);
+    expect(response.body).toEqual({ success: true });
+  });
+});
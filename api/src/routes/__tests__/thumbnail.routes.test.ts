@@ -37,6 +37,15 @@ jest.mock('../../middleware/event.middleware', () => ({
   resolveEventId: jest.fn().mockResolvedValue('test-event-id'),
 }));
 
+// Event token enforcement is covered in event-scoped.routes.test.ts
+jest.mock('../../middleware/event-auth.middleware', () => ({
+  requireEventAuth: jest.fn((req: { eventId?: string }, _res: unknown, next: () => void) => {
+    req.eventId = 'test-event-id';
+    next();
+  }),
+  requireWritableEvent: jest.fn((_req: unknown, _res: unknown, next: () => void) => next()),
+}));
+
 import thumbnailRoutes from '../thumbnail.routes';
 
 describe('Thumbnail Routes', () => {
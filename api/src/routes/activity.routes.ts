@@ -0,0 +1,49 @@
+import { Router, Request, Response } from 'express';
+import { activityLogService, parseActivityFeedQuery } from '../services/activityLog.service';
+import { requireEventAuth, type EventAuthenticatedRequest } from '../middleware/event-auth.middleware';
+
+const router = Router();
+
+router.use(requireEventAuth);
+
+/**
+ * GET /api/activity
+ * Returns the activity feed of the event, newest first.
+ *
+ * Query parameters (all optional):
+ *   - types: comma-separated activity types, e.g. game_created,bringer_added
+ *   - actorId, gameId: only activities of this participant / game
+ *   - since, until: ISO timestamps limiting the time range
+ *   - cursor: nextCursor of the previous page
+ *   - limit: page size (1-100, default 50)
+ *
+ * Response: { entries: ActivityEntry[], nextCursor: string | null }
+ * New entries are pushed as activity:created SSE events.
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const query = parseActivityFeedQuery(req.query);
+    const { eventId } = req as EventAuthenticatedRequest;
+    const feed = await activityLogService.getFeed(eventId, query);
+    return res.json(feed);
+  } catch (error) {
+    if (error instanceof Error && (error as Error & { code?: string }).code === 'VALIDATION_ERROR') {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.message,
+        },
+      });
+    }
+
+    console.error('Error fetching activity feed:', error);
+    return res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Ein Fehler ist aufgetreten.',
+      },
+    });
+  }
+});
+
+export default router;
@@ -16,6 +16,7 @@ const eventService = new EventService(prisma);
  *   - 200 { success: true, token: "eyJ..." } if password matches
  *   - 401 { success: false, message: "Falsches Passwort" } if password is incorrect
  *   - 400 { success: false, message: "Bitte Passwort eingeben." } if password is missing
+ *   - 403 { success: false, message: "Dieses Event ist noch nicht geöffnet." } for draft events
  */
 router.post('/verify', async (req: Request, res: Response) => {
   const { password, eventId: bodyEventId } = req.body;
@@ -32,7 +33,23 @@ router.post('/verify', async (req: Request, res: Response) => {
   const isValid = await eventService.verifyEventPassword(eventId, password);
 
   if (isValid) {
-    const token = eventTokenService.sign(eventId);
+    const access = await eventService.getEventAccess(eventId);
+
+    if (!access) {
+      return res.status(401).json({
+        success: false,
+        message: 'Falsches Passwort',
+      });
+    }
+
+    if (access.status === 'draft') {
+      return res.status(403).json({
+        success: false,
+        message: 'Dieses Event ist noch nicht geöffnet.',
+      });
+    }
+
+    const token = eventTokenService.sign(eventId, access.tokenVersion);
     return res.json({ success: true, token });
   }
 
@@ -0,0 +1,38 @@
+import { Router, Request, Response } from 'express';
+import { prisma } from '../db/prisma';
+import { EventService, EventError } from '../services/event.service';
+
+const router = Router();
+const eventService = new EventService(prisma);
+
+/**
+ * GET /api/events/by-slug/:slug
+ * Public lookup for event join links. Returns only public event info;
+ * access to the event still requires the event password.
+ *
+ * Response: { event: PublicEvent }
+ *
+ * Error responses:
+ *   - 404 if no event uses this slug
+ */
+router.get('/by-slug/:slug', async (req: Request, res: Response) => {
+  try {
+    const event = await eventService.getPublicEventBySlug(req.params.slug);
+    res.json({ event });
+  } catch (error) {
+    if (error instanceof EventError) {
+      res.status(error.statusCode).json({
+        error: error.code,
+        message: error.message,
+      });
+      return;
+    }
+    console.error('Get event by slug error:', error);
+    res.status(500).json({
+      error: 'INTERNAL_ERROR',
+      message: 'Ein Fehler ist aufgetreten. Bitte später erneut versuchen.',
+    });
+  }
+});
+
+export default router;
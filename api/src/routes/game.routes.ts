@@ -3,17 +3,28 @@ import { gameService } from '../services/game.service';
 import { EventService } from '../services/event.service';
 import { resolveOptionalAccount } from '../middleware/auth.middleware';
 import { resolveEventId } from '../middleware/event.middleware';
+import { requireEventAuth, requireWritableEvent } from '../middleware/event-auth.middleware';
 import { resolveParticipantId, resolveParticipantIdFromBody, resolveParticipantIdFromParams } from '../middleware/participant.middleware';
 import { prisma } from '../db/prisma';
+import { INTEREST_LEVELS } from '../types';
 
 const router = Router();
 const eventService = new EventService(prisma);
 
+router.use(requireEventAuth);
+
 /**
  * GET /api/games
  * Returns all games with their players and bringers.
+ * With ?since=<cursor> only the games changed or deleted since the sync that
+ * returned the cursor are returned.
+ * 
+ * Response: { games: Game[], cursor: string }
+ * Response with since: { games: Game[], deletedGameIds: string[], cursor: string, full: boolean }
+ *   full is true if the cursor was too old for a delta; games is then the full list
  * 
- * Response: { games: Game[] }
+ * Error responses:
+ *   - 400 VALIDATION_ERROR if the cursor is invalid
  * 
  * Requirements: 3.1
  */
@@ -21,9 +32,26 @@ router.get('/', async (req: Request, res: Response) => {
   try {
     const eventId = await resolveEventId(req);
     const participantId = resolveParticipantId(req);
+
+    if (req.query.since !== undefined) {
+      const changes = await gameService.getGameChanges(eventId, req.query.since, participantId);
+      return res.json(changes);
+    }
+
+    // The cursor is taken before reading, so changes during the read show up in the next delta
+    const cursor = gameService.createSyncCursor();
     const games = await gameService.getAllGames(eventId, participantId);
-    return res.json({ games });
+    return res.json({ games, cursor });
   } catch (error) {
+    if (error instanceof Error && (error as Error & { code?: string }).code === 'VALIDATION_ERROR') {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.message,
+        },
+      });
+    }
+
     console.error('Error fetching games:', error);
     return res.status(500).json({
       error: {
@@ -82,12 +110,15 @@ router.get('/:id', async (req: Request, res: Response) => {
  * 
  * Error responses:
  *   - 400 if name is empty or participantId is missing
- *   - 409 if game name already exists
+ *   - 403 if the participant is on the waitlist
+ *   - 409 if game name already exists, also in the trash
+ *     (GAME_IN_TRASH with details { gameId, canRestore, restorers } to offer a restore)
+ *   - 423 if the event is locked or archived
  * 
  * Requirements: 3.1, 3.3, 3.4, 4.1, 4.3, 4.4
  * Feature: 014-alternate-names-search - Accept alternate name data
  */
-router.post('/', async (req: Request, res: Response) => {
+router.post('/', requireWritableEvent, async (req: Request, res: Response) => {
   try {
     const { name, isBringing, isPlaying, isPrototype, bggId, yearPublished, bggRating, addedAsAlternateName, alternateNames } = req.body;
     const eventId = await resolveEventId(req);
@@ -149,6 +180,17 @@ router.post('/', async (req: Request, res: Response) => {
           },
         });
       }
+      // Handle a trashed game of the same name; details say who can restore it
+      const errorWithDetails = error as Error & { code?: string; details?: Record<string, unknown> };
+      if (errorWithDetails.code === 'GAME_IN_TRASH') {
+        return res.status(409).json({
+          error: {
+            code: 'GAME_IN_TRASH',
+            message: error.message,
+            details: errorWithDetails.details,
+          },
+        });
+      }
       // Handle validation errors
       if (error.message === 'Bitte einen Spielnamen eingeben.') {
         return res.status(400).json({
@@ -158,6 +200,15 @@ router.post('/', async (req: Request, res: Response) => {
           },
         });
       }
+      // Handle waitlisted participants
+      if ((error as Error & { code?: string }).code === 'PARTICIPANT_WAITLISTED') {
+        return res.status(403).json({
+          error: {
+            code: 'PARTICIPANT_WAITLISTED',
+            message: error.message,
+          },
+        });
+      }
     }
     console.error('Error creating game:', error);
     return res.status(500).json({
@@ -172,18 +223,22 @@ router.post('/', async (req: Request, res: Response) => {
 /**
  * POST /api/games/:id/players
  * Adds a participant as a player to a game.
+ * With an interestLevel, a participant who already plays the game changes
+ * their interest level instead.
  * 
- * Request body: { participantId: string }
+ * Request body: { participantId: string, interestLevel?: 'must_play' | 'gern' | 'vielleicht' }
  * Response: { game: Game }
  * 
  * Error responses:
- *   - 400 if participantId is missing
+ *   - 400 if participantId is missing or interestLevel is invalid
+ *   - 403 if the participant is on the waitlist
  *   - 404 if game not found
- *   - 409 if participant is already a player
+ *   - 409 if participant is already a player and no interestLevel is given
+ *   - 423 if the event is locked or archived
  * 
  * Requirements: 3.5, 4.2
  */
-router.post('/:id/players', async (req: Request, res: Response) => {
+router.post('/:id/players', requireWritableEvent, async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const participantId = resolveParticipantIdFromBody(req);
@@ -199,7 +254,17 @@ router.post('/:id/players', async (req: Request, res: Response) => {
       });
     }
 
-    const game = await gameService.addPlayer(eventId, id, participantId);
+    const { interestLevel } = req.body ?? {};
+    if (interestLevel !== undefined && !INTEREST_LEVELS.includes(interestLevel)) {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Ungültiges Interesse. Erlaubt sind must_play, gern und vielleicht.',
+        },
+      });
+    }
+
+    const game = await gameService.addPlayer(eventId, id, participantId, interestLevel);
     return res.json({ game });
   } catch (error) {
     if (error instanceof Error) {
@@ -221,6 +286,24 @@ router.post('/:id/players', async (req: Request, res: Response) => {
           },
         });
       }
+      // Handle player removed while changing the interest level
+      if (error.message === 'Du bist nicht in dieser Liste eingetragen.') {
+        return res.status(404).json({
+          error: {
+            code: 'NOT_A_PLAYER',
+            message: error.message,
+          },
+        });
+      }
+      // Handle waitlisted participants
+      if ((error as Error & { code?: string }).code === 'PARTICIPANT_WAITLISTED') {
+        return res.status(403).json({
+          error: {
+            code: 'PARTICIPANT_WAITLISTED',
+            message: error.message,
+          },
+        });
+      }
     }
     console.error('Error adding player:', error);
     return res.status(500).json({
@@ -240,10 +323,11 @@ router.post('/:id/players', async (req: Request, res: Response) => {
  * 
  * Error responses:
  *   - 404 if game not found or participant not a player
+ *   - 423 if the event is locked or archived
  * 
  * Requirements: 3.5, 4.4
  */
-router.delete('/:id/players/:participantId', async (req: Request, res: Response) => {
+router.delete('/:id/players/:participantId', requireWritableEvent, async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const participantId = resolveParticipantIdFromParams(req);
@@ -300,12 +384,14 @@ router.delete('/:id/players/:participantId', async (req: Request, res: Response)
  * 
  * Error responses:
  *   - 400 if participantId is missing
+ *   - 403 if the participant is on the waitlist
  *   - 404 if game not found
  *   - 409 if participant is already a bringer
+ *   - 423 if the event is locked or archived
  * 
  * Requirements: 3.6, 4.3
  */
-router.post('/:id/bringers', async (req: Request, res: Response) => {
+router.post('/:id/bringers', requireWritableEvent, async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const participantId = resolveParticipantIdFromBody(req);
@@ -343,6 +429,15 @@ router.post('/:id/bringers', async (req: Request, res: Response) => {
           },
         });
       }
+      // Handle waitlisted participants
+      if ((error as Error & { code?: string }).code === 'PARTICIPANT_WAITLISTED') {
+        return res.status(403).json({
+          error: {
+            code: 'PARTICIPANT_WAITLISTED',
+            message: error.message,
+          },
+        });
+      }
     }
     console.error('Error adding bringer:', error);
     return res.status(500).json({
@@ -362,10 +457,11 @@ router.post('/:id/bringers', async (req: Request, res: Response) => {
  * 
  * Error responses:
  *   - 404 if game not found or participant not a bringer
+ *   - 423 if the event is locked or archived
  * 
  * Requirements: 3.6, 4.5
  */
-router.delete('/:id/bringers/:participantId', async (req: Request, res: Response) => {
+router.delete('/:id/bringers/:participantId', requireWritableEvent, async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const participantId = resolveParticipantIdFromParams(req);
@@ -416,6 +512,7 @@ router.delete('/:id/bringers/:participantId', async (req: Request, res: Response
 /**
  * POST /api/games/:id/hidden
  * Hides a game for a participant.
+ * Stays available for locked events, it only changes the participant's own view.
  * 
  * Request body: { participantId: string }
  * Response: { game: Game }
@@ -535,10 +632,126 @@ router.delete('/:id/hidden/:participantId', async (req: Request, res: Response)
   }
 });
 
+/**
+ * POST /api/games/:id/follow
+ * Follows a game for a participant. Followers are notified when someone
+ * brings the game or it gets deleted.
+ * Stays available for locked events, it only changes the participant's own view.
+ * 
+ * Request body: { participantId: string }
+ * Response: { game: Game }
+ * 
+ * Error responses:
+ *   - 400 if participantId is missing
+ *   - 404 if game not found
+ *   - 409 if already followed
+ */
+router.post('/:id/follow', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const participantId = resolveParticipantIdFromBody(req);
+    const eventId = await resolveEventId(req);
+
+    if (!participantId) {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Teilnehmer-ID erforderlich.',
+        },
+      });
+    }
+
+    const game = await gameService.followGame(eventId, id, participantId);
+    return res.json({ game });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Spiel nicht gefunden.') {
+        return res.status(404).json({
+          error: {
+            code: 'GAME_NOT_FOUND',
+            message: error.message,
+          },
+        });
+      }
+      if (error.message === 'Du folgst diesem Spiel bereits.') {
+        return res.status(409).json({
+          error: {
+            code: 'ALREADY_FOLLOWED',
+            message: error.message,
+          },
+        });
+      }
+    }
+    console.error('Error following game:', error);
+    return res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Ein Fehler ist aufgetreten.',
+      },
+    });
+  }
+});
+
+/**
+ * DELETE /api/games/:id/follow/:participantId
+ * Stops following a game for a participant.
+ * 
+ * Response: { game: Game }
+ * 
+ * Error responses:
+ *   - 404 if game not found or not followed
+ */
+router.delete('/:id/follow/:participantId', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const participantId = resolveParticipantIdFromParams(req);
+    const eventId = await resolveEventId(req);
+
+    if (!participantId) {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Teilnehmer-ID erforderlich.',
+        },
+      });
+    }
+
+    const game = await gameService.unfollowGame(eventId, id, participantId);
+    return res.json({ game });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Spiel nicht gefunden.') {
+        return res.status(404).json({
+          error: {
+            code: 'GAME_NOT_FOUND',
+            message: error.message,
+          },
+        });
+      }
+      if (error.message === 'Du folgst diesem Spiel nicht.') {
+        return res.status(404).json({
+          error: {
+            code: 'NOT_FOLLOWED',
+            message: error.message,
+          },
+        });
+      }
+    }
+    console.error('Error unfollowing game:', error);
+    return res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Ein Fehler ist aufgetreten.',
+      },
+    });
+  }
+});
+
 /**
  * DELETE /api/games/:id
- * Deletes a game. Owners can delete only if the game has no other players or bringers.
- * Event owners/admins can delete any game.
+ * Moves a game to the trash, from where it can be restored until it is purged.
+ * Owners can delete only if the game has no other players or bringers.
+ * Event organizers (co-organizer role and above) and admins can delete any game.
  * 
  * Request headers: x-participant-id (required)
  * Response: { success: true }
@@ -547,10 +760,11 @@ router.delete('/:id/hidden/:participantId', async (req: Request, res: Response)
  *   - 400 if participantId header is missing or game has players/bringers
  *   - 403 if participant is not the owner
  *   - 404 if game not found
+ *   - 423 if the event is locked or archived
  * 
  * Requirements: 3.2, 3.5, 3.6, 3.7
  */
-router.delete('/:id', async (req: Request, res: Response) => {
+router.delete('/:id', requireWritableEvent, async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const participantId = resolveParticipantId(req);
@@ -566,19 +780,9 @@ router.delete('/:id', async (req: Request, res: Response) => {
       });
     }
 
+    // Organizers (co-organizer role and above) may delete any game
     const account = await resolveOptionalAccount(req);
-    let canForceDelete = false;
-
-    if (account) {
-      if (account.role === 'admin') {
-        canForceDelete = true;
-      } else {
-        const event = await eventService.getEventById(eventId);
-        if (event && event.ownerAccountId === account.id) {
-          canForceDelete = true;
-        }
-      }
-    }
+    const canForceDelete = account ? await eventService.canAccessEvent(eventId, account) : false;
 
     await gameService.deleteGame(
       eventId,
@@ -629,6 +833,178 @@ router.delete('/:id', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/games/:id/restore
+ * Restores a game from the trash together with its players and bringers.
+ * The owner and the participant who deleted the game may restore it.
+ * Event organizers (co-organizer role and above) and admins can restore any game.
+ * 
+ * Request headers: x-participant-id (required)
+ * Response: { game: Game }
+ * 
+ * Error responses:
+ *   - 400 if participantId header is missing
+ *   - 403 if participant neither owns nor deleted the game
+ *   - 404 if the game is not in the trash
+ *   - 423 if the event is locked or archived
+ */
+router.post('/:id/restore', requireWritableEvent, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const participantId = resolveParticipantId(req);
+    const eventId = await resolveEventId(req);
+
+    // Validate required header
+    if (!participantId) {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Teilnehmer-ID erforderlich.',
+        },
+      });
+    }
+
+    // Organizers (co-organizer role and above) may restore any game
+    const account = await resolveOptionalAccount(req);
+    const canForceRestore = account ? await eventService.canAccessEvent(eventId, account) : false;
+
+    const game = await gameService.restoreGame(
+      eventId,
+      id,
+      participantId,
+      canForceRestore ? { allowNonOwner: true } : undefined
+    );
+    return res.json({ game });
+  } catch (error) {
+    if (error instanceof Error) {
+      const errorWithCode = error as Error & { code?: string };
+      
+      // Handle game not in the trash
+      if (errorWithCode.code === 'GAME_NOT_FOUND') {
+        return res.status(404).json({
+          error: {
+            code: 'GAME_NOT_FOUND',
+            message: error.message,
+          },
+        });
+      }
+      // Handle forbidden (neither owner nor deleter)
+      if (errorWithCode.code === 'FORBIDDEN') {
+        return res.status(403).json({
+          error: {
+            code: 'FORBIDDEN',
+            message: error.message,
+          },
+        });
+      }
+    }
+    console.error('Error restoring game:', error);
+    return res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Ein Fehler ist aufgetreten.',
+      },
+    });
+  }
+});
+
+/**
+ * PATCH /api/games/:id
+ * Edits the name and/or BGG link of a game. Only the owner can edit.
+ * Linking to a BGG entry re-fills year, rating and alternate names from the BGG data;
+ * bggId null removes the link.
+ * 
+ * Request headers: x-participant-id (required)
+ * Request body: { name?: string, bggId?: number | null }
+ * Response: { game: Game }
+ * 
+ * Error responses:
+ *   - 400 if nothing to change is given, the name is empty or the BGG entry is unknown
+ *   - 403 if participant is not the owner
+ *   - 404 if game not found
+ *   - 409 if game name already exists, also in the trash
+ *     (GAME_IN_TRASH with details { gameId, canRestore, restorers } to offer a restore)
+ *   - 423 if the event is locked or archived
+ */
+router.patch('/:id', requireWritableEvent, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const participantId = resolveParticipantId(req);
+    const { name, bggId } = req.body;
+    const eventId = await resolveEventId(req);
+
+    // Validate required header
+    if (!participantId) {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Teilnehmer-ID erforderlich.',
+        },
+      });
+    }
+
+    // Validate request body
+    const validName = name === undefined || typeof name === 'string';
+    const validBggId = bggId === undefined || bggId === null || (Number.isInteger(bggId) && bggId > 0);
+    if ((name === undefined && bggId === undefined) || !validName || !validBggId) {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Ungültige Anfrage.',
+        },
+      });
+    }
+
+    const game = await gameService.updateGame(eventId, id, participantId, { name, bggId });
+    return res.json({ game });
+  } catch (error) {
+    if (error instanceof Error) {
+      const errorWithCode = error as Error & { code?: string };
+
+      if (errorWithCode.code === 'GAME_NOT_FOUND') {
+        return res.status(404).json({
+          error: {
+            code: 'GAME_NOT_FOUND',
+            message: error.message,
+          },
+        });
+      }
+      if (errorWithCode.code === 'FORBIDDEN') {
+        return res.status(403).json({
+          error: {
+            code: 'FORBIDDEN',
+            message: error.message,
+          },
+        });
+      }
+      if (errorWithCode.code === 'DUPLICATE_GAME' || errorWithCode.code === 'GAME_IN_TRASH') {
+        return res.status(409).json({
+          error: {
+            code: errorWithCode.code,
+            message: error.message,
+            details: (error as Error & { details?: Record<string, unknown> }).details,
+          },
+        });
+      }
+      if (errorWithCode.code === 'VALIDATION_ERROR') {
+        return res.status(400).json({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error.message,
+          },
+        });
+      }
+    }
+    console.error('Error updating game:', error);
+    return res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Ein Fehler ist aufgetreten.',
+      },
+    });
+  }
+});
+
 /**
  * PATCH /api/games/:id/prototype
  * Toggles the prototype status of a game. Only the owner can toggle, and only for non-BGG games.
@@ -641,10 +1017,11 @@ router.delete('/:id', async (req: Request, res: Response) => {
  *   - 400 if isPrototype is missing or game has BGG ID
  *   - 403 if participant is not the owner
  *   - 404 if game not found
+ *   - 423 if the event is locked or archived
  * 
  * Requirements: 022-prototype-toggle 1.1, 1.2, 1.3, 1.5
  */
-router.patch('/:id/prototype', async (req: Request, res: Response) => {
+router.patch('/:id/prototype', requireWritableEvent, async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const participantId = resolveParticipantId(req);
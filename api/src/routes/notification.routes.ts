@@ -0,0 +1,136 @@
+import { Router, Request, Response } from 'express';
+import { notificationService, parseNotificationListQuery } from '../services/notification.service';
+import { requireEventAuth, type EventAuthenticatedRequest } from '../middleware/event-auth.middleware';
+import { resolveParticipantId } from '../middleware/participant.middleware';
+
+const router = Router();
+
+router.use(requireEventAuth);
+
+/**
+ * GET /api/notifications
+ * Returns the inbox of the participant, newest first. Notifications are
+ * created for games the participant plays, brings or follows.
+ *
+ * Request headers: x-participant-id (required)
+ * Query parameters (all optional):
+ *   - unread: "true" lists unread notifications only
+ *   - limit: number of notifications (1-100, default 50)
+ *
+ * Response: { notifications: NotificationEntry[], unreadCount: number }
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const participantId = resolveParticipantId(req);
+    if (!participantId) {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Teilnehmer-ID erforderlich.',
+        },
+      });
+    }
+
+    const query = parseNotificationListQuery(req.query);
+    const { eventId } = req as EventAuthenticatedRequest;
+    const inbox = await notificationService.getNotifications(eventId, participantId, query);
+    return res.json(inbox);
+  } catch (error) {
+    if (error instanceof Error && (error as Error & { code?: string }).code === 'VALIDATION_ERROR') {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.message,
+        },
+      });
+    }
+
+    console.error('Error fetching notifications:', error);
+    return res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Ein Fehler ist aufgetreten.',
+      },
+    });
+  }
+});
+
+/**
+ * POST /api/notifications/read-all
+ * Marks all notifications of the participant as read.
+ *
+ * Request headers: x-participant-id (required)
+ * Response: { updatedCount: number }
+ */
+router.post('/read-all', async (req: Request, res: Response) => {
+  try {
+    const participantId = resolveParticipantId(req);
+    if (!participantId) {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Teilnehmer-ID erforderlich.',
+        },
+      });
+    }
+
+    const { eventId } = req as EventAuthenticatedRequest;
+    const updatedCount = await notificationService.markAllRead(eventId, participantId);
+    return res.json({ updatedCount });
+  } catch (error) {
+    console.error('Error marking notifications as read:', error);
+    return res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Ein Fehler ist aufgetreten.',
+      },
+    });
+  }
+});
+
+/**
+ * POST /api/notifications/:id/read
+ * Marks one notification of the participant as read.
+ *
+ * Request headers: x-participant-id (required)
+ * Response: { notification: NotificationEntry }
+ *
+ * Error responses:
+ *   - 404 if the notification does not belong to the participant
+ */
+router.post('/:id/read', async (req: Request, res: Response) => {
+  try {
+    const participantId = resolveParticipantId(req);
+    if (!participantId) {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Teilnehmer-ID erforderlich.',
+        },
+      });
+    }
+
+    const { eventId } = req as EventAuthenticatedRequest;
+    const notification = await notificationService.markRead(eventId, participantId, req.params.id);
+    return res.json({ notification });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Benachrichtigung nicht gefunden.') {
+      return res.status(404).json({
+        error: {
+          code: 'NOTIFICATION_NOT_FOUND',
+          message: error.message,
+        },
+      });
+    }
+
+    console.error('Error marking notification as read:', error);
+    return res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Ein Fehler ist aufgetreten.',
+      },
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,479 @@
+import { Router, Request, Response } from 'express';
+import { prisma } from '../db/prisma';
+import { EventService, EventError, type ListEventsOptions } from '../services/event.service';
+import { EventMembershipService } from '../services/event-membership.service';
+import { EventModerationService } from '../services/event-moderation.service';
+import { ActivityArchiveService } from '../services/activityArchive.service';
+import { statisticsService } from '../services/statistics.service';
+import { requireAuth, AuthenticatedRequest } from '../middleware/auth.middleware';
+
+const router = Router();
+const eventService = new EventService(prisma);
+const membershipService = new EventMembershipService(prisma, eventService);
+const moderationService = new EventModerationService(prisma, eventService);
+const activityArchiveService = new ActivityArchiveService(prisma, eventService);
+
+router.use(requireAuth);
+
+function handleEventError(res: Response, error: unknown, context: string): void {
+  if (error instanceof EventError) {
+    res.status(error.statusCode).json({
+      error: error.code,
+      message: error.message,
+    });
+    return;
+  }
+  console.error(`${context}:`, error);
+  res.status(500).json({
+    error: 'INTERNAL_ERROR',
+    message: 'Ein Fehler ist aufgetreten. Bitte später erneut versuchen.',
+  });
+}
+
+function parseListOptions(req: Request): ListEventsOptions {
+  return { includeArchived: req.query.includeArchived === 'true' };
+}
+
+/**
+ * GET /api/organizer/events
+ * Lists events the current account owns or belongs to (admins see all events).
+ * Each event carries the account's role.
+ * Archived events are only included with ?includeArchived=true.
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const events = await eventService.listEventsForAccount(authReq.account, parseListOptions(req));
+    res.json({ events });
+  } catch (error) {
+    handleEventError(res, error, 'List events error');
+  }
+});
+
+/**
+ * GET /api/organizer/events/dashboard
+ * Lists events of the current account together with their KPIs.
+ * Archived events are only included with ?includeArchived=true.
+ *
+ * Response: { events: Array<{ event: Event, statistics: EventSummaryStatistics }> }
+ */
+router.get('/dashboard', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const events = await eventService.listEventsForAccount(authReq.account, parseListOptions(req));
+    const summaries = await statisticsService.getEventSummaries(events.map((event) => event.id));
+    res.json({
+      events: events.map((event, index) => ({ event, statistics: summaries[index] })),
+    });
+  } catch (error) {
+    handleEventError(res, error, 'Event dashboard error');
+  }
+});
+
+/**
+ * POST /api/organizer/events
+ * Creates a new event owned by the current account
+ *
+ * Request body: { name, password, startsAt?, endsAt?, location?, capacity?, notes?, fees? }
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const event = await eventService.createEvent(authReq.account.id, req.body ?? {});
+    res.status(201).json({ event });
+  } catch (error) {
+    handleEventError(res, error, 'Create event error');
+  }
+});
+
+/**
+ * GET /api/organizer/events/invites/:token
+ * Shows a pending invite to the logged-in account before accepting
+ */
+router.get('/invites/:token', async (req: Request, res: Response) => {
+  try {
+    const invite = await membershipService.getInvitePreview(req.params.token);
+    res.json({ invite });
+  } catch (error) {
+    handleEventError(res, error, 'Get invite error');
+  }
+});
+
+/**
+ * POST /api/organizer/events/invites/:token/accept
+ * Joins the organizer team with the invited role.
+ * The invite must be addressed to the email of the current account.
+ *
+ * Response: { eventId, role }
+ */
+router.post('/invites/:token/accept', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const result = await membershipService.acceptInvite(req.params.token, authReq.account);
+    res.json(result);
+  } catch (error) {
+    handleEventError(res, error, 'Accept invite error');
+  }
+});
+
+/**
+ * GET /api/organizer/events/:id
+ * Returns a single event with the account's role (any team member)
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { event, role } = await eventService.authorizeEvent(req.params.id, authReq.account, 'viewer');
+    res.json({ event: { ...eventService.toEventResponse(event), role } });
+  } catch (error) {
+    handleEventError(res, error, 'Get event error');
+  }
+});
+
+/**
+ * PATCH /api/organizer/events/:id
+ * Updates event metadata (co-organizers and above)
+ *
+ * Request body: any of { name, slug, startsAt, endsAt, location, capacity, notes, fees, status }
+ */
+router.patch('/:id', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const event = await eventService.updateEvent(req.params.id, authReq.account, req.body ?? {});
+    res.json({ event });
+  } catch (error) {
+    handleEventError(res, error, 'Update event error');
+  }
+});
+
+/**
+ * PATCH /api/organizer/events/:id/password
+ * Rotates the event password (co-organizers and above).
+ * Event tokens issued for the old password stop working.
+ *
+ * Request body: { password: string }
+ */
+router.patch('/:id/password', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    await eventService.changeEventPassword(req.params.id, authReq.account, req.body?.password);
+    res.json({
+      success: true,
+      message: 'Event-Passwort geändert.',
+    });
+  } catch (error) {
+    handleEventError(res, error, 'Change event password error');
+  }
+});
+
+/**
+ * POST /api/organizer/events/:id/clone
+ * Creates a new event from an existing one (co-organizers and above)
+ *
+ * Request body: any metadata field plus { password?, includeParticipants?: boolean,
+ *   games?: 'none' | 'available' | 'requested' }
+ */
+router.post('/:id/clone', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const event = await eventService.cloneEvent(req.params.id, authReq.account, req.body ?? {});
+    res.status(201).json({ event });
+  } catch (error) {
+    handleEventError(res, error, 'Clone event error');
+  }
+});
+
+/**
+ * POST /api/organizer/events/:id/revoke-tokens
+ * Signs out all participants by invalidating every issued event token (co-organizers and above)
+ */
+router.post('/:id/revoke-tokens', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const event = await eventService.revokeEventTokens(req.params.id, authReq.account);
+    res.json({
+      event,
+      message: 'Alle Teilnehmer wurden abgemeldet.',
+    });
+  } catch (error) {
+    handleEventError(res, error, 'Revoke event tokens error');
+  }
+});
+
+/**
+ * GET /api/organizer/events/:id/members
+ * Lists the organizer team; pending invites are included for the owner
+ *
+ * Response: { members: EventMember[], invites: EventInvite[] }
+ */
+router.get('/:id/members', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const team = await membershipService.listTeam(req.params.id, authReq.account);
+    res.json(team);
+  } catch (error) {
+    handleEventError(res, error, 'List event members error');
+  }
+});
+
+/**
+ * POST /api/organizer/events/:id/invites
+ * Invites an email address to the organizer team (owner only).
+ * The response contains the token for the accept link.
+ *
+ * Request body: { email: string, role: 'co_organizer' | 'viewer' }
+ */
+router.post('/:id/invites', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const invite = await membershipService.createInvite(req.params.id, authReq.account, req.body ?? {});
+    res.status(201).json({ invite });
+  } catch (error) {
+    handleEventError(res, error, 'Create invite error');
+  }
+});
+
+/**
+ * DELETE /api/organizer/events/:id/invites/:inviteId
+ * Withdraws a pending invite (owner only)
+ */
+router.delete('/:id/invites/:inviteId', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    await membershipService.revokeInvite(req.params.id, req.params.inviteId, authReq.account);
+    res.json({ success: true });
+  } catch (error) {
+    handleEventError(res, error, 'Revoke invite error');
+  }
+});
+
+/**
+ * PATCH /api/organizer/events/:id/members/:accountId
+ * Changes the role of a team member (owner only)
+ *
+ * Request body: { role: 'co_organizer' | 'viewer' }
+ */
+router.patch('/:id/members/:accountId', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const member = await membershipService.updateMemberRole(
+      req.params.id,
+      req.params.accountId,
+      authReq.account,
+      req.body?.role
+    );
+    res.json({ member });
+  } catch (error) {
+    handleEventError(res, error, 'Update event member error');
+  }
+});
+
+/**
+ * DELETE /api/organizer/events/:id/members/:accountId
+ * Removes a member from the organizer team (owner only)
+ */
+router.delete('/:id/members/:accountId', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    await membershipService.removeMember(req.params.id, req.params.accountId, authReq.account);
+    res.json({ success: true });
+  } catch (error) {
+    handleEventError(res, error, 'Remove event member error');
+  }
+});
+
+/**
+ * GET /api/organizer/events/:id/moderation
+ * Lists participants and games of the event for moderation (co-organizers and above)
+ *
+ * Response: { participants: ModerationParticipant[], games: ModerationGame[] }
+ */
+router.get('/:id/moderation', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const overview = await moderationService.getOverview(req.params.id, authReq.account);
+    res.json(overview);
+  } catch (error) {
+    handleEventError(res, error, 'Get moderation overview error');
+  }
+});
+
+/**
+ * POST /api/organizer/events/:id/participants/merge
+ * Merges a duplicate participant into another one and deletes it (co-organizers and above)
+ *
+ * Request body: { sourceId: string, targetId: string }
+ */
+router.post('/:id/participants/merge', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const participant = await moderationService.mergeParticipants(req.params.id, authReq.account, req.body ?? {});
+    res.json({ participant });
+  } catch (error) {
+    handleEventError(res, error, 'Merge participants error');
+  }
+});
+
+/**
+ * GET /api/organizer/events/:id/games/duplicates
+ * Lists pairs of games that are likely duplicates (co-organizers and above)
+ *
+ * Response: { candidates: DuplicateGameCandidate[] }
+ */
+router.get('/:id/games/duplicates', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const candidates = await moderationService.listDuplicateGames(req.params.id, authReq.account);
+    res.json({ candidates });
+  } catch (error) {
+    handleEventError(res, error, 'List duplicate games error');
+  }
+});
+
+/**
+ * POST /api/organizer/events/:id/games/merge
+ * Merges a duplicate game into another one and deletes it (co-organizers and above)
+ *
+ * Request body: { sourceId: string, targetId: string }
+ * Response: { game: ModerationGame }
+ */
+router.post('/:id/games/merge', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const game = await moderationService.mergeGames(req.params.id, authReq.account, req.body ?? {});
+    res.json({ game });
+  } catch (error) {
+    handleEventError(res, error, 'Merge games error');
+  }
+});
+
+/**
+ * GET /api/organizer/events/:id/games/stale?olderThanDays=30
+ * Previews the wunsch games a stale-games cleanup would delete (co-organizers and above)
+ */
+router.get('/:id/games/stale', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const games = await moderationService.listStaleGames(req.params.id, authReq.account, req.query.olderThanDays);
+    res.json({ games });
+  } catch (error) {
+    handleEventError(res, error, 'List stale games error');
+  }
+});
+
+/**
+ * DELETE /api/organizer/events/:id/games/stale?olderThanDays=30
+ * Deletes wunsch games nobody brings that are older than the given days (co-organizers and above)
+ *
+ * Response: { deletedCount, gameIds }
+ */
+router.delete('/:id/games/stale', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const result = await moderationService.deleteStaleGames(req.params.id, authReq.account, req.query.olderThanDays);
+    res.json(result);
+  } catch (error) {
+    handleEventError(res, error, 'Delete stale games error');
+  }
+});
+
+/**
+ * PATCH /api/organizer/events/:id/games/:gameId
+ * Renames a game and/or reassigns its owner (co-organizers and above)
+ *
+ * Request body: any of { name: string, ownerId: string | null }
+ */
+router.patch('/:id/games/:gameId', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const game = await moderationService.moderateGame(
+      req.params.id,
+      req.params.gameId,
+      authReq.account,
+      req.body ?? {}
+    );
+    res.json({ game });
+  } catch (error) {
+    handleEventError(res, error, 'Moderate game error');
+  }
+});
+
+/**
+ * GET /api/organizer/events/:id/trash
+ * Lists deleted games that can still be restored (co-organizers and above)
+ *
+ * Response: { games: TrashedGame[] }
+ */
+router.get('/:id/trash', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const games = await moderationService.listTrash(req.params.id, authReq.account);
+    res.json({ games });
+  } catch (error) {
+    handleEventError(res, error, 'List trash error');
+  }
+});
+
+/**
+ * POST /api/organizer/events/:id/trash/:gameId/restore
+ * Restores a deleted game with its players and bringers (co-organizers and above)
+ *
+ * Response: { game: ModerationGame }
+ */
+router.post('/:id/trash/:gameId/restore', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const game = await moderationService.restoreTrashedGame(req.params.id, req.params.gameId, authReq.account);
+    res.json({ game });
+  } catch (error) {
+    handleEventError(res, error, 'Restore game error');
+  }
+});
+
+/**
+ * DELETE /api/organizer/events/:id/trash/:gameId
+ * Deletes a game from the trash for good (co-organizers and above)
+ */
+router.delete('/:id/trash/:gameId', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    await moderationService.purgeTrashedGame(req.params.id, req.params.gameId, authReq.account);
+    res.json({ success: true });
+  } catch (error) {
+    handleEventError(res, error, 'Purge game error');
+  }
+});
+
+/**
+ * GET /api/organizer/events/:id/activity/export?from=2026-10-01&to=2026-10-31&format=csv
+ * Downloads the activity log of a date range including archived activity (co-organizers and above).
+ * Bounds are optional and inclusive; a date without time covers the whole day (UTC).
+ * format is csv (default) or ndjson.
+ */
+router.get('/:id/activity/export', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const file = await activityArchiveService.exportActivity(req.params.id, authReq.account, req.query);
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.send(file.content);
+  } catch (error) {
+    handleEventError(res, error, 'Export activity error');
+  }
+});
+
+/**
+ * DELETE /api/organizer/events/:id
+ * Deletes an event including its participants and games (owner only)
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    await eventService.deleteEvent(req.params.id, authReq.account);
+    res.json({ success: true });
+  } catch (error) {
+    handleEventError(res, error, 'Delete event error');
+  }
+});
+
+export default router;
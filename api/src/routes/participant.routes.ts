@@ -1,14 +1,18 @@
 import { Router, Request, Response } from 'express';
 import { participantService } from '../services/participant.service';
 import { resolveEventId } from '../middleware/event.middleware';
+import { requireEventAuth, requireWritableEvent } from '../middleware/event-auth.middleware';
 
 const router = Router();
 
+router.use(requireEventAuth);
+
 /**
  * GET /api/participants
- * Returns all participants sorted by name.
+ * Returns all participants sorted by name, together with the event's capacity overview.
+ * Waitlisted participants carry their waitlistPosition.
  *
- * Response: { participants: Participant[] }
+ * Response: { participants: Participant[], capacity: ParticipantCapacity }
  *
  * Requirements: 3.1
  */
@@ -16,7 +20,8 @@ router.get('/', async (req: Request, res: Response) => {
   try {
     const eventId = await resolveEventId(req);
     const participants = await participantService.getAllParticipants(eventId);
-    return res.json({ participants, users: participants });
+    const capacity = await participantService.getCapacity(eventId);
+    return res.json({ participants, users: participants, capacity });
   } catch (error) {
     console.error('Error fetching participants:', error);
     return res.status(500).json({
@@ -69,7 +74,8 @@ router.get('/:id', async (req: Request, res: Response) => {
 
 /**
  * POST /api/participants
- * Creates a new participant.
+ * Creates a new participant. When the event is full, the participant is
+ * placed on the waitlist and the response includes its waitlistPosition.
  *
  * Request body: { name: string }
  * Response: { participant: Participant }
@@ -77,10 +83,11 @@ router.get('/:id', async (req: Request, res: Response) => {
  * Error responses:
  *   - 400 if name is empty or whitespace-only
  *   - 409 if name already exists
+ *   - 423 if the event is locked or archived
  *
  * Requirements: 3.4, 3.5, 3.6
  */
-router.post('/', async (req: Request, res: Response) => {
+router.post('/', requireWritableEvent, async (req: Request, res: Response) => {
   try {
     const { name } = req.body;
     const eventId = await resolveEventId(req);
@@ -148,10 +155,11 @@ router.post('/', async (req: Request, res: Response) => {
  *   - 400 if name is empty or whitespace-only
  *   - 404 if participant not found
  *   - 409 if name already exists for another participant
+ *   - 423 if the event is locked or archived
  *
  * Requirements: 3.7, 3.8, 3.9
  */
-router.patch('/:id', async (req: Request, res: Response) => {
+router.patch('/:id', requireWritableEvent, async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const { name } = req.body;
@@ -221,15 +229,17 @@ router.patch('/:id', async (req: Request, res: Response) => {
 /**
  * DELETE /api/participants/:id
  * Deletes a participant and cascades to Player/Bringer records.
+ * Frees the spot for the first waitlisted participant (broadcast as participant:promoted).
  *
  * Response: { success: true }
  *
  * Error responses:
  *   - 404 if participant not found
+ *   - 423 if the event is locked or archived
  *
  * Requirements: 3.10
  */
-router.delete('/:id', async (req: Request, res: Response) => {
+router.delete('/:id', requireWritableEvent, async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const eventId = await resolveEventId(req);
@@ -0,0 +1,150 @@
+import { Router, Request, Response } from 'express';
+import { playSessionService, parseCreatePlaySessionInput } from '../services/playSession.service';
+import { requireEventAuth, requireWritableEvent, type EventAuthenticatedRequest } from '../middleware/event-auth.middleware';
+import { resolveParticipantId } from '../middleware/participant.middleware';
+
+const router = Router();
+
+router.use(requireEventAuth);
+
+const ERROR_STATUS: Record<string, number> = {
+  VALIDATION_ERROR: 400,
+  PARTICIPANT_NOT_FOUND: 404,
+  PARTICIPANT_WAITLISTED: 403,
+  GAME_NOT_FOUND: 404,
+  SESSION_NOT_FOUND: 404,
+  NOT_IN_SESSION: 404,
+  SESSION_FULL: 409,
+};
+
+function sendError(res: Response, error: unknown, context: string) {
+  const code = error instanceof Error ? (error as Error & { code?: string }).code : undefined;
+  if (error instanceof Error && code && ERROR_STATUS[code]) {
+    return res.status(ERROR_STATUS[code]).json({
+      error: {
+        code,
+        message: error.message,
+      },
+    });
+  }
+
+  console.error(`Error ${context}:`, error);
+  return res.status(500).json({
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: 'Ein Fehler ist aufgetreten.',
+    },
+  });
+}
+
+function missingParticipant(res: Response) {
+  return res.status(400).json({
+    error: {
+      code: 'VALIDATION_ERROR',
+      message: 'Teilnehmer-ID erforderlich.',
+    },
+  });
+}
+
+/**
+ * GET /api/play-sessions
+ * Returns the sessions ("Runden") that have not started yet, soonest first,
+ * with their participants and open seats.
+ *
+ * Response: { sessions: PlaySessionEntry[] }
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { eventId } = req as EventAuthenticatedRequest;
+    const sessions = await playSessionService.listUpcoming(eventId);
+    return res.json({ sessions });
+  } catch (error) {
+    return sendError(res, error, 'fetching play sessions');
+  }
+});
+
+/**
+ * POST /api/play-sessions
+ * Creates a session for a game; the participant takes the first seat.
+ *
+ * Request headers: x-participant-id (required)
+ * Request body: { gameId: string, startsAt: string, tableLabel?: string, seatLimit?: number }
+ *   seatLimit defaults to the max player count of the game, if known
+ * Response: { session: PlaySessionEntry }
+ *
+ * Error responses:
+ *   - 400 VALIDATION_ERROR for invalid input or a start time in the past
+ *   - 403 PARTICIPANT_WAITLISTED if the participant is on the waitlist
+ *   - 404 GAME_NOT_FOUND if the game is not in the event
+ */
+router.post('/', requireWritableEvent, async (req: Request, res: Response) => {
+  try {
+    const participantId = resolveParticipantId(req);
+    if (!participantId) {
+      return missingParticipant(res);
+    }
+
+    const input = parseCreatePlaySessionInput(req.body ?? {});
+    const { eventId } = req as EventAuthenticatedRequest;
+    const session = await playSessionService.createSession(eventId, participantId, input);
+    return res.status(201).json({ session });
+  } catch (error) {
+    return sendError(res, error, 'creating play session');
+  }
+});
+
+/**
+ * POST /api/play-sessions/:id/join
+ * Takes a seat in a session. Joining twice is a no-op.
+ *
+ * Request headers: x-participant-id (required)
+ * Response: { session: PlaySessionEntry }
+ *
+ * Error responses:
+ *   - 403 PARTICIPANT_WAITLISTED if the participant is on the waitlist
+ *   - 404 SESSION_NOT_FOUND if the session does not exist
+ *   - 409 SESSION_FULL if no seat is left
+ */
+router.post('/:id/join', requireWritableEvent, async (req: Request, res: Response) => {
+  try {
+    const participantId = resolveParticipantId(req);
+    if (!participantId) {
+      return missingParticipant(res);
+    }
+
+    const { eventId } = req as EventAuthenticatedRequest;
+    const session = await playSessionService.joinSession(eventId, participantId, req.params.id);
+    return res.json({ session });
+  } catch (error) {
+    return sendError(res, error, 'joining play session');
+  }
+});
+
+/**
+ * POST /api/play-sessions/:id/leave
+ * Gives up the seat in a session. The session is removed once its last
+ * participant left.
+ *
+ * Request headers: x-participant-id (required)
+ * Response: { session: PlaySessionEntry | null } (null if the session was removed)
+ *
+ * Error responses:
+ *   - 404 SESSION_NOT_FOUND if the session does not exist
+ *   - 404 NOT_IN_SESSION if the participant has no seat in it
+ */
+router.post('/:id/leave', requireWritableEvent, async (req: Request, res: Response) => {
+  try {
+    const participantId = resolveParticipantId(req);
+    if (!participantId) {
+      return missingParticipant(res);
+    }
+
+    const { eventId } = req as EventAuthenticatedRequest;
+    const session = await playSessionService.leaveSession(eventId, participantId, req.params.id);
+    return res.json({ session });
+  } catch (error) {
+    return sendError(res, error, 'leaving play session');
+  }
+});
+
+export default router;
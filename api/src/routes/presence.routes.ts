@@ -0,0 +1,21 @@
+import { Router, Request, Response } from 'express';
+import { sseManager } from '../services';
+import { requireEventAuth, type EventAuthenticatedRequest } from '../middleware/event-auth.middleware';
+
+const router = Router();
+
+router.use(requireEventAuth);
+
+/**
+ * GET /api/presence
+ * Returns the ids of the event's participants that currently have the list open.
+ * Changes are pushed as presence:joined / presence:left SSE events.
+ *
+ * Response: { participantIds: string[] }
+ */
+router.get('/', (req: Request, res: Response) => {
+  const { eventId } = req as EventAuthenticatedRequest;
+  return res.json({ participantIds: sseManager.getOnlineParticipantIds(eventId) });
+});
+
+export default router;
@@ -1,15 +1,50 @@
 import { Router, Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { sseManager } from '../services';
+import { participantService } from '../services/participant.service';
+import { requireEventAuth, type EventAuthenticatedRequest } from '../middleware/event-auth.middleware';
 
 const router = Router();
 
 // Heartbeat interval in milliseconds (30 seconds)
 const HEARTBEAT_INTERVAL = 30000;
 
+/**
+ * Read the id of the last event a reconnecting client received. Browsers send
+ * it as Last-Event-ID header; clients that open a fresh EventSource pass it
+ * as ?lastEventId= instead.
+ */
+function getLastEventId(req: Request): number | null {
+  const value = req.get('Last-Event-ID') ?? req.query.lastEventId;
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+    return null;
+  }
+  return Number(value);
+}
+
+/**
+ * Read the participant a client is signed in as, for presence. Ids that do
+ * not belong to the event are ignored; such clients still get the stream,
+ * they just do not show up as online.
+ */
+async function getParticipantId(req: Request, eventId: string): Promise<string | null> {
+  const value = req.query.participantId;
+  if (typeof value !== 'string' || !value) {
+    return null;
+  }
+
+  try {
+    await participantService.getParticipantById(value, eventId);
+    return value;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * GET /api/events
  * Establishes an SSE connection with the client.
+ * Requires an event token, passed as ?eventToken= since EventSource cannot set headers.
  * 
  * Response headers:
  *   - Content-Type: text/event-stream
@@ -17,9 +52,20 @@ const HEARTBEAT_INTERVAL = 30000;
  *   - Connection: keep-alive
  * 
  * Sends heartbeat every 30 seconds to keep connection alive.
- * Broadcasts game events to all connected clients.
+ * The client is bound to the event of its token and only receives that event's updates.
+ * Reconnecting clients get the events they missed replayed, or a resync-required
+ * event when those are no longer buffered.
+ * With ?participantId= the participant is shown as online while connected.
  */
-router.get('/', (req: Request, res: Response) => {
+router.get('/', requireEventAuth, async (req: Request, res: Response) => {
+  const { eventId } = req as EventAuthenticatedRequest;
+  const participantId = await getParticipantId(req, eventId);
+
+  // The client may have gone away while the participant was looked up
+  if (req.socket.destroyed) {
+    return;
+  }
+
   // Set SSE headers
   res.setHeader('Content-Type', 'text/event-stream');
   res.setHeader('Cache-Control', 'no-cache');
@@ -32,14 +78,19 @@ router.get('/', (req: Request, res: Response) => {
   // Generate unique client ID
   const clientId = uuidv4();
   
-  // Add client to SSE manager
-  sseManager.addClient(clientId, res);
+  // Add client to the channel of its event
+  sseManager.addClient(clientId, eventId, res, participantId);
   
-  console.log(`SSE client connected: ${clientId} (total: ${sseManager.getClientCount()})`);
+  console.log(`SSE client connected: ${clientId} (event: ${eventId}, total: ${sseManager.getClientCount()})`);
 
   // Send initial connection confirmation
   res.write(`data: ${JSON.stringify({ type: 'connected', clientId })}\n\n`);
 
+  const lastEventId = getLastEventId(req);
+  if (lastEventId !== null) {
+    sseManager.replay(clientId, lastEventId);
+  }
+
   // Set up heartbeat to keep connection alive
   const heartbeatInterval = setInterval(() => {
     try {
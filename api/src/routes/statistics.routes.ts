@@ -1,9 +1,12 @@
 import { Router, Request, Response } from 'express';
 import { statisticsService } from '../services/statistics.service';
 import { resolveEventId } from '../middleware/event.middleware';
+import { requireEventAuth } from '../middleware/event-auth.middleware';
 
 const router = Router();
 
+router.use(requireEventAuth);
+
 /**
  * GET /api/statistics
  * Returns statistics about the event including total games, participants,
@@ -13,6 +13,7 @@ import multer from 'multer';
 import { thumbnailService } from '../services/thumbnailService';
 import { gameRepository } from '../repositories';
 import { resolveEventId } from '../middleware/event.middleware';
+import { requireEventAuth, requireWritableEvent } from '../middleware/event-auth.middleware';
 import { resolveParticipantId } from '../middleware/participant.middleware';
 import { config } from '../config';
 import { sseManager } from '../services/sse.service';
@@ -44,6 +45,7 @@ const upload = multer({
  *   - gameId: Game ID (UUID)
  * 
  * Headers:
+ *   - x-event-token: Event token (required)
  *   - x-participant-id: Participant ID (required for ownership validation)
  * 
  * Body: multipart/form-data with 'thumbnail' file field
@@ -54,11 +56,12 @@ const upload = multer({
  *   - 400 if file too large, invalid type, or game has BGG ID
  *   - 403 if participant is not the game owner
  *   - 404 if game not found
+ *   - 423 if the event is locked or archived
  *   - 500 if image processing fails
  * 
  * Requirements: 1.1, 1.2, 1.3, 1.6, 1.7
  */
-router.post('/:gameId', (req: Request, res: Response) => {
+router.post('/:gameId', requireEventAuth, requireWritableEvent, (req: Request, res: Response) => {
   upload.single('thumbnail')(req, res, async (err) => {
     try {
       const { gameId } = req.params;
@@ -148,7 +151,7 @@ router.post('/:gameId', (req: Request, res: Response) => {
         participantId,
         timestamp: Date.now(),
       };
-      sseManager.broadcast(event);
+      sseManager.broadcast(eventId, event);
 
       return res.json({ success: true });
     } catch (error) {
@@ -172,7 +175,7 @@ router.post('/:gameId', (req: Request, res: Response) => {
  * 
  * Response: { exists: boolean }
  */
-router.get('/:gameId/exists', async (req: Request, res: Response) => {
+router.get('/:gameId/exists', requireEventAuth, async (req: Request, res: Response) => {
   try {
     const { gameId } = req.params;
     const exists = thumbnailService.hasThumbnail(gameId);
@@ -197,6 +200,9 @@ router.get('/:gameId/exists', async (req: Request, res: Response) => {
  *   - size: Image size ('micro' for 64x64 or 'square200' for 200x200)
  * 
  * Response: Image file (JPEG) with appropriate cache headers
+ *
+ * Served without an event token because images are loaded via <img> tags,
+ * which cannot send headers. Thumbnails are addressed by game UUID only.
  * 
  * Error responses:
  *   - 400 if invalid size parameter
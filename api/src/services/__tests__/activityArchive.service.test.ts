@@ -0,0 +1,249 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { gunzipSync } from 'zlib';
+import type { PrismaClient } from '@prisma/client';
+import {
+  ActivityArchiveService,
+  parseActivityExportFormat,
+  parseActivityExportRange,
+} from '../activityArchive.service';
+import { EventError, EventService } from '../event.service';
+import { EventErrorCodes } from '../../types/event';
+import type { AccountResponse } from '../../types/account';
+
+const organizer: AccountResponse = {
+  id: 'owner-1',
+  email: 'owner@example.com',
+  role: 'account_owner',
+  status: 'active',
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+};
+
+const row = (id: string, createdAt: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  actorUserId: 'user-1',
+  eventType: 'bringer_added',
+  gameId: 'game-1',
+  eventId: 'event-1',
+  metadata: { gameName: 'Catan' },
+  createdAt: new Date(createdAt),
+  actor: { name: 'Anna' },
+  game: { name: 'Catan' },
+  ...overrides,
+});
+
+type Row = ReturnType<typeof row>;
+
+const expectEventError = async (promise: Promise<unknown>, code: string) => {
+  await expect(promise).rejects.toBeInstanceOf(EventError);
+  await promise.catch((error: EventError) => expect(error.code).toBe(code));
+};
+
+/**
+ * Unit tests for ActivityArchiveService
+ * Prisma is stubbed; archive files are written to a temporary directory.
+ */
+describe('ActivityArchiveService', () => {
+  let archiveDir: string;
+  let prismaStub: {
+    event: { findMany: jest.Mock<(args: unknown) => Promise<unknown[]>> };
+    activityEvent: {
+      findMany: jest.Mock<(args: unknown) => Promise<Row[]>>;
+      deleteMany: jest.Mock<(args: unknown) => Promise<{ count: number }>>;
+    };
+  };
+  let authorizeEvent: jest.Mock<(...args: unknown[]) => Promise<unknown>>;
+  let service: ActivityArchiveService;
+
+  beforeEach(() => {
+    archiveDir = fs.mkdtempSync(path.join(os.tmpdir(), 'activity-archive-'));
+    prismaStub = {
+      event: { findMany: jest.fn<(args: unknown) => Promise<unknown[]>>(async () => []) },
+      activityEvent: {
+        findMany: jest.fn<(args: unknown) => Promise<Row[]>>(async () => []),
+        deleteMany: jest.fn<(args: unknown) => Promise<{ count: number }>>(async () => ({ count: 0 })),
+      },
+    };
+    authorizeEvent = jest.fn<(...args: unknown[]) => Promise<unknown>>(async () => ({
+      event: { id: 'event-1', slug: 'spieletreff' },
+      role: 'owner',
+    }));
+    service = new ActivityArchiveService(
+      prismaStub as unknown as PrismaClient,
+      { authorizeEvent } as unknown as EventService,
+      archiveDir
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(archiveDir, { recursive: true, force: true });
+  });
+
+  const readArchiveLines = (eventId: string) =>
+    fs
+      .readdirSync(path.join(archiveDir, eventId))
+      .flatMap((file) => gunzipSync(fs.readFileSync(path.join(archiveDir, eventId, file))).toString().trim().split('\n'))
+      .map((line) => JSON.parse(line));
+
+  describe('parseActivityExportRange', () => {
+    it('covers the whole day of a date-only end', () => {
+      expect(parseActivityExportRange('2026-10-01', '2026-10-01')).toEqual({
+        start: new Date('2026-10-01T00:00:00.000Z'),
+        end: new Date('2026-10-02T00:00:00.000Z'),
+      });
+    });
+
+    it('keeps an end timestamp inclusive', () => {
+      expect(parseActivityExportRange(undefined, '2026-10-01T12:00:00.000Z')).toEqual({
+        start: undefined,
+        end: new Date('2026-10-01T12:00:00.001Z'),
+      });
+    });
+
+    it('accepts equal timestamps as bounds', () => {
+      const range = parseActivityExportRange('2026-10-01T12:00:00.000Z', '2026-10-01T12:00:00.000Z');
+      expect(range.end!.getTime() - range.start!.getTime()).toBe(1);
+    });
+
+    it('rejects a start after the end and malformed dates', () => {
+      expect(() => parseActivityExportRange('2026-10-02', '2026-10-01')).toThrow(
+        expect.objectContaining({ code: EventErrorCodes.INVALID_DATE_RANGE })
+      );
+      expect(() => parseActivityExportRange('gestern', undefined)).toThrow(
+        expect.objectContaining({ code: EventErrorCodes.INVALID_DATE })
+      );
+    });
+
+    it('defaults to CSV and rejects unknown formats', () => {
+      expect(parseActivityExportFormat(undefined)).toBe('csv');
+      expect(parseActivityExportFormat('ndjson')).toBe('ndjson');
+      expect(() => parseActivityExportFormat('xlsx')).toThrow(
+        expect.objectContaining({ code: EventErrorCodes.INVALID_EXPORT_FORMAT })
+      );
+    });
+  });
+
+  describe('archiveExpiredActivity', () => {
+    it('archives activity created before the retention cutoff of each event', async () => {
+      prismaStub.event.findMany.mockResolvedValue([{ id: 'event-1', activityRetentionDays: 30 }]);
+      prismaStub.activityEvent.findMany.mockResolvedValueOnce([
+        row('a-1', '2026-09-01T10:00:00Z'),
+        row('a-2', '2026-09-19T11:59:59.999Z', { gameId: null, game: null, metadata: { gameId: 'game-9', gameName: 'Azul' } }),
+      ]);
+
+      const archived = await service.archiveExpiredActivity(new Date('2026-10-19T12:00:00Z'));
+
+      expect(archived).toBe(2);
+      expect(prismaStub.event.findMany).toHaveBeenCalledWith({
+        where: { activityRetentionDays: { not: null } },
+        select: { id: true, activityRetentionDays: true },
+      });
+      // An activity exactly at the cutoff stays in the database
+      expect(prismaStub.activityEvent.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { eventId: 'event-1', createdAt: { lt: new Date('2026-09-19T12:00:00Z') } },
+        })
+      );
+      expect(prismaStub.activityEvent.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ['a-1', 'a-2'] } },
+      });
+      expect(readArchiveLines('event-1')).toEqual([
+        expect.objectContaining({ id: 'a-1', actorName: 'Anna', gameName: 'Catan' }),
+        expect.objectContaining({ id: 'a-2', gameId: 'game-9', gameName: 'Azul' }),
+      ]);
+    });
+
+    it('does nothing for events without old activity', async () => {
+      prismaStub.event.findMany.mockResolvedValue([{ id: 'event-1', activityRetentionDays: 30 }]);
+
+      const archived = await service.archiveExpiredActivity(new Date('2026-10-19T12:00:00Z'));
+
+      expect(archived).toBe(0);
+      expect(prismaStub.activityEvent.deleteMany).not.toHaveBeenCalled();
+      expect(fs.existsSync(path.join(archiveDir, 'event-1'))).toBe(false);
+    });
+  });
+
+  describe('exportActivity', () => {
+    const archiveRows = async (rows: Row[]) => {
+      prismaStub.activityEvent.findMany.mockResolvedValueOnce(rows);
+      await service.archiveEventActivity('event-1', new Date('2026-12-31T00:00:00Z'));
+    };
+
+    it('includes archived activity at the range bounds and leaves out the rest', async () => {
+      await archiveRows([
+        row('a-before', '2026-09-30T23:59:59.999Z'),
+        row('a-start', '2026-10-01T00:00:00.000Z'),
+        row('a-end', '2026-10-01T23:59:59.999Z'),
+        row('a-after', '2026-10-02T00:00:00.000Z'),
+      ]);
+
+      const file = await service.exportActivity('event-1', organizer, {
+        from: '2026-10-01',
+        to: '2026-10-01',
+        format: 'ndjson',
+      });
+
+      expect(file.filename).toBe('aktivitaeten-spieletreff.ndjson');
+      expect(file.contentType).toContain('application/x-ndjson');
+      expect(file.content.trim().split('\n').map((line) => JSON.parse(line).id)).toEqual(['a-start', 'a-end']);
+      expect(prismaStub.activityEvent.findMany).toHaveBeenLastCalledWith({
+        where: {
+          eventId: 'event-1',
+          createdAt: { gte: new Date('2026-10-01T00:00:00.000Z'), lt: new Date('2026-10-02T00:00:00.000Z') },
+        },
+        include: expect.any(Object),
+      });
+    });
+
+    it('merges archive and database oldest first without duplicates', async () => {
+      await archiveRows([row('a-1', '2026-10-01T08:00:00Z'), row('a-2', '2026-10-01T09:00:00Z')]);
+      // a-2 is still in the database after an interrupted archive run
+      prismaStub.activityEvent.findMany.mockResolvedValueOnce([
+        row('a-3', '2026-10-01T10:00:00Z'),
+        row('a-2', '2026-10-01T09:00:00Z'),
+      ]);
+
+      const file = await service.exportActivity('event-1', organizer, { format: 'ndjson' });
+
+      expect(file.content.trim().split('\n').map((line) => JSON.parse(line).id)).toEqual(['a-1', 'a-2', 'a-3']);
+    });
+
+    it('writes CSV with quoted values', async () => {
+      prismaStub.activityEvent.findMany.mockResolvedValueOnce([
+        row('a-1', '2026-10-01T08:00:00Z', { actor: { name: 'Anna "die Große", Köln' }, metadata: { gameName: 'Catan' } }),
+      ]);
+
+      const file = await service.exportActivity('event-1', organizer, {});
+
+      expect(file.filename).toBe('aktivitaeten-spieletreff.csv');
+      expect(file.contentType).toBe('text/csv; charset=utf-8');
+      expect(file.content.replace(/^\uFEFF/, '').split('\r\n')).toEqual([
+        'id,createdAt,type,actorId,actorName,gameId,gameName,metadata',
+        'a-1,2026-10-01T08:00:00.000Z,bringer_added,user-1,"Anna ""die Große"", Köln",game-1,Catan,"{""gameName"":""Catan""}"',
+        '',
+      ]);
+    });
+
+    it('validates the query before reading any activity', async () => {
+      await expectEventError(
+        service.exportActivity('event-1', organizer, { from: '2026-10-02', to: '2026-10-01' }),
+        EventErrorCodes.INVALID_DATE_RANGE
+      );
+      await expectEventError(
+        service.exportActivity('event-1', organizer, { format: 'pdf' }),
+        EventErrorCodes.INVALID_EXPORT_FORMAT
+      );
+      expect(prismaStub.activityEvent.findMany).not.toHaveBeenCalled();
+    });
+
+    it('is limited to organizers of the event', async () => {
+      authorizeEvent.mockRejectedValue(new EventError(EventErrorCodes.NOT_AUTHORIZED, 'Keine Berechtigung', 403));
+
+      await expectEventError(service.exportActivity('event-1', organizer, {}), EventErrorCodes.NOT_AUTHORIZED);
+      expect(prismaStub.activityEvent.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
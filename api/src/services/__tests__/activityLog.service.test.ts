@@ -0,0 +1,180 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+const mockCreate = jest.fn<(args: unknown) => Promise<unknown>>();
+const mockFindMany = jest.fn<(args: unknown) => Promise<unknown[]>>();
+
+jest.mock('../../db/prisma', () => ({
+  prisma: {
+    activityEvent: {
+      create: (args: unknown) => mockCreate(args),
+      findMany: (args: unknown) => mockFindMany(args),
+    },
+  },
+}));
+
+import { ActivityLogService, parseActivityFeedQuery } from '../activityLog.service';
+import { sseManager } from '../sse.service';
+
+const anna = { id: 'user-1', name: 'Anna' };
+
+const row = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  actorUserId: anna.id,
+  eventType: 'bringer_added',
+  gameId: 'game-1',
+  eventId: 'event-1',
+  metadata: { gameName: 'Catan' },
+  createdAt: new Date('2026-10-18T18:00:00Z'),
+  actor: anna,
+  game: { id: 'game-1', name: 'Catan' },
+  ...overrides,
+});
+
+/**
+ * Unit tests for the activity feed of ActivityLogService
+ */
+describe('ActivityLogService', () => {
+  const service = new ActivityLogService();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(sseManager, 'broadcast').mockImplementation(() => undefined);
+  });
+
+  describe('getFeed', () => {
+    it('resolves activities to feed entries', async () => {
+      mockFindMany.mockResolvedValue([
+        row('a-2'),
+        row('a-1', { eventType: 'user_created', gameId: null, game: null, metadata: null }),
+      ]);
+
+      const feed = await service.getFeed('event-1');
+
+      expect(feed.nextCursor).toBeNull();
+      expect(feed.entries).toEqual([
+        {
+          id: 'a-2',
+          type: 'bringer_added',
+          createdAt: new Date('2026-10-18T18:00:00Z'),
+          actor: anna,
+          game: { id: 'game-1', name: 'Catan' },
+          message: 'Anna bringt Catan mit',
+        },
+        expect.objectContaining({ id: 'a-1', game: null, message: 'Anna ist neu dabei' }),
+      ]);
+    });
+
+    it('names deleted games from the logged metadata', async () => {
+      mockFindMany.mockResolvedValue([
+        row('a-1', { eventType: 'game_deleted', gameId: null, game: null, metadata: { gameId: 'game-1', gameName: 'Catan' } }),
+        row('a-0', { eventType: 'player_added', gameId: null, game: null, metadata: null }),
+      ]);
+
+      const { entries } = await service.getFeed('event-1');
+
+      expect(entries[0].game).toEqual({ id: 'game-1', name: 'Catan' });
+      expect(entries[0].message).toBe('Anna hat Catan gelöscht');
+      expect(entries[1].message).toBe('Anna spielt ein gelöschtes Spiel mit');
+    });
+
+    it('applies the filters and leaves personal activities out', async () => {
+      mockFindMany.mockResolvedValue([]);
+      const since = new Date('2026-10-18T00:00:00Z');
+
+      await service.getFeed('event-1', { actorId: anna.id, gameId: 'game-1', since });
+
+      const { where } = mockFindMany.mock.calls[0][0] as { where: { AND: Record<string, unknown>[] } };
+      expect(where.AND).toEqual(
+        expect.arrayContaining([
+          { eventId: 'event-1', eventType: { in: expect.not.arrayContaining(['game_hidden', 'game_unhidden']) } },
+          { actorUserId: anna.id },
+          { OR: [{ gameId: 'game-1' }, { metadata: { path: ['gameId'], equals: 'game-1' } }] },
+          { createdAt: { gte: since } },
+        ])
+      );
+    });
+
+    it('pages with a cursor after the last entry', async () => {
+      mockFindMany.mockResolvedValueOnce([row('a-3'), row('a-2'), row('a-1')]);
+
+      const firstPage = await service.getFeed('event-1', { limit: 2 });
+
+      expect(firstPage.entries.map((entry) => entry.id)).toEqual(['a-3', 'a-2']);
+      expect(firstPage.nextCursor).not.toBeNull();
+      expect(mockFindMany.mock.calls[0][0]).toEqual(expect.objectContaining({ take: 3 }));
+
+      mockFindMany.mockResolvedValueOnce([row('a-1')]);
+      const secondPage = await service.getFeed('event-1', parseActivityFeedQuery({ cursor: firstPage.nextCursor, limit: '2' }));
+
+      expect(secondPage.nextCursor).toBeNull();
+      const { where } = mockFindMany.mock.calls[1][0] as { where: { AND: Record<string, unknown>[] } };
+      expect(where.AND).toContainEqual({
+        OR: [
+          { createdAt: { lt: new Date('2026-10-18T18:00:00Z') } },
+          { createdAt: new Date('2026-10-18T18:00:00Z'), id: { lt: 'a-2' } },
+        ],
+      });
+    });
+  });
+
+  describe('logEvent', () => {
+    it('pushes feed activities to the clients of the event', async () => {
+      mockCreate.mockResolvedValue(row('a-1'));
+
+      await service.logEvent({ actorParticipantId: anna.id, eventType: 'bringer_added', gameId: 'game-1', eventId: 'event-1' });
+
+      expect(sseManager.broadcast).toHaveBeenCalledWith('event-1', {
+        type: 'activity:created',
+        entry: expect.objectContaining({ id: 'a-1', message: 'Anna bringt Catan mit' }),
+      });
+    });
+
+    it('keeps hiding games out of the live feed', async () => {
+      mockCreate.mockResolvedValue(row('a-1', { eventType: 'game_hidden' }));
+
+      await service.logEvent({ actorParticipantId: anna.id, eventType: 'game_hidden', gameId: 'game-1', eventId: 'event-1' });
+
+      expect(sseManager.broadcast).not.toHaveBeenCalled();
+    });
+
+    it('swallows database errors', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      mockCreate.mockRejectedValue(new Error('connection lost'));
+
+      await expect(
+        service.logEvent({ actorParticipantId: anna.id, eventType: 'player_added', eventId: 'event-1' })
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('parseActivityFeedQuery', () => {
+    it('parses types, ids and the time range', () => {
+      expect(
+        parseActivityFeedQuery({
+          types: 'game_created,bringer_added',
+          actorId: anna.id,
+          since: '2026-10-18T00:00:00Z',
+          limit: '20',
+        })
+      ).toEqual({
+        types: ['game_created', 'bringer_added'],
+        actorId: anna.id,
+        gameId: undefined,
+        since: new Date('2026-10-18T00:00:00Z'),
+        until: undefined,
+        cursor: undefined,
+        limit: 20,
+      });
+    });
+
+    it.each([
+      [{ types: 'game_hidden' }, 'Unbekannter Aktivitätstyp.'],
+      [{ since: 'gestern' }, 'Ungültiger Zeitraum.'],
+      [{ since: '2026-10-19T00:00:00Z', until: '2026-10-18T00:00:00Z' }, 'Ungültiger Zeitraum.'],
+      [{ limit: '500' }, 'Das Limit muss zwischen 1 und 100 liegen.'],
+      [{ cursor: 'kaputt' }, 'Ungültiger Cursor.'],
+    ])('rejects %j', (query, message) => {
+      expect(() => parseActivityFeedQuery(query)).toThrow(message);
+    });
+  });
+});
@@ -16,6 +16,9 @@ jest.mock('../../lib/prisma', () => ({
       findUnique: jest.fn(),
       update: jest.fn(),
     },
+    game: {
+      updateMany: jest.fn(),
+    },
   },
 }));
 
@@ -157,6 +160,94 @@ describe('BggEnrichmentService Unit Tests', () => {
     });
   });
 
+  describe('play data', () => {
+    const htmlWithPlayData = (item: Record<string, unknown>) => `
+      GEEK.geekitemPreload = ${JSON.stringify({ item: { name: 'Brass: Birmingham', ...item } })};
+      GEEK.geekitemSettings = {};
+    `;
+
+    it('should extract player counts, play time and weight', () => {
+      const result = service.extractEnrichmentData(
+        htmlWithPlayData({
+          minplayers: '2',
+          maxplayers: '4',
+          minplaytime: '60',
+          maxplaytime: '120',
+          polls: {
+            userplayers: {
+              best: [{ min: 3, max: 3 }],
+              recommended: [{ min: 2, max: 4 }],
+            },
+            boardgameweight: { averageweight: 3.8734 },
+          },
+        })
+      );
+
+      expect(result).toMatchObject({
+        minPlayers: 2,
+        maxPlayers: 4,
+        bestPlayerCounts: [3],
+        recommendedPlayerCounts: [2, 3, 4],
+        minPlayTime: 60,
+        maxPlayTime: 120,
+        weight: 3.87,
+      });
+    });
+
+    it('should treat zero and missing values as unknown', () => {
+      const result = service.extractEnrichmentData(
+        htmlWithPlayData({ minplayers: '0', maxplayers: '', polls: { boardgameweight: { averageweight: 0 } } })
+      );
+
+      expect(result).toMatchObject({
+        minPlayers: null,
+        maxPlayers: null,
+        bestPlayerCounts: [],
+        recommendedPlayerCounts: [],
+        minPlayTime: null,
+        maxPlayTime: null,
+        weight: null,
+      });
+    });
+
+    it('should cap open poll ranges', () => {
+      const result = service.extractEnrichmentData(
+        htmlWithPlayData({ polls: { userplayers: { recommended: [{ min: 18, max: 99 }, { min: 2 }] } } })
+      );
+
+      expect(result.recommendedPlayerCounts).toEqual([2, 18, 19, 20]);
+    });
+
+    it('should store the play data and carry it onto linked games', async () => {
+      const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+      (mockPrisma.bggGame.findUnique as jest.Mock).mockResolvedValue({ id: 224517, scrapingDone: false });
+      const fetchSpy = jest.spyOn(service, 'fetchBggPage').mockResolvedValue({
+        html: htmlWithPlayData({ minplayers: '2', maxplayers: '4', maxplaytime: '120' }),
+        bytes: 100,
+      });
+
+      await service.enrichGame(224517);
+
+      expect(mockPrisma.bggGame.update).toHaveBeenCalledWith({
+        where: { id: 224517 },
+        data: expect.objectContaining({ scrapingDone: true, minPlayers: 2, maxPlayers: 4, maxPlayTime: 120 }),
+      });
+      expect(mockPrisma.game.updateMany).toHaveBeenCalledWith({
+        where: { bggId: 224517 },
+        data: {
+          minPlayers: 2,
+          maxPlayers: 4,
+          bestPlayerCounts: [],
+          recommendedPlayerCounts: [],
+          minPlayTime: null,
+          maxPlayTime: 120,
+          weight: null,
+        },
+      });
+      fetchSpy.mockRestore();
+    });
+  });
+
   describe('getBulkStatus', () => {
     it('should return correct initial status format', () => {
       const status = service.getBulkStatus();
@@ -0,0 +1,204 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import type { PrismaClient, Event, EventInvite, EventRole } from '@prisma/client';
+import { EventMembershipService } from '../event-membership.service';
+import { EventService, EventError } from '../event.service';
+import { EventErrorCodes } from '../../types/event';
+import type { AccountResponse } from '../../types/account';
+
+/**
+ * Unit tests for EventMembershipService (organizer team and invites)
+ * Uses a Prisma stub; role resolution itself is covered in event.service.test.ts
+ */
+describe('EventMembershipService', () => {
+  const owner: AccountResponse = {
+    id: 'owner-1',
+    email: 'owner@example.com',
+    role: 'account_owner',
+    status: 'active',
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+  };
+  const invitee: AccountResponse = { ...owner, id: 'co-1', email: 'co@example.com' };
+
+  const event = {
+    id: 'event-1',
+    name: 'Spieletreff',
+    ownerAccountId: owner.id,
+  } as Event;
+
+  const createInvite = (overrides: Partial<EventInvite> = {}): EventInvite => ({
+    id: 'invite-1',
+    eventId: event.id,
+    email: invitee.email,
+    role: 'co_organizer',
+    token: 'token-1',
+    invitedByAccountId: owner.id,
+    expiresAt: new Date(Date.now() + 60_000),
+    acceptedAt: null,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    ...overrides,
+  });
+
+  let prismaStub: {
+    event: { findUnique: jest.Mock<(args: unknown) => Promise<Event | null>> };
+    eventMembership: {
+      findUnique: jest.Mock<(args: unknown) => Promise<{ id: string; role: EventRole } | null>>;
+      findFirst: jest.Mock<(args: unknown) => Promise<{ id: string } | null>>;
+      findMany: jest.Mock<(args: unknown) => Promise<unknown[]>>;
+      upsert: jest.Mock<(args: unknown) => Promise<unknown>>;
+      deleteMany: jest.Mock<(args: unknown) => Promise<{ count: number }>>;
+    };
+    eventInvite: {
+      findUnique: jest.Mock<(args: unknown) => Promise<unknown>>;
+      findMany: jest.Mock<(args: unknown) => Promise<EventInvite[]>>;
+      create: jest.Mock<(args: { data: Partial<EventInvite> }) => Promise<EventInvite>>;
+      update: jest.Mock<(args: unknown) => Promise<unknown>>;
+      deleteMany: jest.Mock<(args: unknown) => Promise<{ count: number }>>;
+    };
+    $transaction: jest.Mock<(operations: unknown[]) => Promise<unknown[]>>;
+  };
+  let service: EventMembershipService;
+
+  beforeEach(() => {
+    prismaStub = {
+      event: { findUnique: jest.fn<(args: unknown) => Promise<Event | null>>(async () => event) },
+      eventMembership: {
+        findUnique: jest.fn<(args: unknown) => Promise<{ id: string; role: EventRole } | null>>(async () => null),
+        findFirst: jest.fn<(args: unknown) => Promise<{ id: string } | null>>(async () => null),
+        findMany: jest.fn<(args: unknown) => Promise<unknown[]>>(async () => []),
+        upsert: jest.fn<(args: unknown) => Promise<unknown>>(async () => ({})),
+        deleteMany: jest.fn<(args: unknown) => Promise<{ count: number }>>(async () => ({ count: 1 })),
+      },
+      eventInvite: {
+        findUnique: jest.fn<(args: unknown) => Promise<unknown>>(async () => null),
+        findMany: jest.fn<(args: unknown) => Promise<EventInvite[]>>(async () => []),
+        create: jest.fn<(args: { data: Partial<EventInvite> }) => Promise<EventInvite>>(async ({ data }) =>
+          createInvite(data)
+        ),
+        update: jest.fn<(args: unknown) => Promise<unknown>>(async () => ({})),
+        deleteMany: jest.fn<(args: unknown) => Promise<{ count: number }>>(async () => ({ count: 1 })),
+      },
+      $transaction: jest.fn<(operations: unknown[]) => Promise<unknown[]>>(async (operations) => operations),
+    };
+    const prisma = prismaStub as unknown as PrismaClient;
+    service = new EventMembershipService(prisma, new EventService(prisma));
+  });
+
+  const expectEventError = async (promise: Promise<unknown>, code: string, statusCode: number) => {
+    await expect(promise).rejects.toBeInstanceOf(EventError);
+    await promise.catch((error: EventError) => {
+      expect(error.code).toBe(code);
+      expect(error.statusCode).toBe(statusCode);
+    });
+  };
+
+  describe('createInvite', () => {
+    it('creates a tokenized invite with a normalized email', async () => {
+      const invite = await service.createInvite(event.id, owner, { email: ' Co@Example.com ', role: 'viewer' });
+
+      const { data } = prismaStub.eventInvite.create.mock.calls[0][0];
+      expect(data).toMatchObject({ eventId: event.id, email: 'co@example.com', role: 'viewer', invitedByAccountId: owner.id });
+      expect(data.token).toEqual(expect.any(String));
+      expect(data.token!.length).toBeGreaterThanOrEqual(32);
+      expect(data.expiresAt!.getTime()).toBeGreaterThan(Date.now());
+      expect(invite.token).toBe(data.token);
+    });
+
+    it('rejects the owner role and malformed emails', async () => {
+      await expectEventError(
+        service.createInvite(event.id, owner, { email: 'co@example.com', role: 'owner' }),
+        EventErrorCodes.INVALID_ROLE,
+        400
+      );
+      await expectEventError(
+        service.createInvite(event.id, owner, { email: 'kein-email', role: 'viewer' }),
+        EventErrorCodes.INVALID_EMAIL,
+        400
+      );
+    });
+
+    it('rejects accounts that already belong to the team', async () => {
+      prismaStub.eventMembership.findFirst.mockResolvedValue({ id: 'membership-1' });
+      await expectEventError(
+        service.createInvite(event.id, owner, { email: 'co@example.com', role: 'viewer' }),
+        EventErrorCodes.ALREADY_MEMBER,
+        409
+      );
+    });
+
+    it('is limited to the owner', async () => {
+      prismaStub.eventMembership.findUnique.mockResolvedValue({ id: 'membership-1', role: 'co_organizer' });
+      await expectEventError(
+        service.createInvite(event.id, invitee, { email: 'new@example.com', role: 'viewer' }),
+        EventErrorCodes.NOT_AUTHORIZED,
+        403
+      );
+      expect(prismaStub.eventInvite.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listTeam', () => {
+    it('hides pending invites from non-owners', async () => {
+      prismaStub.eventMembership.findUnique.mockResolvedValue({ id: 'membership-1', role: 'viewer' });
+
+      const team = await service.listTeam(event.id, invitee);
+
+      expect(team.invites).toEqual([]);
+      expect(prismaStub.eventInvite.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('acceptInvite', () => {
+    it('adds the invited account with the invited role', async () => {
+      prismaStub.eventInvite.findUnique.mockResolvedValue({ ...createInvite(), event });
+
+      const result = await service.acceptInvite('token-1', invitee);
+
+      expect(result).toEqual({ eventId: event.id, role: 'co_organizer' });
+      expect(prismaStub.eventMembership.upsert).toHaveBeenCalledWith({
+        where: { eventId_accountId: { eventId: event.id, accountId: invitee.id } },
+        create: { eventId: event.id, accountId: invitee.id, role: 'co_organizer' },
+        update: { role: 'co_organizer' },
+      });
+      expect(prismaStub.eventInvite.update).toHaveBeenCalledWith({
+        where: { id: 'invite-1' },
+        data: { acceptedAt: expect.any(Date) },
+      });
+    });
+
+    it('rejects invites addressed to another email', async () => {
+      prismaStub.eventInvite.findUnique.mockResolvedValue({ ...createInvite({ email: 'other@example.com' }), event });
+      await expectEventError(service.acceptInvite('token-1', invitee), EventErrorCodes.INVITE_EMAIL_MISMATCH, 403);
+      expect(prismaStub.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('rejects used, expired and unknown invites', async () => {
+      prismaStub.eventInvite.findUnique.mockResolvedValueOnce({ ...createInvite({ acceptedAt: new Date() }), event });
+      await expectEventError(service.acceptInvite('token-1', invitee), EventErrorCodes.INVITE_ALREADY_USED, 409);
+
+      prismaStub.eventInvite.findUnique.mockResolvedValueOnce({
+        ...createInvite({ expiresAt: new Date(Date.now() - 1000) }),
+        event,
+      });
+      await expectEventError(service.acceptInvite('token-1', invitee), EventErrorCodes.INVITE_EXPIRED, 410);
+
+      prismaStub.eventInvite.findUnique.mockResolvedValueOnce(null);
+      await expectEventError(service.acceptInvite('missing', invitee), EventErrorCodes.INVITE_NOT_FOUND, 404);
+    });
+  });
+
+  describe('team management', () => {
+    it('does not let the owner role be changed or removed', async () => {
+      await expectEventError(
+        service.updateMemberRole(event.id, owner.id, owner, 'viewer'),
+        EventErrorCodes.OWNER_ROLE_LOCKED,
+        400
+      );
+      await expectEventError(service.removeMember(event.id, owner.id, owner), EventErrorCodes.OWNER_ROLE_LOCKED, 400);
+    });
+
+    it('reports unknown members when removing', async () => {
+      prismaStub.eventMembership.deleteMany.mockResolvedValue({ count: 0 });
+      await expectEventError(service.removeMember(event.id, 'nobody', owner), EventErrorCodes.MEMBER_NOT_FOUND, 404);
+    });
+  });
+});
@@ -0,0 +1,522 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { Prisma, type PrismaClient, type User } from '@prisma/client';
+import { EventModerationService } from '../event-moderation.service';
+import { EventService, EventError } from '../event.service';
+import type { NotificationService } from '../notification.service';
+import type { ParticipantService } from '../participant.service';
+import { sseManager } from '../sse.service';
+import { thumbnailService } from '../thumbnailService';
+import { EventErrorCodes } from '../../types/event';
+import type { AccountResponse } from '../../types/account';
+
+type Mock = jest.Mock<(...args: never[]) => Promise<unknown>>;
+
+const mockFn = (value: unknown = undefined): Mock => jest.fn<(...args: never[]) => Promise<unknown>>(async () => value);
+
+/**
+ * Unit tests for EventModerationService (organizer moderation tools)
+ * Uses a Prisma stub; permission checks are covered in event.service.test.ts
+ */
+describe('EventModerationService', () => {
+  const account: AccountResponse = {
+    id: 'co-1',
+    email: 'co@example.com',
+    role: 'account_owner',
+    status: 'active',
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+  };
+  const eventId = 'event-1';
+
+  const createUser = (id: string, name: string, waitlistedAt: Date | null = null): User => ({
+    id,
+    eventId,
+    name,
+    waitlistedAt,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+  });
+
+  const createGame = (overrides: Record<string, unknown> = {}) => ({
+    id: 'game-1',
+    eventId,
+    name: 'Catan',
+    ownerId: 'user-1',
+    bggId: null,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    owner: { name: 'Max' },
+    _count: { players: 1, bringers: 0 },
+    ...overrides,
+  });
+
+  let prismaStub: {
+    user: { findFirst: Mock; findMany: Mock; update: Mock; delete: Mock };
+    game: { findFirst: Mock; findMany: Mock; update: Mock; updateMany: Mock; delete: Mock; deleteMany: Mock };
+    player: { findMany: Mock; deleteMany: Mock; updateMany: Mock };
+    bringer: { findMany: Mock; deleteMany: Mock; updateMany: Mock };
+    hiddenGame: { findMany: Mock; deleteMany: Mock; updateMany: Mock };
+    gameFollower: { findMany: Mock; deleteMany: Mock; updateMany: Mock };
+    activityEvent: { updateMany: Mock };
+    notification: { updateMany: Mock };
+    playSession: { updateMany: Mock };
+    playSessionSeat: { findMany: Mock; deleteMany: Mock; updateMany: Mock };
+    gameTombstone: { create: Mock; createMany: Mock };
+    $transaction: Mock;
+  };
+  let authorizeEvent: Mock;
+  let promoteNextWaitlisted: Mock;
+  let findAudiences: Mock;
+  let notifyGame: Mock;
+  let broadcastSpy: jest.SpiedFunction<typeof sseManager.broadcast>;
+  let service: EventModerationService;
+
+  const relationStub = () => ({ findMany: mockFn([]), deleteMany: mockFn({ count: 0 }), updateMany: mockFn({ count: 0 }) });
+
+  beforeEach(() => {
+    prismaStub = {
+      user: { findFirst: mockFn(null), findMany: mockFn([]), update: mockFn({}), delete: mockFn({}) },
+      game: {
+        findFirst: mockFn(null),
+        findMany: mockFn([]),
+        update: mockFn({}),
+        updateMany: mockFn({ count: 0 }),
+        delete: mockFn({}),
+        deleteMany: mockFn({ count: 0 }),
+      },
+      player: relationStub(),
+      bringer: relationStub(),
+      hiddenGame: relationStub(),
+      gameFollower: relationStub(),
+      activityEvent: { updateMany: mockFn({ count: 0 }) },
+      notification: { updateMany: mockFn({ count: 0 }) },
+      playSession: { updateMany: mockFn({ count: 0 }) },
+      playSessionSeat: relationStub(),
+      gameTombstone: { create: mockFn({}), createMany: mockFn({ count: 0 }) },
+      $transaction: jest.fn<(...args: never[]) => Promise<unknown>>(async (callback: (tx: unknown) => Promise<unknown>) =>
+        callback(prismaStub)
+      ),
+    };
+    authorizeEvent = mockFn({ event: { id: eventId }, role: 'co_organizer' });
+    promoteNextWaitlisted = mockFn(null);
+    findAudiences = mockFn(new Map());
+    notifyGame = mockFn();
+    broadcastSpy = jest.spyOn(sseManager, 'broadcast').mockImplementation(() => undefined);
+
+    service = new EventModerationService(
+      prismaStub as unknown as PrismaClient,
+      { authorizeEvent } as unknown as EventService,
+      { promoteNextWaitlisted } as unknown as ParticipantService,
+      { findAudiences, notifyGame } as unknown as NotificationService
+    );
+  });
+
+  afterEach(() => {
+    broadcastSpy.mockRestore();
+  });
+
+  const expectEventError = async (promise: Promise<unknown>, code: string, statusCode: number) => {
+    await expect(promise).rejects.toBeInstanceOf(EventError);
+    await promise.catch((error: EventError) => {
+      expect(error.code).toBe(code);
+      expect(error.statusCode).toBe(statusCode);
+    });
+  };
+
+  describe('mergeParticipants', () => {
+    const source = createUser('user-1', 'Max');
+    const target = createUser('user-2', 'Max M.');
+
+    beforeEach(() => {
+      prismaStub.user.findFirst.mockImplementation(async (args: { where: { id: string } }) =>
+        [source, target].find((user) => user.id === args.where.id) ?? null
+      );
+    });
+
+    it('moves all rows to the target in one transaction and deletes the source', async () => {
+      prismaStub.player.findMany.mockResolvedValue([{ gameId: 'game-shared' }]);
+
+      const result = await service.mergeParticipants(eventId, account, { sourceId: 'user-1', targetId: 'user-2' });
+
+      expect(result).toEqual({ id: 'user-2', name: 'Max M.' });
+      expect(authorizeEvent).toHaveBeenCalledWith(eventId, account);
+      expect(prismaStub.$transaction).toHaveBeenCalledTimes(1);
+      // Duplicates on shared games are dropped before the rest is moved
+      expect(prismaStub.player.deleteMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', gameId: { in: ['game-shared'] } },
+      });
+      for (const relation of [
+        prismaStub.player,
+        prismaStub.bringer,
+        prismaStub.hiddenGame,
+        prismaStub.gameFollower,
+        prismaStub.playSessionSeat,
+      ]) {
+        expect(relation.updateMany).toHaveBeenCalledWith({ where: { userId: 'user-1' }, data: { userId: 'user-2' } });
+      }
+      expect(prismaStub.notification.updateMany).toHaveBeenCalledWith({
+        where: { recipientId: 'user-1' },
+        data: { recipientId: 'user-2' },
+      });
+      expect(prismaStub.notification.updateMany).toHaveBeenCalledWith({
+        where: { actorId: 'user-1' },
+        data: { actorId: 'user-2' },
+      });
+      expect(prismaStub.playSession.updateMany).toHaveBeenCalledWith({
+        where: { createdById: 'user-1' },
+        data: { createdById: 'user-2' },
+      });
+      expect(prismaStub.activityEvent.updateMany).toHaveBeenCalledWith({
+        where: { actorUserId: 'user-1' },
+        data: { actorUserId: 'user-2' },
+      });
+      expect(prismaStub.game.updateMany).toHaveBeenCalledWith({
+        where: { ownerId: 'user-1' },
+        data: { ownerId: 'user-2' },
+      });
+      // The games of the source are touched for delta syncs before its rows move
+      expect(prismaStub.game.updateMany.mock.invocationCallOrder[0]).toBeLessThan(
+        prismaStub.player.updateMany.mock.invocationCallOrder[0]
+      );
+      expect(prismaStub.game.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { updatedAt: expect.any(Date) } })
+      );
+      expect(prismaStub.user.delete).toHaveBeenCalledWith({ where: { id: 'user-1' } });
+      expect(broadcastSpy).toHaveBeenCalledWith(eventId, {
+        type: 'participant:merged',
+        sourceParticipantId: 'user-1',
+        targetParticipantId: 'user-2',
+        targetParticipantName: 'Max M.',
+      });
+      // Two confirmed participants became one, so a waitlisted one may move up
+      expect(promoteNextWaitlisted).toHaveBeenCalledWith(eventId);
+    });
+
+    it('keeps a single follow for games both of them follow', async () => {
+      prismaStub.gameFollower.findMany.mockResolvedValue([{ gameId: 'game-shared' }]);
+
+      await service.mergeParticipants(eventId, account, { sourceId: 'user-1', targetId: 'user-2' });
+
+      expect(prismaStub.gameFollower.deleteMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', gameId: { in: ['game-shared'] } },
+      });
+      expect(prismaStub.gameFollower.deleteMany.mock.invocationCallOrder[0]).toBeLessThan(
+        prismaStub.gameFollower.updateMany.mock.invocationCallOrder[0]
+      );
+    });
+
+    it('confirms a waitlisted target when the source had a spot', async () => {
+      const waitlistedTarget = createUser('user-2', 'Max M.', new Date('2026-01-02T00:00:00Z'));
+      prismaStub.user.findFirst.mockImplementation(async (args: { where: { id: string } }) =>
+        [source, waitlistedTarget].find((user) => user.id === args.where.id) ?? null
+      );
+
+      await service.mergeParticipants(eventId, account, { sourceId: 'user-1', targetId: 'user-2' });
+
+      expect(prismaStub.user.update).toHaveBeenCalledWith({ where: { id: 'user-2' }, data: { waitlistedAt: null } });
+      expect(promoteNextWaitlisted).not.toHaveBeenCalled();
+    });
+
+    it('rejects merging a participant into itself or into someone from another event', async () => {
+      await expectEventError(
+        service.mergeParticipants(eventId, account, { sourceId: 'user-1', targetId: 'user-1' }),
+        EventErrorCodes.MERGE_SAME_PARTICIPANT,
+        400
+      );
+      await expectEventError(
+        service.mergeParticipants(eventId, account, { sourceId: 'user-1', targetId: 'user-9' }),
+        EventErrorCodes.PARTICIPANT_NOT_FOUND,
+        404
+      );
+      expect(prismaStub.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('mergeGames', () => {
+    const source = createGame({ id: 'game-1', name: 'Die Siedler von Catan' });
+    const target = createGame({ id: 'game-2', name: 'Catan', bggId: 13 });
+
+    beforeEach(() => {
+      prismaStub.game.findFirst.mockImplementation(async (args: { where: { id: string } }) =>
+        [source, target].find((game) => game.id === args.where.id) ?? null
+      );
+      prismaStub.game.update.mockResolvedValue({ ...target, _count: { players: 2, bringers: 1 } });
+    });
+
+    it('moves all rows to the target in one transaction and deletes the source', async () => {
+      const thumbnailSpy = jest.spyOn(thumbnailService, 'deleteThumbnails').mockResolvedValue(undefined);
+      prismaStub.player.findMany.mockResolvedValue([{ userId: 'user-shared' }]);
+
+      const game = await service.mergeGames(eventId, account, { sourceId: 'game-1', targetId: 'game-2' });
+
+      expect(authorizeEvent).toHaveBeenCalledWith(eventId, account);
+      expect(prismaStub.$transaction).toHaveBeenCalledTimes(1);
+      // Duplicates of participants on both games are dropped before the rest is moved
+      expect(prismaStub.player.deleteMany).toHaveBeenCalledWith({
+        where: { gameId: 'game-1', userId: { in: ['user-shared'] } },
+      });
+      for (const relation of [
+        prismaStub.player,
+        prismaStub.bringer,
+        prismaStub.hiddenGame,
+        prismaStub.gameFollower,
+        prismaStub.activityEvent,
+        prismaStub.notification,
+        prismaStub.playSession,
+      ]) {
+        expect(relation.updateMany).toHaveBeenCalledWith({ where: { gameId: 'game-1' }, data: { gameId: 'game-2' } });
+      }
+      expect(prismaStub.game.delete).toHaveBeenCalledWith({ where: { id: 'game-1' } });
+      expect(prismaStub.gameTombstone.create).toHaveBeenCalledWith({ data: { gameId: 'game-1', eventId } });
+      // The target keeps its name and BGG data and is only touched for delta syncs
+      expect(prismaStub.game.update).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'game-2' }, data: { updatedAt: expect.any(Date) } })
+      );
+      expect(game).toMatchObject({ id: 'game-2', name: 'Catan', playerCount: 2, bringerCount: 1 });
+      expect(thumbnailSpy).toHaveBeenCalledWith('game-1');
+      expect(broadcastSpy).toHaveBeenCalledWith(eventId, {
+        type: 'game:merged',
+        gameId: 'game-2',
+        gameName: 'Catan',
+        sourceGameId: 'game-1',
+      });
+      thumbnailSpy.mockRestore();
+    });
+
+    it('rejects merging a game into itself or into a game from another event', async () => {
+      await expectEventError(
+        service.mergeGames(eventId, account, { sourceId: 'game-1', targetId: 'game-1' }),
+        EventErrorCodes.MERGE_SAME_GAME,
+        400
+      );
+      await expectEventError(
+        service.mergeGames(eventId, account, { sourceId: 'game-1', targetId: 'game-9' }),
+        EventErrorCodes.GAME_NOT_FOUND,
+        404
+      );
+      expect(prismaStub.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listDuplicateGames', () => {
+    it('reports games with the same BGG entry or matching names', async () => {
+      prismaStub.game.findMany.mockResolvedValue([
+        createGame({ id: 'game-1', name: 'Catan', bggId: 13, alternateNames: [] }),
+        createGame({ id: 'game-2', name: 'Die Siedler von Catan', bggId: null, alternateNames: [] }),
+        createGame({ id: 'game-3', name: 'Brass: Birmingham', bggId: 224517, alternateNames: [] }),
+        createGame({ id: 'game-4', name: 'Brass Birmingham Deluxe', bggId: 224517, alternateNames: [] }),
+        createGame({ id: 'game-5', name: 'Azul', bggId: 230802, alternateNames: ['Azul: Mosaik'] }),
+        createGame({ id: 'game-6', name: 'Mosaik', bggId: null, alternateNames: [] }),
+        createGame({ id: 'game-7', name: 'Go', bggId: null, alternateNames: [] }),
+      ]);
+
+      const candidates = await service.listDuplicateGames(eventId, account);
+
+      expect(authorizeEvent).toHaveBeenCalledWith(eventId, account);
+      expect(candidates.map((c) => [c.reason, c.score, c.games.map((g) => g.id)])).toEqual([
+        ['bggId', 100, ['game-3', 'game-4']],
+        ['name', 100, ['game-5', 'game-6']],
+        ['name', 100, ['game-1', 'game-2']],
+      ]);
+    });
+
+    it('reports nothing for distinct games', async () => {
+      prismaStub.game.findMany.mockResolvedValue([
+        createGame({ id: 'game-1', name: 'Catan', bggId: 13, alternateNames: [] }),
+        createGame({ id: 'game-2', name: 'Azul', bggId: 230802, alternateNames: [] }),
+      ]);
+
+      await expect(service.listDuplicateGames(eventId, account)).resolves.toEqual([]);
+    });
+  });
+
+  describe('moderateGame', () => {
+    it('renames a game and announces the new name', async () => {
+      prismaStub.game.findFirst.mockResolvedValueOnce(createGame()).mockResolvedValueOnce(null);
+      prismaStub.game.update.mockResolvedValue(createGame({ name: 'Die Siedler von Catan' }));
+
+      const game = await service.moderateGame(eventId, 'game-1', account, { name: ' Die Siedler von Catan ' });
+
+      expect(prismaStub.game.update).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'game-1' }, data: { name: 'Die Siedler von Catan' } })
+      );
+      expect(game.name).toBe('Die Siedler von Catan');
+      expect(broadcastSpy).toHaveBeenCalledWith(eventId, { type: 'game:renamed', gameId: 'game-1', gameName: 'Die Siedler von Catan' });
+    });
+
+    it('rejects empty and taken names', async () => {
+      prismaStub.game.findFirst.mockResolvedValue(createGame());
+      await expectEventError(
+        service.moderateGame(eventId, 'game-1', account, { name: '  ' }),
+        EventErrorCodes.MISSING_GAME_NAME,
+        400
+      );
+      await expectEventError(
+        service.moderateGame(eventId, 'game-1', account, { name: 'Azul' }),
+        EventErrorCodes.GAME_NAME_TAKEN,
+        409
+      );
+      expect(prismaStub.game.update).not.toHaveBeenCalled();
+    });
+
+    it('rejects names a parallel request took after the check', async () => {
+      prismaStub.game.findFirst.mockResolvedValueOnce(createGame()).mockResolvedValueOnce(null);
+      prismaStub.game.update.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' })
+      );
+
+      await expectEventError(
+        service.moderateGame(eventId, 'game-1', account, { name: 'Azul' }),
+        EventErrorCodes.GAME_NAME_TAKEN,
+        409
+      );
+      expect(broadcastSpy).not.toHaveBeenCalled();
+    });
+
+    it('hands the game to another participant of the event', async () => {
+      prismaStub.game.findFirst.mockResolvedValue(createGame());
+      prismaStub.user.findFirst.mockResolvedValue({ id: 'user-2' });
+      prismaStub.game.update.mockResolvedValue(createGame({ ownerId: 'user-2', owner: { name: 'Lena' } }));
+
+      const game = await service.moderateGame(eventId, 'game-1', account, { ownerId: 'user-2' });
+
+      expect(prismaStub.user.findFirst).toHaveBeenCalledWith({ where: { id: 'user-2', eventId }, select: { id: true } });
+      expect(game.ownerName).toBe('Lena');
+      expect(broadcastSpy).toHaveBeenCalledWith(eventId, {
+        type: 'game:owner-changed',
+        gameId: 'game-1',
+        ownerId: 'user-2',
+        ownerName: 'Lena',
+      });
+    });
+
+    it('rejects owners from outside the event and unknown games', async () => {
+      prismaStub.game.findFirst.mockResolvedValueOnce(createGame());
+      await expectEventError(
+        service.moderateGame(eventId, 'game-1', account, { ownerId: 'stranger' }),
+        EventErrorCodes.PARTICIPANT_NOT_FOUND,
+        404
+      );
+
+      await expectEventError(
+        service.moderateGame(eventId, 'missing', account, { name: 'Azul' }),
+        EventErrorCodes.GAME_NOT_FOUND,
+        404
+      );
+      expect(broadcastSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteStaleGames', () => {
+    it('moves old wunsch games to the trash and announces them in one event', async () => {
+      const thumbnailSpy = jest.spyOn(thumbnailService, 'deleteThumbnails').mockResolvedValue(undefined);
+      prismaStub.game.findMany
+        .mockResolvedValueOnce([createGame(), createGame({ id: 'game-2', bggId: 13 })])
+        .mockResolvedValueOnce([{ id: 'game-1' }, { id: 'game-2' }]);
+
+      const result = await service.deleteStaleGames(eventId, account, '30');
+
+      const [{ where }] = prismaStub.game.findMany.mock.calls[0] as unknown as [{ where: { bringers: unknown; createdAt: { lt: Date } } }];
+      expect(where.bringers).toEqual({ none: {} });
+      expect(where.createdAt.lt.getTime()).toBeLessThan(Date.now() - 29 * 24 * 60 * 60 * 1000);
+      expect(prismaStub.game.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['game-1', 'game-2'] }, eventId, deletedAt: null, bringers: { none: {} } },
+        data: { deletedAt: expect.any(Date), deletedById: null },
+      });
+      expect(result).toEqual({ deletedCount: 2, gameIds: ['game-1', 'game-2'] });
+      expect(broadcastSpy).toHaveBeenCalledWith(eventId, { type: 'games:deleted', gameIds: ['game-1', 'game-2'] });
+      // Restorable from the trash: nothing is deleted for good
+      expect(prismaStub.game.deleteMany).not.toHaveBeenCalled();
+      expect(prismaStub.gameTombstone.createMany).not.toHaveBeenCalled();
+      expect(thumbnailSpy).not.toHaveBeenCalled();
+      thumbnailSpy.mockRestore();
+    });
+
+    it('keeps games that got a bringer in the meantime', async () => {
+      prismaStub.game.findMany
+        .mockResolvedValueOnce([createGame({ bggId: 1 }), createGame({ id: 'game-2', bggId: 2 })])
+        .mockResolvedValueOnce([{ id: 'game-1' }]);
+
+      const result = await service.deleteStaleGames(eventId, account, 30);
+
+      expect(result).toEqual({ deletedCount: 1, gameIds: ['game-1'] });
+    });
+
+    it('notifies the players of deleted games on behalf of the organizers', async () => {
+      const audience = new Set(['user-2', 'user-3']);
+      findAudiences.mockResolvedValue(new Map([['game-1', audience], ['game-2', new Set(['user-4'])]]));
+      prismaStub.game.findMany
+        .mockResolvedValueOnce([createGame({ bggId: 1 }), createGame({ id: 'game-2', bggId: 2 })])
+        .mockResolvedValueOnce([{ id: 'game-1' }]);
+
+      await service.deleteStaleGames(eventId, account, 30);
+
+      expect(findAudiences).toHaveBeenCalledWith(['game-1', 'game-2']);
+      expect(notifyGame).toHaveBeenCalledTimes(1);
+      expect(notifyGame).toHaveBeenCalledWith(
+        { eventId, gameId: 'game-1', gameName: 'Catan', type: 'game_deleted', actorId: null },
+        audience
+      );
+    });
+
+    it('rejects invalid day values', async () => {
+      await expectEventError(service.deleteStaleGames(eventId, account, '0'), EventErrorCodes.INVALID_STALE_DAYS, 400);
+      await expectEventError(service.deleteStaleGames(eventId, account, 'abc'), EventErrorCodes.INVALID_STALE_DAYS, 400);
+      expect(prismaStub.game.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('trash', () => {
+    const trashedGame = (overrides: Record<string, unknown> = {}) =>
+      createGame({
+        deletedAt: new Date('2026-01-10T00:00:00Z'),
+        deletedBy: { name: 'Anna' },
+        ...overrides,
+      });
+
+    it('lists trashed games with who deleted them and when they are purged', async () => {
+      prismaStub.game.findMany.mockResolvedValue([trashedGame()]);
+
+      const [game] = await service.listTrash(eventId, account);
+
+      const [{ where }] = prismaStub.game.findMany.mock.calls[0] as unknown as [{ where: unknown }];
+      expect(where).toEqual({ eventId, deletedAt: { not: null } });
+      expect(game).toMatchObject({ id: 'game-1', deletedByName: 'Anna', playerCount: 1 });
+      expect(game.purgeAt.getTime()).toBeGreaterThan(game.deletedAt.getTime());
+    });
+
+    it('restores a trashed game and announces it', async () => {
+      prismaStub.game.findFirst.mockResolvedValue(trashedGame());
+      prismaStub.game.update.mockResolvedValue(createGame());
+
+      const game = await service.restoreTrashedGame(eventId, 'game-1', account);
+
+      expect(prismaStub.game.update).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'game-1' }, data: { deletedAt: null, deletedById: null } })
+      );
+      expect(game.name).toBe('Catan');
+      expect(broadcastSpy).toHaveBeenCalledWith(eventId, {
+        type: 'game:restored',
+        gameId: 'game-1',
+        gameName: 'Catan',
+        participantId: null,
+      });
+    });
+
+    it('purges a trashed game together with its custom thumbnails', async () => {
+      const thumbnailSpy = jest.spyOn(thumbnailService, 'deleteThumbnails').mockResolvedValue(undefined);
+      prismaStub.game.findFirst.mockResolvedValue(trashedGame());
+
+      await service.purgeTrashedGame(eventId, 'game-1', account);
+
+      expect(prismaStub.game.delete).toHaveBeenCalledWith({ where: { id: 'game-1' } });
+      expect(prismaStub.gameTombstone.create).toHaveBeenCalledWith({ data: { gameId: 'game-1', eventId } });
+      expect(thumbnailSpy).toHaveBeenCalledWith('game-1');
+      thumbnailSpy.mockRestore();
+    });
+
+    it('rejects games that are not in the trash', async () => {
+      await expectEventError(service.restoreTrashedGame(eventId, 'game-1', account), EventErrorCodes.GAME_NOT_FOUND, 404);
+      await expectEventError(service.purgeTrashedGame(eventId, 'game-1', account), EventErrorCodes.GAME_NOT_FOUND, 404);
+      expect(prismaStub.game.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,632 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import type { PrismaClient, Event, EventRole } from '@prisma/client';
+import { EventService, EventError, slugify } from '../event.service';
+import type { ParticipantService } from '../participant.service';
+import { EventErrorCodes } from '../../types/event';
+import type { AccountResponse } from '../../types/account';
+
+/**
+ * Unit tests for EventService event management
+ * Uses an in-memory Prisma stub so ownership and validation rules can be tested without a database.
+ */
+describe('EventService - event management', () => {
+  const owner: AccountResponse = {
+    id: 'owner-1',
+    email: 'owner@example.com',
+    role: 'account_owner',
+    status: 'active',
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+  };
+  const otherOwner: AccountResponse = { ...owner, id: 'owner-2', email: 'other@example.com' };
+  const admin: AccountResponse = { ...owner, id: 'admin-1', email: 'admin@example.com', role: 'admin' };
+
+  const createEvent = (overrides: Partial<Event> = {}): Event => ({
+    id: 'event-1',
+    name: 'Spieletreff',
+    slug: 'spieletreff',
+    passwordHash: 'hash',
+    startsAt: new Date('2026-03-01T10:00:00Z'),
+    endsAt: new Date('2026-03-01T22:00:00Z'),
+    location: null,
+    capacity: null,
+    notes: null,
+    fees: null,
+    status: 'open',
+    tokenVersion: 0,
+    isDefault: false,
+    ownerAccountId: owner.id,
+    activityRetentionDays: null,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+    ...overrides,
+  });
+
+  // listEventsForAccount includes the account's membership per event
+  type EventWithMemberships = Event & { memberships?: Array<{ role: EventRole }> };
+
+  let prismaStub: {
+    event: {
+      findUnique: jest.Mock<(args: unknown) => Promise<Event | null>>;
+      findMany: jest.Mock<(args: unknown) => Promise<EventWithMemberships[]>>;
+      create: jest.Mock<(args: { data: Partial<Event> }) => Promise<Event>>;
+      update: jest.Mock<(args: { data: Partial<Event> }) => Promise<Event>>;
+      delete: jest.Mock<(args: unknown) => Promise<Event>>;
+    };
+    eventMembership: {
+      findUnique: jest.Mock<(args: unknown) => Promise<{ role: EventRole } | null>>;
+      findMany: jest.Mock<(args: unknown) => Promise<Array<{ accountId: string; role: EventRole }>>>;
+    };
+  };
+  let service: EventService;
+
+  beforeEach(() => {
+    prismaStub = {
+      event: {
+        findUnique: jest.fn<(args: unknown) => Promise<Event | null>>(),
+        findMany: jest.fn<(args: unknown) => Promise<EventWithMemberships[]>>(),
+        create: jest.fn<(args: { data: Partial<Event> }) => Promise<Event>>(async ({ data }) => createEvent(data)),
+        update: jest.fn<(args: { data: Partial<Event> }) => Promise<Event>>(async ({ data }) => createEvent(data)),
+        delete: jest.fn<(args: unknown) => Promise<Event>>(async () => createEvent()),
+      },
+      eventMembership: {
+        findUnique: jest.fn<(args: unknown) => Promise<{ role: EventRole } | null>>(async () => null),
+        findMany: jest.fn<(args: unknown) => Promise<Array<{ accountId: string; role: EventRole }>>>(async () => []),
+      },
+    };
+    service = new EventService(prismaStub as unknown as PrismaClient);
+    jest.spyOn(service, 'hashPassword').mockResolvedValue('hashed');
+  });
+
+  const expectEventError = async (promise: Promise<unknown>, code: string, statusCode: number) => {
+    await expect(promise).rejects.toBeInstanceOf(EventError);
+    await promise.catch((error: EventError) => {
+      expect(error.code).toBe(code);
+      expect(error.statusCode).toBe(statusCode);
+    });
+  };
+
+  describe('authorizeEvent', () => {
+    it('returns the event for its owner', async () => {
+      prismaStub.event.findUnique.mockResolvedValue(createEvent());
+      await expect(service.authorizeEvent('event-1', owner)).resolves.toMatchObject({
+        event: { id: 'event-1' },
+        role: 'owner',
+      });
+    });
+
+    it('returns any event for admins', async () => {
+      prismaStub.event.findUnique.mockResolvedValue(createEvent());
+      await expect(service.authorizeEvent('event-1', admin)).resolves.toMatchObject({ event: { id: 'event-1' } });
+    });
+
+    it('rejects other account owners with 403', async () => {
+      prismaStub.event.findUnique.mockResolvedValue(createEvent());
+      await expectEventError(service.authorizeEvent('event-1', otherOwner), EventErrorCodes.NOT_AUTHORIZED, 403);
+    });
+
+    it('returns 404 when the event does not exist', async () => {
+      prismaStub.event.findUnique.mockResolvedValue(null);
+      await expectEventError(service.authorizeEvent('missing', owner), EventErrorCodes.EVENT_NOT_FOUND, 404);
+    });
+
+    it('grants co-organizers the organizer role but not owner-only actions', async () => {
+      prismaStub.event.findUnique.mockResolvedValue(createEvent());
+      prismaStub.eventMembership.findUnique.mockResolvedValue({ role: 'co_organizer' });
+
+      await expect(service.authorizeEvent('event-1', otherOwner)).resolves.toMatchObject({ role: 'co_organizer' });
+      await expectEventError(service.authorizeEvent('event-1', otherOwner, 'owner'), EventErrorCodes.NOT_AUTHORIZED, 403);
+      expect(prismaStub.eventMembership.findUnique).toHaveBeenCalledWith({
+        where: { eventId_accountId: { eventId: 'event-1', accountId: otherOwner.id } },
+        select: { role: true },
+      });
+    });
+
+    it('limits viewers to read access', async () => {
+      prismaStub.event.findUnique.mockResolvedValue(createEvent());
+      prismaStub.eventMembership.findUnique.mockResolvedValue({ role: 'viewer' });
+
+      await expect(service.authorizeEvent('event-1', otherOwner, 'viewer')).resolves.toMatchObject({ role: 'viewer' });
+      await expectEventError(service.authorizeEvent('event-1', otherOwner), EventErrorCodes.NOT_AUTHORIZED, 403);
+    });
+
+    it('answers optional permission checks without throwing', async () => {
+      prismaStub.event.findUnique.mockResolvedValue(createEvent());
+      await expect(service.canAccessEvent('event-1', owner)).resolves.toBe(true);
+      await expect(service.canAccessEvent('event-1', otherOwner)).resolves.toBe(false);
+    });
+  });
+
+  describe('listEventsForAccount', () => {
+    it('filters by owner for account owners', async () => {
+      prismaStub.event.findMany.mockResolvedValue([]);
+      await service.listEventsForAccount(owner);
+      expect(prismaStub.event.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            OR: [{ ownerAccountId: owner.id }, { memberships: { some: { accountId: owner.id } } }],
+            status: { not: 'archived' },
+          },
+        })
+      );
+    });
+
+    it('returns the role of the account per event', async () => {
+      prismaStub.event.findMany.mockResolvedValue([
+        { ...createEvent(), memberships: [] },
+        { ...createEvent({ id: 'event-2', ownerAccountId: otherOwner.id }), memberships: [{ role: 'viewer' }] },
+      ]);
+
+      const events = await service.listEventsForAccount(owner);
+
+      expect(events.map((event) => event.role)).toEqual(['owner', 'viewer']);
+    });
+
+    it('returns all events for admins', async () => {
+      prismaStub.event.findMany.mockResolvedValue([{ ...createEvent(), memberships: [] }]);
+      const events = await service.listEventsForAccount(admin);
+      expect(prismaStub.event.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { status: { not: 'archived' } } })
+      );
+      expect(events).toHaveLength(1);
+      expect(events[0]).not.toHaveProperty('passwordHash');
+    });
+
+    it('includes archived events on request', async () => {
+      prismaStub.event.findMany.mockResolvedValue([]);
+      await service.listEventsForAccount(owner, { includeArchived: true });
+      expect(prismaStub.event.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { OR: [{ ownerAccountId: owner.id }, { memberships: { some: { accountId: owner.id } } }] },
+        })
+      );
+    });
+  });
+
+  describe('createEvent', () => {
+    it('creates an event owned by the account with trimmed metadata', async () => {
+      const event = await service.createEvent(owner.id, {
+        name: '  Spieletreff  ',
+        password: 'geheim',
+        location: ' Bürgerhaus ',
+        capacity: '40',
+      });
+
+      expect(prismaStub.event.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          name: 'Spieletreff',
+          location: 'Bürgerhaus',
+          capacity: 40,
+          passwordHash: 'hashed',
+          ownerAccountId: owner.id,
+        }),
+      });
+      expect(event).not.toHaveProperty('passwordHash');
+    });
+
+    it('requires a name and a password', async () => {
+      await expectEventError(service.createEvent(owner.id, { password: 'x' }), EventErrorCodes.MISSING_NAME, 400);
+      await expectEventError(service.createEvent(owner.id, { name: 'Treff' }), EventErrorCodes.MISSING_PASSWORD, 400);
+    });
+
+    it('rejects an end date before the start date', async () => {
+      await expectEventError(
+        service.createEvent(owner.id, {
+          name: 'Treff',
+          password: 'x',
+          startsAt: '2026-03-02T10:00:00Z',
+          endsAt: '2026-03-01T10:00:00Z',
+        }),
+        EventErrorCodes.INVALID_DATE_RANGE,
+        400
+      );
+    });
+
+    it.each([0, -3, 2.5, 'viele'])('rejects capacity %p', async (capacity) => {
+      await expectEventError(
+        service.createEvent(owner.id, { name: 'Treff', password: 'x', capacity }),
+        EventErrorCodes.INVALID_CAPACITY,
+        400
+      );
+    });
+  });
+
+  describe('slugs', () => {
+    it('slugifies German event names', () => {
+      expect(slugify('Spieletreff März 2026')).toBe('spieletreff-maerz-2026');
+      expect(slugify('  Große Runde!  ')).toBe('grosse-runde');
+      expect(slugify('X')).toBe('event-x');
+    });
+
+    it('generates a slug from the name and appends a suffix on collision', async () => {
+      prismaStub.event.findUnique
+        .mockResolvedValueOnce(createEvent({ slug: 'spieletreff' }))
+        .mockResolvedValueOnce(null);
+
+      await service.createEvent(owner.id, { name: 'Spieletreff', password: 'x' });
+
+      expect(prismaStub.event.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ slug: 'spieletreff-2' }),
+      });
+    });
+
+    it('rejects malformed custom slugs', async () => {
+      await expectEventError(
+        service.createEvent(owner.id, { name: 'Treff', password: 'x', slug: 'Nicht gültig!' }),
+        EventErrorCodes.INVALID_SLUG,
+        400
+      );
+    });
+
+    it('rejects a custom slug used by another event', async () => {
+      prismaStub.event.findUnique
+        .mockResolvedValueOnce(createEvent())
+        .mockResolvedValueOnce(createEvent({ id: 'event-2', slug: 'vergeben' }));
+
+      await expectEventError(
+        service.updateEvent('event-1', owner, { slug: 'vergeben' }),
+        EventErrorCodes.SLUG_TAKEN,
+        409
+      );
+    });
+
+    it('returns only public fields for slug lookups', async () => {
+      prismaStub.event.findUnique.mockResolvedValue(createEvent({ location: 'Halle' }));
+      const event = await service.getPublicEventBySlug('Spieletreff');
+
+      expect(prismaStub.event.findUnique).toHaveBeenCalledWith({ where: { slug: 'spieletreff' } });
+      expect(event).toEqual({
+        id: 'event-1',
+        name: 'Spieletreff',
+        slug: 'spieletreff',
+        startsAt: expect.any(Date),
+        endsAt: expect.any(Date),
+        location: 'Halle',
+        status: 'open',
+      });
+    });
+
+    it('returns 404 for unknown slugs', async () => {
+      prismaStub.event.findUnique.mockResolvedValue(null);
+      await expectEventError(service.getPublicEventBySlug('unbekannt'), EventErrorCodes.EVENT_NOT_FOUND, 404);
+    });
+  });
+
+  describe('updateEvent', () => {
+    it('validates the date range against stored values', async () => {
+      prismaStub.event.findUnique.mockResolvedValue(createEvent());
+      await expectEventError(
+        service.updateEvent('event-1', owner, { endsAt: '2026-02-28T10:00:00Z' }),
+        EventErrorCodes.INVALID_DATE_RANGE,
+        400
+      );
+    });
+
+    it('clears optional fields with null', async () => {
+      prismaStub.event.findUnique.mockResolvedValue(createEvent({ location: 'Halle' }));
+      await service.updateEvent('event-1', owner, { location: null });
+      expect(prismaStub.event.update).toHaveBeenCalledWith({
+        where: { id: 'event-1' },
+        data: { location: null },
+      });
+    });
+
+    it('fills free spots from the waitlist when the capacity changes', async () => {
+      const fillFromWaitlist = jest.fn<(eventId: string) => Promise<unknown[]>>(async () => []);
+      const serviceWithWaitlist = new EventService(
+        prismaStub as unknown as PrismaClient,
+        { fillFromWaitlist } as unknown as ParticipantService
+      );
+      prismaStub.event.findUnique.mockResolvedValue(createEvent({ capacity: 10 }));
+
+      await serviceWithWaitlist.updateEvent('event-1', owner, { capacity: 12 });
+      await serviceWithWaitlist.updateEvent('event-1', owner, { capacity: null });
+      expect(fillFromWaitlist).toHaveBeenCalledTimes(2);
+      expect(fillFromWaitlist).toHaveBeenCalledWith('event-1');
+
+      await serviceWithWaitlist.updateEvent('event-1', owner, { location: 'Halle' });
+      expect(fillFromWaitlist).toHaveBeenCalledTimes(2);
+    });
+
+    it('changes the lifecycle status', async () => {
+      prismaStub.event.findUnique.mockResolvedValue(createEvent());
+      await service.updateEvent('event-1', owner, { status: 'locked' });
+      expect(prismaStub.event.update).toHaveBeenCalledWith({
+        where: { id: 'event-1' },
+        data: { status: 'locked' },
+      });
+    });
+
+    it('rejects unknown lifecycle states', async () => {
+      prismaStub.event.findUnique.mockResolvedValue(createEvent());
+      await expectEventError(
+        service.updateEvent('event-1', owner, { status: 'closed' }),
+        EventErrorCodes.INVALID_STATUS,
+        400
+      );
+    });
+
+    it('sets and clears the activity retention', async () => {
+      prismaStub.event.findUnique.mockResolvedValue(createEvent());
+      const event = await service.updateEvent('event-1', owner, { activityRetentionDays: '90' });
+      expect(prismaStub.event.update).toHaveBeenCalledWith({
+        where: { id: 'event-1' },
+        data: { activityRetentionDays: 90 },
+      });
+      expect(event.activityRetentionDays).toBe(90);
+
+      await service.updateEvent('event-1', owner, { activityRetentionDays: null });
+      expect(prismaStub.event.update).toHaveBeenLastCalledWith({
+        where: { id: 'event-1' },
+        data: { activityRetentionDays: null },
+      });
+    });
+
+    it('rejects a retention that is not a positive number of days', async () => {
+      prismaStub.event.findUnique.mockResolvedValue(createEvent());
+      await expectEventError(
+        service.updateEvent('event-1', owner, { activityRetentionDays: 0 }),
+        EventErrorCodes.INVALID_RETENTION_DAYS,
+        400
+      );
+      await expectEventError(
+        service.updateEvent('event-1', owner, { activityRetentionDays: 1.5 }),
+        EventErrorCodes.INVALID_RETENTION_DAYS,
+        400
+      );
+    });
+  });
+
+  describe('changeEventPassword', () => {
+    it('stores a new password hash', async () => {
+      prismaStub.event.findUnique.mockResolvedValue(createEvent());
+      await service.changeEventPassword('event-1', owner, 'neu');
+      expect(prismaStub.event.update).toHaveBeenCalledWith({
+        where: { id: 'event-1' },
+        data: { passwordHash: 'hashed', tokenVersion: { increment: 1 } },
+      });
+    });
+  });
+
+  describe('revokeEventTokens', () => {
+    it('bumps the token version', async () => {
+      prismaStub.event.findUnique.mockResolvedValue(createEvent());
+      await service.revokeEventTokens('event-1', owner);
+      expect(prismaStub.event.update).toHaveBeenCalledWith({
+        where: { id: 'event-1' },
+        data: { tokenVersion: { increment: 1 } },
+      });
+    });
+
+    it('is limited to organizers of the event', async () => {
+      prismaStub.event.findUnique.mockResolvedValue(createEvent());
+      await expectEventError(service.revokeEventTokens('event-1', otherOwner), EventErrorCodes.NOT_AUTHORIZED, 403);
+      expect(prismaStub.event.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cloneEvent', () => {
+    const bringer = { id: 'user-1', eventId: 'event-1', name: 'Anna' };
+    const wisher = { id: 'user-2', eventId: 'event-1', name: 'Ben' };
+    const availableGame = {
+      id: 'game-1',
+      eventId: 'event-1',
+      name: 'Azul',
+      ownerId: 'user-1',
+      bggId: 230802,
+      yearPublished: 2017,
+      bggRating: 7.8,
+      addedAsAlternateName: null,
+      alternateNames: ['Azul: Mosaik'],
+      isPrototype: false,
+      minPlayers: 2,
+      maxPlayers: 4,
+      bestPlayerCounts: [2],
+      recommendedPlayerCounts: [2, 3, 4],
+      minPlayTime: 30,
+      maxPlayTime: 45,
+      weight: 1.76,
+      bringers: [{ id: 'bringer-1', gameId: 'game-1', userId: 'user-1' }],
+    };
+    const requestedGame = {
+      ...availableGame,
+      id: 'game-2',
+      name: 'Prototyp X',
+      ownerId: 'user-2',
+      bggId: null,
+      yearPublished: null,
+      bggRating: null,
+      alternateNames: [],
+      isPrototype: true,
+      bringers: [],
+    };
+
+    let tx: {
+      event: { create: jest.Mock<(args: { data: Partial<Event> }) => Promise<Event>> };
+      user: { create: jest.Mock<(args: { data: { name: string } }) => Promise<{ id: string }>> };
+      game: { create: jest.Mock<(args: unknown) => Promise<unknown>> };
+    };
+    let findGames: jest.Mock<(args: unknown) => Promise<unknown[]>>;
+    let findUsers: jest.Mock<(args: unknown) => Promise<unknown[]>>;
+
+    beforeEach(() => {
+      tx = {
+        event: {
+          create: jest.fn<(args: { data: Partial<Event> }) => Promise<Event>>(async ({ data }) =>
+            createEvent({ ...data, id: 'event-2' })
+          ),
+        },
+        user: {
+          create: jest.fn<(args: { data: { name: string } }) => Promise<{ id: string }>>(async ({ data }) => ({
+            id: `copy-of-${data.name}`,
+          })),
+        },
+        game: { create: jest.fn<(args: unknown) => Promise<unknown>>(async () => ({})) },
+      };
+      findGames = jest.fn<(args: unknown) => Promise<unknown[]>>(async () => [availableGame, requestedGame]);
+      findUsers = jest.fn<(args: unknown) => Promise<unknown[]>>(async () => [bringer]);
+      Object.assign(prismaStub, {
+        game: { findMany: findGames },
+        user: { findMany: findUsers },
+        $transaction: jest.fn(async (fn: (client: typeof tx) => Promise<unknown>) => fn(tx)),
+      });
+      prismaStub.event.findUnique.mockImplementation(async (args) =>
+        (args as { where: { id?: string } }).where.id ? createEvent({ location: 'Halle', capacity: 30 }) : null
+      );
+    });
+
+    it('copies metadata only by default as a draft with the source password', async () => {
+      const event = await service.cloneEvent('event-1', owner, {});
+
+      expect(tx.event.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          name: 'Spieletreff (Kopie)',
+          slug: 'spieletreff-kopie',
+          location: 'Halle',
+          capacity: 30,
+          status: 'draft',
+          passwordHash: 'hash',
+          ownerAccountId: owner.id,
+        }),
+      });
+      expect(event.id).toBe('event-2');
+      expect(findGames).not.toHaveBeenCalled();
+      expect(findUsers).not.toHaveBeenCalled();
+      expect(tx.game.create).not.toHaveBeenCalled();
+    });
+
+    it('copies available games with their bringers and BGG data', async () => {
+      await service.cloneEvent('event-1', owner, { name: 'Herbst-Treff', games: 'available' });
+
+      expect(findUsers).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { eventId: 'event-1', id: { in: ['user-1'] } } })
+      );
+      expect(tx.user.create).toHaveBeenCalledWith({ data: { eventId: 'event-2', name: 'Anna', waitlistedAt: null } });
+      expect(tx.game.create).toHaveBeenCalledTimes(1);
+      expect(tx.game.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          eventId: 'event-2',
+          name: 'Azul',
+          ownerId: 'copy-of-Anna',
+          bggId: 230802,
+          yearPublished: 2017,
+          bggRating: 7.8,
+          alternateNames: ['Azul: Mosaik'],
+          isPrototype: false,
+          minPlayers: 2,
+          maxPlayers: 4,
+          bestPlayerCounts: [2],
+          weight: 1.76,
+          bringers: { create: [{ userId: 'copy-of-Anna' }] },
+        }),
+      });
+    });
+
+    it('copies only wunsch games without bringers', async () => {
+      await service.cloneEvent('event-1', owner, { games: 'requested' });
+
+      expect(findUsers).not.toHaveBeenCalled();
+      expect(tx.game.create).toHaveBeenCalledTimes(1);
+      expect(tx.game.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          name: 'Prototyp X',
+          ownerId: null,
+          isPrototype: true,
+          bringers: { create: [] },
+        }),
+      });
+    });
+
+    it('copies the participant roster on request', async () => {
+      findUsers.mockResolvedValue([bringer, wisher]);
+
+      await service.cloneEvent('event-1', owner, { includeParticipants: true });
+
+      expect(findUsers).toHaveBeenCalledWith(expect.objectContaining({ where: { eventId: 'event-1' } }));
+      expect(tx.user.create).toHaveBeenCalledTimes(2);
+      expect(tx.game.create).not.toHaveBeenCalled();
+    });
+
+    it('waitlists copied participants beyond the capacity of the clone', async () => {
+      const waitlisted = { id: 'user-3', eventId: 'event-1', name: 'Carla', waitlistedAt: new Date('2026-02-01T00:00:00Z') };
+      const confirmed = { ...wisher, waitlistedAt: null };
+      findUsers.mockResolvedValue([bringer, waitlisted, confirmed]);
+
+      await service.cloneEvent('event-1', owner, { includeParticipants: true, capacity: 1 });
+
+      const copies = tx.user.create.mock.calls.map(([args]) => args.data as { name: string; waitlistedAt: Date | null });
+      expect(copies.map((copy) => copy.name)).toEqual(['Anna', 'Ben', 'Carla']);
+      expect(copies[0].waitlistedAt).toBeNull();
+      expect(copies[1].waitlistedAt).toBeInstanceOf(Date);
+      expect(copies[2].waitlistedAt!.getTime()).toBeGreaterThan(copies[1].waitlistedAt!.getTime());
+    });
+
+    it('confirms the whole roster when the clone has no capacity', async () => {
+      const waitlisted = { id: 'user-3', eventId: 'event-1', name: 'Carla', waitlistedAt: new Date('2026-02-01T00:00:00Z') };
+      prismaStub.event.findUnique.mockImplementation(async (args) =>
+        (args as { where: { id?: string } }).where.id ? createEvent({ capacity: null }) : null
+      );
+      findUsers.mockResolvedValue([bringer, waitlisted]);
+
+      await service.cloneEvent('event-1', owner, { includeParticipants: true });
+
+      expect(tx.user.create.mock.calls.map(([args]) => args.data)).toEqual([
+        { eventId: 'event-2', name: 'Anna', waitlistedAt: null },
+        { eventId: 'event-2', name: 'Carla', waitlistedAt: null },
+      ]);
+    });
+
+    it('rejects unknown game options', async () => {
+      await expectEventError(
+        service.cloneEvent('event-1', owner, { games: 'all' }),
+        EventErrorCodes.INVALID_CLONE_OPTIONS,
+        400
+      );
+      expect(tx.event.create).not.toHaveBeenCalled();
+    });
+
+    it('is limited to organizers of the source event', async () => {
+      await expectEventError(service.cloneEvent('event-1', otherOwner, {}), EventErrorCodes.NOT_AUTHORIZED, 403);
+    });
+
+    it('carries over the organizer team', async () => {
+      prismaStub.eventMembership.findMany.mockResolvedValue([{ accountId: 'co-1', role: 'co_organizer' }]);
+
+      await service.cloneEvent('event-1', owner, {});
+
+      expect(prismaStub.eventMembership.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { eventId: 'event-1', accountId: { not: owner.id } } })
+      );
+      expect(tx.event.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          memberships: {
+            create: [
+              { accountId: owner.id, role: 'owner' },
+              { accountId: 'co-1', role: 'co_organizer' },
+            ],
+          },
+        }),
+      });
+    });
+  });
+
+  describe('deleteEvent', () => {
+    it('deletes an owned event', async () => {
+      prismaStub.event.findUnique.mockResolvedValue(createEvent());
+      await service.deleteEvent('event-1', owner);
+      expect(prismaStub.event.delete).toHaveBeenCalledWith({ where: { id: 'event-1' } });
+    });
+
+    it('is limited to the event owner', async () => {
+      prismaStub.event.findUnique.mockResolvedValue(createEvent());
+      prismaStub.eventMembership.findUnique.mockResolvedValue({ role: 'co_organizer' });
+      await expectEventError(service.deleteEvent('event-1', otherOwner), EventErrorCodes.NOT_AUTHORIZED, 403);
+      expect(prismaStub.event.delete).not.toHaveBeenCalled();
+    });
+
+    it('refuses to delete the default event', async () => {
+      prismaStub.event.findUnique.mockResolvedValue(createEvent({ isDefault: true }));
+      await expectEventError(service.deleteEvent('event-1', admin), EventErrorCodes.DEFAULT_EVENT_DELETE, 400);
+      expect(prismaStub.event.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -30,6 +30,7 @@ describe('Game Service Alternate Names - Property Tests', () => {
     const event = await prisma.event.create({
       data: {
         name: `Alternate Names Test ${Date.now()}`,
+        slug: `alternate-names-test-${Date.now()}`,
         passwordHash: 'test-hash',
         ownerAccountId: account.id,
       },
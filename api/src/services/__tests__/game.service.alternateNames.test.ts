@@ -29,6 +29,7 @@ describe('Game Service Alternate Names - Unit Tests', () => {
     const event = await prisma.event.create({
       data: {
         name: `Alternate Names Unit Test ${Date.now()}`,
+        slug: `alternate-names-unit-test-${Date.now()}`,
         passwordHash: 'test-hash',
         ownerAccountId: account.id,
       },
@@ -51,6 +51,7 @@ describe('GameService Property Tests', () => {
     const event = await prisma.event.create({
       data: {
         name: `Game Service Test ${Date.now()}`,
+        slug: `game-service-test-${Date.now()}`,
         passwordHash: 'test-hash',
         ownerAccountId: account.id,
       },
@@ -1,8 +1,17 @@
-import { describe, it, expect, beforeEach, jest } from '@jest/globals';
-import { GameService } from '../game.service';
-import { GameRepository } from '../../repositories/game.repository';
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { GameService, decodeGameSyncCursor, encodeGameSyncCursor } from '../game.service';
+import { GameRepository, TrashedGameRecord } from '../../repositories/game.repository';
 import { ParticipantRepository } from '../../repositories/participant.repository';
-import type { GameEntity, PlayerEntity, BringerEntity, ParticipantEntity } from '../../types';
+import type {
+  GameEntity,
+  PlayerEntity,
+  BringerEntity,
+  ParticipantEntity,
+  UpdateGameDto,
+  InterestLevel,
+  BggPlayData,
+} from '../../types';
+import { EMPTY_BGG_PLAY_DATA } from '../../types';
 
 // Mock the thumbnailService
 jest.mock('../thumbnailService', () => ({
@@ -11,10 +20,20 @@ jest.mock('../thumbnailService', () => ({
   },
 }));
 
+jest.mock('../notification.service', () => ({
+  notificationService: {
+    notifyGame: jest.fn<() => Promise<void>>(),
+  },
+}));
+
 // Import the mocked thumbnailService
 import { thumbnailService } from '../thumbnailService';
+import { notificationService } from '../notification.service';
+import { sseManager } from '../sse.service';
+import { bggCache } from '../bggCache';
 
 const mockDeleteThumbnails = thumbnailService.deleteThumbnails as jest.MockedFunction<typeof thumbnailService.deleteThumbnails>;
+const mockNotifyGame = notificationService.notifyGame as jest.MockedFunction<typeof notificationService.notifyGame>;
 
 /**
  * Unit tests for Game Service - Delete functionality
@@ -38,11 +57,18 @@ describe('GameService', () => {
   });
 
   // Helper to create a mock PlayerEntity
-  const createMockPlayerEntity = (id: string, gameId: string, participantId: string, participantName: string): PlayerEntity => ({
+  const createMockPlayerEntity = (
+    id: string,
+    gameId: string,
+    participantId: string,
+    participantName: string,
+    interestLevel: InterestLevel = 'gern'
+  ): PlayerEntity => ({
     id,
     gameId,
     participantId,
     addedAt: new Date('2024-01-01T00:00:00Z'),
+    interestLevel,
     participant: createMockParticipantEntity(participantId, participantName),
   });
 
@@ -80,6 +106,7 @@ describe('GameService', () => {
     addedAsAlternateName,
     alternateNames,
     isPrototype,
+    ...EMPTY_BGG_PLAY_DATA,
     owner: ownerId && ownerName ? createMockParticipantEntity(ownerId, ownerName) : null,
     players,
     bringers,
@@ -97,17 +124,32 @@ describe('GameService', () => {
       findById: jest.fn<(id: string, eventId: string) => Promise<GameEntity | null>>(),
       findByName: jest.fn<(name: string, eventId: string) => Promise<GameEntity | null>>(),
       create: jest.fn<(data: { eventId: string; name: string; participantId: string; isBringing: boolean; isPlaying: boolean; isPrototype?: boolean; bggId?: number; yearPublished?: number; bggRating?: number; addedAsAlternateName?: string; alternateNames?: string[] }) => Promise<GameEntity>>(),
-      addPlayer: jest.fn<(gameId: string, participantId: string, eventId: string) => Promise<GameEntity>>(),
+      addPlayer: jest.fn<(gameId: string, participantId: string, eventId: string, interestLevel?: InterestLevel) => Promise<GameEntity>>(),
+      updatePlayerInterest: jest.fn<(gameId: string, participantId: string, eventId: string, interestLevel: InterestLevel) => Promise<GameEntity>>(),
       removePlayer: jest.fn<(gameId: string, participantId: string, eventId: string) => Promise<GameEntity>>(),
       addBringer: jest.fn<(gameId: string, participantId: string, eventId: string) => Promise<GameEntity>>(),
       removeBringer: jest.fn<(gameId: string, participantId: string, eventId: string) => Promise<GameEntity>>(),
-      delete: jest.fn<(id: string, eventId: string) => Promise<boolean>>(),
+      delete: jest.fn<(id: string, eventId: string | null) => Promise<boolean>>(),
+      softDelete: jest.fn<(id: string, eventId: string, deletedById: string) => Promise<boolean>>(),
+      restore: jest.fn<(id: string, eventId: string) => Promise<GameEntity | null>>(),
+      findTrashedById: jest.fn<(id: string, eventId: string) => Promise<TrashedGameRecord | null>>(),
+      findTrashedByName: jest.fn<(name: string, eventId: string) => Promise<TrashedGameRecord | null>>(),
+      findTrashedBefore: jest.fn<(cutoff: Date) => Promise<TrashedGameRecord[]>>(),
+      findChangedSince: jest.fn<(eventId: string, since: Date) => Promise<GameEntity[]>>(),
+      findDeletedIdsSince: jest.fn<(eventId: string, since: Date) => Promise<string[]>>(),
+      deleteTombstonesBefore: jest.fn<(cutoff: Date) => Promise<number>>(),
       updatePrototype: jest.fn<(gameId: string, isPrototype: boolean, eventId: string) => Promise<GameEntity>>(),
+      update: jest.fn<(gameId: string, data: UpdateGameDto, eventId: string) => Promise<GameEntity>>(),
+      findBggPlayData: jest.fn<(bggId: number) => Promise<BggPlayData>>(async () => EMPTY_BGG_PLAY_DATA),
       findHiddenGameIdsByParticipant: jest.fn<(participantId: string) => Promise<Set<string>>>(),
       isGameHiddenForParticipant: jest.fn<(gameId: string, participantId: string) => Promise<boolean>>(),
       hideGame: jest.fn<(gameId: string, participantId: string) => Promise<void>>(),
       unhideGame: jest.fn<(gameId: string, participantId: string) => Promise<boolean>>(),
       unhideGameIfExists: jest.fn<(gameId: string, participantId: string) => Promise<void>>(),
+      findFollowedGameIdsByParticipant: jest.fn<(participantId: string) => Promise<Set<string>>>(),
+      isGameFollowedByParticipant: jest.fn<(gameId: string, participantId: string) => Promise<boolean>>(),
+      followGame: jest.fn<(gameId: string, participantId: string) => Promise<void>>(),
+      unfollowGame: jest.fn<(gameId: string, participantId: string) => Promise<boolean>>(),
     } as unknown as jest.Mocked<GameRepository>;
 
     // Create mock participant repository
@@ -129,18 +171,18 @@ describe('GameService', () => {
      * Test successful deletion by owner of empty game
      * Validates: Requirement 3.5
      */
-    it('should delete game successfully when owner and game is empty', async () => {
+    it('should move the game to the trash when owner and game is empty', async () => {
       const ownerId = 'owner-123';
       const gameId = 'game-123';
       const mockGame = createMockGameEntity(gameId, 'Test Game', ownerId, 'Owner Name', [], []);
       
       mockRepository.findById.mockResolvedValue(mockGame);
-      mockRepository.delete.mockResolvedValue(true);
+      mockRepository.softDelete.mockResolvedValue(true);
 
       await expect(gameService.deleteGame(eventId, gameId, ownerId)).resolves.toBeUndefined();
       
       expect(mockRepository.findById).toHaveBeenCalledWith(gameId, eventId);
-      expect(mockRepository.delete).toHaveBeenCalledWith(gameId, eventId);
+      expect(mockRepository.softDelete).toHaveBeenCalledWith(gameId, eventId, ownerId);
     });
 
     /**
@@ -155,7 +197,7 @@ describe('GameService', () => {
       );
       
       expect(mockRepository.findById).toHaveBeenCalledWith('non-existent', eventId);
-      expect(mockRepository.delete).not.toHaveBeenCalled();
+      expect(mockRepository.softDelete).not.toHaveBeenCalled();
     });
 
     /**
@@ -175,7 +217,7 @@ describe('GameService', () => {
       );
       
       expect(mockRepository.findById).toHaveBeenCalledWith(gameId, eventId);
-      expect(mockRepository.delete).not.toHaveBeenCalled();
+      expect(mockRepository.softDelete).not.toHaveBeenCalled();
     });
 
     it('should allow forced deletion when non-owner and game has participants', async () => {
@@ -187,14 +229,14 @@ describe('GameService', () => {
       const mockGame = createMockGameEntity(gameId, 'Test Game', ownerId, 'Owner Name', players, bringers);
 
       mockRepository.findById.mockResolvedValue(mockGame);
-      mockRepository.delete.mockResolvedValue(true);
+      mockRepository.softDelete.mockResolvedValue(true);
 
       await expect(
         gameService.deleteGame(eventId, gameId, nonOwnerId, { allowNonOwner: true, allowNonEmpty: true })
       ).resolves.toBeUndefined();
 
       expect(mockRepository.findById).toHaveBeenCalledWith(gameId, eventId);
-      expect(mockRepository.delete).toHaveBeenCalledWith(gameId, eventId);
+      expect(mockRepository.softDelete).toHaveBeenCalledWith(gameId, eventId, nonOwnerId);
     });
 
     /**
@@ -214,7 +256,7 @@ describe('GameService', () => {
       );
       
       expect(mockRepository.findById).toHaveBeenCalledWith(gameId, eventId);
-      expect(mockRepository.delete).not.toHaveBeenCalled();
+      expect(mockRepository.softDelete).not.toHaveBeenCalled();
     });
 
     /**
@@ -234,7 +276,7 @@ describe('GameService', () => {
       );
       
       expect(mockRepository.findById).toHaveBeenCalledWith(gameId, eventId);
-      expect(mockRepository.delete).not.toHaveBeenCalled();
+      expect(mockRepository.softDelete).not.toHaveBeenCalled();
     });
 
     /**
@@ -255,7 +297,7 @@ describe('GameService', () => {
       );
       
       expect(mockRepository.findById).toHaveBeenCalledWith(gameId, eventId);
-      expect(mockRepository.delete).not.toHaveBeenCalled();
+      expect(mockRepository.softDelete).not.toHaveBeenCalled();
     });
 
     /**
@@ -304,67 +346,322 @@ describe('GameService', () => {
     });
 
     /**
-     * Feature: 023-custom-thumbnail-upload, Property 6: Cleanup on Deletion
-     * Test that thumbnails are deleted when a non-BGG game is deleted
-     * Validates: Requirements 3.1, 3.3
+     * Thumbnails stay until the game is purged, so a restore brings them back
      */
-    it('should delete thumbnails when deleting a non-BGG game', async () => {
+    it('should keep thumbnails and relations when moving a game to the trash', async () => {
       const ownerId = 'owner-123';
       const gameId = 'game-123';
       const mockGame = createMockGameEntity(gameId, 'Custom Game', ownerId, 'Owner Name', [], [], null, null);
       
       mockRepository.findById.mockResolvedValue(mockGame);
-      mockRepository.delete.mockResolvedValue(true);
-      mockDeleteThumbnails.mockResolvedValue(undefined);
+      mockRepository.softDelete.mockResolvedValue(true);
 
       await gameService.deleteGame(eventId, gameId, ownerId);
 
-      expect(mockDeleteThumbnails).toHaveBeenCalledWith(gameId);
-      expect(mockRepository.delete).toHaveBeenCalledWith(gameId, eventId);
+      expect(mockDeleteThumbnails).not.toHaveBeenCalled();
+      expect(mockRepository.delete).not.toHaveBeenCalled();
+    });
+
+    it('should notify everyone interested in the game about the deletion', async () => {
+      mockRepository.findById.mockResolvedValue(createMockGameEntity('game-123', 'Catan', 'owner-123', 'Owner Name'));
+      mockRepository.softDelete.mockResolvedValue(true);
+
+      await gameService.deleteGame(eventId, 'game-123', 'owner-123');
+
+      expect(mockNotifyGame).toHaveBeenCalledWith({
+        eventId,
+        gameId: 'game-123',
+        gameName: 'Catan',
+        type: 'game_deleted',
+        actorId: 'owner-123',
+      });
+    });
+  });
+
+  describe('addBringer', () => {
+    it('should notify everyone interested in the game about the new bringer', async () => {
+      const bringer = createMockBringerEntity('bringer-1', 'game-123', 'user-456', 'Anna');
+      mockRepository.addBringer.mockResolvedValue(
+        createMockGameEntity('game-123', 'Catan', 'owner-123', 'Owner Name', [], [bringer])
+      );
+      mockRepository.isGameHiddenForParticipant.mockResolvedValue(false);
+      mockRepository.isGameFollowedByParticipant.mockResolvedValue(true);
+      mockParticipantRepository.findById.mockResolvedValue({ ...createMockParticipantEntity('user-456', 'Anna'), waitlistedAt: null });
+
+      const game = await gameService.addBringer(eventId, 'game-123', 'user-456');
+
+      expect(game).toMatchObject({ isHidden: false, isFollowed: true, status: 'verfuegbar' });
+      expect(mockNotifyGame).toHaveBeenCalledWith({
+        eventId,
+        gameId: 'game-123',
+        gameName: 'Catan',
+        type: 'bringer_added',
+        actorId: 'user-456',
+      });
+    });
+
+    it('should reject waitlisted participants', async () => {
+      mockParticipantRepository.findById.mockResolvedValue({
+        ...createMockParticipantEntity('user-456', 'Anna'),
+        waitlistedAt: new Date('2024-01-02T00:00:00Z'),
+      });
+
+      await expect(gameService.addBringer(eventId, 'game-123', 'user-456')).rejects.toThrow(
+        expect.objectContaining({ code: 'PARTICIPANT_WAITLISTED' })
+      );
+      expect(mockRepository.addBringer).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('addPlayer', () => {
+    let broadcastSpy: jest.SpiedFunction<typeof sseManager.broadcast>;
+
+    beforeEach(() => {
+      broadcastSpy = jest.spyOn(sseManager, 'broadcast').mockImplementation(() => undefined);
+      mockRepository.isGameHiddenForParticipant.mockResolvedValue(false);
+      mockRepository.isGameFollowedByParticipant.mockResolvedValue(false);
+      mockParticipantRepository.findById.mockResolvedValue({ ...createMockParticipantEntity('user-456', 'Anna'), waitlistedAt: null });
+    });
+
+    afterEach(() => {
+      broadcastSpy.mockRestore();
+    });
+
+    it('should add the player with their interest level', async () => {
+      const player = createMockPlayerEntity('player-1', 'game-123', 'user-456', 'Anna', 'must_play');
+      mockRepository.addPlayer.mockResolvedValue(
+        createMockGameEntity('game-123', 'Catan', 'owner-123', 'Owner Name', [player])
+      );
+
+      const game = await gameService.addPlayer(eventId, 'game-123', 'user-456', 'must_play');
+
+      expect(mockRepository.addPlayer).toHaveBeenCalledWith('game-123', 'user-456', eventId, 'must_play');
+      expect(game.players).toEqual([
+        {
+          id: 'player-1',
+          participant: { id: 'user-456', name: 'Anna' },
+          addedAt: new Date('2024-01-01T00:00:00Z'),
+          interestLevel: 'must_play',
+        },
+      ]);
+      expect(broadcastSpy).toHaveBeenCalledWith(eventId, expect.objectContaining({ type: 'game:player-added' }));
+    });
+
+    it('should change the interest level of a participant who already plays the game', async () => {
+      const player = createMockPlayerEntity('player-1', 'game-123', 'user-456', 'Anna', 'vielleicht');
+      mockRepository.addPlayer.mockRejectedValue(new Error('Unique constraint failed on the fields: (`game_id`,`user_id`)'));
+      mockRepository.updatePlayerInterest.mockResolvedValue(
+        createMockGameEntity('game-123', 'Catan', 'owner-123', 'Owner Name', [player])
+      );
+
+      const game = await gameService.addPlayer(eventId, 'game-123', 'user-456', 'vielleicht');
+
+      expect(mockRepository.updatePlayerInterest).toHaveBeenCalledWith('game-123', 'user-456', eventId, 'vielleicht');
+      expect(game.players[0].interestLevel).toBe('vielleicht');
+      expect(broadcastSpy).toHaveBeenCalledWith(eventId, {
+        type: 'game:updated',
+        gameId: 'game-123',
+        participantId: 'user-456',
+        fields: ['players'],
+      });
+    });
+
+    it('should reject adding a player twice without an interest level', async () => {
+      mockRepository.addPlayer.mockRejectedValue(new Error('Unique constraint failed on the fields: (`game_id`,`user_id`)'));
+
+      await expect(gameService.addPlayer(eventId, 'game-123', 'user-456')).rejects.toThrow(
+        'Du bist bereits als Mitspieler eingetragen.'
+      );
+      expect(mockRepository.updatePlayerInterest).not.toHaveBeenCalled();
+    });
+
+    it('should reject waitlisted participants', async () => {
+      mockParticipantRepository.findById.mockResolvedValue({
+        ...createMockParticipantEntity('user-456', 'Anna'),
+        waitlistedAt: new Date('2024-01-02T00:00:00Z'),
+      });
+
+      await expect(gameService.addPlayer(eventId, 'game-123', 'user-456', 'gern')).rejects.toThrow(
+        expect.objectContaining({ code: 'PARTICIPANT_WAITLISTED' })
+      );
+      expect(mockRepository.addPlayer).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('followGame', () => {
+    it('should follow the game and keep its hidden state', async () => {
+      mockRepository.findById.mockResolvedValue(createMockGameEntity('game-123', 'Catan', 'owner-123', 'Owner Name'));
+      mockRepository.followGame.mockResolvedValue(undefined);
+      mockRepository.isGameHiddenForParticipant.mockResolvedValue(true);
+
+      const game = await gameService.followGame(eventId, 'game-123', 'user-456');
+
+      expect(mockRepository.followGame).toHaveBeenCalledWith('game-123', 'user-456');
+      expect(game).toMatchObject({ isHidden: true, isFollowed: true });
+    });
+
+    it('should reject following a game twice', async () => {
+      mockRepository.findById.mockResolvedValue(createMockGameEntity('game-123', 'Catan', 'owner-123', 'Owner Name'));
+      mockRepository.followGame.mockRejectedValue(new Error('Unique constraint failed on the fields: (`game_id`,`user_id`)'));
+
+      await expect(gameService.followGame(eventId, 'game-123', 'user-456')).rejects.toThrow(
+        'Du folgst diesem Spiel bereits.'
+      );
+    });
+
+    it('should reject unfollowing a game that is not followed', async () => {
+      mockRepository.findById.mockResolvedValue(createMockGameEntity('game-123', 'Catan', 'owner-123', 'Owner Name'));
+      mockRepository.unfollowGame.mockResolvedValue(false);
+
+      await expect(gameService.unfollowGame(eventId, 'game-123', 'user-456')).rejects.toThrow(
+        'Du folgst diesem Spiel nicht.'
+      );
+    });
+
+    it('should reject unknown games', async () => {
+      mockRepository.findById.mockResolvedValue(null);
+
+      await expect(gameService.followGame(eventId, 'game-123', 'user-456')).rejects.toThrow('Spiel nicht gefunden.');
+      expect(mockRepository.followGame).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('restoreGame', () => {
+    const createTrashedGame = (overrides: Partial<TrashedGameRecord> = {}): TrashedGameRecord => ({
+      id: 'game-123',
+      eventId,
+      name: 'Catan',
+      ownerId: 'owner-123',
+      bggId: 13,
+      deletedAt: new Date('2024-01-02T00:00:00Z'),
+      deletedById: 'organizer-123',
+      ...overrides,
+    });
+
+    it('should restore the game for the participant who deleted it and announce it', async () => {
+      const broadcastSpy = jest.spyOn(sseManager, 'broadcast').mockImplementation(() => undefined);
+      const player = createMockPlayerEntity('player-1', 'game-123', 'user-456', 'Player');
+      mockRepository.findTrashedById.mockResolvedValue(createTrashedGame());
+      mockRepository.restore.mockResolvedValue(
+        createMockGameEntity('game-123', 'Catan', 'owner-123', 'Owner Name', [player], [], 13)
+      );
+      mockRepository.isGameHiddenForParticipant.mockResolvedValue(false);
+
+      const game = await gameService.restoreGame(eventId, 'game-123', 'organizer-123');
+
+      expect(mockRepository.restore).toHaveBeenCalledWith('game-123', eventId);
+      expect(game.players.map((p) => p.participant.id)).toEqual(['user-456']);
+      expect(broadcastSpy).toHaveBeenCalledWith(eventId, {
+        type: 'game:restored',
+        gameId: 'game-123',
+        gameName: 'Catan',
+        participantId: 'organizer-123',
+      });
+      broadcastSpy.mockRestore();
+    });
+
+    it('should let the owner restore a game someone else deleted', async () => {
+      mockRepository.findTrashedById.mockResolvedValue(createTrashedGame());
+      mockRepository.restore.mockResolvedValue(createMockGameEntity('game-123', 'Catan', 'owner-123', 'Owner Name'));
+      mockRepository.isGameHiddenForParticipant.mockResolvedValue(false);
+
+      await expect(gameService.restoreGame(eventId, 'game-123', 'owner-123')).resolves.toMatchObject({ id: 'game-123' });
+    });
+
+    it('should reject other participants unless overridden', async () => {
+      mockRepository.findTrashedById.mockResolvedValue(createTrashedGame());
+      mockRepository.restore.mockResolvedValue(createMockGameEntity('game-123', 'Catan', 'owner-123', 'Owner Name'));
+      mockRepository.isGameHiddenForParticipant.mockResolvedValue(false);
+
+      await expect(gameService.restoreGame(eventId, 'game-123', 'other-user')).rejects.toMatchObject({
+        code: 'FORBIDDEN',
+        message: 'Du bist nicht berechtigt, dieses Spiel wiederherzustellen.',
+      });
+      expect(mockRepository.restore).not.toHaveBeenCalled();
+
+      await expect(
+        gameService.restoreGame(eventId, 'game-123', 'other-user', { allowNonOwner: true })
+      ).resolves.toMatchObject({ id: 'game-123' });
+    });
+
+    it('should set error code to GAME_NOT_FOUND when the game is not in the trash', async () => {
+      mockRepository.findTrashedById.mockResolvedValue(null);
+
+      await expect(gameService.restoreGame(eventId, 'game-123', 'owner-123')).rejects.toMatchObject({
+        code: 'GAME_NOT_FOUND',
+        message: 'Spiel nicht gefunden.',
+      });
+    });
+  });
+
+  describe('purgeExpiredTrash', () => {
+    const trashedGame = (id: string, bggId: number | null): TrashedGameRecord => ({
+      id,
+      eventId,
+      name: `Game ${id}`,
+      ownerId: 'owner-123',
+      bggId,
+      deletedAt: new Date('2024-01-01T00:00:00Z'),
+      deletedById: 'owner-123',
+    });
+
+    it('should look up games deleted before the retention period', async () => {
+      mockRepository.findTrashedBefore.mockResolvedValue([]);
+
+      await expect(gameService.purgeExpiredTrash(30)).resolves.toBe(0);
+
+      const [cutoff] = mockRepository.findTrashedBefore.mock.calls[0];
+      expect(cutoff.getTime()).toBeLessThanOrEqual(Date.now() - 30 * 24 * 60 * 60 * 1000);
+      expect(cutoff.getTime()).toBeGreaterThan(Date.now() - 31 * 24 * 60 * 60 * 1000);
     });
 
     /**
-     * Feature: 023-custom-thumbnail-upload
-     * Test that thumbnails are NOT deleted when a BGG game is deleted
-     * Validates: Requirement 3.3
+     * Feature: 023-custom-thumbnail-upload, Property 6: Cleanup on Deletion
+     * Thumbnails of non-BGG games are removed once the game is purged
+     * Validates: Requirements 3.1, 3.3
      */
-    it('should NOT delete thumbnails when deleting a BGG game', async () => {
-      const ownerId = 'owner-123';
-      const gameId = 'game-123';
-      const mockGame = createMockGameEntity(gameId, 'Catan', ownerId, 'Owner Name', [], [], 13, 1995);
-      
-      mockRepository.findById.mockResolvedValue(mockGame);
+    it('should delete expired games and the thumbnails of non-BGG games', async () => {
+      mockRepository.findTrashedBefore.mockResolvedValue([trashedGame('custom', null), trashedGame('catan', 13)]);
       mockRepository.delete.mockResolvedValue(true);
+      mockDeleteThumbnails.mockResolvedValue(undefined);
 
-      await gameService.deleteGame(eventId, gameId, ownerId);
+      await expect(gameService.purgeExpiredTrash(30)).resolves.toBe(2);
 
-      expect(mockDeleteThumbnails).not.toHaveBeenCalled();
-      expect(mockRepository.delete).toHaveBeenCalledWith(gameId, eventId);
+      expect(mockDeleteThumbnails).toHaveBeenCalledTimes(1);
+      expect(mockDeleteThumbnails).toHaveBeenCalledWith('custom');
+      expect(mockRepository.delete).toHaveBeenCalledWith('custom', eventId);
+      expect(mockRepository.delete).toHaveBeenCalledWith('catan', eventId);
     });
 
     /**
      * Feature: 023-custom-thumbnail-upload
-     * Test that game deletion proceeds even if thumbnail deletion fails
      * Validates: Requirement 3.2
      */
-    it('should proceed with game deletion even if thumbnail deletion fails', async () => {
-      const ownerId = 'owner-123';
-      const gameId = 'game-123';
-      const mockGame = createMockGameEntity(gameId, 'Custom Game', ownerId, 'Owner Name', [], [], null, null);
-      
-      mockRepository.findById.mockResolvedValue(mockGame);
+    it('should purge the game even if thumbnail deletion fails', async () => {
+      mockRepository.findTrashedBefore.mockResolvedValue([trashedGame('custom', null)]);
       mockRepository.delete.mockResolvedValue(true);
       mockDeleteThumbnails.mockRejectedValue(new Error('File system error'));
 
-      // Should not throw
-      await expect(gameService.deleteGame(eventId, gameId, ownerId)).resolves.toBeUndefined();
+      await expect(gameService.purgeExpiredTrash(30)).resolves.toBe(1);
 
-      expect(mockDeleteThumbnails).toHaveBeenCalledWith(gameId);
-      expect(mockRepository.delete).toHaveBeenCalledWith(gameId, eventId);
+      expect(mockRepository.delete).toHaveBeenCalledWith('custom', eventId);
     });
   });
 
   describe('createGame', () => {
+    it('should reject waitlisted participants', async () => {
+      mockRepository.findByName.mockResolvedValue(null);
+      mockParticipantRepository.findById.mockResolvedValue({
+        ...createMockParticipantEntity('user-456', 'Anna'),
+        waitlistedAt: new Date('2024-01-02T00:00:00Z'),
+      });
+
+      await expect(gameService.createGame(eventId, 'New Game', 'user-456', true, false, false)).rejects.toThrow(
+        expect.objectContaining({ code: 'PARTICIPANT_WAITLISTED' })
+      );
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+
     /**
      * Test that createGame sets owner correctly
      * Validates: Requirement 2.2
@@ -405,14 +702,17 @@ describe('GameService', () => {
       const bggId = 13;
       const yearPublished = 1995;
       const mockGame = createMockGameEntity('game-123', gameName, participantId, 'User Name', [], [], bggId, yearPublished);
+      const playData = { ...EMPTY_BGG_PLAY_DATA, minPlayers: 3, maxPlayers: 4, bestPlayerCounts: [4], minPlayTime: 60, maxPlayTime: 120 };
       
       mockRepository.findByName.mockResolvedValue(null);
+      mockRepository.findBggPlayData.mockResolvedValue(playData);
       mockRepository.create.mockResolvedValue(mockGame);
 
       const result = await gameService.createGame(eventId, gameName, participantId, false, false, false, bggId, yearPublished);
 
       expect(result.bggId).toBe(bggId);
       expect(result.yearPublished).toBe(yearPublished);
+      expect(mockRepository.findBggPlayData).toHaveBeenCalledWith(bggId);
       expect(mockRepository.create).toHaveBeenCalledWith({
         eventId,
         name: gameName,
@@ -425,6 +725,7 @@ describe('GameService', () => {
         bggRating: undefined,
         addedAsAlternateName: undefined,
         alternateNames: undefined,
+        ...playData,
       });
     });
 
@@ -447,6 +748,65 @@ describe('GameService', () => {
     });
   });
 
+  describe('createGame with a trashed game of the same name', () => {
+    beforeEach(() => {
+      mockRepository.findByName.mockResolvedValue(null);
+      mockRepository.findTrashedByName.mockResolvedValue({
+        id: 'old-game',
+        eventId,
+        name: 'Catan',
+        ownerId: 'owner-1',
+        bggId: 13,
+        deletedAt: new Date('2024-01-01T00:00:00Z'),
+        deletedById: 'deleter-1',
+      });
+      mockParticipantRepository.findById.mockImplementation(async (id: string) =>
+        id === 'owner-1' || id === 'deleter-1'
+          ? { ...createMockParticipantEntity(id, id === 'owner-1' ? 'Anna' : 'Ben'), waitlistedAt: null }
+          : null
+      );
+    });
+
+    it('should reject the new game and keep the trashed one restorable', async () => {
+      await expect(gameService.createGame(eventId, 'Catan', 'deleter-1', false, false, false)).rejects.toThrow(
+        expect.objectContaining({
+          code: 'GAME_IN_TRASH',
+          message: 'Ein Spiel mit diesem Namen liegt im Papierkorb. Stelle es wieder her, statt es neu anzulegen.',
+          details: { gameId: 'old-game', canRestore: true, restorers: ['Anna', 'Ben'] },
+        })
+      );
+
+      expect(mockRepository.delete).not.toHaveBeenCalled();
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should tell other participants who can restore the game', async () => {
+      await expect(gameService.createGame(eventId, 'Catan', 'user-123', false, false, false)).rejects.toThrow(
+        expect.objectContaining({
+          code: 'GAME_IN_TRASH',
+          message: 'Ein Spiel mit diesem Namen liegt im Papierkorb. Wiederherstellen können es nur Anna, Ben oder die Organisation.',
+          details: { gameId: 'old-game', canRestore: false, restorers: ['Anna', 'Ben'] },
+        })
+      );
+    });
+
+    it('should point to the organizers if nobody else can restore the game', async () => {
+      mockRepository.findTrashedByName.mockResolvedValue({
+        id: 'old-game',
+        eventId,
+        name: 'Catan',
+        ownerId: null,
+        bggId: 13,
+        deletedAt: new Date('2024-01-01T00:00:00Z'),
+        deletedById: null,
+      });
+
+      await expect(gameService.createGame(eventId, 'Catan', 'user-123', false, false, false)).rejects.toThrow(
+        'Ein Spiel mit diesem Namen liegt im Papierkorb. Wiederherstellen kann es nur die Organisation.'
+      );
+    });
+  });
+
   describe('getAllGames', () => {
     /**
      * Test that getAllGames includes owner in response
@@ -483,6 +843,211 @@ describe('GameService', () => {
       expect(result[1].bggId).toBeNull();
       expect(result[1].yearPublished).toBeNull();
     });
+
+    it('should mark the games the participant hides and follows', async () => {
+      mockRepository.findAll.mockResolvedValue([
+        createMockGameEntity('game-1', 'Catan', 'owner-1', 'Owner 1'),
+        createMockGameEntity('game-2', 'Azul', 'owner-1', 'Owner 1'),
+      ]);
+      mockRepository.findHiddenGameIdsByParticipant.mockResolvedValue(new Set(['game-2']));
+      mockRepository.findFollowedGameIdsByParticipant.mockResolvedValue(new Set(['game-1']));
+
+      const result = await gameService.getAllGames(eventId, 'user-123');
+
+      expect(result.map((game) => [game.isHidden, game.isFollowed])).toEqual([[false, true], [true, false]]);
+    });
+  });
+
+  describe('getGameChanges', () => {
+    it('should return the games changed and deleted since the cursor', async () => {
+      const syncedAt = new Date(Date.now() - 60 * 1000);
+      mockRepository.findChangedSince.mockResolvedValue([createMockGameEntity('game-1', 'Catan', 'owner-1', 'Owner 1')]);
+      mockRepository.findDeletedIdsSince.mockResolvedValue(['game-2']);
+      mockRepository.findHiddenGameIdsByParticipant.mockResolvedValue(new Set());
+      mockRepository.findFollowedGameIdsByParticipant.mockResolvedValue(new Set(['game-1']));
+
+      const result = await gameService.getGameChanges(eventId, encodeGameSyncCursor(syncedAt), 'user-123');
+
+      expect(result.full).toBe(false);
+      expect(result.games.map((game) => [game.id, game.isFollowed])).toEqual([['game-1', true]]);
+      expect(result.deletedGameIds).toEqual(['game-2']);
+      expect(decodeGameSyncCursor(result.cursor).getTime()).toBeGreaterThan(syncedAt.getTime());
+      expect(mockRepository.findAll).not.toHaveBeenCalled();
+      // Looks a little behind the cursor to tolerate clock skew between API instances
+      const [, since] = mockRepository.findChangedSince.mock.calls[0];
+      expect(since.getTime()).toBeLessThan(syncedAt.getTime());
+      expect(mockRepository.findDeletedIdsSince).toHaveBeenCalledWith(eventId, since);
+    });
+
+    it('should return the full list if the cursor is older than the tombstones', async () => {
+      mockRepository.findAll.mockResolvedValue([createMockGameEntity('game-1', 'Catan', 'owner-1', 'Owner 1')]);
+
+      const result = await gameService.getGameChanges(eventId, encodeGameSyncCursor(new Date('2020-01-01T00:00:00Z')));
+
+      expect(result).toMatchObject({ full: true, deletedGameIds: [] });
+      expect(result.games).toHaveLength(1);
+      expect(mockRepository.findChangedSince).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid cursors', async () => {
+      await expect(gameService.getGameChanges(eventId, 'kein-cursor')).rejects.toThrow(
+        expect.objectContaining({ code: 'VALIDATION_ERROR', message: 'Ungültiger Cursor.' })
+      );
+      await expect(gameService.getGameChanges(eventId, '')).rejects.toThrow('Ungültiger Cursor.');
+    });
+  });
+
+  describe('purgeExpiredTombstones', () => {
+    it('should delete tombstones older than the retention period', async () => {
+      mockRepository.deleteTombstonesBefore.mockResolvedValue(3);
+
+      await expect(gameService.purgeExpiredTombstones(30)).resolves.toBe(3);
+
+      const [cutoff] = mockRepository.deleteTombstonesBefore.mock.calls[0];
+      expect(cutoff.getTime()).toBeLessThan(Date.now() - 29 * 24 * 60 * 60 * 1000);
+    });
+  });
+
+  describe('updateGame', () => {
+    let broadcastSpy: jest.SpiedFunction<typeof sseManager.broadcast>;
+
+    beforeEach(() => {
+      broadcastSpy = jest.spyOn(sseManager, 'broadcast').mockImplementation(() => undefined);
+      mockRepository.isGameHiddenForParticipant.mockResolvedValue(false);
+      mockRepository.isGameFollowedByParticipant.mockResolvedValue(false);
+      bggCache.loadGames([
+        { id: 13, name: 'Catan', yearPublished: 1995, rank: 1, rating: 7.1, alternateNames: ['Die Siedler von Catan'] },
+      ]);
+    });
+
+    afterEach(() => {
+      broadcastSpy.mockRestore();
+      bggCache.reset();
+    });
+
+    it('should rename the game and announce the change', async () => {
+      mockRepository.findById.mockResolvedValue(createMockGameEntity('game-1', 'Catna', 'owner-1', 'Owner'));
+      mockRepository.findByName.mockResolvedValue(null);
+      mockRepository.findTrashedByName.mockResolvedValue(null);
+      mockRepository.update.mockResolvedValue(createMockGameEntity('game-1', 'Catan', 'owner-1', 'Owner'));
+
+      const game = await gameService.updateGame(eventId, 'game-1', 'owner-1', { name: '  Catan ' });
+
+      expect(game.name).toBe('Catan');
+      expect(mockRepository.update).toHaveBeenCalledWith('game-1', { name: 'Catan' }, eventId);
+      expect(broadcastSpy).toHaveBeenCalledWith(eventId, {
+        type: 'game:updated',
+        gameId: 'game-1',
+        participantId: 'owner-1',
+        fields: ['name'],
+      });
+    });
+
+    it('should fill the BGG data when linking a game to BGG', async () => {
+      mockRepository.findById.mockResolvedValue(
+        createMockGameEntity('game-1', 'Die Siedler von Catan', 'owner-1', 'Owner', [], [], null, null, null, null, [], true)
+      );
+      mockRepository.update.mockResolvedValue(createMockGameEntity('game-1', 'Die Siedler von Catan', 'owner-1', 'Owner', [], [], 13));
+
+      await gameService.updateGame(eventId, 'game-1', 'owner-1', { bggId: 13 });
+
+      expect(mockRepository.update).toHaveBeenCalledWith(
+        'game-1',
+        {
+          bggId: 13,
+          yearPublished: 1995,
+          bggRating: 7.1,
+          addedAsAlternateName: 'Die Siedler von Catan',
+          alternateNames: ['Die Siedler von Catan'],
+          isPrototype: false,
+          ...EMPTY_BGG_PLAY_DATA,
+        },
+        eventId
+      );
+    });
+
+    it('should clear the BGG data when unlinking a game', async () => {
+      mockRepository.findById.mockResolvedValue(
+        createMockGameEntity('game-1', 'Catan', 'owner-1', 'Owner', [], [], 13, 1995, 7.1, null, ['Die Siedler von Catan'])
+      );
+      mockRepository.update.mockResolvedValue(createMockGameEntity('game-1', 'Catan', 'owner-1', 'Owner'));
+
+      await gameService.updateGame(eventId, 'game-1', 'owner-1', { bggId: null });
+
+      expect(mockRepository.update).toHaveBeenCalledWith(
+        'game-1',
+        { bggId: null, yearPublished: null, bggRating: null, addedAsAlternateName: null, alternateNames: [], ...EMPTY_BGG_PLAY_DATA },
+        eventId
+      );
+    });
+
+    it('should reject BGG entries that are not in the BGG data', async () => {
+      mockRepository.findById.mockResolvedValue(createMockGameEntity('game-1', 'Catan', 'owner-1', 'Owner'));
+
+      await expect(gameService.updateGame(eventId, 'game-1', 'owner-1', { bggId: 999 })).rejects.toThrow(
+        expect.objectContaining({ code: 'VALIDATION_ERROR', message: 'BGG-Eintrag nicht gefunden.' })
+      );
+      expect(mockRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should keep the duplicate-name check', async () => {
+      mockRepository.findById.mockResolvedValue(createMockGameEntity('game-1', 'Catna', 'owner-1', 'Owner'));
+      mockRepository.findByName.mockResolvedValue(createMockGameEntity('game-2', 'Catan', 'owner-2', 'Other'));
+
+      await expect(gameService.updateGame(eventId, 'game-1', 'owner-1', { name: 'Catan' })).rejects.toThrow(
+        expect.objectContaining({ code: 'DUPLICATE_GAME', message: 'Ein Spiel mit diesem Namen existiert bereits.' })
+      );
+      expect(mockRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject a rename to the name of a trashed game without purging it', async () => {
+      mockRepository.findById.mockResolvedValue(createMockGameEntity('game-1', 'Catna', 'owner-1', 'Owner'));
+      mockRepository.findByName.mockResolvedValue(null);
+      mockRepository.findTrashedByName.mockResolvedValue({
+        id: 'old-game',
+        eventId,
+        name: 'Catan',
+        ownerId: 'someone-else',
+        bggId: 13,
+        deletedAt: new Date('2024-01-01T00:00:00Z'),
+        deletedById: 'someone-else',
+      });
+
+      await expect(gameService.updateGame(eventId, 'game-1', 'owner-1', { name: 'Catan' })).rejects.toThrow(
+        expect.objectContaining({
+          code: 'GAME_IN_TRASH',
+          details: { gameId: 'old-game', canRestore: false, restorers: [] },
+        })
+      );
+      expect(mockRepository.delete).not.toHaveBeenCalled();
+      expect(mockRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should only let the owner edit the game', async () => {
+      mockRepository.findById.mockResolvedValue(createMockGameEntity('game-1', 'Catan', 'owner-1', 'Owner'));
+
+      await expect(gameService.updateGame(eventId, 'game-1', 'user-2', { name: 'Azul' })).rejects.toThrow(
+        expect.objectContaining({ code: 'FORBIDDEN' })
+      );
+    });
+
+    it('should reject empty names', async () => {
+      mockRepository.findById.mockResolvedValue(createMockGameEntity('game-1', 'Catan', 'owner-1', 'Owner'));
+
+      await expect(gameService.updateGame(eventId, 'game-1', 'owner-1', { name: '   ' })).rejects.toThrow(
+        'Bitte einen Spielnamen eingeben.'
+      );
+    });
+
+    it('should leave the game untouched without changes', async () => {
+      mockRepository.findById.mockResolvedValue(createMockGameEntity('game-1', 'Catan', 'owner-1', 'Owner', [], [], 13));
+
+      const game = await gameService.updateGame(eventId, 'game-1', 'owner-1', { name: 'Catan', bggId: 13 });
+
+      expect(game.name).toBe('Catan');
+      expect(mockRepository.update).not.toHaveBeenCalled();
+      expect(broadcastSpy).not.toHaveBeenCalled();
+    });
   });
 
   /**
@@ -626,4 +1191,47 @@ describe('GameService', () => {
       expect(mockRepository.updatePrototype).toHaveBeenCalledWith(gameId, false, eventId);
     });
   });
+
+  describe('event channels', () => {
+    const createMockResponse = () => ({ write: jest.fn(() => true) });
+
+    afterEach(() => {
+      sseManager.clearClients();
+    });
+
+    /**
+     * Game events must only reach the SSE clients of the event the game belongs to
+     */
+    it('should only notify subscribers of the game\'s event', async () => {
+      const ownResponse = createMockResponse();
+      const otherResponse = createMockResponse();
+      sseManager.addClient('own-client', eventId, ownResponse as never);
+      sseManager.addClient('other-client', 'other-event', otherResponse as never);
+
+      mockRepository.findByName.mockResolvedValue(null);
+      mockRepository.create.mockResolvedValue(createMockGameEntity('game-123', 'New Game', 'user-123', 'User Name'));
+
+      await gameService.createGame(eventId, 'New Game', 'user-123', false, false, false);
+
+      expect(ownResponse.write).toHaveBeenCalledTimes(1);
+      expect(ownResponse.write).toHaveBeenCalledWith(expect.stringContaining('"type":"game:created"'));
+      expect(otherResponse.write).not.toHaveBeenCalled();
+    });
+
+    it('should announce hidden state changes as game:updated', async () => {
+      const mockResponse = createMockResponse();
+      sseManager.addClient('own-client', eventId, mockResponse as never);
+
+      mockRepository.findById.mockResolvedValue(createMockGameEntity('game-123', 'Catan', 'owner-1', 'Owner'));
+      mockRepository.hideGame.mockResolvedValue(undefined);
+
+      await gameService.hideGame(eventId, 'game-123', 'user-123');
+
+      expect(mockResponse.write).toHaveBeenCalledWith(
+        expect.stringContaining(
+          `data: ${JSON.stringify({ type: 'game:updated', gameId: 'game-123', participantId: 'user-123', fields: ['isHidden'] })}`
+        )
+      );
+    });
+  });
 });
@@ -0,0 +1,220 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import type { PrismaClient } from '@prisma/client';
+import { NotificationService, parseNotificationListQuery } from '../notification.service';
+
+type Mock = jest.Mock<(...args: never[]) => Promise<unknown>>;
+const mockFn = (value: unknown): Mock => jest.fn<(...args: never[]) => Promise<unknown>>(async () => value);
+
+const row = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  recipientId: 'user-2',
+  actorId: 'user-1',
+  type: 'bringer_added',
+  gameId: 'game-1',
+  eventId: 'event-1',
+  metadata: { gameId: 'game-1', gameName: 'Catan' },
+  readAt: null,
+  createdAt: new Date('2026-10-19T18:00:00Z'),
+  actor: { id: 'user-1', name: 'Anna' },
+  game: { id: 'game-1', name: 'Catan' },
+  ...overrides,
+});
+
+/**
+ * Unit tests for NotificationService
+ * Prisma is stubbed per test.
+ */
+describe('NotificationService', () => {
+  let prismaStub: {
+    player: { findMany: Mock };
+    bringer: { findMany: Mock };
+    gameFollower: { findMany: Mock };
+    notification: { createMany: Mock; findMany: Mock; findFirst: Mock; count: Mock; update: Mock; updateMany: Mock };
+  };
+  let service: NotificationService;
+
+  beforeEach(() => {
+    prismaStub = {
+      player: { findMany: mockFn([]) },
+      bringer: { findMany: mockFn([]) },
+      gameFollower: { findMany: mockFn([]) },
+      notification: {
+        createMany: mockFn({ count: 0 }),
+        findMany: mockFn([]),
+        findFirst: mockFn(null),
+        count: mockFn(0),
+        update: mockFn({}),
+        updateMany: mockFn({ count: 0 }),
+      },
+    };
+    service = new NotificationService(prismaStub as unknown as PrismaClient);
+  });
+
+  describe('parseNotificationListQuery', () => {
+    it('reads the unread flag and the limit', () => {
+      expect(parseNotificationListQuery({})).toEqual({ unreadOnly: false, limit: undefined });
+      expect(parseNotificationListQuery({ unread: 'true', limit: '10' })).toEqual({ unreadOnly: true, limit: 10 });
+    });
+
+    it('rejects limits out of range', () => {
+      expect(() => parseNotificationListQuery({ limit: '0' })).toThrow(
+        expect.objectContaining({ code: 'VALIDATION_ERROR' })
+      );
+      expect(() => parseNotificationListQuery({ limit: '101' })).toThrow('Das Limit muss zwischen 1 und 100 liegen.');
+    });
+  });
+
+  describe('notifyGame', () => {
+    it('notifies players, bringers and followers once each, except the actor', async () => {
+      prismaStub.player.findMany.mockResolvedValue([
+        { gameId: 'game-1', userId: 'user-2' },
+        { gameId: 'game-1', userId: 'user-1' },
+      ]);
+      prismaStub.bringer.findMany.mockResolvedValue([{ gameId: 'game-1', userId: 'user-1' }]);
+      prismaStub.gameFollower.findMany.mockResolvedValue([
+        { gameId: 'game-1', userId: 'user-2' },
+        { gameId: 'game-1', userId: 'user-3' },
+      ]);
+
+      await service.notifyGame({
+        eventId: 'event-1',
+        gameId: 'game-1',
+        gameName: 'Catan',
+        type: 'bringer_added',
+        actorId: 'user-1',
+      });
+
+      expect(prismaStub.notification.createMany).toHaveBeenCalledWith({
+        data: ['user-2', 'user-3'].map((recipientId) => ({
+          recipientId,
+          actorId: 'user-1',
+          type: 'bringer_added',
+          gameId: 'game-1',
+          eventId: 'event-1',
+          metadata: { gameId: 'game-1', gameName: 'Catan' },
+        })),
+      });
+    });
+
+    it('keeps a game deleted for good in the metadata only', async () => {
+      await service.notifyGame(
+        { eventId: 'event-1', gameId: 'game-1', gameName: 'Catan', type: 'game_deleted', actorId: null },
+        new Set(['user-2'])
+      );
+
+      expect(prismaStub.player.findMany).not.toHaveBeenCalled();
+      expect(prismaStub.notification.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ recipientId: 'user-2', actorId: null, gameId: null })],
+      });
+    });
+
+    it('skips games nobody is interested in', async () => {
+      await service.notifyGame({
+        eventId: 'event-1',
+        gameId: 'game-1',
+        gameName: 'Catan',
+        type: 'game_deleted',
+        actorId: 'user-1',
+      });
+
+      expect(prismaStub.notification.createMany).not.toHaveBeenCalled();
+    });
+
+    it('never throws', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      prismaStub.player.findMany.mockRejectedValue(new Error('connection lost'));
+
+      await expect(
+        service.notifyGame({ eventId: 'event-1', gameId: 'game-1', gameName: 'Catan', type: 'game_deleted', actorId: null })
+      ).resolves.toBeUndefined();
+      expect(errorSpy).toHaveBeenCalled();
+      errorSpy.mockRestore();
+    });
+  });
+
+  describe('getNotifications', () => {
+    it('resolves notifications to inbox entries with the unread count', async () => {
+      prismaStub.notification.findMany.mockResolvedValue([
+        row('n-2'),
+        row('n-1', { type: 'game_deleted', actorId: null, actor: null, gameId: null, game: null, readAt: new Date('2026-10-19T19:00:00Z') }),
+      ]);
+      prismaStub.notification.count.mockResolvedValue(1);
+
+      const inbox = await service.getNotifications('event-1', 'user-2');
+
+      expect(inbox).toEqual({
+        unreadCount: 1,
+        notifications: [
+          {
+            id: 'n-2',
+            type: 'bringer_added',
+            createdAt: new Date('2026-10-19T18:00:00Z'),
+            readAt: null,
+            actor: { id: 'user-1', name: 'Anna' },
+            game: { id: 'game-1', name: 'Catan' },
+            message: 'Anna bringt Catan mit',
+          },
+          {
+            id: 'n-1',
+            type: 'game_deleted',
+            createdAt: new Date('2026-10-19T18:00:00Z'),
+            readAt: new Date('2026-10-19T19:00:00Z'),
+            actor: null,
+            game: { id: null, name: 'Catan' },
+            message: 'Catan wurde vom Orga-Team gelöscht',
+          },
+        ],
+      });
+      expect(prismaStub.notification.count).toHaveBeenCalledWith({
+        where: { eventId: 'event-1', recipientId: 'user-2', readAt: null },
+      });
+    });
+
+    it('filters unread notifications', async () => {
+      await service.getNotifications('event-1', 'user-2', { unreadOnly: true, limit: 5 });
+
+      expect(prismaStub.notification.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { eventId: 'event-1', recipientId: 'user-2', readAt: null },
+          take: 5,
+        })
+      );
+    });
+  });
+
+  describe('markRead', () => {
+    it('marks a notification of the participant as read', async () => {
+      prismaStub.notification.findFirst.mockResolvedValue(row('n-1'));
+      prismaStub.notification.update.mockResolvedValue(row('n-1', { readAt: new Date('2026-10-19T19:00:00Z') }));
+
+      const entry = await service.markRead('event-1', 'user-2', 'n-1');
+
+      expect(prismaStub.notification.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'n-1', eventId: 'event-1', recipientId: 'user-2' } })
+      );
+      expect(entry.readAt).toEqual(new Date('2026-10-19T19:00:00Z'));
+    });
+
+    it('leaves read notifications untouched', async () => {
+      prismaStub.notification.findFirst.mockResolvedValue(row('n-1', { readAt: new Date('2026-10-19T19:00:00Z') }));
+
+      await service.markRead('event-1', 'user-2', 'n-1');
+
+      expect(prismaStub.notification.update).not.toHaveBeenCalled();
+    });
+
+    it('rejects notifications of other participants', async () => {
+      await expect(service.markRead('event-1', 'user-3', 'n-1')).rejects.toThrow('Benachrichtigung nicht gefunden.');
+    });
+  });
+
+  it('marks all unread notifications as read', async () => {
+    prismaStub.notification.updateMany.mockResolvedValue({ count: 3 });
+
+    await expect(service.markAllRead('event-1', 'user-2')).resolves.toBe(3);
+    expect(prismaStub.notification.updateMany).toHaveBeenCalledWith({
+      where: { eventId: 'event-1', recipientId: 'user-2', readAt: null },
+      data: { readAt: expect.any(Date) },
+    });
+  });
+});
@@ -45,6 +45,7 @@ describe('ParticipantService Property Tests', () => {
     const event = await prisma.event.create({
       data: {
         name: `Participant Service Test ${Date.now()}`,
+        slug: `participant-service-test-${Date.now()}`,
         passwordHash: 'test-hash',
         ownerAccountId: account.id,
       },
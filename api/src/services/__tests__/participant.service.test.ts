@@ -1,6 +1,7 @@
-import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
 import { ParticipantService, MAX_USERNAME_LENGTH } from '../participant.service';
 import { ParticipantRepository, ParticipantEntity } from '../../repositories/participant.repository';
+import { sseManager } from '../sse.service';
 
 /**
  * Unit tests for Participant Service
@@ -14,10 +15,11 @@ describe('ParticipantService', () => {
   const eventId = 'event-123';
 
   // Helper to create a mock ParticipantEntity
-  const createMockParticipantEntity = (id: string, name: string): ParticipantEntity => ({
+  const createMockParticipantEntity = (id: string, name: string, waitlistedAt: Date | null = null): ParticipantEntity => ({
     id,
     eventId,
     name,
+    waitlistedAt,
     createdAt: new Date('2024-01-01T00:00:00Z'),
     updatedAt: new Date('2024-01-01T00:00:00Z'),
   });
@@ -31,8 +33,18 @@ describe('ParticipantService', () => {
       create: jest.fn<(name: string, eventId: string) => Promise<ParticipantEntity>>(),
       update: jest.fn<(id: string, name: string) => Promise<ParticipantEntity>>(),
       delete: jest.fn<(id: string) => Promise<void>>(),
+      getEventCapacity: jest.fn<(eventId: string) => Promise<number | null>>(),
+      countConfirmed: jest.fn<(eventId: string) => Promise<number>>(),
+      findWaitlisted: jest.fn<(eventId: string) => Promise<ParticipantEntity[]>>(),
+      promoteNext: jest.fn<(eventId: string) => Promise<ParticipantEntity | null>>(),
     };
 
+    // Events have no participant limit unless a test sets one
+    mockRepository.getEventCapacity.mockResolvedValue(null);
+    mockRepository.countConfirmed.mockResolvedValue(0);
+    mockRepository.findWaitlisted.mockResolvedValue([]);
+    mockRepository.promoteNext.mockResolvedValue(null);
+
     // Create service with mocked repository
     participantService = new ParticipantService(mockRepository);
   });
@@ -383,6 +395,197 @@ describe('ParticipantService', () => {
     });
   });
 
+  describe('capacity and waitlist', () => {
+    let broadcastSpy: jest.SpiedFunction<typeof sseManager.broadcast>;
+
+    beforeEach(() => {
+      broadcastSpy = jest.spyOn(sseManager, 'broadcast').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      broadcastSpy.mockRestore();
+    });
+
+    it('should confirm new participants while spots are free', async () => {
+      mockRepository.findByName.mockResolvedValue(null);
+      mockRepository.create.mockResolvedValue(createMockParticipantEntity('p-2', 'Bob'));
+
+      const result = await participantService.createParticipant('Bob', eventId);
+
+      expect(result).toEqual({ id: 'p-2', name: 'Bob' });
+      expect(broadcastSpy).toHaveBeenCalledWith(eventId, expect.objectContaining({ isWaitlisted: false }));
+    });
+
+    it('should report the waitlist position of participants the repository waitlisted', async () => {
+      const waitlistedAt = new Date('2024-01-02T00:00:00Z');
+      const entity = createMockParticipantEntity('p-4', 'Dana', waitlistedAt);
+      mockRepository.findByName.mockResolvedValue(null);
+      mockRepository.create.mockResolvedValue(entity);
+      mockRepository.findWaitlisted.mockResolvedValue([
+        createMockParticipantEntity('p-3', 'Carl', new Date('2024-01-01T12:00:00Z')),
+        entity,
+      ]);
+
+      const result = await participantService.createParticipant('Dana', eventId);
+
+      expect(result).toEqual({ id: 'p-4', name: 'Dana', waitlistPosition: 2 });
+      expect(mockRepository.create).toHaveBeenCalledWith('Dana', eventId);
+      expect(broadcastSpy).toHaveBeenCalledWith(eventId, expect.objectContaining({ isWaitlisted: true }));
+    });
+
+    it('should number waitlisted participants by waitlist order in the list', async () => {
+      mockRepository.findAll.mockResolvedValue([
+        createMockParticipantEntity('p-1', 'Alice'),
+        createMockParticipantEntity('p-2', 'Bob', new Date('2024-01-03T00:00:00Z')),
+        createMockParticipantEntity('p-3', 'Carl', new Date('2024-01-02T00:00:00Z')),
+      ]);
+
+      const result = await participantService.getAllParticipants(eventId);
+
+      expect(result).toEqual([
+        { id: 'p-1', name: 'Alice' },
+        { id: 'p-2', name: 'Bob', waitlistPosition: 2 },
+        { id: 'p-3', name: 'Carl', waitlistPosition: 1 },
+      ]);
+    });
+
+    it('should report remaining spots and waitlist size', async () => {
+      mockRepository.getEventCapacity.mockResolvedValue(5);
+      mockRepository.countConfirmed.mockResolvedValue(3);
+      mockRepository.findWaitlisted.mockResolvedValue([]);
+
+      await expect(participantService.getCapacity(eventId)).resolves.toEqual({
+        capacity: 5,
+        confirmed: 3,
+        remainingSpots: 2,
+        waitlisted: 0,
+      });
+    });
+
+    it('should report unlimited events without remaining spots', async () => {
+      mockRepository.countConfirmed.mockResolvedValue(7);
+
+      await expect(participantService.getCapacity(eventId)).resolves.toEqual({
+        capacity: null,
+        confirmed: 7,
+        remainingSpots: null,
+        waitlisted: 0,
+      });
+    });
+
+    it('should promote the first waitlisted participant when a confirmed one leaves', async () => {
+      const waiting = createMockParticipantEntity('p-3', 'Carl', new Date('2024-01-02T00:00:00Z'));
+      mockRepository.findById.mockResolvedValue(createMockParticipantEntity('p-1', 'Alice'));
+      mockRepository.delete.mockResolvedValue(undefined);
+      mockRepository.promoteNext.mockResolvedValue({ ...waiting, waitlistedAt: null });
+
+      await participantService.deleteParticipant('p-1', eventId);
+
+      expect(mockRepository.promoteNext).toHaveBeenCalledWith(eventId);
+      expect(broadcastSpy).toHaveBeenCalledWith(eventId, {
+        type: 'participant:promoted',
+        participantId: 'p-3',
+        participantName: 'Carl',
+      });
+    });
+
+    it('should not promote anyone when a waitlisted participant leaves', async () => {
+      mockRepository.findById.mockResolvedValue(
+        createMockParticipantEntity('p-3', 'Carl', new Date('2024-01-02T00:00:00Z'))
+      );
+      mockRepository.delete.mockResolvedValue(undefined);
+
+      await participantService.deleteParticipant('p-3', eventId);
+
+      expect(mockRepository.promoteNext).not.toHaveBeenCalled();
+      expect(broadcastSpy).not.toHaveBeenCalledWith(eventId, expect.objectContaining({ type: 'participant:promoted' }));
+    });
+
+    it('should not announce a promotion while the event is still full', async () => {
+      mockRepository.findById.mockResolvedValue(createMockParticipantEntity('p-1', 'Alice'));
+      mockRepository.delete.mockResolvedValue(undefined);
+
+      await participantService.deleteParticipant('p-1', eventId);
+
+      expect(mockRepository.promoteNext).toHaveBeenCalledWith(eventId);
+      expect(broadcastSpy).not.toHaveBeenCalledWith(eventId, expect.objectContaining({ type: 'participant:promoted' }));
+    });
+
+    it('should fill free spots from the waitlist until nobody moves up', async () => {
+      mockRepository.promoteNext
+        .mockResolvedValueOnce(createMockParticipantEntity('p-3', 'Carl'))
+        .mockResolvedValueOnce(createMockParticipantEntity('p-4', 'Dana'))
+        .mockResolvedValueOnce(null);
+
+      const promoted = await participantService.fillFromWaitlist(eventId);
+
+      expect(promoted).toEqual([
+        { id: 'p-3', name: 'Carl' },
+        { id: 'p-4', name: 'Dana' },
+      ]);
+      expect(mockRepository.promoteNext).toHaveBeenCalledTimes(3);
+      expect(broadcastSpy).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('SSE notifications', () => {
+    let broadcastSpy: jest.SpiedFunction<typeof sseManager.broadcast>;
+
+    beforeEach(() => {
+      broadcastSpy = jest.spyOn(sseManager, 'broadcast').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      broadcastSpy.mockRestore();
+    });
+
+    it('should announce new participants', async () => {
+      mockRepository.findByName.mockResolvedValue(null);
+      mockRepository.create.mockResolvedValue(createMockParticipantEntity('p-1', 'Alice'));
+
+      await participantService.createParticipant('Alice', eventId);
+
+      expect(broadcastSpy).toHaveBeenCalledWith(eventId, {
+        type: 'participant:created',
+        participantId: 'p-1',
+        participantName: 'Alice',
+        isWaitlisted: false,
+      });
+    });
+
+    it('should announce renames', async () => {
+      mockRepository.findById.mockResolvedValue(createMockParticipantEntity('p-1', 'Alice'));
+      mockRepository.findByName.mockResolvedValue(null);
+      mockRepository.update.mockResolvedValue(createMockParticipantEntity('p-1', 'Alicia'));
+
+      await participantService.updateParticipant('p-1', 'Alicia', eventId);
+
+      expect(broadcastSpy).toHaveBeenCalledWith(eventId, {
+        type: 'participant:renamed',
+        participantId: 'p-1',
+        participantName: 'Alicia',
+      });
+    });
+
+    it('should not announce saving the same name', async () => {
+      mockRepository.findById.mockResolvedValue(createMockParticipantEntity('p-1', 'Alice'));
+      mockRepository.update.mockResolvedValue(createMockParticipantEntity('p-1', 'Alice'));
+
+      await participantService.updateParticipant('p-1', 'Alice', eventId);
+
+      expect(broadcastSpy).not.toHaveBeenCalled();
+    });
+
+    it('should announce deletions', async () => {
+      mockRepository.findById.mockResolvedValue(createMockParticipantEntity('p-1', 'Alice'));
+      mockRepository.delete.mockResolvedValue(undefined);
+
+      await participantService.deleteParticipant('p-1', eventId);
+
+      expect(broadcastSpy).toHaveBeenCalledWith(eventId, { type: 'participant:deleted', participantId: 'p-1' });
+    });
+  });
+
   /**
    * Unit tests for username length validation edge cases
    * Tests boundary conditions and whitespace handling for the 30-character limit
@@ -0,0 +1,312 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { Prisma, type PrismaClient } from '@prisma/client';
+import { PlaySessionService, parseCreatePlaySessionInput } from '../playSession.service';
+import { sseManager } from '../sse.service';
+
+type Mock = jest.Mock<(...args: never[]) => Promise<unknown>>;
+const mockFn = (value: unknown): Mock => jest.fn<(...args: never[]) => Promise<unknown>>(async () => value);
+
+const inOneHour = () => new Date(Date.now() + 60 * 60 * 1000);
+
+const seat = (userId: string, name: string) => ({
+  id: `seat-${userId}`,
+  sessionId: 'session-1',
+  userId,
+  joinedAt: new Date('2026-10-19T18:00:00Z'),
+  user: { id: userId, name },
+});
+
+const row = (overrides: Record<string, unknown> = {}) => ({
+  id: 'session-1',
+  eventId: 'event-1',
+  gameId: 'game-1',
+  createdById: 'user-1',
+  startsAt: new Date('2026-10-20T18:00:00Z'),
+  tableLabel: 'Tisch 3',
+  seatLimit: 4,
+  createdAt: new Date('2026-10-19T18:00:00Z'),
+  updatedAt: new Date('2026-10-19T18:00:00Z'),
+  game: { id: 'game-1', name: 'Catan', bggId: 13 },
+  createdBy: { id: 'user-1', name: 'Anna' },
+  seats: [seat('user-1', 'Anna')],
+  ...overrides,
+});
+
+/**
+ * Unit tests for PlaySessionService
+ * Prisma is stubbed per test.
+ */
+describe('PlaySessionService', () => {
+  let prismaStub: {
+    $transaction: jest.Mock<(fn: (tx: unknown) => Promise<unknown>) => Promise<unknown>>;
+    $queryRaw: Mock;
+    user: { findFirst: Mock };
+    game: { findFirst: Mock };
+    playSession: { findMany: Mock; findFirst: Mock; create: Mock; deleteMany: Mock };
+    playSessionSeat: { findMany: Mock; create: Mock; deleteMany: Mock };
+  };
+  let broadcastSpy: jest.SpiedFunction<typeof sseManager.broadcast>;
+  let service: PlaySessionService;
+
+  beforeEach(() => {
+    prismaStub = {
+      user: { findFirst: mockFn({ id: 'user-1' }) },
+      game: { findFirst: mockFn({ id: 'game-1', name: 'Catan', maxPlayers: 4 }) },
+      playSession: {
+        findMany: mockFn([]),
+        findFirst: mockFn(row()),
+        create: mockFn(row()),
+        deleteMany: mockFn({ count: 0 }),
+      },
+      playSessionSeat: { findMany: mockFn([{ userId: 'user-1' }]), create: mockFn({}), deleteMany: mockFn({ count: 1 }) },
+      $transaction: jest.fn<(fn: (tx: unknown) => Promise<unknown>) => Promise<unknown>>(async (fn) => fn(prismaStub)),
+      $queryRaw: mockFn([]),
+    };
+    broadcastSpy = jest.spyOn(sseManager, 'broadcast').mockImplementation(() => undefined);
+    service = new PlaySessionService(prismaStub as unknown as PrismaClient);
+  });
+
+  afterEach(() => {
+    broadcastSpy.mockRestore();
+  });
+
+  describe('parseCreatePlaySessionInput', () => {
+    it('reads the game, start time, table and seat limit', () => {
+      expect(
+        parseCreatePlaySessionInput({ gameId: 'game-1', startsAt: '2026-10-20T18:00:00.000Z', tableLabel: '  ', seatLimit: 3 })
+      ).toEqual({ gameId: 'game-1', startsAt: new Date('2026-10-20T18:00:00.000Z'), tableLabel: null, seatLimit: 3 });
+    });
+
+    it('rejects missing games, invalid times and seat limits out of range', () => {
+      expect(() => parseCreatePlaySessionInput({ startsAt: '2026-10-20T18:00:00.000Z' })).toThrow(
+        'Bitte ein Spiel auswählen.'
+      );
+      expect(() => parseCreatePlaySessionInput({ gameId: 'game-1', startsAt: 'gleich' })).toThrow(
+        expect.objectContaining({ code: 'VALIDATION_ERROR' })
+      );
+      expect(() =>
+        parseCreatePlaySessionInput({ gameId: 'game-1', startsAt: '2026-10-20T18:00:00.000Z', seatLimit: 0 })
+      ).toThrow('Die Anzahl der Plätze muss zwischen 1 und 20 liegen.');
+      expect(() =>
+        parseCreatePlaySessionInput({ gameId: 'game-1', startsAt: '2026-10-20T18:00:00.000Z', tableLabel: 'x'.repeat(51) })
+      ).toThrow('Der Tisch darf höchstens 50 Zeichen lang sein.');
+    });
+  });
+
+  it('lists upcoming sessions with their open seats', async () => {
+    prismaStub.playSession.findMany.mockResolvedValue([row({ seats: [seat('user-1', 'Anna'), seat('user-2', 'Ben')] })]);
+    const now = new Date('2026-10-19T19:00:00Z');
+
+    const sessions = await service.listUpcoming('event-1', now);
+
+    expect(prismaStub.playSession.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { eventId: 'event-1', startsAt: { gte: now }, game: { deletedAt: null } } })
+    );
+    expect(sessions).toEqual([
+      {
+        id: 'session-1',
+        game: { id: 'game-1', name: 'Catan', bggId: 13 },
+        startsAt: new Date('2026-10-20T18:00:00Z'),
+        tableLabel: 'Tisch 3',
+        seatLimit: 4,
+        openSeats: 2,
+        createdBy: { id: 'user-1', name: 'Anna' },
+        participants: [
+          { id: 'user-1', name: 'Anna' },
+          { id: 'user-2', name: 'Ben' },
+        ],
+        createdAt: new Date('2026-10-19T18:00:00Z'),
+      },
+    ]);
+  });
+
+  describe('createSession', () => {
+    it('takes the seat limit from the max player count and seats the creator', async () => {
+      const startsAt = inOneHour();
+
+      const session = await service.createSession('event-1', 'user-1', {
+        gameId: 'game-1',
+        startsAt,
+        tableLabel: 'Tisch 3',
+        seatLimit: null,
+      });
+
+      expect(prismaStub.playSession.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            eventId: 'event-1',
+            gameId: 'game-1',
+            createdById: 'user-1',
+            startsAt,
+            tableLabel: 'Tisch 3',
+            seatLimit: 4,
+            seats: { create: { userId: 'user-1' } },
+          },
+        })
+      );
+      expect(broadcastSpy).toHaveBeenCalledWith('event-1', { type: 'play-session:created', session });
+    });
+
+    it('has no seat limit for games without max player count', async () => {
+      prismaStub.game.findFirst.mockResolvedValue({ id: 'game-1', name: 'Eigenbau', maxPlayers: null });
+
+      await service.createSession('event-1', 'user-1', { gameId: 'game-1', startsAt: inOneHour(), tableLabel: null, seatLimit: null });
+
+      expect(prismaStub.playSession.create).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ seatLimit: null }) })
+      );
+    });
+
+    it('rejects seat limits above the max player count and start times in the past', async () => {
+      await expect(
+        service.createSession('event-1', 'user-1', { gameId: 'game-1', startsAt: inOneHour(), tableLabel: null, seatLimit: 5 })
+      ).rejects.toThrow('Catan ist für höchstens 4 Spieler.');
+      await expect(
+        service.createSession('event-1', 'user-1', {
+          gameId: 'game-1',
+          startsAt: new Date('2020-01-01T00:00:00Z'),
+          tableLabel: null,
+          seatLimit: null,
+        })
+      ).rejects.toThrow(expect.objectContaining({ code: 'VALIDATION_ERROR' }));
+      expect(prismaStub.playSession.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects games outside the event or in the trash', async () => {
+      prismaStub.game.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.createSession('event-1', 'user-1', { gameId: 'game-9', startsAt: inOneHour(), tableLabel: null, seatLimit: null })
+      ).rejects.toThrow(expect.objectContaining({ code: 'GAME_NOT_FOUND' }));
+      expect(prismaStub.game.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'game-9', eventId: 'event-1', deletedAt: null } })
+      );
+    });
+  });
+
+  describe('joinSession', () => {
+    it('seats the participant and announces the change', async () => {
+      prismaStub.playSession.findFirst
+        .mockResolvedValueOnce(row())
+        .mockResolvedValueOnce(row({ seats: [seat('user-1', 'Anna'), seat('user-2', 'Ben')] }));
+
+      const session = await service.joinSession('event-1', 'user-2', 'session-1');
+
+      expect(prismaStub.playSessionSeat.create).toHaveBeenCalledWith({ data: { sessionId: 'session-1', userId: 'user-2' } });
+      expect(session.openSeats).toBe(2);
+      expect(broadcastSpy).toHaveBeenCalledWith('event-1', { type: 'play-session:updated', session });
+    });
+
+    it('keeps a participant who already joined', async () => {
+      const session = await service.joinSession('event-1', 'user-1', 'session-1');
+
+      expect(session.participants).toEqual([{ id: 'user-1', name: 'Anna' }]);
+      expect(prismaStub.playSessionSeat.create).not.toHaveBeenCalled();
+      expect(broadcastSpy).not.toHaveBeenCalled();
+    });
+
+    it('counts the seats inside a transaction that locks the session', async () => {
+      prismaStub.playSession.findFirst
+        .mockResolvedValueOnce(row())
+        .mockResolvedValueOnce(row({ seats: [seat('user-1', 'Anna'), seat('user-2', 'Ben')] }));
+
+      await service.joinSession('event-1', 'user-2', 'session-1');
+
+      expect(prismaStub.$transaction).toHaveBeenCalledTimes(1);
+      expect(prismaStub.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(
+        prismaStub.playSessionSeat.findMany.mock.invocationCallOrder[0]
+      );
+      expect(prismaStub.playSessionSeat.findMany).toHaveBeenCalledWith({ where: { sessionId: 'session-1' }, select: { userId: true } });
+    });
+
+    it('rejects full sessions', async () => {
+      prismaStub.playSession.findFirst.mockResolvedValue(row({ seatLimit: 1 }));
+
+      await expect(service.joinSession('event-1', 'user-2', 'session-1')).rejects.toThrow('Diese Runde ist bereits voll.');
+      expect(prismaStub.playSessionSeat.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects joins once parallel joins took the last seat', async () => {
+      // Loaded with a free seat, but taken by the time the lock is held
+      prismaStub.playSession.findFirst.mockResolvedValue(row({ seatLimit: 2 }));
+      prismaStub.playSessionSeat.findMany.mockResolvedValue([{ userId: 'user-1' }, { userId: 'user-3' }]);
+
+      await expect(service.joinSession('event-1', 'user-2', 'session-1')).rejects.toThrow(
+        expect.objectContaining({ code: 'SESSION_FULL' })
+      );
+      expect(prismaStub.playSessionSeat.create).not.toHaveBeenCalled();
+      expect(broadcastSpy).not.toHaveBeenCalled();
+    });
+
+    it('keeps a seat a parallel request of the same participant took', async () => {
+      prismaStub.playSessionSeat.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' })
+      );
+
+      const session = await service.joinSession('event-1', 'user-2', 'session-1');
+
+      expect(session.id).toBe('session-1');
+      expect(broadcastSpy).not.toHaveBeenCalled();
+    });
+
+    it('passes on other database errors', async () => {
+      prismaStub.playSessionSeat.create.mockRejectedValue(new Error('Unique constraint but not from Prisma'));
+
+      await expect(service.joinSession('event-1', 'user-2', 'session-1')).rejects.toThrow('Unique constraint but not from Prisma');
+    });
+
+    it('rejects unknown sessions and participants', async () => {
+      prismaStub.playSession.findFirst.mockResolvedValue(null);
+      await expect(service.joinSession('event-1', 'user-2', 'session-9')).rejects.toThrow(
+        expect.objectContaining({ code: 'SESSION_NOT_FOUND' })
+      );
+
+      prismaStub.user.findFirst.mockResolvedValue(null);
+      await expect(service.joinSession('event-1', 'user-9', 'session-1')).rejects.toThrow(
+        expect.objectContaining({ code: 'PARTICIPANT_NOT_FOUND' })
+      );
+    });
+
+    it('rejects waitlisted participants', async () => {
+      prismaStub.user.findFirst.mockResolvedValue({ id: 'user-2', waitlistedAt: new Date('2026-10-19T12:00:00.000Z') });
+
+      await expect(service.joinSession('event-1', 'user-2', 'session-1')).rejects.toThrow(
+        expect.objectContaining({ code: 'PARTICIPANT_WAITLISTED' })
+      );
+      await expect(
+        service.createSession('event-1', 'user-2', { gameId: 'game-1', startsAt: inOneHour(), tableLabel: null, seatLimit: null })
+      ).rejects.toThrow(expect.objectContaining({ code: 'PARTICIPANT_WAITLISTED' }));
+      expect(prismaStub.playSessionSeat.create).not.toHaveBeenCalled();
+      expect(prismaStub.playSession.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('leaveSession', () => {
+    it('frees the seat of the participant', async () => {
+      prismaStub.playSession.findFirst
+        .mockResolvedValueOnce(row({ seats: [seat('user-1', 'Anna'), seat('user-2', 'Ben')] }))
+        .mockResolvedValueOnce(row());
+
+      const session = await service.leaveSession('event-1', 'user-2', 'session-1');
+
+      expect(prismaStub.playSessionSeat.deleteMany).toHaveBeenCalledWith({ where: { sessionId: 'session-1', userId: 'user-2' } });
+      expect(session?.openSeats).toBe(3);
+      expect(broadcastSpy).toHaveBeenCalledWith('event-1', { type: 'play-session:updated', session });
+    });
+
+    it('removes the session once the last participant left', async () => {
+      prismaStub.playSession.deleteMany.mockResolvedValue({ count: 1 });
+
+      await expect(service.leaveSession('event-1', 'user-1', 'session-1')).resolves.toBeNull();
+      expect(prismaStub.playSession.deleteMany).toHaveBeenCalledWith({ where: { id: 'session-1', seats: { none: {} } } });
+      expect(broadcastSpy).toHaveBeenCalledWith('event-1', { type: 'play-session:deleted', sessionId: 'session-1' });
+    });
+
+    it('rejects participants without a seat', async () => {
+      await expect(service.leaveSession('event-1', 'user-2', 'session-1')).rejects.toThrow(
+        'Du bist in dieser Runde nicht eingetragen.'
+      );
+      expect(prismaStub.playSessionSeat.deleteMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -36,6 +36,12 @@ const createMockResponse = () => {
   };
 };
 
+// Extract the JSON payload from an SSE message (`id: ...\ndata: ...\n\n`)
+const parseEventData = (message: string) => {
+  const dataLine = message.split('\n').find((line) => line.startsWith('data: ')) ?? '';
+  return JSON.parse(dataLine.slice('data: '.length));
+};
+
 describe('SSE Broadcast Property Tests', () => {
   let gameService: GameService;
   let participantService: ParticipantService;
@@ -59,6 +65,7 @@ describe('SSE Broadcast Property Tests', () => {
     const event = await prisma.event.create({
       data: {
         name: `SSE Broadcast Test ${Date.now()}`,
+        slug: `sse-broadcast-test-${Date.now()}`,
         passwordHash: 'test-hash',
         ownerAccountId: account.id,
       },
@@ -116,7 +123,7 @@ describe('SSE Broadcast Property Tests', () => {
           fc.boolean(),
           async (gameName, participantName, isBringing, isPlaying) => {
             const mockResponse = createMockResponse();
-            sseManager.addClient('test-client', mockResponse as any);
+            sseManager.addClient('test-client', eventId, mockResponse as any);
 
             const participant = await createTestParticipant(participantName);
             const uniqueGameName = `${gameName}_${Date.now()}_${Math.random().toString(36).substring(7)}`;
@@ -127,7 +134,7 @@ describe('SSE Broadcast Property Tests', () => {
             expect(mockResponse.events.length).toBeGreaterThan(0);
 
             const lastEvent = mockResponse.events[mockResponse.events.length - 1];
-            const eventData = JSON.parse(lastEvent.replace('data: ', '').trim());
+            const eventData = parseEventData(lastEvent);
             expect(eventData.type).toBe('game:created');
             expect(eventData.gameId).toBe(game.id);
             expect(eventData.participantId).toBe(participant.id);
@@ -148,7 +155,7 @@ describe('SSE Broadcast Property Tests', () => {
           participantNameArbitrary,
           async (gameName, creatorName, bringerName) => {
             const mockResponse = createMockResponse();
-            sseManager.addClient('test-client', mockResponse as any);
+            sseManager.addClient('test-client', eventId, mockResponse as any);
 
             const creator = await createTestParticipant(creatorName);
             const bringer = await createTestParticipant(bringerName);
@@ -164,7 +171,7 @@ describe('SSE Broadcast Property Tests', () => {
             expect(mockResponse.events.length).toBeGreaterThan(0);
 
             const lastEvent = mockResponse.events[mockResponse.events.length - 1];
-            const eventData = JSON.parse(lastEvent.replace('data: ', '').trim());
+            const eventData = parseEventData(lastEvent);
             expect(eventData.type).toBe('game:bringer-added');
             expect(eventData.gameId).toBe(game.id);
             expect(eventData.participantId).toBe(bringer.id);
@@ -183,7 +190,7 @@ describe('SSE Broadcast Property Tests', () => {
           participantNameArbitrary,
           async (gameName, participantName) => {
             const mockResponse = createMockResponse();
-            sseManager.addClient('test-client', mockResponse as any);
+            sseManager.addClient('test-client', eventId, mockResponse as any);
 
             const participant = await createTestParticipant(participantName);
             const uniqueGameName = `${gameName}_${Date.now()}_${Math.random().toString(36).substring(7)}`;
@@ -198,7 +205,7 @@ describe('SSE Broadcast Property Tests', () => {
             expect(mockResponse.events.length).toBeGreaterThan(0);
 
             const lastEvent = mockResponse.events[mockResponse.events.length - 1];
-            const eventData = JSON.parse(lastEvent.replace('data: ', '').trim());
+            const eventData = parseEventData(lastEvent);
             expect(eventData.type).toBe('game:bringer-removed');
             expect(eventData.gameId).toBe(game.id);
             expect(eventData.participantId).toBe(participant.id);
@@ -218,7 +225,7 @@ describe('SSE Broadcast Property Tests', () => {
           participantNameArbitrary,
           async (gameName, creatorName, playerName) => {
             const mockResponse = createMockResponse();
-            sseManager.addClient('test-client', mockResponse as any);
+            sseManager.addClient('test-client', eventId, mockResponse as any);
 
             const creator = await createTestParticipant(creatorName);
             const player = await createTestParticipant(playerName);
@@ -234,7 +241,7 @@ describe('SSE Broadcast Property Tests', () => {
             expect(mockResponse.events.length).toBeGreaterThan(0);
 
             const lastEvent = mockResponse.events[mockResponse.events.length - 1];
-            const eventData = JSON.parse(lastEvent.replace('data: ', '').trim());
+            const eventData = parseEventData(lastEvent);
             expect(eventData.type).toBe('game:player-added');
             expect(eventData.gameId).toBe(game.id);
             expect(eventData.participantId).toBe(player.id);
@@ -253,7 +260,7 @@ describe('SSE Broadcast Property Tests', () => {
           participantNameArbitrary,
           async (gameName, participantName) => {
             const mockResponse = createMockResponse();
-            sseManager.addClient('test-client', mockResponse as any);
+            sseManager.addClient('test-client', eventId, mockResponse as any);
 
             const participant = await createTestParticipant(participantName);
             const uniqueGameName = `${gameName}_${Date.now()}_${Math.random().toString(36).substring(7)}`;
@@ -268,7 +275,7 @@ describe('SSE Broadcast Property Tests', () => {
             expect(mockResponse.events.length).toBeGreaterThan(0);
 
             const lastEvent = mockResponse.events[mockResponse.events.length - 1];
-            const eventData = JSON.parse(lastEvent.replace('data: ', '').trim());
+            const eventData = parseEventData(lastEvent);
             expect(eventData.type).toBe('game:player-removed');
             expect(eventData.gameId).toBe(game.id);
             expect(eventData.participantId).toBe(participant.id);
@@ -287,7 +294,7 @@ describe('SSE Broadcast Property Tests', () => {
           participantNameArbitrary,
           async (gameName, participantName) => {
             const mockResponse = createMockResponse();
-            sseManager.addClient('test-client', mockResponse as any);
+            sseManager.addClient('test-client', eventId, mockResponse as any);
 
             const participant = await createTestParticipant(participantName);
             const uniqueGameName = `${gameName}_${Date.now()}_${Math.random().toString(36).substring(7)}`;
@@ -302,7 +309,7 @@ describe('SSE Broadcast Property Tests', () => {
             expect(mockResponse.events.length).toBeGreaterThan(0);
 
             const lastEvent = mockResponse.events[mockResponse.events.length - 1];
-            const eventData = JSON.parse(lastEvent.replace('data: ', '').trim());
+            const eventData = parseEventData(lastEvent);
             expect(eventData.type).toBe('game:deleted');
             expect(eventData.gameId).toBe(game.id);
             expect(eventData.participantId).toBe(participant.id);
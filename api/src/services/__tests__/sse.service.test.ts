@@ -1,5 +1,12 @@
-import { SSEManager } from '../sse.service';
-import { GameEvent } from '../../types';
+import {
+  SSEManager,
+  DEFAULT_REPLAY_BUFFER_SIZE,
+  PRESENCE_HEARTBEAT_INTERVAL,
+  PRESENCE_LEAVE_DELAY,
+  PRESENCE_TTL,
+} from '../sse.service';
+import type { SSEMessageHandler, SSETransport } from '../sse-transport';
+import { GameEvent, SSEEvent } from '../../types';
 
 // Mock Response object
 const createMockResponse = () => {
@@ -13,6 +20,32 @@ const createMockResponse = () => {
   };
 };
 
+// Ids of the SSE messages a mock response received
+const getMessageIds = (writtenData: string[]) =>
+  writtenData.map((message) => Number(/^id: (\d+)\n/.exec(message)?.[1]));
+
+// Transport that records publishes and lets tests inject messages of other instances
+class FakeTransport implements SSETransport {
+  handler: SSEMessageHandler | null = null;
+  published: Array<{ eventId: string; event: SSEEvent }> = [];
+  stopped = false;
+
+  async start(handler: SSEMessageHandler): Promise<void> {
+    this.handler = handler;
+  }
+
+  publish(eventId: string, event: SSEEvent): void {
+    this.published.push({ eventId, event });
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+  }
+}
+
+const EVENT_ID = 'event-1';
+const OTHER_EVENT_ID = 'event-2';
+
 describe('SSEManager', () => {
   let sseManager: SSEManager;
 
@@ -23,7 +56,7 @@ describe('SSEManager', () => {
   describe('addClient', () => {
     it('should add a client to the manager', () => {
       const mockResponse = createMockResponse();
-      sseManager.addClient('client-1', mockResponse as any);
+      sseManager.addClient('client-1', EVENT_ID, mockResponse as any);
 
       expect(sseManager.getClientCount()).toBe(1);
       expect(sseManager.hasClient('client-1')).toBe(true);
@@ -33,8 +66,8 @@ describe('SSEManager', () => {
       const mockResponse1 = createMockResponse();
       const mockResponse2 = createMockResponse();
 
-      sseManager.addClient('client-1', mockResponse1 as any);
-      sseManager.addClient('client-2', mockResponse2 as any);
+      sseManager.addClient('client-1', EVENT_ID, mockResponse1 as any);
+      sseManager.addClient('client-2', EVENT_ID, mockResponse2 as any);
 
       expect(sseManager.getClientCount()).toBe(2);
       expect(sseManager.hasClient('client-1')).toBe(true);
@@ -45,8 +78,8 @@ describe('SSEManager', () => {
       const mockResponse1 = createMockResponse();
       const mockResponse2 = createMockResponse();
 
-      sseManager.addClient('client-1', mockResponse1 as any);
-      sseManager.addClient('client-1', mockResponse2 as any);
+      sseManager.addClient('client-1', EVENT_ID, mockResponse1 as any);
+      sseManager.addClient('client-1', EVENT_ID, mockResponse2 as any);
 
       expect(sseManager.getClientCount()).toBe(1);
     });
@@ -55,7 +88,7 @@ describe('SSEManager', () => {
   describe('removeClient', () => {
     it('should remove a client from the manager', () => {
       const mockResponse = createMockResponse();
-      sseManager.addClient('client-1', mockResponse as any);
+      sseManager.addClient('client-1', EVENT_ID, mockResponse as any);
       sseManager.removeClient('client-1');
 
       expect(sseManager.getClientCount()).toBe(0);
@@ -72,8 +105,8 @@ describe('SSEManager', () => {
       const mockResponse1 = createMockResponse();
       const mockResponse2 = createMockResponse();
 
-      sseManager.addClient('client-1', mockResponse1 as any);
-      sseManager.addClient('client-2', mockResponse2 as any);
+      sseManager.addClient('client-1', EVENT_ID, mockResponse1 as any);
+      sseManager.addClient('client-2', EVENT_ID, mockResponse2 as any);
 
       const event: GameEvent = {
         type: 'game:created',
@@ -84,12 +117,12 @@ describe('SSEManager', () => {
         isBringing: true,
       };
 
-      sseManager.broadcast(event);
+      sseManager.broadcast(EVENT_ID, event);
 
       expect(mockResponse1.write).toHaveBeenCalledTimes(1);
       expect(mockResponse2.write).toHaveBeenCalledTimes(1);
 
-      const expectedData = `data: ${JSON.stringify(event)}\n\n`;
+      const expectedData = expect.stringContaining(`data: ${JSON.stringify(event)}\n\n`);
       expect(mockResponse1.write).toHaveBeenCalledWith(expectedData);
       expect(mockResponse2.write).toHaveBeenCalledWith(expectedData);
     });
@@ -102,8 +135,8 @@ describe('SSEManager', () => {
         }),
       };
 
-      sseManager.addClient('client-1', mockResponse1 as any);
-      sseManager.addClient('client-2', mockResponse2 as any);
+      sseManager.addClient('client-1', EVENT_ID, mockResponse1 as any);
+      sseManager.addClient('client-2', EVENT_ID, mockResponse2 as any);
 
       const event: GameEvent = {
         type: 'game:deleted',
@@ -112,7 +145,7 @@ describe('SSEManager', () => {
       };
 
       // Should not throw
-      expect(() => sseManager.broadcast(event)).not.toThrow();
+      expect(() => sseManager.broadcast(EVENT_ID, event)).not.toThrow();
 
       // Disconnected client should be removed
       expect(sseManager.getClientCount()).toBe(1);
@@ -122,7 +155,7 @@ describe('SSEManager', () => {
 
     it('should broadcast different event types correctly', () => {
       const mockResponse = createMockResponse();
-      sseManager.addClient('client-1', mockResponse as any);
+      sseManager.addClient('client-1', EVENT_ID, mockResponse as any);
 
       const events: GameEvent[] = [
         {
@@ -147,7 +180,7 @@ describe('SSEManager', () => {
         { type: 'game:prototype-toggled', gameId: 'g7', participantId: 'u7', isPrototype: true },
       ];
 
-      events.forEach((event) => sseManager.broadcast(event));
+      events.forEach((event) => sseManager.broadcast(EVENT_ID, event));
 
       expect(mockResponse.write).toHaveBeenCalledTimes(7);
     });
@@ -158,7 +191,7 @@ describe('SSEManager', () => {
      */
     it('should broadcast prototype-toggled event with correct payload', () => {
       const mockResponse = createMockResponse();
-      sseManager.addClient('client-1', mockResponse as any);
+      sseManager.addClient('client-1', EVENT_ID, mockResponse as any);
 
       const event: GameEvent = {
         type: 'game:prototype-toggled',
@@ -167,23 +200,428 @@ describe('SSEManager', () => {
         isPrototype: true,
       };
 
-      sseManager.broadcast(event);
+      sseManager.broadcast(EVENT_ID, event);
 
       expect(mockResponse.write).toHaveBeenCalledTimes(1);
-      const expectedData = `data: ${JSON.stringify(event)}\n\n`;
+      const expectedData = expect.stringContaining(`data: ${JSON.stringify(event)}\n\n`);
       expect(mockResponse.write).toHaveBeenCalledWith(expectedData);
     });
   });
 
+  describe('event channels', () => {
+    const event: GameEvent = {
+      type: 'game:created',
+      gameId: 'game-123',
+      participantId: 'user-456',
+      participantName: 'Test User',
+      gameName: 'Test Game',
+      isBringing: false,
+    };
+
+    it('should only deliver events to clients of the same event', () => {
+      const ownResponse = createMockResponse();
+      const otherResponse = createMockResponse();
+
+      sseManager.addClient('client-1', EVENT_ID, ownResponse as any);
+      sseManager.addClient('client-2', OTHER_EVENT_ID, otherResponse as any);
+
+      sseManager.broadcast(EVENT_ID, event);
+
+      expect(ownResponse.write).toHaveBeenCalledTimes(1);
+      expect(otherResponse.write).not.toHaveBeenCalled();
+    });
+
+    it('should not deliver anything when the event has no clients', () => {
+      const otherResponse = createMockResponse();
+      sseManager.addClient('client-1', OTHER_EVENT_ID, otherResponse as any);
+
+      sseManager.broadcast(EVENT_ID, event);
+
+      expect(otherResponse.write).not.toHaveBeenCalled();
+    });
+
+    it('should move a re-added client to its new event', () => {
+      const mockResponse = createMockResponse();
+      sseManager.addClient('client-1', EVENT_ID, mockResponse as any);
+      sseManager.addClient('client-1', OTHER_EVENT_ID, mockResponse as any);
+
+      sseManager.broadcast(EVENT_ID, event);
+      expect(mockResponse.write).not.toHaveBeenCalled();
+
+      sseManager.broadcast(OTHER_EVENT_ID, event);
+      expect(mockResponse.write).toHaveBeenCalledTimes(1);
+      expect(sseManager.getClientCount(EVENT_ID)).toBe(0);
+      expect(sseManager.getClientCount(OTHER_EVENT_ID)).toBe(1);
+    });
+
+    it('should keep other events intact when a disconnected client is removed', () => {
+      const brokenResponse = {
+        write: jest.fn(() => {
+          throw new Error('Client disconnected');
+        }),
+      };
+      const otherResponse = createMockResponse();
+
+      sseManager.addClient('client-1', EVENT_ID, brokenResponse as any);
+      sseManager.addClient('client-2', OTHER_EVENT_ID, otherResponse as any);
+
+      sseManager.broadcast(EVENT_ID, event);
+      sseManager.broadcast(OTHER_EVENT_ID, event);
+
+      expect(sseManager.hasClient('client-1')).toBe(false);
+      expect(otherResponse.write).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('replay', () => {
+    const createEvent = (gameId: string): GameEvent => ({ type: 'game:deleted', gameId, participantId: 'user-1' });
+
+    it('should give broadcasts increasing ids', () => {
+      const mockResponse = createMockResponse();
+      sseManager.addClient('client-1', EVENT_ID, mockResponse as any);
+
+      sseManager.broadcast(EVENT_ID, createEvent('g1'));
+      sseManager.broadcast(OTHER_EVENT_ID, createEvent('g2'));
+      sseManager.broadcast(EVENT_ID, createEvent('g3'));
+
+      const [firstId, secondId] = getMessageIds(mockResponse.writtenData);
+      expect(Number.isInteger(firstId)).toBe(true);
+      expect(secondId).toBeGreaterThan(firstId);
+    });
+
+    it('should replay the events a reconnecting client missed', () => {
+      const firstResponse = createMockResponse();
+      sseManager.addClient('client-1', EVENT_ID, firstResponse as any);
+      sseManager.broadcast(EVENT_ID, createEvent('g1'));
+      const [lastSeenId] = getMessageIds(firstResponse.writtenData);
+      sseManager.removeClient('client-1');
+
+      sseManager.broadcast(EVENT_ID, createEvent('g2'));
+      sseManager.broadcast(OTHER_EVENT_ID, createEvent('other'));
+      sseManager.broadcast(EVENT_ID, createEvent('g3'));
+
+      const reconnectedResponse = createMockResponse();
+      sseManager.addClient('client-2', EVENT_ID, reconnectedResponse as any);
+      sseManager.replay('client-2', lastSeenId);
+
+      expect(reconnectedResponse.writtenData).toHaveLength(2);
+      expect(reconnectedResponse.writtenData[0]).toContain('"gameId":"g2"');
+      expect(reconnectedResponse.writtenData[1]).toContain('"gameId":"g3"');
+    });
+
+    it('should send nothing when the client is up to date', () => {
+      const mockResponse = createMockResponse();
+      sseManager.addClient('client-1', EVENT_ID, mockResponse as any);
+      sseManager.broadcast(EVENT_ID, createEvent('g1'));
+      const [lastSeenId] = getMessageIds(mockResponse.writtenData);
+
+      const reconnectedResponse = createMockResponse();
+      sseManager.addClient('client-2', EVENT_ID, reconnectedResponse as any);
+      sseManager.replay('client-2', lastSeenId);
+
+      expect(reconnectedResponse.write).not.toHaveBeenCalled();
+    });
+
+    it('should require a resync when missed events fell out of the buffer', () => {
+      const smallManager = new SSEManager(2);
+      const mockResponse = createMockResponse();
+      smallManager.addClient('client-1', EVENT_ID, mockResponse as any);
+      smallManager.broadcast(EVENT_ID, createEvent('g1'));
+      const [lastSeenId] = getMessageIds(mockResponse.writtenData);
+      smallManager.removeClient('client-1');
+
+      smallManager.broadcast(EVENT_ID, createEvent('g2'));
+      smallManager.broadcast(EVENT_ID, createEvent('g3'));
+      smallManager.broadcast(EVENT_ID, createEvent('g4'));
+
+      const reconnectedResponse = createMockResponse();
+      smallManager.addClient('client-2', EVENT_ID, reconnectedResponse as any);
+      smallManager.replay('client-2', lastSeenId);
+
+      expect(reconnectedResponse.writtenData).toHaveLength(1);
+      expect(reconnectedResponse.writtenData[0]).toContain('"type":"resync-required"');
+      // The resync moves the client past the skipped events
+      const [resyncId] = getMessageIds(reconnectedResponse.writtenData);
+      expect(resyncId).toBeGreaterThan(lastSeenId);
+    });
+
+    it('should require a resync for ids it never handed out', () => {
+      const mockResponse = createMockResponse();
+      sseManager.addClient('client-1', EVENT_ID, mockResponse as any);
+
+      sseManager.replay('client-1', 1);
+
+      expect(mockResponse.writtenData).toHaveLength(1);
+      expect(mockResponse.writtenData[0]).toContain('"type":"resync-required"');
+    });
+
+    it('should never replay events of another event', () => {
+      const mockResponse = createMockResponse();
+      sseManager.addClient('client-1', EVENT_ID, mockResponse as any);
+      sseManager.broadcast(EVENT_ID, createEvent('g1'));
+      const [lastSeenId] = getMessageIds(mockResponse.writtenData);
+
+      sseManager.broadcast(OTHER_EVENT_ID, createEvent('other'));
+      sseManager.replay('client-1', lastSeenId);
+
+      expect(mockResponse.writtenData).toHaveLength(1);
+    });
+  });
+
+  describe('transport', () => {
+    const event: GameEvent = { type: 'game:deleted', gameId: 'game-1', participantId: 'user-1' };
+
+    it('should publish broadcasts through the transport instead of writing directly', () => {
+      const transport = new FakeTransport();
+      const manager = new SSEManager(DEFAULT_REPLAY_BUFFER_SIZE, transport);
+      const mockResponse = createMockResponse();
+      manager.addClient('client-1', EVENT_ID, mockResponse as any);
+
+      manager.broadcast(EVENT_ID, event);
+
+      expect(transport.published).toEqual([{ eventId: EVENT_ID, event }]);
+      expect(mockResponse.write).not.toHaveBeenCalled();
+    });
+
+    it('should deliver and buffer messages published by other instances', () => {
+      const transport = new FakeTransport();
+      const manager = new SSEManager(DEFAULT_REPLAY_BUFFER_SIZE, transport);
+      const mockResponse = createMockResponse();
+      manager.addClient('client-1', EVENT_ID, mockResponse as any);
+
+      transport.handler?.({ id: 41, eventId: EVENT_ID, event });
+      transport.handler?.({ id: 42, eventId: OTHER_EVENT_ID, event });
+      transport.handler?.({ id: 43, eventId: EVENT_ID, event: { ...event, gameId: 'game-2' } });
+
+      expect(mockResponse.writtenData).toEqual([
+        `id: 41\ndata: ${JSON.stringify(event)}\n\n`,
+        `id: 43\ndata: ${JSON.stringify({ ...event, gameId: 'game-2' })}\n\n`,
+      ]);
+
+      const reconnectedResponse = createMockResponse();
+      manager.addClient('client-2', EVENT_ID, reconnectedResponse as any);
+      manager.replay('client-2', 41);
+
+      expect(reconnectedResponse.writtenData).toHaveLength(1);
+      expect(reconnectedResponse.writtenData[0]).toContain('id: 43');
+    });
+
+    it('should stop the old transport and start over when switching', async () => {
+      const oldTransport = new FakeTransport();
+      const manager = new SSEManager(DEFAULT_REPLAY_BUFFER_SIZE, oldTransport);
+      oldTransport.handler?.({ id: 7, eventId: EVENT_ID, event });
+
+      const newTransport = new FakeTransport();
+      await manager.setTransport(newTransport);
+      manager.broadcast(EVENT_ID, event);
+
+      expect(oldTransport.stopped).toBe(true);
+      expect(oldTransport.published).toHaveLength(0);
+      expect(newTransport.published).toHaveLength(1);
+
+      // Ids of the old transport mean nothing to the new one
+      const mockResponse = createMockResponse();
+      manager.addClient('client-1', EVENT_ID, mockResponse as any);
+      manager.replay('client-1', 7);
+      expect(mockResponse.writtenData[0]).toContain('"type":"resync-required"');
+    });
+  });
+
+  describe('presence', () => {
+    const presenceMessages = (writtenData: string[]) =>
+      writtenData.filter((message) => message.includes('"type":"presence:'));
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      sseManager.clearClients();
+      jest.useRealTimers();
+    });
+
+    it('should announce a participant on their first connection', () => {
+      const watcher = createMockResponse();
+      sseManager.addClient('watcher', EVENT_ID, watcher as any);
+
+      sseManager.addClient('c1', EVENT_ID, createMockResponse() as any, 'user-1');
+      sseManager.addClient('c2', EVENT_ID, createMockResponse() as any, 'user-1');
+
+      expect(sseManager.getOnlineParticipantIds(EVENT_ID)).toEqual(['user-1']);
+      expect(presenceMessages(watcher.writtenData)).toHaveLength(1);
+      expect(watcher.writtenData[0]).toContain(JSON.stringify({ type: 'presence:joined', participantId: 'user-1' }));
+    });
+
+    it('should not track clients without a participant', () => {
+      sseManager.addClient('c1', EVENT_ID, createMockResponse() as any);
+
+      expect(sseManager.getOnlineParticipantIds(EVENT_ID)).toEqual([]);
+    });
+
+    it('should keep presence per event', () => {
+      sseManager.addClient('c1', EVENT_ID, createMockResponse() as any, 'user-1');
+
+      expect(sseManager.getOnlineParticipantIds(OTHER_EVENT_ID)).toEqual([]);
+    });
+
+    it('should announce leaving only after the grace period', () => {
+      const watcher = createMockResponse();
+      sseManager.addClient('watcher', EVENT_ID, watcher as any);
+      sseManager.addClient('c1', EVENT_ID, createMockResponse() as any, 'user-1');
+
+      sseManager.removeClient('c1');
+      jest.advanceTimersByTime(PRESENCE_LEAVE_DELAY - 1);
+      expect(sseManager.getOnlineParticipantIds(EVENT_ID)).toEqual(['user-1']);
+
+      jest.advanceTimersByTime(1);
+      expect(sseManager.getOnlineParticipantIds(EVENT_ID)).toEqual([]);
+      expect(presenceMessages(watcher.writtenData)[1]).toContain(
+        JSON.stringify({ type: 'presence:left', participantId: 'user-1' })
+      );
+    });
+
+    it('should stay online while another connection of the participant is open', () => {
+      sseManager.addClient('c1', EVENT_ID, createMockResponse() as any, 'user-1');
+      sseManager.addClient('c2', EVENT_ID, createMockResponse() as any, 'user-1');
+
+      sseManager.removeClient('c1');
+      jest.advanceTimersByTime(PRESENCE_LEAVE_DELAY);
+
+      expect(sseManager.getOnlineParticipantIds(EVENT_ID)).toEqual(['user-1']);
+    });
+
+    it('should swallow a reconnect within the grace period', () => {
+      const watcher = createMockResponse();
+      sseManager.addClient('watcher', EVENT_ID, watcher as any);
+      sseManager.addClient('c1', EVENT_ID, createMockResponse() as any, 'user-1');
+
+      sseManager.removeClient('c1');
+      jest.advanceTimersByTime(PRESENCE_LEAVE_DELAY / 2);
+      sseManager.addClient('c2', EVENT_ID, createMockResponse() as any, 'user-1');
+      jest.advanceTimersByTime(PRESENCE_LEAVE_DELAY);
+
+      expect(sseManager.getOnlineParticipantIds(EVENT_ID)).toEqual(['user-1']);
+      expect(presenceMessages(watcher.writtenData)).toHaveLength(1);
+    });
+
+    it('should keep a participant online until every instance announced leaving', () => {
+      const transport = new FakeTransport();
+      const manager = new SSEManager(DEFAULT_REPLAY_BUFFER_SIZE, transport);
+      const watcher = createMockResponse();
+      manager.addClient('watcher', EVENT_ID, watcher as any);
+
+      const announce = (id: number, type: 'presence:joined' | 'presence:left', instanceId: string) =>
+        transport.handler?.({ id, eventId: EVENT_ID, event: { type, participantId: 'user-1', instanceId } });
+
+      announce(1, 'presence:joined', 'instance-a');
+      announce(2, 'presence:joined', 'instance-b');
+      announce(3, 'presence:left', 'instance-a');
+      // Repeated announcements of the same instance change nothing
+      announce(4, 'presence:left', 'instance-a');
+
+      expect(manager.getOnlineParticipantIds(EVENT_ID)).toEqual(['user-1']);
+      expect(getMessageIds(watcher.writtenData)).toEqual([1]);
+
+      announce(5, 'presence:left', 'instance-b');
+
+      expect(manager.getOnlineParticipantIds(EVENT_ID)).toEqual([]);
+      expect(getMessageIds(watcher.writtenData)).toEqual([1, 5]);
+      // Clients do not learn about instances
+      expect(watcher.writtenData[1]).toBe(`id: 5\ndata: ${JSON.stringify({ type: 'presence:left', participantId: 'user-1' })}\n\n`);
+    });
+
+    it('should send heartbeats with the participants connected to the instance', () => {
+      const transport = new FakeTransport();
+      const manager = new SSEManager(DEFAULT_REPLAY_BUFFER_SIZE, transport);
+      manager.addClient('c1', EVENT_ID, createMockResponse() as any, 'user-1');
+      manager.addClient('c2', EVENT_ID, createMockResponse() as any, 'user-2');
+      transport.published = [];
+
+      jest.advanceTimersByTime(PRESENCE_HEARTBEAT_INTERVAL);
+
+      expect(transport.published).toEqual([
+        {
+          eventId: EVENT_ID,
+          event: { type: 'presence:heartbeat', instanceId: expect.any(String), participantIds: ['user-1', 'user-2'] },
+        },
+      ]);
+      void manager.close();
+    });
+
+    it('should let participants of an instance expire once its heartbeats stop', () => {
+      const transport = new FakeTransport();
+      const manager = new SSEManager(DEFAULT_REPLAY_BUFFER_SIZE, transport);
+      const heartbeat = (id: number, instanceId: string) =>
+        transport.handler?.({ id, eventId: EVENT_ID, event: { type: 'presence:heartbeat', instanceId, participantIds: ['user-1'] } });
+
+      transport.handler?.({ id: 1, eventId: EVENT_ID, event: { type: 'presence:joined', participantId: 'user-1', instanceId: 'crashed' } });
+      transport.handler?.({ id: 2, eventId: EVENT_ID, event: { type: 'presence:joined', participantId: 'user-2', instanceId: 'alive' } });
+
+      // Both keep sending heartbeats for a while, then the first instance is gone
+      jest.advanceTimersByTime(PRESENCE_HEARTBEAT_INTERVAL);
+      heartbeat(3, 'crashed');
+      transport.handler?.({ id: 4, eventId: EVENT_ID, event: { type: 'presence:heartbeat', instanceId: 'alive', participantIds: ['user-2'] } });
+      expect(transport.published).toEqual([]);
+
+      for (let elapsed = 0; elapsed <= PRESENCE_TTL; elapsed += PRESENCE_HEARTBEAT_INTERVAL) {
+        transport.handler?.({ id: 5 + elapsed, eventId: EVENT_ID, event: { type: 'presence:heartbeat', instanceId: 'alive', participantIds: ['user-2'] } });
+        jest.advanceTimersByTime(PRESENCE_HEARTBEAT_INTERVAL);
+      }
+
+      expect(transport.published).toEqual([
+        { eventId: EVENT_ID, event: { type: 'presence:left', participantId: 'user-1', instanceId: 'crashed' } },
+      ]);
+      void manager.close();
+    });
+
+    it('should learn about participants of other instances from their heartbeats', () => {
+      const transport = new FakeTransport();
+      const manager = new SSEManager(DEFAULT_REPLAY_BUFFER_SIZE, transport);
+      const watcher = createMockResponse();
+      manager.addClient('watcher', EVENT_ID, watcher as any);
+
+      transport.handler?.({
+        id: 1,
+        eventId: EVENT_ID,
+        event: { type: 'presence:heartbeat', instanceId: 'instance-a', participantIds: ['user-1'] },
+      });
+
+      expect(manager.getOnlineParticipantIds(EVENT_ID)).toEqual(['user-1']);
+      expect(watcher.writtenData).toEqual([]);
+      void manager.close();
+    });
+
+    it('should announce its participants again after switching transports', async () => {
+      sseManager.addClient('c1', EVENT_ID, createMockResponse() as any, 'user-1');
+
+      const transport = new FakeTransport();
+      await sseManager.setTransport(transport);
+
+      expect(transport.published).toEqual([
+        { eventId: EVENT_ID, event: { type: 'presence:joined', participantId: 'user-1', instanceId: expect.any(String) } },
+      ]);
+    });
+  });
+
   describe('getClientCount', () => {
     it('should return 0 when no clients connected', () => {
       expect(sseManager.getClientCount()).toBe(0);
     });
 
+    it('should count clients per event', () => {
+      sseManager.addClient('c1', EVENT_ID, createMockResponse() as any);
+      sseManager.addClient('c2', EVENT_ID, createMockResponse() as any);
+      sseManager.addClient('c3', OTHER_EVENT_ID, createMockResponse() as any);
+
+      expect(sseManager.getClientCount(EVENT_ID)).toBe(2);
+      expect(sseManager.getClientCount(OTHER_EVENT_ID)).toBe(1);
+      expect(sseManager.getClientCount('unknown-event')).toBe(0);
+    });
+
     it('should return correct count after adding clients', () => {
-      sseManager.addClient('c1', createMockResponse() as any);
-      sseManager.addClient('c2', createMockResponse() as any);
-      sseManager.addClient('c3', createMockResponse() as any);
+      sseManager.addClient('c1', EVENT_ID, createMockResponse() as any);
+      sseManager.addClient('c2', EVENT_ID, createMockResponse() as any);
+      sseManager.addClient('c3', EVENT_ID, createMockResponse() as any);
 
       expect(sseManager.getClientCount()).toBe(3);
     });
@@ -191,8 +629,8 @@ describe('SSEManager', () => {
 
   describe('clearClients', () => {
     it('should remove all clients', () => {
-      sseManager.addClient('c1', createMockResponse() as any);
-      sseManager.addClient('c2', createMockResponse() as any);
+      sseManager.addClient('c1', EVENT_ID, createMockResponse() as any);
+      sseManager.addClient('c2', EVENT_ID, createMockResponse() as any);
 
       sseManager.clearClients();
 
@@ -60,6 +60,7 @@ describe('StatisticsService Property Tests', () => {
     const event = await prisma.event.create({
       data: {
         name: `Statistics Service Test ${Date.now()}`,
+        slug: `statistics-service-test-${Date.now()}`,
         passwordHash: 'test-hash',
         ownerAccountId: account.id,
       },
@@ -294,6 +295,8 @@ describe('StatisticsService Property Tests', () => {
               const prevGame = stats.popularGames[i - 1];
               const currGame = stats.popularGames[i];
               expect(prevGame.playerCount).toBeGreaterThanOrEqual(currGame.playerCount);
+              // All players join with the default interest level, so the weighted score follows the count
+              expect(prevGame.interestScore).toBeGreaterThanOrEqual(currGame.interestScore);
             }
 
             // Additional property: all player counts should be non-negative
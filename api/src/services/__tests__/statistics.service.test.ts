@@ -0,0 +1,134 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+const mockGameFindMany = jest.fn<(args: unknown) => Promise<unknown[]>>();
+const mockUserGroupBy = jest.fn<(args: unknown) => Promise<unknown[]>>();
+const mockActivityGroupBy = jest.fn<(args: unknown) => Promise<unknown[]>>();
+
+jest.mock('../../db/prisma', () => ({
+  prisma: {
+    game: { findMany: (args: unknown) => mockGameFindMany(args) },
+    user: { groupBy: (args: unknown) => mockUserGroupBy(args) },
+    activityEvent: { groupBy: (args: unknown) => mockActivityGroupBy(args) },
+  },
+}));
+
+import { StatisticsService } from '../statistics.service';
+
+/**
+ * Unit tests for StatisticsService.getEventSummaries (organizer dashboard KPIs)
+ */
+describe('StatisticsService.getEventSummaries', () => {
+  const service = new StatisticsService();
+
+  const game = (id: string, bringerCount: number) => ({
+    id,
+    name: id,
+    yearPublished: null,
+    players: [],
+    bringers: Array.from({ length: bringerCount }, (_, index) => ({ userId: `bringer-${index}` })),
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('returns an empty list without querying for no events', async () => {
+    await expect(service.getEventSummaries([])).resolves.toEqual([]);
+    expect(mockGameFindMany).not.toHaveBeenCalled();
+  });
+
+  it('combines game statistics, participant counts and last activity per event', async () => {
+    const lastActivity = new Date('2026-03-01T18:00:00Z');
+    mockGameFindMany.mockImplementation(async (args) => {
+      const { where } = args as { where: { eventId: string } };
+      return where.eventId === 'event-1' ? [game('a', 1), game('b', 0), game('c', 0)] : [];
+    });
+    mockUserGroupBy.mockResolvedValue([{ eventId: 'event-1', _count: { _all: 4 } }]);
+    mockActivityGroupBy.mockResolvedValue([{ eventId: 'event-1', _max: { createdAt: lastActivity } }]);
+
+    const summaries = await service.getEventSummaries(['event-1', 'event-2']);
+
+    expect(summaries).toEqual([
+      {
+        eventId: 'event-1',
+        participantCount: 4,
+        totalGames: 3,
+        availableGames: 1,
+        requestedGames: 2,
+        lastActivityAt: lastActivity,
+      },
+      {
+        eventId: 'event-2',
+        participantCount: 0,
+        totalGames: 0,
+        availableGames: 0,
+        requestedGames: 0,
+        lastActivityAt: null,
+      },
+    ]);
+    expect(mockUserGroupBy).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { eventId: { in: ['event-1', 'event-2'] }, waitlistedAt: null } })
+    );
+  });
+});
+
+/**
+ * Unit tests for the popularity ranking of StatisticsService.getStatistics
+ */
+describe('StatisticsService.getStatistics popular games', () => {
+  const service = new StatisticsService();
+
+  const game = (id: string, interestLevels: string[]) => ({
+    id,
+    name: id,
+    yearPublished: null,
+    players: interestLevels.map((interestLevel, index) => ({ userId: `player-${index}`, interestLevel })),
+    bringers: [],
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('ranks games by players weighted by interest level', async () => {
+    mockGameFindMany.mockResolvedValue([
+      game('maybe', ['vielleicht', 'vielleicht', 'vielleicht']),
+      game('must', ['must_play', 'must_play']),
+      game('gern', ['gern', 'gern', 'vielleicht']),
+    ]);
+
+    const stats = await service.getStatistics('event-1');
+
+    expect(stats.popularGames).toEqual([
+      {
+        id: 'must',
+        name: 'must',
+        playerCount: 2,
+        interestScore: 4,
+        interestCounts: { must_play: 2, gern: 0, vielleicht: 0 },
+      },
+      {
+        id: 'gern',
+        name: 'gern',
+        playerCount: 3,
+        interestScore: 2.5,
+        interestCounts: { must_play: 0, gern: 2, vielleicht: 1 },
+      },
+      {
+        id: 'maybe',
+        name: 'maybe',
+        playerCount: 3,
+        interestScore: 1.5,
+        interestCounts: { must_play: 0, gern: 0, vielleicht: 3 },
+      },
+    ]);
+  });
+
+  it('breaks ties in the weighted score by player count', async () => {
+    mockGameFindMany.mockResolvedValue([game('one', ['must_play']), game('two', ['vielleicht', 'vielleicht', 'gern'])]);
+
+    const stats = await service.getStatistics('event-1');
+
+    expect(stats.popularGames.map((popular) => popular.id)).toEqual(['two', 'one']);
+  });
+});
@@ -0,0 +1,271 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+import { gunzip, gzip } from 'zlib';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { config } from '../config';
+import type { AccountResponse } from '../types/account';
+import {
+  ACTIVITY_EXPORT_FORMATS,
+  ActivityExportFile,
+  ActivityExportFormat,
+  ActivityExportInput,
+  ActivityRecord,
+} from '../types/activity';
+import { EventErrorCodes } from '../types/event';
+import { EventService, eventError } from './event.service';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Rows per archive file, so a large backlog never has to be held in memory at once
+const ARCHIVE_BATCH_SIZE = 5000;
+const ARCHIVE_FILE_SUFFIX = '.ndjson.gz';
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const CSV_COLUMNS: readonly (keyof ActivityRecord)[] = [
+  'id',
+  'createdAt',
+  'type',
+  'actorId',
+  'actorName',
+  'gameId',
+  'gameName',
+  'metadata',
+];
+
+const recordInclude = {
+  actor: { select: { name: true } },
+  game: { select: { name: true } },
+} satisfies Prisma.ActivityEventInclude;
+
+type RecordRow = Prisma.ActivityEventGetPayload<{ include: typeof recordInclude }>;
+
+/**
+ * Time range [start, end) of an export; a missing bound is open
+ */
+export interface ActivityRange {
+  start?: Date;
+  end?: Date;
+}
+
+function toActivityRecord(row: RecordRow): ActivityRecord {
+  const metadata =
+    row.metadata !== null && typeof row.metadata === 'object' && !Array.isArray(row.metadata) ? row.metadata : null;
+  // Purged games lose their row, so fall back to what was logged with the activity
+  const loggedId = typeof metadata?.gameId === 'string' ? metadata.gameId : null;
+  const loggedName = typeof metadata?.gameName === 'string' ? metadata.gameName : null;
+
+  return {
+    id: row.id,
+    createdAt: row.createdAt.toISOString(),
+    type: row.eventType,
+    actorId: row.actorUserId,
+    actorName: row.actor.name,
+    gameId: row.gameId ?? loggedId,
+    gameName: row.game?.name ?? loggedName,
+    metadata,
+  };
+}
+
+function parseBound(value: unknown, bound: 'start' | 'end'): Date | undefined {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value !== 'string') {
+    throw eventError(EventErrorCodes.INVALID_DATE);
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw eventError(EventErrorCodes.INVALID_DATE);
+  }
+  if (bound === 'start') return date;
+  // The end is inclusive: a date covers its whole day, a timestamp its millisecond
+  return new Date(date.getTime() + (DATE_ONLY_PATTERN.test(value) ? DAY_MS : 1));
+}
+
+/**
+ * Parse the from/to bounds of an export. Both are inclusive; a date without
+ * time ("2026-10-19") stands for the whole day in UTC.
+ */
+export function parseActivityExportRange(from: unknown, to: unknown): ActivityRange {
+  const start = parseBound(from, 'start');
+  const end = parseBound(to, 'end');
+  if (start && end && start >= end) {
+    throw eventError(EventErrorCodes.INVALID_DATE_RANGE);
+  }
+  return { start, end };
+}
+
+export function parseActivityExportFormat(value: unknown): ActivityExportFormat {
+  if (value === undefined || value === '') return 'csv';
+  if (typeof value !== 'string' || !ACTIVITY_EXPORT_FORMATS.includes(value as ActivityExportFormat)) {
+    throw eventError(EventErrorCodes.INVALID_EXPORT_FORMAT);
+  }
+  return value as ActivityExportFormat;
+}
+
+function isInRange(createdAt: Date, range: ActivityRange): boolean {
+  return (!range.start || createdAt >= range.start) && (!range.end || createdAt < range.end);
+}
+
+// ISO timestamps of the same format sort chronologically as strings
+function compareRecords(a: ActivityRecord, b: ActivityRecord): number {
+  if (a.createdAt !== b.createdAt) return a.createdAt < b.createdAt ? -1 : 1;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+function toNdjson(records: ActivityRecord[]): string {
+  return records.map((record) => `${JSON.stringify(record)}\n`).join('');
+}
+
+function toCsvValue(value: ActivityRecord[keyof ActivityRecord]): string {
+  if (value === null) return '';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(records: ActivityRecord[]): string {
+  const lines = [
+    CSV_COLUMNS.join(','),
+    ...records.map((record) => CSV_COLUMNS.map((column) => toCsvValue(record[column])).join(',')),
+  ];
+  // The byte order mark makes spreadsheet apps read umlauts as UTF-8
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+/**
+ * ActivityArchiveService keeps the activity log of an event within its
+ * retention period. Older rows are moved to gzipped NDJSON files, one directory
+ * per event. Organizers can export any date range as CSV or NDJSON; exports
+ * combine the database with the archive.
+ */
+export class ActivityArchiveService {
+  constructor(
+    private prisma: PrismaClient,
+    private events: EventService = new EventService(prisma),
+    private archiveDir: string = config.activityArchive.dir
+  ) {}
+
+  private eventDir(eventId: string): string {
+    return path.join(this.archiveDir, eventId);
+  }
+
+  /**
+   * Archive the activity of all events with a retention policy.
+   * @returns number of archived activities
+   */
+  async archiveExpiredActivity(now: Date = new Date()): Promise<number> {
+    const events = await this.prisma.event.findMany({
+      where: { activityRetentionDays: { not: null } },
+      select: { id: true, activityRetentionDays: true },
+    });
+
+    let archived = 0;
+    for (const event of events) {
+      const retentionMs = (event.activityRetentionDays ?? 0) * DAY_MS;
+      archived += await this.archiveEventActivity(event.id, new Date(now.getTime() - retentionMs));
+    }
+    return archived;
+  }
+
+  /**
+   * Move activities of an event created before the cutoff into archive files.
+   * An activity created exactly at the cutoff stays in the database.
+   * Rows are deleted only after their file is written, so an interrupted run
+   * can at worst archive an activity twice; exports drop such duplicates.
+   */
+  async archiveEventActivity(eventId: string, cutoff: Date): Promise<number> {
+    let archived = 0;
+    let batch: RecordRow[];
+    do {
+      batch = await this.prisma.activityEvent.findMany({
+        where: { eventId, createdAt: { lt: cutoff } },
+        include: recordInclude,
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        take: ARCHIVE_BATCH_SIZE,
+      });
+      if (batch.length === 0) break;
+
+      await this.writeArchiveFile(eventId, batch.map(toActivityRecord));
+      await this.prisma.activityEvent.deleteMany({
+        where: { id: { in: batch.map((row) => row.id) } },
+      });
+      archived += batch.length;
+    } while (batch.length === ARCHIVE_BATCH_SIZE);
+
+    return archived;
+  }
+
+  private async writeArchiveFile(eventId: string, records: ActivityRecord[]): Promise<void> {
+    const dir = this.eventDir(eventId);
+    await fs.promises.mkdir(dir, { recursive: true });
+
+    // Named after the first activity, so the files of an event sort chronologically
+    const [first] = records;
+    const file = path.join(dir, `${first.createdAt.replace(/[:.]/g, '-')}_${first.id}${ARCHIVE_FILE_SUFFIX}`);
+    // A temporary name keeps exports from reading a half-written file
+    await fs.promises.writeFile(`${file}.tmp`, await gzipAsync(toNdjson(records)));
+    await fs.promises.rename(`${file}.tmp`, file);
+  }
+
+  private async readArchive(eventId: string, range: ActivityRange): Promise<ActivityRecord[]> {
+    const dir = this.eventDir(eventId);
+    let files: string[];
+    try {
+      files = await fs.promises.readdir(dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const records: ActivityRecord[] = [];
+    for (const file of files.filter((name) => name.endsWith(ARCHIVE_FILE_SUFFIX)).sort()) {
+      const content = await gunzipAsync(await fs.promises.readFile(path.join(dir, file)));
+      for (const line of content.toString('utf8').split('\n')) {
+        if (!line) continue;
+        const record = JSON.parse(line) as ActivityRecord;
+        if (isInRange(new Date(record.createdAt), range)) {
+          records.push(record);
+        }
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Export the activity of an event in a date range, oldest first
+   * (co-organizers and above). Archived activity is included.
+   * @throws EventError INVALID_DATE, INVALID_DATE_RANGE or INVALID_EXPORT_FORMAT
+   */
+  async exportActivity(
+    eventId: string,
+    account: AccountResponse,
+    input: ActivityExportInput
+  ): Promise<ActivityExportFile> {
+    const { event } = await this.events.authorizeEvent(eventId, account);
+    const format = parseActivityExportFormat(input.format);
+    const range = parseActivityExportRange(input.from, input.to);
+
+    const archived = await this.readArchive(eventId, range);
+    const rows = await this.prisma.activityEvent.findMany({
+      where: { eventId, createdAt: { gte: range.start, lt: range.end } },
+      include: recordInclude,
+    });
+
+    const byId = new Map<string, ActivityRecord>();
+    for (const record of [...archived, ...rows.map(toActivityRecord)]) {
+      byId.set(record.id, record);
+    }
+    const records = [...byId.values()].sort(compareRecords);
+
+    return format === 'csv'
+      ? { filename: `aktivitaeten-${event.slug}.csv`, contentType: 'text/csv; charset=utf-8', content: toCsv(records) }
+      : {
+          filename: `aktivitaeten-${event.slug}.ndjson`,
+          contentType: 'application/x-ndjson; charset=utf-8',
+          content: toNdjson(records),
+        };
+  }
+}
@@ -1,5 +1,13 @@
 import { prisma } from '../db/prisma';
 import type { ActivityEventType, Prisma } from '@prisma/client';
+import {
+  ACTIVITY_TYPES,
+  ActivityEntry,
+  ActivityFeedQuery,
+  ActivityFeedResponse,
+  ActivityType,
+} from '../types/activity';
+import { sseManager } from './sse.service';
 
 interface ActivityLogEventInput {
   actorParticipantId: string;
@@ -9,10 +17,170 @@ interface ActivityLogEventInput {
   metadata?: Prisma.InputJsonValue;
 }
 
+export const DEFAULT_ACTIVITY_FEED_LIMIT = 50;
+export const MAX_ACTIVITY_FEED_LIMIT = 100;
+
+const activityInclude = {
+  actor: { select: { id: true, name: true } },
+  game: { select: { id: true, name: true } },
+} satisfies Prisma.ActivityEventInclude;
+
+type ActivityRow = Prisma.ActivityEventGetPayload<{ include: typeof activityInclude }>;
+
+function validationError(message: string): Error {
+  const error = new Error(message);
+  (error as Error & { code: string }).code = 'VALIDATION_ERROR';
+  return error;
+}
+
+function isActivityType(value: string): value is ActivityType {
+  return (ACTIVITY_TYPES as readonly string[]).includes(value);
+}
+
+function readMetadata(metadata: Prisma.JsonValue): Record<string, unknown> {
+  return metadata !== null && typeof metadata === 'object' && !Array.isArray(metadata) ? metadata : {};
+}
+
+/**
+ * Cursors point at the last entry of a page as "<createdAt>|<id>", so pages
+ * stay stable while new entries arrive at the top
+ */
+function encodeCursor(row: { createdAt: Date; id: string }): string {
+  return Buffer.from(`${row.createdAt.toISOString()}|${row.id}`).toString('base64url');
+}
+
+function decodeCursor(cursor: string): { createdAt: Date; id: string } {
+  const [timestamp, id] = Buffer.from(cursor, 'base64url').toString().split('|');
+  const createdAt = new Date(timestamp);
+  if (!id || Number.isNaN(createdAt.getTime())) {
+    throw validationError('Ungültiger Cursor.');
+  }
+  return { createdAt, id };
+}
+
+function parseDate(value: unknown): Date | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const date = typeof value === 'string' ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw validationError('Ungültiger Zeitraum.');
+  }
+  return date;
+}
+
+function parseOptionalId(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+/**
+ * Parse the query string of GET /api/activity.
+ * types is a comma-separated list, since and until are ISO timestamps.
+ * @throws Error with code VALIDATION_ERROR and a German message
+ */
+export function parseActivityFeedQuery(query: Record<string, unknown>): ActivityFeedQuery {
+  let types: ActivityType[] | undefined;
+  if (typeof query.types === 'string' && query.types) {
+    const values = query.types.split(',').map((value) => value.trim());
+    if (!values.every(isActivityType)) {
+      throw validationError('Unbekannter Aktivitätstyp.');
+    }
+    types = values;
+  }
+
+  const since = parseDate(query.since);
+  const until = parseDate(query.until);
+  if (since && until && since > until) {
+    throw validationError('Ungültiger Zeitraum.');
+  }
+
+  let limit: number | undefined;
+  if (query.limit !== undefined) {
+    limit = Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_ACTIVITY_FEED_LIMIT) {
+      throw validationError(`Das Limit muss zwischen 1 und ${MAX_ACTIVITY_FEED_LIMIT} liegen.`);
+    }
+  }
+
+  const cursor = parseOptionalId(query.cursor);
+  if (cursor) {
+    decodeCursor(cursor);
+  }
+
+  return {
+    types,
+    actorId: parseOptionalId(query.actorId),
+    gameId: parseOptionalId(query.gameId),
+    since,
+    until,
+    cursor,
+    limit,
+  };
+}
+
+/**
+ * German feed sentence for an activity
+ */
+function describeActivity(type: ActivityType, actorName: string, gameName: string, metadata: Record<string, unknown>): string {
+  switch (type) {
+    case 'game_created':
+      return metadata.isBringing === true
+        ? `${actorName} hat ${gameName} hinzugefügt und bringt es mit`
+        : `${actorName} wünscht sich ${gameName}`;
+    case 'player_added':
+      return `${actorName} spielt ${gameName} mit`;
+    case 'player_removed':
+      return `${actorName} spielt ${gameName} nicht mehr mit`;
+    case 'bringer_added':
+      return `${actorName} bringt ${gameName} mit`;
+    case 'bringer_removed':
+      return `${actorName} bringt ${gameName} nicht mehr mit`;
+    case 'game_deleted':
+      return `${actorName} hat ${gameName} gelöscht`;
+    case 'game_restored':
+      return `${actorName} hat ${gameName} wiederhergestellt`;
+    case 'prototype_toggled':
+      return metadata.isPrototype === true
+        ? `${actorName} hat ${gameName} als Prototyp markiert`
+        : `${actorName} hat ${gameName} nicht mehr als Prototyp markiert`;
+    case 'user_created':
+      return `${actorName} ist neu dabei`;
+  }
+}
+
+function toActivityEntry(row: ActivityRow & { eventType: ActivityType }): ActivityEntry {
+  const metadata = readMetadata(row.metadata);
+  // Purged games lose their row, so the name logged with the activity is the fallback
+  const loggedName = typeof metadata.gameName === 'string' ? metadata.gameName : null;
+  const loggedId = typeof metadata.gameId === 'string' ? metadata.gameId : null;
+  const game = row.game
+    ? { id: row.game.id, name: row.game.name }
+    : loggedName !== null
+      ? { id: loggedId, name: loggedName }
+      : null;
+
+  return {
+    id: row.id,
+    type: row.eventType,
+    createdAt: row.createdAt,
+    actor: { id: row.actor.id, name: row.actor.name },
+    game: row.eventType === 'user_created' ? null : game,
+    message: describeActivity(row.eventType, row.actor.name, game?.name ?? 'ein gelöschtes Spiel', metadata),
+  };
+}
+
+function isFeedRow(row: ActivityRow): row is ActivityRow & { eventType: ActivityType } {
+  return isActivityType(row.eventType);
+}
+
 export class ActivityLogService {
+  /**
+   * Store an activity. Activities shown in the feed are pushed to the event's
+   * clients as activity:created. Failures are logged and never break the action.
+   */
   async logEvent(event: ActivityLogEventInput): Promise<void> {
     try {
-      await prisma.activityEvent.create({
+      const row = await prisma.activityEvent.create({
         data: {
           actorUserId: event.actorParticipantId,
           eventType: event.eventType,
@@ -20,11 +188,66 @@ export class ActivityLogService {
           eventId: event.eventId ?? null,
           metadata: event.metadata ?? undefined,
         },
+        include: activityInclude,
       });
+
+      if (event.eventId && isFeedRow(row)) {
+        sseManager.broadcast(event.eventId, { type: 'activity:created', entry: toActivityEntry(row) });
+      }
     } catch (error) {
       console.error('[ActivityLogService] Failed to log activity event:', error);
     }
   }
+
+  /**
+   * Newest activities of an event first, resolved to feed entries.
+   * A game filter also matches activities of games purged from the trash,
+   * which keep the game id only in their metadata.
+   */
+  async getFeed(eventId: string, query: ActivityFeedQuery = {}): Promise<ActivityFeedResponse> {
+    const limit = query.limit ?? DEFAULT_ACTIVITY_FEED_LIMIT;
+    const conditions: Prisma.ActivityEventWhereInput[] = [
+      { eventId, eventType: { in: query.types ?? [...ACTIVITY_TYPES] } },
+    ];
+
+    if (query.actorId) {
+      conditions.push({ actorUserId: query.actorId });
+    }
+    if (query.gameId) {
+      conditions.push({
+        OR: [{ gameId: query.gameId }, { metadata: { path: ['gameId'], equals: query.gameId } }],
+      });
+    }
+    if (query.since) {
+      conditions.push({ createdAt: { gte: query.since } });
+    }
+    if (query.until) {
+      conditions.push({ createdAt: { lte: query.until } });
+    }
+    if (query.cursor) {
+      const cursor = decodeCursor(query.cursor);
+      conditions.push({
+        OR: [
+          { createdAt: { lt: cursor.createdAt } },
+          { createdAt: cursor.createdAt, id: { lt: cursor.id } },
+        ],
+      });
+    }
+
+    // One extra row tells whether another page follows
+    const rows = await prisma.activityEvent.findMany({
+      where: { AND: conditions },
+      include: activityInclude,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+    });
+
+    const page = rows.slice(0, limit);
+    return {
+      entries: page.filter(isFeedRow).map(toActivityEntry),
+      nextCursor: rows.length > limit ? encodeCursor(page[page.length - 1]) : null,
+    };
+  }
 }
 
 export const activityLogService = new ActivityLogService();
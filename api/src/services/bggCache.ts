@@ -443,6 +443,14 @@ class BggCache {
     }));
   }
 
+  /**
+   * Get a cached game by its BGG ID
+   * @returns The game with its alternate names, or null if it is not in the cache
+   */
+  getById(id: number): BggGameWithAlternates | null {
+    return this.games.find((game) => game.id === id) ?? null;
+  }
+
   /**
    * Check if cache is loaded
    * Requirement 1.5: Cache remains in memory for lifetime of process
@@ -7,8 +7,9 @@
 import { prisma } from '../lib/prisma';
 import { bggCache } from './bggCache';
 import pageFetchService, { ScraperApiError } from './pageFetchService';
+import type { BggPlayData } from '../types';
 
-export interface EnrichmentData {
+export interface EnrichmentData extends BggPlayData {
   alternateNames: Array<{ name: string; language?: string }>;
   primaryName: string;
   description: string;
@@ -52,6 +53,9 @@ class BggEnrichmentService {
   private static readonly RATE_LIMIT_DELAY_MS = 5000; // Wait 5s on 429
   private static readonly MAX_RETRIES = 3;
 
+  // Upper bound when expanding "best with 3-99 players" style poll ranges
+  private static readonly MAX_POLL_PLAYER_COUNT = 20;
+
   constructor() {}
 
 
@@ -226,6 +230,30 @@ class BggEnrichmentService {
         .replace(/<iframe\b[^<]*(?:(?!<\/iframe>)<[^<]*)*<\/iframe>/gi, '');
     };
     
+    // Player counts and play times are strings on the page; BGG uses 0 for unknown
+    const toPositiveInt = (value: unknown): number | null => {
+      const number = Number(value);
+      return Number.isInteger(number) && number > 0 ? number : null;
+    };
+
+    // Poll results are ranges like [{ min: 3, max: 4 }]
+    const expandPlayerCounts = (ranges: unknown): number[] => {
+      if (!Array.isArray(ranges)) return [];
+      const counts = new Set<number>();
+      for (const range of ranges) {
+        const min = toPositiveInt(range?.min);
+        const max = toPositiveInt(range?.max) ?? min;
+        if (min === null || max === null) continue;
+        for (let count = min; count <= Math.min(max, BggEnrichmentService.MAX_POLL_PLAYER_COUNT); count++) {
+          counts.add(count);
+        }
+      }
+      return [...counts].sort((a, b) => a - b);
+    };
+
+    const polls = item.polls || {};
+    const averageWeight = Number(polls.boardgameweight?.averageweight);
+
     return {
       alternateNames,
       primaryName: item.name || '',
@@ -237,7 +265,48 @@ class BggEnrichmentService {
       publishers: extractNames('boardgamepublisher'),
       categories: extractNames('boardgamecategory'),
       mechanics: extractNames('boardgamemechanic'),
+      minPlayers: toPositiveInt(item.minplayers),
+      maxPlayers: toPositiveInt(item.maxplayers),
+      bestPlayerCounts: expandPlayerCounts(polls.userplayers?.best),
+      recommendedPlayerCounts: expandPlayerCounts(polls.userplayers?.recommended),
+      minPlayTime: toPositiveInt(item.minplaytime),
+      maxPlayTime: toPositiveInt(item.maxplaytime),
+      weight: averageWeight > 0 ? Math.round(averageWeight * 100) / 100 : null,
+    };
+  }
+
+  /**
+   * Store enrichment data of a BGG entry and carry its play data onto the
+   * games linked to it
+   */
+  private async saveEnrichmentData(bggId: number, enrichmentData: EnrichmentData): Promise<void> {
+    const playData: BggPlayData = {
+      minPlayers: enrichmentData.minPlayers,
+      maxPlayers: enrichmentData.maxPlayers,
+      bestPlayerCounts: enrichmentData.bestPlayerCounts,
+      recommendedPlayerCounts: enrichmentData.recommendedPlayerCounts,
+      minPlayTime: enrichmentData.minPlayTime,
+      maxPlayTime: enrichmentData.maxPlayTime,
+      weight: enrichmentData.weight,
     };
+
+    await prisma.bggGame.update({
+      where: { id: bggId },
+      data: {
+        scrapingDone: true,
+        enrichedAt: new Date(),
+        enrichmentData: enrichmentData as any,
+        ...playData,
+      },
+    });
+    await prisma.game.updateMany({
+      where: { bggId },
+      data: playData,
+    });
+
+    // Update in-memory cache with new alternate names
+    const alternateNames = enrichmentData.alternateNames.map(a => a.name);
+    bggCache.updateGameAlternateNames(bggId, alternateNames);
   }
 
 
@@ -267,18 +336,7 @@ class BggEnrichmentService {
     const enrichmentData = this.extractEnrichmentData(html);
     
     // Store enrichment data
-    await prisma.bggGame.update({
-      where: { id: bggId },
-      data: {
-        scrapingDone: true,
-        enrichedAt: new Date(),
-        enrichmentData: enrichmentData as any,
-      },
-    });
-    
-    // Update in-memory cache with new alternate names
-    const alternateNames = enrichmentData.alternateNames.map(a => a.name);
-    bggCache.updateGameAlternateNames(bggId, alternateNames);
+    await this.saveEnrichmentData(bggId, enrichmentData);
     
     return enrichmentData;
   }
@@ -325,18 +383,7 @@ class BggEnrichmentService {
         
         const enrichmentData = this.extractEnrichmentData(result.html);
         
-        await prisma.bggGame.update({
-          where: { id: game.id },
-          data: {
-            scrapingDone: true,
-            enrichedAt: new Date(),
-            enrichmentData: enrichmentData as any,
-          },
-        });
-        
-        // Update in-memory cache with new alternate names
-        const alternateNames = enrichmentData.alternateNames.map(a => a.name);
-        bggCache.updateGameAlternateNames(game.id, alternateNames);
+        await this.saveEnrichmentData(game.id, enrichmentData);
         
         this.bulkStatus.processed++;
         consecutiveErrors = 0; // Reset on success
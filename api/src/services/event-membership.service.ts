@@ -0,0 +1,263 @@
+import { randomBytes } from 'crypto';
+import { PrismaClient, type EventInvite } from '@prisma/client';
+import type { AccountResponse } from '../types/account';
+import {
+  CreateInviteInput,
+  EventErrorCodes,
+  EventInviteResponse,
+  EventMemberResponse,
+  EventRole,
+  INVITABLE_EVENT_ROLES,
+  InvitePreviewResponse,
+} from '../types/event';
+import { EventService, eventError } from './event.service';
+
+const INVITE_TTL_DAYS = 14;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export interface EventTeamResponse {
+  members: EventMemberResponse[];
+  // Pending invites are only listed for the owner, since their tokens grant access
+  invites: EventInviteResponse[];
+}
+
+export interface AcceptedInviteResponse {
+  eventId: string;
+  role: EventRole;
+}
+
+function parseInvitableRole(value: unknown): EventRole {
+  if (typeof value !== 'string' || !INVITABLE_EVENT_ROLES.includes(value as EventRole)) {
+    throw eventError(EventErrorCodes.INVALID_ROLE);
+  }
+  return value as EventRole;
+}
+
+function parseInviteEmail(value: unknown): string {
+  const email = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  if (!EMAIL_PATTERN.test(email)) {
+    throw eventError(EventErrorCodes.INVALID_EMAIL);
+  }
+  return email;
+}
+
+/**
+ * EventMembershipService manages the organizer team of an event:
+ * members with their roles and tokenized invites.
+ * Permission checks go through EventService.authorizeEvent.
+ */
+export class EventMembershipService {
+  constructor(
+    private prisma: PrismaClient,
+    private events: EventService = new EventService(prisma)
+  ) {}
+
+  private toInviteResponse(invite: EventInvite): EventInviteResponse {
+    return {
+      id: invite.id,
+      email: invite.email,
+      role: invite.role,
+      token: invite.token,
+      expiresAt: invite.expiresAt,
+      createdAt: invite.createdAt,
+    };
+  }
+
+  /**
+   * List the organizer team of an event (any role may look)
+   */
+  async listTeam(eventId: string, account: AccountResponse): Promise<EventTeamResponse> {
+    const { role } = await this.events.authorizeEvent(eventId, account, 'viewer');
+
+    const memberships = await this.prisma.eventMembership.findMany({
+      where: { eventId },
+      include: { account: { select: { email: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+    const invites =
+      role === 'owner'
+        ? await this.prisma.eventInvite.findMany({
+            where: { eventId, acceptedAt: null },
+            orderBy: { createdAt: 'asc' },
+          })
+        : [];
+
+    return {
+      members: memberships.map((membership) => ({
+        accountId: membership.accountId,
+        email: membership.account.email,
+        role: membership.role,
+        createdAt: membership.createdAt,
+      })),
+      invites: invites.map((invite) => this.toInviteResponse(invite)),
+    };
+  }
+
+  /**
+   * Invite an email address as co-organizer or viewer (owner only).
+   * No mail is sent; the owner shares the accept link shown in the UI.
+   */
+  async createInvite(
+    eventId: string,
+    account: AccountResponse,
+    input: CreateInviteInput
+  ): Promise<EventInviteResponse> {
+    await this.events.authorizeEvent(eventId, account, 'owner');
+    const email = parseInviteEmail(input.email);
+    const role = parseInvitableRole(input.role);
+
+    const existingMember = await this.prisma.eventMembership.findFirst({
+      where: { eventId, account: { email } },
+      select: { id: true },
+    });
+    if (existingMember) {
+      throw eventError(EventErrorCodes.ALREADY_MEMBER, 409);
+    }
+
+    const invite = await this.prisma.eventInvite.create({
+      data: {
+        eventId,
+        email,
+        role,
+        token: randomBytes(24).toString('base64url'),
+        invitedByAccountId: account.id,
+        expiresAt: new Date(Date.now() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000),
+      },
+    });
+
+    return this.toInviteResponse(invite);
+  }
+
+  /**
+   * Withdraw a pending invite (owner only)
+   */
+  async revokeInvite(eventId: string, inviteId: string, account: AccountResponse): Promise<void> {
+    await this.events.authorizeEvent(eventId, account, 'owner');
+
+    const result = await this.prisma.eventInvite.deleteMany({
+      where: { id: inviteId, eventId, acceptedAt: null },
+    });
+    if (result.count === 0) {
+      throw eventError(EventErrorCodes.INVITE_NOT_FOUND, 404);
+    }
+  }
+
+  /**
+   * Change the role of a team member (owner only). The owner's own role is fixed.
+   */
+  async updateMemberRole(
+    eventId: string,
+    memberAccountId: string,
+    account: AccountResponse,
+    role: unknown
+  ): Promise<EventMemberResponse> {
+    const { event } = await this.events.authorizeEvent(eventId, account, 'owner');
+    const newRole = parseInvitableRole(role);
+
+    if (memberAccountId === event.ownerAccountId) {
+      throw eventError(EventErrorCodes.OWNER_ROLE_LOCKED);
+    }
+
+    const existing = await this.prisma.eventMembership.findUnique({
+      where: { eventId_accountId: { eventId, accountId: memberAccountId } },
+    });
+    if (!existing) {
+      throw eventError(EventErrorCodes.MEMBER_NOT_FOUND, 404);
+    }
+
+    const membership = await this.prisma.eventMembership.update({
+      where: { id: existing.id },
+      data: { role: newRole },
+      include: { account: { select: { email: true } } },
+    });
+
+    return {
+      accountId: membership.accountId,
+      email: membership.account.email,
+      role: membership.role,
+      createdAt: membership.createdAt,
+    };
+  }
+
+  /**
+   * Remove a member from the organizer team (owner only). The owner cannot be removed.
+   */
+  async removeMember(eventId: string, memberAccountId: string, account: AccountResponse): Promise<void> {
+    const { event } = await this.events.authorizeEvent(eventId, account, 'owner');
+
+    if (memberAccountId === event.ownerAccountId) {
+      throw eventError(EventErrorCodes.OWNER_ROLE_LOCKED);
+    }
+
+    const result = await this.prisma.eventMembership.deleteMany({
+      where: { eventId, accountId: memberAccountId },
+    });
+    if (result.count === 0) {
+      throw eventError(EventErrorCodes.MEMBER_NOT_FOUND, 404);
+    }
+  }
+
+  /**
+   * Load a pending invite by token, rejecting used and expired ones
+   */
+  private async getPendingInvite(token: string) {
+    const invite = await this.prisma.eventInvite.findUnique({
+      where: { token },
+      include: { event: { select: { name: true, ownerAccountId: true } } },
+    });
+
+    if (!invite) {
+      throw eventError(EventErrorCodes.INVITE_NOT_FOUND, 404);
+    }
+    if (invite.acceptedAt) {
+      throw eventError(EventErrorCodes.INVITE_ALREADY_USED, 409);
+    }
+    if (invite.expiresAt.getTime() < Date.now()) {
+      throw eventError(EventErrorCodes.INVITE_EXPIRED, 410);
+    }
+
+    return invite;
+  }
+
+  /**
+   * Show an invite to the logged-in account before accepting
+   */
+  async getInvitePreview(token: string): Promise<InvitePreviewResponse> {
+    const invite = await this.getPendingInvite(token);
+    return {
+      eventId: invite.eventId,
+      eventName: invite.event.name,
+      email: invite.email,
+      role: invite.role,
+      expiresAt: invite.expiresAt,
+    };
+  }
+
+  /**
+   * Accept an invite with the account it was addressed to.
+   * Creates or updates the membership; the event owner keeps the owner role.
+   */
+  async acceptInvite(token: string, account: AccountResponse): Promise<AcceptedInviteResponse> {
+    const invite = await this.getPendingInvite(token);
+
+    if (invite.email !== account.email.toLowerCase()) {
+      throw eventError(EventErrorCodes.INVITE_EMAIL_MISMATCH, 403);
+    }
+
+    const role: EventRole = invite.event.ownerAccountId === account.id ? 'owner' : invite.role;
+
+    await this.prisma.$transaction([
+      this.prisma.eventMembership.upsert({
+        where: { eventId_accountId: { eventId: invite.eventId, accountId: account.id } },
+        create: { eventId: invite.eventId, accountId: account.id, role },
+        update: { role },
+      }),
+      this.prisma.eventInvite.update({
+        where: { id: invite.id },
+        data: { acceptedAt: new Date() },
+      }),
+    ]);
+
+    return { eventId: invite.eventId, role };
+  }
+}
@@ -0,0 +1,634 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { config } from '../config';
+import type { AccountResponse } from '../types/account';
+import {
+  DuplicateGameCandidate,
+  EventErrorCodes,
+  MergeGamesInput,
+  MergeParticipantsInput,
+  ModerateGameInput,
+  ModerationGameResponse,
+  ModerationOverviewResponse,
+  TrashedGameResponse,
+} from '../types/event';
+import { EventService, eventError } from './event.service';
+import { fuzzyMatch } from './fuzzyMatch';
+import { NotificationService } from './notification.service';
+import { ParticipantService, participantService } from './participant.service';
+import { sseManager } from './sse.service';
+import { thumbnailService } from './thumbnailService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Shorter names match inside too many other names to hint at a duplicate
+const MIN_DUPLICATE_NAME_LENGTH = 3;
+
+const moderationGameInclude = {
+  owner: { select: { name: true } },
+  _count: { select: { players: true, bringers: true } },
+} satisfies Prisma.GameInclude;
+
+type ModerationGame = Prisma.GameGetPayload<{ include: typeof moderationGameInclude }>;
+
+const trashedGameInclude = {
+  ...moderationGameInclude,
+  deletedBy: { select: { name: true } },
+} satisfies Prisma.GameInclude;
+
+type TrashedGame = Prisma.GameGetPayload<{ include: typeof trashedGameInclude }>;
+
+export interface MergedParticipantResponse {
+  id: string;
+  name: string;
+}
+
+export interface DeletedGamesResponse {
+  deletedCount: number;
+  gameIds: string[];
+}
+
+function toModerationGame(game: ModerationGame): ModerationGameResponse {
+  return {
+    id: game.id,
+    name: game.name,
+    ownerId: game.ownerId,
+    ownerName: game.owner?.name ?? null,
+    playerCount: game._count.players,
+    bringerCount: game._count.bringers,
+    status: game._count.bringers === 0 ? 'wunsch' : 'verfuegbar',
+    createdAt: game.createdAt,
+  };
+}
+
+function toTrashedGame(game: TrashedGame): TrashedGameResponse {
+  const deletedAt = game.deletedAt ?? new Date();
+  return {
+    id: game.id,
+    name: game.name,
+    ownerName: game.owner?.name ?? null,
+    deletedByName: game.deletedBy?.name ?? null,
+    playerCount: game._count.players,
+    bringerCount: game._count.bringers,
+    deletedAt,
+    purgeAt: new Date(deletedAt.getTime() + config.trash.retentionDays * DAY_MS),
+  };
+}
+
+function parseParticipantId(value: unknown): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw eventError(EventErrorCodes.PARTICIPANT_NOT_FOUND, 404);
+  }
+  return value;
+}
+
+function parseGameId(value: unknown): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw eventError(EventErrorCodes.GAME_NOT_FOUND, 404);
+  }
+  return value;
+}
+
+function gameNames(game: ModerationGame): string[] {
+  const alternateNames = Array.isArray(game.alternateNames)
+    ? game.alternateNames.filter((name): name is string => typeof name === 'string')
+    : [];
+  return [game.name, ...alternateNames].filter((name) => name.trim().length >= MIN_DUPLICATE_NAME_LENGTH);
+}
+
+/**
+ * Best fuzzy match score between the names (and alternate names) of two games,
+ * in both directions, or 0 if none of them match
+ */
+function nameMatchScore(a: ModerationGame, b: ModerationGame): number {
+  let best = 0;
+  for (const nameA of gameNames(a)) {
+    for (const nameB of gameNames(b)) {
+      const forward = fuzzyMatch(nameA, nameB);
+      const backward = fuzzyMatch(nameB, nameA);
+      best = Math.max(best, forward.matched ? forward.score : 0, backward.matched ? backward.score : 0);
+    }
+  }
+  return best;
+}
+
+/**
+ * Pairs of games that are likely duplicates: linked to the same BGG entry, or
+ * with names that fuzzy-match. Best matches first.
+ */
+function findDuplicateCandidates(games: ModerationGame[]): DuplicateGameCandidate[] {
+  const candidates: DuplicateGameCandidate[] = [];
+
+  for (let i = 0; i < games.length; i++) {
+    for (let j = i + 1; j < games.length; j++) {
+      const a = games[i];
+      const b = games[j];
+      const pair: [ModerationGameResponse, ModerationGameResponse] = [toModerationGame(a), toModerationGame(b)];
+
+      if (a.bggId !== null && a.bggId === b.bggId) {
+        candidates.push({ reason: 'bggId', score: 100, games: pair });
+        continue;
+      }
+
+      const score = nameMatchScore(a, b);
+      if (score > 0) {
+        candidates.push({ reason: 'name', score, games: pair });
+      }
+    }
+  }
+
+  // Shared BGG entries are the surest hint, so they go first at equal score
+  return candidates.sort(
+    (x, y) =>
+      y.score - x.score ||
+      Number(y.reason === 'bggId') - Number(x.reason === 'bggId') ||
+      x.games[0].name.localeCompare(y.games[0].name)
+  );
+}
+
+/**
+ * Parse the minimum age in days of wunsch games that count as stale
+ */
+export function parseStaleDays(value: unknown): number {
+  const days = typeof value === 'string' ? Number(value) : value;
+  if (typeof days !== 'number' || !Number.isInteger(days) || days <= 0) {
+    throw eventError(EventErrorCodes.INVALID_STALE_DAYS);
+  }
+  return days;
+}
+
+/**
+ * EventModerationService lets organizers clean up the participant and game
+ * lists of an event: merge duplicate participants and games, rename games, reassign
+ * game owners, remove stale wunsch games and manage the trash of deleted
+ * games. All actions need co-organizer rights and are announced to connected
+ * clients via SSE.
+ */
+export class EventModerationService {
+  constructor(
+    private prisma: PrismaClient,
+    private events: EventService = new EventService(prisma),
+    private participants: ParticipantService = participantService,
+    private notifications: NotificationService = new NotificationService(prisma)
+  ) {}
+
+  private async findGame(eventId: string, gameId: string): Promise<ModerationGame> {
+    const game = await this.prisma.game.findFirst({
+      where: { id: gameId, eventId, deletedAt: null },
+      include: moderationGameInclude,
+    });
+    if (!game) {
+      throw eventError(EventErrorCodes.GAME_NOT_FOUND, 404);
+    }
+    return game;
+  }
+
+  private async findTrashedGame(eventId: string, gameId: string): Promise<TrashedGame> {
+    const game = await this.prisma.game.findFirst({
+      where: { id: gameId, eventId, deletedAt: { not: null } },
+      include: trashedGameInclude,
+    });
+    if (!game) {
+      throw eventError(EventErrorCodes.GAME_NOT_FOUND, 404);
+    }
+    return game;
+  }
+
+  /**
+   * Wunsch games (nobody brings them) created before the cutoff
+   */
+  private findStaleGames(eventId: string, olderThanDays: number) {
+    return this.prisma.game.findMany({
+      where: {
+        eventId,
+        deletedAt: null,
+        bringers: { none: {} },
+        createdAt: { lt: new Date(Date.now() - olderThanDays * DAY_MS) },
+      },
+      include: moderationGameInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Participants and games of an event with the counts the moderation panel shows
+   */
+  async getOverview(eventId: string, account: AccountResponse): Promise<ModerationOverviewResponse> {
+    await this.events.authorizeEvent(eventId, account);
+
+    const [participants, games] = await Promise.all([
+      this.prisma.user.findMany({
+        where: { eventId },
+        include: {
+          _count: {
+            select: {
+              ownedGames: { where: { deletedAt: null } },
+              players: { where: { game: { deletedAt: null } } },
+              bringers: { where: { game: { deletedAt: null } } },
+            },
+          },
+        },
+        orderBy: { name: 'asc' },
+      }),
+      this.prisma.game.findMany({
+        where: { eventId, deletedAt: null },
+        include: moderationGameInclude,
+        orderBy: { name: 'asc' },
+      }),
+    ]);
+
+    return {
+      participants: participants.map((participant) => ({
+        id: participant.id,
+        name: participant.name,
+        ownedGameCount: participant._count.ownedGames,
+        playingCount: participant._count.players,
+        bringingCount: participant._count.bringers,
+        createdAt: participant.createdAt,
+      })),
+      games: games.map(toModerationGame),
+    };
+  }
+
+  /**
+   * Merge a duplicate participant into another one. Player, bringer, hidden-game,
+   * follower, play session, notification and activity rows plus game ownership move
+   * to the target in one transaction; the source participant is deleted afterwards.
+   */
+  async mergeParticipants(
+    eventId: string,
+    account: AccountResponse,
+    input: MergeParticipantsInput
+  ): Promise<MergedParticipantResponse> {
+    await this.events.authorizeEvent(eventId, account);
+    const sourceId = parseParticipantId(input.sourceId);
+    const targetId = parseParticipantId(input.targetId);
+
+    if (sourceId === targetId) {
+      throw eventError(EventErrorCodes.MERGE_SAME_PARTICIPANT);
+    }
+
+    const [source, target] = await Promise.all([
+      this.prisma.user.findFirst({ where: { id: sourceId, eventId } }),
+      this.prisma.user.findFirst({ where: { id: targetId, eventId } }),
+    ]);
+    if (!source || !target) {
+      throw eventError(EventErrorCodes.PARTICIPANT_NOT_FOUND, 404);
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      // Touch the games the source shows up in, so delta syncs pick up the merge
+      await tx.game.updateMany({
+        where: {
+          OR: [
+            { ownerId: source.id },
+            { players: { some: { userId: source.id } } },
+            { bringers: { some: { userId: source.id } } },
+            { hiddenBy: { some: { userId: source.id } } },
+            { followers: { some: { userId: source.id } } },
+          ],
+        },
+        data: { updatedAt: new Date() },
+      });
+
+      // Rows for games the target is already linked to would break the
+      // (game, user) unique constraints, so those are dropped instead of moved
+      const targetPlayerGames = await tx.player.findMany({ where: { userId: target.id }, select: { gameId: true } });
+      await tx.player.deleteMany({
+        where: { userId: source.id, gameId: { in: targetPlayerGames.map((row) => row.gameId) } },
+      });
+      await tx.player.updateMany({ where: { userId: source.id }, data: { userId: target.id } });
+
+      const targetBringerGames = await tx.bringer.findMany({ where: { userId: target.id }, select: { gameId: true } });
+      await tx.bringer.deleteMany({
+        where: { userId: source.id, gameId: { in: targetBringerGames.map((row) => row.gameId) } },
+      });
+      await tx.bringer.updateMany({ where: { userId: source.id }, data: { userId: target.id } });
+
+      const targetHiddenGames = await tx.hiddenGame.findMany({ where: { userId: target.id }, select: { gameId: true } });
+      await tx.hiddenGame.deleteMany({
+        where: { userId: source.id, gameId: { in: targetHiddenGames.map((row) => row.gameId) } },
+      });
+      await tx.hiddenGame.updateMany({ where: { userId: source.id }, data: { userId: target.id } });
+
+      // Bringers cannot hide a game, so games the target now brings become visible again
+      const mergedBringerGames = await tx.bringer.findMany({ where: { userId: target.id }, select: { gameId: true } });
+      await tx.hiddenGame.deleteMany({
+        where: { userId: target.id, gameId: { in: mergedBringerGames.map((row) => row.gameId) } },
+      });
+
+      // Sessions both of them joined keep a single seat
+      const targetSessions = await tx.playSessionSeat.findMany({ where: { userId: target.id }, select: { sessionId: true } });
+      await tx.playSessionSeat.deleteMany({
+        where: { userId: source.id, sessionId: { in: targetSessions.map((row) => row.sessionId) } },
+      });
+      await tx.playSessionSeat.updateMany({ where: { userId: source.id }, data: { userId: target.id } });
+      await tx.playSession.updateMany({ where: { createdById: source.id }, data: { createdById: target.id } });
+
+      const targetFollowedGames = await tx.gameFollower.findMany({ where: { userId: target.id }, select: { gameId: true } });
+      await tx.gameFollower.deleteMany({
+        where: { userId: source.id, gameId: { in: targetFollowedGames.map((row) => row.gameId) } },
+      });
+      await tx.gameFollower.updateMany({ where: { userId: source.id }, data: { userId: target.id } });
+
+      await tx.notification.updateMany({ where: { recipientId: source.id }, data: { recipientId: target.id } });
+      await tx.notification.updateMany({ where: { actorId: source.id }, data: { actorId: target.id } });
+
+      await tx.activityEvent.updateMany({ where: { actorUserId: source.id }, data: { actorUserId: target.id } });
+      await tx.game.updateMany({ where: { ownerId: source.id }, data: { ownerId: target.id } });
+
+      // The merged participant keeps the confirmed spot if either of them had one
+      if (!source.waitlistedAt && target.waitlistedAt) {
+        await tx.user.update({ where: { id: target.id }, data: { waitlistedAt: null } });
+      }
+
+      await tx.user.delete({ where: { id: source.id } });
+    });
+
+    sseManager.broadcast(eventId, {
+      type: 'participant:merged',
+      sourceParticipantId: source.id,
+      targetParticipantId: target.id,
+      targetParticipantName: target.name,
+    });
+
+    // Merging two confirmed participants frees a spot for the waitlist
+    if (!source.waitlistedAt && !target.waitlistedAt) {
+      await this.participants.promoteNextWaitlisted(eventId);
+    }
+
+    return { id: target.id, name: target.name };
+  }
+
+  /**
+   * Games of an event that are likely duplicates of each other, for review
+   * before merging them
+   */
+  async listDuplicateGames(eventId: string, account: AccountResponse): Promise<DuplicateGameCandidate[]> {
+    await this.events.authorizeEvent(eventId, account);
+    const games = await this.prisma.game.findMany({
+      where: { eventId, deletedAt: null },
+      include: moderationGameInclude,
+      orderBy: { name: 'asc' },
+    });
+    return findDuplicateCandidates(games);
+  }
+
+  /**
+   * Merge a duplicate game into another one. Player, bringer, hidden-game and
+   * follower rows plus activity events and notifications move to the target in
+   * one transaction; the source game is deleted afterwards. The target keeps its
+   * name and BGG data.
+   */
+  async mergeGames(eventId: string, account: AccountResponse, input: MergeGamesInput): Promise<ModerationGameResponse> {
+    await this.events.authorizeEvent(eventId, account);
+    const sourceId = parseGameId(input.sourceId);
+    const targetId = parseGameId(input.targetId);
+
+    if (sourceId === targetId) {
+      throw eventError(EventErrorCodes.MERGE_SAME_GAME);
+    }
+
+    const [source, target] = await Promise.all([this.findGame(eventId, sourceId), this.findGame(eventId, targetId)]);
+
+    const merged = await this.prisma.$transaction(async (tx) => {
+      // Rows of participants already linked to the target would break the
+      // (game, user) unique constraints, so those are dropped instead of moved
+      const targetPlayers = await tx.player.findMany({ where: { gameId: target.id }, select: { userId: true } });
+      await tx.player.deleteMany({
+        where: { gameId: source.id, userId: { in: targetPlayers.map((row) => row.userId) } },
+      });
+      await tx.player.updateMany({ where: { gameId: source.id }, data: { gameId: target.id } });
+
+      const targetBringers = await tx.bringer.findMany({ where: { gameId: target.id }, select: { userId: true } });
+      await tx.bringer.deleteMany({
+        where: { gameId: source.id, userId: { in: targetBringers.map((row) => row.userId) } },
+      });
+      await tx.bringer.updateMany({ where: { gameId: source.id }, data: { gameId: target.id } });
+
+      const targetHidden = await tx.hiddenGame.findMany({ where: { gameId: target.id }, select: { userId: true } });
+      await tx.hiddenGame.deleteMany({
+        where: { gameId: source.id, userId: { in: targetHidden.map((row) => row.userId) } },
+      });
+      await tx.hiddenGame.updateMany({ where: { gameId: source.id }, data: { gameId: target.id } });
+
+      // Bringers cannot hide a game, so the merged bringers see the target again
+      const mergedBringers = await tx.bringer.findMany({ where: { gameId: target.id }, select: { userId: true } });
+      await tx.hiddenGame.deleteMany({
+        where: { gameId: target.id, userId: { in: mergedBringers.map((row) => row.userId) } },
+      });
+
+      const targetFollowers = await tx.gameFollower.findMany({ where: { gameId: target.id }, select: { userId: true } });
+      await tx.gameFollower.deleteMany({
+        where: { gameId: source.id, userId: { in: targetFollowers.map((row) => row.userId) } },
+      });
+      await tx.gameFollower.updateMany({ where: { gameId: source.id }, data: { gameId: target.id } });
+
+      await tx.activityEvent.updateMany({ where: { gameId: source.id }, data: { gameId: target.id } });
+      await tx.notification.updateMany({ where: { gameId: source.id }, data: { gameId: target.id } });
+      await tx.playSession.updateMany({ where: { gameId: source.id }, data: { gameId: target.id } });
+
+      await tx.game.delete({ where: { id: source.id } });
+      await tx.gameTombstone.create({ data: { gameId: source.id, eventId } });
+
+      // Touch the target so delta syncs pick up the moved rows
+      return tx.game.update({
+        where: { id: target.id },
+        data: { updatedAt: new Date() },
+        include: moderationGameInclude,
+      });
+    });
+
+    if (source.bggId === null) {
+      try {
+        await thumbnailService.deleteThumbnails(source.id);
+      } catch (error) {
+        console.error(`[EventModerationService] Failed to delete thumbnails for game ${source.id}:`, error);
+      }
+    }
+
+    sseManager.broadcast(eventId, {
+      type: 'game:merged',
+      gameId: merged.id,
+      gameName: merged.name,
+      sourceGameId: source.id,
+    });
+
+    return toModerationGame(merged);
+  }
+
+  /**
+   * Rename a game and/or change its owner. ownerId null leaves the game without owner.
+   */
+  async moderateGame(
+    eventId: string,
+    gameId: string,
+    account: AccountResponse,
+    input: ModerateGameInput
+  ): Promise<ModerationGameResponse> {
+    await this.events.authorizeEvent(eventId, account);
+    let game = await this.findGame(eventId, gameId);
+
+    if (input.name !== undefined) {
+      const name = typeof input.name === 'string' ? input.name.trim() : '';
+      if (!name) {
+        throw eventError(EventErrorCodes.MISSING_GAME_NAME);
+      }
+
+      if (name !== game.name) {
+        const existing = await this.prisma.game.findFirst({
+          where: { eventId, name, id: { not: gameId } },
+          select: { id: true },
+        });
+        if (existing) {
+          throw eventError(EventErrorCodes.GAME_NAME_TAKEN, 409);
+        }
+
+        try {
+          game = await this.prisma.game.update({
+            where: { id: gameId },
+            data: { name },
+            include: moderationGameInclude,
+          });
+        } catch (error) {
+          // A parallel create or rename took the name after the check
+          if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+            throw eventError(EventErrorCodes.GAME_NAME_TAKEN, 409);
+          }
+          throw error;
+        }
+        sseManager.broadcast(eventId, { type: 'game:renamed', gameId, gameName: game.name });
+      }
+    }
+
+    if (input.ownerId !== undefined) {
+      if (input.ownerId !== null && typeof input.ownerId !== 'string') {
+        throw eventError(EventErrorCodes.PARTICIPANT_NOT_FOUND, 404);
+      }
+      const ownerId = input.ownerId;
+
+      if (ownerId !== game.ownerId) {
+        if (ownerId !== null) {
+          const owner = await this.prisma.user.findFirst({ where: { id: ownerId, eventId }, select: { id: true } });
+          if (!owner) {
+            throw eventError(EventErrorCodes.PARTICIPANT_NOT_FOUND, 404);
+          }
+        }
+
+        game = await this.prisma.game.update({
+          where: { id: gameId },
+          data: { ownerId },
+          include: moderationGameInclude,
+        });
+        sseManager.broadcast(eventId, {
+          type: 'game:owner-changed',
+          gameId,
+          ownerId: game.ownerId,
+          ownerName: game.owner?.name ?? null,
+        });
+      }
+    }
+
+    return toModerationGame(game);
+  }
+
+  /**
+   * Preview the wunsch games a stale-games cleanup would delete
+   */
+  async listStaleGames(eventId: string, account: AccountResponse, olderThanDays: unknown): Promise<ModerationGameResponse[]> {
+    await this.events.authorizeEvent(eventId, account);
+    const games = await this.findStaleGames(eventId, parseStaleDays(olderThanDays));
+    return games.map(toModerationGame);
+  }
+
+  /**
+   * Move all wunsch games older than the given number of days to the trash.
+   * Like a single delete, players, bringers and thumbnails stay for a restore.
+   */
+  async deleteStaleGames(eventId: string, account: AccountResponse, olderThanDays: unknown): Promise<DeletedGamesResponse> {
+    await this.events.authorizeEvent(eventId, account);
+    const games = await this.findStaleGames(eventId, parseStaleDays(olderThanDays));
+    if (games.length === 0) {
+      return { deletedCount: 0, gameIds: [] };
+    }
+
+    const candidateIds = games.map((game) => game.id);
+    const audiences = await this.notifications.findAudiences(candidateIds);
+    // Re-check the bringer condition so games that got a bringer meanwhile survive.
+    // Organizers are no participants, so deletedById stays empty.
+    const deletedAt = new Date();
+    await this.prisma.game.updateMany({
+      where: { id: { in: candidateIds }, eventId, deletedAt: null, bringers: { none: {} } },
+      data: { deletedAt, deletedById: null },
+    });
+    const trashed = await this.prisma.game.findMany({
+      where: { id: { in: candidateIds }, deletedAt },
+      select: { id: true },
+    });
+    const trashedIds = new Set(trashed.map((game) => game.id));
+    const deleted = games.filter((game) => trashedIds.has(game.id));
+    const gameIds = deleted.map((game) => game.id);
+
+    if (gameIds.length > 0) {
+      sseManager.broadcast(eventId, { type: 'games:deleted', gameIds });
+    }
+
+    for (const game of deleted) {
+      await this.notifications.notifyGame(
+        { eventId, gameId: game.id, gameName: game.name, type: 'game_deleted', actorId: null },
+        audiences.get(game.id)
+      );
+    }
+
+    return { deletedCount: gameIds.length, gameIds };
+  }
+
+  /**
+   * Games in the trash of an event, most recently deleted first
+   */
+  async listTrash(eventId: string, account: AccountResponse): Promise<TrashedGameResponse[]> {
+    await this.events.authorizeEvent(eventId, account);
+    const games = await this.prisma.game.findMany({
+      where: { eventId, deletedAt: { not: null } },
+      include: trashedGameInclude,
+      orderBy: { deletedAt: 'desc' },
+    });
+    return games.map(toTrashedGame);
+  }
+
+  /**
+   * Take a game out of the trash with all its players and bringers
+   */
+  async restoreTrashedGame(eventId: string, gameId: string, account: AccountResponse): Promise<ModerationGameResponse> {
+    await this.events.authorizeEvent(eventId, account);
+    await this.findTrashedGame(eventId, gameId);
+
+    const game = await this.prisma.game.update({
+      where: { id: gameId },
+      data: { deletedAt: null, deletedById: null },
+      include: moderationGameInclude,
+    });
+    sseManager.broadcast(eventId, { type: 'game:restored', gameId, gameName: game.name, participantId: null });
+
+    return toModerationGame(game);
+  }
+
+  /**
+   * Delete a game from the trash for good, before its retention period ends
+   */
+  async purgeTrashedGame(eventId: string, gameId: string, account: AccountResponse): Promise<void> {
+    await this.events.authorizeEvent(eventId, account);
+    const game = await this.findTrashedGame(eventId, gameId);
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.game.delete({ where: { id: gameId } });
+      await tx.gameTombstone.create({ data: { gameId, eventId } });
+    });
+
+    if (game.bggId === null) {
+      try {
+        await thumbnailService.deleteThumbnails(game.id);
+      } catch (error) {
+        console.error(`[EventModerationService] Failed to delete thumbnails for game ${game.id}:`, error);
+      }
+    }
+  }
+}
@@ -4,18 +4,21 @@ import { config } from '../config';
 export interface EventTokenPayload {
   eventId: string;
   type: 'event';
+  // Must match Event.tokenVersion; bumping the version revokes all issued tokens
+  tokenVersion?: number;
 }
 
 export class EventTokenService {
   /**
    * Sign a JWT for event authentication.
-   * Includes { eventId, type: 'event' } claims, signed with JWT_SECRET,
+   * Includes { eventId, type: 'event', tokenVersion } claims, signed with JWT_SECRET,
    * expiring per EVENT_TOKEN_EXPIRY config (default '7d').
    */
-  sign(eventId: string): string {
+  sign(eventId: string, tokenVersion?: number): string {
     const payload: EventTokenPayload = {
       eventId,
       type: 'event',
+      ...(tokenVersion !== undefined ? { tokenVersion } : {}),
     };
 
     return jwt.sign(payload, config.jwt.secret, {
@@ -39,6 +42,7 @@ export class EventTokenService {
       return {
         eventId: decoded.eventId as string,
         type: 'event',
+        ...(typeof decoded.tokenVersion === 'number' ? { tokenVersion: decoded.tokenVersion } : {}),
       };
     } catch {
       return null;
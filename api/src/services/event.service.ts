@@ -1,13 +1,195 @@
 import bcrypt from 'bcryptjs';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma, type Event } from '@prisma/client';
 import { config } from '../config';
+import type { AccountResponse } from '../types/account';
+import {
+  EventResponse,
+  PublicEventResponse,
+  EventMetadataInput,
+  CreateEventInput,
+  CloneEventInput,
+  CloneGameSelection,
+  CLONE_GAME_SELECTIONS,
+  EventErrorCodes,
+  EventErrorMessages,
+  EventErrorCode,
+  EventStatus,
+  EVENT_STATUSES,
+  EventRole,
+} from '../types/event';
+import { ParticipantService, participantService } from './participant.service';
 
 const BCRYPT_COST_FACTOR = 12;
+const MAX_LOCATION_LENGTH = 255;
+const MIN_SLUG_LENGTH = 3;
+const MAX_SLUG_LENGTH = 100;
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+type EventMetadataData = Partial<
+  Pick<
+    Event,
+    'name' | 'startsAt' | 'endsAt' | 'location' | 'capacity' | 'notes' | 'fees' | 'status' | 'activityRetentionDays'
+  >
+>;
+
+export interface EventAccess {
+  status: EventStatus;
+  tokenVersion: number;
+}
+
+export interface ListEventsOptions {
+  includeArchived?: boolean;
+}
+
+export interface AuthorizedEvent {
+  event: Event;
+  role: EventRole;
+}
+
+const EVENT_ROLE_RANK: Record<EventRole, number> = {
+  viewer: 0,
+  co_organizer: 1,
+  owner: 2,
+};
+
+/**
+ * Whether a role grants at least the permissions of the required role
+ */
+export function hasEventRole(role: EventRole, minimumRole: EventRole): boolean {
+  return EVENT_ROLE_RANK[role] >= EVENT_ROLE_RANK[minimumRole];
+}
+
+export class EventError extends Error {
+  constructor(
+    public code: string,
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'EventError';
+  }
+}
+
+export function eventError(code: EventErrorCode, statusCode: number = 400): EventError {
+  return new EventError(code, EventErrorMessages[code], statusCode);
+}
+
+/**
+ * Parse an optional date field.
+ * undefined = not provided, null/'' = clear the value.
+ */
+function parseOptionalDate(value: unknown): Date | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  if (typeof value !== 'string' && !(value instanceof Date)) {
+    throw eventError(EventErrorCodes.INVALID_DATE);
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw eventError(EventErrorCodes.INVALID_DATE);
+  }
+  return date;
+}
+
+/**
+ * Parse an optional free-text field. Empty strings clear the value.
+ */
+function parseOptionalText(value: unknown, maxLength?: number): string | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null) return null;
+  if (typeof value !== 'string') {
+    throw eventError(EventErrorCodes.VALIDATION_ERROR);
+  }
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  if (maxLength !== undefined && trimmed.length > maxLength) {
+    throw eventError(EventErrorCodes.VALIDATION_ERROR);
+  }
+  return trimmed;
+}
+
+/**
+ * Turn an event name into a URL-friendly slug ("Spieletreff März" -> "spieletreff-maerz").
+ */
+export function slugify(value: string): string {
+  const slug = value
+    .toLowerCase()
+    .replace(/ä/g, 'ae')
+    .replace(/ö/g, 'oe')
+    .replace(/ü/g, 'ue')
+    .replace(/ß/g, 'ss')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_SLUG_LENGTH - 10)
+    .replace(/-+$/, '');
+
+  return slug.length >= MIN_SLUG_LENGTH ? slug : `event-${slug || 'neu'}`;
+}
+
+function parseOptionalSlug(value: unknown): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string') {
+    throw eventError(EventErrorCodes.INVALID_SLUG);
+  }
+  const slug = value.trim().toLowerCase();
+  if (slug.length < MIN_SLUG_LENGTH || slug.length > MAX_SLUG_LENGTH || !SLUG_PATTERN.test(slug)) {
+    throw eventError(EventErrorCodes.INVALID_SLUG);
+  }
+  return slug;
+}
+
+function parseOptionalCapacity(value: unknown): number | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  const capacity = typeof value === 'string' ? Number(value) : value;
+  if (typeof capacity !== 'number' || !Number.isInteger(capacity) || capacity <= 0) {
+    throw eventError(EventErrorCodes.INVALID_CAPACITY);
+  }
+  return capacity;
+}
+
+function parseOptionalRetentionDays(value: unknown): number | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  const days = typeof value === 'string' ? Number(value) : value;
+  if (typeof days !== 'number' || !Number.isInteger(days) || days <= 0) {
+    throw eventError(EventErrorCodes.INVALID_RETENTION_DAYS);
+  }
+  return days;
+}
+
+function parseOptionalStatus(value: unknown): EventStatus | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || !EVENT_STATUSES.includes(value as EventStatus)) {
+    throw eventError(EventErrorCodes.INVALID_STATUS);
+  }
+  return value as EventStatus;
+}
+
+/**
+ * Locked and archived events stay readable but reject new games and bringer changes
+ */
+export function isReadOnlyStatus(status: EventStatus): boolean {
+  return status === 'locked' || status === 'archived';
+}
+
+function parseCloneGameSelection(value: unknown): CloneGameSelection {
+  if (value === undefined) return 'none';
+  if (typeof value !== 'string' || !CLONE_GAME_SELECTIONS.includes(value as CloneGameSelection)) {
+    throw eventError(EventErrorCodes.INVALID_CLONE_OPTIONS);
+  }
+  return value as CloneGameSelection;
+}
 
 export class EventService {
   private defaultEventId: string | null = null;
 
-  constructor(private prisma: PrismaClient) {}
+  constructor(
+    private prisma: PrismaClient,
+    private participants: ParticipantService = participantService
+  ) {}
 
   async hashPassword(password: string): Promise<string> {
     return bcrypt.hash(password, BCRYPT_COST_FACTOR);
@@ -29,13 +211,16 @@ export class EventService {
     }
 
     const passwordHash = await this.hashPassword(config.auth.eventPassword);
+    const slug = await this.generateUniqueSlug(config.event.name);
 
     const created = await this.prisma.event.create({
       data: {
         name: config.event.name,
+        slug,
         passwordHash,
         isDefault: true,
         ownerAccountId,
+        memberships: { create: { accountId: ownerAccountId, role: 'owner' } },
       },
       select: { id: true },
     });
@@ -68,6 +253,84 @@ export class EventService {
     });
   }
 
+  /**
+   * Look up an event by its slug for join links.
+   * Only public fields are returned; the caller still needs the event password.
+   */
+  async getPublicEventBySlug(slug: string): Promise<PublicEventResponse> {
+    const event = await this.prisma.event.findUnique({
+      where: { slug: slug.toLowerCase() },
+    });
+
+    if (!event) {
+      throw eventError(EventErrorCodes.EVENT_NOT_FOUND, 404);
+    }
+
+    return {
+      id: event.id,
+      name: event.name,
+      slug: event.slug,
+      startsAt: event.startsAt,
+      endsAt: event.endsAt,
+      location: event.location,
+      status: event.status,
+    };
+  }
+
+  /**
+   * Derive a unique slug from an event name by appending -2, -3, ... on collision
+   */
+  async generateUniqueSlug(name: string): Promise<string> {
+    const base = slugify(name);
+    let candidate = base;
+    let suffix = 2;
+
+    while (await this.prisma.event.findUnique({ where: { slug: candidate }, select: { id: true } })) {
+      candidate = `${base}-${suffix}`;
+      suffix += 1;
+    }
+
+    return candidate;
+  }
+
+  /**
+   * Validate a requested slug and make sure no other event uses it
+   */
+  private async resolveRequestedSlug(value: unknown, eventId?: string): Promise<string | undefined> {
+    const slug = parseOptionalSlug(value);
+    if (slug === undefined) return undefined;
+
+    const existing = await this.prisma.event.findUnique({
+      where: { slug },
+      select: { id: true },
+    });
+    if (existing && existing.id !== eventId) {
+      throw eventError(EventErrorCodes.SLUG_TAKEN, 409);
+    }
+
+    return slug;
+  }
+
+  /**
+   * Load what requireEventAuth needs to validate an event token.
+   * Returns null if the event does not exist.
+   */
+  async getEventAccess(eventId: string): Promise<EventAccess | null> {
+    const event = await this.prisma.event.findUnique({
+      where: { id: eventId },
+      select: { status: true, tokenVersion: true },
+    });
+
+    if (!event) {
+      return null;
+    }
+
+    return {
+      status: event.status,
+      tokenVersion: event.tokenVersion,
+    };
+  }
+
   async verifyEventPassword(eventId: string, password: string): Promise<boolean> {
     const event = await this.getEventById(eventId);
     if (!event) {
@@ -92,4 +355,425 @@ export class EventService {
       data: { eventId },
     });
   }
+
+  /**
+   * Convert a Prisma event to EventResponse (never exposes the password hash)
+   */
+  toEventResponse(event: Event): EventResponse {
+    return {
+      id: event.id,
+      name: event.name,
+      slug: event.slug,
+      startsAt: event.startsAt,
+      endsAt: event.endsAt,
+      location: event.location,
+      capacity: event.capacity,
+      notes: event.notes,
+      fees: event.fees,
+      status: event.status,
+      isDefault: event.isDefault,
+      ownerAccountId: event.ownerAccountId,
+      activityRetentionDays: event.activityRetentionDays,
+      createdAt: event.createdAt,
+      updatedAt: event.updatedAt,
+    };
+  }
+
+  /**
+   * Role of an account for an event. Admins and the owner account act as owner,
+   * everyone else needs a membership.
+   */
+  private resolveEventRole(
+    event: Pick<Event, 'ownerAccountId'>,
+    account: AccountResponse,
+    membership: { role: EventRole } | null | undefined
+  ): EventRole | null {
+    if (account.role === 'admin' || event.ownerAccountId === account.id) {
+      return 'owner';
+    }
+    return membership?.role ?? null;
+  }
+
+  /**
+   * Load an event and ensure the account holds at least the given role.
+   * This is the single place where organizer permissions are enforced.
+   */
+  async authorizeEvent(
+    eventId: string,
+    account: AccountResponse,
+    minimumRole: EventRole = 'co_organizer'
+  ): Promise<AuthorizedEvent> {
+    const event = await this.getEventById(eventId);
+
+    if (!event) {
+      throw eventError(EventErrorCodes.EVENT_NOT_FOUND, 404);
+    }
+
+    const membership =
+      account.role === 'admin' || event.ownerAccountId === account.id
+        ? null
+        : await this.prisma.eventMembership.findUnique({
+            where: { eventId_accountId: { eventId, accountId: account.id } },
+            select: { role: true },
+          });
+    const role = this.resolveEventRole(event, account, membership);
+
+    if (!role || !hasEventRole(role, minimumRole)) {
+      throw eventError(EventErrorCodes.NOT_AUTHORIZED, 403);
+    }
+
+    return { event, role };
+  }
+
+  /**
+   * Non-throwing variant of authorizeEvent for optional privileges
+   */
+  async canAccessEvent(
+    eventId: string,
+    account: AccountResponse,
+    minimumRole: EventRole = 'co_organizer'
+  ): Promise<boolean> {
+    try {
+      await this.authorizeEvent(eventId, account, minimumRole);
+      return true;
+    } catch (error) {
+      if (error instanceof EventError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * List events visible to an account: owned events and events with a membership
+   * (admins see all events). Each event carries the account's role.
+   * Archived events are left out unless explicitly requested.
+   */
+  async listEventsForAccount(
+    account: AccountResponse,
+    options: ListEventsOptions = {}
+  ): Promise<EventResponse[]> {
+    const events = await this.prisma.event.findMany({
+      where: {
+        ...(account.role === 'admin'
+          ? {}
+          : {
+              OR: [
+                { ownerAccountId: account.id },
+                { memberships: { some: { accountId: account.id } } },
+              ],
+            }),
+        ...(options.includeArchived ? {} : { status: { not: 'archived' as const } }),
+      },
+      include: {
+        memberships: { where: { accountId: account.id }, select: { role: true } },
+      },
+      orderBy: [{ startsAt: 'desc' }, { createdAt: 'desc' }],
+    });
+    return events.map((event) => ({
+      ...this.toEventResponse(event),
+      role: this.resolveEventRole(event, account, event.memberships[0]) ?? 'viewer',
+    }));
+  }
+
+  /**
+   * Validate metadata fields shared by create and update.
+   * Only fields present in the input are returned.
+   */
+  private parseMetadata(
+    input: EventMetadataInput,
+    existing?: Pick<Event, 'startsAt' | 'endsAt'>
+  ): EventMetadataData {
+    const data: EventMetadataData = {};
+
+    if (input.name !== undefined) {
+      if (typeof input.name !== 'string' || !input.name.trim()) {
+        throw eventError(EventErrorCodes.MISSING_NAME);
+      }
+      data.name = input.name.trim();
+    }
+
+    const startsAt = parseOptionalDate(input.startsAt);
+    const endsAt = parseOptionalDate(input.endsAt);
+    if (startsAt !== undefined) data.startsAt = startsAt;
+    if (endsAt !== undefined) data.endsAt = endsAt;
+
+    const effectiveStart = startsAt !== undefined ? startsAt : existing?.startsAt ?? null;
+    const effectiveEnd = endsAt !== undefined ? endsAt : existing?.endsAt ?? null;
+    if (effectiveStart && effectiveEnd && effectiveEnd <= effectiveStart) {
+      throw eventError(EventErrorCodes.INVALID_DATE_RANGE);
+    }
+
+    const location = parseOptionalText(input.location, MAX_LOCATION_LENGTH);
+    const notes = parseOptionalText(input.notes);
+    const fees = parseOptionalText(input.fees);
+    const capacity = parseOptionalCapacity(input.capacity);
+    if (location !== undefined) data.location = location;
+    if (notes !== undefined) data.notes = notes;
+    if (fees !== undefined) data.fees = fees;
+    if (capacity !== undefined) data.capacity = capacity;
+
+    const status = parseOptionalStatus(input.status);
+    if (status !== undefined) data.status = status;
+
+    const activityRetentionDays = parseOptionalRetentionDays(input.activityRetentionDays);
+    if (activityRetentionDays !== undefined) data.activityRetentionDays = activityRetentionDays;
+
+    return data;
+  }
+
+  private validateEventPassword(password: unknown): string {
+    if (typeof password !== 'string' || !password.trim()) {
+      throw eventError(EventErrorCodes.MISSING_PASSWORD);
+    }
+    return password;
+  }
+
+  /**
+   * Create a new event owned by the given account
+   */
+  async createEvent(ownerAccountId: string, input: CreateEventInput): Promise<EventResponse> {
+    if (input.name === undefined) {
+      throw eventError(EventErrorCodes.MISSING_NAME);
+    }
+    const password = this.validateEventPassword(input.password);
+    const metadata = this.parseMetadata(input);
+    const slug =
+      (await this.resolveRequestedSlug(input.slug)) ??
+      (await this.generateUniqueSlug(metadata.name as string));
+    const passwordHash = await this.hashPassword(password);
+
+    const event = await this.prisma.event.create({
+      data: {
+        ...metadata,
+        name: metadata.name as string,
+        slug,
+        passwordHash,
+        ownerAccountId,
+        memberships: { create: { accountId: ownerAccountId, role: 'owner' } },
+      },
+    });
+
+    return this.toEventResponse(event);
+  }
+
+  /**
+   * Create a new event from an existing one (requires co-organizer role).
+   * The organizer team of the source event is carried over.
+   * Location, capacity, notes, fees and the activity retention are carried over;
+   * dates only if given.
+   * The clone starts as draft and keeps the source password unless a new one is set.
+   * Options copy the participant roster and either the "verfügbar" games with their
+   * bringers or the wunsch games. Bringers are copied along with their games even
+   * without the full roster. Copied games keep their BGG data.
+   * The copied roster keeps the capacity: confirmed participants come first, everyone
+   * beyond the capacity of the clone is waitlisted in their previous order.
+   */
+  async cloneEvent(
+    eventId: string,
+    account: AccountResponse,
+    input: CloneEventInput
+  ): Promise<EventResponse> {
+    const { event: source } = await this.authorizeEvent(eventId, account);
+
+    if (input.includeParticipants !== undefined && typeof input.includeParticipants !== 'boolean') {
+      throw eventError(EventErrorCodes.INVALID_CLONE_OPTIONS);
+    }
+    const includeParticipants = input.includeParticipants === true;
+    const gameSelection = parseCloneGameSelection(input.games);
+
+    const metadata = this.parseMetadata(input);
+    const name = metadata.name ?? `${source.name} (Kopie)`;
+    const slug =
+      (await this.resolveRequestedSlug(input.slug)) ?? (await this.generateUniqueSlug(name));
+    const passwordHash =
+      input.password !== undefined
+        ? await this.hashPassword(this.validateEventPassword(input.password))
+        : source.passwordHash;
+
+    const sourceGames =
+      gameSelection === 'none'
+        ? []
+        : await this.prisma.game.findMany({
+            where: { eventId: source.id, deletedAt: null },
+            include: { bringers: true },
+            orderBy: { createdAt: 'asc' },
+          });
+    const games = sourceGames.filter((game) =>
+      gameSelection === 'available' ? game.bringers.length > 0 : game.bringers.length === 0
+    );
+
+    const bringerIds = new Set(
+      gameSelection === 'available'
+        ? games.flatMap((game) => game.bringers.map((bringer) => bringer.userId))
+        : []
+    );
+    const users =
+      includeParticipants || bringerIds.size > 0
+        ? await this.prisma.user.findMany({
+            where: includeParticipants
+              ? { eventId: source.id }
+              : { eventId: source.id, id: { in: [...bringerIds] } },
+            orderBy: { createdAt: 'asc' },
+          })
+        : [];
+    const roster = [
+      ...users.filter((user) => !user.waitlistedAt),
+      ...users
+        .filter((user) => user.waitlistedAt)
+        .sort((a, b) => a.waitlistedAt!.getTime() - b.waitlistedAt!.getTime()),
+    ];
+    const teamMembers = await this.prisma.eventMembership.findMany({
+      where: { eventId: source.id, accountId: { not: source.ownerAccountId } },
+      select: { accountId: true, role: true },
+    });
+
+    const event = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.event.create({
+        data: {
+          location: source.location,
+          capacity: source.capacity,
+          notes: source.notes,
+          fees: source.fees,
+          activityRetentionDays: source.activityRetentionDays,
+          status: 'draft',
+          ...metadata,
+          name,
+          slug,
+          passwordHash,
+          ownerAccountId: source.ownerAccountId,
+          memberships: {
+            create: [{ accountId: source.ownerAccountId, role: 'owner' }, ...teamMembers],
+          },
+        },
+      });
+
+      // Distinct waitlist timestamps keep the order of the waitlist in the clone
+      const waitlistStart = Date.now();
+      const userIdMap = new Map<string, string>();
+      for (const [index, user] of roster.entries()) {
+        const waitlistPosition = created.capacity === null ? -1 : index - created.capacity;
+        const copy = await tx.user.create({
+          data: {
+            eventId: created.id,
+            name: user.name,
+            waitlistedAt: waitlistPosition >= 0 ? new Date(waitlistStart + waitlistPosition) : null,
+          },
+        });
+        userIdMap.set(user.id, copy.id);
+      }
+
+      for (const game of games) {
+        const bringerUserIds =
+          gameSelection === 'available'
+            ? game.bringers
+                .map((bringer) => userIdMap.get(bringer.userId))
+                .filter((userId): userId is string => userId !== undefined)
+            : [];
+
+        await tx.game.create({
+          data: {
+            eventId: created.id,
+            name: game.name,
+            ownerId: game.ownerId ? userIdMap.get(game.ownerId) ?? null : null,
+            bggId: game.bggId,
+            yearPublished: game.yearPublished,
+            bggRating: game.bggRating,
+            addedAsAlternateName: game.addedAsAlternateName,
+            alternateNames: game.alternateNames as Prisma.InputJsonValue,
+            isPrototype: game.isPrototype,
+            minPlayers: game.minPlayers,
+            maxPlayers: game.maxPlayers,
+            bestPlayerCounts: game.bestPlayerCounts,
+            recommendedPlayerCounts: game.recommendedPlayerCounts,
+            minPlayTime: game.minPlayTime,
+            maxPlayTime: game.maxPlayTime,
+            weight: game.weight,
+            bringers: {
+              create: bringerUserIds.map((userId) => ({ userId })),
+            },
+          },
+        });
+      }
+
+      return created;
+    });
+
+    return this.toEventResponse(event);
+  }
+
+  /**
+   * Update event metadata (requires co-organizer role)
+   */
+  async updateEvent(
+    eventId: string,
+    account: AccountResponse,
+    input: EventMetadataInput
+  ): Promise<EventResponse> {
+    const { event: existing } = await this.authorizeEvent(eventId, account);
+    const data = this.parseMetadata(input, existing);
+    const slug = await this.resolveRequestedSlug(input.slug, eventId);
+
+    const event = await this.prisma.event.update({
+      where: { id: eventId },
+      data: slug !== undefined ? { ...data, slug } : data,
+    });
+
+    // A raised or removed capacity frees spots for the waitlist
+    if (data.capacity !== undefined) {
+      await this.participants.fillFromWaitlist(eventId);
+    }
+
+    return this.toEventResponse(event);
+  }
+
+  /**
+   * Rotate the event password (requires co-organizer role).
+   * Bumps the token version so previously issued event tokens are rejected.
+   */
+  async changeEventPassword(
+    eventId: string,
+    account: AccountResponse,
+    password: unknown
+  ): Promise<void> {
+    await this.authorizeEvent(eventId, account);
+    const validPassword = this.validateEventPassword(password);
+    const passwordHash = await this.hashPassword(validPassword);
+
+    await this.prisma.event.update({
+      where: { id: eventId },
+      data: { passwordHash, tokenVersion: { increment: 1 } },
+    });
+  }
+
+  /**
+   * Sign out every participant by bumping the token version (requires co-organizer role).
+   * Useful when the event password has leaked; participants need to enter the password again.
+   */
+  async revokeEventTokens(eventId: string, account: AccountResponse): Promise<EventResponse> {
+    await this.authorizeEvent(eventId, account);
+
+    const event = await this.prisma.event.update({
+      where: { id: eventId },
+      data: { tokenVersion: { increment: 1 } },
+    });
+
+    return this.toEventResponse(event);
+  }
+
+  /**
+   * Delete an event and all its participants and games (owner only).
+   * The default event cannot be deleted.
+   */
+  async deleteEvent(eventId: string, account: AccountResponse): Promise<void> {
+    const { event } = await this.authorizeEvent(eventId, account, 'owner');
+
+    if (event.isDefault) {
+      throw eventError(EventErrorCodes.DEFAULT_EVENT_DELETE);
+    }
+
+    await this.prisma.event.delete({
+      where: { id: eventId },
+    });
+  }
 }
@@ -1,14 +1,90 @@
-import { gameRepository, GameRepository, participantRepository, ParticipantRepository } from '../repositories';
+import {
+  gameRepository,
+  GameRepository,
+  participantRepository,
+  ParticipantRepository,
+  TrashedGameRecord,
+} from '../repositories';
+import { config } from '../config';
 import { sseManager } from './sse.service';
 import { activityLogService } from './activityLog.service';
+import { notificationService } from './notification.service';
+import { assertNotWaitlisted } from './participant.service';
 import { thumbnailService } from './thumbnailService';
-import type { Game, GameEntity, Player, Bringer, PlayerEntity, BringerEntity } from '../types';
+import { bggCache } from './bggCache';
+import { EMPTY_BGG_PLAY_DATA } from '../types';
+import type {
+  Game,
+  GameChanges,
+  GameEntity,
+  Player,
+  Bringer,
+  PlayerEntity,
+  BringerEntity,
+  UpdateGameDto,
+  InterestLevel,
+} from '../types';
 
 interface DeleteGameOptions {
   allowNonOwner?: boolean;
   allowNonEmpty?: boolean;
 }
 
+interface RestoreGameOptions {
+  allowNonOwner?: boolean;
+}
+
+interface UpdateGameInput {
+  name?: string;
+  // null removes the BGG link
+  bggId?: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Delta syncs look this far behind the cursor, so changes written by an API
+// instance with a slightly late clock are not missed
+const SYNC_OVERLAP_MS = 5000;
+
+function codedError(message: string, code: string): Error {
+  const error = new Error(message);
+  (error as Error & { code: string }).code = code;
+  return error;
+}
+
+function validationError(message: string): Error {
+  return codedError(message, 'VALIDATION_ERROR');
+}
+
+/**
+ * Details of a GAME_IN_TRASH error: the trashed game and who can restore it
+ */
+export interface GameInTrashDetails {
+  gameId: string;
+  /** Whether the requesting participant may restore the game (owner or deleter) */
+  canRestore: boolean;
+  /** Names of the participants who may restore the game; organizers always can */
+  restorers: string[];
+}
+
+/**
+ * Sync cursors of the game list wrap the time the list was read
+ */
+export function encodeGameSyncCursor(syncedAt: Date): string {
+  return Buffer.from(syncedAt.toISOString()).toString('base64url');
+}
+
+/**
+ * @throws Error with code VALIDATION_ERROR and a German message
+ */
+export function decodeGameSyncCursor(cursor: unknown): Date {
+  const syncedAt = typeof cursor === 'string' && cursor ? new Date(Buffer.from(cursor, 'base64url').toString()) : null;
+  if (!syncedAt || Number.isNaN(syncedAt.getTime())) {
+    throw validationError('Ungültiger Cursor.');
+  }
+  return syncedAt;
+}
+
 /**
  * GameService handles business logic for game management.
  * Transforms database entities to API response format and derives game status.
@@ -33,6 +109,7 @@ export class GameService {
         name: player.participant.name,
       },
       addedAt: player.addedAt,
+      interestLevel: player.interestLevel,
     };
   }
 
@@ -66,7 +143,7 @@ export class GameService {
    * Requirements: 4.3, 4.4 - Include bggId and yearPublished
    * Feature: 014-alternate-names-search - Include alternate name data
    */
-  private transformGame(entity: GameEntity, isHidden: boolean = false): Game {
+  private transformGame(entity: GameEntity, isHidden: boolean = false, isFollowed: boolean = false): Game {
     return {
       id: entity.id,
       name: entity.name,
@@ -77,7 +154,15 @@ export class GameService {
       addedAsAlternateName: entity.addedAsAlternateName,
       alternateNames: entity.alternateNames ?? [],
       isPrototype: entity.isPrototype,
+      minPlayers: entity.minPlayers,
+      maxPlayers: entity.maxPlayers,
+      bestPlayerCounts: entity.bestPlayerCounts,
+      recommendedPlayerCounts: entity.recommendedPlayerCounts,
+      minPlayTime: entity.minPlayTime,
+      maxPlayTime: entity.maxPlayTime,
+      weight: entity.weight,
       isHidden,
+      isFollowed,
       players: entity.players.map((p) => this.transformPlayer(p)),
       bringers: entity.bringers.map((b) => this.transformBringer(b)),
       status: this.deriveStatus(entity.bringers.length),
@@ -85,18 +170,75 @@ export class GameService {
     };
   }
 
+  /**
+   * Transforms a GameEntity with the hidden and followed state of a participant
+   */
+  private async transformGameForParticipant(entity: GameEntity, participantId: string): Promise<Game> {
+    const [isHidden, isFollowed] = await Promise.all([
+      this.repository.isGameHiddenForParticipant(entity.id, participantId),
+      this.repository.isGameFollowedByParticipant(entity.id, participantId),
+    ]);
+    return this.transformGame(entity, isHidden, isFollowed);
+  }
+
   /**
    * Get all games with players and bringers
    * @returns Array of all games in API format
    */
   async getAllGames(eventId: string, participantId?: string): Promise<Game[]> {
     const entities = await this.repository.findAll(eventId);
+    return this.transformGamesForParticipant(entities, participantId);
+  }
+
+  /**
+   * Get the games changed or deleted since a sync cursor, so clients can
+   * update their list without loading it again
+   * @param cursor - Cursor of the previous sync
+   * @throws Error with code VALIDATION_ERROR if the cursor is invalid
+   */
+  async getGameChanges(eventId: string, cursor: unknown, participantId?: string): Promise<GameChanges> {
+    const since = decodeGameSyncCursor(cursor);
+    const syncedAt = new Date();
+    const nextCursor = encodeGameSyncCursor(syncedAt);
+
+    // Tombstones of older deletes may be pruned already
+    const oldestDelta = syncedAt.getTime() - config.gameSync.tombstoneRetentionDays * DAY_MS;
+    if (since.getTime() < oldestDelta) {
+      const games = await this.getAllGames(eventId, participantId);
+      return { games, deletedGameIds: [], cursor: nextCursor, full: true };
+    }
+
+    const changedSince = new Date(since.getTime() - SYNC_OVERLAP_MS);
+    const [entities, deletedGameIds] = await Promise.all([
+      this.repository.findChangedSince(eventId, changedSince),
+      this.repository.findDeletedIdsSince(eventId, changedSince),
+    ]);
+    const games = await this.transformGamesForParticipant(entities, participantId);
+    return { games, deletedGameIds, cursor: nextCursor, full: false };
+  }
+
+  /**
+   * Cursor for delta syncs of a game list read now
+   */
+  createSyncCursor(): string {
+    return encodeGameSyncCursor(new Date());
+  }
+
+  /**
+   * Transforms GameEntities with the hidden and followed state of a participant
+   */
+  private async transformGamesForParticipant(entities: GameEntity[], participantId?: string): Promise<Game[]> {
     if (!participantId) {
       return entities.map((entity) => this.transformGame(entity, false));
     }
 
-    const hiddenGameIds = await this.repository.findHiddenGameIdsByParticipant(participantId);
-    return entities.map((entity) => this.transformGame(entity, hiddenGameIds.has(entity.id)));
+    const [hiddenGameIds, followedGameIds] = await Promise.all([
+      this.repository.findHiddenGameIdsByParticipant(participantId),
+      this.repository.findFollowedGameIdsByParticipant(participantId),
+    ]);
+    return entities.map((entity) =>
+      this.transformGame(entity, hiddenGameIds.has(entity.id), followedGameIds.has(entity.id))
+    );
   }
 
   /**
@@ -115,8 +257,44 @@ export class GameService {
       return this.transformGame(entity, false);
     }
 
-    const isHidden = await this.repository.isGameHiddenForParticipant(gameId, participantId);
-    return this.transformGame(entity, isHidden);
+    return this.transformGameForParticipant(entity, participantId);
+  }
+
+  /**
+   * Error for a name that is taken by a game in the trash. Participants who
+   * cannot restore the game themselves are told whom to ask.
+   */
+  private async gameInTrashError(
+    eventId: string,
+    trashedGame: TrashedGameRecord,
+    participantId: string,
+    action: string
+  ): Promise<Error> {
+    const canRestore = trashedGame.ownerId === participantId || trashedGame.deletedById === participantId;
+    const restorerIds = [...new Set([trashedGame.ownerId, trashedGame.deletedById])].filter(
+      (id): id is string => id !== null
+    );
+    const restorers: string[] = [];
+    for (const restorerId of restorerIds) {
+      const restorer = await this.participantRepo.findById(restorerId, eventId);
+      if (restorer) {
+        restorers.push(restorer.name);
+      }
+    }
+
+    let message = 'Ein Spiel mit diesem Namen liegt im Papierkorb. ';
+    if (canRestore) {
+      message += `Stelle es wieder her, statt es ${action}.`;
+    } else if (restorers.length > 0) {
+      message += `Wiederherstellen können es nur ${restorers.join(', ')} oder die Organisation.`;
+    } else {
+      message += 'Wiederherstellen kann es nur die Organisation.';
+    }
+
+    const error = codedError(message, 'GAME_IN_TRASH');
+    const details: GameInTrashDetails = { gameId: trashedGame.id, canRestore, restorers };
+    (error as Error & { details: GameInTrashDetails }).details = details;
+    return error;
   }
 
   /**
@@ -133,6 +311,8 @@ export class GameService {
    * @param alternateNames - Optional array of all alternate names
    * @returns The created game in API format
    * @throws Error with German message if game name is empty or already exists
+   * @throws Error with code GAME_IN_TRASH if a game of the same name is in the trash
+   * @throws Error with code PARTICIPANT_WAITLISTED if the participant is waitlisted
    * 
    * Requirements: 3.1, 3.3, 3.4, 4.1, 4.3, 4.4
    * Feature: 014-alternate-names-search - Store alternate name data
@@ -162,6 +342,18 @@ export class GameService {
       throw new Error('Ein Spiel mit diesem Namen existiert bereits.');
     }
 
+    // Names stay unique including the trash, so a trashed game of the same name has to be restored
+    const trashedGame = await this.repository.findTrashedByName(trimmedName, eventId);
+    if (trashedGame) {
+      throw await this.gameInTrashError(eventId, trashedGame, participantId, 'neu anzulegen');
+    }
+
+    const participant = await this.participantRepo.findById(participantId, eventId);
+    assertNotWaitlisted(participant);
+
+    // Player count and play time come from the enriched BGG entry
+    const playData = bggId !== undefined ? await this.repository.findBggPlayData(bggId) : {};
+
     try {
       const entity = await this.repository.create({
         eventId,
@@ -175,16 +367,14 @@ export class GameService {
         bggRating,
         addedAsAlternateName,
         alternateNames,
+        ...playData,
       });
       
       const game = this.transformGame(entity);
-      
-      // Get participant name for SSE event
-      const participant = await this.participantRepo.findById(participantId, eventId);
       const participantName = participant?.name || 'Unbekannt';
       
       // Broadcast game:created event
-      sseManager.broadcast({
+      sseManager.broadcast(eventId, {
         type: 'game:created',
         gameId: game.id,
         participantId,
@@ -199,6 +389,7 @@ export class GameService {
         gameId: game.id,
         eventId,
         metadata: {
+          gameName: game.name,
           isBringing,
           isPlaying,
           isPrototype: game.isPrototype,
@@ -220,23 +411,30 @@ export class GameService {
    * Add a player to a game
    * @param gameId - The game's unique identifier
    * @param participantId - The participant's ID to add as a player
+   * @param interestLevel - How much the participant wants to play the game. If the
+   *   participant already plays the game, only their interest level is changed.
    * @returns The updated game in API format
    * @throws Error with German message if game not found or participant already a player
+   * @throws Error with code PARTICIPANT_WAITLISTED if the participant is waitlisted
    * 
    * Requirements: 3.5, 4.2
    */
-  async addPlayer(eventId: string, gameId: string, participantId: string): Promise<Game> {
+  async addPlayer(
+    eventId: string,
+    gameId: string,
+    participantId: string,
+    interestLevel?: InterestLevel
+  ): Promise<Game> {
+    const participant = await this.participantRepo.findById(participantId, eventId);
+    assertNotWaitlisted(participant);
+
     try {
-      const entity = await this.repository.addPlayer(gameId, participantId, eventId);
-      const isHidden = await this.repository.isGameHiddenForParticipant(gameId, participantId);
-      const game = this.transformGame(entity, isHidden);
-      
-      // Get participant name for SSE event
-      const participant = await this.participantRepo.findById(participantId, eventId);
+      const entity = await this.repository.addPlayer(gameId, participantId, eventId, interestLevel);
+      const game = await this.transformGameForParticipant(entity, participantId);
       const participantName = participant?.name || 'Unbekannt';
       
       // Broadcast game:player-added event
-      sseManager.broadcast({
+      sseManager.broadcast(eventId, {
         type: 'game:player-added',
         gameId,
         participantId,
@@ -249,6 +447,7 @@ export class GameService {
         eventType: 'player_added',
         gameId,
         eventId,
+        metadata: { gameName: game.name },
       });
       
       return game;
@@ -259,6 +458,9 @@ export class GameService {
         }
         // Handle Prisma unique constraint violation
         if (error.message.includes('Unique constraint')) {
+          if (interestLevel !== undefined) {
+            return this.updatePlayerInterest(eventId, gameId, participantId, interestLevel);
+          }
           throw new Error('Du bist bereits als Mitspieler eingetragen.');
         }
       }
@@ -266,6 +468,36 @@ export class GameService {
     }
   }
 
+  /**
+   * Change the interest level of a participant who already plays a game.
+   * Broadcasts a game:updated event; no activity is logged.
+   */
+  private async updatePlayerInterest(
+    eventId: string,
+    gameId: string,
+    participantId: string,
+    interestLevel: InterestLevel
+  ): Promise<Game> {
+    try {
+      const entity = await this.repository.updatePlayerInterest(gameId, participantId, eventId, interestLevel);
+      const game = await this.transformGameForParticipant(entity, participantId);
+
+      sseManager.broadcast(eventId, { type: 'game:updated', gameId, participantId, fields: ['players'] });
+
+      return game;
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message === 'Game not found') {
+          throw new Error('Spiel nicht gefunden.');
+        }
+        if (error.message === 'Participant is not a player of this game') {
+          throw new Error('Du bist nicht in dieser Liste eingetragen.');
+        }
+      }
+      throw error;
+    }
+  }
+
   /**
    * Remove a player from a game
    * @param gameId - The game's unique identifier
@@ -278,11 +510,10 @@ export class GameService {
   async removePlayer(eventId: string, gameId: string, participantId: string): Promise<Game> {
     try {
       const entity = await this.repository.removePlayer(gameId, participantId, eventId);
-      const isHidden = await this.repository.isGameHiddenForParticipant(gameId, participantId);
-      const game = this.transformGame(entity, isHidden);
+      const game = await this.transformGameForParticipant(entity, participantId);
       
       // Broadcast game:player-removed event
-      sseManager.broadcast({
+      sseManager.broadcast(eventId, {
         type: 'game:player-removed',
         gameId,
         participantId: participantId,
@@ -293,6 +524,7 @@ export class GameService {
         eventType: 'player_removed',
         gameId,
         eventId,
+        metadata: { gameName: game.name },
       });
       
       return game;
@@ -315,21 +547,22 @@ export class GameService {
    * @param participantId - The participant's ID to add as a bringer
    * @returns The updated game in API format
    * @throws Error with German message if game not found or participant already a bringer
+   * @throws Error with code PARTICIPANT_WAITLISTED if the participant is waitlisted
    * 
    * Requirements: 3.6, 3.7, 4.3
    */
   async addBringer(eventId: string, gameId: string, participantId: string): Promise<Game> {
+    const participant = await this.participantRepo.findById(participantId, eventId);
+    assertNotWaitlisted(participant);
+
     try {
       const entity = await this.repository.addBringer(gameId, participantId, eventId);
       await this.repository.unhideGameIfExists(gameId, participantId);
-      const game = this.transformGame(entity, false);
-      
-      // Get participant name for SSE event
-      const participant = await this.participantRepo.findById(participantId, eventId);
+      const game = await this.transformGameForParticipant(entity, participantId);
       const participantName = participant?.name || 'Unbekannt';
       
       // Broadcast game:bringer-added event
-      sseManager.broadcast({
+      sseManager.broadcast(eventId, {
         type: 'game:bringer-added',
         gameId,
         participantId,
@@ -342,6 +575,15 @@ export class GameService {
         eventType: 'bringer_added',
         gameId,
         eventId,
+        metadata: { gameName: game.name },
+      });
+
+      await notificationService.notifyGame({
+        eventId,
+        gameId,
+        gameName: game.name,
+        type: 'bringer_added',
+        actorId: participantId,
       });
       
       return game;
@@ -371,11 +613,10 @@ export class GameService {
   async removeBringer(eventId: string, gameId: string, participantId: string): Promise<Game> {
     try {
       const entity = await this.repository.removeBringer(gameId, participantId, eventId);
-      const isHidden = await this.repository.isGameHiddenForParticipant(gameId, participantId);
-      const game = this.transformGame(entity, isHidden);
+      const game = await this.transformGameForParticipant(entity, participantId);
       
       // Broadcast game:bringer-removed event
-      sseManager.broadcast({
+      sseManager.broadcast(eventId, {
         type: 'game:bringer-removed',
         gameId,
         participantId: participantId,
@@ -386,6 +627,7 @@ export class GameService {
         eventType: 'bringer_removed',
         gameId,
         eventId,
+        metadata: { gameName: game.name },
       });
       
       return game;
@@ -403,7 +645,8 @@ export class GameService {
   }
 
   /**
-   * Delete a game
+   * Delete a game by moving it to the trash. It can be restored until it is
+   * purged after the retention period.
    * @param gameId - The game's unique identifier
    * @param participantId - The participant's ID requesting deletion (must be owner unless overridden)
    * @param options - Optional overrides for event owner/admin deletes
@@ -413,7 +656,6 @@ export class GameService {
    *   - Game has other players or bringers besides the owner (400)
    * 
    * Requirements: 3.2, 3.5, 3.6, 3.7
-   * Feature: 023-custom-thumbnail-upload - Clean up thumbnails on deletion
    */
   async deleteGame(
     eventId: string,
@@ -448,22 +690,11 @@ export class GameService {
       throw error;
     }
 
-    // Clean up custom thumbnails for non-BGG games (Requirement 3.1, 3.3)
-    // Only delete thumbnails for games without a BGG ID
-    if (entity.bggId === null) {
-      try {
-        await thumbnailService.deleteThumbnails(gameId);
-      } catch (error) {
-        // Log but don't prevent game deletion (Requirement 3.2)
-        console.error(`[GameService] Failed to delete thumbnails for game ${gameId}:`, error);
-      }
-    }
-
-    // Delete the game
-    await this.repository.delete(gameId, eventId);
+    // Move the game to the trash; players, bringers and thumbnails stay for a restore
+    await this.repository.softDelete(gameId, eventId, participantId);
     
     // Broadcast game:deleted event
-    sseManager.broadcast({
+    sseManager.broadcast(eventId, {
       type: 'game:deleted',
       gameId,
       participantId: participantId,
@@ -474,9 +705,113 @@ export class GameService {
       eventType: 'game_deleted',
       gameId,
       eventId,
+      metadata: { gameId, gameName: entity.name },
+    });
+
+    await notificationService.notifyGame({
+      eventId,
+      gameId,
+      gameName: entity.name,
+      type: 'game_deleted',
+      actorId: participantId,
     });
   }
 
+  /**
+   * Restore a game from the trash with all its players and bringers
+   * @param gameId - The game's unique identifier
+   * @param participantId - The participant requesting the restore (must be owner or the one who deleted it unless overridden)
+   * @param options - Optional overrides for event owner/admin restores
+   * @returns The restored game in API format
+   * @throws Error with German message if:
+   *   - Game is not in the trash (404)
+   *   - Participant neither owns nor deleted the game (403)
+   */
+  async restoreGame(
+    eventId: string,
+    gameId: string,
+    participantId: string,
+    options: RestoreGameOptions = {}
+  ): Promise<Game> {
+    const trashed = await this.repository.findTrashedById(gameId, eventId);
+
+    if (!trashed) {
+      const error = new Error('Spiel nicht gefunden.');
+      (error as Error & { code: string }).code = 'GAME_NOT_FOUND';
+      throw error;
+    }
+
+    if (!options.allowNonOwner && trashed.ownerId !== participantId && trashed.deletedById !== participantId) {
+      const error = new Error('Du bist nicht berechtigt, dieses Spiel wiederherzustellen.');
+      (error as Error & { code: string }).code = 'FORBIDDEN';
+      throw error;
+    }
+
+    const entity = await this.repository.restore(gameId, eventId);
+    if (!entity) {
+      const error = new Error('Spiel nicht gefunden.');
+      (error as Error & { code: string }).code = 'GAME_NOT_FOUND';
+      throw error;
+    }
+
+    sseManager.broadcast(eventId, {
+      type: 'game:restored',
+      gameId,
+      gameName: entity.name,
+      participantId,
+    });
+
+    await activityLogService.logEvent({
+      actorParticipantId: participantId,
+      eventType: 'game_restored',
+      gameId,
+      eventId,
+      metadata: { gameId, gameName: entity.name },
+    });
+
+    return this.transformGameForParticipant(entity, participantId);
+  }
+
+  /**
+   * Delete all games that have been in the trash longer than the retention period
+   * @param retentionDays - Days a deleted game stays restorable
+   * @returns Number of purged games
+   */
+  async purgeExpiredTrash(retentionDays: number = config.trash.retentionDays): Promise<number> {
+    const expired = await this.repository.findTrashedBefore(new Date(Date.now() - retentionDays * DAY_MS));
+    for (const game of expired) {
+      await this.purgeGame(game);
+    }
+    return expired.length;
+  }
+
+  /**
+   * Delete the tombstones of games deleted for good before the retention period
+   * @returns Number of deleted tombstones
+   */
+  async purgeExpiredTombstones(retentionDays: number = config.gameSync.tombstoneRetentionDays): Promise<number> {
+    return this.repository.deleteTombstonesBefore(new Date(Date.now() - retentionDays * DAY_MS));
+  }
+
+  /**
+   * Delete a trashed game for good
+   * Feature: 023-custom-thumbnail-upload - Clean up thumbnails on deletion
+   */
+  private async purgeGame(game: TrashedGameRecord): Promise<void> {
+    // Clean up custom thumbnails for non-BGG games (Requirement 3.1, 3.3)
+    // Only delete thumbnails for games without a BGG ID
+    if (game.bggId === null) {
+      try {
+        await thumbnailService.deleteThumbnails(game.id);
+      } catch (error) {
+        // Log but don't prevent game deletion (Requirement 3.2)
+        console.error(`[GameService] Failed to delete thumbnails for game ${game.id}:`, error);
+      }
+    }
+
+    await this.repository.delete(game.id, game.eventId);
+  }
+
   /**
    * Toggle prototype status for a game
    * @param gameId - The game's unique identifier
@@ -513,11 +848,10 @@ export class GameService {
 
     // Update prototype status
     const updatedEntity = await this.repository.updatePrototype(gameId, isPrototype, eventId);
-    const isHidden = await this.repository.isGameHiddenForParticipant(gameId, participantId);
-    const game = this.transformGame(updatedEntity, isHidden);
+    const game = await this.transformGameForParticipant(updatedEntity, participantId);
 
     // Broadcast game:prototype-toggled event
-    sseManager.broadcast({
+    sseManager.broadcast(eventId, {
       type: 'game:prototype-toggled',
       gameId,
       participantId: participantId,
@@ -529,12 +863,102 @@ export class GameService {
       eventType: 'prototype_toggled',
       gameId,
       eventId,
-      metadata: { isPrototype },
+      metadata: { gameName: game.name, isPrototype },
     });
 
     return game;
   }
 
+  /**
+   * Edit the name and/or BGG link of a game. Linking to a BGG entry re-fills
+   * year, rating and alternate names from the BGG cache, unlinking clears them.
+   * Only the owner can edit a game.
+   * @returns The updated game
+   * @throws Error with code GAME_NOT_FOUND, FORBIDDEN, VALIDATION_ERROR, DUPLICATE_GAME or GAME_IN_TRASH
+   */
+  async updateGame(eventId: string, gameId: string, participantId: string, input: UpdateGameInput): Promise<Game> {
+    const entity = await this.repository.findById(gameId, eventId);
+    if (!entity) {
+      throw codedError('Spiel nicht gefunden.', 'GAME_NOT_FOUND');
+    }
+    if (entity.ownerId !== participantId) {
+      throw codedError('Du bist nicht berechtigt, dieses Spiel zu bearbeiten.', 'FORBIDDEN');
+    }
+
+    const data: UpdateGameDto = {};
+    if (input.name !== undefined) {
+      const trimmedName = input.name.trim();
+      if (!trimmedName) {
+        throw validationError('Bitte einen Spielnamen eingeben.');
+      }
+      if (trimmedName !== entity.name) {
+        const existingGame = await this.repository.findByName(trimmedName, eventId);
+        if (existingGame) {
+          throw codedError('Ein Spiel mit diesem Namen existiert bereits.', 'DUPLICATE_GAME');
+        }
+        // Names stay unique including the trash, so a trashed game of the same name has to be restored
+        const trashedGame = await this.repository.findTrashedByName(trimmedName, eventId);
+        if (trashedGame) {
+          throw await this.gameInTrashError(eventId, trashedGame, participantId, 'umzubenennen');
+        }
+        data.name = trimmedName;
+      }
+    }
+
+    if (input.bggId !== undefined && input.bggId !== entity.bggId) {
+      if (input.bggId === null) {
+        Object.assign(data, {
+          bggId: null,
+          yearPublished: null,
+          bggRating: null,
+          addedAsAlternateName: null,
+          alternateNames: [],
+          ...EMPTY_BGG_PLAY_DATA,
+        });
+      } else {
+        const bggGame = bggCache.getById(input.bggId);
+        if (!bggGame) {
+          throw validationError('BGG-Eintrag nicht gefunden.');
+        }
+        const name = data.name ?? entity.name;
+        Object.assign(data, {
+          bggId: bggGame.id,
+          yearPublished: bggGame.yearPublished,
+          bggRating: bggGame.rating,
+          addedAsAlternateName: name !== bggGame.name && bggGame.alternateNames.includes(name) ? name : null,
+          alternateNames: bggGame.alternateNames,
+          // Games on BGG are no prototypes
+          isPrototype: false,
+          ...(await this.repository.findBggPlayData(bggGame.id)),
+        });
+      }
+    }
+
+    const fields = Object.keys(data);
+    if (fields.length === 0) {
+      return this.transformGameForParticipant(entity, participantId);
+    }
+
+    let updatedEntity: GameEntity;
+    try {
+      updatedEntity = await this.repository.update(gameId, data, eventId);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Game not found') {
+        throw codedError('Spiel nicht gefunden.', 'GAME_NOT_FOUND');
+      }
+      // Handle Prisma unique constraint violation
+      if (error instanceof Error && error.message.includes('Unique constraint')) {
+        throw codedError('Ein Spiel mit diesem Namen existiert bereits.', 'DUPLICATE_GAME');
+      }
+      throw error;
+    }
+    const game = await this.transformGameForParticipant(updatedEntity, participantId);
+
+    sseManager.broadcast(eventId, { type: 'game:updated', gameId, participantId, fields });
+
+    return game;
+  }
+
   /**
    * Hide a game for a participant
    * @param gameId - The game's unique identifier
@@ -570,7 +994,11 @@ export class GameService {
       eventId,
     });
 
-    return this.transformGame(entity, true);
+    // Other devices of the participant pick up the hidden state
+    sseManager.broadcast(eventId, { type: 'game:updated', gameId, participantId, fields: ['isHidden'] });
+
+    const isFollowed = await this.repository.isGameFollowedByParticipant(gameId, participantId);
+    return this.transformGame(entity, true, isFollowed);
   }
 
   /**
@@ -599,7 +1027,65 @@ export class GameService {
       eventId,
     });
 
-    return this.transformGame(entity, false);
+    sseManager.broadcast(eventId, { type: 'game:updated', gameId, participantId, fields: ['isHidden'] });
+
+    const isFollowed = await this.repository.isGameFollowedByParticipant(gameId, participantId);
+    return this.transformGame(entity, false, isFollowed);
+  }
+
+  /**
+   * Follow a game for a participant, so they are notified about it without
+   * playing or bringing it
+   * @param gameId - The game's unique identifier
+   * @param participantId - The participant's ID following the game
+   * @returns The updated game in API format (with isFollowed = true)
+   * @throws Error with German message if game not found or already followed
+   */
+  async followGame(eventId: string, gameId: string, participantId: string): Promise<Game> {
+    const entity = await this.repository.findById(gameId, eventId);
+
+    if (!entity) {
+      throw new Error('Spiel nicht gefunden.');
+    }
+
+    try {
+      await this.repository.followGame(gameId, participantId);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('Unique constraint')) {
+        throw new Error('Du folgst diesem Spiel bereits.');
+      }
+      throw error;
+    }
+
+    sseManager.broadcast(eventId, { type: 'game:updated', gameId, participantId, fields: ['isFollowed'] });
+
+    const isHidden = await this.repository.isGameHiddenForParticipant(gameId, participantId);
+    return this.transformGame(entity, isHidden, true);
+  }
+
+  /**
+   * Stop following a game for a participant
+   * @param gameId - The game's unique identifier
+   * @param participantId - The participant's ID unfollowing the game
+   * @returns The updated game in API format (with isFollowed = false)
+   * @throws Error with German message if game not found or not followed
+   */
+  async unfollowGame(eventId: string, gameId: string, participantId: string): Promise<Game> {
+    const entity = await this.repository.findById(gameId, eventId);
+
+    if (!entity) {
+      throw new Error('Spiel nicht gefunden.');
+    }
+
+    const removed = await this.repository.unfollowGame(gameId, participantId);
+    if (!removed) {
+      throw new Error('Du folgst diesem Spiel nicht.');
+    }
+
+    sseManager.broadcast(eventId, { type: 'game:updated', gameId, participantId, fields: ['isFollowed'] });
+
+    const isHidden = await this.repository.isGameHiddenForParticipant(gameId, participantId);
+    return this.transformGame(entity, isHidden, false);
   }
 }
 
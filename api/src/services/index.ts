@@ -12,9 +12,14 @@ export type { ImportStatus } from './bggImportService';
 export { BggEnrichmentService, bggEnrichmentService } from './bggEnrichmentService';
 export type { EnrichmentData, BulkEnrichmentStatus } from './bggEnrichmentService';
 export { ActivityLogService, activityLogService } from './activityLog.service';
+export { ActivityArchiveService } from './activityArchive.service';
 export { EventService } from './event.service';
 export { GameService, gameService } from './game.service';
+export { NotificationService, notificationService } from './notification.service';
 export { SSEManager, sseManager } from './sse.service';
+export { InMemorySSETransport, PostgresSSETransport } from './sse-transport';
+export type { SSEMessage, SSETransport } from './sse-transport';
 export { StatisticsService, statisticsService } from './statistics.service';
 export { ParticipantService, participantService } from './participant.service';
+export { PlaySessionService, playSessionService } from './playSession.service';
 export type { Participant } from './participant.service';
@@ -0,0 +1,205 @@
+import type { PrismaClient, Prisma } from '@prisma/client';
+import { prisma } from '../db/prisma';
+import type {
+  NotificationEntry,
+  NotificationListQuery,
+  NotificationListResponse,
+  NotificationType,
+} from '../types/notification';
+
+export interface GameNotificationInput {
+  eventId: string;
+  gameId: string;
+  gameName: string;
+  type: NotificationType;
+  // null when an organizer acted
+  actorId: string | null;
+}
+
+export const DEFAULT_NOTIFICATION_LIMIT = 50;
+export const MAX_NOTIFICATION_LIMIT = 100;
+
+const notificationInclude = {
+  actor: { select: { id: true, name: true } },
+  game: { select: { id: true, name: true } },
+} satisfies Prisma.NotificationInclude;
+
+type NotificationRow = Prisma.NotificationGetPayload<{ include: typeof notificationInclude }>;
+
+function validationError(message: string): Error {
+  const error = new Error(message);
+  (error as Error & { code: string }).code = 'VALIDATION_ERROR';
+  return error;
+}
+
+function readMetadata(metadata: Prisma.JsonValue): Record<string, unknown> {
+  return metadata !== null && typeof metadata === 'object' && !Array.isArray(metadata) ? metadata : {};
+}
+
+/**
+ * Parse the query string of GET /api/notifications.
+ * unread=true lists unread notifications only.
+ * @throws Error with code VALIDATION_ERROR and a German message
+ */
+export function parseNotificationListQuery(query: Record<string, unknown>): NotificationListQuery {
+  let limit: number | undefined;
+  if (query.limit !== undefined) {
+    limit = Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_NOTIFICATION_LIMIT) {
+      throw validationError(`Das Limit muss zwischen 1 und ${MAX_NOTIFICATION_LIMIT} liegen.`);
+    }
+  }
+
+  return { unreadOnly: query.unread === 'true', limit };
+}
+
+/**
+ * German inbox sentence for a notification
+ */
+function describeNotification(type: NotificationType, actorName: string | null, gameName: string): string {
+  switch (type) {
+    case 'bringer_added':
+      return `${actorName ?? 'Jemand'} bringt ${gameName} mit`;
+    case 'game_deleted':
+      return actorName ? `${actorName} hat ${gameName} gelöscht` : `${gameName} wurde vom Orga-Team gelöscht`;
+  }
+}
+
+function toNotificationEntry(row: NotificationRow): NotificationEntry {
+  // Purged games lose their row, so the name stored with the notification is the fallback
+  const metadata = readMetadata(row.metadata);
+  const gameName = row.game?.name ?? (typeof metadata.gameName === 'string' ? metadata.gameName : 'ein gelöschtes Spiel');
+  const actor = row.actor ? { id: row.actor.id, name: row.actor.name } : null;
+
+  return {
+    id: row.id,
+    type: row.type,
+    createdAt: row.createdAt,
+    readAt: row.readAt,
+    actor,
+    game: { id: row.game?.id ?? null, name: gameName },
+    message: describeNotification(row.type, actor?.name ?? null, gameName),
+  };
+}
+
+/**
+ * NotificationService fills the inbox of participants who play, bring or
+ * follow a game when something happens to that game.
+ */
+export class NotificationService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Participants who play, bring or follow each of the games
+   * @returns participant IDs per game ID
+   */
+  async findAudiences(gameIds: string[]): Promise<Map<string, Set<string>>> {
+    const audiences = new Map<string, Set<string>>(gameIds.map((gameId) => [gameId, new Set<string>()]));
+    if (gameIds.length === 0) {
+      return audiences;
+    }
+
+    const where = { gameId: { in: gameIds } };
+    const select = { gameId: true, userId: true };
+    const [players, bringers, followers] = await Promise.all([
+      this.prisma.player.findMany({ where, select }),
+      this.prisma.bringer.findMany({ where, select }),
+      this.prisma.gameFollower.findMany({ where, select }),
+    ]);
+
+    for (const { gameId, userId } of [...players, ...bringers, ...followers]) {
+      audiences.get(gameId)?.add(userId);
+    }
+    return audiences;
+  }
+
+  /**
+   * Notify everyone who plays, brings or follows a game, except the actor.
+   * Games deleted for good have lost their players, so their audience is looked
+   * up before the delete and passed in; the notifications then keep the game in
+   * their metadata only. Failures are logged and never break the action.
+   */
+  async notifyGame(input: GameNotificationInput, audience?: Set<string>): Promise<void> {
+    try {
+      const recipients = audience ?? (await this.findAudiences([input.gameId])).get(input.gameId) ?? new Set<string>();
+      const recipientIds = [...recipients].filter((id) => id !== input.actorId);
+      if (recipientIds.length === 0) {
+        return;
+      }
+
+      await this.prisma.notification.createMany({
+        data: recipientIds.map((recipientId) => ({
+          recipientId,
+          actorId: input.actorId,
+          type: input.type,
+          gameId: audience ? null : input.gameId,
+          eventId: input.eventId,
+          metadata: { gameId: input.gameId, gameName: input.gameName },
+        })),
+      });
+    } catch (error) {
+      console.error('[NotificationService] Failed to store notifications:', error);
+    }
+  }
+
+  /**
+   * Newest notifications of a participant first, with the number of unread ones
+   */
+  async getNotifications(
+    eventId: string,
+    participantId: string,
+    query: NotificationListQuery = {}
+  ): Promise<NotificationListResponse> {
+    const where: Prisma.NotificationWhereInput = { eventId, recipientId: participantId };
+
+    const [rows, unreadCount] = await Promise.all([
+      this.prisma.notification.findMany({
+        where: query.unreadOnly ? { ...where, readAt: null } : where,
+        include: notificationInclude,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: query.limit ?? DEFAULT_NOTIFICATION_LIMIT,
+      }),
+      this.prisma.notification.count({ where: { ...where, readAt: null } }),
+    ]);
+
+    return { notifications: rows.map(toNotificationEntry), unreadCount };
+  }
+
+  /**
+   * Mark one notification of a participant as read
+   * @throws Error with German message if the notification does not belong to the participant
+   */
+  async markRead(eventId: string, participantId: string, notificationId: string): Promise<NotificationEntry> {
+    const existing = await this.prisma.notification.findFirst({
+      where: { id: notificationId, eventId, recipientId: participantId },
+      include: notificationInclude,
+    });
+    if (!existing) {
+      throw new Error('Benachrichtigung nicht gefunden.');
+    }
+    if (existing.readAt) {
+      return toNotificationEntry(existing);
+    }
+
+    const row = await this.prisma.notification.update({
+      where: { id: notificationId },
+      data: { readAt: new Date() },
+      include: notificationInclude,
+    });
+    return toNotificationEntry(row);
+  }
+
+  /**
+   * Mark all notifications of a participant as read
+   * @returns number of notifications that were unread
+   */
+  async markAllRead(eventId: string, participantId: string): Promise<number> {
+    const { count } = await this.prisma.notification.updateMany({
+      where: { eventId, recipientId: participantId, readAt: null },
+      data: { readAt: new Date() },
+    });
+    return count;
+  }
+}
+
+export const notificationService = new NotificationService(prisma);
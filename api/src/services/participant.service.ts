@@ -1,5 +1,6 @@
 import { participantRepository, ParticipantRepository, ParticipantEntity } from '../repositories/participant.repository';
 import { activityLogService } from './activityLog.service';
+import { sseManager } from './sse.service';
 
 /**
  * Maximum allowed length for participant names (after trimming whitespace)
@@ -13,6 +14,32 @@ export const MAX_USERNAME_LENGTH = 30;
 export interface Participant {
   id: string;
   name: string;
+  /** 1-based position on the waitlist; only present while the participant is waitlisted */
+  waitlistPosition?: number;
+}
+
+/**
+ * Capacity overview for an event's participant list.
+ * capacity and remainingSpots are null when the event has no limit.
+ */
+export interface ParticipantCapacity {
+  capacity: number | null;
+  confirmed: number;
+  remainingSpots: number | null;
+  waitlisted: number;
+}
+
+/**
+ * Rejects taking part (adding, bringing or playing games, play session seats)
+ * while the participant is on the waitlist of a full event.
+ * @throws Error with code PARTICIPANT_WAITLISTED if the participant is waitlisted
+ */
+export function assertNotWaitlisted(participant: Pick<ParticipantEntity, 'waitlistedAt'> | null): void {
+  if (participant?.waitlistedAt) {
+    const error = new Error('Du stehst auf der Warteliste. Sobald ein Platz frei wird, kannst du mitmachen.');
+    (error as Error & { code: string }).code = 'PARTICIPANT_WAITLISTED';
+    throw error;
+  }
 }
 
 /**
@@ -27,11 +54,25 @@ export class ParticipantService {
   /**
    * Transforms a ParticipantEntity from the database to the API Participant format
    */
-  private transformParticipant(entity: ParticipantEntity): Participant {
-    return {
+  private transformParticipant(entity: ParticipantEntity, waitlistPosition?: number): Participant {
+    const participant: Participant = {
       id: entity.id,
       name: entity.name,
     };
+    if (waitlistPosition !== undefined) {
+      participant.waitlistPosition = waitlistPosition;
+    }
+    return participant;
+  }
+
+  /**
+   * Maps waitlisted participant IDs to their 1-based position (earliest first)
+   */
+  private getWaitlistPositions(entities: ParticipantEntity[]): Map<string, number> {
+    const waitlisted = entities
+      .filter((entity) => entity.waitlistedAt)
+      .sort((a, b) => a.waitlistedAt!.getTime() - b.waitlistedAt!.getTime());
+    return new Map(waitlisted.map((entity, index) => [entity.id, index + 1]));
   }
 
   /**
@@ -60,7 +101,24 @@ export class ParticipantService {
    */
   async getAllParticipants(eventId: string): Promise<Participant[]> {
     const entities = await this.repository.findAll(eventId);
-    return entities.map((entity) => this.transformParticipant(entity));
+    const positions = this.getWaitlistPositions(entities);
+    return entities.map((entity) => this.transformParticipant(entity, positions.get(entity.id)));
+  }
+
+  /**
+   * Get the capacity overview of an event
+   * @returns Confirmed and waitlisted counts plus the remaining spots
+   */
+  async getCapacity(eventId: string): Promise<ParticipantCapacity> {
+    const capacity = await this.repository.getEventCapacity(eventId);
+    const confirmed = await this.repository.countConfirmed(eventId);
+    const waitlisted = await this.repository.findWaitlisted(eventId);
+    return {
+      capacity,
+      confirmed,
+      remainingSpots: capacity === null ? null : Math.max(capacity - confirmed, 0),
+      waitlisted: waitlisted.length,
+    };
   }
 
   /**
@@ -81,8 +139,9 @@ export class ParticipantService {
 
   /**
    * Create a new participant
+   * Once the event's capacity is reached, new participants go onto the waitlist.
    * @param name - The participant's name
-   * @returns The created participant in API format
+   * @returns The created participant in API format (with waitlistPosition if waitlisted)
    * @throws Error with German message if name is empty or already exists
    *
    * Requirements: 3.4, 3.5, 3.6
@@ -99,12 +158,23 @@ export class ParticipantService {
 
     try {
       const entity = await this.repository.create(trimmedName, eventId);
+      const isFull = entity.waitlistedAt !== null;
       await activityLogService.logEvent({
         actorParticipantId: entity.id,
         eventType: 'user_created',
         eventId,
       });
-      return this.transformParticipant(entity);
+      sseManager.broadcast(eventId, {
+        type: 'participant:created',
+        participantId: entity.id,
+        participantName: entity.name,
+        isWaitlisted: isFull,
+      });
+      if (!isFull) {
+        return this.transformParticipant(entity);
+      }
+      const positions = this.getWaitlistPositions(await this.repository.findWaitlisted(eventId));
+      return this.transformParticipant(entity, positions.get(entity.id));
     } catch (error) {
       // Handle Prisma unique constraint violation
       if (error instanceof Error && error.message.includes('Unique constraint')) {
@@ -143,6 +213,13 @@ export class ParticipantService {
 
     try {
       const entity = await this.repository.update(id, trimmedName);
+      if (entity.name !== existingParticipant.name) {
+        sseManager.broadcast(eventId, {
+          type: 'participant:renamed',
+          participantId: entity.id,
+          participantName: entity.name,
+        });
+      }
       return this.transformParticipant(entity);
     } catch (error) {
       // Handle Prisma unique constraint violation
@@ -159,6 +236,7 @@ export class ParticipantService {
 
   /**
    * Delete a participant by ID
+   * If a confirmed participant leaves, the first waitlisted participant moves up.
    * @param id - The participant's unique identifier
    * @throws Error with German message if participant not found
    *
@@ -180,6 +258,45 @@ export class ParticipantService {
       }
       throw error;
     }
+
+    sseManager.broadcast(eventId, { type: 'participant:deleted', participantId: id });
+
+    if (!existingParticipant.waitlistedAt) {
+      await this.promoteNextWaitlisted(eventId);
+    }
+  }
+
+  /**
+   * Promotes the longest-waiting participant if a spot is free and notifies clients
+   * @returns The promoted participant, or null if nobody moved up
+   */
+  async promoteNextWaitlisted(eventId: string): Promise<Participant | null> {
+    const promoted = await this.repository.promoteNext(eventId);
+    if (!promoted) {
+      return null;
+    }
+
+    sseManager.broadcast(eventId, {
+      type: 'participant:promoted',
+      participantId: promoted.id,
+      participantName: promoted.name,
+    });
+    return this.transformParticipant(promoted);
+  }
+
+  /**
+   * Promotes waitlisted participants until the event is full or the waitlist is empty,
+   * e.g. after the capacity was raised or removed
+   * @returns The promoted participants in waitlist order
+   */
+  async fillFromWaitlist(eventId: string): Promise<Participant[]> {
+    const promoted: Participant[] = [];
+    let next = await this.promoteNextWaitlisted(eventId);
+    while (next) {
+      promoted.push(next);
+      next = await this.promoteNextWaitlisted(eventId);
+    }
+    return promoted;
   }
 }
 
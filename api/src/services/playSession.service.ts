@@ -0,0 +1,240 @@
+import { Prisma, type PrismaClient } from '@prisma/client';
+import { prisma } from '../db/prisma';
+import { sseManager } from './sse.service';
+import { assertNotWaitlisted } from './participant.service';
+import type { CreatePlaySessionInput, PlaySessionEntry } from '../types/playSession';
+
+export const MAX_TABLE_LABEL_LENGTH = 50;
+export const MAX_SEAT_LIMIT = 20;
+
+const playSessionInclude = {
+  game: { select: { id: true, name: true, bggId: true } },
+  createdBy: { select: { id: true, name: true } },
+  seats: {
+    include: { user: { select: { id: true, name: true } } },
+    orderBy: [{ joinedAt: 'asc' }, { id: 'asc' }],
+  },
+} satisfies Prisma.PlaySessionInclude;
+
+type PlaySessionRow = Prisma.PlaySessionGetPayload<{ include: typeof playSessionInclude }>;
+
+function codedError(message: string, code: string): Error {
+  const error = new Error(message);
+  (error as Error & { code: string }).code = code;
+  return error;
+}
+
+function validationError(message: string): Error {
+  return codedError(message, 'VALIDATION_ERROR');
+}
+
+/**
+ * Parse the body of POST /api/play-sessions.
+ * startsAt is an ISO date string; tableLabel and seatLimit are optional.
+ * @throws Error with code VALIDATION_ERROR and a German message
+ */
+export function parseCreatePlaySessionInput(body: Record<string, unknown>): CreatePlaySessionInput {
+  const { gameId, startsAt, tableLabel, seatLimit } = body;
+
+  if (typeof gameId !== 'string' || gameId.trim() === '') {
+    throw validationError('Bitte ein Spiel auswählen.');
+  }
+
+  const startsAtDate = typeof startsAt === 'string' ? new Date(startsAt) : null;
+  if (!startsAtDate || Number.isNaN(startsAtDate.getTime())) {
+    throw validationError('Bitte eine gültige Startzeit angeben.');
+  }
+
+  if (tableLabel !== undefined && tableLabel !== null && typeof tableLabel !== 'string') {
+    throw validationError('Ungültiger Tisch.');
+  }
+  const trimmedLabel = typeof tableLabel === 'string' ? tableLabel.trim() : '';
+  if (trimmedLabel.length > MAX_TABLE_LABEL_LENGTH) {
+    throw validationError(`Der Tisch darf höchstens ${MAX_TABLE_LABEL_LENGTH} Zeichen lang sein.`);
+  }
+
+  if (
+    seatLimit !== undefined &&
+    seatLimit !== null &&
+    (typeof seatLimit !== 'number' || !Number.isInteger(seatLimit) || seatLimit < 1 || seatLimit > MAX_SEAT_LIMIT)
+  ) {
+    throw validationError(`Die Anzahl der Plätze muss zwischen 1 und ${MAX_SEAT_LIMIT} liegen.`);
+  }
+
+  return {
+    gameId,
+    startsAt: startsAtDate,
+    tableLabel: trimmedLabel || null,
+    seatLimit: typeof seatLimit === 'number' ? seatLimit : null,
+  };
+}
+
+function toPlaySessionEntry(row: PlaySessionRow): PlaySessionEntry {
+  const participants = row.seats.map((seat) => ({ id: seat.user.id, name: seat.user.name }));
+
+  return {
+    id: row.id,
+    game: { id: row.game.id, name: row.game.name, bggId: row.game.bggId },
+    startsAt: row.startsAt,
+    tableLabel: row.tableLabel,
+    seatLimit: row.seatLimit,
+    openSeats: row.seatLimit === null ? null : Math.max(0, row.seatLimit - participants.length),
+    createdBy: row.createdBy ? { id: row.createdBy.id, name: row.createdBy.name } : null,
+    participants,
+    createdAt: row.createdAt,
+  };
+}
+
+/**
+ * PlaySessionService turns interest in a game into an actual play: a table
+ * group for a game at a time slot that participants join and leave.
+ */
+export class PlaySessionService {
+  constructor(private prisma: PrismaClient) {}
+
+  private async assertParticipant(eventId: string, participantId: string): Promise<void> {
+    const participant = await this.prisma.user.findFirst({
+      where: { id: participantId, eventId },
+      select: { id: true, waitlistedAt: true },
+    });
+    if (!participant) {
+      throw codedError('Teilnehmer nicht gefunden.', 'PARTICIPANT_NOT_FOUND');
+    }
+    assertNotWaitlisted(participant);
+  }
+
+  private async findSession(eventId: string, sessionId: string): Promise<PlaySessionRow> {
+    const row = await this.prisma.playSession.findFirst({
+      where: { id: sessionId, eventId, game: { deletedAt: null } },
+      include: playSessionInclude,
+    });
+    if (!row) {
+      throw codedError('Runde nicht gefunden.', 'SESSION_NOT_FOUND');
+    }
+    return row;
+  }
+
+  /**
+   * Sessions that have not started yet, soonest first. Sessions of games in
+   * the trash are left out.
+   */
+  async listUpcoming(eventId: string, now: Date = new Date()): Promise<PlaySessionEntry[]> {
+    const rows = await this.prisma.playSession.findMany({
+      where: { eventId, startsAt: { gte: now }, game: { deletedAt: null } },
+      include: playSessionInclude,
+      orderBy: [{ startsAt: 'asc' }, { createdAt: 'asc' }],
+    });
+    return rows.map(toPlaySessionEntry);
+  }
+
+  /**
+   * Create a session with the creator in its first seat. Without an explicit
+   * seat limit the game's max player count is used; a limit above it is rejected.
+   * @throws Error with code VALIDATION_ERROR, GAME_NOT_FOUND or PARTICIPANT_NOT_FOUND
+   */
+  async createSession(eventId: string, participantId: string, input: CreatePlaySessionInput): Promise<PlaySessionEntry> {
+    await this.assertParticipant(eventId, participantId);
+
+    const game = await this.prisma.game.findFirst({
+      where: { id: input.gameId, eventId, deletedAt: null },
+      select: { id: true, name: true, maxPlayers: true },
+    });
+    if (!game) {
+      throw codedError('Spiel nicht gefunden.', 'GAME_NOT_FOUND');
+    }
+
+    if (input.startsAt.getTime() < Date.now()) {
+      throw validationError('Die Runde muss in der Zukunft liegen.');
+    }
+    if (input.seatLimit !== null && game.maxPlayers !== null && input.seatLimit > game.maxPlayers) {
+      throw validationError(`${game.name} ist für höchstens ${game.maxPlayers} Spieler.`);
+    }
+
+    const row = await this.prisma.playSession.create({
+      data: {
+        eventId,
+        gameId: game.id,
+        createdById: participantId,
+        startsAt: input.startsAt,
+        tableLabel: input.tableLabel,
+        seatLimit: input.seatLimit ?? game.maxPlayers,
+        seats: { create: { userId: participantId } },
+      },
+      include: playSessionInclude,
+    });
+
+    const session = toPlaySessionEntry(row);
+    sseManager.broadcast(eventId, { type: 'play-session:created', session });
+    return session;
+  }
+
+  /**
+   * Take a seat in a session. Joining a session twice is a no-op.
+   * @throws Error with code SESSION_NOT_FOUND, SESSION_FULL or PARTICIPANT_NOT_FOUND
+   */
+  async joinSession(eventId: string, participantId: string, sessionId: string): Promise<PlaySessionEntry> {
+    await this.assertParticipant(eventId, participantId);
+    const existing = await this.findSession(eventId, sessionId);
+
+    if (existing.seats.some((seat) => seat.userId === participantId)) {
+      return toPlaySessionEntry(existing);
+    }
+
+    let joined: boolean;
+    try {
+      joined = await this.prisma.$transaction(async (tx) => {
+        // Lock the session so parallel joins cannot take more seats than the limit
+        await tx.$queryRaw`SELECT id FROM play_sessions WHERE id = ${sessionId} FOR UPDATE`;
+        const seats = await tx.playSessionSeat.findMany({ where: { sessionId }, select: { userId: true } });
+        if (seats.some((seat) => seat.userId === participantId)) {
+          return false;
+        }
+        if (existing.seatLimit !== null && seats.length >= existing.seatLimit) {
+          throw codedError('Diese Runde ist bereits voll.', 'SESSION_FULL');
+        }
+        await tx.playSessionSeat.create({ data: { sessionId, userId: participantId } });
+        return true;
+      });
+    } catch (error) {
+      // A parallel request of the same participant got the seat first
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        throw error;
+      }
+      joined = false;
+    }
+
+    const session = toPlaySessionEntry(await this.findSession(eventId, sessionId));
+    if (joined) {
+      sseManager.broadcast(eventId, { type: 'play-session:updated', session });
+    }
+    return session;
+  }
+
+  /**
+   * Give up the seat in a session. The session is removed once its last
+   * participant left.
+   * @returns the session, or null if it was removed
+   * @throws Error with code SESSION_NOT_FOUND or NOT_IN_SESSION
+   */
+  async leaveSession(eventId: string, participantId: string, sessionId: string): Promise<PlaySessionEntry | null> {
+    const existing = await this.findSession(eventId, sessionId);
+    if (!existing.seats.some((seat) => seat.userId === participantId)) {
+      throw codedError('Du bist in dieser Runde nicht eingetragen.', 'NOT_IN_SESSION');
+    }
+
+    await this.prisma.playSessionSeat.deleteMany({ where: { sessionId, userId: participantId } });
+
+    // Only removed while still empty, in case someone joined in the meantime
+    const { count } = await this.prisma.playSession.deleteMany({ where: { id: sessionId, seats: { none: {} } } });
+    if (count > 0) {
+      sseManager.broadcast(eventId, { type: 'play-session:deleted', sessionId });
+      return null;
+    }
+
+    const session = toPlaySessionEntry(await this.findSession(eventId, sessionId));
+    sseManager.broadcast(eventId, { type: 'play-session:updated', session });
+    return session;
+  }
+}
+
+export const playSessionService = new PlaySessionService(prisma);
@@ -0,0 +1,186 @@
+import { Client, escapeIdentifier } from 'pg';
+import { SSEEvent } from '../types';
+
+export interface SSEMessage {
+  id: number;
+  eventId: string;
+  event: SSEEvent;
+}
+
+export type SSEMessageHandler = (message: SSEMessage) => void;
+
+/**
+ * SSETransport carries broadcasts to the SSEManagers of all API instances.
+ * Every published message, including the instance's own ones, comes back
+ * through the handler with an id that is the same on every instance.
+ */
+export interface SSETransport {
+  start(handler: SSEMessageHandler): Promise<void>;
+  publish(eventId: string, event: SSEEvent): void;
+  stop(): Promise<void>;
+}
+
+/**
+ * Default transport for single-node setups. Messages are delivered
+ * synchronously within the process.
+ */
+export class InMemorySSETransport implements SSETransport {
+  private handler: SSEMessageHandler | null = null;
+  // Ids start at the process start time, so ids handed out by an earlier
+  // process never look like ids of this one
+  private lastId = Date.now();
+
+  async start(handler: SSEMessageHandler): Promise<void> {
+    this.handler = handler;
+  }
+
+  publish(eventId: string, event: SSEEvent): void {
+    this.lastId += 1;
+    this.handler?.({ id: this.lastId, eventId, event });
+  }
+
+  async stop(): Promise<void> {
+    this.handler = null;
+  }
+}
+
+export const SSE_NOTIFY_CHANNEL = 'sse_events';
+const SSE_EVENT_ID_SEQUENCE = 'sse_event_id_seq';
+// Advisory lock key that serializes publishes of all instances (arbitrary, but fixed)
+const SSE_PUBLISH_LOCK_KEY = 584_113_907;
+
+// Maximum reconnection delay in milliseconds
+const MAX_RECONNECT_DELAY = 30000;
+
+/**
+ * Fans broadcasts out to every API instance via PostgreSQL LISTEN/NOTIFY.
+ * Message ids come from a database sequence, so a client can resume its
+ * stream on any instance. NOTIFY payloads are limited to 8000 bytes; larger
+ * events are dropped with an error log.
+ *
+ * Notifications are delivered in commit order. A publish holds an advisory
+ * lock from taking its id until its commit, so ids are handed out in that
+ * order too and a replay after Last-Event-ID cannot skip a later delivery
+ * with a lower id.
+ */
+export class PostgresSSETransport implements SSETransport {
+  private client: Client | null = null;
+  private handler: SSEMessageHandler | null = null;
+  private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempt = 0;
+  private stopped = false;
+
+  constructor(
+    private readonly connectionString: string,
+    private readonly channel: string = SSE_NOTIFY_CHANNEL
+  ) {}
+
+  async start(handler: SSEMessageHandler): Promise<void> {
+    this.handler = handler;
+    this.stopped = false;
+    await this.connect();
+  }
+
+  publish(eventId: string, event: SSEEvent): void {
+    const client = this.client;
+    if (!client) {
+      console.error(`[SSE] Postgres transport not connected, dropping ${event.type} for event ${eventId}`);
+      return;
+    }
+
+    // The lock in the FROM clause is taken before the id and released with the commit
+    client
+      .query(
+        `SELECT pg_notify($1, json_build_object('id', nextval('${SSE_EVENT_ID_SEQUENCE}'), 'eventId', $2::text, 'event', $3::json)::text)
+         FROM (SELECT pg_advisory_xact_lock($4)) AS publish_lock`,
+        [this.channel, eventId, JSON.stringify(event), SSE_PUBLISH_LOCK_KEY]
+      )
+      .catch((error) => {
+        console.error(`[SSE] Failed to publish ${event.type} for event ${eventId}:`, error);
+      });
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    this.handler = null;
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+
+    const client = this.client;
+    this.client = null;
+    await client?.end();
+  }
+
+  private async connect(): Promise<void> {
+    const client = new Client({ connectionString: this.connectionString });
+    client.on('notification', (notification) => this.handleNotification(notification.payload));
+    client.on('error', (error) => {
+      console.error('[SSE] Postgres transport connection error:', error);
+      this.handleDisconnect(client);
+    });
+    client.on('end', () => this.handleDisconnect(client));
+
+    await client.connect();
+    try {
+      await client.query(`CREATE SEQUENCE IF NOT EXISTS ${SSE_EVENT_ID_SEQUENCE}`);
+      await client.query(`LISTEN ${escapeIdentifier(this.channel)}`);
+    } catch (error) {
+      await client.end();
+      throw error;
+    }
+
+    if (this.stopped) {
+      await client.end();
+      return;
+    }
+
+    this.client = client;
+    this.reconnectAttempt = 0;
+  }
+
+  private handleNotification(payload: string | undefined): void {
+    if (!payload || !this.handler) {
+      return;
+    }
+
+    try {
+      const message = JSON.parse(payload) as SSEMessage;
+      this.handler({ id: Number(message.id), eventId: message.eventId, event: message.event });
+    } catch (error) {
+      console.error('[SSE] Ignoring malformed notification:', error);
+    }
+  }
+
+  private handleDisconnect(client: Client): void {
+    // Ignore our own shutdown and connections that never became active
+    if (this.stopped || this.client !== client) {
+      return;
+    }
+
+    this.client = null;
+    this.scheduleReconnect();
+  }
+
+  /**
+   * Reconnect with exponential backoff (1s, 2s, 4s... max 30s)
+   */
+  private scheduleReconnect(): void {
+    this.reconnectAttempt += 1;
+    const delay = Math.min(Math.pow(2, this.reconnectAttempt - 1) * 1000, MAX_RECONNECT_DELAY);
+
+    this.reconnectTimeout = setTimeout(async () => {
+      this.reconnectTimeout = null;
+      try {
+        await this.connect();
+        console.log('[SSE] Postgres transport reconnected');
+      } catch (error) {
+        console.error('[SSE] Postgres transport reconnect failed:', error);
+        if (!this.stopped) {
+          this.scheduleReconnect();
+        }
+      }
+    }, delay);
+  }
+}
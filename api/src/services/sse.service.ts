@@ -1,42 +1,335 @@
+import { randomUUID } from 'crypto';
 import { Response } from 'express';
-import { GameEvent } from '../types';
+import { SSEEvent, ResyncRequiredEvent, PresenceEvent, PresenceHeartbeatEvent } from '../types';
+import { InMemorySSETransport, SSEMessage, SSETransport } from './sse-transport';
+
+// Number of broadcasts kept per event for Last-Event-ID replays
+export const DEFAULT_REPLAY_BUFFER_SIZE = 200;
+
+// Grace period before a participant whose last connection closed counts as
+// gone, so flaky mobile connections that reconnect right away do not flicker
+export const PRESENCE_LEAVE_DELAY = 15000;
+
+// Instances repeat who is connected to them this often. Presence of an
+// instance that missed PRESENCE_TTL worth of heartbeats (e.g. it crashed) expires.
+export const PRESENCE_HEARTBEAT_INTERVAL = 30000;
+export const PRESENCE_TTL = 3 * PRESENCE_HEARTBEAT_INTERVAL;
 
 interface SSEClient {
   id: string;
+  eventId: string;
+  participantId: string | null;
   response: Response;
 }
 
+// Connections of one participant on this instance
+interface LocalPresence {
+  eventId: string;
+  participantId: string;
+  connections: number;
+  leaveTimeout: ReturnType<typeof setTimeout> | null;
+}
+
+interface BufferedEvent {
+  id: number;
+  message: string;
+}
+
+interface EventHistory {
+  events: BufferedEvent[];
+  // Id of the newest event that fell out of the buffer
+  droppedUpTo: number;
+}
+
 /**
  * SSEManager - Singleton service for managing Server-Sent Events connections
- * Handles client connection management and event broadcasting
+ * Handles client connection management and event broadcasting.
+ * Every client is bound to the event of its event token and only receives
+ * broadcasts for that event.
+ *
+ * Broadcasts go through an SSETransport, which hands them back (from this
+ * and every other API instance) with a monotonically increasing id. Each
+ * delivered event is kept in a bounded per-event buffer, so reconnecting
+ * clients can be sent what they missed.
+ *
+ * Clients may identify their participant. Each instance announces a
+ * participant once with presence:joined and, after a grace period without
+ * connections, with presence:left. Those announcements are tracked per
+ * instance, so a participant connected to two instances stays online until
+ * both are gone, and clients only see the changes of the event as a whole.
+ * Instances send heartbeats with their participants; when an instance stops
+ * sending them, the others announce its participants as left.
  */
 class SSEManager {
   private clients: Map<string, SSEClient> = new Map();
+  // Client ids per event, so a broadcast only touches the subscribers of its event
+  private channels: Map<string, Set<string>> = new Map();
+  private history: Map<string, EventHistory> = new Map();
+  // Ids up to firstEventId were handed out before this manager received
+  // anything, so it cannot tell what a client with such an id missed
+  private firstEventId: number | null = null;
+  private lastEventId: number | null = null;
+  // Keyed by eventId and participantId
+  private localPresence: Map<string, LocalPresence> = new Map();
+  // Per event and online participant: the instances they are connected to,
+  // with the time each instance last confirmed them
+  private presence: Map<string, Map<string, Map<string, number>>> = new Map();
+  private readonly instanceId = randomUUID();
+  private readonly heartbeatInterval: ReturnType<typeof setInterval>;
+
+  constructor(
+    private readonly bufferSize: number = DEFAULT_REPLAY_BUFFER_SIZE,
+    private transport: SSETransport = new InMemorySSETransport()
+  ) {
+    // The in-memory transport registers its handler synchronously
+    void this.transport.start((message) => this.deliver(message));
+    this.heartbeatInterval = setInterval(() => this.heartbeat(), PRESENCE_HEARTBEAT_INTERVAL);
+    this.heartbeatInterval.unref?.();
+  }
+
+  /**
+   * Switch to another transport, e.g. PostgreSQL for multi-instance setups.
+   * Ids of the new transport are unrelated to the old ones, so the replay
+   * buffers start over.
+   */
+  async setTransport(transport: SSETransport): Promise<void> {
+    await transport.start((message) => this.deliver(message));
+    const previous = this.transport;
+    this.transport = transport;
+    this.history.clear();
+    this.firstEventId = null;
+    this.lastEventId = null;
+    await previous.stop();
+
+    // Presence counted via the old transport is gone, so announce our own again
+    this.presence.clear();
+    this.localPresence.forEach(({ eventId, participantId }) =>
+      this.broadcast(eventId, { type: 'presence:joined', participantId, instanceId: this.instanceId })
+    );
+  }
 
   /**
-   * Add a new client connection
+   * Stop the transport (on shutdown and in tests)
    */
-  addClient(id: string, response: Response): void {
-    this.clients.set(id, { id, response });
+  async close(): Promise<void> {
+    clearInterval(this.heartbeatInterval);
+    this.clearLeaveTimeouts();
+    await this.transport.stop();
+  }
+
+  /**
+   * Add a new client connection for an event, optionally on behalf of a participant
+   */
+  addClient(id: string, eventId: string, response: Response, participantId: string | null = null): void {
+    this.removeClient(id);
+    this.clients.set(id, { id, eventId, participantId, response });
+
+    const channel = this.channels.get(eventId) ?? new Set<string>();
+    channel.add(id);
+    this.channels.set(eventId, channel);
+
+    if (participantId !== null) {
+      this.trackConnect(eventId, participantId);
+    }
   }
 
   /**
    * Remove a client connection
    */
   removeClient(id: string): void {
+    const client = this.clients.get(id);
+    if (!client) {
+      return;
+    }
+
     this.clients.delete(id);
+    const channel = this.channels.get(client.eventId);
+    channel?.delete(id);
+    if (channel?.size === 0) {
+      this.channels.delete(client.eventId);
+    }
+
+    if (client.participantId !== null) {
+      this.trackDisconnect(client.eventId, client.participantId);
+    }
+  }
+
+  private trackConnect(eventId: string, participantId: string): void {
+    const key = `${eventId}:${participantId}`;
+    const local = this.localPresence.get(key);
+    if (local) {
+      // Reconnected within the grace period: still online, nothing to announce
+      local.connections += 1;
+      if (local.leaveTimeout) {
+        clearTimeout(local.leaveTimeout);
+        local.leaveTimeout = null;
+      }
+      return;
+    }
+
+    this.localPresence.set(key, { eventId, participantId, connections: 1, leaveTimeout: null });
+    this.broadcast(eventId, { type: 'presence:joined', participantId, instanceId: this.instanceId });
+  }
+
+  private trackDisconnect(eventId: string, participantId: string): void {
+    const key = `${eventId}:${participantId}`;
+    const local = this.localPresence.get(key);
+    if (!local) {
+      return;
+    }
+
+    local.connections -= 1;
+    if (local.connections > 0) {
+      return;
+    }
+
+    local.leaveTimeout = setTimeout(() => {
+      this.localPresence.delete(key);
+      this.broadcast(eventId, { type: 'presence:left', participantId, instanceId: this.instanceId });
+    }, PRESENCE_LEAVE_DELAY);
+  }
+
+  private clearLeaveTimeouts(): void {
+    this.localPresence.forEach((local) => {
+      if (local.leaveTimeout) {
+        clearTimeout(local.leaveTimeout);
+      }
+    });
   }
 
   /**
-   * Broadcast an event to all connected clients
+   * Record a presence announcement of an instance. Returns whether it changes
+   * the presence of the event as a whole, i.e. whether clients need to hear about it.
    */
-  broadcast(event: GameEvent): void {
-    const data = JSON.stringify(event);
-    const message = `data: ${data}\n\n`;
+  private applyPresence(eventId: string, event: PresenceEvent): boolean {
+    const instanceId = event.instanceId ?? '';
+    const participants = this.presence.get(eventId) ?? new Map<string, Map<string, number>>();
+    const instances = participants.get(event.participantId) ?? new Map<string, number>();
+
+    if (event.type === 'presence:joined') {
+      const wasOnline = instances.size > 0;
+      instances.set(instanceId, Date.now());
+      participants.set(event.participantId, instances);
+      this.presence.set(eventId, participants);
+      return !wasOnline;
+    }
+
+    if (!instances.delete(instanceId) || instances.size > 0) {
+      return false;
+    }
+    participants.delete(event.participantId);
+    if (participants.size === 0) {
+      this.presence.delete(eventId);
+    }
+    return true;
+  }
+
+  /**
+   * Confirm the participants of an instance. Participants this instance did
+   * not know yet (e.g. because it started later) count as online from now on,
+   * without telling clients.
+   */
+  private applyHeartbeat(eventId: string, event: PresenceHeartbeatEvent): void {
+    const participants = this.presence.get(eventId) ?? new Map<string, Map<string, number>>();
+    event.participantIds.forEach((participantId) => {
+      const instances = participants.get(participantId) ?? new Map<string, number>();
+      instances.set(event.instanceId, Date.now());
+      participants.set(participantId, instances);
+    });
+    if (participants.size > 0) {
+      this.presence.set(eventId, participants);
+    }
+  }
+
+  /**
+   * Send the heartbeats of this instance and announce the participants of
+   * instances whose heartbeats stopped as left. Every instance announces them,
+   * but only the first announcement changes anything.
+   */
+  private heartbeat(): void {
+    const participantIdsByEvent = new Map<string, string[]>();
+    this.localPresence.forEach(({ eventId, participantId }) => {
+      participantIdsByEvent.set(eventId, [...(participantIdsByEvent.get(eventId) ?? []), participantId]);
+    });
+    participantIdsByEvent.forEach((participantIds, eventId) =>
+      this.broadcast(eventId, { type: 'presence:heartbeat', instanceId: this.instanceId, participantIds })
+    );
+
+    const expiredBefore = Date.now() - PRESENCE_TTL;
+    this.presence.forEach((participants, eventId) => {
+      participants.forEach((instances, participantId) => {
+        instances.forEach((confirmedAt, instanceId) => {
+          if (instanceId !== this.instanceId && confirmedAt < expiredBefore) {
+            this.broadcast(eventId, { type: 'presence:left', participantId, instanceId });
+          }
+        });
+      });
+    });
+  }
+
+  /**
+   * Participants of an event that are connected right now, including those
+   * within their leave grace period. Instances only know about participants
+   * announced since they started.
+   */
+  getOnlineParticipantIds(eventId: string): string[] {
+    return Array.from(this.presence.get(eventId)?.keys() ?? []);
+  }
+
+  /**
+   * Broadcast an event to all clients connected to the given event,
+   * on every API instance that shares the transport
+   */
+  broadcast(eventId: string, event: SSEEvent): void {
+    this.transport.publish(eventId, event);
+  }
+
+  /**
+   * Buffer a message from the transport and write it to the clients of its event.
+   * The event is buffered for replays even when nobody is connected.
+   */
+  private deliver({ id, eventId, event }: SSEMessage): void {
+    if (this.firstEventId === null) {
+      this.firstEventId = id - 1;
+    }
+    this.lastEventId = Math.max(this.lastEventId ?? id, id);
+
+    if (event.type === 'presence:heartbeat') {
+      this.applyHeartbeat(eventId, event);
+      return;
+    }
+
+    // Announcements that do not change the event's presence stay internal
+    let clientEvent: SSEEvent = event;
+    if (event.type === 'presence:joined' || event.type === 'presence:left') {
+      if (!this.applyPresence(eventId, event)) {
+        return;
+      }
+      clientEvent = { type: event.type, participantId: event.participantId };
+    }
+
+    const message = `id: ${id}\ndata: ${JSON.stringify(clientEvent)}\n\n`;
+
+    const history = this.history.get(eventId) ?? { events: [], droppedUpTo: 0 };
+    history.events.push({ id, message });
+    if (history.events.length > this.bufferSize) {
+      const dropped = history.events.splice(0, history.events.length - this.bufferSize);
+      history.droppedUpTo = dropped[dropped.length - 1].id;
+    }
+    this.history.set(eventId, history);
+
+    const channel = this.channels.get(eventId);
+    if (!channel) {
+      return;
+    }
 
     const disconnectedClients: string[] = [];
 
-    this.clients.forEach((client) => {
+    channel.forEach((clientId) => {
+      const client = this.clients.get(clientId);
+      if (!client) {
+        return;
+      }
       try {
         client.response.write(message);
       } catch {
@@ -50,9 +343,48 @@ class SSEManager {
   }
 
   /**
-   * Get count of connected clients (for monitoring)
+   * Send a reconnected client every event of its event after lastEventId.
+   * If some of them are no longer buffered, or the id is unknown (e.g. from
+   * before a restart), a resync-required event is sent instead.
+   */
+  replay(clientId: string, lastEventId: number): void {
+    const client = this.clients.get(clientId);
+    if (!client) {
+      return;
+    }
+
+    const history = this.history.get(client.eventId);
+    const isUnknown =
+      this.firstEventId === null ||
+      this.lastEventId === null ||
+      lastEventId < this.firstEventId ||
+      lastEventId > this.lastEventId;
+    const isTooOld = history !== undefined && lastEventId < history.droppedUpTo;
+
+    try {
+      if (isUnknown || isTooOld) {
+        const resync: ResyncRequiredEvent = { type: 'resync-required' };
+        // The id moves the client's Last-Event-ID past everything it just skipped
+        const idLine = this.lastEventId === null ? '' : `id: ${this.lastEventId}\n`;
+        client.response.write(`${idLine}data: ${JSON.stringify(resync)}\n\n`);
+        return;
+      }
+
+      history?.events
+        .filter((event) => event.id > lastEventId)
+        .forEach((event) => client.response.write(event.message));
+    } catch {
+      this.removeClient(clientId);
+    }
+  }
+
+  /**
+   * Get count of connected clients (for monitoring), optionally for one event
    */
-  getClientCount(): number {
+  getClientCount(eventId?: string): number {
+    if (eventId !== undefined) {
+      return this.channels.get(eventId)?.size ?? 0;
+    }
     return this.clients.size;
   }
 
@@ -67,7 +399,11 @@ class SSEManager {
    * Clear all clients (useful for testing)
    */
   clearClients(): void {
+    this.clearLeaveTimeouts();
     this.clients.clear();
+    this.channels.clear();
+    this.localPresence.clear();
+    this.presence.clear();
   }
 }
 
@@ -1,5 +1,42 @@
 import { prisma } from '../db/prisma';
-import type { StatisticsData, PopularGame, StatisticsTimelineData } from '../types';
+import { INTEREST_LEVELS } from '../types';
+import type {
+  StatisticsData,
+  PopularGame,
+  StatisticsTimelineData,
+  EventSummaryStatistics,
+  InterestLevel,
+} from '../types';
+
+// Weight of a player in the popularity ranking by their interest level
+export const INTEREST_WEIGHTS: Record<InterestLevel, number> = {
+  must_play: 2,
+  gern: 1,
+  vielleicht: 0.5,
+};
+
+const toPopularGame = (game: {
+  id: string;
+  name: string;
+  players: Array<{ interestLevel: InterestLevel }>;
+}): PopularGame => {
+  const interestCounts = Object.fromEntries(INTEREST_LEVELS.map((level) => [level, 0])) as Record<
+    InterestLevel,
+    number
+  >;
+  let interestScore = 0;
+  for (const player of game.players) {
+    interestCounts[player.interestLevel]++;
+    interestScore += INTEREST_WEIGHTS[player.interestLevel];
+  }
+  return {
+    id: game.id,
+    name: game.name,
+    playerCount: game.players.length,
+    interestScore,
+    interestCounts,
+  };
+};
 
 /**
  * StatisticsService handles calculation of event statistics.
@@ -17,7 +54,7 @@ export class StatisticsService {
   async getStatistics(eventId: string): Promise<StatisticsData> {
     // Get all games with players and bringers
     const games = await prisma.game.findMany({
-      where: { eventId },
+      where: { eventId, deletedAt: null },
       include: {
         players: true,
         bringers: true,
@@ -50,14 +87,11 @@ export class StatisticsService {
       }
     }
 
-    // Requirement 8.4: Popular games ranked by player count (descending)
+    // Requirement 8.4: Popular games ranked by players weighted by interest level,
+    // then by player count (descending)
     const popularGames: PopularGame[] = games
-      .map((game) => ({
-        id: game.id,
-        name: game.name,
-        playerCount: game.players.length,
-      }))
-      .sort((a, b) => b.playerCount - a.playerCount);
+      .map(toPopularGame)
+      .sort((a, b) => b.interestScore - a.interestScore || b.playerCount - a.playerCount);
 
     const releaseYearMap = new Map<number, number>();
     for (const game of games) {
@@ -82,6 +116,45 @@ export class StatisticsService {
     };
   }
 
+  /**
+   * Get dashboard KPIs for several events at once.
+   * Game counts reuse getStatistics; registered participants and the latest
+   * activity are aggregated in one query each.
+   * @returns Summaries in the same order as eventIds
+   */
+  async getEventSummaries(eventIds: string[]): Promise<EventSummaryStatistics[]> {
+    if (eventIds.length === 0) {
+      return [];
+    }
+
+    const [participantCounts, lastActivities, statistics] = await Promise.all([
+      // Waitlisted participants hold no spot yet
+      prisma.user.groupBy({
+        by: ['eventId'],
+        where: { eventId: { in: eventIds }, waitlistedAt: null },
+        _count: { _all: true },
+      }),
+      prisma.activityEvent.groupBy({
+        by: ['eventId'],
+        where: { eventId: { in: eventIds } },
+        _max: { createdAt: true },
+      }),
+      Promise.all(eventIds.map((eventId) => this.getStatistics(eventId))),
+    ]);
+
+    const participantCountMap = new Map(participantCounts.map((row) => [row.eventId, row._count._all]));
+    const lastActivityMap = new Map(lastActivities.map((row) => [row.eventId, row._max.createdAt]));
+
+    return eventIds.map((eventId, index) => ({
+      eventId,
+      participantCount: participantCountMap.get(eventId) ?? 0,
+      totalGames: statistics[index].totalGames,
+      availableGames: statistics[index].availableGames,
+      requestedGames: statistics[index].requestedGames,
+      lastActivityAt: lastActivityMap.get(eventId) ?? null,
+    }));
+  }
+
   async getTimeline(eventId: string): Promise<StatisticsTimelineData> {
     type DayCountRow = { day: string; count: number };
 
@@ -89,7 +162,7 @@ export class StatisticsService {
       SELECT to_char(date_trunc('day', created_at), 'YYYY-MM-DD') AS day,
              count(*)::int AS count
       FROM games
-      WHERE event_id = ${eventId}
+      WHERE event_id = ${eventId} AND deleted_at IS NULL
       GROUP BY day
       ORDER BY day;
     `;
@@ -117,7 +190,7 @@ export class StatisticsService {
              count(*)::int AS count
       FROM players
       INNER JOIN games ON games.id = players.game_id
-      WHERE games.event_id = ${eventId}
+      WHERE games.event_id = ${eventId} AND games.deleted_at IS NULL
       GROUP BY day
       ORDER BY day;
     `;
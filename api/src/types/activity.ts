@@ -0,0 +1,82 @@
+// Activity types listed in the feed. Hiding a game is a personal setting,
+// so game_hidden and game_unhidden stay out of it.
+export type ActivityType =
+  | 'game_created'
+  | 'player_added'
+  | 'player_removed'
+  | 'bringer_added'
+  | 'bringer_removed'
+  | 'game_deleted'
+  | 'game_restored'
+  | 'prototype_toggled'
+  | 'user_created';
+
+export const ACTIVITY_TYPES: readonly ActivityType[] = [
+  'game_created',
+  'player_added',
+  'player_removed',
+  'bringer_added',
+  'bringer_removed',
+  'game_deleted',
+  'game_restored',
+  'prototype_toggled',
+  'user_created',
+];
+
+export interface ActivityEntry {
+  id: string;
+  type: ActivityType;
+  createdAt: Date;
+  actor: { id: string; name: string };
+  // id is null once the game has been purged; the name is kept from the log
+  game: { id: string | null; name: string } | null;
+  // German sentence for the feed, e.g. "Anna bringt Catan mit"
+  message: string;
+}
+
+export interface ActivityFeedQuery {
+  types?: ActivityType[];
+  actorId?: string;
+  gameId?: string;
+  since?: Date;
+  until?: Date;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface ActivityFeedResponse {
+  entries: ActivityEntry[];
+  // Pass as ?cursor= to load the next (older) page; null on the last page
+  nextCursor: string | null;
+}
+
+// Activity as written to archive files and exports. Names are resolved when the
+// record is written, so it stays readable after participants or games are gone.
+export interface ActivityRecord {
+  id: string;
+  createdAt: string;
+  // Every logged type, including the ones not shown in the feed
+  type: string;
+  actorId: string;
+  actorName: string;
+  gameId: string | null;
+  gameName: string | null;
+  metadata: Record<string, unknown> | null;
+}
+
+export type ActivityExportFormat = 'csv' | 'ndjson';
+
+export const ACTIVITY_EXPORT_FORMATS: readonly ActivityExportFormat[] = ['csv', 'ndjson'];
+
+// Query of the organizer export; from and to are ISO dates or timestamps
+export interface ActivityExportInput {
+  from?: unknown;
+  to?: unknown;
+  format?: unknown;
+}
+
+export interface ActivityExportFile {
+  filename: string;
+  contentType: string;
+  content: string;
+}
@@ -0,0 +1,241 @@
+export type EventStatus = 'draft' | 'open' | 'locked' | 'archived';
+
+export const EVENT_STATUSES: readonly EventStatus[] = ['draft', 'open', 'locked', 'archived'];
+
+// Organizer roles per event, from most to least privileged
+export type EventRole = 'owner' | 'co_organizer' | 'viewer';
+
+export const EVENT_ROLES: readonly EventRole[] = ['owner', 'co_organizer', 'viewer'];
+
+// Roles that can be handed out by invite; every event has exactly one owner
+export const INVITABLE_EVENT_ROLES: readonly EventRole[] = ['co_organizer', 'viewer'];
+
+export interface EventResponse {
+  id: string;
+  name: string;
+  slug: string;
+  startsAt: Date | null;
+  endsAt: Date | null;
+  location: string | null;
+  capacity: number | null;
+  notes: string | null;
+  fees: string | null;
+  status: EventStatus;
+  isDefault: boolean;
+  ownerAccountId: string;
+  // Days activity stays in the database before it is archived; null keeps it
+  activityRetentionDays: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+  // Role of the requesting account; only set on organizer responses
+  role?: EventRole;
+}
+
+// Public event info for join links (no owner or organizer fields)
+export interface PublicEventResponse {
+  id: string;
+  name: string;
+  slug: string;
+  startsAt: Date | null;
+  endsAt: Date | null;
+  location: string | null;
+  status: EventStatus;
+}
+
+export interface EventMetadataInput {
+  name?: unknown;
+  slug?: unknown;
+  startsAt?: unknown;
+  endsAt?: unknown;
+  location?: unknown;
+  capacity?: unknown;
+  notes?: unknown;
+  fees?: unknown;
+  status?: unknown;
+  activityRetentionDays?: unknown;
+}
+
+export interface CreateEventInput extends EventMetadataInput {
+  password?: unknown;
+}
+
+// Which games a cloned event takes over: none, "verfügbar" games with their bringers, or wunsch games
+export type CloneGameSelection = 'none' | 'available' | 'requested';
+
+export const CLONE_GAME_SELECTIONS: readonly CloneGameSelection[] = ['none', 'available', 'requested'];
+
+// Without a password the clone keeps the password of the source event
+export interface CloneEventInput extends CreateEventInput {
+  includeParticipants?: unknown;
+  games?: unknown;
+}
+
+export interface EventMemberResponse {
+  accountId: string;
+  email: string;
+  role: EventRole;
+  createdAt: Date;
+}
+
+// Pending invite as shown to the event owner, including the accept token
+export interface EventInviteResponse {
+  id: string;
+  email: string;
+  role: EventRole;
+  token: string;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+// What the invited account sees before accepting
+export interface InvitePreviewResponse {
+  eventId: string;
+  eventName: string;
+  email: string;
+  role: EventRole;
+  expiresAt: Date;
+}
+
+export interface CreateInviteInput {
+  email?: unknown;
+  role?: unknown;
+}
+
+// Participant as listed in the organizer moderation panel
+export interface ModerationParticipantResponse {
+  id: string;
+  name: string;
+  ownedGameCount: number;
+  playingCount: number;
+  bringingCount: number;
+  createdAt: Date;
+}
+
+// Game as listed in the organizer moderation panel
+export interface ModerationGameResponse {
+  id: string;
+  name: string;
+  ownerId: string | null;
+  ownerName: string | null;
+  playerCount: number;
+  bringerCount: number;
+  status: 'wunsch' | 'verfuegbar';
+  createdAt: Date;
+}
+
+// Game in the organizer trash view; purgeAt is when the retention period ends
+export interface TrashedGameResponse {
+  id: string;
+  name: string;
+  ownerName: string | null;
+  deletedByName: string | null;
+  playerCount: number;
+  bringerCount: number;
+  deletedAt: Date;
+  purgeAt: Date;
+}
+
+export interface ModerationOverviewResponse {
+  participants: ModerationParticipantResponse[];
+  games: ModerationGameResponse[];
+}
+
+// The source participant is merged into the target and then deleted
+export interface MergeParticipantsInput {
+  sourceId?: unknown;
+  targetId?: unknown;
+}
+
+// The source game is merged into the target and then deleted
+export interface MergeGamesInput {
+  sourceId?: unknown;
+  targetId?: unknown;
+}
+
+// Two games that are likely the same. reason bggId means both are linked to
+// the same BGG entry, name that their names (or alternate names) match.
+export interface DuplicateGameCandidate {
+  reason: 'bggId' | 'name';
+  score: number;
+  games: [ModerationGameResponse, ModerationGameResponse];
+}
+
+// Organizer edit of a game; ownerId null removes the owner
+export interface ModerateGameInput {
+  name?: unknown;
+  ownerId?: unknown;
+}
+
+// Error codes for event management operations
+export const EventErrorCodes = {
+  EVENT_NOT_FOUND: 'EVENT_NOT_FOUND',
+  NOT_AUTHORIZED: 'NOT_AUTHORIZED',
+  VALIDATION_ERROR: 'VALIDATION_ERROR',
+  MISSING_NAME: 'MISSING_NAME',
+  MISSING_PASSWORD: 'MISSING_PASSWORD',
+  INVALID_DATE: 'INVALID_DATE',
+  INVALID_DATE_RANGE: 'INVALID_DATE_RANGE',
+  INVALID_CAPACITY: 'INVALID_CAPACITY',
+  DEFAULT_EVENT_DELETE: 'DEFAULT_EVENT_DELETE',
+  INVALID_SLUG: 'INVALID_SLUG',
+  SLUG_TAKEN: 'SLUG_TAKEN',
+  INVALID_STATUS: 'INVALID_STATUS',
+  EVENT_NOT_OPEN: 'EVENT_NOT_OPEN',
+  INVALID_CLONE_OPTIONS: 'INVALID_CLONE_OPTIONS',
+  INVALID_ROLE: 'INVALID_ROLE',
+  INVALID_EMAIL: 'INVALID_EMAIL',
+  ALREADY_MEMBER: 'ALREADY_MEMBER',
+  MEMBER_NOT_FOUND: 'MEMBER_NOT_FOUND',
+  OWNER_ROLE_LOCKED: 'OWNER_ROLE_LOCKED',
+  INVITE_NOT_FOUND: 'INVITE_NOT_FOUND',
+  INVITE_EXPIRED: 'INVITE_EXPIRED',
+  INVITE_ALREADY_USED: 'INVITE_ALREADY_USED',
+  INVITE_EMAIL_MISMATCH: 'INVITE_EMAIL_MISMATCH',
+  PARTICIPANT_NOT_FOUND: 'PARTICIPANT_NOT_FOUND',
+  MERGE_SAME_PARTICIPANT: 'MERGE_SAME_PARTICIPANT',
+  GAME_NOT_FOUND: 'GAME_NOT_FOUND',
+  MISSING_GAME_NAME: 'MISSING_GAME_NAME',
+  GAME_NAME_TAKEN: 'GAME_NAME_TAKEN',
+  MERGE_SAME_GAME: 'MERGE_SAME_GAME',
+  INVALID_STALE_DAYS: 'INVALID_STALE_DAYS',
+  INVALID_RETENTION_DAYS: 'INVALID_RETENTION_DAYS',
+  INVALID_EXPORT_FORMAT: 'INVALID_EXPORT_FORMAT',
+} as const;
+
+export type EventErrorCode = typeof EventErrorCodes[keyof typeof EventErrorCodes];
+
+// German error messages
+export const EventErrorMessages: Record<EventErrorCode, string> = {
+  EVENT_NOT_FOUND: 'Event nicht gefunden.',
+  NOT_AUTHORIZED: 'Keine Berechtigung für dieses Event.',
+  VALIDATION_ERROR: 'Ungültige Eingabe.',
+  MISSING_NAME: 'Bitte einen Eventnamen eingeben.',
+  MISSING_PASSWORD: 'Bitte ein Event-Passwort eingeben.',
+  INVALID_DATE: 'Ungültiges Datum.',
+  INVALID_DATE_RANGE: 'Das Ende muss nach dem Beginn liegen.',
+  INVALID_CAPACITY: 'Die Kapazität muss eine positive ganze Zahl sein.',
+  DEFAULT_EVENT_DELETE: 'Das Standard-Event kann nicht gelöscht werden.',
+  INVALID_SLUG: 'Der Link darf nur Kleinbuchstaben, Ziffern und Bindestriche enthalten (3-100 Zeichen).',
+  SLUG_TAKEN: 'Dieser Link ist bereits vergeben.',
+  INVALID_STATUS: 'Ungültiger Event-Status.',
+  EVENT_NOT_OPEN: 'Dieses Event ist noch nicht geöffnet.',
+  INVALID_CLONE_OPTIONS: 'Ungültige Auswahl für das Kopieren.',
+  INVALID_ROLE: 'Ungültige Rolle.',
+  INVALID_EMAIL: 'Bitte eine gültige E-Mail-Adresse eingeben.',
+  ALREADY_MEMBER: 'Dieses Konto gehört bereits zum Organisationsteam.',
+  MEMBER_NOT_FOUND: 'Mitglied nicht gefunden.',
+  OWNER_ROLE_LOCKED: 'Die Rolle des Event-Besitzers kann nicht geändert werden.',
+  INVITE_NOT_FOUND: 'Einladung nicht gefunden.',
+  INVITE_EXPIRED: 'Diese Einladung ist abgelaufen.',
+  INVITE_ALREADY_USED: 'Diese Einladung wurde bereits angenommen.',
+  INVITE_EMAIL_MISMATCH: 'Diese Einladung gilt für eine andere E-Mail-Adresse.',
+  PARTICIPANT_NOT_FOUND: 'Teilnehmer nicht gefunden.',
+  MERGE_SAME_PARTICIPANT: 'Ein Teilnehmer kann nicht mit sich selbst zusammengeführt werden.',
+  GAME_NOT_FOUND: 'Spiel nicht gefunden.',
+  MISSING_GAME_NAME: 'Bitte einen Spielnamen eingeben.',
+  GAME_NAME_TAKEN: 'Ein Spiel mit diesem Namen existiert bereits.',
+  MERGE_SAME_GAME: 'Ein Spiel kann nicht mit sich selbst zusammengeführt werden.',
+  INVALID_STALE_DAYS: 'Das Mindestalter muss eine positive ganze Zahl (Tage) sein.',
+  INVALID_RETENTION_DAYS: 'Die Aufbewahrungsdauer muss eine positive ganze Zahl (Tage) sein.',
+  INVALID_EXPORT_FORMAT: 'Ungültiges Exportformat. Erlaubt sind CSV und NDJSON.',
+};
@@ -10,8 +10,32 @@ export interface ParticipantEntity {
   updatedAt: Date;
 }
 
+// Player count, play time and complexity of a game, scraped from its BGG page
+export interface BggPlayData {
+  minPlayers: number | null;
+  maxPlayers: number | null;
+  // Player counts voted best / recommended by the BGG community
+  bestPlayerCounts: number[];
+  recommendedPlayerCounts: number[];
+  // In minutes
+  minPlayTime: number | null;
+  maxPlayTime: number | null;
+  // Complexity from 1 (light) to 5 (heavy)
+  weight: number | null;
+}
+
+export const EMPTY_BGG_PLAY_DATA: BggPlayData = {
+  minPlayers: null,
+  maxPlayers: null,
+  bestPlayerCounts: [],
+  recommendedPlayerCounts: [],
+  minPlayTime: null,
+  maxPlayTime: null,
+  weight: null,
+};
+
 // Game entity types
-export interface GameEntity {
+export interface GameEntity extends BggPlayData {
   id: string;
   eventId: string | null;
   name: string;
@@ -29,11 +53,17 @@ export interface GameEntity {
   bringers: BringerEntity[];
 }
 
+// How much a player wants to play a game
+export type InterestLevel = 'must_play' | 'gern' | 'vielleicht';
+export const INTEREST_LEVELS: readonly InterestLevel[] = ['must_play', 'gern', 'vielleicht'];
+export const DEFAULT_INTEREST_LEVEL: InterestLevel = 'gern';
+
 export interface PlayerEntity {
   id: string;
   gameId: string;
   participantId: string;
   addedAt: Date;
+  interestLevel: InterestLevel;
   participant: ParticipantEntity;
 }
 
@@ -46,7 +76,7 @@ export interface BringerEntity {
 }
 
 // DTOs
-export interface CreateGameDto {
+export interface CreateGameDto extends Partial<BggPlayData> {
   eventId: string;
   name: string;
   participantId: string;
@@ -60,6 +90,20 @@ export interface CreateGameDto {
   alternateNames?: string[];
 }
 
+/**
+ * Fields changed by PATCH /api/games/:id. Re-linking to BGG sets the BGG data
+ * together with the bggId, so all of them are written at once.
+ */
+export interface UpdateGameDto extends Partial<BggPlayData> {
+  name?: string;
+  bggId?: number | null;
+  yearPublished?: number | null;
+  bggRating?: number | null;
+  addedAsAlternateName?: string | null;
+  alternateNames?: string[];
+  isPrototype?: boolean;
+}
+
 export interface CreatePlayerDto {
   participantId: string;
 }
@@ -74,7 +118,7 @@ export interface Participant {
   name: string;
 }
 
-export interface Game {
+export interface Game extends BggPlayData {
   id: string;
   name: string;
   owner: Participant | null;
@@ -85,16 +129,30 @@ export interface Game {
   alternateNames: string[];
   isPrototype: boolean;
   isHidden: boolean;
+  isFollowed: boolean;
   players: Player[];
   bringers: Bringer[];
   status: 'wunsch' | 'verfuegbar';
   createdAt: Date;
 }
 
+/**
+ * Games changed or deleted since a sync cursor (GET /api/games?since=<cursor>)
+ */
+export interface GameChanges {
+  games: Game[];
+  deletedGameIds: string[];
+  // Pass as since on the next sync
+  cursor: string;
+  // true if the cursor was too old for a delta; games is then the full list
+  full: boolean;
+}
+
 export interface Player {
   id: string;
   participant: Participant;
   addedAt: Date;
+  interestLevel: InterestLevel;
 }
 
 export interface Bringer {
@@ -117,6 +175,9 @@ export interface PopularGame {
   id: string;
   name: string;
   playerCount: number;
+  // Players weighted by interest level; popularity is sorted by this
+  interestScore: number;
+  interestCounts: Record<InterestLevel, number>;
 }
 
 export interface ReleaseYearCount {
@@ -124,6 +185,16 @@ export interface ReleaseYearCount {
   count: number;
 }
 
+// Per-event KPIs for the organizer dashboard
+export interface EventSummaryStatistics {
+  eventId: string;
+  participantCount: number;
+  totalGames: number;
+  availableGames: number;
+  requestedGames: number;
+  lastActivityAt: Date | null;
+}
+
 export interface StatisticsTimelinePoint {
   date: string;
   gamesAdded: number;
@@ -0,0 +1,25 @@
+// Things a participant is told about games they play, bring or follow
+export type NotificationType = 'bringer_added' | 'game_deleted';
+
+export interface NotificationEntry {
+  id: string;
+  type: NotificationType;
+  createdAt: Date;
+  readAt: Date | null;
+  // null when an organizer acted or the participant is gone
+  actor: { id: string; name: string } | null;
+  // id is null once the game has been purged; the name is kept from the notification
+  game: { id: string | null; name: string };
+  // German sentence for the inbox, e.g. "Anna bringt Catan mit"
+  message: string;
+}
+
+export interface NotificationListQuery {
+  unreadOnly?: boolean;
+  limit?: number;
+}
+
+export interface NotificationListResponse {
+  notifications: NotificationEntry[];
+  unreadCount: number;
+}
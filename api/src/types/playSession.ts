@@ -0,0 +1,28 @@
+// A table group meeting to play a game at a time slot ("Runde")
+export interface PlaySessionEntry {
+  id: string;
+  game: { id: string; name: string; bggId: number | null };
+  startsAt: Date;
+  tableLabel: string | null;
+  // null means no limit
+  seatLimit: number | null;
+  // null without seat limit
+  openSeats: number | null;
+  // null when the participant is gone
+  createdBy: { id: string; name: string } | null;
+  // in the order they joined
+  participants: { id: string; name: string }[];
+  createdAt: Date;
+}
+
+export interface CreatePlaySessionInput {
+  gameId: string;
+  startsAt: Date;
+  tableLabel: string | null;
+  // null takes the max player count of the game, if known
+  seatLimit: number | null;
+}
+
+export interface PlaySessionListResponse {
+  sessions: PlaySessionEntry[];
+}
@@ -1,3 +1,6 @@
+import type { ActivityEntry } from './activity';
+import type { PlaySessionEntry } from './playSession';
+
 // SSE Event Types
 
 export type SSEEventType =
@@ -8,7 +11,8 @@ export type SSEEventType =
   | 'game:player-removed'
   | 'game:deleted'
   | 'game:prototype-toggled'
-  | 'game:thumbnail-uploaded';
+  | 'game:thumbnail-uploaded'
+  | 'game:updated';
 
 // Base event structure
 export interface BaseGameEvent {
@@ -67,6 +71,13 @@ export interface ThumbnailUploadedEvent extends BaseGameEvent {
   timestamp: number;
 }
 
+// Generic event for edited game fields; clients reload the game.
+// fields names what changed, e.g. ['isHidden'] when a participant hides a game.
+export interface GameUpdatedEvent extends BaseGameEvent {
+  type: 'game:updated';
+  fields: string[];
+}
+
 // Union type for all SSE events
 export type GameEvent =
   | GameCreatedEvent
@@ -76,7 +87,166 @@ export type GameEvent =
   | PlayerRemovedEvent
   | GameDeletedEvent
   | PrototypeToggledEvent
-  | ThumbnailUploadedEvent;
+  | ThumbnailUploadedEvent
+  | GameUpdatedEvent;
+
+// Event for a waitlisted participant moving up to a confirmed spot
+export interface ParticipantPromotedEvent {
+  type: 'participant:promoted';
+  participantId: string;
+  participantName: string;
+}
+
+// Event for a participant joining the event (isWaitlisted when no spot was free)
+export interface ParticipantCreatedEvent {
+  type: 'participant:created';
+  participantId: string;
+  participantName: string;
+  isWaitlisted: boolean;
+}
+
+// Event for a participant changing their name
+export interface ParticipantRenamedEvent {
+  type: 'participant:renamed';
+  participantId: string;
+  participantName: string;
+}
+
+// Event for a participant leaving the event. Their player and bringer entries
+// are gone and games they owned have no owner anymore.
+export interface ParticipantDeletedEvent {
+  type: 'participant:deleted';
+  participantId: string;
+}
+
+export type ParticipantListEvent = ParticipantCreatedEvent | ParticipantRenamedEvent | ParticipantDeletedEvent;
+
+// Organizer moderation events. Organizers act with their account, so these
+// events carry no participantId.
+
+// Event for a duplicate participant merged into another one
+export interface ParticipantMergedEvent {
+  type: 'participant:merged';
+  sourceParticipantId: string;
+  targetParticipantId: string;
+  targetParticipantName: string;
+}
+
+// Event for a game renamed by an organizer
+export interface GameRenamedEvent {
+  type: 'game:renamed';
+  gameId: string;
+  gameName: string;
+}
+
+// Event for a game handed to another owner (or to nobody) by an organizer
+export interface GameOwnerChangedEvent {
+  type: 'game:owner-changed';
+  gameId: string;
+  ownerId: string | null;
+  ownerName: string | null;
+}
+
+// Event for several games removed at once by an organizer
+export interface GamesDeletedEvent {
+  type: 'games:deleted';
+  gameIds: string[];
+}
+
+// Event for a duplicate game merged into another one. gameId is the
+// remaining game, sourceGameId the one that was deleted.
+export interface GameMergedEvent {
+  type: 'game:merged';
+  gameId: string;
+  gameName: string;
+  sourceGameId: string;
+}
+
+export type ModerationEvent =
+  | ParticipantMergedEvent
+  | GameRenamedEvent
+  | GameOwnerChangedEvent
+  | GamesDeletedEvent
+  | GameMergedEvent;
+
+// Presence events. joined is sent when a participant opens their first
+// connection, left once their last connection has been gone for a while.
+// Between API instances they name the announcing instance; clients get them
+// without instanceId.
+export interface PresenceJoinedEvent {
+  type: 'presence:joined';
+  participantId: string;
+  instanceId?: string;
+}
+
+export interface PresenceLeftEvent {
+  type: 'presence:left';
+  participantId: string;
+  instanceId?: string;
+}
+
+export type PresenceEvent = PresenceJoinedEvent | PresenceLeftEvent;
+
+// Sent between API instances only, never to clients: the participants an
+// instance still has connections for. Keeps their presence from expiring.
+export interface PresenceHeartbeatEvent {
+  type: 'presence:heartbeat';
+  instanceId: string;
+  participantIds: string[];
+}
+
+// Event for a game taken back out of the trash. participantId is null when
+// an organizer restores it from the trash view.
+export interface GameRestoredEvent {
+  type: 'game:restored';
+  gameId: string;
+  gameName: string;
+  participantId: string | null;
+}
+
+// Event for a new activity feed entry, resolved like GET /api/activity
+export interface ActivityCreatedEvent {
+  type: 'activity:created';
+  entry: ActivityEntry;
+}
+
+// Play session events carry the session resolved like GET /api/play-sessions.
+// updated is sent when a participant joins or leaves; a session is deleted
+// once its last participant left.
+export interface PlaySessionCreatedEvent {
+  type: 'play-session:created';
+  session: PlaySessionEntry;
+}
+
+export interface PlaySessionUpdatedEvent {
+  type: 'play-session:updated';
+  session: PlaySessionEntry;
+}
+
+export interface PlaySessionDeletedEvent {
+  type: 'play-session:deleted';
+  sessionId: string;
+}
+
+export type PlaySessionEvent = PlaySessionCreatedEvent | PlaySessionUpdatedEvent | PlaySessionDeletedEvent;
+
+// Union type for everything the SSE stream can carry
+export type SSEEvent =
+  | GameEvent
+  | ParticipantPromotedEvent
+  | ParticipantListEvent
+  | ModerationEvent
+  | PresenceEvent
+  | PresenceHeartbeatEvent
+  | GameRestoredEvent
+  | ActivityCreatedEvent
+  | PlaySessionEvent;
+
+// Sent on reconnect instead of a replay when the missed events are no longer
+// buffered. The client has to reload its data.
+export interface ResyncRequiredEvent {
+  type: 'resync-required';
+}
 
 // Helper type guards
 export function isGameCreatedEvent(event: GameEvent): event is GameCreatedEvent {
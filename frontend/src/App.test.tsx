@@ -19,6 +19,9 @@ vi.mock('./api/client', () => ({
   getToken: vi.fn().mockReturnValue(null),
   setToken: vi.fn(),
   removeToken: vi.fn(),
+  setActiveEventId: vi.fn(),
+  getActiveEventId: vi.fn().mockReturnValue(null),
+  EVENT_TOKEN_INVALID_EVENT: 'boardgame:event-token-invalid',
   participantsApi: {
     getAll: vi.fn(),
     getById: vi.fn(),
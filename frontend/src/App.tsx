@@ -6,6 +6,10 @@
  *   /login - Account login page
  *   /register - Account registration page
  *   /profile - Account profile page (requires auth)
+ *   /organizer - Organizer dashboard with owned events (requires auth)
+ *   /organizer/events/:eventId - Event settings (requires auth)
+ *   /organizer/invites/:token - Accept an organizer team invite (requires auth)
+ *   /e/:slug/* - Same event pages for the event behind a join link
  * 
  * Authentication flow:
  *   1. AuthGuard checks sessionStorage for auth state
@@ -19,17 +23,24 @@
 
 import { useState, useCallback, useEffect } from 'react';
 import { BrowserRouter, Routes, Route } from 'react-router-dom';
-import { AuthGuard, Layout, ParticipantSelectionModal, ToastProvider, ReleaseNotesDialog } from './components';
+import { AuthGuard, EventRoute, Layout, ParticipantSelectionModal, ToastProvider, ReleaseNotesDialog } from './components';
 import { AccountAuthGuard } from './components/AccountAuthGuard';
 import { AuthProvider } from './contexts/AuthContext';
+import { useEventContext } from './contexts/EventContext';
+import { setActiveEventId } from './api/client';
 import { useParticipant } from './hooks';
 import { HomePage } from './pages/HomePage';
 import { PrintPage } from './pages/PrintPage';
 import { StatisticsPage } from './pages/StatisticsPage';
+import { NewsPage } from './pages/NewsPage';
+import { RoundsPage } from './pages/RoundsPage';
 import { AdminPage } from './pages/AdminPage';
 import { LoginPage } from './pages/LoginPage';
 import { RegisterPage } from './pages/RegisterPage';
 import { ProfilePage } from './pages/ProfilePage';
+import { OrganizerDashboardPage } from './pages/OrganizerDashboardPage';
+import { EventSettingsPage } from './pages/EventSettingsPage';
+import { AcceptInvitePage } from './pages/AcceptInvitePage';
 import type { Participant } from './types';
 
 // Get event name from environment variable
@@ -46,7 +57,32 @@ function hashReleaseNotes(content: string): string {
   return (hash >>> 0).toString(16);
 }
 
-function App() {
+/**
+ * Event-scoped part of the app: password screen, participant selection and event pages.
+ * Rendered for the default event (/*) and for join links (/e/:slug/*).
+ */
+function EventShell() {
+  const { event } = useEventContext();
+  const eventId = event?.id ?? null;
+  const [scopedEventId, setScopedEventId] = useState<string | null | undefined>(undefined);
+
+  // Scope API calls and stored tokens to the event; the content only mounts once
+  // this has happened, so its stored participant and token are read for this event
+  useEffect(() => {
+    setActiveEventId(eventId);
+    setScopedEventId(eventId);
+  }, [eventId]);
+
+  if (scopedEventId !== eventId) {
+    return null;
+  }
+
+  return <EventShellContent key={eventId ?? ''} />;
+}
+
+function EventShellContent() {
+  const { event } = useEventContext();
+
   // Track authentication state for passing to Layout
   const [isAuthenticated, setIsAuthenticated] = useState(false);
 
@@ -56,10 +92,10 @@ function App() {
   const [releaseNotesHash, setReleaseNotesHash] = useState<string | null>(null);
   const [isReleaseNotesOpen, setIsReleaseNotesOpen] = useState(false);
 
-  // Set document title from environment variable
+  // Set document title from the event (or environment variable for the default event)
   useEffect(() => {
-    document.title = eventName;
-  }, []);
+    document.title = event?.name ?? eventName;
+  }, [event]);
 
   const handleAuthChange = useCallback((authenticated: boolean) => {
     setIsAuthenticated(authenticated);
@@ -137,6 +173,49 @@ function App() {
   // Show if authenticated but no participant stored (first-time participant or participant deleted)
   const showParticipantSelection = isAuthenticated && !isLoading && !participant;
 
+  return (
+    <AuthGuard onAuthChange={handleAuthChange}>
+      {/* Show ParticipantSelectionModal for participants without a stored selection */}
+      <ParticipantSelectionModal
+        isOpen={showParticipantSelection}
+        onParticipantSelected={handleParticipantSelected}
+      />
+      {releaseNotesContent && (
+        <ReleaseNotesDialog
+          isOpen={isReleaseNotesOpen}
+          content={releaseNotesContent}
+          onDismiss={handleDismissReleaseNotes}
+        />
+      )}
+
+      <Layout 
+        participant={participant ?? undefined} 
+        onParticipantUpdated={handleParticipantUpdated}
+        onParticipantSwitch={handleParticipantSwitch}
+      >
+        <Routes>
+          <Route
+            path="/"
+            element={
+              <HomePage
+                participant={participant}
+                onParticipantMerged={handleParticipantUpdated}
+                onParticipantRenamed={handleParticipantUpdated}
+                onParticipantDeleted={handleParticipantSwitch}
+              />
+            }
+          />
+          <Route path="/print" element={<PrintPage participant={participant} />} />
+          <Route path="/statistics" element={<StatisticsPage />} />
+          <Route path="/news" element={<NewsPage participant={participant} />} />
+          <Route path="/rounds" element={<RoundsPage participant={participant} />} />
+        </Routes>
+      </Layout>
+    </AuthGuard>
+  );
+}
+
+function App() {
   return (
     <AuthProvider>
       <ToastProvider>
@@ -161,39 +240,43 @@ function App() {
                 </AccountAuthGuard>
               }
             />
+            <Route
+              path="/organizer"
+              element={
+                <AccountAuthGuard>
+                  <OrganizerDashboardPage />
+                </AccountAuthGuard>
+              }
+            />
+            <Route
+              path="/organizer/events/:eventId"
+              element={
+                <AccountAuthGuard>
+                  <EventSettingsPage />
+                </AccountAuthGuard>
+              }
+            />
+            <Route
+              path="/organizer/invites/:token"
+              element={
+                <AccountAuthGuard>
+                  <AcceptInvitePage />
+                </AccountAuthGuard>
+              }
+            />
 
-            {/* Event routes - require event password */}
+            {/* Event join links - require the password of that event */}
             <Route
-              path="/*"
+              path="/e/:slug/*"
               element={
-                <AuthGuard onAuthChange={handleAuthChange}>
-                  {/* Show ParticipantSelectionModal for participants without a stored selection */}
-                  <ParticipantSelectionModal
-                    isOpen={showParticipantSelection}
-                    onParticipantSelected={handleParticipantSelected}
-                  />
-                  {releaseNotesContent && (
-                    <ReleaseNotesDialog
-                      isOpen={isReleaseNotesOpen}
-                      content={releaseNotesContent}
-                      onDismiss={handleDismissReleaseNotes}
-                    />
-                  )}
-
-                  <Layout 
-                    participant={participant ?? undefined} 
-                    onParticipantUpdated={handleParticipantUpdated}
-                    onParticipantSwitch={handleParticipantSwitch}
-                  >
-                    <Routes>
-                      <Route path="/" element={<HomePage participant={participant} />} />
-                      <Route path="/print" element={<PrintPage participant={participant} />} />
-                      <Route path="/statistics" element={<StatisticsPage />} />
-                    </Routes>
-                  </Layout>
-                </AuthGuard>
+                <EventRoute>
+                  <EventShell />
+                </EventRoute>
               }
             />
+
+            {/* Default event routes - require event password */}
+            <Route path="/*" element={<EventShell />} />
           </Routes>
         </BrowserRouter>
       </ToastProvider>
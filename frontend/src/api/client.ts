@@ -7,20 +7,54 @@ import type {
   AuthVerifyRequest,
   AuthVerifyResponse,
   CreateGameRequest,
+  UpdateGameRequest,
   AddPlayerRequest,
+  InterestLevel,
   AddBringerRequest,
   CreateParticipantRequest,
   UpdateParticipantRequest,
   GamesResponse,
+  GameChangesResponse,
   GameResponse,
   ParticipantsResponse,
   ParticipantResponse,
+  PresenceResponse,
   StatisticsData,
   StatisticsTimelineData,
   ErrorResponse,
   BggSearchResponse,
+  PublicEventResponse,
 } from '../types';
 import type { Account, Session, LoginResponse, RegisterResponse, AccountsResponse } from '../types/account';
+import type { ActivityFeedFilters, ActivityFeedResponse } from '../types/activity';
+import type { NotificationResponse, NotificationsResponse } from '../types/notification';
+import type {
+  CreatePlaySessionRequest,
+  LeavePlaySessionResponse,
+  PlaySessionResponse,
+  PlaySessionsResponse,
+} from '../types/playSession';
+import type {
+  OrganizerDashboardResponse,
+  OrganizerEventResponse,
+  UpdateEventRequest,
+  CloneEventRequest,
+  EventRole,
+  EventMember,
+  EventInvite,
+  EventTeamResponse,
+  CreateInviteRequest,
+  InvitePreview,
+  AcceptInviteResponse,
+  ModerationOverviewResponse,
+  ModerationGame,
+  DuplicateGameCandidate,
+  ModerateGameRequest,
+  DeleteStaleGamesResponse,
+  TrashedGame,
+  ActivityExportRequest,
+  ActivityExportDownload,
+} from '../types/event';
 
 // Get API URL from environment variable
 const getApiUrl = (): string => {
@@ -45,24 +79,45 @@ export const removeToken = (): void => {
   localStorage.removeItem(TOKEN_KEY);
 };
 
-// Event token storage key
+// Event token storage key (default event); other events use `${EVENT_TOKEN_KEY}:${eventId}`
 export const EVENT_TOKEN_KEY = 'boardgame_event_token';
 
-// Get stored event token
+// Event opened via join link (/e/:slug); null means the default event
+let activeEventId: string | null = null;
+
+// Scope event API calls and stored event tokens to an event
+export const setActiveEventId = (eventId: string | null): void => {
+  activeEventId = eventId;
+};
+
+// Get the currently active event ID
+export const getActiveEventId = (): string | null => {
+  return activeEventId;
+};
+
+// Get the localStorage key for an event's token
+export const getEventTokenKey = (eventId: string | null = activeEventId): string => {
+  return eventId ? `${EVENT_TOKEN_KEY}:${eventId}` : EVENT_TOKEN_KEY;
+};
+
+// Get stored event token for the active event
 export const getEventToken = (): string | null => {
-  return localStorage.getItem(EVENT_TOKEN_KEY);
+  return localStorage.getItem(getEventTokenKey());
 };
 
-// Set event token
+// Set event token for the active event
 export const setEventToken = (token: string): void => {
-  localStorage.setItem(EVENT_TOKEN_KEY, token);
+  localStorage.setItem(getEventTokenKey(), token);
 };
 
-// Remove event token
+// Remove event token for the active event
 export const removeEventToken = (): void => {
-  localStorage.removeItem(EVENT_TOKEN_KEY);
+  localStorage.removeItem(getEventTokenKey());
 };
 
+// Dispatched on window when the API rejects the stored event token (e.g. after a password rotation)
+export const EVENT_TOKEN_INVALID_EVENT = 'boardgame:event-token-invalid';
+
 // Custom error class for API errors
 export class ApiError extends Error {
   code: string;
@@ -96,12 +151,13 @@ async function fetchApi<T>(
     }
   }
 
-  // Attach event token as fallback when no account token is present
-  if (!(defaultHeaders as Record<string, string>)['Authorization']) {
-    const eventToken = getEventToken();
-    if (eventToken) {
-      (defaultHeaders as Record<string, string>)['Authorization'] = `Bearer ${eventToken}`;
-    }
+  // Attach event token in its own header so it can travel alongside the account token
+  const eventToken = getEventToken();
+  if (eventToken) {
+    (defaultHeaders as Record<string, string>)['x-event-token'] = eventToken;
+  }
+  if (activeEventId) {
+    (defaultHeaders as Record<string, string>)['x-event-id'] = activeEventId;
   }
 
   const response = await fetch(url, {
@@ -113,7 +169,7 @@ async function fetchApi<T>(
   });
 
   if (!response.ok) {
-    let errorData: ErrorResponse | { error: string; message: string } | null = null;
+    let errorData: ErrorResponse | { error: string; message: string } | { success: false; message: string } | null = null;
     try {
       errorData = await response.json();
     } catch {
@@ -122,6 +178,10 @@ async function fetchApi<T>(
 
     // Handle account API error format
     if (errorData && 'error' in errorData && 'message' in errorData && typeof errorData.error === 'string') {
+      if (errorData.error === 'INVALID_EVENT_TOKEN' && eventToken) {
+        removeEventToken();
+        window.dispatchEvent(new Event(EVENT_TOKEN_INVALID_EVENT));
+      }
       throw new ApiError(
         errorData.message,
         errorData.error
@@ -138,6 +198,11 @@ async function fetchApi<T>(
       );
     }
 
+    // Handle auth verify error format ({ success: false, message })
+    if (errorData && 'success' in errorData && 'message' in errorData && typeof errorData.message === 'string') {
+      throw new ApiError(errorData.message, 'HTTP_ERROR');
+    }
+
     throw new ApiError(
       `HTTP ${response.status}: ${response.statusText}`,
       'HTTP_ERROR'
@@ -150,7 +215,7 @@ async function fetchApi<T>(
 // Authentication API
 export const authApi = {
   verify: (password: string): Promise<AuthVerifyResponse> => {
-    const body: AuthVerifyRequest = { password };
+    const body: AuthVerifyRequest = activeEventId ? { password, eventId: activeEventId } : { password };
     return fetchApi<AuthVerifyResponse>('/api/auth/verify', {
       method: 'POST',
       body: JSON.stringify(body),
@@ -158,13 +223,23 @@ export const authApi = {
   },
 };
 
+// Events API (public lookups for join links)
+export const eventsApi = {
+  getBySlug: (slug: string): Promise<PublicEventResponse> => {
+    return fetchApi<PublicEventResponse>(`/api/events/by-slug/${encodeURIComponent(slug)}`);
+  },
+};
+
 // Participants API
 export const participantsApi = {
   getAll: async (): Promise<ParticipantsResponse> => {
     const response = await fetchApi<ParticipantsResponse & { users?: ParticipantsResponse['participants'] }>(
       '/api/participants'
     );
-    return { participants: response.participants ?? response.users ?? [] };
+    return {
+      participants: response.participants ?? response.users ?? [],
+      ...(response.capacity && { capacity: response.capacity }),
+    };
   },
 
   getById: async (id: string): Promise<ParticipantResponse> => {
@@ -210,6 +285,15 @@ export const gamesApi = {
     });
   },
 
+  /**
+   * Games changed or deleted since the cursor of a previous getAll or getChanges
+   */
+  getChanges: (since: string, participantId?: string): Promise<GameChangesResponse> => {
+    return fetchApi<GameChangesResponse>(`/api/games?since=${encodeURIComponent(since)}`, {
+      headers: participantId ? { 'x-participant-id': participantId } : undefined,
+    });
+  },
+
   getById: (gameId: string, participantId?: string): Promise<GameResponse> => {
     return fetchApi<GameResponse>(`/api/games/${gameId}`, {
       headers: participantId ? { 'x-participant-id': participantId } : undefined,
@@ -255,8 +339,17 @@ export const gamesApi = {
     }, includeAuth);
   },
 
-  addPlayer: (gameId: string, participantId: string): Promise<GameResponse> => {
-    const body: AddPlayerRequest = { participantId };
+  restore: (gameId: string, participantId: string, includeAuth: boolean = false): Promise<GameResponse> => {
+    return fetchApi<GameResponse>(`/api/games/${gameId}/restore`, {
+      method: 'POST',
+      headers: {
+        'x-participant-id': participantId,
+      },
+    }, includeAuth);
+  },
+
+  addPlayer: (gameId: string, participantId: string, interestLevel?: InterestLevel): Promise<GameResponse> => {
+    const body: AddPlayerRequest = { participantId, interestLevel };
     return fetchApi<GameResponse>(`/api/games/${gameId}/players`, {
       method: 'POST',
       body: JSON.stringify(body),
@@ -302,6 +395,33 @@ export const gamesApi = {
     });
   },
 
+  followGame: (gameId: string, participantId: string): Promise<GameResponse> => {
+    return fetchApi<GameResponse>(`/api/games/${gameId}/follow`, {
+      method: 'POST',
+      body: JSON.stringify({ participantId }),
+    });
+  },
+
+  unfollowGame: (gameId: string, participantId: string): Promise<GameResponse> => {
+    return fetchApi<GameResponse>(`/api/games/${gameId}/follow/${participantId}`, {
+      method: 'DELETE',
+    });
+  },
+
+  /**
+   * Edit the name and/or BGG link of a game (owner only).
+   * Linking to BGG re-fills year, rating and alternate names on the server.
+   */
+  update: (gameId: string, participantId: string, changes: UpdateGameRequest): Promise<GameResponse> => {
+    return fetchApi<GameResponse>(`/api/games/${gameId}`, {
+      method: 'PATCH',
+      headers: {
+        'x-participant-id': participantId,
+      },
+      body: JSON.stringify(changes),
+    });
+  },
+
   /**
    * Toggle prototype status for a game
    * @param gameId - The game's unique identifier
@@ -331,6 +451,75 @@ export const statisticsApi = {
   },
 };
 
+// Presence API
+export const presenceApi = {
+  get: (): Promise<PresenceResponse> => {
+    return fetchApi<PresenceResponse>('/api/presence');
+  },
+};
+
+// Activity feed API
+export const activityApi = {
+  getFeed: (filters: ActivityFeedFilters = {}, cursor?: string): Promise<ActivityFeedResponse> => {
+    const params = new URLSearchParams();
+    if (filters.types?.length) params.set('types', filters.types.join(','));
+    if (filters.actorId) params.set('actorId', filters.actorId);
+    if (filters.gameId) params.set('gameId', filters.gameId);
+    if (filters.since) params.set('since', filters.since);
+    if (filters.until) params.set('until', filters.until);
+    if (cursor) params.set('cursor', cursor);
+    const query = params.toString();
+    return fetchApi<ActivityFeedResponse>(query ? `/api/activity?${query}` : '/api/activity');
+  },
+};
+
+// Notification inbox API
+export const notificationsApi = {
+  getAll: (participantId: string): Promise<NotificationsResponse> => {
+    return fetchApi<NotificationsResponse>('/api/notifications', {
+      headers: { 'x-participant-id': participantId },
+    });
+  },
+  markRead: (notificationId: string, participantId: string): Promise<NotificationResponse> => {
+    return fetchApi<NotificationResponse>(`/api/notifications/${notificationId}/read`, {
+      method: 'POST',
+      headers: { 'x-participant-id': participantId },
+    });
+  },
+  markAllRead: (participantId: string): Promise<{ updatedCount: number }> => {
+    return fetchApi<{ updatedCount: number }>('/api/notifications/read-all', {
+      method: 'POST',
+      headers: { 'x-participant-id': participantId },
+    });
+  },
+};
+
+// Play sessions ("Runden") API
+export const playSessionsApi = {
+  getUpcoming: (): Promise<PlaySessionsResponse> => {
+    return fetchApi<PlaySessionsResponse>('/api/play-sessions');
+  },
+  create: (participantId: string, data: CreatePlaySessionRequest): Promise<PlaySessionResponse> => {
+    return fetchApi<PlaySessionResponse>('/api/play-sessions', {
+      method: 'POST',
+      headers: { 'x-participant-id': participantId },
+      body: JSON.stringify(data),
+    });
+  },
+  join: (sessionId: string, participantId: string): Promise<PlaySessionResponse> => {
+    return fetchApi<PlaySessionResponse>(`/api/play-sessions/${sessionId}/join`, {
+      method: 'POST',
+      headers: { 'x-participant-id': participantId },
+    });
+  },
+  leave: (sessionId: string, participantId: string): Promise<LeavePlaySessionResponse> => {
+    return fetchApi<LeavePlaySessionResponse>(`/api/play-sessions/${sessionId}/leave`, {
+      method: 'POST',
+      headers: { 'x-participant-id': participantId },
+    });
+  },
+};
+
 // BGG API
 export const bggApi = {
   search: (query: string): Promise<BggSearchResponse> => {
@@ -405,6 +594,194 @@ export const accountsApi = {
   },
 };
 
+// Organizer events API (account auth)
+export const organizerEventsApi = {
+  getDashboard: (includeArchived: boolean = false): Promise<OrganizerDashboardResponse> => {
+    const query = includeArchived ? '?includeArchived=true' : '';
+    return fetchApi<OrganizerDashboardResponse>(`/api/organizer/events/dashboard${query}`, {}, true);
+  },
+
+  getById: (eventId: string): Promise<OrganizerEventResponse> => {
+    return fetchApi<OrganizerEventResponse>(`/api/organizer/events/${eventId}`, {}, true);
+  },
+
+  update: (eventId: string, data: UpdateEventRequest): Promise<OrganizerEventResponse> => {
+    return fetchApi<OrganizerEventResponse>(`/api/organizer/events/${eventId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    }, true);
+  },
+
+  changePassword: (eventId: string, password: string): Promise<{ success: boolean; message: string }> => {
+    return fetchApi<{ success: boolean; message: string }>(`/api/organizer/events/${eventId}/password`, {
+      method: 'PATCH',
+      body: JSON.stringify({ password }),
+    }, true);
+  },
+
+  clone: (eventId: string, data: CloneEventRequest): Promise<OrganizerEventResponse> => {
+    return fetchApi<OrganizerEventResponse>(`/api/organizer/events/${eventId}/clone`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }, true);
+  },
+
+  revokeTokens: (eventId: string): Promise<OrganizerEventResponse & { message: string }> => {
+    return fetchApi<OrganizerEventResponse & { message: string }>(`/api/organizer/events/${eventId}/revoke-tokens`, {
+      method: 'POST',
+    }, true);
+  },
+
+  getTeam: (eventId: string): Promise<EventTeamResponse> => {
+    return fetchApi<EventTeamResponse>(`/api/organizer/events/${eventId}/members`, {}, true);
+  },
+
+  createInvite: (eventId: string, data: CreateInviteRequest): Promise<{ invite: EventInvite }> => {
+    return fetchApi<{ invite: EventInvite }>(`/api/organizer/events/${eventId}/invites`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }, true);
+  },
+
+  revokeInvite: (eventId: string, inviteId: string): Promise<{ success: boolean }> => {
+    return fetchApi<{ success: boolean }>(`/api/organizer/events/${eventId}/invites/${inviteId}`, {
+      method: 'DELETE',
+    }, true);
+  },
+
+  updateMemberRole: (eventId: string, accountId: string, role: EventRole): Promise<{ member: EventMember }> => {
+    return fetchApi<{ member: EventMember }>(`/api/organizer/events/${eventId}/members/${accountId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ role }),
+    }, true);
+  },
+
+  removeMember: (eventId: string, accountId: string): Promise<{ success: boolean }> => {
+    return fetchApi<{ success: boolean }>(`/api/organizer/events/${eventId}/members/${accountId}`, {
+      method: 'DELETE',
+    }, true);
+  },
+
+  getInvite: (token: string): Promise<{ invite: InvitePreview }> => {
+    return fetchApi<{ invite: InvitePreview }>(`/api/organizer/events/invites/${encodeURIComponent(token)}`, {}, true);
+  },
+
+  acceptInvite: (token: string): Promise<AcceptInviteResponse> => {
+    return fetchApi<AcceptInviteResponse>(`/api/organizer/events/invites/${encodeURIComponent(token)}/accept`, {
+      method: 'POST',
+    }, true);
+  },
+
+  getModeration: (eventId: string): Promise<ModerationOverviewResponse> => {
+    return fetchApi<ModerationOverviewResponse>(`/api/organizer/events/${eventId}/moderation`, {}, true);
+  },
+
+  mergeParticipants: (
+    eventId: string,
+    sourceId: string,
+    targetId: string
+  ): Promise<{ participant: { id: string; name: string } }> => {
+    return fetchApi<{ participant: { id: string; name: string } }>(`/api/organizer/events/${eventId}/participants/merge`, {
+      method: 'POST',
+      body: JSON.stringify({ sourceId, targetId }),
+    }, true);
+  },
+
+  mergeGames: (eventId: string, sourceId: string, targetId: string): Promise<{ game: ModerationGame }> => {
+    return fetchApi<{ game: ModerationGame }>(`/api/organizer/events/${eventId}/games/merge`, {
+      method: 'POST',
+      body: JSON.stringify({ sourceId, targetId }),
+    }, true);
+  },
+
+  getDuplicateGames: (eventId: string): Promise<{ candidates: DuplicateGameCandidate[] }> => {
+    return fetchApi<{ candidates: DuplicateGameCandidate[] }>(
+      `/api/organizer/events/${eventId}/games/duplicates`,
+      {},
+      true
+    );
+  },
+
+  moderateGame: (eventId: string, gameId: string, data: ModerateGameRequest): Promise<{ game: ModerationGame }> => {
+    return fetchApi<{ game: ModerationGame }>(`/api/organizer/events/${eventId}/games/${gameId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    }, true);
+  },
+
+  getStaleGames: (eventId: string, olderThanDays: number): Promise<{ games: ModerationGame[] }> => {
+    return fetchApi<{ games: ModerationGame[] }>(
+      `/api/organizer/events/${eventId}/games/stale?olderThanDays=${olderThanDays}`,
+      {},
+      true
+    );
+  },
+
+  deleteStaleGames: (eventId: string, olderThanDays: number): Promise<DeleteStaleGamesResponse> => {
+    return fetchApi<DeleteStaleGamesResponse>(`/api/organizer/events/${eventId}/games/stale?olderThanDays=${olderThanDays}`, {
+      method: 'DELETE',
+    }, true);
+  },
+
+  getTrash: (eventId: string): Promise<{ games: TrashedGame[] }> => {
+    return fetchApi<{ games: TrashedGame[] }>(`/api/organizer/events/${eventId}/trash`, {}, true);
+  },
+
+  restoreTrashedGame: (eventId: string, gameId: string): Promise<{ game: ModerationGame }> => {
+    return fetchApi<{ game: ModerationGame }>(`/api/organizer/events/${eventId}/trash/${gameId}/restore`, {
+      method: 'POST',
+    }, true);
+  },
+
+  purgeTrashedGame: (eventId: string, gameId: string): Promise<{ success: boolean }> => {
+    return fetchApi<{ success: boolean }>(`/api/organizer/events/${eventId}/trash/${gameId}`, {
+      method: 'DELETE',
+    }, true);
+  },
+
+  /**
+   * Download the activity log of a date range, including archived activity
+   * @returns The file content and the file name suggested by the server
+   */
+  exportActivity: async (eventId: string, request: ActivityExportRequest): Promise<ActivityExportDownload> => {
+    const params = new URLSearchParams({ format: request.format });
+    if (request.from) params.set('from', request.from);
+    if (request.to) params.set('to', request.to);
+
+    const headers: Record<string, string> = {};
+    const token = getToken();
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+
+    const response = await fetch(`${getApiUrl()}/api/organizer/events/${eventId}/activity/export?${params}`, {
+      headers,
+    });
+
+    if (!response.ok) {
+      let errorData: { error?: string; message?: string } | null = null;
+      try {
+        errorData = await response.json();
+      } catch {
+        // Response is not JSON
+      }
+
+      if (errorData?.error && errorData.message) {
+        throw new ApiError(errorData.message, errorData.error);
+      }
+
+      throw new ApiError(
+        `HTTP ${response.status}: ${response.statusText}`,
+        'HTTP_ERROR'
+      );
+    }
+
+    const disposition = response.headers.get('Content-Disposition') ?? '';
+    const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? `aktivitaeten.${request.format}`;
+    return { blob: await response.blob(), filename };
+  },
+};
+
 // Sessions API
 export const sessionsApi = {
   getAll: (): Promise<{ sessions: Session[] }> => {
@@ -439,11 +816,20 @@ export const thumbnailsApi = {
     const formData = new FormData();
     formData.append('thumbnail', file);
 
+    const headers: Record<string, string> = {
+      'x-participant-id': participantId,
+    };
+    const eventToken = getEventToken();
+    if (eventToken) {
+      headers['x-event-token'] = eventToken;
+    }
+    if (activeEventId) {
+      headers['x-event-id'] = activeEventId;
+    }
+
     const response = await fetch(url, {
       method: 'POST',
-      headers: {
-        'x-participant-id': participantId,
-      },
+      headers,
       body: formData,
     });
 
@@ -492,11 +878,13 @@ export const thumbnailsApi = {
 // Export all APIs as a single object
 export const api = {
   auth: authApi,
+  events: eventsApi,
   participants: participantsApi,
   games: gamesApi,
   statistics: statisticsApi,
   bgg: bggApi,
   accounts: accountsApi,
+  organizerEvents: organizerEventsApi,
   sessions: sessionsApi,
   thumbnails: thumbnailsApi,
 };
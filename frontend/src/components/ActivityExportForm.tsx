@@ -0,0 +1,133 @@
+/**
+ * ActivityExportForm downloads the activity log of an event as CSV or NDJSON,
+ * e.g. to keep a record of who did what after the event. Archived activity is
+ * included by the server.
+ */
+
+import { useState, FormEvent } from 'react';
+import { organizerEventsApi, ApiError } from '../api/client';
+import type { ActivityExportFormat } from '../types/event';
+
+const FORMAT_OPTIONS: { value: ActivityExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV (Tabellenkalkulation)' },
+  { value: 'ndjson', label: 'NDJSON (eine JSON-Zeile pro Aktivität)' },
+];
+
+interface ActivityExportFormProps {
+  eventId: string;
+}
+
+function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+export function ActivityExportForm({ eventId }: ActivityExportFormProps) {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [format, setFormat] = useState<ActivityExportFormat>('csv');
+  const [error, setError] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    // Dates in YYYY-MM-DD format compare chronologically as strings
+    if (from && to && to < from) {
+      setError('Das Ende muss nach dem Beginn liegen.');
+      return;
+    }
+
+    setError(null);
+    setIsExporting(true);
+
+    try {
+      const file = await organizerEventsApi.exportActivity(eventId, {
+        from: from || undefined,
+        to: to || undefined,
+        format,
+      });
+      downloadBlob(file.blob, file.filename);
+    } catch (err) {
+      if (err instanceof ApiError) {
+        setError(err.message);
+      } else {
+        setError('Fehler beim Exportieren der Aktivitäten.');
+      }
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="p-3 bg-red-100 border border-red-400 text-red-700 rounded" role="alert">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="activityExportFrom" className="block text-sm font-medium text-gray-700 mb-1">
+            Von
+          </label>
+          <input
+            id="activityExportFrom"
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            disabled={isExporting}
+          />
+        </div>
+        <div>
+          <label htmlFor="activityExportTo" className="block text-sm font-medium text-gray-700 mb-1">
+            Bis (einschließlich)
+          </label>
+          <input
+            id="activityExportTo"
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            disabled={isExporting}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="activityExportFormat" className="block text-sm font-medium text-gray-700 mb-1">
+          Format
+        </label>
+        <select
+          id="activityExportFormat"
+          value={format}
+          onChange={(e) => setFormat(e.target.value as ActivityExportFormat)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          disabled={isExporting}
+        >
+          {FORMAT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <button
+        type="submit"
+        disabled={isExporting}
+        className="py-2 px-4 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white font-medium rounded-md transition-colors"
+      >
+        {isExporting ? 'Exportieren...' : 'Exportieren'}
+      </button>
+    </form>
+  );
+}
@@ -1,6 +1,7 @@
 /**
  * AdvancedFilters component
  * Collapsible section for player and bringer search filters
+ * plus player count and play time filters based on BGG data
  * Requirements: 8.1, 8.2, 8.3, 8.4, 8.7
  */
 
@@ -11,24 +12,41 @@ export interface AdvancedFiltersProps {
   onPlayerSearch: (query: string) => void;
   /** Callback when bringer search changes */
   onBringerSearch: (query: string) => void;
+  /** Callback when the player count filter changes (null = any) */
+  onPlayerCountChange?: (playerCount: number | null) => void;
+  /** Callback when the play time filter changes (null = any) */
+  onMaxDurationChange?: (maxDuration: number | null) => void;
   /** Initial values */
   initialValues?: {
     playerQuery?: string;
     bringerQuery?: string;
+    playerCount?: number | null;
+    maxDuration?: number | null;
   };
 }
 
+const PLAYER_COUNT_OPTIONS = [1, 2, 3, 4, 5, 6, 7, 8];
+const DURATION_OPTIONS = [30, 60, 90, 120, 180];
+
+const parseSelectValue = (value: string): number | null => (value === '' ? null : Number(value));
+
 export function AdvancedFilters({
   onPlayerSearch,
   onBringerSearch,
+  onPlayerCountChange,
+  onMaxDurationChange,
   initialValues = {},
 }: AdvancedFiltersProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const [playerQuery, setPlayerQuery] = useState(initialValues.playerQuery ?? '');
   const [bringerQuery, setBringerQuery] = useState(initialValues.bringerQuery ?? '');
+  const [playerCount, setPlayerCount] = useState(initialValues.playerCount ?? null);
+  const [maxDuration, setMaxDuration] = useState(initialValues.maxDuration ?? null);
 
   // Count active filters for badge
-  const activeFilterCount = [playerQuery, bringerQuery].filter(Boolean).length;
+  const activeFilterCount =
+    [playerQuery, bringerQuery].filter(Boolean).length +
+    [playerCount, maxDuration].filter((value) => value !== null).length;
 
   const handlePlayerChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
@@ -42,6 +60,18 @@ export function AdvancedFilters({
     onBringerSearch(value);
   };
 
+  const handlePlayerCountChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = parseSelectValue(e.target.value);
+    setPlayerCount(value);
+    onPlayerCountChange?.(value);
+  };
+
+  const handleMaxDurationChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = parseSelectValue(e.target.value);
+    setMaxDuration(value);
+    onMaxDurationChange?.(value);
+  };
+
   return (
     <div className="bg-white rounded-lg shadow">
       {/* Toggle button */}
@@ -116,7 +146,58 @@ export function AdvancedFilters({
                 <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
               </div>
             </div>
+
+            {/* Player count from BGG */}
+            <div>
+              <label
+                htmlFor="advanced-player-count"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Spieleranzahl
+              </label>
+              <select
+                id="advanced-player-count"
+                value={playerCount ?? ''}
+                onChange={handlePlayerCountChange}
+                className="w-full px-3 py-2.5 border border-gray-300 rounded-lg shadow-sm focus:ring-blue-500 focus:border-blue-500 text-base sm:text-sm bg-white"
+              >
+                <option value="">Beliebig</option>
+                {PLAYER_COUNT_OPTIONS.map((count) => (
+                  <option key={count} value={count}>
+                    {count} Spieler
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Play time from BGG */}
+            <div>
+              <label
+                htmlFor="advanced-max-duration"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Spieldauer
+              </label>
+              <select
+                id="advanced-max-duration"
+                value={maxDuration ?? ''}
+                onChange={handleMaxDurationChange}
+                className="w-full px-3 py-2.5 border border-gray-300 rounded-lg shadow-sm focus:ring-blue-500 focus:border-blue-500 text-base sm:text-sm bg-white"
+              >
+                <option value="">Beliebig</option>
+                {DURATION_OPTIONS.map((minutes) => (
+                  <option key={minutes} value={minutes}>
+                    bis {minutes} Min.
+                  </option>
+                ))}
+              </select>
+            </div>
           </div>
+          {(playerCount !== null || maxDuration !== null) && (
+            <p className="mt-2 text-xs text-gray-500">
+              Spiele ohne BGG-Daten werden bei diesen Filtern ausgeblendet.
+            </p>
+          )}
         </div>
       )}
     </div>
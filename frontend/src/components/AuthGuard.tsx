@@ -1,13 +1,13 @@
 /**
  * AuthGuard component for protecting routes
  * Reads JWT event token from localStorage, decodes payload to check expiry
- * Shows PasswordScreen if token is missing or expired
+ * Shows PasswordScreen if token is missing or expired, or once the API rejects it
  * Requirements: 4.1, 4.2, 4.3, 4.4, 4.5, 5.1, 5.2
  */
 
 import { useState, useEffect, ReactNode } from 'react';
 import { PasswordScreen } from './PasswordScreen';
-import { getEventToken, setEventToken, removeEventToken } from '../api/client';
+import { getEventToken, setEventToken, removeEventToken, EVENT_TOKEN_INVALID_EVENT } from '../api/client';
 
 interface AuthGuardProps {
   children: ReactNode;
@@ -64,6 +64,13 @@ export function AuthGuard({ children, onAuthChange }: AuthGuardProps) {
     return checkAuthentication();
   });
 
+  // The API rejected the token (e.g. the event password was rotated)
+  useEffect(() => {
+    const handleInvalidToken = () => setIsAuthenticated(false);
+    window.addEventListener(EVENT_TOKEN_INVALID_EVENT, handleInvalidToken);
+    return () => window.removeEventListener(EVENT_TOKEN_INVALID_EVENT, handleInvalidToken);
+  }, []);
+
   // Notify parent of auth state changes
   useEffect(() => {
     onAuthChange?.(isAuthenticated);
@@ -0,0 +1,122 @@
+/**
+ * CloneEventForm creates a new event from an existing one, e.g. for recurring
+ * game nights. The organizer chooses what to carry over; the copy starts as draft.
+ */
+
+import { useState, FormEvent } from 'react';
+import { organizerEventsApi, ApiError } from '../api/client';
+import type { CloneGameSelection, OrganizerEvent } from '../types/event';
+
+const GAME_OPTIONS: { value: CloneGameSelection; label: string }[] = [
+  { value: 'none', label: 'Keine Spiele' },
+  { value: 'available', label: 'Verfügbare Spiele mit ihren Mitbringern' },
+  { value: 'requested', label: 'Nur Wunschspiele' },
+];
+
+interface CloneEventFormProps {
+  event: OrganizerEvent;
+  onCloned: (event: OrganizerEvent) => void;
+}
+
+export function CloneEventForm({ event, onCloned }: CloneEventFormProps) {
+  const [name, setName] = useState(`${event.name} (Kopie)`);
+  const [includeParticipants, setIncludeParticipants] = useState(false);
+  const [games, setGames] = useState<CloneGameSelection>('none');
+  const [error, setError] = useState<string | null>(null);
+  const [isCloning, setIsCloning] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      setError('Bitte einen Eventnamen eingeben.');
+      return;
+    }
+
+    setError(null);
+    setIsCloning(true);
+
+    try {
+      const response = await organizerEventsApi.clone(event.id, {
+        name: name.trim(),
+        includeParticipants,
+        games,
+      });
+      onCloned(response.event);
+    } catch (err) {
+      if (err instanceof ApiError) {
+        setError(err.message);
+      } else {
+        setError('Fehler beim Kopieren des Events.');
+      }
+    } finally {
+      setIsCloning(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="p-3 bg-red-100 border border-red-400 text-red-700 rounded" role="alert">
+          {error}
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="cloneEventName" className="block text-sm font-medium text-gray-700 mb-1">
+          Name des neuen Events
+        </label>
+        <input
+          id="cloneEventName"
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          disabled={isCloning}
+        />
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={includeParticipants}
+          onChange={(e) => setIncludeParticipants(e.target.checked)}
+          disabled={isCloning}
+        />
+        Teilnehmerliste übernehmen
+      </label>
+
+      <fieldset className="space-y-1">
+        <legend className="text-sm font-medium text-gray-700 mb-1">Spiele</legend>
+        {GAME_OPTIONS.map((option) => (
+          <label key={option.value} className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="radio"
+              name="cloneGames"
+              value={option.value}
+              checked={games === option.value}
+              onChange={() => setGames(option.value)}
+              disabled={isCloning}
+            />
+            {option.label}
+          </label>
+        ))}
+      </fieldset>
+
+      <p className="text-xs text-gray-500">
+        Ort, Kapazität, Notizen, Gebühren und das Event-Passwort werden übernommen. Das neue Event
+        startet als Entwurf, damit du die Termine vor dem Öffnen anpassen kannst.
+      </p>
+
+      <button
+        type="submit"
+        disabled={isCloning}
+        className="py-2 px-4 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white font-medium rounded-md transition-colors"
+      >
+        {isCloning ? 'Kopieren...' : 'Event kopieren'}
+      </button>
+    </form>
+  );
+}
+
+export default CloneEventForm;
@@ -61,12 +61,12 @@ export function DeleteGameModal({
             <div className="mt-4 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
               <p className="font-semibold">Achtung: Es sind noch Einträge vorhanden.</p>
               <p className="mt-1">
-                Für dieses Spiel sind noch {participantDetails} eingetragen. Beim Löschen werden diese Einträge entfernt.
+                Für dieses Spiel sind noch {participantDetails} eingetragen. Beim Löschen verschwinden diese Einträge mit dem Spiel.
               </p>
             </div>
           )}
           <p className="text-gray-500 text-sm mt-2">
-            Diese Aktion kann nicht rückgängig gemacht werden.
+            Direkt nach dem Löschen kannst du es noch rückgängig machen.
           </p>
         </div>
 
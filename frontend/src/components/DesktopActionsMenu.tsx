@@ -14,7 +14,9 @@ interface DesktopActionsMenuProps {
   game: Game;
   currentParticipantId: string;
   onTogglePrototype?: (gameId: string, isPrototype: boolean) => Promise<void>;
+  onToggleFollow?: (gameId: string, isFollowed: boolean) => Promise<void>;
   onUploadThumbnail?: (gameId: string) => void;
+  onEditGame?: (gameId: string) => void;
   onDeleteGame?: (gameId: string) => void;
   canDelete?: boolean;
   canShowDelete?: boolean;
@@ -24,7 +26,9 @@ export function DesktopActionsMenu({
   game,
   currentParticipantId,
   onTogglePrototype,
+  onToggleFollow,
   onUploadThumbnail,
+  onEditGame,
   onDeleteGame,
   canDelete = false,
   canShowDelete = false,
@@ -38,8 +42,14 @@ export function DesktopActionsMenu({
   const hasNoBggId = game.bggId === null;
   const canShowPrototype = !!onTogglePrototype && isOwner && hasNoBggId;
   const canShowUpload = !!onUploadThumbnail && isOwner && hasNoBggId;
+  const canShowEdit = !!onEditGame && isOwner;
   const canShowDeleteAction = !!onDeleteGame && (isOwner || canShowDelete);
-  const canShowMenu = canShowPrototype || canShowUpload || canShowDeleteAction;
+  // Players and bringers hear about the game anyway, following is for everyone else
+  const isInvolved =
+    game.players.some((p) => p.participant.id === currentParticipantId) ||
+    game.bringers.some((b) => b.participant.id === currentParticipantId);
+  const canShowFollow = !!onToggleFollow && (game.isFollowed || !isInvolved);
+  const canShowMenu = canShowFollow || canShowEdit || canShowPrototype || canShowUpload || canShowDeleteAction;
 
   // Close menu when clicking outside
   useEffect(() => {
@@ -85,6 +95,18 @@ export function DesktopActionsMenu({
     setIsOpen(false);
   };
 
+  const handleToggleFollow = async () => {
+    if (!onToggleFollow) return;
+    await onToggleFollow(game.id, !game.isFollowed);
+    setIsOpen(false);
+  };
+
+  const handleEditGame = () => {
+    if (!onEditGame) return;
+    onEditGame(game.id);
+    setIsOpen(false);
+  };
+
   const handleUploadThumbnail = () => {
     if (!onUploadThumbnail) return;
     onUploadThumbnail(game.id);
@@ -141,9 +163,9 @@ export function DesktopActionsMenu({
             role="menu"
             aria-orientation="vertical"
           >
-            {canShowUpload && (
+            {canShowFollow && (
               <button
-                onClick={handleUploadThumbnail}
+                onClick={handleToggleFollow}
                 className="w-full px-4 py-2 text-left text-gray-700 hover:bg-gray-100 flex items-center gap-2"
                 role="menuitem"
               >
@@ -157,16 +179,68 @@ export function DesktopActionsMenu({
                     strokeLinecap="round"
                     strokeLinejoin="round"
                     strokeWidth={2}
-                    d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
+                    d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9"
                   />
                 </svg>
-                Bild hochladen
+                {game.isFollowed ? 'Nicht mehr folgen' : 'Spiel folgen'}
               </button>
             )}
 
+            {canShowEdit && (
+              <>
+                {canShowFollow && <div className="border-t border-gray-200 my-1" />}
+                <button
+                  onClick={handleEditGame}
+                  className="w-full px-4 py-2 text-left text-gray-700 hover:bg-gray-100 flex items-center gap-2"
+                  role="menuitem"
+                >
+                  <svg
+                    className="w-5 h-5 text-gray-500"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
+                    />
+                  </svg>
+                  Spiel bearbeiten
+                </button>
+              </>
+            )}
+
+            {canShowUpload && (
+              <>
+                {(canShowFollow || canShowEdit) && <div className="border-t border-gray-200 my-1" />}
+                <button
+                  onClick={handleUploadThumbnail}
+                  className="w-full px-4 py-2 text-left text-gray-700 hover:bg-gray-100 flex items-center gap-2"
+                  role="menuitem"
+                >
+                  <svg
+                    className="w-5 h-5 text-gray-500"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
+                    />
+                  </svg>
+                  Bild hochladen
+                </button>
+              </>
+            )}
+
             {canShowPrototype && (
               <>
-                {canShowUpload && <div className="border-t border-gray-200 my-1" />}
+                {(canShowFollow || canShowEdit || canShowUpload) && <div className="border-t border-gray-200 my-1" />}
                 <PrototypeToggle
                   gameId={game.id}
                   isPrototype={game.isPrototype}
@@ -178,7 +252,7 @@ export function DesktopActionsMenu({
 
             {canShowDeleteAction && (
               <>
-                {(canShowUpload || canShowPrototype) && (
+                {(canShowFollow || canShowEdit || canShowUpload || canShowPrototype) && (
                   <div className="border-t border-gray-200 my-1" />
                 )}
                 <ClickNotification
@@ -0,0 +1,246 @@
+/**
+ * EditGameDialog component
+ * Modal for fixing the name of a game and linking it to (or unlinking it from)
+ * a BoardGameGeek entry. Players and bringers stay on the game.
+ * Uses createPortal for proper modal rendering
+ * All UI text in German
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { createPortal } from 'react-dom';
+import { gamesApi, bggApi, ApiError } from '../api/client';
+import type { Game, BggSearchResult, UpdateGameRequest } from '../types';
+
+interface EditGameDialogProps {
+  game: Game;
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: (game: Game) => void;
+  participantId: string;
+}
+
+interface BggLink {
+  id: number;
+  name: string;
+  yearPublished: number | null;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+const MIN_QUERY_LENGTH = 2;
+
+const currentLink = (game: Game): BggLink | null =>
+  game.bggId !== null ? { id: game.bggId, name: game.name, yearPublished: game.yearPublished } : null;
+
+export function EditGameDialog({ game, isOpen, onClose, onSaved, participantId }: EditGameDialogProps) {
+  const [name, setName] = useState(game.name);
+  const [bggLink, setBggLink] = useState<BggLink | null>(currentLink(game));
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<BggSearchResult[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the current game every time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(game.name);
+    setBggLink(currentLink(game));
+    setQuery('');
+    setResults([]);
+    setError(null);
+  }, [isOpen, game]);
+
+  useEffect(() => {
+    const trimmedQuery = query.trim();
+    if (trimmedQuery.length < MIN_QUERY_LENGTH) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = window.setTimeout(async () => {
+      try {
+        const response = await bggApi.search(trimmedQuery);
+        if (!cancelled) {
+          setResults(response.results);
+        }
+      } catch (err) {
+        console.error('Failed to search BGG:', err);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timeout);
+    };
+  }, [query]);
+
+  const handleSelectResult = (result: BggSearchResult) => {
+    setBggLink({ id: result.id, name: result.name, yearPublished: result.yearPublished });
+    setName(result.name);
+    setQuery('');
+    setResults([]);
+  };
+
+  const handleClose = useCallback(() => {
+    if (isSaving) return;
+    onClose();
+  }, [isSaving, onClose]);
+
+  const handleSave = async () => {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      setError('Bitte einen Spielnamen eingeben.');
+      return;
+    }
+
+    const changes: UpdateGameRequest = {};
+    if (trimmedName !== game.name) {
+      changes.name = trimmedName;
+    }
+    const bggId = bggLink?.id ?? null;
+    if (bggId !== game.bggId) {
+      changes.bggId = bggId;
+    }
+    if (Object.keys(changes).length === 0) {
+      onClose();
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await gamesApi.update(game.id, participantId, changes);
+      onSaved(response.game);
+      onClose();
+    } catch (err) {
+      if (err instanceof ApiError) {
+        setError(err.message);
+      } else {
+        setError('Ein Fehler ist aufgetreten. Bitte versuche es erneut.');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div
+        className="bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] flex flex-col"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="edit-game-title"
+      >
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between flex-shrink-0">
+          <h2 id="edit-game-title" className="text-xl font-semibold text-gray-900">Spiel bearbeiten</h2>
+          <button
+            onClick={handleClose}
+            disabled={isSaving}
+            className="text-gray-400 hover:text-gray-600 transition-colors min-w-[44px] min-h-[44px] flex items-center justify-center"
+            aria-label="Schließen"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="px-6 py-4 overflow-y-auto flex-1 space-y-4">
+          <div>
+            <label htmlFor="edit-game-name" className="block text-sm font-medium text-gray-700 mb-1">
+              Name
+            </label>
+            <input
+              id="edit-game-name"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 min-h-[44px]"
+              disabled={isSaving}
+            />
+          </div>
+
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-1">BoardGameGeek</span>
+            {bggLink ? (
+              <div className="flex items-center justify-between gap-3 px-3 py-2 bg-gray-50 rounded-md" data-testid="bgg-link">
+                <span className="text-sm text-gray-700">
+                  Verknüpft mit {bggLink.name}
+                  {bggLink.yearPublished !== null && ` (${bggLink.yearPublished})`}
+                </span>
+                <button
+                  onClick={() => setBggLink(null)}
+                  disabled={isSaving}
+                  className="text-sm text-red-600 hover:text-red-800 hover:underline whitespace-nowrap"
+                >
+                  Verknüpfung entfernen
+                </button>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">Nicht mit BGG verknüpft.</p>
+            )}
+
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={bggLink ? 'Anderen BGG-Eintrag suchen...' : 'BGG-Eintrag suchen...'}
+              aria-label="BGG-Eintrag suchen"
+              className="mt-2 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 min-h-[44px]"
+              disabled={isSaving}
+            />
+            {results.length > 0 && (
+              <ul className="mt-1 max-h-48 overflow-y-auto border border-gray-200 rounded-md divide-y divide-gray-100">
+                {results.map((result) => (
+                  <li key={result.id}>
+                    <button
+                      onClick={() => handleSelectResult(result)}
+                      className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-100 min-h-[44px]"
+                    >
+                      {result.name}
+                      {result.yearPublished !== null && (
+                        <span className="text-gray-500"> ({result.yearPublished})</span>
+                      )}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Error message */}
+          {error && (
+            <div className="text-sm text-red-600 bg-red-50 px-3 py-2 rounded" role="alert">
+              {error}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex-shrink-0 flex justify-end gap-3">
+          <button
+            onClick={handleClose}
+            disabled={isSaving}
+            className="px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded transition-colors disabled:opacity-50 min-h-[44px]"
+          >
+            Abbrechen
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="px-4 py-2 text-white bg-blue-600 hover:bg-blue-700 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed min-h-[44px]"
+          >
+            {isSaving ? 'Speichern...' : 'Speichern'}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+}
+
+export default EditGameDialog;
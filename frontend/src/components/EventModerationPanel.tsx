@@ -0,0 +1,568 @@
+/**
+ * EventModerationPanel bundles the organizer tools for cleaning up an event:
+ * merging duplicate participants and games, renaming games, reassigning game owners,
+ * deleting old wunsch games nobody brings and restoring deleted games from the
+ * trash. Changes reach participants live via SSE.
+ */
+
+import { useCallback, useEffect, useState, FormEvent } from 'react';
+import { organizerEventsApi, ApiError } from '../api/client';
+import type { DuplicateGameCandidate, ModerationGame, ModerationParticipant, TrashedGame } from '../types/event';
+
+const DEFAULT_STALE_DAYS = 30;
+const NO_OWNER = '';
+
+const selectClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('de-DE', { day: '2-digit', month: '2-digit', year: 'numeric' });
+
+interface EventModerationPanelProps {
+  eventId: string;
+}
+
+export function EventModerationPanel({ eventId }: EventModerationPanelProps) {
+  const [participants, setParticipants] = useState<ModerationParticipant[]>([]);
+  const [games, setGames] = useState<ModerationGame[]>([]);
+  const [trash, setTrash] = useState<TrashedGame[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const [sourceId, setSourceId] = useState('');
+  const [targetId, setTargetId] = useState('');
+
+  const [gameSourceId, setGameSourceId] = useState('');
+  const [gameTargetId, setGameTargetId] = useState('');
+  const [duplicates, setDuplicates] = useState<DuplicateGameCandidate[] | null>(null);
+
+  const [gameId, setGameId] = useState('');
+  const [gameName, setGameName] = useState('');
+  const [ownerId, setOwnerId] = useState(NO_OWNER);
+
+  const [staleDays, setStaleDays] = useState(String(DEFAULT_STALE_DAYS));
+  const [staleGames, setStaleGames] = useState<ModerationGame[] | null>(null);
+
+  const loadOverview = useCallback(async () => {
+    try {
+      const [overview, trashResponse] = await Promise.all([
+        organizerEventsApi.getModeration(eventId),
+        organizerEventsApi.getTrash(eventId),
+      ]);
+      setParticipants(overview.participants);
+      setGames(overview.games);
+      setTrash(trashResponse.games);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Fehler beim Laden der Teilnehmer und Spiele.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    loadOverview();
+  }, [loadOverview]);
+
+  const runAction = async (action: () => Promise<string>, fallbackMessage: string) => {
+    setError(null);
+    setSuccess(null);
+    setIsWorking(true);
+    try {
+      setSuccess(await action());
+      await loadOverview();
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : fallbackMessage);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const selectGame = (id: string) => {
+    const game = games.find((candidate) => candidate.id === id);
+    setGameId(id);
+    setGameName(game?.name ?? '');
+    setOwnerId(game?.ownerId ?? NO_OWNER);
+  };
+
+  const handleMerge = (e: FormEvent) => {
+    e.preventDefault();
+    const source = participants.find((participant) => participant.id === sourceId);
+    const target = participants.find((participant) => participant.id === targetId);
+    if (!source || !target) {
+      setError('Bitte zwei Teilnehmer auswählen.');
+      return;
+    }
+    if (source.id === target.id) {
+      setError('Ein Teilnehmer kann nicht mit sich selbst zusammengeführt werden.');
+      return;
+    }
+
+    const confirmed = window.confirm(
+      `${source.name} mit ${target.name} zusammenführen? ${source.name} wird danach gelöscht.`
+    );
+    if (!confirmed) return;
+
+    runAction(async () => {
+      await organizerEventsApi.mergeParticipants(eventId, source.id, target.id);
+      setSourceId('');
+      setTargetId('');
+      return `${source.name} wurde mit ${target.name} zusammengeführt.`;
+    }, 'Fehler beim Zusammenführen.');
+  };
+
+  const handleFindDuplicates = () => {
+    runAction(async () => {
+      const response = await organizerEventsApi.getDuplicateGames(eventId);
+      setDuplicates(response.candidates);
+      return response.candidates.length === 0
+        ? 'Keine möglichen Duplikate gefunden.'
+        : `${response.candidates.length} mögliche Duplikate gefunden.`;
+    }, 'Fehler beim Suchen nach Duplikaten.');
+  };
+
+  const selectDuplicate = (candidate: DuplicateGameCandidate) => {
+    setGameTargetId(candidate.games[0].id);
+    setGameSourceId(candidate.games[1].id);
+  };
+
+  const handleGameMerge = (e: FormEvent) => {
+    e.preventDefault();
+    const source = games.find((game) => game.id === gameSourceId);
+    const target = games.find((game) => game.id === gameTargetId);
+    if (!source || !target) {
+      setError('Bitte zwei Spiele auswählen.');
+      return;
+    }
+    if (source.id === target.id) {
+      setError('Ein Spiel kann nicht mit sich selbst zusammengeführt werden.');
+      return;
+    }
+
+    const confirmed = window.confirm(
+      `${source.name} mit ${target.name} zusammenführen? ${source.name} wird danach gelöscht.`
+    );
+    if (!confirmed) return;
+
+    runAction(async () => {
+      await organizerEventsApi.mergeGames(eventId, source.id, target.id);
+      setGameSourceId('');
+      setGameTargetId('');
+      setDuplicates((prev) =>
+        prev ? prev.filter((candidate) => !candidate.games.some((game) => game.id === source.id)) : prev
+      );
+      return `${source.name} wurde mit ${target.name} zusammengeführt.`;
+    }, 'Fehler beim Zusammenführen der Spiele.');
+  };
+
+  const handleGameSave = (e: FormEvent) => {
+    e.preventDefault();
+    const game = games.find((candidate) => candidate.id === gameId);
+    if (!game) {
+      setError('Bitte ein Spiel auswählen.');
+      return;
+    }
+
+    const name = gameName.trim();
+    const nextOwnerId = ownerId === NO_OWNER ? null : ownerId;
+    const changes = {
+      ...(name !== game.name ? { name } : {}),
+      ...(nextOwnerId !== game.ownerId ? { ownerId: nextOwnerId } : {}),
+    };
+    if (Object.keys(changes).length === 0) {
+      setSuccess('Keine Änderungen.');
+      return;
+    }
+
+    runAction(async () => {
+      const response = await organizerEventsApi.moderateGame(eventId, game.id, changes);
+      setGameName(response.game.name);
+      return `${response.game.name} wurde gespeichert.`;
+    }, 'Fehler beim Speichern des Spiels.');
+  };
+
+  const parseStaleDays = (): number | null => {
+    const days = Number(staleDays);
+    if (!Number.isInteger(days) || days <= 0) {
+      setError('Das Mindestalter muss eine positive ganze Zahl (Tage) sein.');
+      return null;
+    }
+    return days;
+  };
+
+  const handleStalePreview = (e: FormEvent) => {
+    e.preventDefault();
+    const days = parseStaleDays();
+    if (days === null) return;
+
+    runAction(async () => {
+      const response = await organizerEventsApi.getStaleGames(eventId, days);
+      setStaleGames(response.games);
+      return response.games.length === 0
+        ? 'Keine alten Wunschspiele gefunden.'
+        : `${response.games.length} alte Wunschspiele gefunden.`;
+    }, 'Fehler beim Suchen alter Wunschspiele.');
+  };
+
+  const handleStaleDelete = () => {
+    const days = parseStaleDays();
+    if (days === null || !staleGames) return;
+
+    const confirmed = window.confirm(`${staleGames.length} Wunschspiele in den Papierkorb verschieben?`);
+    if (!confirmed) return;
+
+    runAction(async () => {
+      const response = await organizerEventsApi.deleteStaleGames(eventId, days);
+      setStaleGames(null);
+      return `${response.deletedCount} Wunschspiele in den Papierkorb verschoben.`;
+    }, 'Fehler beim Löschen der Wunschspiele.');
+  };
+
+  const handleRestore = (game: TrashedGame) => {
+    runAction(async () => {
+      await organizerEventsApi.restoreTrashedGame(eventId, game.id);
+      return `${game.name} wurde wiederhergestellt.`;
+    }, 'Fehler beim Wiederherstellen des Spiels.');
+  };
+
+  const handlePurge = (game: TrashedGame) => {
+    const confirmed = window.confirm(`${game.name} endgültig löschen? Das kann nicht rückgängig gemacht werden.`);
+    if (!confirmed) return;
+
+    runAction(async () => {
+      await organizerEventsApi.purgeTrashedGame(eventId, game.id);
+      return `${game.name} wurde endgültig gelöscht.`;
+    }, 'Fehler beim endgültigen Löschen des Spiels.');
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Lade Teilnehmer und Spiele...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 bg-red-100 border border-red-400 text-red-700 rounded" role="alert">
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="p-3 bg-green-100 border border-green-400 text-green-700 rounded">{success}</div>
+      )}
+
+      <form onSubmit={handleMerge} className="space-y-3">
+        <h3 className="text-sm font-medium text-gray-900">Teilnehmer zusammenführen</h3>
+        <p className="text-xs text-gray-500">
+          Spiele, Mitspieler- und Mitbringer-Einträge des doppelten Teilnehmers wandern zum ausgewählten Ziel.
+        </p>
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div>
+            <label htmlFor="mergeSource" className="block text-sm text-gray-700 mb-1">
+              Doppelter Eintrag
+            </label>
+            <select
+              id="mergeSource"
+              value={sourceId}
+              onChange={(e) => setSourceId(e.target.value)}
+              className={selectClassName}
+              disabled={isWorking}
+            >
+              <option value="">Bitte wählen</option>
+              {participants.map((participant) => (
+                <option key={participant.id} value={participant.id}>
+                  {participant.name} ({participant.playingCount} Mitspielen, {participant.bringingCount} Mitbringen)
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="mergeTarget" className="block text-sm text-gray-700 mb-1">
+              Zusammenführen mit
+            </label>
+            <select
+              id="mergeTarget"
+              value={targetId}
+              onChange={(e) => setTargetId(e.target.value)}
+              className={selectClassName}
+              disabled={isWorking}
+            >
+              <option value="">Bitte wählen</option>
+              {participants
+                .filter((participant) => participant.id !== sourceId)
+                .map((participant) => (
+                  <option key={participant.id} value={participant.id}>
+                    {participant.name}
+                  </option>
+                ))}
+            </select>
+          </div>
+        </div>
+        <button
+          type="submit"
+          disabled={isWorking}
+          className="py-2 px-4 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white font-medium rounded-md transition-colors"
+        >
+          Zusammenführen
+        </button>
+      </form>
+
+      <form onSubmit={handleGameMerge} className="space-y-3">
+        <h3 className="text-sm font-medium text-gray-900">Spiele zusammenführen</h3>
+        <p className="text-xs text-gray-500">
+          Mitspieler, Mitbringer und Verlauf des doppelten Spiels wandern zum ausgewählten Ziel. Name und
+          BGG-Daten des Ziels bleiben erhalten.
+        </p>
+        <button
+          type="button"
+          onClick={handleFindDuplicates}
+          disabled={isWorking}
+          className="py-2 px-4 bg-gray-200 hover:bg-gray-300 disabled:bg-gray-100 text-gray-800 font-medium rounded-md transition-colors"
+        >
+          Mögliche Duplikate suchen
+        </button>
+        {duplicates && duplicates.length > 0 && (
+          <ul className="divide-y border rounded-md text-sm" data-testid="duplicate-games">
+            {duplicates.map((candidate) => (
+              <li
+                key={`${candidate.games[0].id}-${candidate.games[1].id}`}
+                className="flex justify-between items-center gap-2 px-3 py-2"
+              >
+                <div>
+                  <span className="text-gray-900">
+                    {candidate.games[0].name} / {candidate.games[1].name}
+                  </span>
+                  <p className="text-xs text-gray-500">
+                    {candidate.reason === 'bggId' ? 'Gleicher BGG-Eintrag' : `Ähnlicher Name (${candidate.score} %)`}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => selectDuplicate(candidate)}
+                  disabled={isWorking}
+                  aria-label={`${candidate.games[1].name} und ${candidate.games[0].name} auswählen`}
+                  className="py-1 px-3 bg-gray-200 hover:bg-gray-300 disabled:bg-gray-100 text-gray-800 rounded-md transition-colors"
+                >
+                  Auswählen
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div>
+            <label htmlFor="gameMergeSource" className="block text-sm text-gray-700 mb-1">
+              Doppeltes Spiel
+            </label>
+            <select
+              id="gameMergeSource"
+              value={gameSourceId}
+              onChange={(e) => setGameSourceId(e.target.value)}
+              className={selectClassName}
+              disabled={isWorking}
+            >
+              <option value="">Bitte wählen</option>
+              {games.map((game) => (
+                <option key={game.id} value={game.id}>
+                  {game.name} ({game.playerCount} Mitspieler, {game.bringerCount} Mitbringer)
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="gameMergeTarget" className="block text-sm text-gray-700 mb-1">
+              Zusammenführen mit Spiel
+            </label>
+            <select
+              id="gameMergeTarget"
+              value={gameTargetId}
+              onChange={(e) => setGameTargetId(e.target.value)}
+              className={selectClassName}
+              disabled={isWorking}
+            >
+              <option value="">Bitte wählen</option>
+              {games
+                .filter((game) => game.id !== gameSourceId)
+                .map((game) => (
+                  <option key={game.id} value={game.id}>
+                    {game.name}
+                  </option>
+                ))}
+            </select>
+          </div>
+        </div>
+        <button
+          type="submit"
+          disabled={isWorking}
+          className="py-2 px-4 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white font-medium rounded-md transition-colors"
+        >
+          Spiele zusammenführen
+        </button>
+      </form>
+
+      <form onSubmit={handleGameSave} className="space-y-3">
+        <h3 className="text-sm font-medium text-gray-900">Spiel bearbeiten</h3>
+        <div>
+          <label htmlFor="moderationGame" className="block text-sm text-gray-700 mb-1">
+            Spiel
+          </label>
+          <select
+            id="moderationGame"
+            value={gameId}
+            onChange={(e) => selectGame(e.target.value)}
+            className={selectClassName}
+            disabled={isWorking}
+          >
+            <option value="">Bitte wählen</option>
+            {games.map((game) => (
+              <option key={game.id} value={game.id}>
+                {game.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        {gameId && (
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div>
+              <label htmlFor="moderationGameName" className="block text-sm text-gray-700 mb-1">
+                Name
+              </label>
+              <input
+                id="moderationGameName"
+                type="text"
+                value={gameName}
+                onChange={(e) => setGameName(e.target.value)}
+                className={selectClassName}
+                disabled={isWorking}
+              />
+            </div>
+            <div>
+              <label htmlFor="moderationGameOwner" className="block text-sm text-gray-700 mb-1">
+                Besitzer
+              </label>
+              <select
+                id="moderationGameOwner"
+                value={ownerId}
+                onChange={(e) => setOwnerId(e.target.value)}
+                className={selectClassName}
+                disabled={isWorking}
+              >
+                <option value={NO_OWNER}>Kein Besitzer</option>
+                {participants.map((participant) => (
+                  <option key={participant.id} value={participant.id}>
+                    {participant.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+        )}
+        <button
+          type="submit"
+          disabled={isWorking || !gameId}
+          className="py-2 px-4 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white font-medium rounded-md transition-colors"
+        >
+          Spiel speichern
+        </button>
+      </form>
+
+      <form onSubmit={handleStalePreview} className="space-y-3">
+        <h3 className="text-sm font-medium text-gray-900">Alte Wunschspiele aufräumen</h3>
+        <div>
+          <label htmlFor="staleDays" className="block text-sm text-gray-700 mb-1">
+            Wunschspiele ohne Mitbringer, älter als (Tage)
+          </label>
+          <input
+            id="staleDays"
+            type="number"
+            min={1}
+            value={staleDays}
+            onChange={(e) => {
+              setStaleDays(e.target.value);
+              setStaleGames(null);
+            }}
+            className={selectClassName}
+            disabled={isWorking}
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={isWorking}
+          className="py-2 px-4 bg-gray-200 hover:bg-gray-300 disabled:bg-gray-100 text-gray-800 font-medium rounded-md transition-colors"
+        >
+          Vorschau
+        </button>
+
+        {staleGames && staleGames.length > 0 && (
+          <div className="space-y-2">
+            <ul className="divide-y border rounded-md text-sm" data-testid="stale-games">
+              {staleGames.map((game) => (
+                <li key={game.id} className="flex justify-between gap-2 px-3 py-2">
+                  <span className="text-gray-900">{game.name}</span>
+                  <span className="text-gray-500">seit {formatDate(game.createdAt)}</span>
+                </li>
+              ))}
+            </ul>
+            <button
+              type="button"
+              onClick={handleStaleDelete}
+              disabled={isWorking}
+              className="py-2 px-4 bg-red-600 hover:bg-red-700 disabled:bg-red-400 text-white font-medium rounded-md transition-colors"
+            >
+              {staleGames.length} Wunschspiele löschen
+            </button>
+          </div>
+        )}
+      </form>
+
+      <section className="space-y-3">
+        <h3 className="text-sm font-medium text-gray-900">Papierkorb</h3>
+        <p className="text-xs text-gray-500">
+          Gelöschte Spiele lassen sich mit allen Mitspielern und Mitbringern wiederherstellen, bis sie
+          automatisch endgültig gelöscht werden.
+        </p>
+        {trash.length === 0 ? (
+          <p className="text-sm text-gray-500">Der Papierkorb ist leer.</p>
+        ) : (
+          <ul className="divide-y border rounded-md text-sm" data-testid="trash">
+            {trash.map((game) => (
+              <li key={game.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 px-3 py-2">
+                <div>
+                  <span className="text-gray-900">{game.name}</span>
+                  <p className="text-xs text-gray-500">
+                    Gelöscht am {formatDate(game.deletedAt)}
+                    {game.deletedByName && ` von ${game.deletedByName}`} · {game.playerCount} Mitspieler,{' '}
+                    {game.bringerCount} Mitbringer · endgültig weg am {formatDate(game.purgeAt)}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => handleRestore(game)}
+                    disabled={isWorking}
+                    aria-label={`${game.name} wiederherstellen`}
+                    className="py-1 px-3 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded-md transition-colors"
+                  >
+                    Wiederherstellen
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handlePurge(game)}
+                    disabled={isWorking}
+                    aria-label={`${game.name} endgültig löschen`}
+                    className="py-1 px-3 bg-gray-200 hover:bg-gray-300 disabled:bg-gray-100 text-red-700 rounded-md transition-colors"
+                  >
+                    Endgültig löschen
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
+
+export default EventModerationPanel;
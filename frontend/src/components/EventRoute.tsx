@@ -0,0 +1,80 @@
+/**
+ * EventRoute resolves an event join link (/e/:slug) and provides the event
+ * to its children via EventProvider. The children (AuthGuard etc.) then show
+ * the PasswordScreen for exactly this event.
+ */
+
+import { useEffect, useState, ReactNode } from 'react';
+import { useParams } from 'react-router-dom';
+import { eventsApi, ApiError } from '../api/client';
+import { EventProvider } from '../contexts/EventContext';
+import type { PublicEvent } from '../types';
+
+interface EventRouteProps {
+  children: ReactNode;
+}
+
+export function EventRoute({ children }: EventRouteProps) {
+  const { slug } = useParams<{ slug: string }>();
+  const [event, setEvent] = useState<PublicEvent | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!slug) return;
+
+    let cancelled = false;
+    setEvent(null);
+    setError(null);
+
+    eventsApi
+      .getBySlug(slug)
+      .then((response) => {
+        if (!cancelled) {
+          setEvent(response.event);
+        }
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        if (err instanceof ApiError && err.code === 'EVENT_NOT_FOUND') {
+          setError('Dieses Event wurde nicht gefunden. Bitte prüfe den Link.');
+        } else {
+          setError('Das Event konnte nicht geladen werden. Bitte später erneut versuchen.');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [slug]);
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-100 p-4">
+        <div className="bg-white rounded-lg shadow p-8 max-w-md w-full text-center">
+          <h1 className="text-xl font-bold text-gray-800 mb-2">Event nicht verfügbar</h1>
+          <p className="text-gray-600" role="alert">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!event) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-100">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Laden...</p>
+        </div>
+      </div>
+    );
+  }
+
+  // Keyed by event so that per-event state (participant, token) is re-read when switching events
+  return (
+    <EventProvider key={event.id} event={event}>
+      {children}
+    </EventProvider>
+  );
+}
+
+export default EventRoute;
@@ -0,0 +1,221 @@
+/**
+ * EventTeamPanel lists the organizer team of an event. The owner invites accounts
+ * by email, changes roles and removes members. Invites are not mailed: the owner
+ * copies the accept link shown next to each pending invite.
+ */
+
+import { useCallback, useEffect, useState, FormEvent } from 'react';
+import { organizerEventsApi, ApiError } from '../api/client';
+import type { EventInvite, EventMember, EventRole } from '../types/event';
+
+export const ROLE_LABELS: Record<EventRole, string> = {
+  owner: 'Besitzer',
+  co_organizer: 'Co-Organisator',
+  viewer: 'Nur lesen',
+};
+
+const INVITABLE_ROLES: EventRole[] = ['co_organizer', 'viewer'];
+
+/**
+ * Absolute link the invited person opens to accept the invite
+ */
+export function getInviteLink(token: string): string {
+  return `${window.location.origin}/organizer/invites/${token}`;
+}
+
+interface EventTeamPanelProps {
+  eventId: string;
+  role: EventRole;
+}
+
+export function EventTeamPanel({ eventId, role }: EventTeamPanelProps) {
+  const [members, setMembers] = useState<EventMember[]>([]);
+  const [invites, setInvites] = useState<EventInvite[]>([]);
+  const [email, setEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<EventRole>('co_organizer');
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isInviting, setIsInviting] = useState(false);
+  const isOwner = role === 'owner';
+
+  const loadTeam = useCallback(async () => {
+    try {
+      const team = await organizerEventsApi.getTeam(eventId);
+      setMembers(team.members);
+      setInvites(team.invites);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Fehler beim Laden des Teams.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    loadTeam();
+  }, [loadTeam]);
+
+  const runAction = async (action: () => Promise<unknown>, fallbackMessage: string) => {
+    setError(null);
+    try {
+      await action();
+      await loadTeam();
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : fallbackMessage);
+    }
+  };
+
+  const handleInvite = async (e: FormEvent) => {
+    e.preventDefault();
+
+    if (!email.trim()) {
+      setError('Bitte eine E-Mail-Adresse eingeben.');
+      return;
+    }
+
+    setIsInviting(true);
+    await runAction(async () => {
+      await organizerEventsApi.createInvite(eventId, { email: email.trim(), role: inviteRole });
+      setEmail('');
+    }, 'Fehler beim Einladen.');
+    setIsInviting(false);
+  };
+
+  const handleRemoveMember = (member: EventMember) => {
+    const confirmed = window.confirm(`${member.email} aus dem Organisationsteam entfernen?`);
+    if (!confirmed) return;
+    runAction(() => organizerEventsApi.removeMember(eventId, member.accountId), 'Fehler beim Entfernen.');
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Lade Team...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-3 bg-red-100 border border-red-400 text-red-700 rounded" role="alert">
+          {error}
+        </div>
+      )}
+
+      <ul className="divide-y border rounded-md">
+        {members.map((member) => (
+          <li
+            key={member.accountId}
+            className="flex items-center justify-between gap-2 px-3 py-2 text-sm"
+            data-testid={`team-member-${member.accountId}`}
+          >
+            <span className="text-gray-900 truncate">{member.email}</span>
+            {isOwner && member.role !== 'owner' ? (
+              <span className="flex items-center gap-2">
+                <select
+                  value={member.role}
+                  aria-label={`Rolle von ${member.email}`}
+                  onChange={(e) =>
+                    runAction(
+                      () => organizerEventsApi.updateMemberRole(eventId, member.accountId, e.target.value as EventRole),
+                      'Fehler beim Ändern der Rolle.'
+                    )
+                  }
+                  className="px-2 py-1 border border-gray-300 rounded-md"
+                >
+                  {INVITABLE_ROLES.map((option) => (
+                    <option key={option} value={option}>
+                      {ROLE_LABELS[option]}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => handleRemoveMember(member)}
+                  className="text-red-600 hover:text-red-800"
+                >
+                  Entfernen
+                </button>
+              </span>
+            ) : (
+              <span className="text-gray-500">{ROLE_LABELS[member.role]}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {isOwner && (
+        <>
+          {invites.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Offene Einladungen</h3>
+              <ul className="space-y-2">
+                {invites.map((invite) => (
+                  <li key={invite.id} className="border rounded-md p-3 text-sm space-y-1" data-testid={`invite-${invite.id}`}>
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-gray-900">
+                        {invite.email} · {ROLE_LABELS[invite.role]}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          runAction(() => organizerEventsApi.revokeInvite(eventId, invite.id), 'Fehler beim Zurückziehen.')
+                        }
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        Zurückziehen
+                      </button>
+                    </div>
+                    <input
+                      type="text"
+                      readOnly
+                      value={getInviteLink(invite.token)}
+                      aria-label={`Einladungslink für ${invite.email}`}
+                      onFocus={(e) => e.target.select()}
+                      className="w-full px-2 py-1 bg-gray-50 border border-gray-200 rounded text-xs text-gray-700"
+                    />
+                  </li>
+                ))}
+              </ul>
+              <p className="text-xs text-gray-500 mt-2">
+                Einladungen werden nicht per E-Mail verschickt. Schicke den Link selbst weiter; er ist 14 Tage gültig
+                und funktioniert nur mit dem Konto der eingeladenen E-Mail-Adresse.
+              </p>
+            </div>
+          )}
+
+          <form onSubmit={handleInvite} className="flex flex-col sm:flex-row gap-2">
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="E-Mail-Adresse"
+              aria-label="E-Mail-Adresse"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              disabled={isInviting}
+            />
+            <select
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as EventRole)}
+              aria-label="Rolle"
+              className="px-3 py-2 border border-gray-300 rounded-md"
+              disabled={isInviting}
+            >
+              {INVITABLE_ROLES.map((option) => (
+                <option key={option} value={option}>
+                  {ROLE_LABELS[option]}
+                </option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={isInviting}
+              className="py-2 px-4 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white font-medium rounded-md transition-colors"
+            >
+              {isInviting ? 'Einladen...' : 'Einladen'}
+            </button>
+          </form>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default EventTeamPanel;
@@ -9,7 +9,7 @@
 
 import { useRef, useEffect, useState, useCallback } from 'react';
 import { useSwipeable } from 'react-swipeable';
-import { Game, Player, Bringer } from '../types';
+import { Game, Player, Bringer, InterestLevel } from '../types';
 import { GameActions } from './GameActions';
 import { NeuheitSticker } from './NeuheitSticker';
 import { openBggPage } from './BggModal';
@@ -17,7 +17,10 @@ import { BggRatingBadge } from './BggRatingBadge';
 import { HelpBubble } from './HelpBubble';
 import { LazyBggImage } from './LazyBggImage';
 import { MobileActionsMenu } from './MobileActionsMenu';
+import { InterestMarker, OnlineIndicator } from './PlayerList';
+import { InterestLevelSelect } from './InterestLevelSelect';
 import { ThumbnailUploadModal } from './ThumbnailUploadModal';
+import { EditGameDialog } from './EditGameDialog';
 
 /**
  * Hook to detect if text would wrap at the larger font size
@@ -71,11 +74,14 @@ interface GameCardProps {
   onAddBringer?: (gameId: string) => void;
   onRemovePlayer?: (gameId: string) => void;
   onRemoveBringer?: (gameId: string) => void;
+  onChangeInterest?: (gameId: string, interestLevel: InterestLevel) => void;
   onHideGame?: (gameId: string) => void;
   onUnhideGame?: (gameId: string) => void;
   onDeleteGame?: (gameId: string) => void;
   onTogglePrototype?: (gameId: string, isPrototype: boolean) => Promise<void>;
+  onToggleFollow?: (gameId: string, isFollowed: boolean) => Promise<void>;
   onThumbnailUploaded?: (gameId: string) => void;
+  onGameEdited?: (game: Game) => void;
   scrollIntoView?: boolean;
   onScrolledIntoView?: () => void;
   /** Whether this game should be highlighted (matches search) - Requirement 7.1, 7.2 */
@@ -84,6 +90,8 @@ interface GameCardProps {
   thumbnailTimestamp?: number;
   /** Whether this card is the last item in the list */
   isLast?: boolean;
+  /** Participants that currently have the list open */
+  onlineParticipantIds?: Set<string>;
 }
 
 /** Compact list display for mobile - shows up to 2 names, or 1 name + "+X" if more than 2 */
@@ -92,11 +100,13 @@ function CompactList({
   currentParticipantId, 
   emptyText,
   expanded,
+  onlineParticipantIds,
 }: { 
   items: (Player | Bringer)[]; 
   currentParticipantId: string; 
   emptyText: string;
   expanded: boolean;
+  onlineParticipantIds?: Set<string>;
 }) {
   if (items.length === 0) {
     return <span className="text-gray-400 italic text-sm">{emptyText}</span>;
@@ -112,6 +122,7 @@ function CompactList({
     <div className="text-sm">
       {visibleItems.map((item) => (
         <div key={item.id} className="truncate">
+          {onlineParticipantIds?.has(item.participant.id) && <OnlineIndicator />}
           <span
             className={
               item.participant.id === currentParticipantId
@@ -121,6 +132,7 @@ function CompactList({
           >
             {item.participant.name}
           </span>
+          {'interestLevel' in item && <InterestMarker interestLevel={item.interestLevel} />}
         </div>
       ))}
       {hasOverflow && (
@@ -138,23 +150,28 @@ export function GameCard({
   onAddBringer,
   onRemovePlayer,
   onRemoveBringer,
+  onChangeInterest,
   onHideGame,
   onUnhideGame,
   onDeleteGame,
   onTogglePrototype,
+  onToggleFollow,
   onThumbnailUploaded,
+  onGameEdited,
   scrollIntoView,
   onScrolledIntoView,
   isHighlighted = false,
   thumbnailTimestamp,
   isLast = false,
+  onlineParticipantIds,
 }: GameCardProps) {
   const cardRef = useRef<HTMLDivElement>(null);
   const isWunsch = game.status === 'wunsch';
   const isPrototype = game.isPrototype;
   const isOwner = game.owner?.id === currentParticipantId;
   const isHidden = game.isHidden;
-  const isPlayer = game.players.some((player) => player.participant.id === currentParticipantId);
+  const currentPlayer = game.players.find((player) => player.participant.id === currentParticipantId);
+  const isPlayer = currentPlayer !== undefined;
   const isBringer = game.bringers.some((bringer) => bringer.participant.id === currentParticipantId);
   const canHide = !isBringer;
   
@@ -171,6 +188,7 @@ export function GameCard({
   const hasScrolledRef = useRef(false);
   const [listsExpanded, setListsExpanded] = useState(false);
   const [uploadModalOpen, setUploadModalOpen] = useState(false);
+  const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [swipeX, setSwipeX] = useState(0);
   const [isSwiping, setIsSwiping] = useState(false);
   const [isAnimatingSwipe, setIsAnimatingSwipe] = useState(false);
@@ -206,6 +224,10 @@ export function GameCard({
     setUploadModalOpen(true);
   }, []);
 
+  const handleEditGame = useCallback((_gameId: string) => {
+    setEditDialogOpen(true);
+  }, []);
+
   const handleUploadSuccess = useCallback(() => {
     onThumbnailUploaded?.(game.id);
   }, [onThumbnailUploaded, game.id]);
@@ -668,6 +690,15 @@ export function GameCard({
                     onSuccess={handleUploadSuccess}
                     participantId={currentParticipantId}
                   />
+                  {onGameEdited && (
+                    <EditGameDialog
+                      game={game}
+                      isOpen={editDialogOpen}
+                      onClose={() => setEditDialogOpen(false)}
+                      onSaved={onGameEdited}
+                      participantId={currentParticipantId}
+                    />
+                  )}
                 </div>
               </div>
               {/* Status indicator column */}
@@ -705,7 +736,9 @@ export function GameCard({
                   game={game}
                   currentParticipantId={currentParticipantId}
                   onTogglePrototype={onTogglePrototype}
+                  onToggleFollow={onToggleFollow}
                   onUploadThumbnail={handleUploadThumbnail}
+                  onEditGame={onGameEdited ? handleEditGame : undefined}
                   onDeleteGame={onDeleteGame}
                   canDelete={canDelete}
                   canShowDelete={canShowDelete}
@@ -742,7 +775,15 @@ export function GameCard({
                 currentParticipantId={currentParticipantId} 
                 emptyText="Keine"
                 expanded={listsExpanded}
+                onlineParticipantIds={onlineParticipantIds}
               />
+              {currentPlayer && onChangeInterest && (
+                <InterestLevelSelect
+                  value={currentPlayer.interestLevel}
+                  onChange={(interestLevel) => onChangeInterest(game.id, interestLevel)}
+                  className="mt-1"
+                />
+              )}
             </div>
           </div>
         </div>
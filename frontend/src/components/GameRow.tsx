@@ -6,8 +6,9 @@
  */
 
 import { useRef, useEffect, useState, useCallback } from 'react';
-import { Game } from '../types';
+import { Game, InterestLevel } from '../types';
 import { PlayerList } from './PlayerList';
+import { InterestLevelSelect } from './InterestLevelSelect';
 import { BringerList } from './BringerList';
 import { GameActions } from './GameActions';
 import { NeuheitSticker } from './NeuheitSticker';
@@ -17,6 +18,7 @@ import { HelpBubble } from './HelpBubble';
 import { LazyBggImage } from './LazyBggImage';
 import { DesktopActionsMenu } from './DesktopActionsMenu';
 import { ThumbnailUploadModal } from './ThumbnailUploadModal';
+import { EditGameDialog } from './EditGameDialog';
 import { useToast } from './ToastProvider';
 
 interface GameRowProps {
@@ -27,11 +29,14 @@ interface GameRowProps {
   onAddBringer?: (gameId: string) => void;
   onRemovePlayer?: (gameId: string) => void;
   onRemoveBringer?: (gameId: string) => void;
+  onChangeInterest?: (gameId: string, interestLevel: InterestLevel) => void;
   onHideGame?: (gameId: string) => void;
   onUnhideGame?: (gameId: string) => void;
   onDeleteGame?: (gameId: string) => void;
   onTogglePrototype?: (gameId: string, isPrototype: boolean) => Promise<void>;
+  onToggleFollow?: (gameId: string, isFollowed: boolean) => Promise<void>;
   onThumbnailUploaded?: (gameId: string) => void;
+  onGameEdited?: (game: Game) => void;
   scrollIntoView?: boolean;
   onScrolledIntoView?: () => void;
   /** Whether this game should be highlighted (matches search) - Requirement 7.1, 7.2 */
@@ -40,6 +45,8 @@ interface GameRowProps {
   thumbnailTimestamp?: number;
   /** Show top shadow divider (skip for first row) */
   showTopShadow?: boolean;
+  /** Participants that currently have the list open */
+  onlineParticipantIds?: Set<string>;
 }
 
 export function GameRow({
@@ -50,16 +57,20 @@ export function GameRow({
   onAddBringer,
   onRemovePlayer,
   onRemoveBringer,
+  onChangeInterest,
   onHideGame,
   onUnhideGame,
   onDeleteGame,
   onTogglePrototype,
+  onToggleFollow,
   onThumbnailUploaded,
+  onGameEdited,
   scrollIntoView,
   onScrolledIntoView,
   isHighlighted,
   thumbnailTimestamp,
   showTopShadow = false,
+  onlineParticipantIds,
 }: GameRowProps) {
   const rowRef = useRef<HTMLTableRowElement>(null);
   const isWunsch = game.status === 'wunsch';
@@ -67,6 +78,7 @@ export function GameRow({
   const isOwner = game.owner?.id === currentParticipantId;
   const isHidden = game.isHidden;
   const isBringer = game.bringers.some((bringer) => bringer.participant.id === currentParticipantId);
+  const currentPlayer = game.players.find((player) => player.participant.id === currentParticipantId);
   const canHide = !isBringer;
   
   // Check if current participant is the only player/bringer (or lists are empty)
@@ -82,6 +94,7 @@ export function GameRow({
   const hasScrolledRef = useRef(false);
   const [listsExpanded, setListsExpanded] = useState(false);
   const [uploadModalOpen, setUploadModalOpen] = useState(false);
+  const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [collapsePhase, setCollapsePhase] = useState<'idle' | 'preparing' | 'collapsing'>('idle');
   const collapseHeightRef = useRef(0);
   const collapseTimeoutRef = useRef<number | null>(null);
@@ -95,6 +108,10 @@ export function GameRow({
     setUploadModalOpen(true);
   }, []);
 
+  const handleEditGame = useCallback((_gameId: string) => {
+    setEditDialogOpen(true);
+  }, []);
+
   const handleUploadSuccess = useCallback(() => {
     onThumbnailUploaded?.(game.id);
   }, [onThumbnailUploaded, game.id]);
@@ -309,7 +326,15 @@ export function GameRow({
             expanded={listsExpanded}
             onToggleExpand={handleToggleExpand}
             displayMode="stacked"
+            onlineParticipantIds={onlineParticipantIds}
           />
+          {currentPlayer && onChangeInterest && (
+            <InterestLevelSelect
+              value={currentPlayer.interestLevel}
+              onChange={(interestLevel) => onChangeInterest(game.id, interestLevel)}
+              className="mt-1"
+            />
+          )}
         </div>
       </td>
 
@@ -397,7 +422,9 @@ export function GameRow({
                 game={game}
                 currentParticipantId={currentParticipantId}
                 onTogglePrototype={onTogglePrototype}
+                onToggleFollow={onToggleFollow}
                 onUploadThumbnail={handleUploadThumbnail}
+                onEditGame={onGameEdited ? handleEditGame : undefined}
                 onDeleteGame={onDeleteGame}
                 canDelete={canDelete}
                 canShowDelete={canShowDelete}
@@ -413,6 +440,15 @@ export function GameRow({
               onSuccess={handleUploadSuccess}
               participantId={currentParticipantId}
             />
+            {onGameEdited && (
+              <EditGameDialog
+                game={game}
+                isOpen={editDialogOpen}
+                onClose={() => setEditDialogOpen(false)}
+                onSaved={onGameEdited}
+                participantId={currentParticipantId}
+              />
+            )}
           </div>
         </div>
       </td>
@@ -8,7 +8,7 @@
  */
 
 import { useMemo } from 'react';
-import { Game } from '../types';
+import { Game, InterestLevel } from '../types';
 import { GameRow } from './GameRow';
 import { GameCard } from './GameCard';
 import {
@@ -31,11 +31,14 @@ interface GameTableProps {
   onAddBringer?: (gameId: string) => void;
   onRemovePlayer?: (gameId: string) => void;
   onRemoveBringer?: (gameId: string) => void;
+  onChangeInterest?: (gameId: string, interestLevel: InterestLevel) => void;
   onHideGame?: (gameId: string) => void;
   onUnhideGame?: (gameId: string) => void;
   onDeleteGame?: (gameId: string) => void;
   onTogglePrototype?: (gameId: string, isPrototype: boolean) => Promise<void>;
+  onToggleFollow?: (gameId: string, isFollowed: boolean) => Promise<void>;
   onThumbnailUploaded?: (gameId: string) => void;
+  onGameEdited?: (game: Game) => void;
   scrollToGameId?: string | null;
   onScrolledToGame?: () => void;
   /** Set of game IDs that should be highlighted (match search) - Requirement 7.1, 7.2 */
@@ -50,6 +53,8 @@ interface GameTableProps {
   thumbnailTimestamps?: Record<string, number>;
   /** Organizer/admin can manage all games */
   canManageGames?: boolean;
+  /** Participants that currently have the list open, marked in the player lists */
+  onlineParticipantIds?: Set<string>;
 }
 
 export function GameTable({
@@ -62,11 +67,14 @@ export function GameTable({
   onAddBringer,
   onRemovePlayer,
   onRemoveBringer,
+  onChangeInterest,
   onHideGame,
   onUnhideGame,
   onDeleteGame,
   onTogglePrototype,
+  onToggleFollow,
   onThumbnailUploaded,
+  onGameEdited,
   scrollToGameId,
   onScrolledToGame,
   highlightedGameIds,
@@ -75,6 +83,7 @@ export function GameTable({
   hiddenOnly = false,
   thumbnailTimestamps,
   canManageGames = false,
+  onlineParticipantIds,
 }: GameTableProps) {
   // Sort games by selected key (name or added date)
   const sortedGames = useMemo(() => {
@@ -242,16 +251,20 @@ export function GameTable({
                 onAddBringer={onAddBringer}
                 onRemovePlayer={onRemovePlayer}
                 onRemoveBringer={onRemoveBringer}
+                onChangeInterest={onChangeInterest}
                 onHideGame={onHideGame}
                 onUnhideGame={onUnhideGame}
                 onDeleteGame={onDeleteGame}
                 onTogglePrototype={onTogglePrototype}
+                onToggleFollow={onToggleFollow}
                 onThumbnailUploaded={onThumbnailUploaded}
+                onGameEdited={onGameEdited}
                 scrollIntoView={game.id === scrollToGameId}
                 onScrolledIntoView={onScrolledToGame}
                 isHighlighted={highlightedGameIds?.has(game.id)}
                 thumbnailTimestamp={thumbnailTimestamps?.[game.id]}
                 isLast={index === sortedGames.length - 1}
+                onlineParticipantIds={onlineParticipantIds}
               />
             </div>
           ))}
@@ -297,16 +310,20 @@ export function GameTable({
                   onAddBringer={onAddBringer}
                   onRemovePlayer={onRemovePlayer}
                   onRemoveBringer={onRemoveBringer}
+                  onChangeInterest={onChangeInterest}
                   onHideGame={onHideGame}
                   onUnhideGame={onUnhideGame}
                   onDeleteGame={onDeleteGame}
                   onTogglePrototype={onTogglePrototype}
+                  onToggleFollow={onToggleFollow}
                   onThumbnailUploaded={onThumbnailUploaded}
+                  onGameEdited={onGameEdited}
                   scrollIntoView={game.id === scrollToGameId}
                   onScrolledIntoView={onScrolledToGame}
                   isHighlighted={highlightedGameIds?.has(game.id)}
                   thumbnailTimestamp={thumbnailTimestamps?.[game.id]}
                   showTopShadow={index > 0}
+                  onlineParticipantIds={onlineParticipantIds}
                 />
               ))}
             </tbody>
@@ -11,11 +11,15 @@
  * 
  * Updated for Spec 016:
  * - Added account management link (Profil)
+ *
+ * Notification bell with unread badge for the current participant
  */
 
 import { Link, useLocation } from 'react-router-dom';
+import { NotificationBell } from './NotificationBell';
 import { ParticipantNameEditor } from './ParticipantNameEditor';
 import { useAuth } from '../contexts/AuthContext';
+import { useEventContext } from '../contexts/EventContext';
 import type { Participant } from '../types';
 
 interface HeaderProps {
@@ -34,15 +38,18 @@ const DESKTOP_TABS = [
   { path: '/', label: 'Spieleliste' },
   { path: '/print', label: 'Druckansicht' },
   { path: '/statistics', label: 'Statistiken' },
+  { path: '/news', label: 'Neuigkeiten' },
+  { path: '/rounds', label: 'Runden' },
 ];
 
 export function Header({ participant, onParticipantUpdated, onParticipantSwitch }: HeaderProps) {
-  const eventName = getEventName();
+  const { event, toEventPath } = useEventContext();
+  const eventName = event?.name ?? getEventName();
   const location = useLocation();
   const { isAuthenticated: isAccountAuthenticated, account, logout: accountLogout } = useAuth();
 
   // Check if a nav link is active
-  const isActive = (path: string) => location.pathname === path;
+  const isActive = (path: string) => location.pathname === toEventPath(path);
 
   return (
     <header className="bg-blue-600 text-white shadow-lg fixed top-0 left-0 right-0 z-50">
@@ -50,7 +57,7 @@ export function Header({ participant, onParticipantUpdated, onParticipantSwitch
         <div className="flex items-center justify-between">
           {/* Event Title */}
           <Link 
-            to="/" 
+            to={toEventPath('/')} 
             className="hover:opacity-90 transition-opacity flex-shrink-0"
           >
             <h1 className="text-lg sm:text-2xl font-bold truncate max-w-[200px] sm:max-w-none">
@@ -63,7 +70,7 @@ export function Header({ participant, onParticipantUpdated, onParticipantSwitch
             {DESKTOP_TABS.map((tab) => (
               <Link
                 key={tab.path}
-                to={tab.path}
+                to={toEventPath(tab.path)}
                 className={`transition-colors text-sm font-medium ${
                   isActive(tab.path) 
                     ? 'text-white border-b-2 border-white pb-1' 
@@ -89,6 +96,12 @@ export function Header({ participant, onParticipantUpdated, onParticipantSwitch
                     Admin
                   </Link>
                 )}
+                <Link
+                  to="/organizer"
+                  className="text-white/80 hover:text-white text-sm px-3 py-1 rounded hover:bg-white/10 transition-colors"
+                >
+                  Meine Events
+                </Link>
                 <Link
                   to="/profile"
                   className="text-white/80 hover:text-white text-sm px-3 py-1 rounded hover:bg-white/10 transition-colors"
@@ -130,6 +143,9 @@ export function Header({ participant, onParticipantUpdated, onParticipantSwitch
               </>
             )}
           </div>
+
+          {/* Notification inbox - on mobile and desktop */}
+          {participant && <NotificationBell participantId={participant.id} />}
         </div>
       </div>
     </header>
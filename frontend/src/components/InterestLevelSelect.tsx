@@ -0,0 +1,36 @@
+/**
+ * InterestLevelSelect component
+ * Lets the current participant change how much they want to play a game
+ * they already play
+ * All UI text in German
+ */
+
+import { InterestLevel } from '../types';
+import { INTEREST_LABELS, INTEREST_LEVELS } from './PlayerList';
+
+interface InterestLevelSelectProps {
+  value: InterestLevel;
+  onChange: (interestLevel: InterestLevel) => void;
+  className?: string;
+}
+
+export function InterestLevelSelect({ value, onChange, className = '' }: InterestLevelSelectProps) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as InterestLevel)}
+      // Keep clicks from toggling the surrounding list
+      onClick={(e) => e.stopPropagation()}
+      aria-label="Mein Interesse"
+      className={`text-xs text-gray-700 border border-gray-300 rounded px-1 py-0.5 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 ${className}`}
+    >
+      {INTEREST_LEVELS.map((level) => (
+        <option key={level} value={level}>
+          {INTEREST_LABELS[level]}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+export default InterestLevelSelect;
@@ -10,6 +10,7 @@
 import { useState } from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { ParticipantOptionsDialog } from './ParticipantOptionsDialog';
+import { useEventContext } from '../contexts/EventContext';
 import type { Participant } from '../types';
 
 interface MobileBottomTabsProps {
@@ -58,6 +59,32 @@ function ChartIcon({ className }: { className?: string }) {
   );
 }
 
+function NewsIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+      <path 
+        strokeLinecap="round" 
+        strokeLinejoin="round" 
+        strokeWidth={2}
+        d="M19 20H5a2 2 0 01-2-2V6a2 2 0 012-2h10a2 2 0 012 2v1m2 13a2 2 0 01-2-2V7m2 13a2 2 0 002-2V9a2 2 0 00-2-2h-2m-4-3H9M7 16h6M7 8h6v4H7V8z" 
+      />
+    </svg>
+  );
+}
+
+function RoundsIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+      <path 
+        strokeLinecap="round" 
+        strokeLinejoin="round" 
+        strokeWidth={2}
+        d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" 
+      />
+    </svg>
+  );
+}
+
 function ParticipantIcon({ className }: { className?: string }) {
   return (
     <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
@@ -84,11 +111,14 @@ const TABS: TabConfig[] = [
   { id: 'games', path: '/', label: 'Spieleliste', icon: DiceIcon, action: 'navigate' },
   { id: 'print', path: '/print', label: 'Druckansicht', icon: PrinterIcon, action: 'navigate' },
   { id: 'stats', path: '/statistics', label: 'Statistiken', icon: ChartIcon, action: 'navigate' },
+  { id: 'news', path: '/news', label: 'Neuigkeiten', icon: NewsIcon, action: 'navigate' },
+  { id: 'rounds', path: '/rounds', label: 'Runden', icon: RoundsIcon, action: 'navigate' },
   { id: 'profile', path: null, label: 'Profil', icon: ParticipantIcon, action: 'dialog' },
 ];
 
 export function MobileBottomTabs({ participant, onParticipantUpdated, onParticipantSwitch }: MobileBottomTabsProps) {
   const location = useLocation();
+  const { toEventPath } = useEventContext();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
 
   const handleProfileClick = () => {
@@ -118,7 +148,7 @@ export function MobileBottomTabs({ participant, onParticipantUpdated, onParticip
       >
         <div className="flex justify-around items-center h-16">
           {TABS.map((tab) => {
-            const isActive = tab.path !== null && location.pathname === tab.path;
+            const isActive = tab.path !== null && location.pathname === toEventPath(tab.path);
             const Icon = tab.icon;
 
             if (tab.action === 'dialog') {
@@ -143,7 +173,7 @@ export function MobileBottomTabs({ participant, onParticipantUpdated, onParticip
             return (
               <Link
                 key={tab.id}
-                to={tab.path!}
+                to={toEventPath(tab.path!)}
                 className={`flex flex-col items-center justify-center flex-1 h-full min-w-0 px-1 transition-colors ${
                   isActive
                     ? 'text-blue-600'
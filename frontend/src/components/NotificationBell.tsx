@@ -0,0 +1,161 @@
+/**
+ * NotificationBell - inbox of the participant in the header
+ * Shows the number of unread notifications about games the participant plays,
+ * brings or follows. The inbox is refreshed periodically and whenever the
+ * window regains focus.
+ * All UI text in German
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { notificationsApi } from '../api/client';
+import type { NotificationEntry } from '../types/notification';
+
+interface NotificationBellProps {
+  participantId: string;
+}
+
+const POLL_INTERVAL_MS = 30_000;
+
+const formatDateTime = (dateString: string) => {
+  return new Date(dateString).toLocaleString('de-DE', {
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+export function NotificationBell({ participantId }: NotificationBellProps) {
+  const [notifications, setNotifications] = useState<NotificationEntry[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const loadNotifications = useCallback(async () => {
+    try {
+      const response = await notificationsApi.getAll(participantId);
+      setNotifications(response.notifications);
+      setUnreadCount(response.unreadCount);
+    } catch (err) {
+      console.error('Failed to fetch notifications:', err);
+    }
+  }, [participantId]);
+
+  useEffect(() => {
+    loadNotifications();
+    const interval = window.setInterval(loadNotifications, POLL_INTERVAL_MS);
+    window.addEventListener('focus', loadNotifications);
+    return () => {
+      window.clearInterval(interval);
+      window.removeEventListener('focus', loadNotifications);
+    };
+  }, [loadNotifications]);
+
+  // Close the inbox when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleMarkRead = async (notification: NotificationEntry) => {
+    if (notification.readAt) return;
+    try {
+      const response = await notificationsApi.markRead(notification.id, participantId);
+      setNotifications((prev) => prev.map((n) => (n.id === notification.id ? response.notification : n)));
+      setUnreadCount((count) => Math.max(0, count - 1));
+    } catch (err) {
+      console.error('Failed to mark notification as read:', err);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await notificationsApi.markAllRead(participantId);
+      const readAt = new Date().toISOString();
+      setNotifications((prev) => prev.map((n) => (n.readAt ? n : { ...n, readAt })));
+      setUnreadCount(0);
+    } catch (err) {
+      console.error('Failed to mark notifications as read:', err);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 rounded-full text-white/90 hover:text-white hover:bg-white/10 transition-colors"
+        aria-label={unreadCount > 0 ? `Benachrichtigungen (${unreadCount} ungelesen)` : 'Benachrichtigungen'}
+        aria-expanded={isOpen}
+        aria-haspopup="true"
+      >
+        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9"
+          />
+        </svg>
+        {unreadCount > 0 && (
+          <span
+            className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-500 text-white text-xs font-bold flex items-center justify-center"
+            data-testid="notification-badge"
+          >
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div
+          className="absolute right-0 mt-2 w-80 max-w-[calc(100vw-2rem)] bg-white text-gray-800 rounded-lg shadow-lg border border-gray-200 z-50"
+          role="dialog"
+          aria-label="Benachrichtigungen"
+        >
+          <div className="flex items-center justify-between px-4 py-2 border-b border-gray-100">
+            <span className="font-semibold">Benachrichtigungen</span>
+            {unreadCount > 0 && (
+              <button
+                onClick={handleMarkAllRead}
+                className="text-sm text-blue-600 hover:text-blue-800 hover:underline"
+              >
+                Alle als gelesen markieren
+              </button>
+            )}
+          </div>
+          {notifications.length === 0 ? (
+            <div className="px-4 py-6 text-center text-sm text-gray-500">
+              Keine Benachrichtigungen. Du wirst informiert, wenn jemand ein Spiel mitbringt oder löscht, das du spielst, mitbringst oder dem du folgst.
+            </div>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100" data-testid="notification-list">
+              {notifications.map((notification) => (
+                <li key={notification.id}>
+                  <button
+                    onClick={() => handleMarkRead(notification)}
+                    className={`w-full text-left px-4 py-3 flex items-baseline justify-between gap-3 hover:bg-gray-50 ${
+                      notification.readAt ? 'text-gray-500' : 'font-medium'
+                    }`}
+                  >
+                    <span>{notification.message}</span>
+                    <time dateTime={notification.createdAt} className="text-xs text-gray-500 whitespace-nowrap font-normal">
+                      {formatDateTime(notification.createdAt)}
+                    </time>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 /**
  * ParticipantSelectionModal component
- * Modal for selecting an existing participant or creating a new one
+ * Modal for selecting an existing participant or creating a new one.
+ * Shows the remaining spots of the event and waitlist positions once it is full.
  * 
  * Requirements: 5.1, 5.2, 5.3, 7.4
  */
@@ -8,7 +9,7 @@
 import { useState, useEffect } from 'react';
 import { createPortal } from 'react-dom';
 import { participantsApi, ApiError } from '../api/client';
-import type { Participant } from '../types';
+import type { Participant, ParticipantCapacity } from '../types';
 
 const MAX_USERNAME_LENGTH = 30;
 
@@ -19,6 +20,7 @@ interface ParticipantSelectionModalProps {
 
 export function ParticipantSelectionModal({ isOpen, onParticipantSelected }: ParticipantSelectionModalProps) {
   const [participants, setParticipants] = useState<Participant[]>([]);
+  const [capacity, setCapacity] = useState<ParticipantCapacity | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [newParticipantName, setNewParticipantName] = useState('');
@@ -45,6 +47,7 @@ export function ParticipantSelectionModal({ isOpen, onParticipantSelected }: Par
     try {
       const response = await participantsApi.getAll();
       setParticipants(response.participants);
+      setCapacity(response.capacity ?? null);
     } catch (err) {
       // Show detailed error for debugging
       const errorMessage = err instanceof Error ? err.message : String(err);
@@ -83,7 +86,15 @@ export function ParticipantSelectionModal({ isOpen, onParticipantSelected }: Par
 
     try {
       const response = await participantsApi.create(trimmedName);
-      onParticipantSelected(response.participant);
+      if (response.participant.waitlistPosition) {
+        // Let the participant see their waitlist position before continuing
+        setShowCreateForm(false);
+        setNewParticipantName('');
+        setPendingParticipant(response.participant);
+        fetchParticipants();
+      } else {
+        onParticipantSelected(response.participant);
+      }
     } catch (err) {
       if (err instanceof ApiError) {
         setCreateError(err.message);
@@ -98,6 +109,8 @@ export function ParticipantSelectionModal({ isOpen, onParticipantSelected }: Par
 
   if (!isOpen) return null;
 
+  const isFull = capacity?.remainingSpots === 0;
+
   const modalContent = (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
       <div className="bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] flex flex-col">
@@ -119,6 +132,12 @@ export function ParticipantSelectionModal({ isOpen, onParticipantSelected }: Par
               <p className="text-lg text-gray-900 mb-6">
                 Du meldest Dich als <span className="font-semibold">{pendingParticipant.name}</span> an
               </p>
+              {pendingParticipant.waitlistPosition && (
+                <p className="text-amber-700 text-sm mb-4" data-testid="pending-waitlist-position">
+                  Das Event ist voll. Du stehst auf Platz {pendingParticipant.waitlistPosition} der Warteliste
+                  und rückst automatisch nach, sobald ein Platz frei wird.
+                </p>
+              )}
               <div className="flex gap-3 justify-center">
                 <button
                   onClick={handleCancelConfirm}
@@ -150,6 +169,20 @@ export function ParticipantSelectionModal({ isOpen, onParticipantSelected }: Par
             </div>
           ) : (
             <>
+              {/* Capacity overview */}
+              {capacity && capacity.capacity !== null && (
+                <p
+                  className={`mb-3 text-sm rounded-lg px-3 py-2 ${
+                    isFull ? 'bg-amber-50 text-amber-800' : 'bg-green-50 text-green-800'
+                  }`}
+                  data-testid="capacity-info"
+                >
+                  {isFull
+                    ? `Alle ${capacity.capacity} Plätze sind belegt. Neue Teilnehmer kommen auf die Warteliste (${capacity.waitlisted} wartend).`
+                    : `Noch ${capacity.remainingSpots} von ${capacity.capacity} Plätzen frei.`}
+                </p>
+              )}
+
               {/* Existing users list */}
               {participants.length > 0 && !showCreateForm && (
                 <div className="space-y-2">
@@ -165,6 +198,11 @@ export function ParticipantSelectionModal({ isOpen, onParticipantSelected }: Par
                           className="w-full px-4 py-3 text-left hover:bg-blue-50 focus:bg-blue-50 focus:outline-none transition-colors"
                         >
                           <span className="text-gray-900">{participant.name}</span>
+                          {participant.waitlistPosition && (
+                            <span className="ml-2 text-xs text-amber-700">
+                              Warteliste #{participant.waitlistPosition}
+                            </span>
+                          )}
                         </button>
                       ))}
                     </div>
@@ -218,6 +256,11 @@ export function ParticipantSelectionModal({ isOpen, onParticipantSelected }: Par
                     {createError && (
                       <p className="text-red-600 text-sm">{createError}</p>
                     )}
+                    {isFull && (
+                      <p className="text-amber-700 text-sm">
+                        Das Event ist voll – du kommst auf die Warteliste.
+                      </p>
+                    )}
                     <div className="flex gap-2">
                       <button
                         type="button"
@@ -6,6 +6,7 @@
 
 import { useState, useRef, useEffect, FormEvent } from 'react';
 import { authApi, ApiError } from '../api/client';
+import { useEventContext } from '../contexts/EventContext';
 
 interface PasswordScreenProps {
   onAuthenticated: (token: string) => void;
@@ -23,7 +24,8 @@ export function PasswordScreen({ onAuthenticated }: PasswordScreenProps) {
   const [isLoading, setIsLoading] = useState(false);
   const passwordInputRef = useRef<HTMLInputElement>(null);
 
-  const eventName = getEventName();
+  const { event } = useEventContext();
+  const eventName = event?.name ?? getEventName();
 
   useEffect(() => {
     passwordInputRef.current?.focus();
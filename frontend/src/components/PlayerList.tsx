@@ -1,10 +1,20 @@
 /**
  * PlayerList component
- * Displays a list of player names with current participant highlighting
+ * Displays a list of player names with current participant highlighting,
+ * a marker for players who are online right now and a marker for players who
+ * want to play the game more or less than usual
  * All UI text in German (Requirement 9.1)
  */
 
-import { Player } from '../types';
+import { InterestLevel, Player } from '../types';
+
+export const INTEREST_LEVELS: readonly InterestLevel[] = ['must_play', 'gern', 'vielleicht'];
+
+export const INTEREST_LABELS: Record<InterestLevel, string> = {
+  must_play: 'Unbedingt',
+  gern: 'Gern',
+  vielleicht: 'Vielleicht',
+};
 
 interface PlayerListProps {
   players: Player[];
@@ -17,6 +27,36 @@ interface PlayerListProps {
   onToggleExpand?: () => void;
   /** Display mode: 'inline' (comma-separated) or 'stacked' (one per line) */
   displayMode?: 'inline' | 'stacked';
+  /** Participants that currently have the list open */
+  onlineParticipantIds?: Set<string>;
+}
+
+/** Green dot in front of the name of a participant who is online */
+export function OnlineIndicator() {
+  return (
+    <span
+      role="img"
+      aria-label="Gerade online"
+      title="Gerade online"
+      className="inline-block w-2 h-2 mr-1 rounded-full bg-green-500 align-middle"
+    />
+  );
+}
+
+/** Marker behind the name of a player who must play or only maybe plays the game; gern is the default and unmarked */
+export function InterestMarker({ interestLevel }: { interestLevel: InterestLevel }) {
+  if (interestLevel === 'gern') return null;
+  const label = `Interesse: ${INTEREST_LABELS[interestLevel]}`;
+  return (
+    <span
+      role="img"
+      aria-label={label}
+      title={label}
+      className={`ml-0.5 text-xs font-bold ${interestLevel === 'must_play' ? 'text-amber-500' : 'text-gray-400'}`}
+    >
+      {interestLevel === 'must_play' ? '★' : '?'}
+    </span>
+  );
 }
 
 export function PlayerList({ 
@@ -25,7 +65,8 @@ export function PlayerList({
   maxVisible, 
   expanded = false,
   onToggleExpand,
-  displayMode = 'inline'
+  displayMode = 'inline',
+  onlineParticipantIds,
 }: PlayerListProps) {
   if (players.length === 0) {
     return (
@@ -47,6 +88,7 @@ export function PlayerList({
       <div className="text-sm">
         {visiblePlayers.map((player) => (
           <div key={player.id} className="truncate">
+            {onlineParticipantIds?.has(player.participant.id) && <OnlineIndicator />}
             <span
               className={
                 player.participant.id === currentParticipantId
@@ -57,6 +99,7 @@ export function PlayerList({
             >
               {player.participant.name}
             </span>
+            <InterestMarker interestLevel={player.interestLevel} />
           </div>
         ))}
         {hasOverflow && (
@@ -76,6 +119,7 @@ export function PlayerList({
     <span className="text-sm">
       {visiblePlayers.map((player, index) => (
         <span key={player.id}>
+          {onlineParticipantIds?.has(player.participant.id) && <OnlineIndicator />}
           <span
             className={
               player.participant.id === currentParticipantId
@@ -86,6 +130,7 @@ export function PlayerList({
           >
             {player.participant.name}
           </span>
+          <InterestMarker interestLevel={player.interestLevel} />
           {index < visiblePlayers.length - 1 && (
             <span className="text-gray-400">, </span>
           )}
@@ -55,7 +55,8 @@ interface PopularGamesListProps {
 
 /**
  * PopularGamesList - Displays ranked list of popular games
- * Requirement 8.4: Display the most popular games ranked by player interest count
+ * Requirement 8.4: Display the most popular games ranked by player interest count,
+ * weighted by how much the players want to play them
  */
 function PopularGamesList({ games }: PopularGamesListProps) {
   if (games.length === 0) {
@@ -101,8 +102,18 @@ function PopularGamesList({ games }: PopularGamesListProps) {
                 {game.name}
               </span>
             </div>
-            <span className="text-sm text-gray-500 flex-shrink-0">
+            <span className="text-sm text-gray-500 flex-shrink-0 text-right">
               {game.playerCount} {game.playerCount === 1 ? 'Spieler' : 'Spieler'}
+              {(game.interestCounts.must_play > 0 || game.interestCounts.vielleicht > 0) && (
+                <span className="block text-xs text-gray-400" data-testid="interest-breakdown">
+                  {[
+                    game.interestCounts.must_play > 0 && `${game.interestCounts.must_play} unbedingt`,
+                    game.interestCounts.vielleicht > 0 && `${game.interestCounts.vielleicht} vielleicht`,
+                  ]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </span>
+              )}
             </span>
           </li>
         ))}
@@ -1,14 +1,21 @@
 import { createContext, useContext, useState, useCallback, useEffect, type ReactNode } from 'react';
 import { createPortal } from 'react-dom';
-import type { Toast } from '../types';
+import type { Toast, ToastAction } from '../types';
 
 // Toast auto-dismiss duration in milliseconds
 const TOAST_DURATION = 4000;
 // Exit animation duration in milliseconds
 const EXIT_ANIMATION_DURATION = 300;
 
+export interface ToastOptions {
+  // Button next to the message, e.g. "Rückgängig"; clicking it closes the toast
+  action?: ToastAction;
+  // Auto-dismiss duration in milliseconds, defaults to 4 seconds
+  duration?: number;
+}
+
 interface ToastContextValue {
-  showToast: (message: string) => void;
+  showToast: (message: string, options?: ToastOptions) => void;
 }
 
 const ToastContext = createContext<ToastContextValue | null>(null);
@@ -33,7 +40,8 @@ interface ToastProviderProps {
  * ToastProvider - Context provider for toast notifications
  * 
  * Features:
- * - Auto-dismiss after 4 seconds
+ * - Auto-dismiss after 4 seconds (configurable per toast)
+ * - Optional action button, e.g. to undo a deletion
  * - Stacked vertically in bottom-right corner
  * - Newest toast appears at the bottom
  * - Smooth fade-out-up animation on dismiss
@@ -53,11 +61,13 @@ export function ToastProvider({ children }: ToastProviderProps) {
   }, [portalContainer]);
 
   // Show a new toast
-  const showToast = useCallback((message: string) => {
+  const showToast = useCallback((message: string, options: ToastOptions = {}) => {
     const newToast: Toast = {
       id: `${Date.now()}-${Math.random().toString(36).substring(7)}`,
       message,
       createdAt: Date.now(),
+      duration: options.duration,
+      action: options.action,
     };
     setToasts((prev) => [...prev, newToast]);
   }, []);
@@ -86,7 +96,7 @@ export function ToastProvider({ children }: ToastProviderProps) {
       if (exitingIds.has(toast.id)) return null;
       
       const elapsed = Date.now() - toast.createdAt;
-      const remaining = Math.max(0, TOAST_DURATION - elapsed);
+      const remaining = Math.max(0, (toast.duration ?? TOAST_DURATION) - elapsed);
       
       return setTimeout(() => {
         startExitAnimation(toast.id);
@@ -161,6 +171,18 @@ function ToastItem({ toast, isExiting, onDismiss }: ToastItemProps) {
       role="alert"
     >
       <span className="flex-1 text-sm">{toast.message}</span>
+      {toast.action && (
+        <button
+          onClick={() => {
+            toast.action?.onClick();
+            onDismiss(toast.id);
+          }}
+          disabled={isExiting}
+          className="text-sm font-semibold text-blue-300 hover:text-blue-200 transition-colors"
+        >
+          {toast.action.label}
+        </button>
+      )}
       <button
         onClick={() => onDismiss(toast.id)}
         className="text-gray-400 hover:text-white transition-colors"
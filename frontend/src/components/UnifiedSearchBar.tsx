@@ -35,6 +35,10 @@ export interface UnifiedSearchBarProps {
   onScrollToGame: (gameId: string) => void;
   /** When this value changes, clear the search input and selection */
   clearTrigger?: number;
+  /** Restores a trashed game whose name was entered again */
+  onRestoreGame?: (gameId: string) => void;
+  /** Whether the participant may restore any trashed game (organizers) */
+  canRestoreAnyGame?: boolean;
 }
 
 /**
@@ -83,6 +87,8 @@ export function UnifiedSearchBar({
   onSearchQueryChange,
   onScrollToGame,
   clearTrigger,
+  onRestoreGame,
+  canRestoreAnyGame = false,
 }: UnifiedSearchBarProps) {
   // Input state
   const [query, setQuery] = useState('');
@@ -101,6 +107,8 @@ export function UnifiedSearchBar({
   // Submission state
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Trashed game of the entered name that the participant may restore instead
+  const [restorableGameId, setRestorableGameId] = useState<string | null>(null);
 
   // Refs
   const inputRef = useRef<HTMLInputElement>(null);
@@ -119,6 +127,7 @@ export function UnifiedSearchBar({
       setIsPlaying(false);
       setIsPrototype(false);
       setError(null);
+      setRestorableGameId(null);
       onSearchQueryChange('');
     }
   }, [clearTrigger, onSearchQueryChange]);
@@ -209,6 +218,7 @@ export function UnifiedSearchBar({
     // Clear error
     if (error) {
       setError(null);
+      setRestorableGameId(null);
     }
   }, [selectedBggItem, error]);
 
@@ -298,6 +308,7 @@ export function UnifiedSearchBar({
     }
 
     setError(null);
+    setRestorableGameId(null);
     setIsSubmitting(true);
     setIsDropdownOpen(false);
 
@@ -327,13 +338,29 @@ export function UnifiedSearchBar({
     } catch (err) {
       if (err instanceof ApiError) {
         setError(err.message);
+        const trashedGameId = err.details?.gameId;
+        if (
+          err.code === 'GAME_IN_TRASH' &&
+          typeof trashedGameId === 'string' &&
+          (err.details?.canRestore === true || canRestoreAnyGame)
+        ) {
+          setRestorableGameId(trashedGameId);
+        }
       } else {
         setError('Netzwerkfehler. Bitte Verbindung prüfen.');
       }
     } finally {
       setIsSubmitting(false);
     }
-  }, [query, addButtonState.state, currentParticipantId, isBringing, isPlaying, isPrototype, selectedBggItem, onGameAdded]);
+  }, [query, addButtonState.state, currentParticipantId, isBringing, isPlaying, isPrototype, selectedBggItem, onGameAdded, canRestoreAnyGame]);
+
+  const handleRestoreClick = useCallback(() => {
+    if (!restorableGameId || !onRestoreGame) return;
+    onRestoreGame(restorableGameId);
+    setQuery('');
+    setError(null);
+    setRestorableGameId(null);
+  }, [restorableGameId, onRestoreGame]);
 
   const toggleButtonBase = 'px-3 py-2 text-sm font-medium rounded-lg transition-all min-h-[44px] min-w-[7.5rem]';
   const isPrototypeDisabled = Boolean(selectedBggItem);
@@ -537,6 +564,15 @@ export function UnifiedSearchBar({
             role="alert"
           >
             {error}
+            {restorableGameId && onRestoreGame && (
+              <button
+                type="button"
+                onClick={handleRestoreClick}
+                className="ml-2 font-medium text-blue-600 hover:text-blue-800 underline"
+              >
+                Wiederherstellen
+              </button>
+            )}
           </p>
         )}
       </form>
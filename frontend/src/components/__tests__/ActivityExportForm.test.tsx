@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { ActivityExportForm } from '../ActivityExportForm';
+import { ApiError } from '../../api/client';
+
+const mockExportActivity = vi.fn();
+vi.mock('../../api/client', async () => {
+  const actual = await vi.importActual('../../api/client');
+  return {
+    ...actual,
+    organizerEventsApi: {
+      exportActivity: (eventId: string, request: unknown) => mockExportActivity(eventId, request),
+    },
+  };
+});
+
+/**
+ * Unit tests for ActivityExportForm (activity log download)
+ */
+describe('ActivityExportForm', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    URL.createObjectURL = vi.fn(() => 'blob:export');
+    URL.revokeObjectURL = vi.fn();
+  });
+
+  it('downloads the chosen range and format', async () => {
+    const blob = new Blob(['id\n']);
+    mockExportActivity.mockResolvedValue({ blob, filename: 'aktivitaeten-treff.ndjson' });
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => undefined);
+    render(<ActivityExportForm eventId="event-1" />);
+
+    fireEvent.change(screen.getByLabelText('Von'), { target: { value: '2026-10-01' } });
+    fireEvent.change(screen.getByLabelText('Bis (einschließlich)'), { target: { value: '2026-10-31' } });
+    fireEvent.change(screen.getByLabelText('Format'), { target: { value: 'ndjson' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Exportieren' }));
+
+    await waitFor(() => {
+      expect(click).toHaveBeenCalled();
+    });
+    expect(mockExportActivity).toHaveBeenCalledWith('event-1', {
+      from: '2026-10-01',
+      to: '2026-10-31',
+      format: 'ndjson',
+    });
+    expect(URL.createObjectURL).toHaveBeenCalledWith(blob);
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:export');
+    click.mockRestore();
+  });
+
+  it('exports everything as CSV without dates', async () => {
+    mockExportActivity.mockResolvedValue({ blob: new Blob([]), filename: 'aktivitaeten-treff.csv' });
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => undefined);
+    render(<ActivityExportForm eventId="event-1" />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Exportieren' }));
+
+    await waitFor(() => {
+      expect(mockExportActivity).toHaveBeenCalledWith('event-1', { from: undefined, to: undefined, format: 'csv' });
+    });
+    click.mockRestore();
+  });
+
+  it('rejects an end before the start without calling the API', () => {
+    render(<ActivityExportForm eventId="event-1" />);
+
+    fireEvent.change(screen.getByLabelText('Von'), { target: { value: '2026-10-31' } });
+    fireEvent.change(screen.getByLabelText('Bis (einschließlich)'), { target: { value: '2026-10-01' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Exportieren' }));
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Das Ende muss nach dem Beginn liegen.');
+    expect(mockExportActivity).not.toHaveBeenCalled();
+  });
+
+  it('shows API errors', async () => {
+    mockExportActivity.mockRejectedValue(new ApiError('Keine Berechtigung für dieses Event.', 'NOT_AUTHORIZED'));
+    render(<ActivityExportForm eventId="event-1" />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Exportieren' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Keine Berechtigung für dieses Event.');
+  });
+});
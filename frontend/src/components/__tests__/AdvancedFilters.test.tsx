@@ -165,6 +165,43 @@ describe('AdvancedFilters', () => {
 
       expect(onBringerSearch).toHaveBeenCalledWith('Bob');
     });
+
+    it('calls onPlayerCountChange when a player count is picked', () => {
+      const onPlayerCountChange = vi.fn();
+      render(
+        <AdvancedFilters
+          onPlayerSearch={vi.fn()}
+          onBringerSearch={vi.fn()}
+          onPlayerCountChange={onPlayerCountChange}
+        />
+      );
+
+      fireEvent.click(screen.getByRole('button', { name: /erweiterte filter/i }));
+      fireEvent.change(screen.getByLabelText('Spieleranzahl'), { target: { value: '5' } });
+
+      expect(onPlayerCountChange).toHaveBeenCalledWith(5);
+      expect(screen.getByText('1')).toBeInTheDocument();
+      expect(screen.getByText(/Spiele ohne BGG-Daten/)).toBeInTheDocument();
+
+      fireEvent.change(screen.getByLabelText('Spieleranzahl'), { target: { value: '' } });
+      expect(onPlayerCountChange).toHaveBeenLastCalledWith(null);
+    });
+
+    it('calls onMaxDurationChange when a play time is picked', () => {
+      const onMaxDurationChange = vi.fn();
+      render(
+        <AdvancedFilters
+          onPlayerSearch={vi.fn()}
+          onBringerSearch={vi.fn()}
+          onMaxDurationChange={onMaxDurationChange}
+        />
+      );
+
+      fireEvent.click(screen.getByRole('button', { name: /erweiterte filter/i }));
+      fireEvent.change(screen.getByLabelText('Spieldauer'), { target: { value: '90' } });
+
+      expect(onMaxDurationChange).toHaveBeenCalledWith(90);
+    });
   });
 
   describe('Initial values', () => {
@@ -186,5 +223,21 @@ describe('AdvancedFilters', () => {
       expect(screen.getByLabelText(/mitspieler suchen/i)).toHaveValue('initial player');
       expect(screen.getByLabelText(/bringt mit suchen/i)).toHaveValue('initial bringer');
     });
+
+    it('uses initial player count and play time', () => {
+      render(
+        <AdvancedFilters
+          onPlayerSearch={vi.fn()}
+          onBringerSearch={vi.fn()}
+          initialValues={{ playerCount: 5, maxDuration: 60 }}
+        />
+      );
+
+      expect(screen.getByText('2')).toBeInTheDocument();
+      fireEvent.click(screen.getByRole('button', { name: /erweiterte filter/i }));
+
+      expect(screen.getByLabelText('Spieleranzahl')).toHaveValue('5');
+      expect(screen.getByLabelText('Spieldauer')).toHaveValue('60');
+    });
   });
 });
@@ -8,11 +8,12 @@
  * - clearAuthentication removes token (Requirement 4.5)
  * - Expired token → shows PasswordScreen and removes token (Requirement 5.2)
  * - Malformed token → shows PasswordScreen (Requirement 5.3)
+ * - Token rejected by the API (password rotated) → shows PasswordScreen
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { render, screen, cleanup } from '@testing-library/react';
-import { EVENT_TOKEN_KEY } from '../../api/client';
+import { render, screen, cleanup, act } from '@testing-library/react';
+import { EVENT_TOKEN_KEY, EVENT_TOKEN_INVALID_EVENT } from '../../api/client';
 import { AuthGuard, clearAuthentication, isEventAuthenticated } from '../AuthGuard';
 
 // Mock PasswordScreen to avoid rendering the full component tree
@@ -167,4 +168,26 @@ describe('AuthGuard Unit Tests', () => {
       expect(localStorage.getItem(EVENT_TOKEN_KEY)).toBeNull();
     });
   });
+
+  describe('token rejected by the API → shows PasswordScreen', () => {
+    it('switches back to PasswordScreen when the token is reported invalid', () => {
+      const futureExp = Math.floor(Date.now() / 1000) + 3600;
+      const token = createFakeJwt({ eventId: 'test-event-id', type: 'event', exp: futureExp });
+      localStorage.setItem(EVENT_TOKEN_KEY, token);
+
+      render(
+        <AuthGuard>
+          <div data-testid="protected-content">Protected</div>
+        </AuthGuard>
+      );
+      expect(screen.getByTestId('protected-content')).toBeDefined();
+
+      act(() => {
+        window.dispatchEvent(new Event(EVENT_TOKEN_INVALID_EVENT));
+      });
+
+      expect(screen.getByTestId('password-screen')).toBeDefined();
+      expect(screen.queryByTestId('protected-content')).toBeNull();
+    });
+  });
 });
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { CloneEventForm } from '../CloneEventForm';
+import type { OrganizerEvent } from '../../types/event';
+
+const mockClone = vi.fn();
+vi.mock('../../api/client', async () => {
+  const actual = await vi.importActual('../../api/client');
+  return {
+    ...actual,
+    organizerEventsApi: {
+      clone: (eventId: string, data: unknown) => mockClone(eventId, data),
+    },
+  };
+});
+
+const event: OrganizerEvent = {
+  id: 'event-1',
+  name: 'Spieletreff',
+  slug: 'spieletreff',
+  startsAt: null,
+  endsAt: null,
+  location: 'Bürgerhaus',
+  capacity: 40,
+  notes: null,
+  fees: null,
+  status: 'archived',
+  isDefault: false,
+  ownerAccountId: 'owner-1',
+  activityRetentionDays: null,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+/**
+ * Unit tests for CloneEventForm (recurring events)
+ */
+describe('CloneEventForm', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('clones metadata only by default', async () => {
+    const clone = { ...event, id: 'event-2', name: 'Spieletreff (Kopie)', status: 'draft' };
+    mockClone.mockResolvedValue({ event: clone });
+    const onCloned = vi.fn();
+
+    render(<CloneEventForm event={event} onCloned={onCloned} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Event kopieren' }));
+
+    await waitFor(() => {
+      expect(onCloned).toHaveBeenCalledWith(clone);
+    });
+    expect(mockClone).toHaveBeenCalledWith('event-1', {
+      name: 'Spieletreff (Kopie)',
+      includeParticipants: false,
+      games: 'none',
+    });
+  });
+
+  it('passes the selected carry-over options', async () => {
+    mockClone.mockResolvedValue({ event: { ...event, id: 'event-2' } });
+
+    render(<CloneEventForm event={event} onCloned={vi.fn()} />);
+    fireEvent.change(screen.getByLabelText('Name des neuen Events'), { target: { value: 'Herbst-Treff' } });
+    fireEvent.click(screen.getByLabelText('Teilnehmerliste übernehmen'));
+    fireEvent.click(screen.getByLabelText('Verfügbare Spiele mit ihren Mitbringern'));
+    fireEvent.click(screen.getByRole('button', { name: 'Event kopieren' }));
+
+    await waitFor(() => {
+      expect(mockClone).toHaveBeenCalledWith('event-1', {
+        name: 'Herbst-Treff',
+        includeParticipants: true,
+        games: 'available',
+      });
+    });
+  });
+});
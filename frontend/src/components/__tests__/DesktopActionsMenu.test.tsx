@@ -22,6 +22,7 @@ describe('DesktopActionsMenu', () => {
     alternateNames: [],
     isPrototype: false,
     isHidden: false,
+    isFollowed: false,
     players: [],
     bringers: [],
     status: 'wunsch',
@@ -244,4 +245,80 @@ describe('DesktopActionsMenu', () => {
       });
     });
   });
+
+  describe('edit game', () => {
+    it('lets the owner edit a BGG game', async () => {
+      const onEditGame = vi.fn();
+      render(<DesktopActionsMenu game={createMockGame({ bggId: 13 })} {...defaultProps} onEditGame={onEditGame} />);
+
+      fireEvent.click(screen.getByLabelText('Weitere Aktionen'));
+      fireEvent.click(screen.getByRole('menuitem', { name: 'Spiel bearbeiten' }));
+
+      expect(onEditGame).toHaveBeenCalledWith('game-123');
+      await waitFor(() => {
+        expect(screen.queryByRole('menu')).not.toBeInTheDocument();
+      });
+    });
+
+    it('is not offered to other participants', () => {
+      render(
+        <DesktopActionsMenu
+          game={createMockGame({ owner: { id: 'other-user', name: 'Other User' } })}
+          {...defaultProps}
+          onEditGame={vi.fn()}
+        />
+      );
+
+      expect(screen.queryByLabelText('Weitere Aktionen')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('follow', () => {
+    const otherGame = (overrides: Partial<Game> = {}) =>
+      createMockGame({ owner: { id: 'other-user', name: 'Other User' }, ...overrides });
+    const involvement = { id: 'entry-1', participant: { id: currentParticipantId, name: 'Test User' }, addedAt: new Date() };
+
+    it('lets participants follow games they neither play nor bring', async () => {
+      const onToggleFollow = vi.fn().mockResolvedValue(undefined);
+      render(<DesktopActionsMenu game={otherGame()} {...defaultProps} onToggleFollow={onToggleFollow} />);
+
+      fireEvent.click(screen.getByLabelText('Weitere Aktionen'));
+      fireEvent.click(screen.getByRole('menuitem', { name: 'Spiel folgen' }));
+
+      await waitFor(() => {
+        expect(onToggleFollow).toHaveBeenCalledWith('game-123', true);
+      });
+    });
+
+    it('offers to unfollow a followed game', async () => {
+      const onToggleFollow = vi.fn().mockResolvedValue(undefined);
+      render(
+        <DesktopActionsMenu
+          game={otherGame({ isFollowed: true, players: [involvement] })}
+          {...defaultProps}
+          onToggleFollow={onToggleFollow}
+        />
+      );
+
+      fireEvent.click(screen.getByLabelText('Weitere Aktionen'));
+      fireEvent.click(screen.getByRole('menuitem', { name: 'Nicht mehr folgen' }));
+
+      await waitFor(() => {
+        expect(onToggleFollow).toHaveBeenCalledWith('game-123', false);
+      });
+    });
+
+    it('is not offered to players and bringers, who are notified anyway', () => {
+      const onToggleFollow = vi.fn();
+      const { rerender } = render(
+        <DesktopActionsMenu game={otherGame({ players: [involvement] })} {...defaultProps} onToggleFollow={onToggleFollow} />
+      );
+      expect(screen.queryByLabelText('Weitere Aktionen')).not.toBeInTheDocument();
+
+      rerender(
+        <DesktopActionsMenu game={otherGame({ bringers: [involvement] })} {...defaultProps} onToggleFollow={onToggleFollow} />
+      );
+      expect(screen.queryByLabelText('Weitere Aktionen')).not.toBeInTheDocument();
+    });
+  });
 });
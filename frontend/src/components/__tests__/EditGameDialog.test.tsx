@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { EditGameDialog } from '../EditGameDialog';
+import type { Game } from '../../types';
+
+vi.mock('../../api/client', () => ({
+  gamesApi: {
+    update: vi.fn(),
+  },
+  bggApi: {
+    search: vi.fn(),
+  },
+  ApiError: class ApiError extends Error {
+    code: string;
+    constructor(message: string, code: string) {
+      super(message);
+      this.code = code;
+    }
+  },
+}));
+
+import { gamesApi, bggApi, ApiError } from '../../api/client';
+
+const createGame = (overrides: Partial<Game> = {}): Game => ({
+  id: 'game-1',
+  name: 'Catan',
+  owner: { id: 'user-1', name: 'Anna' },
+  bggId: null,
+  yearPublished: null,
+  bggRating: null,
+  addedAsAlternateName: null,
+  alternateNames: [],
+  isPrototype: false,
+  isHidden: false,
+  isFollowed: false,
+  players: [],
+  bringers: [],
+  status: 'wunsch',
+  createdAt: new Date(),
+  ...overrides,
+});
+
+/**
+ * Unit tests for EditGameDialog (fixing name and BGG link of a game)
+ */
+describe('EditGameDialog', () => {
+  const defaultProps = {
+    isOpen: true,
+    onClose: vi.fn(),
+    onSaved: vi.fn(),
+    participantId: 'user-1',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('renders nothing when closed', () => {
+    render(<EditGameDialog {...defaultProps} game={createGame()} isOpen={false} />);
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+
+  it('saves a fixed name', async () => {
+    const updated = createGame({ name: 'Die Siedler von Catan' });
+    vi.mocked(gamesApi.update).mockResolvedValue({ game: updated });
+
+    render(<EditGameDialog {...defaultProps} game={createGame()} />);
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: '  Die Siedler von Catan ' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Speichern' }));
+
+    await waitFor(() => {
+      expect(defaultProps.onSaved).toHaveBeenCalledWith(updated);
+    });
+    expect(gamesApi.update).toHaveBeenCalledWith('game-1', 'user-1', { name: 'Die Siedler von Catan' });
+    expect(defaultProps.onClose).toHaveBeenCalled();
+  });
+
+  it('links the game to a BGG entry picked from the search', async () => {
+    vi.mocked(bggApi.search).mockResolvedValue({
+      results: [{ id: 13, name: 'CATAN', yearPublished: 1995, rating: 7.1 }],
+      hasMore: false,
+    });
+    vi.mocked(gamesApi.update).mockResolvedValue({ game: createGame({ name: 'CATAN', bggId: 13 }) });
+
+    render(<EditGameDialog {...defaultProps} game={createGame()} />);
+    expect(screen.getByText('Nicht mit BGG verknüpft.')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('BGG-Eintrag suchen'), { target: { value: 'catan' } });
+    fireEvent.click(await screen.findByRole('button', { name: /CATAN/ }));
+    expect(screen.getByTestId('bgg-link')).toHaveTextContent('Verknüpft mit CATAN (1995)');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Speichern' }));
+
+    await waitFor(() => {
+      expect(gamesApi.update).toHaveBeenCalledWith('game-1', 'user-1', { name: 'CATAN', bggId: 13 });
+    });
+  });
+
+  it('removes the BGG link', async () => {
+    vi.mocked(gamesApi.update).mockResolvedValue({ game: createGame() });
+
+    render(<EditGameDialog {...defaultProps} game={createGame({ bggId: 13, yearPublished: 1995 })} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Verknüpfung entfernen' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Speichern' }));
+
+    await waitFor(() => {
+      expect(gamesApi.update).toHaveBeenCalledWith('game-1', 'user-1', { bggId: null });
+    });
+  });
+
+  it('closes without a request when nothing changed', () => {
+    render(<EditGameDialog {...defaultProps} game={createGame()} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Speichern' }));
+
+    expect(gamesApi.update).not.toHaveBeenCalled();
+    expect(defaultProps.onClose).toHaveBeenCalled();
+  });
+
+  it('shows the error of the server and stays open', async () => {
+    vi.mocked(gamesApi.update).mockRejectedValue(
+      new ApiError('Ein Spiel mit diesem Namen existiert bereits.', 'DUPLICATE_GAME')
+    );
+
+    render(<EditGameDialog {...defaultProps} game={createGame()} />);
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Azul' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Speichern' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Ein Spiel mit diesem Namen existiert bereits.');
+    expect(defaultProps.onSaved).not.toHaveBeenCalled();
+    expect(defaultProps.onClose).not.toHaveBeenCalled();
+  });
+
+  it('requires a name', () => {
+    render(<EditGameDialog {...defaultProps} game={createGame()} />);
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: '   ' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Speichern' }));
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Bitte einen Spielnamen eingeben.');
+    expect(gamesApi.update).not.toHaveBeenCalled();
+  });
+});
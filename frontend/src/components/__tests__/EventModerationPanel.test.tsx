@@ -0,0 +1,189 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { EventModerationPanel } from '../EventModerationPanel';
+import type { ModerationOverviewResponse } from '../../types/event';
+
+const mockGetModeration = vi.fn();
+const mockMergeParticipants = vi.fn();
+const mockModerateGame = vi.fn();
+const mockMergeGames = vi.fn();
+const mockGetDuplicateGames = vi.fn();
+const mockGetStaleGames = vi.fn();
+const mockDeleteStaleGames = vi.fn();
+const mockGetTrash = vi.fn();
+const mockRestoreTrashedGame = vi.fn();
+const mockPurgeTrashedGame = vi.fn();
+vi.mock('../../api/client', async () => {
+  const actual = await vi.importActual('../../api/client');
+  return {
+    ...actual,
+    organizerEventsApi: {
+      getModeration: (eventId: string) => mockGetModeration(eventId),
+      mergeParticipants: (eventId: string, sourceId: string, targetId: string) =>
+        mockMergeParticipants(eventId, sourceId, targetId),
+      moderateGame: (eventId: string, gameId: string, data: unknown) => mockModerateGame(eventId, gameId, data),
+      mergeGames: (eventId: string, sourceId: string, targetId: string) => mockMergeGames(eventId, sourceId, targetId),
+      getDuplicateGames: (eventId: string) => mockGetDuplicateGames(eventId),
+      getStaleGames: (eventId: string, days: number) => mockGetStaleGames(eventId, days),
+      deleteStaleGames: (eventId: string, days: number) => mockDeleteStaleGames(eventId, days),
+      getTrash: (eventId: string) => mockGetTrash(eventId),
+      restoreTrashedGame: (eventId: string, gameId: string) => mockRestoreTrashedGame(eventId, gameId),
+      purgeTrashedGame: (eventId: string, gameId: string) => mockPurgeTrashedGame(eventId, gameId),
+    },
+  };
+});
+
+const game = {
+  id: 'game-1',
+  name: 'Catan',
+  ownerId: 'user-1',
+  ownerName: 'Max',
+  playerCount: 2,
+  bringerCount: 0,
+  status: 'wunsch' as const,
+  createdAt: '2026-01-01T00:00:00.000Z',
+};
+
+const overview: ModerationOverviewResponse = {
+  participants: [
+    { id: 'user-1', name: 'Max', ownedGameCount: 1, playingCount: 2, bringingCount: 0, createdAt: '2026-01-01T00:00:00.000Z' },
+    { id: 'user-2', name: 'Max M.', ownedGameCount: 0, playingCount: 1, bringingCount: 1, createdAt: '2026-01-02T00:00:00.000Z' },
+  ],
+  games: [game],
+};
+
+/**
+ * Unit tests for the organizer moderation panel
+ */
+describe('EventModerationPanel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetModeration.mockResolvedValue(overview);
+    mockGetTrash.mockResolvedValue({ games: [] });
+  });
+
+  it('merges a duplicate participant after confirmation', async () => {
+    mockMergeParticipants.mockResolvedValue({ participant: { id: 'user-2', name: 'Max M.' } });
+    const confirmSpy = vi.spyOn(window, 'confirm').mockReturnValue(true);
+    render(<EventModerationPanel eventId="event-1" />);
+
+    fireEvent.change(await screen.findByLabelText('Doppelter Eintrag'), { target: { value: 'user-1' } });
+    fireEvent.change(screen.getByLabelText('Zusammenführen mit'), { target: { value: 'user-2' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Zusammenführen' }));
+
+    await waitFor(() => {
+      expect(mockMergeParticipants).toHaveBeenCalledWith('event-1', 'user-1', 'user-2');
+    });
+    expect(await screen.findByText('Max wurde mit Max M. zusammengeführt.')).toBeInTheDocument();
+    expect(mockGetModeration).toHaveBeenCalledTimes(2);
+    confirmSpy.mockRestore();
+  });
+
+  it('merges a duplicate game picked from the duplicate report', async () => {
+    const duplicate = { ...game, id: 'game-2', name: 'Die Siedler von Catan', playerCount: 1 };
+    mockGetModeration.mockResolvedValue({ ...overview, games: [game, duplicate] });
+    mockGetDuplicateGames.mockResolvedValue({ candidates: [{ reason: 'name', score: 100, games: [game, duplicate] }] });
+    mockMergeGames.mockResolvedValue({ game: { ...game, playerCount: 3 } });
+    const confirmSpy = vi.spyOn(window, 'confirm').mockReturnValue(true);
+    render(<EventModerationPanel eventId="event-1" />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Mögliche Duplikate suchen' }));
+    expect(await screen.findByTestId('duplicate-games')).toHaveTextContent('Catan / Die Siedler von Catan');
+    expect(screen.getByTestId('duplicate-games')).toHaveTextContent('Ähnlicher Name (100 %)');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Die Siedler von Catan und Catan auswählen' }));
+    expect(screen.getByLabelText('Doppeltes Spiel')).toHaveValue('game-2');
+    expect(screen.getByLabelText('Zusammenführen mit Spiel')).toHaveValue('game-1');
+    fireEvent.click(screen.getByRole('button', { name: 'Spiele zusammenführen' }));
+
+    await waitFor(() => {
+      expect(mockMergeGames).toHaveBeenCalledWith('event-1', 'game-2', 'game-1');
+    });
+    expect(await screen.findByText('Die Siedler von Catan wurde mit Catan zusammengeführt.')).toBeInTheDocument();
+    expect(screen.queryByTestId('duplicate-games')).not.toBeInTheDocument();
+    confirmSpy.mockRestore();
+  });
+
+  it('sends only the changed game fields', async () => {
+    mockModerateGame.mockResolvedValue({ game: { ...game, ownerId: null, ownerName: null } });
+    render(<EventModerationPanel eventId="event-1" />);
+
+    fireEvent.change(await screen.findByLabelText('Spiel'), { target: { value: 'game-1' } });
+    expect(screen.getByLabelText('Name')).toHaveValue('Catan');
+    fireEvent.change(screen.getByLabelText('Besitzer'), { target: { value: '' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Spiel speichern' }));
+
+    await waitFor(() => {
+      expect(mockModerateGame).toHaveBeenCalledWith('event-1', 'game-1', { ownerId: null });
+    });
+  });
+
+  it('previews stale wunsch games before deleting them', async () => {
+    mockGetStaleGames.mockResolvedValue({ games: [game] });
+    mockDeleteStaleGames.mockResolvedValue({ deletedCount: 1, gameIds: ['game-1'] });
+    const confirmSpy = vi.spyOn(window, 'confirm').mockReturnValue(true);
+    render(<EventModerationPanel eventId="event-1" />);
+
+    fireEvent.change(await screen.findByLabelText(/älter als/), { target: { value: '14' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Vorschau' }));
+
+    expect(await screen.findByTestId('stale-games')).toHaveTextContent('Catan');
+    expect(mockGetStaleGames).toHaveBeenCalledWith('event-1', 14);
+
+    fireEvent.click(screen.getByRole('button', { name: '1 Wunschspiele löschen' }));
+
+    expect(await screen.findByText('1 Wunschspiele in den Papierkorb verschoben.')).toBeInTheDocument();
+    expect(mockDeleteStaleGames).toHaveBeenCalledWith('event-1', 14);
+    confirmSpy.mockRestore();
+  });
+
+  describe('trash', () => {
+    const trashedGame = {
+      id: 'game-2',
+      name: 'Azul',
+      ownerName: 'Max',
+      deletedByName: 'Max M.',
+      playerCount: 12,
+      bringerCount: 1,
+      deletedAt: '2026-01-10T00:00:00.000Z',
+      purgeAt: '2026-02-09T00:00:00.000Z',
+    };
+
+    it('lists deleted games with who deleted them', async () => {
+      mockGetTrash.mockResolvedValue({ games: [trashedGame] });
+      render(<EventModerationPanel eventId="event-1" />);
+
+      const trash = await screen.findByTestId('trash');
+      expect(trash).toHaveTextContent('Azul');
+      expect(trash).toHaveTextContent('von Max M.');
+      expect(trash).toHaveTextContent('12 Mitspieler');
+    });
+
+    it('restores a deleted game and reloads the lists', async () => {
+      mockGetTrash.mockResolvedValueOnce({ games: [trashedGame] }).mockResolvedValue({ games: [] });
+      mockRestoreTrashedGame.mockResolvedValue({ game: { ...game, id: 'game-2', name: 'Azul' } });
+      render(<EventModerationPanel eventId="event-1" />);
+
+      fireEvent.click(await screen.findByRole('button', { name: 'Azul wiederherstellen' }));
+
+      expect(await screen.findByText('Azul wurde wiederhergestellt.')).toBeInTheDocument();
+      expect(mockRestoreTrashedGame).toHaveBeenCalledWith('event-1', 'game-2');
+      expect(screen.getByText('Der Papierkorb ist leer.')).toBeInTheDocument();
+    });
+
+    it('purges a deleted game only after confirmation', async () => {
+      mockGetTrash.mockResolvedValue({ games: [trashedGame] });
+      mockPurgeTrashedGame.mockResolvedValue({ success: true });
+      const confirmSpy = vi.spyOn(window, 'confirm').mockReturnValueOnce(false).mockReturnValueOnce(true);
+      render(<EventModerationPanel eventId="event-1" />);
+
+      fireEvent.click(await screen.findByRole('button', { name: 'Azul endgültig löschen' }));
+      expect(mockPurgeTrashedGame).not.toHaveBeenCalled();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Azul endgültig löschen' }));
+      expect(await screen.findByText('Azul wurde endgültig gelöscht.')).toBeInTheDocument();
+      expect(mockPurgeTrashedGame).toHaveBeenCalledWith('event-1', 'game-2');
+      confirmSpy.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import { MemoryRouter, Route, Routes, Link } from 'react-router-dom';
+import { EventRoute } from '../EventRoute';
+import { useEventContext } from '../../contexts/EventContext';
+
+const mockGetBySlug = vi.fn();
+vi.mock('../../api/client', async () => {
+  const actual = await vi.importActual('../../api/client');
+  return {
+    ...actual,
+    eventsApi: {
+      getBySlug: (slug: string) => mockGetBySlug(slug),
+    },
+  };
+});
+
+import { ApiError } from '../../api/client';
+
+const sommerEvent = {
+  id: 'event-1',
+  name: 'Sommer-Spieletreff',
+  slug: 'sommer',
+  startsAt: null,
+  endsAt: null,
+  location: null,
+};
+
+function EventProbe() {
+  const { event, toEventPath } = useEventContext();
+  return (
+    <div>
+      <span data-testid="event-name">{event?.name}</span>
+      <Link to={toEventPath('/print')}>Druckansicht</Link>
+    </div>
+  );
+}
+
+function renderRoute(path: string) {
+  return render(
+    <MemoryRouter initialEntries={[path]}>
+      <Routes>
+        <Route
+          path="/e/:slug/*"
+          element={
+            <EventRoute>
+              <EventProbe />
+            </EventRoute>
+          }
+        />
+      </Routes>
+    </MemoryRouter>
+  );
+}
+
+/**
+ * Unit tests for EventRoute (join links /e/:slug)
+ */
+describe('EventRoute', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('loads the event by slug and provides it to children', async () => {
+    mockGetBySlug.mockResolvedValue({ event: sommerEvent });
+
+    renderRoute('/e/sommer');
+
+    expect(screen.getByText('Laden...')).toBeInTheDocument();
+    await waitFor(() => {
+      expect(screen.getByTestId('event-name')).toHaveTextContent('Sommer-Spieletreff');
+    });
+    expect(mockGetBySlug).toHaveBeenCalledWith('sommer');
+    expect(screen.getByText('Druckansicht')).toHaveAttribute('href', '/e/sommer/print');
+  });
+
+  it('shows an error for unknown slugs', async () => {
+    mockGetBySlug.mockRejectedValue(new ApiError('Event nicht gefunden.', 'EVENT_NOT_FOUND'));
+
+    renderRoute('/e/unbekannt');
+
+    await waitFor(() => {
+      expect(screen.getByRole('alert')).toHaveTextContent('Dieses Event wurde nicht gefunden');
+    });
+    expect(screen.queryByTestId('event-name')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
+import { EventTeamPanel } from '../EventTeamPanel';
+import type { EventTeamResponse } from '../../types/event';
+
+const mockGetTeam = vi.fn();
+const mockCreateInvite = vi.fn();
+const mockUpdateMemberRole = vi.fn();
+vi.mock('../../api/client', async () => {
+  const actual = await vi.importActual('../../api/client');
+  return {
+    ...actual,
+    organizerEventsApi: {
+      getTeam: (eventId: string) => mockGetTeam(eventId),
+      createInvite: (eventId: string, data: unknown) => mockCreateInvite(eventId, data),
+      updateMemberRole: (eventId: string, accountId: string, role: string) =>
+        mockUpdateMemberRole(eventId, accountId, role),
+    },
+  };
+});
+
+const team: EventTeamResponse = {
+  members: [
+    { accountId: 'owner-1', email: 'owner@example.com', role: 'owner', createdAt: '2026-01-01T00:00:00.000Z' },
+    { accountId: 'co-1', email: 'co@example.com', role: 'co_organizer', createdAt: '2026-01-02T00:00:00.000Z' },
+  ],
+  invites: [
+    {
+      id: 'invite-1',
+      email: 'neu@example.com',
+      role: 'viewer',
+      token: 'abc123',
+      expiresAt: '2026-02-01T00:00:00.000Z',
+      createdAt: '2026-01-03T00:00:00.000Z',
+    },
+  ],
+};
+
+/**
+ * Unit tests for the organizer team panel
+ */
+describe('EventTeamPanel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetTeam.mockResolvedValue(team);
+  });
+
+  it('lets the owner invite accounts and shows the accept link', async () => {
+    mockCreateInvite.mockResolvedValue({ invite: team.invites[0] });
+    render(<EventTeamPanel eventId="event-1" role="owner" />);
+
+    const invite = await screen.findByTestId('invite-invite-1');
+    expect(within(invite).getByLabelText('Einladungslink für neu@example.com')).toHaveValue(
+      `${window.location.origin}/organizer/invites/abc123`
+    );
+
+    fireEvent.change(screen.getByLabelText('E-Mail-Adresse'), { target: { value: 'gast@example.com' } });
+    fireEvent.change(screen.getByLabelText('Rolle'), { target: { value: 'viewer' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Einladen' }));
+
+    await waitFor(() => {
+      expect(mockCreateInvite).toHaveBeenCalledWith('event-1', { email: 'gast@example.com', role: 'viewer' });
+    });
+    expect(mockGetTeam).toHaveBeenCalledTimes(2);
+  });
+
+  it('changes member roles but never the owner role', async () => {
+    mockUpdateMemberRole.mockResolvedValue({});
+    render(<EventTeamPanel eventId="event-1" role="owner" />);
+
+    const owner = await screen.findByTestId('team-member-owner-1');
+    expect(within(owner).queryByRole('combobox')).not.toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Rolle von co@example.com'), { target: { value: 'viewer' } });
+
+    await waitFor(() => {
+      expect(mockUpdateMemberRole).toHaveBeenCalledWith('event-1', 'co-1', 'viewer');
+    });
+  });
+
+  it('shows the team without management controls for co-organizers', async () => {
+    mockGetTeam.mockResolvedValue({ ...team, invites: [] });
+    render(<EventTeamPanel eventId="event-1" role="co_organizer" />);
+
+    const member = await screen.findByTestId('team-member-co-1');
+    expect(within(member).getByText('Co-Organisator')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Einladen' })).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Entfernen' })).not.toBeInTheDocument();
+  });
+});
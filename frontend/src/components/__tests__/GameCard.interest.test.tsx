@@ -0,0 +1,69 @@
+/**
+ * Unit tests for the interest level of the current player in GameCard
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { GameCard } from '../GameCard';
+import type { Game, InterestLevel, Player } from '../../types';
+
+vi.mock('../BggModal', () => ({
+  openBggPage: vi.fn(),
+}));
+
+const createPlayer = (id: string, name: string, interestLevel: InterestLevel): Player => ({
+  id: `player-${id}`,
+  participant: { id, name },
+  addedAt: new Date('2024-01-01T00:00:00Z'),
+  interestLevel,
+});
+
+const createMockGame = (overrides: Partial<Game> = {}): Game => ({
+  id: 'game-1',
+  name: 'Test Game',
+  owner: { id: 'user-1', name: 'Test User' },
+  bggId: null,
+  yearPublished: null,
+  bggRating: null,
+  addedAsAlternateName: null,
+  alternateNames: [],
+  isPrototype: false,
+  isHidden: false,
+  isFollowed: false,
+  players: [],
+  bringers: [],
+  status: 'wunsch',
+  createdAt: new Date(),
+  ...overrides,
+});
+
+describe('GameCard interest level', () => {
+  it('shows the interest markers of the players', () => {
+    const game = createMockGame({ players: [createPlayer('user-2', 'Anna', 'must_play')] });
+
+    render(<GameCard game={game} currentParticipantId="user-1" />);
+
+    expect(screen.getByLabelText('Interesse: Unbedingt').parentElement).toHaveTextContent('Anna');
+  });
+
+  it('lets the current player change their interest level', () => {
+    const onChangeInterest = vi.fn();
+    const game = createMockGame({ players: [createPlayer('user-1', 'Test User', 'gern')] });
+
+    render(<GameCard game={game} currentParticipantId="user-1" onChangeInterest={onChangeInterest} />);
+
+    const select = screen.getByLabelText('Mein Interesse');
+    expect(select).toHaveValue('gern');
+    fireEvent.change(select, { target: { value: 'vielleicht' } });
+
+    expect(onChangeInterest).toHaveBeenCalledWith('game-1', 'vielleicht');
+  });
+
+  it('offers no interest level to participants who do not play the game', () => {
+    const game = createMockGame({ players: [createPlayer('user-2', 'Anna', 'gern')] });
+
+    render(<GameCard game={game} currentParticipantId="user-1" onChangeInterest={vi.fn()} />);
+
+    expect(screen.queryByLabelText('Mein Interesse')).not.toBeInTheDocument();
+  });
+});
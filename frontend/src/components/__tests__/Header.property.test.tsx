@@ -20,6 +20,16 @@ vi.mock('../../contexts/AuthContext', () => ({
   }),
 }));
 
+vi.mock('../../api/client', async () => {
+  const actual = await vi.importActual('../../api/client');
+  return {
+    ...actual,
+    notificationsApi: {
+      getAll: vi.fn().mockResolvedValue({ notifications: [], unreadCount: 0 }),
+    },
+  };
+});
+
 const mockParticipant: Participant = {
   id: 'user-1',
   name: 'Test User',
@@ -32,10 +42,12 @@ const DESKTOP_TABS = [
   { path: '/', label: 'Spieleliste', testId: 'desktop-nav-home' },
   { path: '/print', label: 'Druckansicht', testId: 'desktop-nav-print' },
   { path: '/statistics', label: 'Statistiken', testId: 'desktop-nav-statistics' },
+  { path: '/news', label: 'Neuigkeiten', testId: 'desktop-nav-news' },
+  { path: '/rounds', label: 'Runden', testId: 'desktop-nav-rounds' },
 ];
 
 // Arbitrary for valid routes
-const routeArbitrary = fc.constantFrom('/', '/print', '/statistics');
+const routeArbitrary = fc.constantFrom('/', '/print', '/statistics', '/news', '/rounds');
 
 // Helper component to display current location
 function LocationDisplay() {
@@ -88,7 +100,7 @@ describe('Header Property Tests', () => {
       );
     });
 
-    it('all three desktop tabs have correct href attributes', () => {
+    it('all desktop tabs have correct href attributes', () => {
       render(
         <MemoryRouter initialEntries={['/']}>
           <Header
@@ -161,7 +173,7 @@ describe('Header Property Tests', () => {
   });
 
   describe('Desktop Navigation Structure', () => {
-    it('renders exactly 3 navigation tabs', () => {
+    it('renders exactly 4 navigation tabs', () => {
       render(
         <MemoryRouter initialEntries={['/']}>
           <Header
@@ -173,10 +185,10 @@ describe('Header Property Tests', () => {
 
       const desktopNav = screen.getByTestId('desktop-nav');
       const links = desktopNav.querySelectorAll('a');
-      expect(links.length).toBe(3);
+      expect(links.length).toBe(5);
     });
 
-    it('tabs are in correct order: Spieleliste, Druckansicht, Statistiken', () => {
+    it('tabs are in correct order: Spieleliste, Druckansicht, Statistiken, Neuigkeiten, Runden', () => {
       render(
         <MemoryRouter initialEntries={['/']}>
           <Header
@@ -192,6 +204,8 @@ describe('Header Property Tests', () => {
       expect(links[0]).toHaveTextContent('Spieleliste');
       expect(links[1]).toHaveTextContent('Druckansicht');
       expect(links[2]).toHaveTextContent('Statistiken');
+      expect(links[3]).toHaveTextContent('Neuigkeiten');
+      expect(links[4]).toHaveTextContent('Runden');
     });
   });
 
@@ -21,6 +21,7 @@ function createTestGame(overrides: Partial<Game> = {}): Game {
     alternateNames: [],
     isPrototype: false,
     isHidden: false,
+    isFollowed: false,
     players: [],
     bringers: [],
     status: 'wunsch',
@@ -376,4 +377,48 @@ describe('MobileActionsMenu', () => {
       expect(uploadButton).toHaveClass('min-h-[44px]');
     });
   });
+
+  describe('edit game', () => {
+    it('lets the owner edit a game', () => {
+      const onEditGame = vi.fn();
+
+      render(
+        <MobileActionsMenu
+          game={createTestGame({ bggId: 13 })}
+          currentParticipantId={currentParticipantId}
+          onEditGame={onEditGame}
+        />
+      );
+
+      fireEvent.click(screen.getByRole('button', { name: 'Weitere Aktionen' }));
+      const editButton = screen.getByRole('menuitem', { name: 'Spiel bearbeiten' });
+      expect(editButton).toHaveClass('min-h-[44px]');
+      fireEvent.click(editButton);
+
+      expect(onEditGame).toHaveBeenCalledWith('test-game-id');
+    });
+  });
+
+  describe('follow', () => {
+    it('lets participants follow games of others', async () => {
+      const onToggleFollow = vi.fn().mockResolvedValue(undefined);
+
+      render(
+        <MobileActionsMenu
+          game={createTestGame({ owner: { id: 'someone-else', name: 'Anna' }, bggId: 13 })}
+          currentParticipantId={currentParticipantId}
+          onToggleFollow={onToggleFollow}
+        />
+      );
+
+      fireEvent.click(screen.getByRole('button', { name: 'Weitere Aktionen' }));
+      const followButton = screen.getByRole('menuitem', { name: 'Spiel folgen' });
+      expect(followButton).toHaveClass('min-h-[44px]');
+      fireEvent.click(followButton);
+
+      await waitFor(() => {
+        expect(onToggleFollow).toHaveBeenCalledWith('test-game-id', true);
+      });
+    });
+  });
 });
@@ -32,6 +32,8 @@ const TAB_CONFIG = [
   { id: 'games', path: '/', label: 'Spieleliste' },
   { id: 'print', path: '/print', label: 'Druckansicht' },
   { id: 'stats', path: '/statistics', label: 'Statistiken' },
+  { id: 'news', path: '/news', label: 'Neuigkeiten' },
+  { id: 'rounds', path: '/rounds', label: 'Runden' },
   { id: 'profile', path: null, label: 'Profil' },
 ];
 
@@ -39,10 +41,10 @@ const TAB_CONFIG = [
 const NAVIGATION_TABS = TAB_CONFIG.filter(tab => tab.path !== null);
 
 // Arbitrary for valid routes
-const routeArbitrary = fc.constantFrom('/', '/print', '/statistics');
+const routeArbitrary = fc.constantFrom('/', '/print', '/statistics', '/news', '/rounds');
 
 // Arbitrary for tab IDs
-const tabIdArbitrary = fc.constantFrom('games', 'print', 'stats', 'profile');
+const tabIdArbitrary = fc.constantFrom('games', 'print', 'stats', 'news', 'rounds', 'profile');
 
 describe('MobileBottomTabs Property Tests', () => {
   beforeEach(() => {
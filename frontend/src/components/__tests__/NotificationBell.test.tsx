@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { NotificationBell } from '../NotificationBell';
+import type { NotificationEntry } from '../../types/notification';
+
+const mockGetAll = vi.fn();
+const mockMarkRead = vi.fn();
+const mockMarkAllRead = vi.fn();
+vi.mock('../../api/client', async () => {
+  const actual = await vi.importActual('../../api/client');
+  return {
+    ...actual,
+    notificationsApi: {
+      getAll: (participantId: string) => mockGetAll(participantId),
+      markRead: (id: string, participantId: string) => mockMarkRead(id, participantId),
+      markAllRead: (participantId: string) => mockMarkAllRead(participantId),
+    },
+  };
+});
+
+const notification = (id: string, overrides: Partial<NotificationEntry> = {}): NotificationEntry => ({
+  id,
+  type: 'bringer_added',
+  createdAt: '2026-10-19T18:00:00.000Z',
+  readAt: null,
+  actor: { id: 'user-2', name: 'Anna' },
+  game: { id: 'game-1', name: 'Catan' },
+  message: 'Anna bringt Catan mit',
+  ...overrides,
+});
+
+/**
+ * Unit tests for NotificationBell (notification inbox in the header)
+ */
+describe('NotificationBell', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('shows the number of unread notifications', async () => {
+    mockGetAll.mockResolvedValue({ notifications: [notification('n-1')], unreadCount: 1 });
+
+    render(<NotificationBell participantId="user-1" />);
+
+    await waitFor(() => {
+      expect(screen.getByTestId('notification-badge')).toHaveTextContent('1');
+    });
+    expect(mockGetAll).toHaveBeenCalledWith('user-1');
+    expect(screen.getByRole('button', { name: 'Benachrichtigungen (1 ungelesen)' })).toBeInTheDocument();
+  });
+
+  it('hides the badge without unread notifications', async () => {
+    mockGetAll.mockResolvedValue({ notifications: [], unreadCount: 0 });
+
+    render(<NotificationBell participantId="user-1" />);
+
+    await waitFor(() => {
+      expect(mockGetAll).toHaveBeenCalled();
+    });
+    expect(screen.queryByTestId('notification-badge')).not.toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Benachrichtigungen' }));
+    expect(screen.getByText(/Keine Benachrichtigungen/)).toBeInTheDocument();
+  });
+
+  it('marks a notification as read when it is clicked', async () => {
+    mockGetAll.mockResolvedValue({
+      notifications: [notification('n-1'), notification('n-2', { message: 'Ben hat Azul gelöscht' })],
+      unreadCount: 2,
+    });
+    mockMarkRead.mockResolvedValue({ notification: notification('n-1', { readAt: '2026-10-19T19:00:00.000Z' }) });
+
+    render(<NotificationBell participantId="user-1" />);
+    await waitFor(() => {
+      expect(screen.getByTestId('notification-badge')).toHaveTextContent('2');
+    });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Benachrichtigungen (2 ungelesen)' }));
+    fireEvent.click(screen.getByText('Anna bringt Catan mit'));
+
+    await waitFor(() => {
+      expect(screen.getByTestId('notification-badge')).toHaveTextContent('1');
+    });
+    expect(mockMarkRead).toHaveBeenCalledWith('n-1', 'user-1');
+  });
+
+  it('marks all notifications as read', async () => {
+    mockGetAll.mockResolvedValue({ notifications: [notification('n-1'), notification('n-2')], unreadCount: 2 });
+    mockMarkAllRead.mockResolvedValue({ updatedCount: 2 });
+
+    render(<NotificationBell participantId="user-1" />);
+    await waitFor(() => {
+      expect(screen.getByTestId('notification-badge')).toBeInTheDocument();
+    });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Benachrichtigungen (2 ungelesen)' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Alle als gelesen markieren' }));
+
+    await waitFor(() => {
+      expect(screen.queryByTestId('notification-badge')).not.toBeInTheDocument();
+    });
+    expect(mockMarkAllRead).toHaveBeenCalledWith('user-1');
+  });
+
+  it('reloads the inbox when the window regains focus', async () => {
+    mockGetAll.mockResolvedValue({ notifications: [], unreadCount: 0 });
+
+    render(<NotificationBell participantId="user-1" />);
+    await waitFor(() => {
+      expect(mockGetAll).toHaveBeenCalledTimes(1);
+    });
+
+    mockGetAll.mockResolvedValue({ notifications: [notification('n-1')], unreadCount: 1 });
+    fireEvent.focus(window);
+
+    await waitFor(() => {
+      expect(screen.getByTestId('notification-badge')).toHaveTextContent('1');
+    });
+  });
+});
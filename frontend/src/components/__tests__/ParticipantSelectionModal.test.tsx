@@ -319,4 +319,73 @@ describe('ParticipantSelectionModal', () => {
       expect(screen.getByText('+ Neuen Teilnehmer erstellen')).toBeInTheDocument();
     });
   });
+
+  describe('Capacity and waitlist', () => {
+    it('should show the remaining spots of the event', async () => {
+      mockParticipantsApi.getAll.mockResolvedValue({
+        participants: [{ id: 'user-1', name: 'Alice' }],
+        capacity: { capacity: 10, confirmed: 7, remainingSpots: 3, waitlisted: 0 },
+      });
+
+      render(
+        <ParticipantSelectionModal isOpen={true} onParticipantSelected={mockOnParticipantSelected} />
+      );
+
+      expect(await screen.findByTestId('capacity-info')).toHaveTextContent('Noch 3 von 10 Plätzen frei.');
+    });
+
+    it('should mark a full event and list waitlist positions', async () => {
+      mockParticipantsApi.getAll.mockResolvedValue({
+        participants: [
+          { id: 'user-1', name: 'Alice' },
+          { id: 'user-2', name: 'Bob', waitlistPosition: 1 },
+        ],
+        capacity: { capacity: 1, confirmed: 1, remainingSpots: 0, waitlisted: 1 },
+      });
+
+      render(
+        <ParticipantSelectionModal isOpen={true} onParticipantSelected={mockOnParticipantSelected} />
+      );
+
+      expect(await screen.findByTestId('capacity-info')).toHaveTextContent('Alle 1 Plätze sind belegt');
+      expect(screen.getByText('Warteliste #1')).toBeInTheDocument();
+    });
+
+    it('should not show capacity info for events without a limit', async () => {
+      mockParticipantsApi.getAll.mockResolvedValue({
+        participants: [{ id: 'user-1', name: 'Alice' }],
+        capacity: { capacity: null, confirmed: 1, remainingSpots: null, waitlisted: 0 },
+      });
+
+      render(
+        <ParticipantSelectionModal isOpen={true} onParticipantSelected={mockOnParticipantSelected} />
+      );
+
+      await screen.findByText('Alice');
+      expect(screen.queryByTestId('capacity-info')).not.toBeInTheDocument();
+    });
+
+    it('should show the waitlist position after joining a full event', async () => {
+      mockParticipantsApi.getAll.mockResolvedValue({
+        participants: [],
+        capacity: { capacity: 5, confirmed: 5, remainingSpots: 0, waitlisted: 3 },
+      });
+      const waitlisted = { id: 'user-9', name: 'Zoe', waitlistPosition: 4 };
+      mockParticipantsApi.create.mockResolvedValue({ participant: waitlisted });
+
+      render(
+        <ParticipantSelectionModal isOpen={true} onParticipantSelected={mockOnParticipantSelected} />
+      );
+
+      fireEvent.click(await screen.findByText('Ersten Teilnehmer erstellen'));
+      fireEvent.change(screen.getByPlaceholderText('Dein Name'), { target: { value: 'Zoe' } });
+      fireEvent.click(screen.getByText('Erstellen'));
+
+      expect(await screen.findByTestId('pending-waitlist-position')).toHaveTextContent('Platz 4 der Warteliste');
+      expect(mockOnParticipantSelected).not.toHaveBeenCalled();
+
+      fireEvent.click(screen.getByText('Ja'));
+      expect(mockOnParticipantSelected).toHaveBeenCalledWith(waitlisted);
+    });
+  });
 });
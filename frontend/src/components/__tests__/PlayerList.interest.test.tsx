@@ -0,0 +1,31 @@
+/**
+ * Unit tests for the interest markers in PlayerList
+ */
+
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { PlayerList } from '../PlayerList';
+import type { InterestLevel, Player } from '../../types';
+
+const createPlayer = (id: string, name: string, interestLevel: InterestLevel): Player => ({
+  id: `player-${id}`,
+  participant: { id, name },
+  addedAt: new Date('2024-01-01T00:00:00Z'),
+  interestLevel,
+});
+
+const players = [
+  createPlayer('user-1', 'Anna', 'must_play'),
+  createPlayer('user-2', 'Ben', 'gern'),
+  createPlayer('user-3', 'Cleo', 'vielleicht'),
+];
+
+describe('PlayerList interest levels', () => {
+  it.each(['inline', 'stacked'] as const)('marks players who must or maybe play in %s mode', (displayMode) => {
+    render(<PlayerList players={players} currentParticipantId="user-2" displayMode={displayMode} />);
+
+    expect(screen.getByLabelText('Interesse: Unbedingt').parentElement).toHaveTextContent('Anna');
+    expect(screen.getByLabelText('Interesse: Vielleicht').parentElement).toHaveTextContent('Cleo');
+    expect(screen.queryByLabelText('Interesse: Gern')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Unit tests for the online marker in PlayerList
+ */
+
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { PlayerList } from '../PlayerList';
+import type { Player } from '../../types';
+
+const createPlayer = (id: string, name: string): Player => ({
+  id: `player-${id}`,
+  participant: { id, name },
+  addedAt: new Date('2024-01-01T00:00:00Z'),
+  interestLevel: 'gern',
+});
+
+const players = [createPlayer('user-1', 'Anna'), createPlayer('user-2', 'Ben')];
+
+describe('PlayerList presence', () => {
+  it.each(['inline', 'stacked'] as const)('marks online players in %s mode', (displayMode) => {
+    render(
+      <PlayerList
+        players={players}
+        currentParticipantId="user-3"
+        displayMode={displayMode}
+        onlineParticipantIds={new Set(['user-2'])}
+      />
+    );
+
+    const markers = screen.getAllByLabelText('Gerade online');
+    expect(markers).toHaveLength(1);
+    expect(markers[0].parentElement).toHaveTextContent('Ben');
+    expect(markers[0].parentElement).not.toHaveTextContent('Anna');
+  });
+
+  it('shows no markers without presence information', () => {
+    render(<PlayerList players={players} currentParticipantId="user-3" />);
+
+    expect(screen.queryAllByLabelText('Gerade online')).toHaveLength(0);
+  });
+});
@@ -122,6 +122,59 @@ describe('ToastProvider', () => {
     expect(screen.queryByText('Test message')).not.toBeInTheDocument();
   });
 
+  it('should run the toast action and close the toast', () => {
+    const onUndo = vi.fn();
+    function UndoComponent() {
+      const { showToast } = useToast();
+      return (
+        <button onClick={() => showToast('Catan gelöscht', { action: { label: 'Rückgängig', onClick: onUndo } })}>
+          Delete
+        </button>
+      );
+    }
+
+    render(
+      <ToastProvider>
+        <UndoComponent />
+      </ToastProvider>
+    );
+
+    fireEvent.click(screen.getByText('Delete'));
+    fireEvent.click(screen.getByRole('button', { name: 'Rückgängig' }));
+
+    act(() => {
+      vi.advanceTimersByTime(300);
+    });
+
+    expect(onUndo).toHaveBeenCalledTimes(1);
+    expect(screen.queryByText('Catan gelöscht')).not.toBeInTheDocument();
+  });
+
+  it('should keep a toast for its custom duration', () => {
+    function LongComponent() {
+      const { showToast } = useToast();
+      return <button onClick={() => showToast('Long message', { duration: 10000 })}>Show Long</button>;
+    }
+
+    render(
+      <ToastProvider>
+        <LongComponent />
+      </ToastProvider>
+    );
+
+    fireEvent.click(screen.getByText('Show Long'));
+
+    act(() => {
+      vi.advanceTimersByTime(4000 + 300);
+    });
+    expect(screen.getByText('Long message')).toBeInTheDocument();
+
+    act(() => {
+      vi.advanceTimersByTime(6000 + 300);
+    });
+    expect(screen.queryByText('Long message')).not.toBeInTheDocument();
+  });
+
   it('should render toasts in bottom-right corner', async () => {
     let showToastFn: ((msg: string) => void) | undefined;
     
@@ -8,7 +8,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { UnifiedSearchBar } from '../UnifiedSearchBar';
-import { gamesApi } from '../../api/client';
+import { gamesApi, ApiError } from '../../api/client';
 import type { Game, BggSearchResult } from '../../types';
 
 // Mock the API client
@@ -18,9 +18,11 @@ vi.mock('../../api/client', () => ({
   },
   ApiError: class ApiError extends Error {
     code: string;
-    constructor(message: string, code: string) {
+    details?: Record<string, unknown>;
+    constructor(message: string, code: string, details?: Record<string, unknown>) {
       super(message);
       this.code = code;
+      this.details = details;
     }
   },
 }));
@@ -346,4 +348,63 @@ describe('UnifiedSearchBar Add Game Flow', () => {
       });
     });
   });
+
+  describe('Game name in the trash', () => {
+    const addGame = async (name: string) => {
+      fireEvent.change(screen.getByPlaceholderText('Spiel suchen oder hinzufügen...'), { target: { value: name } });
+      fireEvent.click(await screen.findByText('+ Hinzufügen'));
+    };
+
+    it('offers to restore the trashed game if the participant may', async () => {
+      const onRestoreGame = vi.fn();
+      (gamesApi.create as ReturnType<typeof vi.fn>).mockRejectedValue(
+        new ApiError(
+          'Ein Spiel mit diesem Namen liegt im Papierkorb. Stelle es wieder her, statt es neu anzulegen.',
+          'GAME_IN_TRASH',
+          { gameId: 'old-game', canRestore: true, restorers: ['Test User'] }
+        )
+      );
+
+      render(<UnifiedSearchBar {...defaultProps} onRestoreGame={onRestoreGame} />);
+      await addGame('Catan');
+
+      fireEvent.click(await screen.findByRole('button', { name: 'Wiederherstellen' }));
+
+      expect(onRestoreGame).toHaveBeenCalledWith('old-game');
+      expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    });
+
+    it('only names who can restore it otherwise', async () => {
+      (gamesApi.create as ReturnType<typeof vi.fn>).mockRejectedValue(
+        new ApiError(
+          'Ein Spiel mit diesem Namen liegt im Papierkorb. Wiederherstellen können es nur Anna oder die Organisation.',
+          'GAME_IN_TRASH',
+          { gameId: 'old-game', canRestore: false, restorers: ['Anna'] }
+        )
+      );
+
+      render(<UnifiedSearchBar {...defaultProps} onRestoreGame={vi.fn()} />);
+      await addGame('Catan');
+
+      expect(await screen.findByRole('alert')).toHaveTextContent('Wiederherstellen können es nur Anna oder die Organisation.');
+      expect(screen.queryByRole('button', { name: 'Wiederherstellen' })).not.toBeInTheDocument();
+    });
+
+    it('lets organizers restore any trashed game', async () => {
+      const onRestoreGame = vi.fn();
+      (gamesApi.create as ReturnType<typeof vi.fn>).mockRejectedValue(
+        new ApiError('Ein Spiel mit diesem Namen liegt im Papierkorb. Wiederherstellen können es nur Anna oder die Organisation.', 'GAME_IN_TRASH', {
+          gameId: 'old-game',
+          canRestore: false,
+          restorers: ['Anna'],
+        })
+      );
+
+      render(<UnifiedSearchBar {...defaultProps} onRestoreGame={onRestoreGame} canRestoreAnyGame />);
+      await addGame('Catan');
+
+      fireEvent.click(await screen.findByRole('button', { name: 'Wiederherstellen' }));
+      expect(onRestoreGame).toHaveBeenCalledWith('old-game');
+    });
+  });
 });
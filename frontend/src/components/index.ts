@@ -8,7 +8,12 @@ export { AutocompleteDropdown } from './AutocompleteDropdown';
 export { BggModal, getBggUrl, openBggPage } from './BggModal';
 export { BggRatingBadge } from './BggRatingBadge';
 export { BringerList } from './BringerList';
+export { CloneEventForm } from './CloneEventForm';
+export { EventTeamPanel } from './EventTeamPanel';
+export { EventModerationPanel } from './EventModerationPanel';
 export { DeleteGameModal } from './DeleteGameModal';
+export { EditGameDialog } from './EditGameDialog';
+export { EventRoute } from './EventRoute';
 export { GameActions } from './GameActions';
 export { GameCard } from './GameCard';
 export { HelpBubble } from './HelpBubble';
@@ -17,13 +22,15 @@ export { GameTable } from './GameTable';
 export { Header } from './Header';
 export { ImageZoomOverlay } from './ImageZoomOverlay';
 export type { ImageZoomOverlayProps } from './ImageZoomOverlay';
+export { InterestLevelSelect } from './InterestLevelSelect';
 export { LazyBggImage } from './LazyBggImage';
 export type { LazyBggImageProps, ImageSize } from './LazyBggImage';
 export { Layout } from './Layout';
 export { NamePrompt } from './NamePrompt';
 export { NeuheitSticker, isNeuheit } from './NeuheitSticker';
+export { NotificationBell } from './NotificationBell';
 export { PasswordScreen } from './PasswordScreen';
-export { PlayerList } from './PlayerList';
+export { PlayerList, InterestMarker, INTEREST_LABELS, INTEREST_LEVELS } from './PlayerList';
 export {
   PrintList,
   filterGamesParticipantIsBringing,
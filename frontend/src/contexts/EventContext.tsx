@@ -0,0 +1,45 @@
+import React, { createContext, useContext, useCallback, useMemo } from 'react';
+import type { PublicEvent } from '../types';
+
+interface EventContextValue {
+  /** Event opened via join link, null for the default event */
+  event: PublicEvent | null;
+  /** Route prefix of the event ('' for the default event, '/e/:slug' otherwise) */
+  basePath: string;
+  /** Build an in-event path, e.g. toEventPath('/print') -> '/e/sommer/print' */
+  toEventPath: (path: string) => string;
+}
+
+function joinEventPath(basePath: string, path: string): string {
+  if (path === '/') {
+    return basePath || '/';
+  }
+  return `${basePath}${path}`;
+}
+
+const defaultValue: EventContextValue = {
+  event: null,
+  basePath: '',
+  toEventPath: (path) => joinEventPath('', path),
+};
+
+const EventContext = createContext<EventContextValue>(defaultValue);
+
+export function EventProvider({ event, children }: { event: PublicEvent; children: React.ReactNode }) {
+  const basePath = `/e/${event.slug}`;
+  const toEventPath = useCallback((path: string) => joinEventPath(basePath, path), [basePath]);
+
+  const value = useMemo<EventContextValue>(
+    () => ({ event, basePath, toEventPath }),
+    [event, basePath, toEventPath]
+  );
+
+  return <EventContext.Provider value={value}>{children}</EventContext.Provider>;
+}
+
+/**
+ * Access the current event. Outside of an EventProvider this is the default event.
+ */
+export function useEventContext(): EventContextValue {
+  return useContext(EventContext);
+}
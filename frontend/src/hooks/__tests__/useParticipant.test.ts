@@ -13,9 +13,10 @@ vi.mock('../../api/client', () => ({
   participantsApi: {
     getById: vi.fn(),
   },
+  getActiveEventId: vi.fn(() => null),
 }));
 
-import { participantsApi } from '../../api/client';
+import { participantsApi, getActiveEventId } from '../../api/client';
 
 const mockParticipantsApi = participantsApi as {
   getById: ReturnType<typeof vi.fn>;
@@ -125,6 +126,30 @@ describe('useParticipant Hook', () => {
       expect(localStorage.getItem(PARTICIPANT_ID_STORAGE_KEY)).toBeNull();
       expect(result.current.participant).toBeNull();
     });
+
+    /**
+     * Participants belong to an event, so join-link events keep their own selection
+     */
+    it('should store participantId per event when an event is active', async () => {
+      vi.mocked(getActiveEventId).mockReturnValue('event-2');
+      localStorage.setItem(PARTICIPANT_ID_STORAGE_KEY, 'default-event-participant');
+
+      const { result } = renderHook(() => useParticipant());
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      expect(result.current.participant).toBeNull();
+
+      act(() => {
+        result.current.setParticipant({ id: 'event-2-participant', name: 'Anna' });
+      });
+
+      expect(localStorage.getItem(`${PARTICIPANT_ID_STORAGE_KEY}:event-2`)).toBe('event-2-participant');
+      expect(localStorage.getItem(PARTICIPANT_ID_STORAGE_KEY)).toBe('default-event-participant');
+      vi.mocked(getActiveEventId).mockReturnValue(null);
+    });
   });
 
   describe('API validation', () => {
@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { renderHook, act } from '@testing-library/react';
 import { useSSE, calculateBackoffDelay } from '../useSSE';
+import { EVENT_TOKEN_KEY } from '../../api/client';
 
 /**
  * Unit tests for useSSE hook
@@ -14,7 +15,7 @@ class MockEventSource {
   
   url: string;
   onopen: (() => void) | null = null;
-  onmessage: ((event: { data: string }) => void) | null = null;
+  onmessage: ((event: { data: string; lastEventId?: string }) => void) | null = null;
   onerror: (() => void) | null = null;
   readyState = 0;
   
@@ -36,8 +37,8 @@ class MockEventSource {
   }
   
   // Helper to simulate message
-  simulateMessage(data: unknown) {
-    this.onmessage?.({ data: JSON.stringify(data) });
+  simulateMessage(data: unknown, lastEventId?: string) {
+    this.onmessage?.({ data: JSON.stringify(data), lastEventId });
   }
   
   // Helper to simulate error
@@ -81,6 +82,29 @@ describe('useSSE', () => {
       expect(MockEventSource.instances[0].url).toContain('/api/events');
     });
 
+    it('should pass the event token as query parameter', () => {
+      localStorage.setItem(EVENT_TOKEN_KEY, 'event.token.value');
+
+      renderHook(() => useSSE({
+        currentParticipantId: 'user-123',
+        handlers: {},
+        enabled: true,
+      }));
+
+      expect(MockEventSource.instances[0].url).toContain('/api/events?eventToken=event.token.value');
+      localStorage.removeItem(EVENT_TOKEN_KEY);
+    });
+
+    it('should pass the current participant for presence', () => {
+      renderHook(() => useSSE({
+        currentParticipantId: 'user-123',
+        handlers: {},
+        enabled: true,
+      }));
+
+      expect(MockEventSource.instances[0].url).toContain('participantId=user-123');
+    });
+
     it('should not establish connection when disabled', () => {
       const handlers = {
         onGameCreated: vi.fn(),
@@ -190,6 +214,38 @@ describe('useSSE', () => {
       }));
     });
 
+    it('should announce waitlist promotions, including to the promoted participant', () => {
+      const onParticipantPromoted = vi.fn();
+      const onToast = vi.fn();
+      const handlers = { onParticipantPromoted, onToast };
+
+      renderHook(() => useSSE({
+        currentParticipantId: 'user-123',
+        handlers,
+      }));
+
+      act(() => {
+        vi.runAllTimers();
+      });
+
+      act(() => {
+        MockEventSource.instances[0].simulateMessage({
+          type: 'participant:promoted',
+          participantId: 'user-456',
+          participantName: 'Test User',
+        });
+        MockEventSource.instances[0].simulateMessage({
+          type: 'participant:promoted',
+          participantId: 'user-123',
+          participantName: 'Me',
+        });
+      });
+
+      expect(onParticipantPromoted).toHaveBeenCalledTimes(2);
+      expect(onToast).toHaveBeenNthCalledWith(1, 'Test User ist von der Warteliste nachgerückt');
+      expect(onToast).toHaveBeenNthCalledWith(2, 'Du bist von der Warteliste nachgerückt!');
+    });
+
     it('should call onGameDeleted for game:deleted events', () => {
       const onGameDeleted = vi.fn();
       const handlers = { onGameDeleted };
@@ -217,6 +273,173 @@ describe('useSSE', () => {
       }));
     });
 
+    it('should call onGameRestored for game:restored events without a toast', () => {
+      const onGameRestored = vi.fn();
+      const onToast = vi.fn();
+
+      renderHook(() => useSSE({
+        currentParticipantId: 'user-123',
+        handlers: { onGameRestored, onToast },
+      }));
+
+      act(() => {
+        vi.runAllTimers();
+      });
+
+      act(() => {
+        MockEventSource.instances[0].simulateMessage({
+          type: 'game:restored',
+          gameId: 'game-1',
+          gameName: 'Catan',
+          participantId: 'user-456',
+        });
+      });
+
+      expect(onGameRestored).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'game:restored',
+        gameId: 'game-1',
+      }));
+      expect(onToast).not.toHaveBeenCalled();
+    });
+
+    it('should route organizer moderation events', () => {
+      const onGameUpdated = vi.fn();
+      const onGamesDeleted = vi.fn();
+      const onParticipantMerged = vi.fn();
+      const onToast = vi.fn();
+      const handlers = { onGameUpdated, onGamesDeleted, onParticipantMerged, onToast };
+
+      renderHook(() => useSSE({
+        currentParticipantId: 'user-123',
+        handlers,
+      }));
+
+      act(() => {
+        vi.runAllTimers();
+      });
+
+      act(() => {
+        MockEventSource.instances[0].simulateMessage({ type: 'game:renamed', gameId: 'game-1', gameName: 'Azul' });
+        MockEventSource.instances[0].simulateMessage({ type: 'games:deleted', gameIds: ['game-2', 'game-3'] });
+        MockEventSource.instances[0].simulateMessage({
+          type: 'participant:merged',
+          sourceParticipantId: 'user-456',
+          targetParticipantId: 'user-789',
+          targetParticipantName: 'Max M.',
+        });
+        MockEventSource.instances[0].simulateMessage({
+          type: 'participant:merged',
+          sourceParticipantId: 'user-123',
+          targetParticipantId: 'user-789',
+          targetParticipantName: 'Max M.',
+        });
+      });
+
+      expect(onGameUpdated).toHaveBeenCalledWith(expect.objectContaining({ type: 'game:renamed', gameId: 'game-1' }));
+      expect(onGamesDeleted).toHaveBeenCalledWith(['game-2', 'game-3']);
+      expect(onParticipantMerged).toHaveBeenCalledTimes(2);
+      // Only the merged participant gets a toast
+      expect(onToast).toHaveBeenCalledTimes(1);
+      expect(onToast).toHaveBeenCalledWith('Dein Eintrag wurde mit Max M. zusammengeführt');
+    });
+
+    it('should remove the source of a game merge and reload the remaining game', () => {
+      const onGameUpdated = vi.fn();
+      const onGamesDeleted = vi.fn();
+
+      renderHook(() => useSSE({
+        currentParticipantId: 'user-123',
+        handlers: { onGameUpdated, onGamesDeleted },
+      }));
+
+      act(() => {
+        vi.runAllTimers();
+      });
+
+      act(() => {
+        MockEventSource.instances[0].simulateMessage({
+          type: 'game:merged',
+          gameId: 'game-1',
+          gameName: 'Catan',
+          sourceGameId: 'game-2',
+        });
+      });
+
+      expect(onGamesDeleted).toHaveBeenCalledWith(['game-2']);
+      expect(onGameUpdated).toHaveBeenCalledWith(expect.objectContaining({ type: 'game:merged', gameId: 'game-1' }));
+    });
+
+    it('should route participant list events without toasts', () => {
+      const handlers = {
+        onParticipantCreated: vi.fn(),
+        onParticipantRenamed: vi.fn(),
+        onParticipantDeleted: vi.fn(),
+        onGameUpdated: vi.fn(),
+        onToast: vi.fn(),
+      };
+
+      renderHook(() => useSSE({
+        currentParticipantId: 'user-123',
+        handlers,
+      }));
+
+      act(() => {
+        vi.runAllTimers();
+      });
+
+      act(() => {
+        MockEventSource.instances[0].simulateMessage({
+          type: 'participant:created',
+          participantId: 'user-456',
+          participantName: 'Anna',
+          isWaitlisted: false,
+        });
+        MockEventSource.instances[0].simulateMessage({
+          type: 'participant:renamed',
+          participantId: 'user-456',
+          participantName: 'Annika',
+        });
+        MockEventSource.instances[0].simulateMessage({ type: 'participant:deleted', participantId: 'user-456' });
+        MockEventSource.instances[0].simulateMessage({
+          type: 'game:updated',
+          gameId: 'game-1',
+          participantId: 'user-456',
+          fields: ['isHidden'],
+        });
+      });
+
+      expect(handlers.onParticipantCreated).toHaveBeenCalledWith(expect.objectContaining({ participantName: 'Anna' }));
+      expect(handlers.onParticipantRenamed).toHaveBeenCalledWith(expect.objectContaining({ participantName: 'Annika' }));
+      expect(handlers.onParticipantDeleted).toHaveBeenCalledWith({ type: 'participant:deleted', participantId: 'user-456' });
+      expect(handlers.onGameUpdated).toHaveBeenCalledWith(expect.objectContaining({ type: 'game:updated', gameId: 'game-1' }));
+      expect(handlers.onToast).not.toHaveBeenCalled();
+    });
+
+    it('should route presence events without toasts', () => {
+      const handlers = {
+        onPresenceChanged: vi.fn(),
+        onToast: vi.fn(),
+      };
+
+      renderHook(() => useSSE({
+        currentParticipantId: 'user-123',
+        handlers,
+      }));
+
+      act(() => {
+        vi.runAllTimers();
+      });
+
+      act(() => {
+        MockEventSource.instances[0].simulateMessage({ type: 'presence:joined', participantId: 'user-456' });
+        MockEventSource.instances[0].simulateMessage({ type: 'presence:left', participantId: 'user-456' });
+      });
+
+      expect(handlers.onPresenceChanged).toHaveBeenNthCalledWith(1, { type: 'presence:joined', participantId: 'user-456' });
+      expect(handlers.onPresenceChanged).toHaveBeenNthCalledWith(2, { type: 'presence:left', participantId: 'user-456' });
+      expect(handlers.onToast).not.toHaveBeenCalled();
+    });
+
     /**
      * Test for prototype-toggled SSE event handling
      * Requirements: 022-prototype-toggle 4.1, 4.2
@@ -251,6 +474,67 @@ describe('useSSE', () => {
     });
   });
 
+  describe('reconnect replay', () => {
+    it('should resume from the last received event id after reconnecting', () => {
+      renderHook(() => useSSE({
+        currentParticipantId: 'user-123',
+        handlers: {},
+        enabled: true,
+      }));
+
+      act(() => {
+        vi.runAllTimers();
+      });
+      act(() => {
+        MockEventSource.instances[0].simulateMessage(
+          { type: 'game:deleted', gameId: 'game-1', participantId: 'user-456' },
+          '1700000000042'
+        );
+        MockEventSource.instances[0].simulateError();
+      });
+      act(() => {
+        vi.advanceTimersByTime(1000);
+      });
+
+      expect(MockEventSource.instances).toHaveLength(2);
+      expect(MockEventSource.instances[1].url).toContain('lastEventId=1700000000042');
+    });
+
+    it('should only ask for a full reload when the server requires a resync', () => {
+      const handlers = {
+        onGameUpdated: vi.fn(),
+        onResyncRequired: vi.fn(),
+        onToast: vi.fn(),
+      };
+
+      renderHook(() => useSSE({
+        currentParticipantId: 'user-123',
+        handlers,
+        enabled: true,
+      }));
+
+      act(() => {
+        vi.runAllTimers();
+      });
+      act(() => {
+        MockEventSource.instances[0].simulateMessage(
+          { type: 'game:player-added', gameId: 'game-1', participantId: 'user-456', participantName: 'Anna', gameName: 'Catan' },
+          '1700000000041'
+        );
+      });
+
+      expect(handlers.onResyncRequired).not.toHaveBeenCalled();
+
+      act(() => {
+        MockEventSource.instances[0].simulateMessage({ type: 'resync-required' }, '1700000000050');
+      });
+
+      expect(handlers.onResyncRequired).toHaveBeenCalledTimes(1);
+      expect(handlers.onGameUpdated).toHaveBeenCalledTimes(1);
+      expect(handlers.onToast).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('toast filtering', () => {
     it('should call onToast for other users actions', () => {
       const onToast = vi.fn();
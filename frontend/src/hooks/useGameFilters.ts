@@ -36,6 +36,10 @@ export interface UseGameFiltersReturn {
   setHiddenOnly: (enabled: boolean) => void;
   /** Set the prototype filter */
   setPrototypeFilter: (filter: PrototypeFilter) => void;
+  /** Set the number of players a game has to seat (null = off) */
+  setPlayerCount: (playerCount: number | null) => void;
+  /** Set the maximum play time in minutes (null = off) */
+  setMaxDuration: (maxDuration: number | null) => void;
   /** Reset all filters to default state */
   resetFilters: () => void;
   /** Check if any filters are active */
@@ -113,6 +117,14 @@ export function useGameFilters(): UseGameFiltersReturn {
     setFilters((prev) => ({ ...prev, prototypeFilter: filter }));
   }, []);
 
+  const setPlayerCount = useCallback((playerCount: number | null) => {
+    setFilters((prev) => ({ ...prev, playerCount }));
+  }, []);
+
+  const setMaxDuration = useCallback((maxDuration: number | null) => {
+    setFilters((prev) => ({ ...prev, maxDuration }));
+  }, []);
+
   const resetFilters = useCallback(() => {
     setFilters(DEFAULT_FILTER_STATE);
   }, []);
@@ -136,6 +148,8 @@ export function useGameFilters(): UseGameFiltersReturn {
     setPlayerOnly,
     setHiddenOnly,
     setPrototypeFilter,
+    setPlayerCount,
+    setMaxDuration,
     resetFilters,
     hasActiveFilters: activeFilters,
     filterGames,
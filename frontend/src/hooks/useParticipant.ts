@@ -5,23 +5,37 @@
  */
 
 import { useState, useCallback, useEffect } from 'react';
-import { participantsApi } from '../api/client';
+import { participantsApi, getActiveEventId } from '../api/client';
 import type { Participant } from '../types';
 
 // Storage key for participant ID
 export const PARTICIPANT_ID_STORAGE_KEY = 'boardgame_event_participant_id';
 export const LEGACY_PARTICIPANT_ID_STORAGE_KEY = 'boardgame_event_user_id';
 
+/**
+ * Storage key for the active event. Participants belong to an event, so events
+ * opened via join link keep their own selection (`${PARTICIPANT_ID_STORAGE_KEY}:${eventId}`).
+ */
+export function getParticipantStorageKey(eventId: string | null = getActiveEventId()): string {
+  return eventId ? `${PARTICIPANT_ID_STORAGE_KEY}:${eventId}` : PARTICIPANT_ID_STORAGE_KEY;
+}
+
 /**
  * Read participant ID from localStorage
  */
 function readParticipantId(): string | null {
   try {
-    const current = localStorage.getItem(PARTICIPANT_ID_STORAGE_KEY);
+    const storageKey = getParticipantStorageKey();
+    const current = localStorage.getItem(storageKey);
     if (current) {
       return current;
     }
 
+    // Legacy key only ever belonged to the default event
+    if (storageKey !== PARTICIPANT_ID_STORAGE_KEY) {
+      return null;
+    }
+
     const legacy = localStorage.getItem(LEGACY_PARTICIPANT_ID_STORAGE_KEY);
     if (legacy) {
       // Migrate legacy key forward
@@ -43,8 +57,11 @@ function readParticipantId(): string | null {
  */
 function writeParticipantId(id: string): void {
   try {
-    localStorage.setItem(PARTICIPANT_ID_STORAGE_KEY, id);
-    localStorage.removeItem(LEGACY_PARTICIPANT_ID_STORAGE_KEY);
+    const storageKey = getParticipantStorageKey();
+    localStorage.setItem(storageKey, id);
+    if (storageKey === PARTICIPANT_ID_STORAGE_KEY) {
+      localStorage.removeItem(LEGACY_PARTICIPANT_ID_STORAGE_KEY);
+    }
   } catch {
     // localStorage might not be available
     console.warn('Unable to store participant ID in localStorage');
@@ -56,8 +73,11 @@ function writeParticipantId(id: string): void {
  */
 function removeParticipantId(): void {
   try {
-    localStorage.removeItem(PARTICIPANT_ID_STORAGE_KEY);
-    localStorage.removeItem(LEGACY_PARTICIPANT_ID_STORAGE_KEY);
+    const storageKey = getParticipantStorageKey();
+    localStorage.removeItem(storageKey);
+    if (storageKey === PARTICIPANT_ID_STORAGE_KEY) {
+      localStorage.removeItem(LEGACY_PARTICIPANT_ID_STORAGE_KEY);
+    }
   } catch {
     // localStorage might not be available
     console.warn('Unable to remove participant ID from localStorage');
@@ -1,6 +1,23 @@
 import { useEffect, useRef, useCallback, useState } from 'react';
-import type { SSEEvent, GameCreatedEvent } from '../types';
-import { getToastMessage, shouldShowToast } from '../utils';
+import type {
+  SSEEvent,
+  SSEStreamEvent,
+  GameCreatedEvent,
+  GameRenamedEvent,
+  GameOwnerChangedEvent,
+  GameMergedEvent,
+  ParticipantPromotedEvent,
+  ParticipantMergedEvent,
+  ParticipantCreatedEvent,
+  ParticipantRenamedEvent,
+  ParticipantDeletedEvent,
+  PresenceEvent,
+  GameRestoredEvent,
+  ActivityCreatedEvent,
+  PlaySessionEvent,
+} from '../types';
+import { getToastMessage, getPromotionToastMessage, getMergeToastMessage, shouldShowToast } from '../utils';
+import { getEventToken } from '../api/client';
 
 // Get API URL from environment variable
 const getApiUrl = (): string => {
@@ -21,8 +38,19 @@ export function calculateBackoffDelay(attempt: number): number {
 
 interface SSEEventHandlers {
   onGameCreated?: (event: GameCreatedEvent) => void;
-  onGameUpdated?: (event: SSEEvent) => void;
+  onGameUpdated?: (event: SSEEvent | GameRenamedEvent | GameOwnerChangedEvent | GameMergedEvent) => void;
   onGameDeleted?: (event: SSEEvent) => void;
+  onGamesDeleted?: (gameIds: string[]) => void;
+  onGameRestored?: (event: GameRestoredEvent) => void;
+  onParticipantPromoted?: (event: ParticipantPromotedEvent) => void;
+  onParticipantMerged?: (event: ParticipantMergedEvent) => void;
+  onParticipantCreated?: (event: ParticipantCreatedEvent) => void;
+  onParticipantRenamed?: (event: ParticipantRenamedEvent) => void;
+  onParticipantDeleted?: (event: ParticipantDeletedEvent) => void;
+  onPresenceChanged?: (event: PresenceEvent) => void;
+  onActivityCreated?: (event: ActivityCreatedEvent) => void;
+  onPlaySessionChanged?: (event: PlaySessionEvent) => void;
+  onResyncRequired?: () => void;
   onToast?: (message: string) => void;
 }
 
@@ -45,6 +73,9 @@ interface UseSSEResult {
  * - Parses incoming events and calls appropriate handlers
  * - Filters out events from current participant for toasts
  * - Implements exponential backoff reconnection (1s, 2s, 4s... max 30s)
+ * - Identifies the current participant, so others see them as online
+ * - Resumes from the last received event id, so the server replays missed events
+ *   or asks for a full reload (onResyncRequired) when it cannot
  * - Cleans up connection on unmount
  * 
  * Requirements: 1.1, 1.2, 1.3, 1.4, 4.8, 6.1, 6.2
@@ -57,6 +88,7 @@ export function useSSE(options: UseSSEOptions): UseSSEResult {
   const eventSourceRef = useRef<EventSource | null>(null);
   const reconnectAttemptRef = useRef(0);
   const reconnectTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const lastEventIdRef = useRef<string | null>(null);
   const handlersRef = useRef(handlers);
   
   // Keep handlers ref up to date
@@ -72,7 +104,18 @@ export function useSSE(options: UseSSEOptions): UseSSEResult {
       eventSourceRef.current.close();
     }
 
-    const url = `${getApiUrl()}/api/events`;
+    // EventSource cannot send headers, so the event token travels as query parameter.
+    // A fresh EventSource does not send Last-Event-ID either, so it is passed the same way.
+    const params = new URLSearchParams();
+    const eventToken = getEventToken();
+    if (eventToken) {
+      params.set('eventToken', eventToken);
+    }
+    params.set('participantId', currentParticipantId);
+    if (lastEventIdRef.current) {
+      params.set('lastEventId', lastEventIdRef.current);
+    }
+    const url = `${getApiUrl()}/api/events?${params.toString()}`;
     
     try {
       const eventSource = new EventSource(url);
@@ -85,6 +128,10 @@ export function useSSE(options: UseSSEOptions): UseSSEResult {
       };
 
       eventSource.onmessage = (event) => {
+        if (event.lastEventId) {
+          lastEventIdRef.current = event.lastEventId;
+        }
+
         try {
           const data = JSON.parse(event.data);
           
@@ -93,7 +140,74 @@ export function useSSE(options: UseSSEOptions): UseSSEResult {
             return;
           }
 
-          const sseEvent = data as SSEEvent;
+          // The server could not replay everything we missed, so reload instead
+          if (data.type === 'resync-required') {
+            handlersRef.current.onResyncRequired?.();
+            return;
+          }
+
+          const streamEvent = data as SSEStreamEvent;
+
+          // Waitlist promotions are announced to everyone, including the promoted participant
+          if (streamEvent.type === 'participant:promoted') {
+            handlersRef.current.onToast?.(getPromotionToastMessage(streamEvent, currentParticipantId));
+            handlersRef.current.onParticipantPromoted?.(streamEvent);
+            return;
+          }
+
+          // Participant list, presence, restore, activity and play session events update state in place, without toasts
+          switch (streamEvent.type) {
+            case 'participant:created':
+              handlersRef.current.onParticipantCreated?.(streamEvent);
+              return;
+            case 'participant:renamed':
+              handlersRef.current.onParticipantRenamed?.(streamEvent);
+              return;
+            case 'participant:deleted':
+              handlersRef.current.onParticipantDeleted?.(streamEvent);
+              return;
+            case 'presence:joined':
+            case 'presence:left':
+              handlersRef.current.onPresenceChanged?.(streamEvent);
+              return;
+            case 'game:restored':
+              handlersRef.current.onGameRestored?.(streamEvent);
+              return;
+            case 'activity:created':
+              handlersRef.current.onActivityCreated?.(streamEvent);
+              return;
+            case 'play-session:created':
+            case 'play-session:updated':
+            case 'play-session:deleted':
+              handlersRef.current.onPlaySessionChanged?.(streamEvent);
+              return;
+          }
+
+          // Organizer moderation events carry no participant, so they never count as own actions
+          switch (streamEvent.type) {
+            case 'participant:merged': {
+              const message = getMergeToastMessage(streamEvent, currentParticipantId);
+              if (message) {
+                handlersRef.current.onToast?.(message);
+              }
+              handlersRef.current.onParticipantMerged?.(streamEvent);
+              return;
+            }
+            case 'game:renamed':
+            case 'game:owner-changed':
+              handlersRef.current.onGameUpdated?.(streamEvent);
+              return;
+            case 'games:deleted':
+              handlersRef.current.onGamesDeleted?.(streamEvent.gameIds);
+              return;
+            case 'game:merged':
+              // The duplicate is gone and the remaining game got its players and bringers
+              handlersRef.current.onGamesDeleted?.([streamEvent.sourceGameId]);
+              handlersRef.current.onGameUpdated?.(streamEvent);
+              return;
+          }
+
+          const sseEvent = streamEvent;
           
           // Handle toast notifications (only for other participants' actions)
           if (shouldShowToast(sseEvent) && sseEvent.participantId !== currentParticipantId) {
@@ -114,6 +228,7 @@ export function useSSE(options: UseSSEOptions): UseSSEResult {
             case 'game:player-removed':
             case 'game:prototype-toggled':
             case 'game:thumbnail-uploaded':
+            case 'game:updated':
               handlersRef.current.onGameUpdated?.(sseEvent);
               break;
             case 'game:deleted':
@@ -0,0 +1,101 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { organizerEventsApi, ApiError } from '../api/client';
+import { ROLE_LABELS } from '../components/EventTeamPanel';
+import type { InvitePreview } from '../types/event';
+
+/**
+ * Landing page of an organizer invite link. Shows which event and role the
+ * invite grants and lets the logged-in account accept it.
+ */
+export function AcceptInvitePage() {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const [invite, setInvite] = useState<InvitePreview | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [acceptError, setAcceptError] = useState<string | null>(null);
+  const [isAccepting, setIsAccepting] = useState(false);
+
+  useEffect(() => {
+    if (!token) return;
+
+    const loadInvite = async () => {
+      try {
+        const response = await organizerEventsApi.getInvite(token);
+        setInvite(response.invite);
+        setLoadError(null);
+      } catch (err) {
+        const apiError = err as ApiError;
+        setLoadError(apiError.message || 'Konnte Einladung nicht laden.');
+      }
+    };
+
+    loadInvite();
+  }, [token]);
+
+  const handleAccept = async () => {
+    if (!token) return;
+
+    setAcceptError(null);
+    setIsAccepting(true);
+
+    try {
+      const response = await organizerEventsApi.acceptInvite(token);
+      navigate(`/organizer/events/${response.eventId}`);
+    } catch (err) {
+      if (err instanceof ApiError) {
+        setAcceptError(err.message);
+      } else {
+        setAcceptError('Fehler beim Annehmen der Einladung.');
+      }
+      setIsAccepting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-8 px-4">
+      <div className="max-w-md mx-auto space-y-4">
+        <Link to="/organizer" className="text-sm text-blue-600 hover:text-blue-800">
+          ← Meine Events
+        </Link>
+
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">Einladung</h1>
+
+          {loadError && (
+            <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded p-3">{loadError}</div>
+          )}
+
+          {!loadError && !invite && <p className="text-sm text-gray-500">Lade Einladung...</p>}
+
+          {invite && (
+            <div className="space-y-4">
+              <p className="text-gray-700">
+                Du wurdest als <strong>{ROLE_LABELS[invite.role]}</strong> zum Event{' '}
+                <strong>{invite.eventName}</strong> eingeladen.
+              </p>
+              <p className="text-sm text-gray-500">Die Einladung gilt für {invite.email}.</p>
+
+              {acceptError && (
+                <div className="p-3 bg-red-100 border border-red-400 text-red-700 rounded" role="alert">
+                  {acceptError}
+                </div>
+              )}
+
+              <button
+                type="button"
+                onClick={handleAccept}
+                disabled={isAccepting}
+                className="w-full py-2 px-4 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white font-medium rounded-md transition-colors"
+              >
+                {isAccepting ? 'Annehmen...' : 'Einladung annehmen'}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default AcceptInvitePage;
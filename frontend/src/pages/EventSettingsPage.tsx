@@ -0,0 +1,580 @@
+import { useEffect, useState, FormEvent } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { organizerEventsApi, ApiError } from '../api/client';
+import { CloneEventForm } from '../components/CloneEventForm';
+import { EventTeamPanel } from '../components/EventTeamPanel';
+import { EventModerationPanel } from '../components/EventModerationPanel';
+import { ActivityExportForm } from '../components/ActivityExportForm';
+import type { EventStatus, OrganizerEvent, UpdateEventRequest } from '../types/event';
+
+const STATUS_OPTIONS: { value: EventStatus; label: string; description: string }[] = [
+  { value: 'draft', label: 'Entwurf', description: 'Teilnehmer können dem Event noch nicht beitreten.' },
+  { value: 'open', label: 'Offen', description: 'Teilnehmer können Spiele eintragen und mitbringen.' },
+  { value: 'locked', label: 'Gesperrt', description: 'Die Liste bleibt lesbar, neue Spiele und Mitbringer-Änderungen sind gesperrt.' },
+  { value: 'archived', label: 'Archiviert', description: 'Wie gesperrt und im Dashboard standardmäßig ausgeblendet.' },
+];
+
+interface EventFormState {
+  name: string;
+  slug: string;
+  startsAt: string;
+  endsAt: string;
+  location: string;
+  capacity: string;
+  notes: string;
+  fees: string;
+  status: EventStatus;
+  activityRetentionDays: string;
+}
+
+/**
+ * Convert an ISO timestamp to the value format of <input type="datetime-local">
+ */
+function toDateTimeLocal(value: string | null): string {
+  if (!value) return '';
+  const date = new Date(value);
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
+function toFormState(event: OrganizerEvent): EventFormState {
+  return {
+    name: event.name,
+    slug: event.slug,
+    startsAt: toDateTimeLocal(event.startsAt),
+    endsAt: toDateTimeLocal(event.endsAt),
+    location: event.location ?? '',
+    capacity: event.capacity?.toString() ?? '',
+    notes: event.notes ?? '',
+    fees: event.fees ?? '',
+    status: event.status,
+    activityRetentionDays: event.activityRetentionDays?.toString() ?? '',
+  };
+}
+
+/**
+ * Validate the form before saving; the API enforces the same rules
+ */
+function validateEventForm(form: EventFormState): string | null {
+  if (!form.name.trim()) {
+    return 'Bitte einen Eventnamen eingeben.';
+  }
+  if (form.startsAt && form.endsAt && new Date(form.endsAt) <= new Date(form.startsAt)) {
+    return 'Das Ende muss nach dem Beginn liegen.';
+  }
+  if (form.capacity) {
+    const capacity = Number(form.capacity);
+    if (!Number.isInteger(capacity) || capacity <= 0) {
+      return 'Die Kapazität muss eine positive ganze Zahl sein.';
+    }
+  }
+  if (form.activityRetentionDays) {
+    const days = Number(form.activityRetentionDays);
+    if (!Number.isInteger(days) || days <= 0) {
+      return 'Die Aufbewahrungsdauer muss eine positive ganze Zahl (Tage) sein.';
+    }
+  }
+  return null;
+}
+
+function toUpdateRequest(form: EventFormState): UpdateEventRequest {
+  return {
+    name: form.name.trim(),
+    slug: form.slug.trim(),
+    startsAt: form.startsAt ? new Date(form.startsAt).toISOString() : null,
+    endsAt: form.endsAt ? new Date(form.endsAt).toISOString() : null,
+    location: form.location.trim() || null,
+    capacity: form.capacity ? Number(form.capacity) : null,
+    notes: form.notes.trim() || null,
+    fees: form.fees.trim() || null,
+    status: form.status,
+    activityRetentionDays: form.activityRetentionDays ? Number(form.activityRetentionDays) : null,
+  };
+}
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export function EventSettingsPage() {
+  const { eventId } = useParams<{ eventId: string }>();
+  const navigate = useNavigate();
+  const [event, setEvent] = useState<OrganizerEvent | null>(null);
+  const [form, setForm] = useState<EventFormState | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [saveSuccess, setSaveSuccess] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+  const [passwordSuccess, setPasswordSuccess] = useState<string | null>(null);
+  const [isChangingPassword, setIsChangingPassword] = useState(false);
+  const [revokeMessage, setRevokeMessage] = useState<string | null>(null);
+  const [revokeError, setRevokeError] = useState<string | null>(null);
+  const [isRevoking, setIsRevoking] = useState(false);
+
+  useEffect(() => {
+    if (!eventId) return;
+
+    const loadEvent = async () => {
+      try {
+        const response = await organizerEventsApi.getById(eventId);
+        setEvent(response.event);
+        setForm(toFormState(response.event));
+        setLoadError(null);
+      } catch (err) {
+        const apiError = err as ApiError;
+        setLoadError(apiError.message || 'Konnte Event nicht laden.');
+      }
+    };
+
+    loadEvent();
+  }, [eventId]);
+
+  const updateField = (field: keyof EventFormState, value: string) => {
+    setForm((current) => (current ? { ...current, [field]: value } : current));
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!eventId || !form) return;
+
+    setSaveError(null);
+    setSaveSuccess(null);
+
+    const validationError = validateEventForm(form);
+    if (validationError) {
+      setSaveError(validationError);
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const response = await organizerEventsApi.update(eventId, toUpdateRequest(form));
+      setEvent(response.event);
+      setForm(toFormState(response.event));
+      setSaveSuccess('Änderungen gespeichert.');
+    } catch (err) {
+      if (err instanceof ApiError) {
+        setSaveError(err.message);
+      } else {
+        setSaveError('Fehler beim Speichern.');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePasswordSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!eventId) return;
+
+    setPasswordError(null);
+    setPasswordSuccess(null);
+
+    if (!newPassword.trim()) {
+      setPasswordError('Bitte ein Event-Passwort eingeben.');
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setPasswordError('Die Passwörter stimmen nicht überein.');
+      return;
+    }
+
+    setIsChangingPassword(true);
+
+    try {
+      await organizerEventsApi.changePassword(eventId, newPassword);
+      setNewPassword('');
+      setConfirmPassword('');
+      setPasswordSuccess('Event-Passwort geändert. Alle Teilnehmer müssen sich mit dem neuen Passwort erneut anmelden.');
+    } catch (err) {
+      if (err instanceof ApiError) {
+        setPasswordError(err.message);
+      } else {
+        setPasswordError('Fehler beim Ändern des Passworts.');
+      }
+    } finally {
+      setIsChangingPassword(false);
+    }
+  };
+
+  const handleRevokeTokens = async () => {
+    if (!eventId) return;
+
+    const confirmed = window.confirm(
+      'Alle Teilnehmer abmelden? Jeder muss danach das Event-Passwort erneut eingeben.'
+    );
+    if (!confirmed) return;
+
+    setRevokeMessage(null);
+    setRevokeError(null);
+    setIsRevoking(true);
+
+    try {
+      const response = await organizerEventsApi.revokeTokens(eventId);
+      setRevokeMessage(response.message);
+    } catch (err) {
+      if (err instanceof ApiError) {
+        setRevokeError(err.message);
+      } else {
+        setRevokeError('Fehler beim Abmelden der Teilnehmer.');
+      }
+    } finally {
+      setIsRevoking(false);
+    }
+  };
+
+  if (loadError) {
+    return (
+      <div className="min-h-screen bg-gray-100 py-8 px-4">
+        <div className="max-w-2xl mx-auto space-y-4">
+          <Link to="/organizer" className="text-sm text-blue-600 hover:text-blue-800">
+            ← Meine Events
+          </Link>
+          <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded p-3">
+            {loadError}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!event || !form) {
+    return (
+      <div className="min-h-screen bg-gray-100 py-8 px-4">
+        <div className="max-w-2xl mx-auto">
+          <p className="text-sm text-gray-500">Lade Event...</p>
+        </div>
+      </div>
+    );
+  }
+
+  // Viewers see the settings read-only; the API rejects their changes anyway
+  const role = event.role ?? 'owner';
+  const isReadOnly = role === 'viewer';
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-8 px-4">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <Link to="/organizer" className="text-sm text-blue-600 hover:text-blue-800">
+          ← Meine Events
+        </Link>
+
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">Event-Einstellungen</h1>
+
+          {isReadOnly && (
+            <div className="mb-4 p-3 bg-blue-50 border border-blue-200 text-blue-800 text-sm rounded">
+              Du hast nur Lesezugriff auf dieses Event.
+            </div>
+          )}
+
+          {saveError && (
+            <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded" role="alert">
+              {saveError}
+            </div>
+          )}
+
+          {saveSuccess && (
+            <div className="mb-4 p-3 bg-green-100 border border-green-400 text-green-700 rounded">
+              {saveSuccess}
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label htmlFor="eventName" className="block text-sm font-medium text-gray-700 mb-1">
+                Name
+              </label>
+              <input
+                id="eventName"
+                type="text"
+                value={form.name}
+                onChange={(e) => updateField('name', e.target.value)}
+                className={inputClassName}
+                disabled={isSaving || isReadOnly}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="eventSlug" className="block text-sm font-medium text-gray-700 mb-1">
+                Link
+              </label>
+              <div className="flex items-center gap-1">
+                <span className="text-sm text-gray-500">/e/</span>
+                <input
+                  id="eventSlug"
+                  type="text"
+                  value={form.slug}
+                  onChange={(e) => updateField('slug', e.target.value)}
+                  className={inputClassName}
+                  disabled={isSaving || isReadOnly}
+                />
+              </div>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div>
+                <label htmlFor="eventStartsAt" className="block text-sm font-medium text-gray-700 mb-1">
+                  Beginn
+                </label>
+                <input
+                  id="eventStartsAt"
+                  type="datetime-local"
+                  value={form.startsAt}
+                  onChange={(e) => updateField('startsAt', e.target.value)}
+                  className={inputClassName}
+                  disabled={isSaving || isReadOnly}
+                />
+              </div>
+              <div>
+                <label htmlFor="eventEndsAt" className="block text-sm font-medium text-gray-700 mb-1">
+                  Ende
+                </label>
+                <input
+                  id="eventEndsAt"
+                  type="datetime-local"
+                  value={form.endsAt}
+                  onChange={(e) => updateField('endsAt', e.target.value)}
+                  className={inputClassName}
+                  disabled={isSaving || isReadOnly}
+                />
+              </div>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div>
+                <label htmlFor="eventLocation" className="block text-sm font-medium text-gray-700 mb-1">
+                  Ort
+                </label>
+                <input
+                  id="eventLocation"
+                  type="text"
+                  value={form.location}
+                  onChange={(e) => updateField('location', e.target.value)}
+                  className={inputClassName}
+                  disabled={isSaving || isReadOnly}
+                />
+              </div>
+              <div>
+                <label htmlFor="eventCapacity" className="block text-sm font-medium text-gray-700 mb-1">
+                  Kapazität
+                </label>
+                <input
+                  id="eventCapacity"
+                  type="number"
+                  min={1}
+                  value={form.capacity}
+                  onChange={(e) => updateField('capacity', e.target.value)}
+                  className={inputClassName}
+                  disabled={isSaving || isReadOnly}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="eventStatus" className="block text-sm font-medium text-gray-700 mb-1">
+                Status
+              </label>
+              <select
+                id="eventStatus"
+                value={form.status}
+                onChange={(e) => updateField('status', e.target.value)}
+                className={inputClassName}
+                disabled={isSaving || isReadOnly}
+              >
+                {STATUS_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">
+                {STATUS_OPTIONS.find((option) => option.value === form.status)?.description}
+              </p>
+            </div>
+
+            <div>
+              <label htmlFor="eventFees" className="block text-sm font-medium text-gray-700 mb-1">
+                Gebühren
+              </label>
+              <input
+                id="eventFees"
+                type="text"
+                value={form.fees}
+                onChange={(e) => updateField('fees', e.target.value)}
+                className={inputClassName}
+                disabled={isSaving || isReadOnly}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="eventNotes" className="block text-sm font-medium text-gray-700 mb-1">
+                Notizen
+              </label>
+              <textarea
+                id="eventNotes"
+                rows={4}
+                value={form.notes}
+                onChange={(e) => updateField('notes', e.target.value)}
+                className={inputClassName}
+                disabled={isSaving || isReadOnly}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="eventActivityRetention" className="block text-sm font-medium text-gray-700 mb-1">
+                Aktivitäten aufbewahren (Tage)
+              </label>
+              <input
+                id="eventActivityRetention"
+                type="number"
+                min={1}
+                value={form.activityRetentionDays}
+                onChange={(e) => updateField('activityRetentionDays', e.target.value)}
+                className={inputClassName}
+                disabled={isSaving || isReadOnly}
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Ältere Aktivitäten werden archiviert und bleiben über den Export abrufbar. Leer lassen, um
+                alles in der Datenbank zu behalten.
+              </p>
+            </div>
+
+            {!isReadOnly && (
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="py-2 px-4 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white font-medium rounded-md transition-colors"
+              >
+                {isSaving ? 'Speichern...' : 'Speichern'}
+              </button>
+            )}
+          </form>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Organisationsteam</h2>
+          <EventTeamPanel eventId={event.id} role={role} />
+        </div>
+
+        {!isReadOnly && (
+          <>
+            <div className="bg-white rounded-lg shadow-md p-6">
+              <h2 className="text-xl font-semibold text-gray-900 mb-4">Moderation</h2>
+              <EventModerationPanel eventId={event.id} />
+            </div>
+
+            <div className="bg-white rounded-lg shadow-md p-6">
+              <h2 className="text-xl font-semibold text-gray-900 mb-2">Aktivitäten exportieren</h2>
+              <p className="text-sm text-gray-600 mb-4">
+                Lädt das Aktivitätsprotokoll des gewählten Zeitraums herunter, einschließlich archivierter
+                Einträge. Ohne Datum wird alles exportiert.
+              </p>
+              <ActivityExportForm eventId={event.id} />
+            </div>
+
+            <div className="bg-white rounded-lg shadow-md p-6">
+              <h2 className="text-xl font-semibold text-gray-900 mb-2">Event-Passwort ändern</h2>
+              <p className="text-sm text-gray-600 mb-4">
+                Nach der Änderung werden alle Teilnehmer abgemeldet und müssen das neue Passwort eingeben.
+              </p>
+
+              {passwordError && (
+                <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded" role="alert">
+                  {passwordError}
+                </div>
+              )}
+
+              {passwordSuccess && (
+                <div className="mb-4 p-3 bg-green-100 border border-green-400 text-green-700 rounded">
+                  {passwordSuccess}
+                </div>
+              )}
+
+              <form onSubmit={handlePasswordSubmit} className="space-y-4">
+                <div>
+                  <label htmlFor="eventNewPassword" className="block text-sm font-medium text-gray-700 mb-1">
+                    Neues Passwort
+                  </label>
+                  <input
+                    id="eventNewPassword"
+                    type="password"
+                    value={newPassword}
+                    onChange={(e) => setNewPassword(e.target.value)}
+                    className={inputClassName}
+                    disabled={isChangingPassword}
+                    autoComplete="new-password"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="eventConfirmPassword" className="block text-sm font-medium text-gray-700 mb-1">
+                    Passwort bestätigen
+                  </label>
+                  <input
+                    id="eventConfirmPassword"
+                    type="password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    className={inputClassName}
+                    disabled={isChangingPassword}
+                    autoComplete="new-password"
+                  />
+                </div>
+                <button
+                  type="submit"
+                  disabled={isChangingPassword}
+                  className="py-2 px-4 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white font-medium rounded-md transition-colors"
+                >
+                  {isChangingPassword ? 'Ändern...' : 'Passwort ändern'}
+                </button>
+              </form>
+            </div>
+
+            <div className="bg-white rounded-lg shadow-md p-6">
+              <h2 className="text-xl font-semibold text-gray-900 mb-4">Event kopieren</h2>
+              <CloneEventForm
+                key={event.id}
+                event={event}
+                onCloned={(clone) => navigate(`/organizer/events/${clone.id}`)}
+              />
+            </div>
+
+            <div className="bg-white rounded-lg shadow-md p-6">
+              <h2 className="text-xl font-semibold text-gray-900 mb-2">Alle Teilnehmer abmelden</h2>
+              <p className="text-sm text-gray-600 mb-4">
+                Macht alle bisherigen Anmeldungen ungültig, ohne das Passwort zu ändern. Hilfreich, wenn
+                der Zugang in die falschen Hände geraten ist.
+              </p>
+
+              {revokeError && (
+                <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded" role="alert">
+                  {revokeError}
+                </div>
+              )}
+
+              {revokeMessage && (
+                <div className="mb-4 p-3 bg-green-100 border border-green-400 text-green-700 rounded">
+                  {revokeMessage}
+                </div>
+              )}
+
+              <button
+                type="button"
+                onClick={handleRevokeTokens}
+                disabled={isRevoking}
+                className="py-2 px-4 bg-red-600 hover:bg-red-700 disabled:bg-red-400 text-white font-medium rounded-md transition-colors"
+              >
+                {isRevoking ? 'Abmelden...' : 'Alle abmelden'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default EventSettingsPage;
@@ -13,8 +13,8 @@
  * - Removed Statistics component (moved to dedicated StatisticsPage)
  */
 
-import { useState, useEffect, useCallback } from 'react';
-import { gamesApi, ApiError } from '../api/client';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { gamesApi, presenceApi, ApiError } from '../api/client';
 import { GameTable } from '../components/GameTable';
 import { UnifiedSearchBar } from '../components/UnifiedSearchBar';
 import { AdvancedFilters } from '../components/AdvancedFilters';
@@ -22,15 +22,46 @@ import { DeleteGameModal } from '../components/DeleteGameModal';
 import { useToast } from '../components/ToastProvider';
 import { useGameFilters, useSSE } from '../hooks';
 import { useAuth } from '../contexts/AuthContext';
-import { getHighlightedGameIds, DEFAULT_SORT_ORDER, DEFAULT_SORT_KEY } from '../utils';
-import type { Game, Participant, SSEEvent, GameCreatedEvent, ThumbnailUploadedEvent } from '../types';
+import {
+  getHighlightedGameIds,
+  renameParticipantInGames,
+  removeParticipantFromGames,
+  mergeGameChanges,
+  DEFAULT_SORT_ORDER,
+  DEFAULT_SORT_KEY,
+} from '../utils';
+import type {
+  Game,
+  InterestLevel,
+  Participant,
+  SSEEvent,
+  GameCreatedEvent,
+  GameRenamedEvent,
+  GameMergedEvent,
+  GameOwnerChangedEvent,
+  ParticipantMergedEvent,
+  ParticipantRenamedEvent,
+  ParticipantDeletedEvent,
+  PresenceEvent,
+  GameRestoredEvent,
+  ThumbnailUploadedEvent,
+} from '../types';
 import type { SortOrder, SortKey } from '../utils';
 
+// How long the "Rückgängig" action stays available after deleting a game
+const UNDO_TOAST_DURATION = 10000;
+
 interface HomePageProps {
   participant: Participant | null;
+  /** Called when an organizer merged the current participant into another one */
+  onParticipantMerged?: (participant: Participant) => void;
+  /** Called when the current participant was renamed, e.g. on another device */
+  onParticipantRenamed?: (participant: Participant) => void;
+  /** Called when the current participant was deleted, e.g. on another device */
+  onParticipantDeleted?: () => void;
 }
 
-export function HomePage({ participant }: HomePageProps) {
+export function HomePage({ participant, onParticipantMerged, onParticipantRenamed, onParticipantDeleted }: HomePageProps) {
   // Game state
   const [games, setGames] = useState<Game[]>([]);
   const [loading, setLoading] = useState(true);
@@ -56,6 +87,9 @@ export function HomePage({ participant }: HomePageProps) {
   
   // Thumbnail timestamps for cache-busting (gameId -> timestamp)
   const [thumbnailTimestamps, setThumbnailTimestamps] = useState<Record<string, number>>({});
+
+  // Participants that currently have the list open
+  const [onlineParticipantIds, setOnlineParticipantIds] = useState<Set<string>>(new Set());
   
   // Toast notifications
   const { showToast } = useToast();
@@ -75,6 +109,8 @@ export function HomePage({ participant }: HomePageProps) {
     setPlayerOnly,
     setHiddenOnly,
     setPrototypeFilter,
+    setPlayerCount,
+    setMaxDuration,
     filterGames,
     hasActiveFilters,
     resetFilters,
@@ -84,6 +120,9 @@ export function HomePage({ participant }: HomePageProps) {
   const currentParticipantId = participant?.id || '';
   const currentParticipantName = participant?.name || 'Unbekannt';
 
+  // Cursor of the last load, so later syncs only fetch what changed
+  const syncCursorRef = useRef<string | null>(null);
+
   // Fetch games from API
   const fetchGames = useCallback(async () => {
     try {
@@ -91,6 +130,7 @@ export function HomePage({ participant }: HomePageProps) {
       setError(null);
       const response = await gamesApi.getAll(currentParticipantId || undefined);
       setGames(response.games);
+      syncCursorRef.current = response.cursor;
     } catch (err) {
       console.error('Failed to fetch games:', err);
       if (err instanceof ApiError) {
@@ -108,13 +148,43 @@ export function HomePage({ participant }: HomePageProps) {
     fetchGames();
   }, [fetchGames]);
 
+  // Merge the games changed or deleted since the last load into the list
+  const syncGames = useCallback(async () => {
+    const since = syncCursorRef.current;
+    if (!since) {
+      await fetchGames();
+      return;
+    }
+    try {
+      const changes = await gamesApi.getChanges(since, currentParticipantId || undefined);
+      setGames((prev) => mergeGameChanges(prev, changes));
+      syncCursorRef.current = changes.cursor;
+    } catch (err) {
+      console.error('Failed to sync games:', err);
+    }
+  }, [currentParticipantId, fetchGames]);
+
+  // Presence only decorates the list, so failures are logged and otherwise ignored
+  const fetchPresence = useCallback(async () => {
+    try {
+      const response = await presenceApi.get();
+      setOnlineParticipantIds(new Set(response.participantIds));
+    } catch (err) {
+      console.error('Failed to fetch presence:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPresence();
+  }, [fetchPresence]);
+
   // SSE event handlers for real-time updates
-  const handleSSEGameCreated = useCallback(async (event: GameCreatedEvent) => {
+  const addGameById = useCallback(async (gameId: string) => {
     try {
-      const response = await gamesApi.getById(event.gameId, currentParticipantId || undefined);
+      const response = await gamesApi.getById(gameId, currentParticipantId || undefined);
       setGames((prev) => {
         // Check if game already exists (in case of race condition)
-        if (prev.some(g => g.id === event.gameId)) {
+        if (prev.some(g => g.id === gameId)) {
           return prev;
         }
         return [...prev, response.game];
@@ -124,7 +194,18 @@ export function HomePage({ participant }: HomePageProps) {
     }
   }, [currentParticipantId]);
 
-  const handleSSEGameUpdated = useCallback(async (event: SSEEvent) => {
+  const handleSSEGameCreated = useCallback((event: GameCreatedEvent) => {
+    addGameById(event.gameId);
+  }, [addGameById]);
+
+  // Restored games come back with all their players and bringers
+  const handleSSEGameRestored = useCallback((event: GameRestoredEvent) => {
+    addGameById(event.gameId);
+  }, [addGameById]);
+
+  const handleSSEGameUpdated = useCallback(async (
+    event: SSEEvent | GameRenamedEvent | GameOwnerChangedEvent | GameMergedEvent
+  ) => {
     try {
       // Handle thumbnail-uploaded events specially to extract timestamp for cache-busting
       if (event.type === 'game:thumbnail-uploaded') {
@@ -148,6 +229,52 @@ export function HomePage({ participant }: HomePageProps) {
     setGames((prev) => prev.filter((g) => g.id !== event.gameId));
   }, [currentParticipantId]);
 
+  const handleSSEGamesDeleted = useCallback((gameIds: string[]) => {
+    const deleted = new Set(gameIds);
+    setGames((prev) => prev.filter((g) => !deleted.has(g.id)));
+  }, []);
+
+  // A merge moves players, bringers and owners across many games, so sync the changed games
+  const handleSSEParticipantMerged = useCallback((event: ParticipantMergedEvent) => {
+    if (event.sourceParticipantId === currentParticipantId) {
+      onParticipantMerged?.({ id: event.targetParticipantId, name: event.targetParticipantName });
+      return;
+    }
+    syncGames();
+  }, [currentParticipantId, syncGames, onParticipantMerged]);
+
+  // Renames and deletions only touch names and entries, so the list is patched in place
+  const handleSSEParticipantRenamed = useCallback((event: ParticipantRenamedEvent) => {
+    setGames((prev) => renameParticipantInGames(prev, event.participantId, event.participantName));
+    if (event.participantId === currentParticipantId) {
+      onParticipantRenamed?.({ id: event.participantId, name: event.participantName });
+    }
+  }, [currentParticipantId, onParticipantRenamed]);
+
+  const handleSSEParticipantDeleted = useCallback((event: ParticipantDeletedEvent) => {
+    setGames((prev) => removeParticipantFromGames(prev, event.participantId));
+    if (event.participantId === currentParticipantId) {
+      onParticipantDeleted?.();
+    }
+  }, [currentParticipantId, onParticipantDeleted]);
+
+  const handleSSEPresenceChanged = useCallback((event: PresenceEvent) => {
+    setOnlineParticipantIds((prev) => {
+      const next = new Set(prev);
+      if (event.type === 'presence:joined') {
+        next.add(event.participantId);
+      } else {
+        next.delete(event.participantId);
+      }
+      return next;
+    });
+  }, []);
+
+  const handleSSEResyncRequired = useCallback(() => {
+    syncGames();
+    fetchPresence();
+  }, [syncGames, fetchPresence]);
+
   // SSE connection for real-time updates
   useSSE({
     currentParticipantId,
@@ -156,6 +283,14 @@ export function HomePage({ participant }: HomePageProps) {
       onGameCreated: handleSSEGameCreated,
       onGameUpdated: handleSSEGameUpdated,
       onGameDeleted: handleSSEGameDeleted,
+      onGamesDeleted: handleSSEGamesDeleted,
+      onGameRestored: handleSSEGameRestored,
+      onParticipantMerged: handleSSEParticipantMerged,
+      onParticipantRenamed: handleSSEParticipantRenamed,
+      onParticipantDeleted: handleSSEParticipantDeleted,
+      onPresenceChanged: handleSSEPresenceChanged,
+      // Missed events are replayed on reconnect; a delta sync is only needed when that is impossible
+      onResyncRequired: handleSSEResyncRequired,
       onToast: showToast,
     },
   });
@@ -221,6 +356,24 @@ export function HomePage({ participant }: HomePageProps) {
     }
   }, [currentParticipantId]);
 
+  // Handle interest level change of the current player
+  const handleChangeInterest = useCallback(async (gameId: string, interestLevel: InterestLevel) => {
+    if (!currentParticipantId) return;
+    try {
+      const response = await gamesApi.addPlayer(gameId, currentParticipantId, interestLevel);
+      setGames((prev) =>
+        prev.map((g) => (g.id === gameId ? response.game : g))
+      );
+    } catch (err) {
+      console.error('Failed to change interest level:', err);
+      if (err instanceof ApiError) {
+        alert(err.message);
+      } else {
+        alert('Fehler beim Ändern des Interesses. Bitte erneut versuchen.');
+      }
+    }
+  }, [currentParticipantId]);
+
   // Handle add bringer action
   const handleAddBringer = useCallback(async (gameId: string) => {
     if (!currentParticipantId) return;
@@ -352,6 +505,35 @@ export function HomePage({ participant }: HomePageProps) {
     }
   }, [currentParticipantId, showToast]);
 
+  // Follow a game to be notified when someone brings or deletes it
+  const handleToggleFollow = useCallback(async (gameId: string, isFollowed: boolean) => {
+    if (!currentParticipantId) return;
+    try {
+      const response = isFollowed
+        ? await gamesApi.followGame(gameId, currentParticipantId)
+        : await gamesApi.unfollowGame(gameId, currentParticipantId);
+      setGames((prev) => prev.map((g) => (g.id === gameId ? response.game : g)));
+      showToast(
+        isFollowed
+          ? `Du folgst ${response.game.name} und wirst benachrichtigt, wenn es jemand mitbringt oder löscht.`
+          : `Du folgst ${response.game.name} nicht mehr.`
+      );
+    } catch (err) {
+      console.error('Failed to toggle follow:', err);
+      if (err instanceof ApiError) {
+        showToast(err.message);
+      } else {
+        showToast('Fehler beim Folgen des Spiels. Bitte erneut versuchen.');
+      }
+    }
+  }, [currentParticipantId, showToast]);
+
+  // Name or BGG link of a game was fixed in the edit dialog
+  const handleGameEdited = useCallback((game: Game) => {
+    setGames((prev) => prev.map((g) => (g.id === game.id ? game : g)));
+    showToast(`${game.name} wurde gespeichert.`);
+  }, [showToast]);
+
   // Handle delete game - opens confirmation modal
   const handleDeleteGameClick = useCallback((gameId: string) => {
     const game = games.find((g) => g.id === gameId);
@@ -361,6 +543,19 @@ export function HomePage({ participant }: HomePageProps) {
     }
   }, [games]);
 
+  // Undo a deletion: the game comes back from the trash with all its entries
+  const handleRestoreGame = useCallback(async (gameId: string) => {
+    if (!currentParticipantId) return;
+
+    try {
+      const response = await gamesApi.restore(gameId, currentParticipantId, canManageGames);
+      setGames((prev) => (prev.some((g) => g.id === gameId) ? prev : [...prev, response.game]));
+    } catch (err) {
+      console.error('Failed to restore game:', err);
+      showToast(err instanceof ApiError ? err.message : 'Fehler beim Wiederherstellen des Spiels. Bitte erneut versuchen.');
+    }
+  }, [currentParticipantId, canManageGames, showToast]);
+
   // Handle delete game confirmation
   const handleDeleteGameConfirm = useCallback(async () => {
     if (!gameToDelete || !currentParticipantId) return;
@@ -371,6 +566,10 @@ export function HomePage({ participant }: HomePageProps) {
       setGames((prev) => prev.filter((g) => g.id !== gameToDelete.id));
       setDeleteModalOpen(false);
       setGameToDelete(null);
+      showToast(`${gameToDelete.name} gelöscht`, {
+        duration: UNDO_TOAST_DURATION,
+        action: { label: 'Rückgängig', onClick: () => handleRestoreGame(gameToDelete.id) },
+      });
     } catch (err) {
       console.error('Failed to delete game:', err);
       if (err instanceof ApiError) {
@@ -381,7 +580,7 @@ export function HomePage({ participant }: HomePageProps) {
     } finally {
       setIsDeleting(false);
     }
-  }, [gameToDelete, currentParticipantId, canManageGames]);
+  }, [gameToDelete, currentParticipantId, canManageGames, showToast, handleRestoreGame]);
 
   // Handle delete modal cancel
   const handleDeleteModalCancel = useCallback(() => {
@@ -493,6 +692,8 @@ export function HomePage({ participant }: HomePageProps) {
           onSearchQueryChange={handleSearchQueryChange}
           onScrollToGame={handleScrollToGame}
           clearTrigger={searchClearTrigger}
+          onRestoreGame={handleRestoreGame}
+          canRestoreAnyGame={canManageGames}
         />
       )}
 
@@ -634,13 +835,17 @@ export function HomePage({ participant }: HomePageProps) {
         </div>
       </div>
 
-      {/* Advanced Filters - player and bringer search (Requirement 8.1-8.4) */}
+      {/* Advanced Filters - player and bringer search (Requirement 8.1-8.4), player count and play time */}
       <AdvancedFilters
         onPlayerSearch={setPlayerQuery}
         onBringerSearch={setBringerQuery}
+        onPlayerCountChange={setPlayerCount}
+        onMaxDurationChange={setMaxDuration}
         initialValues={{
           playerQuery: filters.playerQuery,
           bringerQuery: filters.bringerQuery,
+          playerCount: filters.playerCount,
+          maxDuration: filters.maxDuration,
         }}
       />
 
@@ -654,11 +859,14 @@ export function HomePage({ participant }: HomePageProps) {
           onAddBringer={handleAddBringer}
         onRemovePlayer={handleRemovePlayer}
         onRemoveBringer={handleRemoveBringer}
+        onChangeInterest={handleChangeInterest}
         onHideGame={handleHideGame}
         onUnhideGame={handleUnhideGame}
         onDeleteGame={handleDeleteGameClick}
         onTogglePrototype={handleTogglePrototype}
+        onToggleFollow={handleToggleFollow}
         onThumbnailUploaded={handleThumbnailUploaded}
+        onGameEdited={handleGameEdited}
         scrollToGameId={scrollToGameId}
         onScrolledToGame={handleScrolledToGame}
         highlightedGameIds={highlightedGameIds}
@@ -667,6 +875,7 @@ export function HomePage({ participant }: HomePageProps) {
         hiddenOnly={filters.hiddenOnly}
         thumbnailTimestamps={thumbnailTimestamps}
         canManageGames={canManageGames}
+        onlineParticipantIds={onlineParticipantIds}
       />
 
       {/* Delete confirmation modal */}
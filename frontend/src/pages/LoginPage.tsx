@@ -10,6 +10,8 @@ export function LoginPage() {
   const { login, isAuthenticated, isLoading, error, clearError } = useAuth();
   const navigate = useNavigate();
   const location = useLocation();
+  // AccountAuthGuard passes the protected page the user came from, e.g. an invite link
+  const redirectTo = (location.state as { from?: { pathname: string } } | null)?.from?.pathname ?? '/';
 
   // Check for success message from registration
   useEffect(() => {
@@ -24,9 +26,9 @@ export function LoginPage() {
   // Redirect if already authenticated
   useEffect(() => {
     if (isAuthenticated) {
-      navigate('/');
+      navigate(redirectTo);
     }
-  }, [isAuthenticated, navigate]);
+  }, [isAuthenticated, navigate, redirectTo]);
 
   // Clear errors when component unmounts
   useEffect(() => {
@@ -45,7 +47,7 @@ export function LoginPage() {
 
     try {
       await login(email, password);
-      navigate('/');
+      navigate(redirectTo);
     } catch {
       // Error is handled by AuthContext
     }
@@ -0,0 +1,238 @@
+/**
+ * NewsPage - Activity feed ("Neuigkeiten")
+ * Lists what happened in the event, newest first. Older entries load while
+ * scrolling, new ones arrive live via SSE.
+ * All UI text in German
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { activityApi, participantsApi, ApiError } from '../api/client';
+import { useSSE } from '../hooks';
+import { getActivitySince, matchesActivityFilters, prependActivity } from '../utils';
+import type { ActivityTimeRange } from '../utils';
+import type { ActivityCreatedEvent, Participant } from '../types';
+import type { ActivityEntry, ActivityFeedFilters, ActivityType } from '../types/activity';
+
+interface NewsPageProps {
+  participant: Participant | null;
+}
+
+const TYPE_FILTERS: { id: string; label: string; types: ActivityType[] }[] = [
+  { id: 'games', label: 'Neue Spiele', types: ['game_created'] },
+  { id: 'players', label: 'Mitspieler', types: ['player_added', 'player_removed'] },
+  { id: 'bringers', label: 'Mitbringer', types: ['bringer_added', 'bringer_removed'] },
+  { id: 'deleted', label: 'Gelöschte Spiele', types: ['game_deleted', 'game_restored'] },
+  { id: 'prototypes', label: 'Prototypen', types: ['prototype_toggled'] },
+  { id: 'participants', label: 'Neue Teilnehmer', types: ['user_created'] },
+];
+
+const TIME_RANGES: { id: ActivityTimeRange; label: string }[] = [
+  { id: 'all', label: 'Gesamter Zeitraum' },
+  { id: 'hour', label: 'Letzte Stunde' },
+  { id: 'yesterday', label: 'Seit gestern' },
+  { id: 'week', label: 'Letzte 7 Tage' },
+];
+
+const formatDateTime = (dateString: string) => {
+  return new Date(dateString).toLocaleString('de-DE', {
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+export function NewsPage({ participant }: NewsPageProps) {
+  const [typeFilter, setTypeFilter] = useState('');
+  const [actorId, setActorId] = useState('');
+  const [timeRange, setTimeRange] = useState<ActivityTimeRange>('all');
+  const [participants, setParticipants] = useState<Participant[]>([]);
+
+  const [entries, setEntries] = useState<ActivityEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Responses for outdated filters are dropped
+  const requestRef = useRef(0);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  const filters = useMemo<ActivityFeedFilters>(() => ({
+    types: TYPE_FILTERS.find((filter) => filter.id === typeFilter)?.types,
+    actorId: actorId || undefined,
+    since: getActivitySince(timeRange),
+  }), [typeFilter, actorId, timeRange]);
+
+  const hasFilters = typeFilter !== '' || actorId !== '' || timeRange !== 'all';
+
+  const loadFeed = useCallback(async () => {
+    const request = ++requestRef.current;
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await activityApi.getFeed(filters);
+      if (request !== requestRef.current) return;
+      setEntries(response.entries);
+      setNextCursor(response.nextCursor);
+    } catch (err) {
+      if (request !== requestRef.current) return;
+      console.error('Failed to fetch activity feed:', err);
+      setError(err instanceof ApiError ? err.message : 'Neuigkeiten konnten nicht geladen werden.');
+    } finally {
+      if (request === requestRef.current) {
+        setLoading(false);
+      }
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    loadFeed();
+  }, [loadFeed]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore || loading) return;
+    const request = requestRef.current;
+    setLoadingMore(true);
+    try {
+      const response = await activityApi.getFeed(filters, nextCursor);
+      if (request !== requestRef.current) return;
+      setEntries((prev) => {
+        const known = new Set(prev.map((entry) => entry.id));
+        return [...prev, ...response.entries.filter((entry) => !known.has(entry.id))];
+      });
+      setNextCursor(response.nextCursor);
+    } catch (err) {
+      console.error('Failed to fetch older activities:', err);
+      setError(err instanceof ApiError ? err.message : 'Ältere Neuigkeiten konnten nicht geladen werden.');
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [filters, nextCursor, loadingMore, loading]);
+
+  // Load the next page once the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver(
+      (observed) => {
+        if (observed.some((entry) => entry.isIntersecting)) {
+          loadMore();
+        }
+      },
+      { rootMargin: '200px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadMore]);
+
+  useEffect(() => {
+    participantsApi
+      .getAll()
+      .then((response) => setParticipants(response.participants))
+      .catch((err) => console.error('Failed to fetch participants:', err));
+  }, []);
+
+  const handleActivityCreated = useCallback((event: ActivityCreatedEvent) => {
+    if (matchesActivityFilters(event.entry, filters)) {
+      setEntries((prev) => prependActivity(prev, event.entry));
+    }
+  }, [filters]);
+
+  const currentParticipantId = participant?.id || '';
+  useSSE({
+    currentParticipantId,
+    enabled: !!currentParticipantId,
+    handlers: {
+      onActivityCreated: handleActivityCreated,
+      onResyncRequired: loadFeed,
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold text-gray-800">Neuigkeiten</h2>
+
+      <div className="bg-white rounded-lg shadow p-4 flex flex-col sm:flex-row gap-3">
+        <label className="flex flex-col text-sm text-gray-600 flex-1">
+          Art
+          <select
+            value={typeFilter}
+            onChange={(e) => setTypeFilter(e.target.value)}
+            className="mt-1 border border-gray-300 rounded-md px-2 py-1.5 text-gray-800"
+          >
+            <option value="">Alle Aktivitäten</option>
+            {TYPE_FILTERS.map((filter) => (
+              <option key={filter.id} value={filter.id}>{filter.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col text-sm text-gray-600 flex-1">
+          Teilnehmer
+          <select
+            value={actorId}
+            onChange={(e) => setActorId(e.target.value)}
+            className="mt-1 border border-gray-300 rounded-md px-2 py-1.5 text-gray-800"
+          >
+            <option value="">Alle Teilnehmer</option>
+            {participants.map((p) => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col text-sm text-gray-600 flex-1">
+          Zeitraum
+          <select
+            value={timeRange}
+            onChange={(e) => setTimeRange(e.target.value as ActivityTimeRange)}
+            className="mt-1 border border-gray-300 rounded-md px-2 py-1.5 text-gray-800"
+          >
+            {TIME_RANGES.map((range) => (
+              <option key={range.id} value={range.id}>{range.label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-4" role="alert">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-center text-gray-500 py-8">Lade Neuigkeiten...</div>
+      ) : entries.length === 0 ? (
+        <div className="text-center text-gray-500 py-8">
+          {hasFilters ? 'Keine Neuigkeiten für diese Filter.' : 'Noch keine Neuigkeiten.'}
+        </div>
+      ) : (
+        <ul className="bg-white rounded-lg shadow divide-y divide-gray-100" data-testid="activity-feed">
+          {entries.map((entry) => (
+            <li key={entry.id} className="px-4 py-3 flex items-baseline justify-between gap-4">
+              <span className="text-gray-800">{entry.message}</span>
+              <time dateTime={entry.createdAt} className="text-xs text-gray-500 whitespace-nowrap">
+                {formatDateTime(entry.createdAt)}
+              </time>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {nextCursor && !loading && (
+        <div ref={sentinelRef} className="text-center">
+          <button
+            onClick={loadMore}
+            disabled={loadingMore}
+            className="text-blue-600 hover:text-blue-800 hover:underline text-sm disabled:text-gray-400"
+          >
+            {loadingMore ? 'Lade...' : 'Ältere Neuigkeiten laden'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default NewsPage;
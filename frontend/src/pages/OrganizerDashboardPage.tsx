@@ -0,0 +1,202 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { organizerEventsApi, ApiError } from '../api/client';
+import { ROLE_LABELS } from '../components/EventTeamPanel';
+import type { EventStatus, OrganizerDashboardEntry } from '../types/event';
+
+const STATUS_BADGES: Record<EventStatus, { label: string; className: string }> = {
+  draft: { label: 'Entwurf', className: 'bg-gray-100 text-gray-700' },
+  open: { label: 'Offen', className: 'bg-green-100 text-green-800' },
+  locked: { label: 'Gesperrt', className: 'bg-yellow-100 text-yellow-800' },
+  archived: { label: 'Archiviert', className: 'bg-gray-200 text-gray-600' },
+};
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('de-DE', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+  });
+};
+
+const formatDateTime = (dateString: string) => {
+  return new Date(dateString).toLocaleString('de-DE', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+function formatDateRange(startsAt: string | null, endsAt: string | null): string {
+  if (startsAt && endsAt) {
+    const start = formatDate(startsAt);
+    const end = formatDate(endsAt);
+    return start === end ? start : `${start} – ${end}`;
+  }
+  if (startsAt) return `ab ${formatDate(startsAt)}`;
+  if (endsAt) return `bis ${formatDate(endsAt)}`;
+  return 'Kein Datum festgelegt';
+}
+
+function EventCard({ entry }: { entry: OrganizerDashboardEntry }) {
+  const { event, statistics } = entry;
+  const eventPath = `/e/${event.slug}`;
+  const capacityPercent = event.capacity
+    ? Math.min(100, Math.round((statistics.participantCount / event.capacity) * 100))
+    : null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 flex flex-col gap-4" data-testid={`event-card-${event.id}`}>
+      <div>
+        <div className="flex items-start justify-between gap-2">
+          <Link to={eventPath} className="text-xl font-bold text-gray-900 hover:text-blue-700">
+            {event.name}
+          </Link>
+          <span
+            className={`text-xs font-medium px-2 py-0.5 rounded ${STATUS_BADGES[event.status].className}`}
+            data-testid="event-status"
+          >
+            {STATUS_BADGES[event.status].label}
+          </span>
+        </div>
+        <p className="text-sm text-gray-600 mt-1">{formatDateRange(event.startsAt, event.endsAt)}</p>
+        {event.location && <p className="text-sm text-gray-600">{event.location}</p>}
+        {event.role && event.role !== 'owner' && (
+          <p className="text-xs text-gray-500 mt-1" data-testid="event-role">
+            Deine Rolle: {ROLE_LABELS[event.role]}
+          </p>
+        )}
+      </div>
+
+      <div>
+        <div className="flex justify-between text-sm text-gray-600">
+          <span>Teilnehmer</span>
+          <span data-testid="capacity-usage">
+            {event.capacity
+              ? `${statistics.participantCount} / ${event.capacity}`
+              : statistics.participantCount}
+          </span>
+        </div>
+        {capacityPercent !== null && (
+          <div className="mt-1 h-2 bg-gray-100 rounded">
+            <div
+              className={`h-2 rounded ${capacityPercent >= 100 ? 'bg-red-500' : 'bg-blue-500'}`}
+              style={{ width: `${capacityPercent}%` }}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-center">
+        <div className="bg-gray-50 rounded p-2">
+          <p className="text-lg font-bold text-gray-900">{statistics.totalGames}</p>
+          <p className="text-xs text-gray-500">Spiele</p>
+        </div>
+        <div className="bg-yellow-50 rounded p-2">
+          <p className="text-lg font-bold text-yellow-700">{statistics.requestedGames}</p>
+          <p className="text-xs text-gray-500">Wunsch</p>
+        </div>
+        <div className="bg-green-50 rounded p-2">
+          <p className="text-lg font-bold text-green-700">{statistics.availableGames}</p>
+          <p className="text-xs text-gray-500">Verfügbar</p>
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Letzte Aktivität:{' '}
+        {statistics.lastActivityAt ? formatDateTime(statistics.lastActivityAt) : 'Noch keine'}
+      </p>
+
+      <div className="flex flex-wrap gap-2 mt-auto">
+        <Link
+          to={eventPath}
+          className="text-sm px-3 py-1.5 rounded bg-blue-600 text-white hover:bg-blue-700"
+        >
+          Spieleliste
+        </Link>
+        <Link
+          to={`/organizer/events/${event.id}`}
+          className="text-sm px-3 py-1.5 rounded bg-gray-100 text-gray-700 hover:bg-gray-200"
+        >
+          Einstellungen
+        </Link>
+        <Link
+          to={`${eventPath}/print`}
+          className="text-sm px-3 py-1.5 rounded bg-gray-100 text-gray-700 hover:bg-gray-200"
+        >
+          Druckansicht
+        </Link>
+      </div>
+    </div>
+  );
+}
+
+export function OrganizerDashboardPage() {
+  const [entries, setEntries] = useState<OrganizerDashboardEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+
+  useEffect(() => {
+    const loadDashboard = async () => {
+      try {
+        setLoading(true);
+        const response = await organizerEventsApi.getDashboard(showArchived);
+        setEntries(response.events);
+        setError(null);
+      } catch (err) {
+        const apiError = err as ApiError;
+        setError(apiError.message || 'Konnte Events nicht laden.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadDashboard();
+  }, [showArchived]);
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-8 px-4">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold text-gray-900">Meine Events</h1>
+          <div className="flex items-center gap-4">
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={showArchived}
+                onChange={(e) => setShowArchived(e.target.checked)}
+              />
+              Archivierte anzeigen
+            </label>
+            <Link to="/profile" className="text-sm text-blue-600 hover:text-blue-800">
+              Profil
+            </Link>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded p-3">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Lade Events...</p>
+        ) : entries.length === 0 && !error ? (
+          <p className="text-sm text-gray-600">Du hast noch keine Events.</p>
+        ) : (
+          <div className="grid gap-6 md:grid-cols-2">
+            {entries.map((entry) => (
+              <EventCard key={entry.event.id} entry={entry} />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default OrganizerDashboardPage;
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { accountsApi, sessionsApi, ApiError } from '../api/client';
 import type { Session } from '../types/account';
@@ -167,7 +167,12 @@ export function ProfilePage() {
       <div className="max-w-2xl mx-auto space-y-6">
         {/* Account Info */}
         <div className="bg-white rounded-lg shadow-md p-6">
-          <h1 className="text-2xl font-bold text-gray-900 mb-4">Mein Profil</h1>
+          <div className="flex items-center justify-between mb-4">
+            <h1 className="text-2xl font-bold text-gray-900">Mein Profil</h1>
+            <Link to="/organizer" className="text-sm text-blue-600 hover:text-blue-800">
+              Meine Events
+            </Link>
+          </div>
           
           <div className="space-y-3">
             <div>
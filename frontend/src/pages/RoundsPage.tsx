@@ -0,0 +1,307 @@
+/**
+ * RoundsPage - Play sessions ("Runden")
+ * Lists the upcoming sessions with their open seats and lets participants
+ * start a session for a game, join and leave. Changes arrive live via SSE.
+ * All UI text in German
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { gamesApi, playSessionsApi, ApiError } from '../api/client';
+import { useSSE } from '../hooks';
+import { useToast } from '../components/ToastProvider';
+import { applyPlaySessionEvent, isSeated } from '../utils';
+import type { Game, Participant, PlaySessionEvent } from '../types';
+import type { PlaySession } from '../types/playSession';
+
+interface RoundsPageProps {
+  participant: Participant | null;
+}
+
+const formatDateTime = (dateString: string) => {
+  return new Date(dateString).toLocaleString('de-DE', {
+    weekday: 'short',
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+const formatSeats = (session: PlaySession) => {
+  if (session.seatLimit === null) {
+    return `${session.participants.length} dabei`;
+  }
+  return session.openSeats === 0
+    ? 'Voll'
+    : `${session.openSeats} von ${session.seatLimit} Plätzen frei`;
+};
+
+export function RoundsPage({ participant }: RoundsPageProps) {
+  const [sessions, setSessions] = useState<PlaySession[]>([]);
+  const [games, setGames] = useState<Game[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busySessionId, setBusySessionId] = useState<string | null>(null);
+
+  // New session form
+  const [gameId, setGameId] = useState('');
+  const [startsAt, setStartsAt] = useState('');
+  const [tableLabel, setTableLabel] = useState('');
+  const [seatLimit, setSeatLimit] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const { showToast } = useToast();
+  const currentParticipantId = participant?.id || '';
+
+  const loadSessions = useCallback(async () => {
+    setError(null);
+    try {
+      const response = await playSessionsApi.getUpcoming();
+      setSessions(response.sessions);
+    } catch (err) {
+      console.error('Failed to fetch play sessions:', err);
+      setError(err instanceof ApiError ? err.message : 'Runden konnten nicht geladen werden.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  useEffect(() => {
+    gamesApi
+      .getAll()
+      .then((response) => setGames([...response.games].sort((a, b) => a.name.localeCompare(b.name, 'de'))))
+      .catch((err) => console.error('Failed to fetch games:', err));
+  }, []);
+
+  const handlePlaySessionChanged = useCallback((event: PlaySessionEvent) => {
+    setSessions((prev) => applyPlaySessionEvent(prev, event));
+  }, []);
+
+  useSSE({
+    currentParticipantId,
+    enabled: !!currentParticipantId,
+    handlers: {
+      onPlaySessionChanged: handlePlaySessionChanged,
+      // Deleted and merged games or participants take their sessions and seats along
+      onGameDeleted: loadSessions,
+      onGamesDeleted: loadSessions,
+      onParticipantMerged: loadSessions,
+      onParticipantDeleted: loadSessions,
+      onResyncRequired: loadSessions,
+    },
+  });
+
+  const selectedGame = useMemo(() => games.find((game) => game.id === gameId) ?? null, [games, gameId]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentParticipantId) return;
+    if (!gameId) {
+      setFormError('Bitte ein Spiel auswählen.');
+      return;
+    }
+    if (!startsAt) {
+      setFormError('Bitte eine Startzeit angeben.');
+      return;
+    }
+
+    setIsCreating(true);
+    setFormError(null);
+    try {
+      const response = await playSessionsApi.create(currentParticipantId, {
+        gameId,
+        startsAt: new Date(startsAt).toISOString(),
+        ...(tableLabel.trim() && { tableLabel: tableLabel.trim() }),
+        ...(seatLimit && { seatLimit: Number(seatLimit) }),
+      });
+      setSessions((prev) => applyPlaySessionEvent(prev, { type: 'play-session:created', session: response.session }));
+      setGameId('');
+      setStartsAt('');
+      setTableLabel('');
+      setSeatLimit('');
+      showToast(`Runde ${response.session.game.name} angelegt`);
+    } catch (err) {
+      setFormError(err instanceof ApiError ? err.message : 'Ein Fehler ist aufgetreten. Bitte versuche es erneut.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleJoin = async (session: PlaySession) => {
+    setBusySessionId(session.id);
+    try {
+      const response = await playSessionsApi.join(session.id, currentParticipantId);
+      setSessions((prev) => applyPlaySessionEvent(prev, { type: 'play-session:updated', session: response.session }));
+    } catch (err) {
+      showToast(err instanceof ApiError ? err.message : 'Beitreten fehlgeschlagen.');
+    } finally {
+      setBusySessionId(null);
+    }
+  };
+
+  const handleLeave = async (session: PlaySession) => {
+    setBusySessionId(session.id);
+    try {
+      const response = await playSessionsApi.leave(session.id, currentParticipantId);
+      setSessions((prev) =>
+        applyPlaySessionEvent(
+          prev,
+          response.session
+            ? { type: 'play-session:updated', session: response.session }
+            : { type: 'play-session:deleted', sessionId: session.id }
+        )
+      );
+    } catch (err) {
+      showToast(err instanceof ApiError ? err.message : 'Austreten fehlgeschlagen.');
+    } finally {
+      setBusySessionId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold text-gray-800">Runden</h2>
+
+      {/* New session */}
+      <form onSubmit={handleCreate} className="bg-white rounded-lg shadow p-4 space-y-3" aria-label="Neue Runde">
+        <h3 className="font-semibold text-gray-800">Neue Runde</h3>
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-3">
+          <label className="flex flex-col text-sm text-gray-600 sm:col-span-2">
+            Spiel
+            <select
+              value={gameId}
+              onChange={(e) => setGameId(e.target.value)}
+              className="mt-1 border border-gray-300 rounded-md px-2 py-1.5 text-gray-800"
+              disabled={isCreating}
+            >
+              <option value="">Spiel auswählen...</option>
+              {games.map((game) => (
+                <option key={game.id} value={game.id}>{game.name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col text-sm text-gray-600">
+            Startzeit
+            <input
+              type="datetime-local"
+              value={startsAt}
+              onChange={(e) => setStartsAt(e.target.value)}
+              className="mt-1 border border-gray-300 rounded-md px-2 py-1.5 text-gray-800"
+              disabled={isCreating}
+            />
+          </label>
+          <label className="flex flex-col text-sm text-gray-600">
+            Tisch
+            <input
+              type="text"
+              value={tableLabel}
+              onChange={(e) => setTableLabel(e.target.value)}
+              placeholder="z. B. Tisch 3"
+              maxLength={50}
+              className="mt-1 border border-gray-300 rounded-md px-2 py-1.5 text-gray-800"
+              disabled={isCreating}
+            />
+          </label>
+        </div>
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+          <label className="flex flex-col text-sm text-gray-600 sm:w-40">
+            Plätze
+            <input
+              type="number"
+              min={1}
+              max={selectedGame?.maxPlayers ?? 20}
+              value={seatLimit}
+              onChange={(e) => setSeatLimit(e.target.value)}
+              placeholder={selectedGame?.maxPlayers ? `max. ${selectedGame.maxPlayers}` : 'unbegrenzt'}
+              className="mt-1 border border-gray-300 rounded-md px-2 py-1.5 text-gray-800"
+              disabled={isCreating}
+            />
+          </label>
+          {selectedGame && selectedGame.players.length > 0 && (
+            <p className="text-sm text-gray-500 flex-1" data-testid="interested-players">
+              Interessiert: {selectedGame.players.map((player) => player.participant.name).join(', ')}
+            </p>
+          )}
+          <button
+            type="submit"
+            disabled={isCreating || !currentParticipantId}
+            className="sm:ml-auto px-4 py-2 text-white bg-blue-600 hover:bg-blue-700 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed min-h-[44px]"
+          >
+            {isCreating ? 'Wird angelegt...' : 'Runde anlegen'}
+          </button>
+        </div>
+        {formError && (
+          <div className="text-sm text-red-600 bg-red-50 px-3 py-2 rounded" role="alert">
+            {formError}
+          </div>
+        )}
+      </form>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-4" role="alert">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-center text-gray-500 py-8">Lade Runden...</div>
+      ) : sessions.length === 0 ? (
+        <div className="text-center text-gray-500 py-8">Noch keine Runden geplant.</div>
+      ) : (
+        <ul className="space-y-3" data-testid="play-sessions">
+          {sessions.map((session) => {
+            const seated = isSeated(session, currentParticipantId);
+            const isFull = session.openSeats === 0;
+            const isBusy = busySessionId === session.id;
+
+            return (
+              <li key={session.id} className="bg-white rounded-lg shadow p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <div className="flex flex-wrap items-baseline gap-x-3">
+                    <time dateTime={session.startsAt} className="text-sm font-medium text-blue-700">
+                      {formatDateTime(session.startsAt)}
+                    </time>
+                    <span className="font-semibold text-gray-800">{session.game.name}</span>
+                    {session.tableLabel && <span className="text-sm text-gray-500">{session.tableLabel}</span>}
+                  </div>
+                  <p className="text-sm text-gray-600 mt-1">
+                    {session.participants.map((p) => p.name).join(', ')}
+                  </p>
+                </div>
+                <span className={`text-sm whitespace-nowrap ${isFull ? 'text-red-600' : 'text-green-700'}`}>
+                  {formatSeats(session)}
+                </span>
+                {seated ? (
+                  <button
+                    onClick={() => handleLeave(session)}
+                    disabled={isBusy}
+                    className="px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded transition-colors disabled:opacity-50 min-h-[44px]"
+                    aria-label={`${session.game.name} verlassen`}
+                  >
+                    Austreten
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => handleJoin(session)}
+                    disabled={isBusy || isFull || !currentParticipantId}
+                    className="px-4 py-2 text-white bg-green-600 hover:bg-green-700 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed min-h-[44px]"
+                    aria-label={`${session.game.name} mitspielen`}
+                  >
+                    Mitspielen
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default RoundsPage;
@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import { EventSettingsPage } from '../EventSettingsPage';
+
+const mockGetById = vi.fn();
+const mockUpdate = vi.fn();
+const mockChangePassword = vi.fn();
+const mockRevokeTokens = vi.fn();
+const mockGetTeam = vi.fn();
+const mockGetModeration = vi.fn();
+const mockGetTrash = vi.fn();
+vi.mock('../../api/client', async () => {
+  const actual = await vi.importActual('../../api/client');
+  return {
+    ...actual,
+    organizerEventsApi: {
+      getById: (eventId: string) => mockGetById(eventId),
+      update: (eventId: string, data: unknown) => mockUpdate(eventId, data),
+      changePassword: (eventId: string, password: string) => mockChangePassword(eventId, password),
+      revokeTokens: (eventId: string) => mockRevokeTokens(eventId),
+      getTeam: (eventId: string) => mockGetTeam(eventId),
+      getModeration: (eventId: string) => mockGetModeration(eventId),
+      getTrash: (eventId: string) => mockGetTrash(eventId),
+    },
+  };
+});
+
+const event = {
+  id: 'event-1',
+  name: 'Sommer-Spieletreff',
+  slug: 'sommer',
+  startsAt: null,
+  endsAt: null,
+  location: null,
+  capacity: 40,
+  notes: null,
+  fees: null,
+  status: 'open',
+  isDefault: false,
+  ownerAccountId: 'owner-1',
+  activityRetentionDays: null,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+async function renderPage() {
+  render(
+    <MemoryRouter initialEntries={['/organizer/events/event-1']}>
+      <Routes>
+        <Route path="/organizer/events/:eventId" element={<EventSettingsPage />} />
+      </Routes>
+    </MemoryRouter>
+  );
+  await screen.findByText('Event-Einstellungen');
+}
+
+/**
+ * Unit tests for the event settings page
+ */
+describe('EventSettingsPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetById.mockResolvedValue({ event });
+    mockUpdate.mockImplementation(async (_id: string, data: Record<string, unknown>) => ({
+      event: { ...event, ...data },
+    }));
+    mockChangePassword.mockResolvedValue({ success: true, message: 'Event-Passwort geändert.' });
+    mockGetTeam.mockResolvedValue({ members: [], invites: [] });
+    mockGetModeration.mockResolvedValue({ participants: [], games: [] });
+    mockGetTrash.mockResolvedValue({ games: [] });
+  });
+
+  it('rejects an end before the start without calling the API', async () => {
+    await renderPage();
+
+    fireEvent.change(screen.getByLabelText('Beginn'), { target: { value: '2026-07-05T10:00' } });
+    fireEvent.change(screen.getByLabelText('Ende'), { target: { value: '2026-07-04T10:00' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Speichern' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Das Ende muss nach dem Beginn liegen.');
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+
+  it('rejects a non-positive capacity', async () => {
+    await renderPage();
+
+    const capacityInput = screen.getByLabelText('Kapazität');
+    fireEvent.change(capacityInput, { target: { value: '0' } });
+    // Submit directly: the browser's own min={1} check would block the click
+    fireEvent.submit(capacityInput.closest('form')!);
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('positive ganze Zahl');
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+
+  it('saves the lifecycle status', async () => {
+    await renderPage();
+
+    fireEvent.change(screen.getByLabelText('Status'), { target: { value: 'locked' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Speichern' }));
+
+    await waitFor(() => {
+      expect(mockUpdate).toHaveBeenCalledWith('event-1', expect.objectContaining({ status: 'locked' }));
+    });
+    expect(await screen.findByText('Änderungen gespeichert.')).toBeInTheDocument();
+  });
+
+  it('saves the activity retention and clears it when left empty', async () => {
+    await renderPage();
+
+    const retentionInput = screen.getByLabelText('Aktivitäten aufbewahren (Tage)');
+    fireEvent.change(retentionInput, { target: { value: '90' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Speichern' }));
+
+    await waitFor(() => {
+      expect(mockUpdate).toHaveBeenCalledWith('event-1', expect.objectContaining({ activityRetentionDays: 90 }));
+    });
+
+    fireEvent.change(retentionInput, { target: { value: '' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Speichern' }));
+
+    await waitFor(() => {
+      expect(mockUpdate).toHaveBeenLastCalledWith('event-1', expect.objectContaining({ activityRetentionDays: null }));
+    });
+  });
+
+  it('rotates the event password after confirmation', async () => {
+    await renderPage();
+
+    fireEvent.change(screen.getByLabelText('Neues Passwort'), { target: { value: 'neu-geheim' } });
+    fireEvent.change(screen.getByLabelText('Passwort bestätigen'), { target: { value: 'anders' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Passwort ändern' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Die Passwörter stimmen nicht überein.');
+    expect(mockChangePassword).not.toHaveBeenCalled();
+
+    fireEvent.change(screen.getByLabelText('Passwort bestätigen'), { target: { value: 'neu-geheim' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Passwort ändern' }));
+
+    await waitFor(() => {
+      expect(mockChangePassword).toHaveBeenCalledWith('event-1', 'neu-geheim');
+    });
+    expect(await screen.findByText(/erneut anmelden/)).toBeInTheDocument();
+  });
+
+  it('signs out all participants after confirmation', async () => {
+    mockRevokeTokens.mockResolvedValue({ event, message: 'Alle Teilnehmer wurden abgemeldet.' });
+    const confirmSpy = vi.spyOn(window, 'confirm').mockReturnValueOnce(false).mockReturnValueOnce(true);
+    await renderPage();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Alle abmelden' }));
+    expect(mockRevokeTokens).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Alle abmelden' }));
+
+    expect(await screen.findByText('Alle Teilnehmer wurden abgemeldet.')).toBeInTheDocument();
+    expect(mockRevokeTokens).toHaveBeenCalledWith('event-1');
+    confirmSpy.mockRestore();
+  });
+
+  it('shows the settings read-only for viewers', async () => {
+    mockGetById.mockResolvedValue({ event: { ...event, role: 'viewer' } });
+    await renderPage();
+
+    expect(screen.getByText('Du hast nur Lesezugriff auf dieses Event.')).toBeInTheDocument();
+    expect(screen.getByLabelText('Name')).toBeDisabled();
+    expect(screen.queryByRole('button', { name: 'Speichern' })).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Passwort ändern' })).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Alle abmelden' })).not.toBeInTheDocument();
+    expect(screen.queryByText('Moderation')).not.toBeInTheDocument();
+    expect(screen.getByText('Organisationsteam')).toBeInTheDocument();
+  });
+});
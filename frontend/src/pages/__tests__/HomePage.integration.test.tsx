@@ -7,7 +7,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
 import { HomePage } from '../HomePage';
 import type { Participant, Game } from '../../types';
 
@@ -15,6 +15,7 @@ import type { Participant, Game } from '../../types';
 vi.mock('../../api/client', () => ({
   gamesApi: {
     getAll: vi.fn(),
+    getChanges: vi.fn(),
     getById: vi.fn(),
     create: vi.fn(),
     addPlayer: vi.fn(),
@@ -24,10 +25,14 @@ vi.mock('../../api/client', () => ({
     hideGame: vi.fn(),
     unhideGame: vi.fn(),
     delete: vi.fn(),
+    restore: vi.fn(),
   },
   bggApi: {
     search: vi.fn(),
   },
+  presenceApi: {
+    get: vi.fn(),
+  },
   thumbnailsApi: {
     upload: vi.fn(),
     getUrl: vi.fn(),
@@ -41,9 +46,10 @@ vi.mock('../../api/client', () => ({
 }));
 
 // Mock ToastProvider
+const mockShowToast = vi.fn();
 vi.mock('../../components/ToastProvider', () => ({
   useToast: () => ({
-    showToast: vi.fn(),
+    showToast: mockShowToast,
   }),
   ToastProvider: ({ children }: { children: React.ReactNode }) => children,
 }));
@@ -61,7 +67,7 @@ vi.mock('../../contexts/AuthContext', () => ({
   }),
 }));
 
-import { gamesApi, bggApi, thumbnailsApi } from '../../api/client';
+import { gamesApi, bggApi, presenceApi, thumbnailsApi } from '../../api/client';
 
 const mockParticipant: Participant = {
   id: 'user-1',
@@ -127,6 +133,7 @@ describe('HomePage Integration Tests', () => {
     vi.clearAllMocks();
     (gamesApi.getAll as ReturnType<typeof vi.fn>).mockResolvedValue({ games: mockGames });
     (bggApi.search as ReturnType<typeof vi.fn>).mockResolvedValue({ results: [], hasMore: false });
+    (presenceApi.get as ReturnType<typeof vi.fn>).mockResolvedValue({ participantIds: [] });
     mockUseSSE.mockReturnValue({ isConnected: true, connectionError: null });
   });
 
@@ -439,6 +446,198 @@ describe('HomePage Integration Tests', () => {
         expect(screen.getAllByText('Azul').length).toBeGreaterThan(0);
       });
     });
+
+    it('offers to undo a deletion and restores the game with its entries', async () => {
+      const azul = mockGames[1];
+      (gamesApi.getAll as ReturnType<typeof vi.fn>).mockResolvedValue({ games: [azul] });
+      (gamesApi.delete as ReturnType<typeof vi.fn>).mockResolvedValue({ success: true });
+      (gamesApi.restore as ReturnType<typeof vi.fn>).mockResolvedValue({ game: azul });
+      render(<HomePage participant={mockParticipant} />);
+
+      fireEvent.click((await screen.findAllByRole('button', { name: 'Weitere Aktionen' }))[0]);
+      fireEvent.click(screen.getAllByText('Spiel löschen')[0]);
+      fireEvent.click(screen.getByRole('button', { name: 'Löschen' }));
+
+      await waitFor(() => {
+        expect(gamesApi.delete).toHaveBeenCalledWith('game-2', 'user-1', false);
+        expect(screen.queryAllByText('Azul').length).toBe(0);
+      });
+      expect(mockShowToast).toHaveBeenCalledWith('Azul gelöscht', {
+        duration: 10000,
+        action: { label: 'Rückgängig', onClick: expect.any(Function) },
+      });
+
+      const [, options] = mockShowToast.mock.calls[mockShowToast.mock.calls.length - 1];
+      await act(async () => {
+        options.action.onClick();
+      });
+
+      expect(gamesApi.restore).toHaveBeenCalledWith('game-2', 'user-1', false);
+      expect(screen.getAllByText('Azul').length).toBeGreaterThan(0);
+    });
+
+    it('adds a game restored elsewhere', async () => {
+      (gamesApi.getById as ReturnType<typeof vi.fn>).mockResolvedValue({
+        game: { ...mockGames[0], id: 'game-4', name: 'Brass' },
+      });
+      render(<HomePage participant={mockParticipant} />);
+
+      await waitFor(() => {
+        expect(screen.getAllByText('Catan').length).toBeGreaterThan(0);
+      });
+
+      const call = mockUseSSE.mock.calls[mockUseSSE.mock.calls.length - 1][0];
+      await act(async () => {
+        call.handlers.onGameRestored({ type: 'game:restored', gameId: 'game-4', gameName: 'Brass', participantId: null });
+      });
+
+      expect(gamesApi.getById).toHaveBeenCalledWith('game-4', 'user-1');
+      expect(screen.getAllByText('Brass').length).toBeGreaterThan(0);
+    });
+
+    it('removes all games of an organizer bulk delete', async () => {
+      render(<HomePage participant={mockParticipant} />);
+
+      await waitFor(() => {
+        expect(screen.getAllByText('Catan').length).toBeGreaterThan(0);
+      });
+
+      const call = mockUseSSE.mock.calls[mockUseSSE.mock.calls.length - 1][0];
+      call.handlers.onGamesDeleted(['game-1', 'game-2']);
+
+      await waitFor(() => {
+        expect(screen.queryAllByText('Catan').length).toBe(0);
+        expect(screen.queryAllByText('Azul').length).toBe(0);
+      });
+    });
+
+    it('switches to the merge target when the current participant was merged', async () => {
+      const onParticipantMerged = vi.fn();
+      render(<HomePage participant={mockParticipant} onParticipantMerged={onParticipantMerged} />);
+
+      await waitFor(() => {
+        expect(screen.getAllByText('Catan').length).toBeGreaterThan(0);
+      });
+
+      const call = mockUseSSE.mock.calls[mockUseSSE.mock.calls.length - 1][0];
+      call.handlers.onParticipantMerged({
+        type: 'participant:merged',
+        sourceParticipantId: mockParticipant.id,
+        targetParticipantId: 'user-9',
+        targetParticipantName: 'Max M.',
+      });
+
+      expect(onParticipantMerged).toHaveBeenCalledWith({ id: 'user-9', name: 'Max M.' });
+    });
+
+    it('merges the changes since the last load when a resync is required', async () => {
+      (gamesApi.getAll as ReturnType<typeof vi.fn>).mockResolvedValue({ games: mockGames, cursor: 'cursor-1' });
+      (gamesApi.getChanges as ReturnType<typeof vi.fn>).mockResolvedValue({
+        games: [{ ...mockGames[1], name: 'Azul: Sommerpavillon' }],
+        deletedGameIds: ['game-1'],
+        cursor: 'cursor-2',
+        full: false,
+      });
+      render(<HomePage participant={mockParticipant} />);
+
+      await waitFor(() => {
+        expect(screen.getAllByText('Catan').length).toBeGreaterThan(0);
+      });
+
+      const call = mockUseSSE.mock.calls[mockUseSSE.mock.calls.length - 1][0];
+      await act(async () => {
+        call.handlers.onResyncRequired();
+      });
+
+      await waitFor(() => {
+        expect(screen.getAllByText('Azul: Sommerpavillon').length).toBeGreaterThan(0);
+      });
+      expect(screen.queryAllByText('Catan').length).toBe(0);
+      expect(gamesApi.getChanges).toHaveBeenCalledWith('cursor-1', 'user-1');
+      expect(gamesApi.getAll).toHaveBeenCalledTimes(1);
+
+      // The next sync continues from the cursor of the delta
+      await act(async () => {
+        call.handlers.onParticipantMerged({
+          type: 'participant:merged',
+          sourceParticipantId: 'user-5',
+          targetParticipantId: 'user-6',
+          targetParticipantName: 'Jonas',
+        });
+      });
+      expect(gamesApi.getChanges).toHaveBeenLastCalledWith('cursor-2', 'user-1');
+    });
+
+    it('patches renamed and deleted participants in place without reloading', async () => {
+      render(<HomePage participant={mockParticipant} />);
+
+      await waitFor(() => {
+        expect(screen.getAllByText('Thorsten').length).toBeGreaterThan(0);
+      });
+
+      const call = mockUseSSE.mock.calls[mockUseSSE.mock.calls.length - 1][0];
+      act(() => {
+        call.handlers.onParticipantRenamed({ type: 'participant:renamed', participantId: 'user-2', participantName: 'Thorsten K.' });
+        call.handlers.onParticipantDeleted({ type: 'participant:deleted', participantId: 'user-3' });
+      });
+
+      await waitFor(() => {
+        expect(screen.getAllByText('Thorsten K.').length).toBeGreaterThan(0);
+        expect(screen.queryAllByText('Daniel').length).toBe(0);
+      });
+      expect(gamesApi.getAll).toHaveBeenCalledTimes(1);
+    });
+
+    it('updates or clears the current participant when it changes elsewhere', async () => {
+      const onParticipantRenamed = vi.fn();
+      const onParticipantDeleted = vi.fn();
+      render(
+        <HomePage
+          participant={mockParticipant}
+          onParticipantRenamed={onParticipantRenamed}
+          onParticipantDeleted={onParticipantDeleted}
+        />
+      );
+
+      await waitFor(() => {
+        expect(screen.getAllByText('Catan').length).toBeGreaterThan(0);
+      });
+
+      const call = mockUseSSE.mock.calls[mockUseSSE.mock.calls.length - 1][0];
+      act(() => {
+        call.handlers.onParticipantRenamed({ type: 'participant:renamed', participantId: 'user-1', participantName: 'Neuer Name' });
+      });
+      expect(onParticipantRenamed).toHaveBeenCalledWith({ id: 'user-1', name: 'Neuer Name' });
+
+      act(() => {
+        call.handlers.onParticipantDeleted({ type: 'participant:deleted', participantId: 'user-1' });
+      });
+      expect(onParticipantDeleted).toHaveBeenCalledTimes(1);
+    });
+
+    it('marks players who are online and follows presence events', async () => {
+      const playedGame: Game = {
+        ...mockGames[0],
+        players: [{ id: 'p1', participant: { id: 'user-4', name: 'Lena' }, addedAt: new Date() }],
+      };
+      (gamesApi.getAll as ReturnType<typeof vi.fn>).mockResolvedValue({ games: [playedGame] });
+      (presenceApi.get as ReturnType<typeof vi.fn>).mockResolvedValue({ participantIds: ['user-4'] });
+
+      render(<HomePage participant={mockParticipant} />);
+
+      await waitFor(() => {
+        expect(screen.getAllByLabelText('Gerade online').length).toBeGreaterThan(0);
+      });
+
+      const call = mockUseSSE.mock.calls[mockUseSSE.mock.calls.length - 1][0];
+      act(() => {
+        call.handlers.onPresenceChanged({ type: 'presence:left', participantId: 'user-4' });
+      });
+
+      await waitFor(() => {
+        expect(screen.queryAllByLabelText('Gerade online')).toHaveLength(0);
+      });
+    });
   });
 });
 
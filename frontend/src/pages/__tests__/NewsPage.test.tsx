@@ -0,0 +1,118 @@
+/**
+ * Unit tests for NewsPage (activity feed)
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
+import { NewsPage } from '../NewsPage';
+import type { ActivityEntry } from '../../types/activity';
+
+vi.mock('../../api/client', () => ({
+  activityApi: {
+    getFeed: vi.fn(),
+  },
+  participantsApi: {
+    getAll: vi.fn(),
+  },
+  ApiError: class ApiError extends Error {},
+}));
+
+const mockUseSSE = vi.fn();
+vi.mock('../../hooks', () => ({
+  useSSE: (options: unknown) => mockUseSSE(options),
+}));
+
+import { activityApi, participantsApi } from '../../api/client';
+
+const mockGetFeed = activityApi.getFeed as ReturnType<typeof vi.fn>;
+
+const entry = (id: string, overrides: Partial<ActivityEntry> = {}): ActivityEntry => ({
+  id,
+  type: 'bringer_added',
+  createdAt: '2026-10-19T18:00:00.000Z',
+  actor: { id: 'user-2', name: 'Anna' },
+  game: { id: 'game-1', name: 'Catan' },
+  message: `Anna bringt Catan mit (${id})`,
+  ...overrides,
+});
+
+const lastSSEHandlers = () => mockUseSSE.mock.calls[mockUseSSE.mock.calls.length - 1][0].handlers;
+
+describe('NewsPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetFeed.mockResolvedValue({ entries: [entry('a-2'), entry('a-1')], nextCursor: null });
+    (participantsApi.getAll as ReturnType<typeof vi.fn>).mockResolvedValue({
+      participants: [{ id: 'user-2', name: 'Anna' }],
+    });
+    mockUseSSE.mockReturnValue({ isConnected: true, connectionError: null });
+  });
+
+  it('shows the newest activities', async () => {
+    render(<NewsPage participant={{ id: 'user-1', name: 'Test User' }} />);
+
+    expect(screen.getByRole('heading', { level: 2 })).toHaveTextContent('Neuigkeiten');
+    await waitFor(() => {
+      expect(screen.getByText('Anna bringt Catan mit (a-2)')).toBeInTheDocument();
+    });
+    expect(mockGetFeed).toHaveBeenCalledWith({ types: undefined, actorId: undefined, since: undefined });
+  });
+
+  it('loads older activities with the cursor of the last page', async () => {
+    mockGetFeed
+      .mockResolvedValueOnce({ entries: [entry('a-2')], nextCursor: 'cursor-1' })
+      .mockResolvedValueOnce({ entries: [entry('a-1')], nextCursor: null });
+
+    render(<NewsPage participant={{ id: 'user-1', name: 'Test User' }} />);
+
+    fireEvent.click(await screen.findByText('Ältere Neuigkeiten laden'));
+
+    await waitFor(() => {
+      expect(screen.getByText('Anna bringt Catan mit (a-1)')).toBeInTheDocument();
+    });
+    expect(mockGetFeed).toHaveBeenLastCalledWith(expect.anything(), 'cursor-1');
+    expect(screen.queryByText('Ältere Neuigkeiten laden')).not.toBeInTheDocument();
+  });
+
+  it('reloads with the selected filters', async () => {
+    render(<NewsPage participant={{ id: 'user-1', name: 'Test User' }} />);
+    await screen.findByText('Anna bringt Catan mit (a-2)');
+
+    fireEvent.change(screen.getByLabelText('Art'), { target: { value: 'players' } });
+
+    await waitFor(() => {
+      expect(mockGetFeed).toHaveBeenLastCalledWith(
+        expect.objectContaining({ types: ['player_added', 'player_removed'] })
+      );
+    });
+  });
+
+  it('puts live activities on top when they match the filters', async () => {
+    render(<NewsPage participant={{ id: 'user-1', name: 'Test User' }} />);
+    await screen.findByText('Anna bringt Catan mit (a-2)');
+
+    fireEvent.change(screen.getByLabelText('Art'), { target: { value: 'bringers' } });
+    await waitFor(() => expect(mockGetFeed).toHaveBeenCalledTimes(2));
+    await screen.findByText('Anna bringt Catan mit (a-2)');
+
+    act(() => {
+      lastSSEHandlers().onActivityCreated({ type: 'activity:created', entry: entry('a-3') });
+      lastSSEHandlers().onActivityCreated({
+        type: 'activity:created',
+        entry: entry('a-4', { type: 'player_added', message: 'Anna spielt Catan mit' }),
+      });
+    });
+
+    const items = screen.getAllByRole('listitem');
+    expect(items[0]).toHaveTextContent('Anna bringt Catan mit (a-3)');
+    expect(screen.queryByText('Anna spielt Catan mit')).not.toBeInTheDocument();
+  });
+
+  it('shows an empty state', async () => {
+    mockGetFeed.mockResolvedValue({ entries: [], nextCursor: null });
+
+    render(<NewsPage participant={{ id: 'user-1', name: 'Test User' }} />);
+
+    expect(await screen.findByText('Noch keine Neuigkeiten.')).toBeInTheDocument();
+  });
+});
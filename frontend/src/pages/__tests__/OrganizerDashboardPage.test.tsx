@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor, within, fireEvent } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { OrganizerDashboardPage } from '../OrganizerDashboardPage';
+
+const mockGetDashboard = vi.fn();
+vi.mock('../../api/client', async () => {
+  const actual = await vi.importActual('../../api/client');
+  return {
+    ...actual,
+    organizerEventsApi: {
+      getDashboard: (includeArchived?: boolean) => mockGetDashboard(includeArchived),
+    },
+  };
+});
+
+const entry = {
+  event: {
+    id: 'event-1',
+    name: 'Sommer-Spieletreff',
+    slug: 'sommer',
+    startsAt: '2026-07-04T10:00:00.000Z',
+    endsAt: '2026-07-05T18:00:00.000Z',
+    location: 'Bürgerhaus',
+    capacity: 40,
+    notes: null,
+    fees: null,
+    status: 'open',
+    isDefault: false,
+    ownerAccountId: 'owner-1',
+    activityRetentionDays: null,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  },
+  statistics: {
+    eventId: 'event-1',
+    participantCount: 12,
+    totalGames: 9,
+    availableGames: 6,
+    requestedGames: 3,
+    lastActivityAt: null,
+  },
+};
+
+function renderPage() {
+  return render(
+    <MemoryRouter>
+      <OrganizerDashboardPage />
+    </MemoryRouter>
+  );
+}
+
+/**
+ * Unit tests for the organizer dashboard
+ */
+describe('OrganizerDashboardPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('renders a card with KPIs and links for each event', async () => {
+    mockGetDashboard.mockResolvedValue({ events: [entry] });
+
+    renderPage();
+
+    const card = await screen.findByTestId('event-card-event-1');
+    expect(within(card).getByText('Bürgerhaus')).toBeInTheDocument();
+    expect(within(card).getByTestId('capacity-usage')).toHaveTextContent('12 / 40');
+    expect(within(card).getByText('9')).toBeInTheDocument();
+    expect(within(card).getByText('Noch keine', { exact: false })).toBeInTheDocument();
+    expect(within(card).getByRole('link', { name: 'Spieleliste' })).toHaveAttribute('href', '/e/sommer');
+    expect(within(card).getByRole('link', { name: 'Einstellungen' })).toHaveAttribute('href', '/organizer/events/event-1');
+    expect(within(card).getByRole('link', { name: 'Druckansicht' })).toHaveAttribute('href', '/e/sommer/print');
+    expect(within(card).getByTestId('event-status')).toHaveTextContent('Offen');
+  });
+
+  it('hides archived events unless requested', async () => {
+    mockGetDashboard.mockResolvedValue({ events: [entry] });
+
+    renderPage();
+
+    await screen.findByTestId('event-card-event-1');
+    expect(mockGetDashboard).toHaveBeenCalledWith(false);
+
+    fireEvent.click(screen.getByLabelText('Archivierte anzeigen'));
+
+    await waitFor(() => {
+      expect(mockGetDashboard).toHaveBeenCalledWith(true);
+    });
+  });
+
+  it('shows an empty state without events', async () => {
+    mockGetDashboard.mockResolvedValue({ events: [] });
+
+    renderPage();
+
+    await waitFor(() => {
+      expect(screen.getByText('Du hast noch keine Events.')).toBeInTheDocument();
+    });
+  });
+});
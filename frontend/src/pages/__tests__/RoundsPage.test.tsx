@@ -0,0 +1,192 @@
+/**
+ * Unit tests for RoundsPage (play sessions)
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
+import { RoundsPage } from '../RoundsPage';
+import type { Game } from '../../types';
+import type { PlaySession } from '../../types/playSession';
+
+vi.mock('../../api/client', () => ({
+  playSessionsApi: {
+    getUpcoming: vi.fn(),
+    create: vi.fn(),
+    join: vi.fn(),
+    leave: vi.fn(),
+  },
+  gamesApi: {
+    getAll: vi.fn(),
+  },
+  ApiError: class ApiError extends Error {
+    code: string;
+    constructor(message: string, code: string) {
+      super(message);
+      this.code = code;
+    }
+  },
+}));
+
+const mockUseSSE = vi.fn();
+vi.mock('../../hooks', () => ({
+  useSSE: (options: unknown) => mockUseSSE(options),
+}));
+
+const mockShowToast = vi.fn();
+vi.mock('../../components/ToastProvider', () => ({
+  useToast: () => ({ showToast: mockShowToast }),
+}));
+
+import { playSessionsApi, gamesApi, ApiError } from '../../api/client';
+
+const session = (id: string, overrides: Partial<PlaySession> = {}): PlaySession => ({
+  id,
+  game: { id: 'game-1', name: 'Catan', bggId: 13 },
+  startsAt: '2026-10-20T18:00:00.000Z',
+  tableLabel: 'Tisch 3',
+  seatLimit: 4,
+  openSeats: 3,
+  createdBy: { id: 'user-2', name: 'Anna' },
+  participants: [{ id: 'user-2', name: 'Anna' }],
+  createdAt: '2026-10-19T18:00:00.000Z',
+  ...overrides,
+});
+
+const game = (overrides: Partial<Game> = {}): Game => ({
+  id: 'game-1',
+  name: 'Catan',
+  owner: null,
+  bggId: 13,
+  yearPublished: 1995,
+  bggRating: null,
+  addedAsAlternateName: null,
+  alternateNames: [],
+  isPrototype: false,
+  isHidden: false,
+  isFollowed: false,
+  players: [],
+  bringers: [],
+  status: 'wunsch',
+  createdAt: new Date(),
+  minPlayers: 3,
+  maxPlayers: 4,
+  playingTime: 90,
+  weight: 2.3,
+  ...overrides,
+});
+
+const participant = { id: 'user-1', name: 'Test User' };
+
+const lastSSEHandlers = () => mockUseSSE.mock.calls[mockUseSSE.mock.calls.length - 1][0].handlers;
+
+describe('RoundsPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(playSessionsApi.getUpcoming).mockResolvedValue({ sessions: [session('s-1')] });
+    vi.mocked(gamesApi.getAll).mockResolvedValue({ games: [game()] } as Awaited<ReturnType<typeof gamesApi.getAll>>);
+    mockUseSSE.mockReturnValue({ isConnected: true, connectionError: null });
+  });
+
+  it('lists upcoming sessions with their open seats', async () => {
+    render(<RoundsPage participant={participant} />);
+
+    expect(screen.getByRole('heading', { level: 2 })).toHaveTextContent('Runden');
+    expect(await screen.findByText('3 von 4 Plätzen frei')).toBeInTheDocument();
+    expect(screen.getByText('Tisch 3')).toBeInTheDocument();
+  });
+
+  it('joins a session', async () => {
+    vi.mocked(playSessionsApi.join).mockResolvedValue({
+      session: session('s-1', {
+        openSeats: 2,
+        participants: [{ id: 'user-2', name: 'Anna' }, { id: 'user-1', name: 'Test User' }],
+      }),
+    });
+
+    render(<RoundsPage participant={participant} />);
+    fireEvent.click(await screen.findByRole('button', { name: 'Catan mitspielen' }));
+
+    expect(await screen.findByRole('button', { name: 'Catan verlassen' })).toBeInTheDocument();
+    expect(playSessionsApi.join).toHaveBeenCalledWith('s-1', 'user-1');
+    expect(screen.getByText('2 von 4 Plätzen frei')).toBeInTheDocument();
+  });
+
+  it('cannot join full sessions', async () => {
+    vi.mocked(playSessionsApi.getUpcoming).mockResolvedValue({
+      sessions: [session('s-1', { seatLimit: 1, openSeats: 0 })],
+    });
+
+    render(<RoundsPage participant={participant} />);
+
+    expect(await screen.findByText('Voll')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Catan mitspielen' })).toBeDisabled();
+  });
+
+  it('removes the session when the last participant leaves', async () => {
+    vi.mocked(playSessionsApi.getUpcoming).mockResolvedValue({
+      sessions: [session('s-1', { participants: [{ id: 'user-1', name: 'Test User' }] })],
+    });
+    vi.mocked(playSessionsApi.leave).mockResolvedValue({ session: null });
+
+    render(<RoundsPage participant={participant} />);
+    fireEvent.click(await screen.findByRole('button', { name: 'Catan verlassen' }));
+
+    expect(await screen.findByText('Noch keine Runden geplant.')).toBeInTheDocument();
+    expect(playSessionsApi.leave).toHaveBeenCalledWith('s-1', 'user-1');
+  });
+
+  it('creates a session for a game without explicit seat limit', async () => {
+    vi.mocked(gamesApi.getAll).mockResolvedValue({
+      games: [game({ players: [{ id: 'p-1', participant: { id: 'user-3', name: 'Ben' }, addedAt: new Date() }] })],
+    } as Awaited<ReturnType<typeof gamesApi.getAll>>);
+    vi.mocked(playSessionsApi.create).mockResolvedValue({
+      session: session('s-2', { startsAt: '2026-10-21T18:00:00.000Z' }),
+    });
+
+    render(<RoundsPage participant={participant} />);
+    await screen.findByRole('option', { name: 'Catan' });
+
+    fireEvent.change(screen.getByLabelText('Spiel'), { target: { value: 'game-1' } });
+    expect(screen.getByTestId('interested-players')).toHaveTextContent('Interessiert: Ben');
+    expect(screen.getByLabelText('Plätze')).toHaveAttribute('placeholder', 'max. 4');
+
+    fireEvent.change(screen.getByLabelText('Startzeit'), { target: { value: '2026-10-21T20:00' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Runde anlegen' }));
+
+    await waitFor(() => {
+      expect(playSessionsApi.create).toHaveBeenCalledWith('user-1', {
+        gameId: 'game-1',
+        startsAt: new Date('2026-10-21T20:00').toISOString(),
+      });
+    });
+    expect(await screen.findAllByRole('button', { name: 'Catan mitspielen' })).toHaveLength(2);
+  });
+
+  it('shows the error of the server when creating fails', async () => {
+    vi.mocked(playSessionsApi.create).mockRejectedValue(
+      new ApiError('Die Runde muss in der Zukunft liegen.', 'VALIDATION_ERROR')
+    );
+
+    render(<RoundsPage participant={participant} />);
+    await screen.findByRole('option', { name: 'Catan' });
+
+    fireEvent.change(screen.getByLabelText('Spiel'), { target: { value: 'game-1' } });
+    fireEvent.change(screen.getByLabelText('Startzeit'), { target: { value: '2020-01-01T20:00' } });
+    fireEvent.change(screen.getByLabelText('Plätze'), { target: { value: '3' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Runde anlegen' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Die Runde muss in der Zukunft liegen.');
+    expect(playSessionsApi.create).toHaveBeenCalledWith('user-1', expect.objectContaining({ seatLimit: 3 }));
+  });
+
+  it('applies live play-session events', async () => {
+    render(<RoundsPage participant={participant} />);
+    await screen.findByText('3 von 4 Plätzen frei');
+
+    act(() => {
+      lastSSEHandlers().onPlaySessionChanged({ type: 'play-session:deleted', sessionId: 's-1' });
+    });
+
+    expect(screen.getByText('Noch keine Runden geplant.')).toBeInTheDocument();
+  });
+});
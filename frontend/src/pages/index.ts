@@ -5,6 +5,11 @@
 export { HomePage } from './HomePage';
 export { PrintPage } from './PrintPage';
 export { StatisticsPage } from './StatisticsPage';
+export { NewsPage } from './NewsPage';
+export { RoundsPage } from './RoundsPage';
 export { LoginPage } from './LoginPage';
 export { RegisterPage } from './RegisterPage';
 export { ProfilePage } from './ProfilePage';
+export { OrganizerDashboardPage } from './OrganizerDashboardPage';
+export { EventSettingsPage } from './EventSettingsPage';
+export { AcceptInvitePage } from './AcceptInvitePage';
@@ -0,0 +1,39 @@
+/**
+ * Activity feed types (GET /api/activity)
+ */
+
+export type ActivityType =
+  | 'game_created'
+  | 'player_added'
+  | 'player_removed'
+  | 'bringer_added'
+  | 'bringer_removed'
+  | 'game_deleted'
+  | 'game_restored'
+  | 'prototype_toggled'
+  | 'user_created';
+
+export interface ActivityEntry {
+  id: string;
+  type: ActivityType;
+  createdAt: string;
+  actor: { id: string; name: string };
+  /** id is null once the game has been deleted */
+  game: { id: string | null; name: string } | null;
+  /** Ready-made German sentence, e.g. "Anna bringt Catan mit" */
+  message: string;
+}
+
+export interface ActivityFeedResponse {
+  entries: ActivityEntry[];
+  nextCursor: string | null;
+}
+
+export interface ActivityFeedFilters {
+  types?: ActivityType[];
+  actorId?: string;
+  gameId?: string;
+  /** ISO timestamps */
+  since?: string;
+  until?: string;
+}
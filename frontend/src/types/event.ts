@@ -0,0 +1,179 @@
+// Lifecycle of an event: draft is not joinable yet, locked and archived are read-only
+export type EventStatus = 'draft' | 'open' | 'locked' | 'archived';
+
+// Organizer roles per event: co-organizers manage the event, viewers can only look
+export type EventRole = 'owner' | 'co_organizer' | 'viewer';
+
+export interface OrganizerEvent {
+  id: string;
+  name: string;
+  slug: string;
+  startsAt: string | null;
+  endsAt: string | null;
+  location: string | null;
+  capacity: number | null;
+  notes: string | null;
+  fees: string | null;
+  status: EventStatus;
+  isDefault: boolean;
+  ownerAccountId: string;
+  // Days activity stays in the database before it is archived; null keeps it
+  activityRetentionDays: number | null;
+  createdAt: string;
+  updatedAt: string;
+  // Role of the logged-in account for this event
+  role?: EventRole;
+}
+
+export interface EventSummaryStatistics {
+  eventId: string;
+  participantCount: number;
+  totalGames: number;
+  availableGames: number;
+  requestedGames: number;
+  lastActivityAt: string | null;
+}
+
+export interface OrganizerDashboardEntry {
+  event: OrganizerEvent;
+  statistics: EventSummaryStatistics;
+}
+
+export interface OrganizerDashboardResponse {
+  events: OrganizerDashboardEntry[];
+}
+
+export interface OrganizerEventResponse {
+  event: OrganizerEvent;
+}
+
+export interface EventMember {
+  accountId: string;
+  email: string;
+  role: EventRole;
+  createdAt: string;
+}
+
+export interface EventInvite {
+  id: string;
+  email: string;
+  role: EventRole;
+  token: string;
+  expiresAt: string;
+  createdAt: string;
+}
+
+export interface EventTeamResponse {
+  members: EventMember[];
+  invites: EventInvite[];
+}
+
+export interface CreateInviteRequest {
+  email: string;
+  role: EventRole;
+}
+
+export interface InvitePreview {
+  eventId: string;
+  eventName: string;
+  email: string;
+  role: EventRole;
+  expiresAt: string;
+}
+
+export interface AcceptInviteResponse {
+  eventId: string;
+  role: EventRole;
+}
+
+export interface ModerationParticipant {
+  id: string;
+  name: string;
+  ownedGameCount: number;
+  playingCount: number;
+  bringingCount: number;
+  createdAt: string;
+}
+
+export interface ModerationGame {
+  id: string;
+  name: string;
+  ownerId: string | null;
+  ownerName: string | null;
+  playerCount: number;
+  bringerCount: number;
+  status: 'wunsch' | 'verfuegbar';
+  createdAt: string;
+}
+
+// Deleted game in the organizer trash view; purgeAt is when it is deleted for good
+export interface TrashedGame {
+  id: string;
+  name: string;
+  ownerName: string | null;
+  deletedByName: string | null;
+  playerCount: number;
+  bringerCount: number;
+  deletedAt: string;
+  purgeAt: string;
+}
+
+export type ActivityExportFormat = 'csv' | 'ndjson';
+
+// Bounds are inclusive dates (YYYY-MM-DD); without bounds the whole log is exported
+export interface ActivityExportRequest {
+  from?: string;
+  to?: string;
+  format: ActivityExportFormat;
+}
+
+export interface ActivityExportDownload {
+  blob: Blob;
+  filename: string;
+}
+
+export interface ModerationOverviewResponse {
+  participants: ModerationParticipant[];
+  games: ModerationGame[];
+}
+
+// Two games that are likely the same: linked to the same BGG entry (bggId)
+// or with matching names
+export interface DuplicateGameCandidate {
+  reason: 'bggId' | 'name';
+  score: number;
+  games: [ModerationGame, ModerationGame];
+}
+
+// ownerId null removes the owner of the game
+export interface ModerateGameRequest {
+  name?: string;
+  ownerId?: string | null;
+}
+
+export interface DeleteStaleGamesResponse {
+  deletedCount: number;
+  gameIds: string[];
+}
+
+// Which games a cloned event takes over
+export type CloneGameSelection = 'none' | 'available' | 'requested';
+
+export interface CloneEventRequest {
+  name?: string;
+  includeParticipants?: boolean;
+  games?: CloneGameSelection;
+}
+
+export interface UpdateEventRequest {
+  name?: string;
+  slug?: string;
+  startsAt?: string | null;
+  endsAt?: string | null;
+  location?: string | null;
+  capacity?: number | null;
+  notes?: string | null;
+  fees?: string | null;
+  status?: EventStatus;
+  activityRetentionDays?: number | null;
+}
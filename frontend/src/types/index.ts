@@ -10,13 +10,27 @@ export * from './sse';
 export interface Participant {
   id: string;
   name: string;
+  /** 1-based position on the waitlist; only present while waitlisted */
+  waitlistPosition?: number;
 }
 
+// Capacity overview of the event's participant list (null = no limit)
+export interface ParticipantCapacity {
+  capacity: number | null;
+  confirmed: number;
+  remainingSpots: number | null;
+  waitlisted: number;
+}
+
+// How much a player wants to play a game
+export type InterestLevel = 'must_play' | 'gern' | 'vielleicht';
+
 // Player who wants to play a game
 export interface Player {
   id: string;
   participant: Participant;
   addedAt: Date;
+  interestLevel: InterestLevel;
 }
 
 // Bringer who will bring a game to the event
@@ -40,7 +54,16 @@ export interface Game {
   addedAsAlternateName: string | null;
   alternateNames: string[];
   isPrototype: boolean;
+  // Player count, play time and weight from the BGG entry (null until it is enriched)
+  minPlayers: number | null;
+  maxPlayers: number | null;
+  bestPlayerCounts: number[];
+  recommendedPlayerCounts: number[];
+  minPlayTime: number | null;
+  maxPlayTime: number | null;
+  weight: number | null;
   isHidden: boolean;
+  isFollowed: boolean;
   players: Player[];
   bringers: Bringer[];
   status: GameStatus;
@@ -62,6 +85,9 @@ export interface PopularGame {
   id: string;
   name: string;
   playerCount: number;
+  // Players weighted by interest level; the ranking is sorted by this
+  interestScore: number;
+  interestCounts: Record<InterestLevel, number>;
 }
 
 export interface ReleaseYearCount {
@@ -82,9 +108,20 @@ export interface StatisticsTimelineData {
   points: StatisticsTimelinePoint[];
 }
 
+// Public event info resolved from a join link (/e/:slug)
+export interface PublicEvent {
+  id: string;
+  name: string;
+  slug: string;
+  startsAt: string | null;
+  endsAt: string | null;
+  location: string | null;
+}
+
 // API request/response types
 export interface AuthVerifyRequest {
   password: string;
+  eventId?: string;
 }
 
 export interface AuthVerifyResponse {
@@ -106,8 +143,16 @@ export interface CreateGameRequest {
   alternateNames?: string[];
 }
 
+export interface UpdateGameRequest {
+  name?: string;
+  // null removes the BGG link
+  bggId?: number | null;
+}
+
 export interface AddPlayerRequest {
   participantId: string;
+  // Changes the interest level if the participant already plays the game
+  interestLevel?: InterestLevel;
 }
 
 export interface AddBringerRequest {
@@ -124,6 +169,16 @@ export interface UpdateParticipantRequest {
 
 export interface GamesResponse {
   games: Game[];
+  // Pass to gamesApi.getChanges to load only what changed afterwards
+  cursor: string;
+}
+
+export interface GameChangesResponse {
+  games: Game[];
+  deletedGameIds: string[];
+  cursor: string;
+  // true if the cursor was too old for a delta; games is then the full list
+  full: boolean;
 }
 
 export interface GameResponse {
@@ -132,12 +187,22 @@ export interface GameResponse {
 
 export interface ParticipantsResponse {
   participants: Participant[];
+  capacity?: ParticipantCapacity;
+}
+
+export interface PublicEventResponse {
+  event: PublicEvent;
 }
 
 export interface ParticipantResponse {
   participant: Participant;
 }
 
+// Participants that currently have the list open
+export interface PresenceResponse {
+  participantIds: string[];
+}
+
 // Error response from API
 export interface ErrorResponse {
   error: {
@@ -0,0 +1,27 @@
+/**
+ * Notification inbox types (GET /api/notifications)
+ */
+
+export type NotificationType = 'bringer_added' | 'game_deleted';
+
+export interface NotificationEntry {
+  id: string;
+  type: NotificationType;
+  createdAt: string;
+  readAt: string | null;
+  /** null when an organizer acted */
+  actor: { id: string; name: string } | null;
+  /** id is null once the game has been deleted for good */
+  game: { id: string | null; name: string };
+  /** Ready-made German sentence, e.g. "Anna bringt Catan mit" */
+  message: string;
+}
+
+export interface NotificationsResponse {
+  notifications: NotificationEntry[];
+  unreadCount: number;
+}
+
+export interface NotificationResponse {
+  notification: NotificationEntry;
+}
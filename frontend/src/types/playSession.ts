@@ -0,0 +1,41 @@
+/**
+ * Play session types (GET /api/play-sessions)
+ */
+
+/** A table group meeting to play a game at a time slot ("Runde") */
+export interface PlaySession {
+  id: string;
+  game: { id: string; name: string; bggId: number | null };
+  startsAt: string;
+  tableLabel: string | null;
+  /** null means no limit */
+  seatLimit: number | null;
+  /** null without seat limit */
+  openSeats: number | null;
+  /** null when the participant is gone */
+  createdBy: { id: string; name: string } | null;
+  /** In the order they joined */
+  participants: { id: string; name: string }[];
+  createdAt: string;
+}
+
+export interface CreatePlaySessionRequest {
+  gameId: string;
+  startsAt: string;
+  tableLabel?: string;
+  /** Defaults to the max player count of the game, if known */
+  seatLimit?: number;
+}
+
+export interface PlaySessionsResponse {
+  sessions: PlaySession[];
+}
+
+export interface PlaySessionResponse {
+  session: PlaySession;
+}
+
+/** session is null once the last participant left */
+export interface LeavePlaySessionResponse {
+  session: PlaySession | null;
+}
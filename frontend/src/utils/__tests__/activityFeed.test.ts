@@ -0,0 +1,68 @@
+/**
+ * Unit tests for the activity feed helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getActivitySince, matchesActivityFilters, prependActivity } from '../activityFeed';
+import type { ActivityEntry } from '../../types/activity';
+
+const entry = (id: string, overrides: Partial<ActivityEntry> = {}): ActivityEntry => ({
+  id,
+  type: 'player_added',
+  createdAt: '2026-10-19T18:00:00.000Z',
+  actor: { id: 'user-1', name: 'Anna' },
+  game: { id: 'game-1', name: 'Catan' },
+  message: 'Anna spielt Catan mit',
+  ...overrides,
+});
+
+describe('activityFeed', () => {
+  describe('getActivitySince', () => {
+    const now = new Date(2026, 9, 19, 15, 30);
+
+    it('has no start for the whole time range', () => {
+      expect(getActivitySince('all', now)).toBeUndefined();
+    });
+
+    it('starts yesterday at local midnight', () => {
+      expect(getActivitySince('yesterday', now)).toBe(new Date(2026, 9, 18, 0, 0).toISOString());
+    });
+
+    it('goes back one hour or seven days', () => {
+      expect(getActivitySince('hour', now)).toBe(new Date(2026, 9, 19, 14, 30).toISOString());
+      expect(getActivitySince('week', now)).toBe(new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000).toISOString());
+    });
+  });
+
+  describe('matchesActivityFilters', () => {
+    it('accepts everything without filters', () => {
+      expect(matchesActivityFilters(entry('a'), {})).toBe(true);
+    });
+
+    it('checks type, actor, game and time range', () => {
+      const activity = entry('a');
+
+      expect(matchesActivityFilters(activity, { types: ['bringer_added'] })).toBe(false);
+      expect(matchesActivityFilters(activity, { actorId: 'user-2' })).toBe(false);
+      expect(matchesActivityFilters(activity, { gameId: 'game-2' })).toBe(false);
+      expect(matchesActivityFilters(activity, { since: '2026-10-19T19:00:00.000Z' })).toBe(false);
+      expect(
+        matchesActivityFilters(activity, {
+          types: ['player_added'],
+          actorId: 'user-1',
+          gameId: 'game-1',
+          since: '2026-10-19T00:00:00.000Z',
+        })
+      ).toBe(true);
+    });
+  });
+
+  describe('prependActivity', () => {
+    it('puts new entries on top and ignores known ones', () => {
+      const entries = [entry('a')];
+
+      expect(prependActivity(entries, entry('b')).map((e) => e.id)).toEqual(['b', 'a']);
+      expect(prependActivity(entries, entry('a'))).toBe(entries);
+    });
+  });
+});
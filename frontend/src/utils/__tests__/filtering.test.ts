@@ -16,6 +16,8 @@ import {
   filterMyGames,
   filterPlayerGames,
   filterPrototypeGames,
+  filterByPlayerCount,
+  filterByDuration,
   applyAllFilters,
   hasActiveFilters,
   DEFAULT_FILTER_STATE,
@@ -288,6 +290,48 @@ describe('filterPrototypeGames', () => {
   });
 });
 
+describe('filterByPlayerCount', () => {
+  const withPlayData = (game: Game, playData: Partial<Game>): Game => ({ ...game, ...playData });
+  const games: Game[] = [
+    withPlayData(createGame('1', 'Catan'), { minPlayers: 3, maxPlayers: 4 }),
+    withPlayData(createGame('2', 'Codenames'), { minPlayers: 2, maxPlayers: 8 }),
+    withPlayData(createGame('3', 'Patchwork'), { minPlayers: 2, maxPlayers: 2 }),
+    withPlayData(createGame('4', 'Eigenbau'), { minPlayers: null, maxPlayers: null }),
+  ];
+
+  it('returns all games when the filter is off', () => {
+    expect(filterByPlayerCount(games, null)).toEqual(games);
+  });
+
+  it('returns only games that seat the player count', () => {
+    expect(filterByPlayerCount(games, 5).map((g) => g.name)).toEqual(['Codenames']);
+    expect(filterByPlayerCount(games, 2).map((g) => g.name)).toEqual(['Codenames', 'Patchwork']);
+  });
+
+  it('leaves out games without player count', () => {
+    expect(filterByPlayerCount(games, 4).map((g) => g.name)).not.toContain('Eigenbau');
+  });
+});
+
+describe('filterByDuration', () => {
+  const withPlayData = (game: Game, playData: Partial<Game>): Game => ({ ...game, ...playData });
+  const games: Game[] = [
+    withPlayData(createGame('1', 'Catan'), { minPlayTime: 60, maxPlayTime: 120 }),
+    withPlayData(createGame('2', 'Codenames'), { minPlayTime: 15, maxPlayTime: 15 }),
+    withPlayData(createGame('3', 'Azul'), { minPlayTime: 45, maxPlayTime: null }),
+    withPlayData(createGame('4', 'Eigenbau'), { minPlayTime: null, maxPlayTime: null }),
+  ];
+
+  it('returns all games when the filter is off', () => {
+    expect(filterByDuration(games, null)).toEqual(games);
+  });
+
+  it('compares the upper end of the play time', () => {
+    expect(filterByDuration(games, 60).map((g) => g.name)).toEqual(['Codenames', 'Azul']);
+    expect(filterByDuration(games, 120).map((g) => g.name)).toEqual(['Catan', 'Codenames', 'Azul']);
+  });
+});
+
 describe('applyAllFilters', () => {
   const games: Game[] = [
     createGame('1', 'Catan', ['Alice', 'Bob'], ['Charlie']),
@@ -381,6 +425,11 @@ describe('hasActiveFilters', () => {
     expect(hasActiveFilters({ ...DEFAULT_FILTER_STATE, prototypeFilter: 'exclude' })).toBe(true);
   });
 
+  it('returns true when a player count or play time is set', () => {
+    expect(hasActiveFilters({ ...DEFAULT_FILTER_STATE, playerCount: 5 })).toBe(true);
+    expect(hasActiveFilters({ ...DEFAULT_FILTER_STATE, maxDuration: 60 })).toBe(true);
+  });
+
   it('returns false for whitespace-only queries', () => {
     expect(hasActiveFilters({ ...DEFAULT_FILTER_STATE, nameQuery: '   ' })).toBe(false);
   });
@@ -396,5 +445,7 @@ describe('DEFAULT_FILTER_STATE', () => {
     expect(DEFAULT_FILTER_STATE.playerOnly).toBe(false);
     expect(DEFAULT_FILTER_STATE.hiddenOnly).toBe(false);
     expect(DEFAULT_FILTER_STATE.prototypeFilter).toBe('all');
+    expect(DEFAULT_FILTER_STATE.playerCount).toBeNull();
+    expect(DEFAULT_FILTER_STATE.maxDuration).toBeNull();
   });
 });
@@ -0,0 +1,75 @@
+/**
+ * Unit tests for merging delta syncs into the game list
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mergeGameChanges } from '../gameSync';
+import type { Game, GameChangesResponse } from '../../types';
+
+const createGame = (id: string, overrides: Partial<Game> = {}): Game => ({
+  id,
+  name: `Game ${id}`,
+  owner: null,
+  bggId: null,
+  yearPublished: null,
+  bggRating: null,
+  addedAsAlternateName: null,
+  alternateNames: [],
+  isPrototype: false,
+  isHidden: false,
+  isFollowed: false,
+  players: [],
+  bringers: [],
+  status: 'wunsch',
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  ...overrides,
+});
+
+const delta = (overrides: Partial<GameChangesResponse> = {}): GameChangesResponse => ({
+  games: [],
+  deletedGameIds: [],
+  cursor: 'cursor-2',
+  full: false,
+  ...overrides,
+});
+
+describe('mergeGameChanges', () => {
+  it('replaces changed games in place and keeps the others untouched', () => {
+    const games = [createGame('g1'), createGame('g2'), createGame('g3')];
+    const changed = createGame('g2', { name: 'Umbenannt' });
+
+    const merged = mergeGameChanges(games, delta({ games: [changed] }));
+
+    expect(merged.map((game) => game.name)).toEqual(['Game g1', 'Umbenannt', 'Game g3']);
+    expect(merged[0]).toBe(games[0]);
+    expect(merged[2]).toBe(games[2]);
+  });
+
+  it('appends new games and drops deleted ones', () => {
+    const games = [createGame('g1'), createGame('g2')];
+
+    const merged = mergeGameChanges(games, delta({ games: [createGame('g3')], deletedGameIds: ['g1', 'g-unknown'] }));
+
+    expect(merged.map((game) => game.id)).toEqual(['g2', 'g3']);
+  });
+
+  it('drops a game that is both changed and deleted', () => {
+    const merged = mergeGameChanges([createGame('g1')], delta({ games: [createGame('g1')], deletedGameIds: ['g1'] }));
+
+    expect(merged).toEqual([]);
+  });
+
+  it('returns the same list without changes', () => {
+    const games = [createGame('g1')];
+
+    expect(mergeGameChanges(games, delta())).toEqual(games);
+  });
+
+  it('replaces the whole list with a full response', () => {
+    const full = [createGame('g5')];
+
+    const merged = mergeGameChanges([createGame('g1'), createGame('g2')], delta({ games: full, full: true }));
+
+    expect(merged).toBe(full);
+  });
+});
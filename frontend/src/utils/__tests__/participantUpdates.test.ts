@@ -0,0 +1,92 @@
+/**
+ * Unit tests for patching the game list after participant changes
+ */
+
+import { describe, it, expect } from 'vitest';
+import { renameParticipantInGames, removeParticipantFromGames } from '../participantUpdates';
+import type { Game, Participant } from '../../types';
+
+const anna: Participant = { id: 'p-anna', name: 'Anna' };
+const ben: Participant = { id: 'p-ben', name: 'Ben' };
+
+const createGame = (id: string, overrides: Partial<Game> = {}): Game => ({
+  id,
+  name: `Game ${id}`,
+  owner: null,
+  bggId: null,
+  yearPublished: null,
+  bggRating: null,
+  addedAsAlternateName: null,
+  alternateNames: [],
+  isPrototype: false,
+  isHidden: false,
+  players: [],
+  bringers: [],
+  status: 'wunsch',
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  ...overrides,
+});
+
+const entry = (participant: Participant) => ({
+  id: `entry-${participant.id}`,
+  participant,
+  addedAt: new Date('2024-01-01T00:00:00Z'),
+});
+
+describe('participantUpdates', () => {
+  describe('renameParticipantInGames', () => {
+    it('renames the participant as owner, player and bringer', () => {
+      const games = [
+        createGame('g1', {
+          owner: anna,
+          players: [entry(anna), entry(ben)],
+          bringers: [entry(anna)],
+          status: 'verfuegbar',
+        }),
+      ];
+
+      const [game] = renameParticipantInGames(games, anna.id, 'Annika');
+
+      expect(game.owner).toEqual({ id: anna.id, name: 'Annika' });
+      expect(game.players.map((player) => player.participant.name)).toEqual(['Annika', 'Ben']);
+      expect(game.bringers[0].participant.name).toBe('Annika');
+    });
+
+    it('keeps games without the participant untouched', () => {
+      const untouched = createGame('g2', { owner: ben, players: [entry(ben)] });
+
+      const [game] = renameParticipantInGames([untouched], anna.id, 'Annika');
+
+      expect(game).toBe(untouched);
+    });
+  });
+
+  describe('removeParticipantFromGames', () => {
+    it('removes player and bringer entries and clears ownership', () => {
+      const games = [
+        createGame('g1', {
+          owner: anna,
+          players: [entry(anna), entry(ben)],
+          bringers: [entry(anna)],
+          status: 'verfuegbar',
+        }),
+      ];
+
+      const [game] = removeParticipantFromGames(games, anna.id);
+
+      expect(game.owner).toBeNull();
+      expect(game.players.map((player) => player.participant.id)).toEqual([ben.id]);
+      expect(game.bringers).toEqual([]);
+      expect(game.status).toBe('wunsch');
+    });
+
+    it('keeps the status while other bringers remain', () => {
+      const games = [createGame('g1', { owner: ben, bringers: [entry(anna), entry(ben)], status: 'verfuegbar' })];
+
+      const [game] = removeParticipantFromGames(games, anna.id);
+
+      expect(game.owner).toEqual(ben);
+      expect(game.status).toBe('verfuegbar');
+    });
+  });
+});
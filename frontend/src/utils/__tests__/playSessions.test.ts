@@ -0,0 +1,76 @@
+/**
+ * Unit tests for the play session helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyPlaySessionEvent, isSeated } from '../playSessions';
+import type { PlaySession } from '../../types/playSession';
+
+const session = (id: string, overrides: Partial<PlaySession> = {}): PlaySession => ({
+  id,
+  game: { id: 'game-1', name: 'Catan', bggId: 13 },
+  startsAt: '2026-10-20T18:00:00.000Z',
+  tableLabel: null,
+  seatLimit: 4,
+  openSeats: 3,
+  createdBy: { id: 'user-1', name: 'Anna' },
+  participants: [{ id: 'user-1', name: 'Anna' }],
+  createdAt: '2026-10-19T18:00:00.000Z',
+  ...overrides,
+});
+
+describe('playSessions', () => {
+  describe('applyPlaySessionEvent', () => {
+    it('adds created sessions in the order of their start time', () => {
+      const sessions = [
+        session('s-1', { startsAt: '2026-10-20T16:00:00.000Z' }),
+        session('s-2', { startsAt: '2026-10-20T20:00:00.000Z' }),
+      ];
+
+      const result = applyPlaySessionEvent(sessions, {
+        type: 'play-session:created',
+        session: session('s-3', { startsAt: '2026-10-20T18:00:00.000Z' }),
+      });
+
+      expect(result.map((s) => s.id)).toEqual(['s-1', 's-3', 's-2']);
+    });
+
+    it('keeps sessions at the same time in the order they were created', () => {
+      const sessions = [session('s-1', { createdAt: '2026-10-19T19:00:00.000Z' })];
+
+      const result = applyPlaySessionEvent(sessions, {
+        type: 'play-session:created',
+        session: session('s-2', { createdAt: '2026-10-19T17:00:00.000Z' }),
+      });
+
+      expect(result.map((s) => s.id)).toEqual(['s-2', 's-1']);
+    });
+
+    it('replaces the loaded copy of an updated session', () => {
+      const updated = session('s-1', {
+        openSeats: 2,
+        participants: [{ id: 'user-1', name: 'Anna' }, { id: 'user-2', name: 'Ben' }],
+      });
+
+      const result = applyPlaySessionEvent([session('s-1')], { type: 'play-session:updated', session: updated });
+
+      expect(result).toEqual([updated]);
+    });
+
+    it('drops deleted sessions', () => {
+      const result = applyPlaySessionEvent([session('s-1'), session('s-2')], {
+        type: 'play-session:deleted',
+        sessionId: 's-1',
+      });
+
+      expect(result.map((s) => s.id)).toEqual(['s-2']);
+    });
+  });
+
+  describe('isSeated', () => {
+    it('is true only for participants of the session', () => {
+      expect(isSeated(session('s-1'), 'user-1')).toBe(true);
+      expect(isSeated(session('s-1'), 'user-2')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Activity Feed Utilities
+ *
+ * Time range presets for the Neuigkeiten page and merging of live
+ * activity:created entries into a loaded feed.
+ */
+
+import type { ActivityEntry, ActivityFeedFilters } from '../types/activity';
+
+export type ActivityTimeRange = 'all' | 'hour' | 'yesterday' | 'week';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Start of a time range preset as ISO timestamp. "yesterday" starts at
+ * local midnight of the previous day, so it covers everything since then.
+ */
+export function getActivitySince(range: ActivityTimeRange, now: Date = new Date()): string | undefined {
+  switch (range) {
+    case 'all':
+      return undefined;
+    case 'hour':
+      return new Date(now.getTime() - HOUR_MS).toISOString();
+    case 'yesterday': {
+      const start = new Date(now);
+      start.setHours(0, 0, 0, 0);
+      start.setDate(start.getDate() - 1);
+      return start.toISOString();
+    }
+    case 'week':
+      return new Date(now.getTime() - 7 * 24 * HOUR_MS).toISOString();
+  }
+}
+
+/**
+ * Whether a live entry belongs into a feed loaded with the given filters
+ */
+export function matchesActivityFilters(entry: ActivityEntry, filters: ActivityFeedFilters): boolean {
+  if (filters.types?.length && !filters.types.includes(entry.type)) return false;
+  if (filters.actorId && entry.actor.id !== filters.actorId) return false;
+  if (filters.gameId && entry.game?.id !== filters.gameId) return false;
+  if (filters.since && entry.createdAt < filters.since) return false;
+  if (filters.until && entry.createdAt > filters.until) return false;
+  return true;
+}
+
+/**
+ * Put a live entry on top of the feed; entries already loaded are kept as they are
+ */
+export function prependActivity(entries: ActivityEntry[], entry: ActivityEntry): ActivityEntry[] {
+  if (entries.some((existing) => existing.id === entry.id)) {
+    return entries;
+  }
+  return [entry, ...entries];
+}
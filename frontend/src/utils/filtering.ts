@@ -15,6 +15,7 @@
 
 import type { Game } from '../types';
 import { fuzzyMatch } from './fuzzyMatch';
+import { gameFitsPlayerCount, gameFitsDuration } from './gameFiltering';
 
 /**
  * Filter state interface for all game filters
@@ -36,6 +37,10 @@ export interface FilterState {
   hiddenOnly: boolean;
   /** Filter by prototype status */
   prototypeFilter: PrototypeFilter;
+  /** Filter to show only games that seat this many players (null = off) */
+  playerCount: number | null;
+  /** Filter to show only games played within this many minutes (null = off) */
+  maxDuration: number | null;
 }
 
 export type PrototypeFilter = 'all' | 'exclude' | 'only';
@@ -52,6 +57,8 @@ export const DEFAULT_FILTER_STATE: FilterState = {
   playerOnly: false,
   hiddenOnly: false,
   prototypeFilter: 'all',
+  playerCount: null,
+  maxDuration: null,
 };
 
 /**
@@ -206,6 +213,32 @@ export function filterPrototypeGames(games: Game[], filter: PrototypeFilter): Ga
   }
 }
 
+/**
+ * Filters games to show only games that seat the given number of players.
+ * Games without BGG player count are left out while the filter is on.
+ * 
+ * @param games - Array of games to filter
+ * @param playerCount - Number of players at the table, or null to disable the filter
+ * @returns Filtered array of games
+ */
+export function filterByPlayerCount(games: Game[], playerCount: number | null): Game[] {
+  if (playerCount === null) return games;
+  return games.filter((game) => gameFitsPlayerCount(game, playerCount));
+}
+
+/**
+ * Filters games to show only games played within the given number of minutes.
+ * Games without BGG play time are left out while the filter is on.
+ * 
+ * @param games - Array of games to filter
+ * @param maxDuration - Maximum play time in minutes, or null to disable the filter
+ * @returns Filtered array of games
+ */
+export function filterByDuration(games: Game[], maxDuration: number | null): Game[] {
+  if (maxDuration === null) return games;
+  return games.filter((game) => gameFitsDuration(game, maxDuration));
+}
+
 /**
  * Filters games based on hidden status.
  * - hiddenOnly: return only hidden games
@@ -219,7 +252,7 @@ export function filterHiddenGames(games: Game[], hiddenOnly: boolean): Game[] {
 
 /**
  * Applies all filters to a game list.
- * Filters are applied in sequence: name → player → bringer → wunsch → bringerOnly → playerOnly → prototype → hidden.
+ * Filters are applied in sequence: name → player → bringer → wunsch → bringerOnly → playerOnly → prototype → player count → duration → hidden.
  * 
  * @param games - Array of games to filter
  * @param filters - Filter state object
@@ -245,6 +278,8 @@ export function applyAllFilters(
   result = filterMyGames(result, currentParticipantName, filters.myGamesOnly);
   result = filterPlayerGames(result, currentParticipantName, filters.playerOnly);
   result = filterPrototypeGames(result, filters.prototypeFilter);
+  result = filterByPlayerCount(result, filters.playerCount);
+  result = filterByDuration(result, filters.maxDuration);
   result = filterHiddenGames(result, filters.hiddenOnly);
   
   return result;
@@ -265,6 +300,8 @@ export function hasActiveFilters(filters: FilterState): boolean {
     filters.myGamesOnly ||
     filters.playerOnly ||
     filters.hiddenOnly ||
-    filters.prototypeFilter !== 'all'
+    filters.prototypeFilter !== 'all' ||
+    filters.playerCount !== null ||
+    filters.maxDuration !== null
   );
 }
@@ -258,3 +258,33 @@ export function countMatchingGames(games: Game[], query: string): number {
   
   return filterGamesByNameWithScores(games, query).length;
 }
+
+/**
+ * Checks if a game seats the given number of players according to its BGG data.
+ * Games without a player count (not on BGG or not enriched yet) never fit.
+ *
+ * @example
+ * gameFitsPlayerCount(catanGame, 4) // true (3-4 players)
+ * gameFitsPlayerCount(catanGame, 5) // false
+ */
+export function gameFitsPlayerCount(game: Game, playerCount: number): boolean {
+  if (game.minPlayers === null && game.maxPlayers === null) {
+    return false;
+  }
+  const minPlayers = game.minPlayers ?? game.maxPlayers!;
+  const maxPlayers = game.maxPlayers ?? game.minPlayers!;
+  return minPlayers <= playerCount && playerCount <= maxPlayers;
+}
+
+/**
+ * Checks if a game is played within the given number of minutes according to its BGG data.
+ * The upper end of the play time counts; games without a play time never fit.
+ *
+ * @example
+ * gameFitsDuration(catanGame, 120) // true (60-120 minutes)
+ * gameFitsDuration(catanGame, 90) // false
+ */
+export function gameFitsDuration(game: Game, maxMinutes: number): boolean {
+  const playTime = game.maxPlayTime ?? game.minPlayTime;
+  return playTime !== null && playTime <= maxMinutes;
+}
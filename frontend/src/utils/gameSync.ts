@@ -0,0 +1,37 @@
+/**
+ * Game Sync Utilities
+ *
+ * Apply a delta of the game list (GET /api/games?since=<cursor>) to the
+ * loaded list, so a resync does not have to load every game again. Games
+ * that did not change keep their object identity.
+ */
+
+import type { Game, GameChangesResponse } from '../types';
+
+/**
+ * Replaces changed games in place, appends new ones and drops deleted ones.
+ * A full response replaces the whole list.
+ */
+export function mergeGameChanges(games: Game[], changes: GameChangesResponse): Game[] {
+  if (changes.full) {
+    return changes.games;
+  }
+
+  const deleted = new Set(changes.deletedGameIds);
+  const changed = new Map(
+    changes.games.filter((game) => !deleted.has(game.id)).map((game) => [game.id, game])
+  );
+
+  const merged = games
+    .filter((game) => !deleted.has(game.id))
+    .map((game) => {
+      const update = changed.get(game.id);
+      if (!update) {
+        return game;
+      }
+      changed.delete(game.id);
+      return update;
+    });
+
+  return [...merged, ...changed.values()];
+}
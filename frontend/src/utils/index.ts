@@ -25,6 +25,8 @@ export {
   filterWunschGames,
   filterMyGames,
   filterPrototypeGames,
+  filterByPlayerCount,
+  filterByDuration,
   applyAllFilters,
   hasActiveFilters,
   DEFAULT_FILTER_STATE,
@@ -49,8 +51,20 @@ export {
   getHighlightedGameIds,
   getMatchingGamesWithBringers,
   countMatchingGames,
+  gameFitsPlayerCount,
+  gameFitsDuration,
 } from './gameFiltering';
 
 export type { GameWithBringerInfo } from './gameFiltering';
 
-export { getToastMessage, shouldShowToast } from './toastMessages';
+export { getToastMessage, getPromotionToastMessage, getMergeToastMessage, shouldShowToast } from './toastMessages';
+
+export { renameParticipantInGames, removeParticipantFromGames } from './participantUpdates';
+
+export { mergeGameChanges } from './gameSync';
+
+export { getActivitySince, matchesActivityFilters, prependActivity } from './activityFeed';
+
+export type { ActivityTimeRange } from './activityFeed';
+
+export { applyPlaySessionEvent, isSeated } from './playSessions';
@@ -0,0 +1,55 @@
+/**
+ * Participant Update Utilities
+ *
+ * Patch a loaded game list when participants are renamed or leave the event,
+ * so live updates do not need a reload. Games that are not affected keep
+ * their object identity.
+ */
+
+import type { Game, Participant } from '../types';
+import { deriveGameStatus } from './gameStatus';
+
+const involvesParticipant = (game: Game, participantId: string): boolean =>
+  game.owner?.id === participantId ||
+  game.players.some((player) => player.participant.id === participantId) ||
+  game.bringers.some((bringer) => bringer.participant.id === participantId);
+
+/**
+ * Replaces the name of a participant wherever it appears as owner, player or bringer.
+ */
+export function renameParticipantInGames(games: Game[], participantId: string, name: string): Game[] {
+  const rename = (participant: Participant): Participant =>
+    participant.id === participantId ? { ...participant, name } : participant;
+
+  return games.map((game) => {
+    if (!involvesParticipant(game, participantId)) {
+      return game;
+    }
+    return {
+      ...game,
+      owner: game.owner ? rename(game.owner) : null,
+      players: game.players.map((player) => ({ ...player, participant: rename(player.participant) })),
+      bringers: game.bringers.map((bringer) => ({ ...bringer, participant: rename(bringer.participant) })),
+    };
+  });
+}
+
+/**
+ * Removes a deleted participant from all games, mirroring the database:
+ * player and bringer entries are deleted and owned games lose their owner.
+ */
+export function removeParticipantFromGames(games: Game[], participantId: string): Game[] {
+  return games.map((game) => {
+    if (!involvesParticipant(game, participantId)) {
+      return game;
+    }
+    const bringers = game.bringers.filter((bringer) => bringer.participant.id !== participantId);
+    return {
+      ...game,
+      owner: game.owner?.id === participantId ? null : game.owner,
+      players: game.players.filter((player) => player.participant.id !== participantId),
+      bringers,
+      status: deriveGameStatus(bringers.length),
+    };
+  });
+}
@@ -0,0 +1,34 @@
+/**
+ * Play Session Utilities
+ *
+ * Merging of live play-session events into the loaded list of the Runden page.
+ */
+
+import type { PlaySession } from '../types/playSession';
+import type { PlaySessionEvent } from '../types';
+
+/**
+ * Sessions soonest first; sessions at the same time in the order they were created
+ */
+function compareSessions(a: PlaySession, b: PlaySession): number {
+  return a.startsAt.localeCompare(b.startsAt) || a.createdAt.localeCompare(b.createdAt);
+}
+
+/**
+ * Apply a play-session event to a session list. Created and updated sessions
+ * replace a loaded copy, deleted sessions are dropped.
+ */
+export function applyPlaySessionEvent(sessions: PlaySession[], event: PlaySessionEvent): PlaySession[] {
+  if (event.type === 'play-session:deleted') {
+    return sessions.filter((session) => session.id !== event.sessionId);
+  }
+  const others = sessions.filter((session) => session.id !== event.session.id);
+  return [...others, event.session].sort(compareSessions);
+}
+
+/**
+ * Whether the participant has a seat in the session
+ */
+export function isSeated(session: PlaySession, participantId: string): boolean {
+  return session.participants.some((participant) => participant.id === participantId);
+}
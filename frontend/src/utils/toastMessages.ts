@@ -1,4 +1,11 @@
-import type { SSEEvent, GameCreatedEvent, BringerAddedEvent, PlayerAddedEvent } from '../types';
+import type {
+  SSEEvent,
+  GameCreatedEvent,
+  BringerAddedEvent,
+  PlayerAddedEvent,
+  ParticipantPromotedEvent,
+  ParticipantMergedEvent,
+} from '../types';
 
 /**
  * Get the toast message for an SSE event.
@@ -40,6 +47,28 @@ export function getToastMessage(event: SSEEvent): string | null {
   }
 }
 
+/**
+ * Get the toast message for a participant moving up from the waitlist.
+ * The promoted participant gets a personal message, everyone else sees the name.
+ */
+export function getPromotionToastMessage(event: ParticipantPromotedEvent, currentParticipantId: string): string {
+  if (event.participantId === currentParticipantId) {
+    return 'Du bist von der Warteliste nachgerückt!';
+  }
+  return `${event.participantName} ist von der Warteliste nachgerückt`;
+}
+
+/**
+ * Get the toast message for the participant an organizer merged into another one.
+ * Only the merged participant is told; for everyone else the list just refreshes.
+ */
+export function getMergeToastMessage(event: ParticipantMergedEvent, currentParticipantId: string): string | null {
+  if (event.sourceParticipantId !== currentParticipantId) {
+    return null;
+  }
+  return `Dein Eintrag wurde mit ${event.targetParticipantName} zusammengeführt`;
+}
+
 /**
  * Check if an event should trigger a toast notification.
  * game:created, game:bringer-added, and game:player-added events trigger toasts.